@@ -14,6 +14,17 @@ import {
   ServiceNowBridgeService,
   BridgeResponse,
 } from "../services/ServiceNowBridgeService";
+import {
+  ResumableTransfer,
+  type ResumableDownloadResult,
+  type ResumableTransferOptions,
+  type ResumableUploadOptions,
+  type ResumableUploadResult,
+} from "./ResumableTransfer";
+import {
+  authorizedFetch,
+  type AuthProvider,
+} from "../services/auth/AuthProvider";
 
 export interface IAttachmentAPI {
   get(sysId: string): Promise<ServiceNowRecord | null>;
@@ -53,6 +64,18 @@ export interface IAttachmentAPI {
     file: File | Buffer | Blob,
     onProgress?: (progress: number) => void,
   ): Promise<string>;
+  getFileRange(sysId: string, start: number, end?: number): Promise<Response>;
+  resumableUpload(
+    filePath: string,
+    table: string,
+    tableSysId: string,
+    options?: ResumableUploadOptions,
+  ): Promise<ResumableUploadResult>;
+  resumableDownload(
+    sysId: string,
+    destPath: string,
+    options?: ResumableTransferOptions,
+  ): Promise<ResumableDownloadResult>;
   enableCaching(enabled: boolean): void;
   getCacheStats(): any;
 }
@@ -63,6 +86,7 @@ export class AttachmentAPI implements IAttachmentAPI {
   private cachingEnabled: boolean = true;
   private directServiceNowUrl: string;
   private headers: Record<string, string>;
+  private authProvider?: AuthProvider;
   private stats = {
     uploads: 0,
     downloads: 0,
@@ -78,20 +102,25 @@ export class AttachmentAPI implements IAttachmentAPI {
     private authToken: string,
     options: {
       enableCaching?: boolean;
+      bridgeService?: ServiceNowBridgeService;
+      authProvider?: AuthProvider; // replaces authToken on file requests
     } = {},
   ) {
     // Use ServiceNow Bridge Service directly for metadata operations
-    this.bridgeService = new ServiceNowBridgeService();
+    this.bridgeService = options.bridgeService || new ServiceNowBridgeService();
     this.apiId = `attachment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     this.cachingEnabled = options.enableCaching ?? true;
 
     // Direct ServiceNow URL for file operations (not self-referencing)
     this.directServiceNowUrl =
       process.env.SNC_INSTANCE_URL || "https://iberdrola.service-now.com";
+    this.authProvider = options.authProvider;
     this.headers = {
       "User-Agent": "BunSNC-ServiceNow-Client/1.0",
       Accept: "application/json",
-      Authorization: authToken || process.env.SNC_AUTH_TOKEN || "",
+      ...(!this.authProvider && {
+        Authorization: authToken || process.env.SNC_AUTH_TOKEN || "",
+      }),
     };
 
     console.log(
@@ -324,7 +353,7 @@ export class AttachmentAPI implements IAttachmentAPI {
         onProgress(0);
       }
 
-      const response = await fetch(
+      const response = await this.request(
         `${this.directServiceNowUrl}/api/now/attachment/file`,
         {
           method: "POST",
@@ -431,7 +460,7 @@ export class AttachmentAPI implements IAttachmentAPI {
         }
       }
 
-      const response = await fetch(
+      const response = await this.request(
         `${this.directServiceNowUrl}/api/now/attachment/${sysId}/file`,
         {
           method: "GET",
@@ -621,7 +650,7 @@ export class AttachmentAPI implements IAttachmentAPI {
 
       // Try to access the file to check if it's accessible
       try {
-        const response = await fetch(
+        const response = await this.request(
           `${this.directServiceNowUrl}/api/now/attachment/${sysId}/file`,
           {
             method: "HEAD",
@@ -675,6 +704,69 @@ export class AttachmentAPI implements IAttachmentAPI {
     }
   }
 
+  /**
+   * Get a byte range of an attachment file (end inclusive, open when omitted).
+   * Answers 206 when the server honours Range, 200 with the whole file otherwise.
+   */
+  async getFileRange(
+    sysId: string,
+    start: number,
+    end?: number,
+  ): Promise<Response> {
+    const response = await this.request(
+      `${this.directServiceNowUrl}/api/now/attachment/${sysId}/file`,
+      {
+        method: "GET",
+        headers: { ...this.headers, Range: `bytes=${start}-${end ?? ""}` },
+        signal: AbortSignal.timeout(900000), // 15 minutes timeout
+      },
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw createExceptionFromResponse(response.status, errorText, response);
+    }
+    return response;
+  }
+
+  /**
+   * Upload a local file in parts that can be resumed after a failure
+   */
+  async resumableUpload(
+    filePath: string,
+    table: string,
+    tableSysId: string,
+    options: ResumableUploadOptions = {},
+  ): Promise<ResumableUploadResult> {
+    const result = await new ResumableTransfer(this).upload(
+      filePath,
+      table,
+      tableSysId,
+      options,
+    );
+    this.stats.uploads++;
+    this.stats.totalSize += result.size;
+    return result;
+  }
+
+  /**
+   * Download an attachment to a local file with Range requests, verifying
+   * its checksum; resumes a previous partial download
+   */
+  async resumableDownload(
+    sysId: string,
+    destPath: string,
+    options: ResumableTransferOptions = {},
+  ): Promise<ResumableDownloadResult> {
+    const result = await new ResumableTransfer(this).download(
+      sysId,
+      destPath,
+      options,
+    );
+    this.stats.downloads++;
+    return result;
+  }
+
   /**
    * Enable or disable caching
    */
@@ -809,4 +901,13 @@ export class AttachmentAPI implements IAttachmentAPI {
       apiId: this.apiId,
     });
   }
+
+  /**
+   * File request to the instance, through the auth provider when there is one
+   */
+  private request(url: string, init: RequestInit): Promise<Response> {
+    return this.authProvider
+      ? authorizedFetch(this.authProvider, url, init)
+      : fetch(url, init);
+  }
 }
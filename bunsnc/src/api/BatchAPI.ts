@@ -7,6 +7,7 @@ import { GlideRecord } from "../record/GlideRecord";
 import { logger } from "../utils/Logger";
 import { cache } from "../utils/Cache";
 import type { ServiceNowRecord } from "../types/servicenow";
+import type { BatchRestRequest } from "../services/ServiceNowBridgeService";
 
 export interface BatchRequest {
   id: string;
@@ -14,6 +15,15 @@ export interface BatchRequest {
   table: string;
   sysId?: string;
   data?: ServiceNowRecord;
+  // POST only: uploads a file to the table/sysId record instead of a Table API call
+  attachment?: {
+    fileName: string;
+    content: Buffer | Uint8Array | string;
+    contentType?: string;
+  };
+  // executeGraph: requests that must succeed first. Requests referenced by
+  // {{id.field}} placeholders in table, sysId, data or fileName are added
+  dependsOn?: string[];
   callback?: (result: any, error?: Error) => void;
 }
 
@@ -27,9 +37,20 @@ export interface BatchResult {
   retryCount?: number;
 }
 
+export interface BatchNodeResult extends BatchResult {
+  status: "succeeded" | "failed" | "skipped";
+  level: number; // batch round the request was scheduled in
+  dependsOn: string[];
+}
+
+// {{create.sys_id}}, {{create.number}}; the field defaults to sys_id
+const PLACEHOLDER = /\{\{\s*([\w-]+)(?:\.([\w.]+))?\s*\}\}/g;
+
 export interface IBatchAPI {
   addRequest(request: BatchRequest, callback?: Function): void;
   execute(attempt?: number): Promise<BatchResult[]>;
+  executeBatch(requests?: BatchRequest[]): Promise<BatchResult[]>;
+  executeGraph(requests?: BatchRequest[]): Promise<BatchNodeResult[]>;
   get(record: GlideRecord, sysId: string, callback: Function): void;
   post(record: GlideRecord, callback: Function): void;
   put(record: GlideRecord, callback: Function): void;
@@ -50,6 +71,7 @@ export class BatchAPI implements IBatchAPI {
   private maxRetries: number = 3;
   private retryDelay: number = 1000; // 1 second
   private concurrencyLimit: number = 10;
+  private batchSize: number = 100;
   private batchId: string;
   private cachingEnabled: boolean = true;
   private stats = {
@@ -68,12 +90,14 @@ export class BatchAPI implements IBatchAPI {
       maxRetries?: number;
       retryDelay?: number;
       concurrencyLimit?: number;
+      batchSize?: number; // requests per /api/now/v1/batch call
       enableCaching?: boolean;
     } = {},
   ) {
     this.maxRetries = options.maxRetries || 3;
     this.retryDelay = options.retryDelay || 1000;
     this.concurrencyLimit = options.concurrencyLimit || 10;
+    this.batchSize = options.batchSize || 100;
     this.cachingEnabled = options.enableCaching ?? true;
     this.batchId = `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
@@ -258,6 +282,202 @@ export class BatchAPI implements IBatchAPI {
     }
   }
 
+  /**
+   * Execute requests through the ServiceNow Batch API, batchSize requests per
+   * call. Calls are sent in order and stop at the first call that fails as a
+   * whole (throttling, network): its requests and the unsent ones come back
+   * failed without a statusCode, since the instance gave no answer for them.
+   */
+  async executeBatch(
+    requests: BatchRequest[] = this.requests,
+  ): Promise<BatchResult[]> {
+    if (requests.length === 0) {
+      return [];
+    }
+
+    const pending = requests === this.requests;
+    const operation = logger.operation(
+      "batch_execute_rest",
+      "batch",
+      this.batchId,
+      {
+        requestCount: requests.length,
+        batchSize: this.batchSize,
+      },
+    );
+
+    const startTime = performance.now();
+    const results: BatchResult[] = [];
+    let failure: Error | undefined;
+
+    for (const chunk of this.chunkRequests(requests, this.batchSize)) {
+      if (failure) {
+        results.push(...chunk.map((request) => this.failed(request, failure!)));
+        continue;
+      }
+
+      const chunkStartTime = performance.now();
+      try {
+        const response = await this.tableAPI.executeBatch(
+          chunk.map((request) => this.toRestRequest(request)),
+          `${this.batchId}_${results.length}`,
+        );
+        const duration = performance.now() - chunkStartTime;
+
+        for (const request of chunk) {
+          const serviced = response.serviced_requests?.find(
+            (item: { id: string }) => item.id === request.id,
+          );
+          const result: BatchResult = serviced
+            ? this.fromServiced(request, serviced, duration)
+            : {
+                id: request.id,
+                success: false,
+                error: "Request not serviced by the batch call",
+                duration,
+                retryCount: 0,
+              };
+          this.notify(request, result);
+          results.push(result);
+        }
+      } catch (error: unknown) {
+        failure = error instanceof Error ? error : new Error(String(error));
+        results.push(...chunk.map((request) => this.failed(request, failure!)));
+      }
+    }
+
+    const successful = results.filter((r) => r.success).length;
+    const totalDuration = performance.now() - startTime;
+    this.stats.totalRequests += requests.length;
+    this.stats.successfulRequests += successful;
+    this.stats.failedRequests += requests.length - successful;
+    this.stats.totalDuration += totalDuration;
+    this.stats.averageResponseTime =
+      this.stats.totalDuration / this.stats.totalRequests;
+
+    if (failure) {
+      operation.error("Batch API call failed", failure);
+    } else {
+      operation.success("Batch API execution completed", {
+        totalRequests: requests.length,
+        successful,
+        failed: requests.length - successful,
+        duration: totalDuration,
+      });
+    }
+
+    if (pending) {
+      this.clear();
+    }
+    return results;
+  }
+
+  /**
+   * Execute requests as a dependency graph: each round sends the requests
+   * whose dependencies have succeeded through the Batch API, with
+   * placeholders filled from earlier results. Requests depending on a failed
+   * one are skipped. Unknown dependencies and cycles fail before anything is sent.
+   */
+  async executeGraph(
+    requests: BatchRequest[] = this.requests,
+  ): Promise<BatchNodeResult[]> {
+    if (requests.length === 0) {
+      return [];
+    }
+
+    const pending = requests === this.requests;
+    const dependencies = this.dependencyMap(requests);
+    const levels = this.planLevels(requests, dependencies);
+    const operation = logger.operation(
+      "batch_execute_graph",
+      "batch",
+      this.batchId,
+      {
+        requestCount: requests.length,
+        levels: levels.length,
+      },
+    );
+
+    const results = new Map<string, BatchNodeResult>();
+    for (const [level, nodes] of levels.entries()) {
+      const ready: BatchRequest[] = [];
+
+      for (const node of nodes) {
+        const dependsOn = dependencies.get(node.id)!;
+        const blocked = dependsOn.find(
+          (id) => results.get(id)?.status !== "succeeded",
+        );
+        if (blocked) {
+          const result: BatchNodeResult = {
+            id: node.id,
+            success: false,
+            status: "skipped",
+            error: `Dependency ${blocked} did not succeed`,
+            level,
+            dependsOn,
+          };
+          this.notify(node, result);
+          results.set(node.id, result);
+          continue;
+        }
+
+        try {
+          ready.push(this.resolvePlaceholders(node, results));
+        } catch (error: unknown) {
+          const result: BatchNodeResult = {
+            id: node.id,
+            success: false,
+            status: "failed",
+            error: (error as Error).message,
+            level,
+            dependsOn,
+          };
+          this.notify(node, result);
+          results.set(node.id, result);
+        }
+      }
+
+      const batchResults = await this.executeBatch(ready);
+      batchResults.forEach((result, index) => {
+        results.set(ready[index].id, {
+          ...result,
+          status: result.success ? "succeeded" : "failed",
+          level,
+          dependsOn: dependencies.get(ready[index].id)!,
+        });
+      });
+    }
+
+    const ordered = requests.map((request) => results.get(request.id)!);
+    const count = (status: BatchNodeResult["status"]) =>
+      ordered.filter((result) => result.status === status).length;
+    if (count("succeeded") === ordered.length) {
+      operation.success("Batch graph completed", {
+        totalRequests: ordered.length,
+        levels: levels.length,
+      });
+    } else {
+      operation.error(
+        "Batch graph completed with failures",
+        new Error(
+          `${count("failed")} failed, ${count("skipped")} skipped of ${ordered.length}`,
+        ),
+      );
+    }
+
+    if (pending) {
+      this.clear();
+    }
+    return ordered;
+  }
+
+  /**
+   * Placeholder for a field of an earlier request's result
+   */
+  static ref(requestId: string, field: string = "sys_id"): string {
+    return `{{${requestId}.${field}}}`;
+  }
+
   /**
    * Add GET request for GlideRecord
    */
@@ -495,6 +715,17 @@ export class BatchAPI implements IBatchAPI {
       }
 
       let result: any;
+      if (request.attachment) {
+        const { fileName, content, contentType } = request.attachment;
+        return await this.attachmentAPI.upload(
+          fileName,
+          request.table,
+          request.sysId!,
+          Buffer.from(content as Uint8Array),
+          contentType,
+        );
+      }
+
       switch (request.method) {
         case "GET":
           if (request.sysId) {
@@ -584,6 +815,259 @@ export class BatchAPI implements IBatchAPI {
     }
   }
 
+  /**
+   * Build the Batch API form of a request (bodies are base64 JSON)
+   */
+  private toRestRequest(request: BatchRequest): BatchRestRequest {
+    if (request.attachment) {
+      const { fileName, content, contentType } = request.attachment;
+      const params = new URLSearchParams({
+        table_name: request.table,
+        table_sys_id: request.sysId || "",
+        file_name: fileName,
+      });
+      return {
+        id: request.id,
+        method: "POST",
+        url: `/api/now/attachment/file?${params.toString()}`,
+        headers: [
+          {
+            name: "Content-Type",
+            value: contentType || "application/octet-stream",
+          },
+          { name: "Accept", value: "application/json" },
+        ],
+        body: Buffer.from(content as Uint8Array).toString("base64"),
+        exclude_response_headers: true,
+      };
+    }
+
+    const headers = [
+      { name: "Content-Type", value: "application/json" },
+      { name: "Accept", value: "application/json" },
+    ];
+    return {
+      id: request.id,
+      method: request.method,
+      url: `/api/now/table/${request.table}${request.sysId ? `/${request.sysId}` : ""}`,
+      headers,
+      ...(request.data
+        ? {
+            body: Buffer.from(JSON.stringify(request.data)).toString("base64"),
+          }
+        : {}),
+      exclude_response_headers: true,
+    };
+  }
+
+  private fromServiced(
+    request: BatchRequest,
+    serviced: { status_code: number; status_text: string; body?: string },
+    duration: number,
+  ): BatchResult {
+    let payload: any;
+    if (serviced.body) {
+      try {
+        payload = JSON.parse(Buffer.from(serviced.body, "base64").toString());
+      } catch {
+        payload = undefined;
+      }
+    }
+
+    if (serviced.status_code >= 200 && serviced.status_code < 300) {
+      if (this.cachingEnabled) {
+        if (request.method === "GET" && request.sysId && payload?.result) {
+          cache.cacheRecord(request.table, request.sysId, payload.result);
+        } else if (request.method !== "GET") {
+          cache.invalidateTable(request.table);
+        }
+      }
+      return {
+        id: request.id,
+        success: true,
+        result: request.method === "DELETE" ? true : payload?.result,
+        statusCode: serviced.status_code,
+        duration,
+        retryCount: 0,
+      };
+    }
+
+    return {
+      id: request.id,
+      success: false,
+      error:
+        payload?.error?.message ||
+        `${serviced.status_code} ${serviced.status_text}`,
+      statusCode: serviced.status_code,
+      duration,
+      retryCount: 0,
+    };
+  }
+
+  private failed(request: BatchRequest, error: Error): BatchResult {
+    const result: BatchResult = {
+      id: request.id,
+      success: false,
+      error: error.message,
+      retryCount: 0,
+    };
+    this.notify(request, result);
+    return result;
+  }
+
+  private notify(request: BatchRequest, result: BatchResult): void {
+    if (!request.callback) {
+      return;
+    }
+    try {
+      if (result.success) {
+        request.callback(result.result);
+      } else {
+        const error = new Error(result.error);
+        (error as any).statusCode = result.statusCode;
+        request.callback(null, error);
+      }
+    } catch (callbackError) {
+      logger.warn("Batch callback error", "BatchAPI", {
+        batchId: this.batchId,
+        requestId: request.id,
+        error: (callbackError as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Explicit dependencies plus the requests placeholders refer to
+   */
+  private dependencyMap(requests: BatchRequest[]): Map<string, string[]> {
+    const ids = new Set<string>();
+    for (const request of requests) {
+      if (ids.has(request.id)) {
+        throw new Error(`Duplicate batch request id: ${request.id}`);
+      }
+      ids.add(request.id);
+    }
+
+    const dependencies = new Map<string, string[]>();
+    for (const request of requests) {
+      const referenced = new Set(request.dependsOn ?? []);
+      const text = JSON.stringify([
+        request.table,
+        request.sysId,
+        request.data,
+        request.attachment?.fileName,
+      ]);
+      for (const match of text.matchAll(PLACEHOLDER)) {
+        referenced.add(match[1]);
+      }
+
+      for (const id of referenced) {
+        if (!ids.has(id)) {
+          throw new Error(
+            `Batch request ${request.id} depends on unknown request ${id}`,
+          );
+        }
+        if (id === request.id) {
+          throw new Error(`Batch request ${request.id} depends on itself`);
+        }
+      }
+      dependencies.set(request.id, [...referenced]);
+    }
+    return dependencies;
+  }
+
+  /**
+   * Group requests into rounds: a request runs one round after its last dependency
+   */
+  private planLevels(
+    requests: BatchRequest[],
+    dependencies: Map<string, string[]>,
+  ): BatchRequest[][] {
+    const levels: BatchRequest[][] = [];
+    const levelOf = new Map<string, number>();
+    let remaining = requests;
+
+    while (remaining.length > 0) {
+      const placed = remaining.filter((request) =>
+        dependencies.get(request.id)!.every((id) => levelOf.has(id)),
+      );
+      if (placed.length === 0) {
+        throw new Error(
+          `Batch requests have a dependency cycle: ${remaining.map((r) => r.id).join(", ")}`,
+        );
+      }
+
+      for (const request of placed) {
+        const level = Math.max(
+          0,
+          ...dependencies.get(request.id)!.map((id) => levelOf.get(id)! + 1),
+        );
+        levelOf.set(request.id, level);
+        (levels[level] ??= []).push(request);
+      }
+      remaining = remaining.filter((request) => !levelOf.has(request.id));
+    }
+    return levels;
+  }
+
+  /**
+   * Copy of the request with {{id.field}} placeholders filled in. A value that
+   * is only a placeholder takes the referenced value as is.
+   */
+  private resolvePlaceholders(
+    request: BatchRequest,
+    results: Map<string, BatchNodeResult>,
+  ): BatchRequest {
+    const lookup = (id: string, field: string = "sys_id"): any => {
+      let value: any = results.get(id)?.result;
+      for (const key of field.split(".")) {
+        value = value?.[key];
+      }
+      // Records read with display values carry { value, display_value }
+      if (value && typeof value === "object" && "value" in value) {
+        value = value.value;
+      }
+      if (value === undefined || value === null) {
+        throw new Error(
+          `Unresolved placeholder {{${id}.${field}}} in batch request ${request.id}`,
+        );
+      }
+      return value;
+    };
+
+    const resolve = (value: any): any => {
+      if (typeof value === "string") {
+        const whole = /^\{\{\s*([\w-]+)(?:\.([\w.]+))?\s*\}\}$/.exec(value);
+        if (whole) {
+          return lookup(whole[1], whole[2]);
+        }
+        return value.replace(PLACEHOLDER, (_, id, field) =>
+          String(lookup(id, field)),
+        );
+      }
+      if (Array.isArray(value)) {
+        return value.map(resolve);
+      }
+      if (value && typeof value === "object") {
+        return Object.fromEntries(
+          Object.entries(value).map(([key, item]) => [key, resolve(item)]),
+        );
+      }
+      return value;
+    };
+
+    return {
+      ...request,
+      table: resolve(request.table),
+      sysId: request.sysId === undefined ? undefined : resolve(request.sysId),
+      data: request.data === undefined ? undefined : resolve(request.data),
+      attachment: request.attachment && {
+        ...request.attachment,
+        fileName: resolve(request.attachment.fileName),
+      },
+    };
+  }
+
   /**
    * Split requests into chunks for controlled concurrency
    */
@@ -617,6 +1101,7 @@ export class BatchAPI implements IBatchAPI {
         maxRetries: this.maxRetries,
         retryDelay: this.retryDelay,
         concurrencyLimit: this.concurrencyLimit,
+        batchSize: this.batchSize,
         cachingEnabled: this.cachingEnabled,
       },
     };
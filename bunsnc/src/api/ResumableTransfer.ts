@@ -0,0 +1,655 @@
+/**
+ * ResumableTransfer - Chunked attachment uploads and downloads that survive restarts
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * Uploads stage the file as parts next to a JSON manifest and only retry the
+ * parts that did not make it. Files larger than one part are stored as one
+ * attachment per part plus a "<name>.parts.json" attachment that lists them.
+ * Downloads write to "<dest>.part" with Range requests, continue from its
+ * size and verify the sha256 ServiceNow keeps in sys_attachment.hash.
+ */
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readSync,
+  renameSync,
+  rmSync,
+  statSync,
+  truncateSync,
+  writeFileSync,
+} from "fs";
+import { basename, join } from "path";
+import type { AttachmentAPI } from "./AttachmentAPI";
+import type { NotificationManager } from "../notifications/NotificationManager";
+import { logger } from "../utils/Logger";
+
+export const PARTS_FORMAT = "bunsnc-parts/1";
+
+export type TransferNotifier = Pick<NotificationManager, "notifyTask">;
+
+export interface ResumableTransferOptions {
+  resume?: boolean;
+  partSize?: number; // upload part size, default 16 MiB
+  chunkSize?: number; // download Range size, default 8 MiB
+  maxAttempts?: number; // per part or range, default 3
+  retryDelayMs?: number; // doubled after each failed attempt
+  notifier?: TransferNotifier;
+  taskId?: string;
+}
+
+export interface ResumableUploadOptions extends ResumableTransferOptions {
+  fileName?: string;
+  contentType?: string;
+}
+
+export interface UploadPart {
+  index: number;
+  offset: number;
+  size: number;
+  sha256: string;
+  status: "pending" | "uploaded" | "failed";
+  attempts: number;
+  attachmentId?: string;
+  error?: string;
+}
+
+export interface UploadManifest {
+  id: string;
+  filePath: string;
+  fileName: string;
+  contentType: string;
+  table: string;
+  tableSysId: string;
+  size: number;
+  mtimeMs: number;
+  partSize: number;
+  parts: UploadPart[];
+  attachmentId: string | null; // final attachment (single part or parts list)
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Content of the "<name>.parts.json" attachment
+export interface PartsManifest {
+  format: typeof PARTS_FORMAT;
+  fileName: string;
+  contentType: string;
+  size: number;
+  sha256: string;
+  parts: Array<{ attachmentId: string; size: number; sha256: string }>;
+}
+
+export interface ResumableUploadResult {
+  attachmentId: string;
+  size: number;
+  parts: number;
+  uploadedParts: number; // sent by this run
+  resumed: boolean;
+}
+
+export interface ResumableDownloadResult {
+  path: string;
+  size: number;
+  sha256: string;
+  resumedFrom: number;
+}
+
+export class ChecksumMismatchError extends Error {
+  constructor(
+    readonly sysId: string,
+    readonly expected: string,
+    readonly actual: string,
+  ) {
+    super(
+      `Checksum mismatch for attachment ${sysId}: expected ${expected}, got ${actual}`,
+    );
+    this.name = "ChecksumMismatchError";
+  }
+}
+
+export class IncompleteUploadError extends Error {
+  constructor(
+    readonly manifestPath: string,
+    readonly failedParts: number[],
+  ) {
+    super(
+      `Upload incomplete, ${failedParts.length} part(s) failed (${failedParts.join(", ")}); resume with the manifest ${manifestPath}`,
+    );
+    this.name = "IncompleteUploadError";
+  }
+}
+
+interface Segment {
+  sysId: string;
+  offset: number;
+  size: number;
+  sha256?: string;
+}
+
+interface DownloadState {
+  sysId: string;
+  size: number;
+  sha256: string;
+}
+
+const MiB = 1024 * 1024;
+
+export class ResumableTransfer {
+  constructor(private api: AttachmentAPI) {}
+
+  static manifestPath(filePath: string): string {
+    return `${filePath}.upload.json`;
+  }
+
+  /**
+   * Upload a local file in parts; with resume, parts already uploaded by a
+   * previous run of the same manifest are skipped
+   */
+  async upload(
+    filePath: string,
+    table: string,
+    tableSysId: string,
+    options: ResumableUploadOptions = {},
+  ): Promise<ResumableUploadResult> {
+    const manifestPath = ResumableTransfer.manifestPath(filePath);
+    const stat = statSync(filePath);
+    const previous =
+      options.resume && existsSync(manifestPath)
+        ? (JSON.parse(readFileSync(manifestPath, "utf-8")) as UploadManifest)
+        : null;
+
+    if (
+      previous &&
+      (previous.size !== stat.size || previous.mtimeMs !== stat.mtimeMs)
+    ) {
+      throw new Error(
+        `${filePath} changed since the upload started; run it again without resume`,
+      );
+    }
+
+    const manifest =
+      previous ??
+      this.createManifest(filePath, table, tableSysId, stat, options);
+    const stagingDir = `${filePath}.upload`;
+    const taskId = options.taskId ?? `attachment_upload_${manifest.id}`;
+    const notify = this.notifier(options, taskId, "attachment_upload");
+    const operation = logger.operation("resumable_upload", table, tableSysId, {
+      fileName: manifest.fileName,
+      parts: manifest.parts.length,
+      resumed: !!previous,
+    });
+
+    this.saveManifest(manifestPath, manifest);
+    await notify("started", { progress: this.uploadProgress(manifest) });
+
+    let uploadedParts = 0;
+    const single = manifest.parts.length === 1;
+    for (const part of manifest.parts) {
+      if (part.status === "uploaded") {
+        continue;
+      }
+
+      const data = this.stagePart(filePath, stagingDir, part);
+      try {
+        part.attachmentId = await this.retry(options, () => {
+          part.attempts++;
+          return this.api.uploadWithProgress(
+            single ? manifest.fileName : this.partName(manifest, part),
+            table,
+            tableSysId,
+            data,
+            undefined,
+            single ? manifest.contentType : "application/octet-stream",
+          );
+        });
+        part.status = "uploaded";
+        part.error = undefined;
+        uploadedParts++;
+      } catch (error: unknown) {
+        part.status = "failed";
+        part.error = (error as Error).message;
+      }
+      this.saveManifest(manifestPath, manifest);
+      await notify("progress", { progress: this.uploadProgress(manifest) });
+    }
+
+    const failed = manifest.parts.filter((part) => part.status !== "uploaded");
+    if (failed.length > 0) {
+      const error = new IncompleteUploadError(
+        manifestPath,
+        failed.map((part) => part.index),
+      );
+      operation.error("Resumable upload incomplete", error);
+      await notify("failed", {
+        progress: this.uploadProgress(manifest),
+        error: error.message,
+      });
+      throw error;
+    }
+
+    if (!manifest.attachmentId) {
+      try {
+        manifest.attachmentId = single
+          ? manifest.parts[0].attachmentId!
+          : await this.retry(options, () =>
+              this.api.uploadWithProgress(
+                `${manifest.fileName}.parts.json`,
+                table,
+                tableSysId,
+                Buffer.from(JSON.stringify(this.partsManifest(manifest))),
+                undefined,
+                "application/json",
+              ),
+            );
+      } catch (error: unknown) {
+        operation.error("Parts list upload failed", error as Error);
+        await notify("failed", { error: (error as Error).message });
+        throw error;
+      }
+      this.saveManifest(manifestPath, manifest);
+    }
+
+    rmSync(stagingDir, { recursive: true, force: true });
+    rmSync(manifestPath, { force: true });
+
+    const result: ResumableUploadResult = {
+      attachmentId: manifest.attachmentId,
+      size: manifest.size,
+      parts: manifest.parts.length,
+      uploadedParts,
+      resumed: !!previous,
+    };
+    operation.success("Resumable upload completed", result);
+    await notify("completed", { progress: 100, result });
+    return result;
+  }
+
+  /**
+   * Download an attachment (or a parts list) to destPath; with resume,
+   * continues the "<dest>.part" file of a previous run
+   */
+  async download(
+    sysId: string,
+    destPath: string,
+    options: ResumableTransferOptions = {},
+  ): Promise<ResumableDownloadResult> {
+    const partialPath = `${destPath}.part`;
+    const statePath = `${destPath}.download.json`;
+    const taskId = options.taskId ?? `attachment_download_${sysId}`;
+    const notify = this.notifier(options, taskId, "attachment_download");
+    const operation = logger.operation("resumable_download", undefined, sysId, {
+      destPath,
+      resume: !!options.resume,
+    });
+
+    try {
+      const metadata = await this.api.get(sysId);
+      if (!metadata) {
+        throw new Error(`Attachment not found: ${sysId}`);
+      }
+
+      let state: DownloadState = {
+        sysId,
+        size: Number(fieldValue(metadata.size_bytes)) || 0,
+        sha256: fieldValue(metadata.hash),
+      };
+      let segments: Segment[] = [{ sysId, offset: 0, size: state.size }];
+
+      const parts = await this.readPartsManifest(
+        sysId,
+        fieldValue(metadata.file_name),
+      );
+      if (parts) {
+        state = { sysId, size: parts.size, sha256: parts.sha256 };
+        let offset = 0;
+        segments = parts.parts.map((part) => {
+          const segment = { ...part, sysId: part.attachmentId, offset };
+          offset += part.size;
+          return segment;
+        });
+      }
+
+      const previous =
+        options.resume && existsSync(statePath) && existsSync(partialPath)
+          ? (JSON.parse(readFileSync(statePath, "utf-8")) as DownloadState)
+          : null;
+      let written =
+        previous &&
+        previous.sysId === state.sysId &&
+        previous.sha256 === state.sha256 &&
+        previous.size === state.size
+          ? statSync(partialPath).size
+          : 0;
+      if (written > state.size) {
+        written = 0;
+      }
+
+      const resumedFrom = written;
+      if (written === 0) {
+        writeFileSync(partialPath, new Uint8Array());
+      }
+      writeFileSync(statePath, JSON.stringify(state, null, 2));
+      await notify("started", { progress: percent(written, state.size) });
+
+      for (const segment of segments) {
+        const end = segment.offset + segment.size;
+        if (written >= end) {
+          continue;
+        }
+        written = await this.downloadSegment(
+          segment,
+          partialPath,
+          written,
+          options,
+          (position) =>
+            notify("progress", { progress: percent(position, state.size) }),
+        );
+        if (segment.sha256 && segments.length > 1) {
+          const actual = hashFile(partialPath, segment.offset, end);
+          if (actual !== segment.sha256) {
+            truncateSync(partialPath, segment.offset);
+            throw new ChecksumMismatchError(
+              segment.sysId,
+              segment.sha256,
+              actual,
+            );
+          }
+        }
+      }
+
+      const sha256 = hashFile(partialPath, 0, state.size);
+      if (state.sha256 && sha256 !== state.sha256) {
+        rmSync(partialPath, { force: true });
+        rmSync(statePath, { force: true });
+        throw new ChecksumMismatchError(sysId, state.sha256, sha256);
+      }
+
+      renameSync(partialPath, destPath);
+      rmSync(statePath, { force: true });
+
+      const result = { path: destPath, size: state.size, sha256, resumedFrom };
+      operation.success("Resumable download completed", result);
+      await notify("completed", { progress: 100, result });
+      return result;
+    } catch (error: unknown) {
+      operation.error("Resumable download failed", error as Error);
+      await notify("failed", { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  private createManifest(
+    filePath: string,
+    table: string,
+    tableSysId: string,
+    stat: { size: number; mtimeMs: number },
+    options: ResumableUploadOptions,
+  ): UploadManifest {
+    const partSize = options.partSize ?? 16 * MiB;
+    const parts: UploadPart[] = [];
+    for (
+      let offset = 0, index = 0;
+      offset < stat.size || index === 0;
+      offset += partSize, index++
+    ) {
+      parts.push({
+        index,
+        offset,
+        size: Math.min(partSize, stat.size - offset),
+        sha256: "",
+        status: "pending",
+        attempts: 0,
+      });
+    }
+
+    const now = new Date().toISOString();
+    return {
+      id: crypto.randomUUID(),
+      filePath,
+      fileName: options.fileName ?? basename(filePath),
+      contentType: options.contentType ?? "application/octet-stream",
+      table,
+      tableSysId,
+      size: stat.size,
+      mtimeMs: stat.mtimeMs,
+      partSize,
+      parts,
+      attachmentId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Read a part from its staged copy, re-staging it from the source when the
+   * copy is missing or does not match the recorded checksum
+   */
+  private stagePart(
+    filePath: string,
+    stagingDir: string,
+    part: UploadPart,
+  ): Buffer {
+    const stagedPath = join(
+      stagingDir,
+      `part-${String(part.index).padStart(5, "0")}`,
+    );
+    if (existsSync(stagedPath)) {
+      const staged = readFileSync(stagedPath);
+      if (part.sha256 && sha256Of(staged) === part.sha256) {
+        return staged;
+      }
+    }
+
+    const data = readPart(filePath, part.offset, part.size);
+    const sha256 = sha256Of(data);
+    if (part.sha256 && part.sha256 !== sha256) {
+      throw new Error(
+        `${filePath} changed since part ${part.index} was staged; run it again without resume`,
+      );
+    }
+    mkdirSync(stagingDir, { recursive: true });
+    writeFileSync(stagedPath, data);
+    part.sha256 = sha256;
+    return data;
+  }
+
+  /**
+   * Parts list written by upload(); the instance sets content types from the
+   * file extension, so it is recognised by name and format marker
+   */
+  private async readPartsManifest(
+    sysId: string,
+    fileName: string,
+  ): Promise<PartsManifest | null> {
+    if (!fileName.endsWith(".parts.json")) {
+      return null;
+    }
+    try {
+      const parts = JSON.parse(
+        await (await this.api.getFile(sysId, true)).text(),
+      );
+      return parts?.format === PARTS_FORMAT ? parts : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async downloadSegment(
+    segment: Segment,
+    partialPath: string,
+    position: number,
+    options: ResumableTransferOptions,
+    onProgress: (position: number) => Promise<void>,
+  ): Promise<number> {
+    const chunkSize = options.chunkSize ?? 8 * MiB;
+    const end = segment.offset + segment.size;
+
+    while (position < end) {
+      const start = position - segment.offset;
+      const last = Math.min(start + chunkSize, segment.size) - 1;
+      const bytes = await this.retry(options, async () => {
+        const response = await this.api.getFileRange(
+          segment.sysId,
+          start,
+          last,
+        );
+        const body = new Uint8Array(await response.arrayBuffer());
+        // A server ignoring Range sends the whole file
+        return response.status === 206 ? body : body.subarray(start, last + 1);
+      });
+      if (bytes.length === 0) {
+        throw new Error(
+          `Attachment ${segment.sysId} ended at ${start} of ${segment.size} bytes`,
+        );
+      }
+      appendFileSync(partialPath, bytes);
+      position += bytes.length;
+      await onProgress(position);
+    }
+    return position;
+  }
+
+  private async retry<T>(
+    options: ResumableTransferOptions,
+    attempt: () => Promise<T>,
+  ): Promise<T> {
+    const maxAttempts = options.maxAttempts ?? 3;
+    let delay = options.retryDelayMs ?? 1000;
+    for (let tries = 1; ; tries++) {
+      try {
+        return await attempt();
+      } catch (error: unknown) {
+        if (tries >= maxAttempts) {
+          throw error;
+        }
+        logger.warn(
+          "Attachment transfer attempt failed, retrying",
+          "ResumableTransfer",
+          {
+            attempt: tries,
+            error: (error as Error).message,
+          },
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        delay *= 2;
+      }
+    }
+  }
+
+  /**
+   * notifyTask wrapper; a failing notifier never fails the transfer
+   */
+  private notifier(
+    options: ResumableTransferOptions,
+    taskId: string,
+    taskType: string,
+  ) {
+    const started = Date.now();
+    return async (
+      status: "started" | "progress" | "completed" | "failed",
+      data: { progress?: number; result?: any; error?: string } = {},
+    ) => {
+      if (!options.notifier) {
+        return;
+      }
+      try {
+        await options.notifier.notifyTask({
+          taskId,
+          taskType,
+          status,
+          ...data,
+          duration:
+            status === "completed" || status === "failed"
+              ? Date.now() - started
+              : undefined,
+        });
+      } catch (error: unknown) {
+        logger.warn("Transfer notification failed", "ResumableTransfer", {
+          taskId,
+          error: (error as Error).message,
+        });
+      }
+    };
+  }
+
+  private uploadProgress(manifest: UploadManifest): number {
+    const sent = manifest.parts
+      .filter((part) => part.status === "uploaded")
+      .reduce((total, part) => total + part.size, 0);
+    return percent(sent, manifest.size);
+  }
+
+  private partName(manifest: UploadManifest, part: UploadPart): string {
+    return `${manifest.fileName}.part${String(part.index + 1).padStart(5, "0")}`;
+  }
+
+  private partsManifest(manifest: UploadManifest): PartsManifest {
+    const whole = new Bun.CryptoHasher("sha256");
+    for (const part of manifest.parts) {
+      whole.update(readPart(manifest.filePath, part.offset, part.size));
+    }
+    return {
+      format: PARTS_FORMAT,
+      fileName: manifest.fileName,
+      contentType: manifest.contentType,
+      size: manifest.size,
+      sha256: whole.digest("hex"),
+      parts: manifest.parts.map((part) => ({
+        attachmentId: part.attachmentId!,
+        size: part.size,
+        sha256: part.sha256,
+      })),
+    };
+  }
+
+  private saveManifest(path: string, manifest: UploadManifest): void {
+    manifest.updatedAt = new Date().toISOString();
+    writeFileSync(`${path}.tmp`, JSON.stringify(manifest, null, 2));
+    renameSync(`${path}.tmp`, path);
+  }
+}
+
+// display_value=all records wrap every field in { value, display_value }
+function fieldValue(field: any): string {
+  return field && typeof field === "object"
+    ? String(field.value ?? "")
+    : String(field ?? "");
+}
+
+function percent(done: number, total: number): number {
+  return total > 0 ? Math.floor((done / total) * 100) : 100;
+}
+
+function sha256Of(data: Uint8Array): string {
+  return new Bun.CryptoHasher("sha256").update(data).digest("hex");
+}
+
+function readPart(path: string, offset: number, size: number): Buffer {
+  const data = Buffer.alloc(size);
+  const fd = openSync(path, "r");
+  try {
+    let read = 0;
+    while (read < size) {
+      const count = readSync(fd, data, read, size - read, offset + read);
+      if (count === 0) {
+        break;
+      }
+      read += count;
+    }
+    return read === size ? data : data.subarray(0, read);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function hashFile(path: string, start: number, end: number): string {
+  const hasher = new Bun.CryptoHasher("sha256");
+  for (let offset = start; offset < end; offset += 8 * MiB) {
+    hasher.update(readPart(path, offset, Math.min(8 * MiB, end - offset)));
+  }
+  return hasher.digest("hex");
+}
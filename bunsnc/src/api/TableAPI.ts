@@ -11,6 +11,8 @@ import type { ServiceNowRecord, QueryOptions } from "../types/servicenow";
 import {
   ServiceNowBridgeService,
   BridgeResponse,
+  BatchRestRequest,
+  BatchRestResponse,
 } from "../services/ServiceNowBridgeService";
 
 export interface ITableAPI {
@@ -40,9 +42,10 @@ export class TableAPI implements ITableAPI {
   constructor(
     private instanceUrl: string,
     private authToken: string,
+    bridgeService?: ServiceNowBridgeService,
   ) {
     // Use ServiceNow Bridge Service directly - NO MORE HTTP SELF-REFERENCING CALLS
-    this.bridgeService = new ServiceNowBridgeService();
+    this.bridgeService = bridgeService || new ServiceNowBridgeService();
     console.log(
       "🔌 TableAPI using bridge service directly - self-referencing calls eliminated",
     );
@@ -243,4 +246,27 @@ export class TableAPI implements ITableAPI {
       handleServiceNowError(error, "list records");
     }
   }
+
+  /**
+   * Send raw REST requests through one Batch API call
+   */
+  async executeBatch(
+    requests: BatchRestRequest[],
+    batchRequestId?: string,
+  ): Promise<BatchRestResponse> {
+    try {
+      const response = await this.bridgeService.executeBatch(
+        requests,
+        batchRequestId,
+      );
+
+      if (!response.success) {
+        throw new Error(response.error || "Failed to execute batch");
+      }
+
+      return response.result!;
+    } catch (error: unknown) {
+      handleServiceNowError(error, "execute batch");
+    }
+  }
 }
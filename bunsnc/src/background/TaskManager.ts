@@ -13,6 +13,13 @@ import TaskQueue, {
   TaskQueueOptions,
 } from "./TaskQueue";
 import TaskScheduler, { ScheduledTask, ScheduleOptions } from "./TaskScheduler";
+import {
+  TaskWorkflowEngine,
+  type WorkflowDefinition,
+  type WorkflowRun,
+} from "./TaskWorkflow";
+import { RedisWorkflowStore } from "./WorkflowStore";
+import { redisConnectionManager } from "../utils/RedisConnection";
 
 export interface TaskManagerConfig {
   redis: {
@@ -66,6 +73,7 @@ export class TaskManager extends EventEmitter {
   private config: TaskManagerConfig;
   private queue!: TaskQueue;
   private scheduler!: TaskScheduler;
+  private workflows!: TaskWorkflowEngine;
   private isRunning: boolean = false;
   private metrics: {
     tasksCreated: number;
@@ -107,6 +115,12 @@ export class TaskManager extends EventEmitter {
       db: this.config.redis.schedulerDb || 1,
     });
 
+    // Initialize workflows, stored next to the queue
+    this.workflows = new TaskWorkflowEngine(
+      this.queue,
+      new RedisWorkflowStore(() => redisConnectionManager.connect()),
+    );
+
     // Set up event listeners
     this.setupEventListeners();
   }
@@ -130,6 +144,11 @@ export class TaskManager extends EventEmitter {
     this.scheduler.on("taskFailed", (event) => {
       this.emit("scheduledTaskFailed", event);
     });
+
+    // Workflow events
+    this.workflows.on("workflowFinished", (run) => {
+      this.emit("workflowFinished", run);
+    });
   }
 
   private updateMetrics(event: any): void {
@@ -166,7 +185,11 @@ export class TaskManager extends EventEmitter {
     console.log(" Starting Task Manager...");
 
     try {
-      await Promise.all([this.queue.start(), this.scheduler.start()]);
+      await Promise.all([
+        this.queue.start(),
+        this.scheduler.start(),
+        this.workflows.start(),
+      ]);
 
       this.isRunning = true;
       this.emit("started");
@@ -190,6 +213,7 @@ export class TaskManager extends EventEmitter {
     console.log(" Stopping Task Manager...");
 
     try {
+      await this.workflows.stop();
       await Promise.all([this.queue.stop(), this.scheduler.stop()]);
 
       this.isRunning = false;
@@ -325,6 +349,42 @@ export class TaskManager extends EventEmitter {
     return this.scheduler.getStats();
   }
 
+  // Workflow Operations
+
+  /**
+   * Start a multi-step workflow
+   */
+  async startWorkflow(
+    definition: WorkflowDefinition,
+    createdBy?: string,
+  ): Promise<WorkflowRun> {
+    return await this.workflows.create(definition, createdBy);
+  }
+
+  /**
+   * Get workflow run by ID
+   */
+  async getWorkflow(workflowId: string): Promise<WorkflowRun | null> {
+    return await this.workflows.get(workflowId);
+  }
+
+  /**
+   * Get the latest workflow runs
+   */
+  async getWorkflows(limit: number = 50): Promise<WorkflowRun[]> {
+    return await this.workflows.list(limit);
+  }
+
+  /**
+   * Cancel a workflow run and its pending steps
+   */
+  async cancelWorkflow(
+    workflowId: string,
+    reason?: string,
+  ): Promise<WorkflowRun | null> {
+    return await this.workflows.cancel(workflowId, reason);
+  }
+
   // High-level Operations
 
   /**
@@ -454,6 +514,46 @@ export class TaskManager extends EventEmitter {
     );
   }
 
+  /**
+   * Extract and index the text of new ticket attachments
+   */
+  async indexAttachments(options?: {
+    limit?: number;
+    query?: string;
+    priority?: TaskPriority;
+  }): Promise<string> {
+    return await this.addTask(
+      TaskType.ATTACHMENT_INDEX,
+      {
+        limit: options?.limit,
+        query: options?.query,
+      },
+      {
+        priority: options?.priority || TaskPriority.LOW,
+        tags: ["attachments", "index"],
+      },
+    );
+  }
+
+  /**
+   * Alert on open tickets about to breach their SLA
+   */
+  async predictSLABreaches(options?: {
+    limit?: number;
+    priority?: TaskPriority;
+  }): Promise<string> {
+    return await this.addTask(
+      TaskType.SLA_BREACH_PREDICTION,
+      {
+        limit: options?.limit,
+      },
+      {
+        priority: options?.priority || TaskPriority.HIGH,
+        tags: ["sla", "alerts"],
+      },
+    );
+  }
+
   // Metrics and Monitoring
 
   /**
@@ -626,6 +726,34 @@ export class TaskManager extends EventEmitter {
         createdBy: "system",
       });
 
+      // Index new ticket attachments for search
+      await this.scheduleTask({
+        name: "Attachment Indexing",
+        description: "Extract and index the text of new ticket attachments",
+        cronExpression: "*/15 * * * *", // every 15 minutes
+        taskType: TaskType.ATTACHMENT_INDEX,
+        taskData: {
+          limit: 500,
+        },
+        priority: TaskPriority.LOW,
+        tags: ["system", "attachments", "index"],
+        createdBy: "system",
+      });
+
+      // Warn before open tickets breach their SLA
+      await this.scheduleTask({
+        name: "SLA Breach Prediction",
+        description: "Send 50/75/90% SLA alerts through the escalation chains",
+        cronExpression: "*/5 * * * *", // every 5 minutes
+        taskType: TaskType.SLA_BREACH_PREDICTION,
+        taskData: {
+          limit: 2000,
+        },
+        priority: TaskPriority.HIGH,
+        tags: ["system", "sla", "alerts"],
+        createdBy: "system",
+      });
+
       console.log(" Default scheduled tasks created");
     } catch (error: unknown) {
       console.error(" Failed to create default scheduled tasks:", error);
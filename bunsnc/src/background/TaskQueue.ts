@@ -5,9 +5,15 @@
  */
 
 import { EventEmitter } from "events";
+import { posix } from "path";
 import { Redis as RedisClient, Cluster as RedisCluster } from "ioredis";
 import { redisConnectionManager } from "../utils/RedisConnection";
 import { logger } from "../utils/Logger";
+import {
+  TicketType,
+  type SLAAlertPolicy,
+  type SLAPauseRules,
+} from "../types/ContractualSLA";
 
 export interface Task {
   id: string;
@@ -28,6 +34,10 @@ export interface Task {
     parentTaskId?: string;
     tags?: string[];
     estimatedDuration?: number;
+    fencingToken?: number; // lease token of the scheduler that queued it
+    fencingLease?: string; // lease the token belongs to, checked by addTask
+    workflowId?: string; // TaskWorkflow run the task is a step of
+    workflowStep?: string;
   };
 }
 
@@ -42,6 +52,8 @@ export enum TaskType {
   REDIS_CLEANUP = "redis_cleanup",
   SCHEDULED_BACKUP = "scheduled_backup",
   NOTIFICATION_SEND = "notification_send",
+  ATTACHMENT_INDEX = "attachment_index",
+  SLA_BREACH_PREDICTION = "sla_breach_prediction",
 }
 
 export enum TaskPriority {
@@ -84,6 +96,24 @@ export interface TaskQueueOptions {
   deadLetterQueue: boolean;
 }
 
+export class StaleFencingTokenError extends Error {
+  constructor(
+    public readonly lease: string,
+    public readonly token: number,
+  ) {
+    super(`Fencing token ${token} of lease ${lease} is stale`);
+    this.name = "StaleFencingTokenError";
+  }
+}
+
+// KEYS: highest token seen; ARGV: token of the new task
+const FENCE_SCRIPT = `
+local seen = tonumber(redis.call('GET', KEYS[1]) or '0')
+if tonumber(ARGV[1]) < seen then return 0 end
+redis.call('SET', KEYS[1], ARGV[1])
+return 1
+`;
+
 export class TaskQueue extends EventEmitter {
   private redis: RedisClient | null = null;
   private subscriber: RedisClient | null = null;
@@ -99,6 +129,7 @@ export class TaskQueue extends EventEmitter {
   private readonly FAILED_QUEUE = "tasks:failed";
   private readonly DEAD_LETTER_QUEUE = "tasks:dead_letter";
   private readonly TASK_DATA_PREFIX = "task:";
+  private readonly FENCE_PREFIX = "tasks:fence:";
 
   constructor(options: TaskQueueOptions) {
     super();
@@ -190,6 +221,20 @@ export class TaskQueue extends EventEmitter {
     }
 
     try {
+      // A deposed leader's late task carries an older token than its successor's
+      const { fencingToken, fencingLease } = fullTask.metadata ?? {};
+      if (fencingToken !== undefined && fencingLease) {
+        const accepted = await this.redis.eval(
+          FENCE_SCRIPT,
+          1,
+          `${this.FENCE_PREFIX}${fencingLease}`,
+          fencingToken,
+        );
+        if (accepted !== 1) {
+          throw new StaleFencingTokenError(fencingLease, fencingToken);
+        }
+      }
+
       // Store task data
       await this.redis.hset(
         `${this.TASK_DATA_PREFIX}${taskId}`,
@@ -211,6 +256,7 @@ export class TaskQueue extends EventEmitter {
       logger.info(`Task added to queue: ${taskId} (${task.type})`, "TaskQueue");
       return taskId;
     } catch (error: unknown) {
+      if (error instanceof StaleFencingTokenError) throw error;
       logger.error(`Failed to add task ${taskId}`, "TaskQueue", { error });
       return taskId; // degradação graciosa em vez de throw
     }
@@ -781,6 +827,14 @@ export class TaskWorker {
         return this.executePipeline(task);
       case TaskType.DATA_SYNC:
         return this.executeDataSync(task);
+      case TaskType.HADOOP_UPLOAD:
+        return this.executeHadoopUpload(task);
+      case TaskType.NOTIFICATION_SEND:
+        return this.executeNotificationSend(task);
+      case TaskType.ATTACHMENT_INDEX:
+        return this.executeAttachmentIndex(task);
+      case TaskType.SLA_BREACH_PREDICTION:
+        return this.executeSLABreachPrediction(task);
       default:
         throw new Error(`Unknown task type: ${task.type}`);
     }
@@ -813,6 +867,165 @@ export class TaskWorker {
     return { synced: true, records: 2500 };
   }
 
+  /**
+   * Upload task.data.localPath to task.data.hdfsPath through WebHDFS
+   */
+  private async executeHadoopUpload(task: Task): Promise<any> {
+    const { localPath, hdfsPath, overwrite = true } = task.data;
+    if (!localPath || !hdfsPath) {
+      throw new Error(
+        "invalid hadoop_upload task: data.localPath and data.hdfsPath are required",
+      );
+    }
+
+    const { HDFSClient } = await import("../bigdata/hadoop/HDFSClient");
+    const hdfs = new HDFSClient({
+      namenode:
+        process.env.HADOOP_NAMENODE_URL ||
+        `http://${process.env.HADOOP_NAMENODE || "localhost"}:9870`,
+      user: process.env.HADOOP_USERNAME || "hadoop",
+    });
+
+    await hdfs.createDirectory(posix.dirname(hdfsPath));
+    await this.queue.updateTask(task.id, { progress: 10 });
+    // HDFSClient logs the cause and reports failure as false
+    if (!(await hdfs.uploadFile(localPath, hdfsPath, { overwrite }))) {
+      throw new Error(`HDFS upload of ${localPath} to ${hdfsPath} failed`);
+    }
+    return { uploaded: true, path: hdfsPath };
+  }
+
+  /**
+   * Send a task notification; a workflow step reports its upstream results
+   */
+  private async executeNotificationSend(task: Task): Promise<any> {
+    const { getNotificationManager } = await import("../routes/notifications");
+    const notifications = await getNotificationManager();
+    const notificationId = await notifications.notifyTask({
+      taskId: task.metadata.parentTaskId || task.id,
+      taskType: task.data.taskType || task.type,
+      status: task.data.status || TaskStatus.COMPLETED,
+      result: task.data.inputs ?? task.data.result,
+    });
+    return { sent: true, notificationId };
+  }
+
+  /**
+   * Extract and index new ticket attachments (task.data.limit caps the run)
+   */
+  private async executeAttachmentIndex(task: Task): Promise<any> {
+    const [
+      { TableAPI },
+      { AttachmentAPI },
+      { TikaClient },
+      { AttachmentIndexer },
+      { MongoAttachmentIndexStore },
+      { MongoSyncCursorStore },
+      { COLLECTION_NAMES, mongoCollectionManager },
+    ] = await Promise.all([
+      import("../api/TableAPI"),
+      import("../api/AttachmentAPI"),
+      import("../clients/TikaClient"),
+      import("../services/attachments/AttachmentIndexer"),
+      import("../services/attachments/AttachmentIndexStore"),
+      import("../services/sync/SyncCursorStore"),
+      import("../config/mongodb-collections"),
+    ]);
+
+    const instanceUrl = process.env.SERVICENOW_INSTANCE_URL || "";
+    const indexer = new AttachmentIndexer({
+      source: new TableAPI(instanceUrl, ""),
+      files: new AttachmentAPI(instanceUrl, "", { enableCaching: false }),
+      store: new MongoAttachmentIndexStore(
+        () =>
+          mongoCollectionManager.getCollection(
+            COLLECTION_NAMES.ATTACHMENT_CONTENTS,
+          ),
+        () =>
+          mongoCollectionManager.getCollection(
+            COLLECTION_NAMES.ATTACHMENT_LINKS,
+          ),
+      ),
+      // Without a Tika server the in-process stand-in extracts the text
+      extractor: process.env.TIKA_SERVER_URL ? new TikaClient() : undefined,
+      cursors: new MongoSyncCursorStore(() =>
+        mongoCollectionManager.getCollection(COLLECTION_NAMES.SYNC_CURSORS),
+      ),
+      query: task.data.query,
+    });
+
+    const result = await indexer.run(task.data.limit);
+    return {
+      processed: result.processed,
+      indexed: result.indexed,
+      deduplicated: result.deduplicated,
+      skipped: result.skipped,
+      position: result.cursor.position,
+    };
+  }
+
+  /**
+   * Project time-to-breach of open tickets and send the threshold alerts
+   */
+  private async executeSLABreachPrediction(task: Task): Promise<any> {
+    const [
+      { MongoClient },
+      { ContractualSLAService },
+      { SLABreachPredictor, MongoOpenTicketSource },
+      { MongoSLAAlertStore },
+      { COLLECTION_NAMES, mongoCollectionManager },
+      { pluginConfigManager },
+      { getNotificationManager },
+    ] = await Promise.all([
+      import("mongodb"),
+      import("../services/ContractualSLAService"),
+      import("../services/sla/SLABreachPredictor"),
+      import("../services/sla/SLAAlertStore"),
+      import("../config/mongodb-collections"),
+      import("../plugins/config-manager"),
+      import("../routes/notifications"),
+    ]);
+
+    let sla = ContractualSLAService.getInstance();
+    if (!sla) {
+      const mongoClient = new MongoClient(
+        process.env.MONGODB_URL || "mongodb://localhost:27018",
+      );
+      await mongoClient.connect();
+      sla = ContractualSLAService.getInstance(
+        mongoClient,
+        process.env.MONGODB_DATABASE || "bunsnc",
+      );
+    }
+
+    const config = await pluginConfigManager.load();
+    if (config.sla?.pause) {
+      sla.setPauseRules(config.sla.pause as Partial<SLAPauseRules>);
+    }
+
+    const predictor = new SLABreachPredictor({
+      sla,
+      tickets: new MongoOpenTicketSource(
+        {
+          [TicketType.INCIDENT]: () =>
+            mongoCollectionManager.getCollection(COLLECTION_NAMES.INCIDENTS),
+          [TicketType.CTASK]: () =>
+            mongoCollectionManager.getCollection(COLLECTION_NAMES.CHANGE_TASKS),
+          [TicketType.SCTASK]: () =>
+            mongoCollectionManager.getCollection(COLLECTION_NAMES.SC_TASKS),
+        },
+        (ticketType) => sla.timelines.getRule(ticketType).stop,
+      ),
+      alerts: new MongoSLAAlertStore(() =>
+        mongoCollectionManager.getCollection(COLLECTION_NAMES.SLA_ALERTS),
+      ),
+      notifier: await getNotificationManager(),
+      policy: config.sla?.alerts as Partial<SLAAlertPolicy> | undefined,
+    });
+
+    return await predictor.evaluate(task.data.limit);
+  }
+
   private isRetryableError(error: any): boolean {
     // Network errors, timeouts, etc. are retryable
     // Logic errors, validation errors are not
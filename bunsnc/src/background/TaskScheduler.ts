@@ -9,12 +9,25 @@ import { Redis as RedisClient, Cluster as RedisCluster } from "ioredis";
 import { redisConnectionManager } from "../utils/RedisConnection";
 import { logger } from "../utils/Logger";
 import { TaskQueue, Task, TaskType, TaskPriority } from "./TaskQueue";
+import {
+  CronExpression,
+  validateTimezone,
+  type MisfirePolicy,
+} from "../utils/CronExpression";
+import { leaderLease, type LeaderLease } from "../services/system/LeaderLease";
+
+// Tasks without a timezone keep firing at the process-local times they had
+// before schedules took one
+export const DEFAULT_TIMEZONE =
+  Intl.DateTimeFormat().resolvedOptions().timeZone;
 
 export interface ScheduledTask {
   id: string;
   name: string;
   description: string;
   cronExpression: string;
+  timezone?: string; // IANA, default the process timezone
+  misfirePolicy?: MisfirePolicy; // runs missed while down, default fire_once
   taskType: TaskType;
   taskData: Record<string, any>;
   priority: TaskPriority;
@@ -35,6 +48,8 @@ export interface ScheduleOptions {
   name: string;
   description: string;
   cronExpression: string;
+  timezone?: string;
+  misfirePolicy?: MisfirePolicy;
   taskType: TaskType;
   taskData: Record<string, any>;
   priority?: TaskPriority;
@@ -50,12 +65,15 @@ export class TaskScheduler extends EventEmitter {
   private taskQueue: TaskQueue;
   private isRunning: boolean = false;
   private schedulerInterval?: Timer;
+  private wakeTimer?: Timer; // early check for runs due before the next tick
   private scheduledTasks: Map<string, ScheduledTask> = new Map();
   private runningTaskIds: Set<string> = new Set(); // Track running scheduled tasks
 
   private readonly SCHEDULED_TASKS_KEY = "scheduler:tasks";
   private readonly SCHEDULE_LOCK_KEY = "scheduler:lock";
   private readonly SCHEDULER_INTERVAL = 60000; // Check every minute
+  private readonly MISFIRE_THRESHOLD = 60000; // Later than this is a misfire
+  private readonly MAX_CATCH_UP_RUNS = 100; // fire_all cap per check
 
   constructor(
     taskQueue: TaskQueue,
@@ -65,6 +83,8 @@ export class TaskScheduler extends EventEmitter {
       password?: string;
       db?: number;
     },
+    // Only the replica holding it runs due tasks
+    private lease: LeaderLease = leaderLease("task-scheduler"),
   ) {
     super();
     this.taskQueue = taskQueue;
@@ -103,6 +123,8 @@ export class TaskScheduler extends EventEmitter {
    * Schedule a new recurring task
    */
   async schedule(options: ScheduleOptions): Promise<string> {
+    TaskScheduler.assertValidSchedule(options.cronExpression, options.timezone);
+
     const taskId = `scheduled_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
     const scheduledTask: ScheduledTask = {
@@ -110,6 +132,8 @@ export class TaskScheduler extends EventEmitter {
       name: options.name,
       description: options.description,
       cronExpression: options.cronExpression,
+      timezone: options.timezone,
+      misfirePolicy: options.misfirePolicy,
       taskType: options.taskType,
       taskData: options.taskData,
       priority: options.priority || TaskPriority.NORMAL,
@@ -125,7 +149,7 @@ export class TaskScheduler extends EventEmitter {
     };
 
     // Calculate next run
-    scheduledTask.nextRun = this.calculateNextRun(scheduledTask.cronExpression);
+    scheduledTask.nextRun = this.calculateNextRun(scheduledTask);
 
     try {
       // Save to Redis
@@ -187,6 +211,12 @@ export class TaskScheduler extends EventEmitter {
       if (!currentTask) {
         throw new Error(`Scheduled task ${taskId} not found`);
       }
+      if (updates.cronExpression || updates.timezone) {
+        TaskScheduler.assertValidSchedule(
+          updates.cronExpression ?? currentTask.cronExpression,
+          updates.timezone ?? currentTask.timezone,
+        );
+      }
 
       const updatedTask: ScheduledTask = {
         ...currentTask,
@@ -194,9 +224,9 @@ export class TaskScheduler extends EventEmitter {
         updatedAt: new Date(),
       };
 
-      // Recalculate next run if cron expression changed
-      if (updates.cronExpression) {
-        updatedTask.nextRun = this.calculateNextRun(updates.cronExpression);
+      // Recalculate next run if the schedule changed
+      if (updates.cronExpression || updates.timezone) {
+        updatedTask.nextRun = this.calculateNextRun(updatedTask);
       }
 
       // Save to Redis
@@ -251,6 +281,7 @@ export class TaskScheduler extends EventEmitter {
     totalFails: number;
     nextRun?: Date;
     runningTasks: number;
+    leader: boolean;
   } {
     const tasks = Array.from(this.scheduledTasks.values());
 
@@ -270,6 +301,7 @@ export class TaskScheduler extends EventEmitter {
       totalFails,
       nextRun: nextRuns[0],
       runningTasks: this.runningTaskIds.size, // Real count of running scheduled tasks
+      leader: this.lease.isLeader(),
     };
   }
 
@@ -282,6 +314,12 @@ export class TaskScheduler extends EventEmitter {
     this.isRunning = true;
     console.log("🕒 Starting Task Scheduler...");
 
+    // A new leader may have missed tasks scheduled on other replicas
+    this.lease.on("acquired", this.reloadScheduledTasks);
+    if (!(await this.lease.start())) {
+      console.log("🕒 Task Scheduler on standby, another replica leads");
+    }
+
     // Start scheduler loop
     this.schedulerInterval = setInterval(
       () => this.checkAndRunTasks(),
@@ -307,7 +345,10 @@ export class TaskScheduler extends EventEmitter {
     if (this.schedulerInterval) {
       clearInterval(this.schedulerInterval);
     }
+    clearTimeout(this.wakeTimer);
 
+    this.lease.off("acquired", this.reloadScheduledTasks);
+    await this.lease.stop();
     await this.redis.disconnect();
 
     this.emit("stopped");
@@ -330,6 +371,10 @@ export class TaskScheduler extends EventEmitter {
 
   // Private Methods
 
+  private reloadScheduledTasks = (): void => {
+    this.loadScheduledTasks();
+  };
+
   private async loadScheduledTasks(): Promise<void> {
     try {
       const tasksData = await this.redis.hGetAll(this.SCHEDULED_TASKS_KEY);
@@ -359,7 +404,7 @@ export class TaskScheduler extends EventEmitter {
   }
 
   private async checkAndRunTasks(): Promise<void> {
-    if (!this.isRunning) return;
+    if (!this.isRunning || !this.lease.isLeader()) return;
 
     try {
       // Use Redis lock to prevent multiple scheduler instances
@@ -392,7 +437,7 @@ export class TaskScheduler extends EventEmitter {
         // Execute tasks
         for (const task of tasksToRun) {
           try {
-            await this.executeScheduledTask(task);
+            await this.runDueTask(task, now);
           } catch (error: unknown) {
             console.error(
               ` Failed to execute scheduled task ${task.id}:`,
@@ -404,6 +449,7 @@ export class TaskScheduler extends EventEmitter {
 
       // Release lock
       await this.redis.del(this.SCHEDULE_LOCK_KEY);
+      this.scheduleWake();
     } catch (error: unknown) {
       console.error(" Scheduler check failed:", error);
       // Make sure to release lock on error
@@ -415,8 +461,90 @@ export class TaskScheduler extends EventEmitter {
     }
   }
 
+  /**
+   * Runs of a due task; more than one is due when the scheduler was down,
+   * and the task's misfire policy decides how many of them fire
+   */
+  private async runDueTask(task: ScheduledTask, now: Date): Promise<void> {
+    const due = [task.nextRun!];
+    const cron = this.parseCron(task.cronExpression);
+    if (cron) {
+      due.push(
+        ...cron.between(
+          task.nextRun!,
+          now,
+          task.timezone || DEFAULT_TIMEZONE,
+          this.MAX_CATCH_UP_RUNS - 1,
+        ),
+      );
+    }
+    const latest = due[due.length - 1];
+    const late = due.filter(
+      (run) => now.getTime() - run.getTime() > this.MISFIRE_THRESHOLD,
+    );
+    const policy = task.misfirePolicy || "fire_once";
+
+    let runs: Date[];
+    if (policy === "fire_all") {
+      runs = due;
+    } else if (policy === "skip") {
+      runs = late.includes(latest) ? [] : [latest];
+    } else {
+      runs = [latest];
+    }
+
+    if (late.length > 0) {
+      console.warn(
+        `🕒 Scheduled task ${task.name} missed ${late.length} run(s) since ${due[0].toISOString()} (${policy}: firing ${runs.length})`,
+      );
+      this.emit("taskMisfired", {
+        scheduledTaskId: task.id,
+        missedRuns: late.length,
+        firedRuns: runs.length,
+        policy,
+      });
+    }
+
+    for (const run of runs) {
+      await this.executeScheduledTask(
+        this.scheduledTasks.get(task.id) || task,
+        run,
+      );
+    }
+
+    if (runs.length === 0) {
+      const skipped: ScheduledTask = {
+        ...task,
+        nextRun: this.calculateNextRun(task, now),
+        updatedAt: now,
+      };
+      await this.redis.hSet(
+        this.SCHEDULED_TASKS_KEY,
+        task.id,
+        JSON.stringify(skipped),
+      );
+      this.scheduledTasks.set(task.id, skipped);
+    }
+  }
+
+  /**
+   * Wake before the next tick when a run is due sooner, so schedules with a
+   * seconds field are not held to the one-minute interval
+   */
+  private scheduleWake(): void {
+    clearTimeout(this.wakeTimer);
+    const nextRun = this.getStats().nextRun;
+    if (!this.isRunning || !nextRun) return;
+
+    const delay = Math.max(nextRun.getTime() - Date.now(), 1000);
+    if (delay < this.SCHEDULER_INTERVAL) {
+      this.wakeTimer = setTimeout(() => this.checkAndRunTasks(), delay);
+    }
+  }
+
   private async executeScheduledTask(
     scheduledTask: ScheduledTask,
+    scheduledFor?: Date,
   ): Promise<string> {
     // Mark task as running
     this.runningTaskIds.add(scheduledTask.id);
@@ -429,6 +557,7 @@ export class TaskScheduler extends EventEmitter {
           ...scheduledTask.taskData,
           scheduledTaskId: scheduledTask.id,
           scheduledTaskName: scheduledTask.name,
+          ...(scheduledFor && { scheduledFor: scheduledFor.toISOString() }),
         },
         priority: scheduledTask.priority,
         maxRetries: scheduledTask.maxRetries,
@@ -437,6 +566,8 @@ export class TaskScheduler extends EventEmitter {
           parentTaskId: scheduledTask.id,
           tags: scheduledTask.tags,
           estimatedDuration: scheduledTask.timeout,
+          fencingToken: this.lease.fencingToken ?? undefined,
+          fencingLease: this.lease.name,
         },
       });
 
@@ -445,7 +576,7 @@ export class TaskScheduler extends EventEmitter {
       const updatedTask: ScheduledTask = {
         ...scheduledTask,
         lastRun: now,
-        nextRun: this.calculateNextRun(scheduledTask.cronExpression, now),
+        nextRun: this.calculateNextRun(scheduledTask, now),
         runCount: scheduledTask.runCount + 1,
         updatedAt: now,
       };
@@ -476,7 +607,7 @@ export class TaskScheduler extends EventEmitter {
       const updatedTask: ScheduledTask = {
         ...scheduledTask,
         failCount: scheduledTask.failCount + 1,
-        nextRun: this.calculateNextRun(scheduledTask.cronExpression),
+        nextRun: this.calculateNextRun(scheduledTask),
         updatedAt: new Date(),
       };
 
@@ -501,77 +632,66 @@ export class TaskScheduler extends EventEmitter {
     }
   }
 
-  private calculateNextRun(cronExpression: string, fromDate?: Date): Date {
-    // Simple cron parser implementation
-    // In production, use a proper cron library like 'node-cron'
-    const now = fromDate || new Date();
-
+  private parseCron(cronExpression: string): CronExpression | null {
     try {
-      // Parse cron expression: minute hour day month dayOfWeek
-      const parts = cronExpression.trim().split(/\s+/);
-      if (parts.length !== 5) {
-        throw new Error("Invalid cron expression format");
-      }
-
-      const [minute, hour, day, month, dayOfWeek] = parts;
-
-      // Simple implementation for common patterns
-      const nextRun = new Date(now);
-
-      // Handle some common patterns
-      if (cronExpression === "0 0 * * *") {
-        // Daily at midnight
-        nextRun.setDate(nextRun.getDate() + 1);
-        nextRun.setHours(0, 0, 0, 0);
-      } else if (cronExpression === "0 */1 * * *") {
-        // Every hour
-        nextRun.setHours(nextRun.getHours() + 1, 0, 0, 0);
-      } else if (cronExpression === "*/15 * * * *") {
-        // Every 15 minutes
-        const minutes = Math.ceil(nextRun.getMinutes() / 15) * 15;
-        if (minutes >= 60) {
-          nextRun.setHours(nextRun.getHours() + 1, 0, 0, 0);
-        } else {
-          nextRun.setMinutes(minutes, 0, 0);
-        }
-      } else if (cronExpression === "*/5 * * * *") {
-        // Every 5 minutes
-        const minutes = Math.ceil(nextRun.getMinutes() / 5) * 5;
-        if (minutes >= 60) {
-          nextRun.setHours(nextRun.getHours() + 1, 0, 0, 0);
-        } else {
-          nextRun.setMinutes(minutes, 0, 0);
-        }
-      } else {
-        // Default: add 1 hour
-        nextRun.setHours(nextRun.getHours() + 1, 0, 0, 0);
-      }
-
-      return nextRun;
+      return CronExpression.parse(cronExpression);
     } catch (error: unknown) {
       console.error(
         ` Failed to parse cron expression "${cronExpression}":`,
         error,
       );
-      // Fallback: run in 1 hour
-      const fallback = new Date(now);
-      fallback.setHours(fallback.getHours() + 1);
-      return fallback;
+      return null;
     }
   }
 
+  /**
+   * Next run after `fromDate` in the task's timezone; undefined when the
+   * expression is invalid or never fires again
+   */
+  private calculateNextRun(
+    task: Pick<ScheduledTask, "cronExpression" | "timezone">,
+    fromDate?: Date,
+  ): Date | undefined {
+    return (
+      this.parseCron(task.cronExpression)?.next(
+        fromDate || new Date(),
+        task.timezone || DEFAULT_TIMEZONE,
+      ) ?? undefined
+    );
+  }
+
   /**
    * Validate cron expression
    */
   static validateCronExpression(cronExpression: string): boolean {
-    try {
-      const parts = cronExpression.trim().split(/\s+/);
-      return parts.length === 5;
-    } catch {
-      return false;
+    return CronExpression.isValid(cronExpression);
+  }
+
+  /**
+   * Throws InvalidCronExpressionError for a bad expression or timezone
+   */
+  static assertValidSchedule(cronExpression: string, timezone?: string): void {
+    CronExpression.parse(cronExpression);
+    if (timezone) {
+      validateTimezone(timezone);
     }
   }
 
+  /**
+   * Next runs of an expression, to check a schedule before saving it
+   */
+  static previewRuns(
+    cronExpression: string,
+    options: { timezone?: string; count?: number; from?: Date } = {},
+  ): Date[] {
+    TaskScheduler.assertValidSchedule(cronExpression, options.timezone);
+    return CronExpression.parse(cronExpression).nextRuns(
+      options.from || new Date(),
+      options.count || 5,
+      options.timezone || DEFAULT_TIMEZONE,
+    );
+  }
+
   /**
    * Get common cron expressions
    */
@@ -588,8 +708,11 @@ export class TaskScheduler extends EventEmitter {
       "Daily at midnight": "0 0 * * *",
       "Daily at 6 AM": "0 6 * * *",
       "Daily at 6 PM": "0 18 * * *",
+      "Weekdays at 8 AM": "0 8 * * MON-FRI",
       "Weekly (Sunday)": "0 0 * * 0",
       "Monthly (1st)": "0 0 1 * *",
+      "Monthly (last day)": "0 0 L * *",
+      "Monthly (last weekday)": "0 18 LW * *",
     };
   }
 }
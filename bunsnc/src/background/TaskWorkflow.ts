@@ -0,0 +1,616 @@
+/**
+ * Task Workflows - Multi-step jobs on top of the TaskQueue
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * A workflow is a graph of steps, each one a queue task. A step is queued
+ * once the steps it depends on have finished, so several steps depending on
+ * one give a fan-out and a step depending on several gives a fan-in; the
+ * results of its dependencies reach it in `data.inputs`. Retries are the
+ * queue's own, bounded per step by maxRetries.
+ *
+ * Runs are stored with every step's state and advanced by the queue's task
+ * events. Only the holder of the "task-workflows" lease advances them, and a
+ * new holder first reconciles the runs in progress with their tasks, so runs
+ * survive restarts and failovers.
+ */
+import { EventEmitter } from "events";
+import { logger } from "../utils/Logger";
+import { leaderLease, type LeaderLease } from "../services/system/LeaderLease";
+import {
+  TaskPriority,
+  TaskStatus,
+  TaskType,
+  type Task,
+  type TaskQueue,
+} from "./TaskQueue";
+import { WorkflowConflictError, type WorkflowStore } from "./WorkflowStore";
+
+export type WorkflowStatus = "running" | "completed" | "failed" | "cancelled";
+
+export type WorkflowStepStatus =
+  | "waiting"
+  | "queued"
+  | "running"
+  | "retrying"
+  | "completed"
+  | "failed"
+  | "skipped"
+  | "cancelled";
+
+// When a step runs, given how its dependencies ended
+export type StepTrigger = "all_succeeded" | "any_failed" | "always";
+
+export interface StepCondition {
+  step: string; // a dependency of the step
+  path?: string; // dotted path in its result, the whole result when omitted
+  op: "eq" | "ne" | "gt" | "gte" | "lt" | "lte" | "exists" | "truthy";
+  value?: unknown;
+}
+
+export interface WorkflowStepDefinition {
+  id: string;
+  type: TaskType;
+  data?: Record<string, any>;
+  dependsOn?: string[];
+  trigger?: StepTrigger; // default all_succeeded
+  condition?: StepCondition; // skipped when false
+  priority?: TaskPriority;
+  maxRetries?: number; // default 3
+}
+
+export interface WorkflowDefinition {
+  name: string;
+  steps: WorkflowStepDefinition[];
+  priority?: TaskPriority;
+  tags?: string[];
+}
+
+export interface WorkflowStep {
+  id: string;
+  type: TaskType;
+  status: WorkflowStepStatus;
+  dependsOn: string[];
+  taskId?: string;
+  attempts: number;
+  progress: number;
+  result?: any;
+  error?: string;
+  skipReason?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface WorkflowRun {
+  id: string;
+  name: string;
+  status: WorkflowStatus;
+  progress: number; // 0-100 across all steps
+  definition: WorkflowDefinition;
+  steps: WorkflowStep[];
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  version: number; // bumped by every save
+}
+
+export type WorkflowQueue = Pick<
+  TaskQueue,
+  "addTask" | "getTask" | "cancelTask" | "on" | "off"
+>;
+
+export class InvalidWorkflowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidWorkflowError";
+  }
+}
+
+const FINISHED_STEP: WorkflowStepStatus[] = [
+  "completed",
+  "failed",
+  "skipped",
+  "cancelled",
+];
+
+const STEP_STATUS: Record<TaskStatus, WorkflowStepStatus> = {
+  [TaskStatus.PENDING]: "queued",
+  [TaskStatus.PAUSED]: "queued",
+  [TaskStatus.RUNNING]: "running",
+  [TaskStatus.RETRYING]: "retrying",
+  [TaskStatus.COMPLETED]: "completed",
+  [TaskStatus.FAILED]: "failed",
+  [TaskStatus.CANCELLED]: "cancelled",
+};
+
+const DEFAULT_MAX_RETRIES = 3;
+
+// Reloads of a run whose save lost to another replica
+const SAVE_ATTEMPTS = 5;
+
+export class TaskWorkflowEngine extends EventEmitter {
+  // Chains the changes of each run inside this process
+  private runLocks = new Map<string, Promise<unknown>>();
+  private listening = false;
+
+  constructor(
+    private queue: WorkflowQueue,
+    private store: WorkflowStore,
+    private lease: LeaderLease = leaderLease("task-workflows"),
+  ) {
+    super();
+  }
+
+  async start(): Promise<void> {
+    if (this.listening) return;
+    this.listening = true;
+    this.queue.on("taskEvent", this.onTaskEvent);
+    this.lease.on("acquired", this.onLeaseAcquired);
+    if (await this.lease.start()) {
+      await this.resume();
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (!this.listening) return;
+    this.listening = false;
+    this.queue.off("taskEvent", this.onTaskEvent);
+    this.lease.off("acquired", this.onLeaseAcquired);
+    await this.lease.stop();
+  }
+
+  /**
+   * Check step ids, dependencies and conditions; throws InvalidWorkflowError
+   */
+  static validate(definition: WorkflowDefinition): void {
+    if (!definition.name?.trim()) {
+      throw new InvalidWorkflowError("Workflow name is required");
+    }
+    if (!definition.steps?.length) {
+      throw new InvalidWorkflowError("Workflow has no steps");
+    }
+
+    const steps = new Map<string, WorkflowStepDefinition>();
+    for (const step of definition.steps) {
+      if (!step.id?.trim()) {
+        throw new InvalidWorkflowError("Every step needs an id");
+      }
+      if (steps.has(step.id)) {
+        throw new InvalidWorkflowError(`Duplicate step id: ${step.id}`);
+      }
+      if (!Object.values(TaskType).includes(step.type)) {
+        throw new InvalidWorkflowError(
+          `Unknown task type in step ${step.id}: ${step.type}`,
+        );
+      }
+      steps.set(step.id, step);
+    }
+
+    for (const step of definition.steps) {
+      for (const dependency of step.dependsOn ?? []) {
+        if (!steps.has(dependency)) {
+          throw new InvalidWorkflowError(
+            `Step ${step.id} depends on unknown step ${dependency}`,
+          );
+        }
+      }
+      if (
+        step.condition &&
+        !(step.dependsOn ?? []).includes(step.condition.step)
+      ) {
+        throw new InvalidWorkflowError(
+          `Condition of step ${step.id} must test one of its dependencies`,
+        );
+      }
+    }
+
+    // Depth-first walk; a step met again on the current path closes a cycle
+    const visited = new Set<string>();
+    const path = new Set<string>();
+    const visit = (id: string): void => {
+      if (path.has(id)) {
+        throw new InvalidWorkflowError(`Dependency cycle through step ${id}`);
+      }
+      if (visited.has(id)) return;
+      path.add(id);
+      for (const dependency of steps.get(id)!.dependsOn ?? []) {
+        visit(dependency);
+      }
+      path.delete(id);
+      visited.add(id);
+    };
+    steps.forEach((_, id) => visit(id));
+  }
+
+  /**
+   * Store a new run and queue its first steps
+   */
+  async create(
+    definition: WorkflowDefinition,
+    createdBy?: string,
+  ): Promise<WorkflowRun> {
+    TaskWorkflowEngine.validate(definition);
+
+    const now = new Date().toISOString();
+    const run: WorkflowRun = {
+      id: `wf_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: definition.name,
+      status: "running",
+      progress: 0,
+      definition,
+      steps: definition.steps.map((step) => ({
+        id: step.id,
+        type: step.type,
+        status: "waiting",
+        dependsOn: step.dependsOn ?? [],
+        attempts: 0,
+        progress: 0,
+      })),
+      createdBy,
+      createdAt: now,
+      updatedAt: now,
+      version: 0,
+    };
+    await this.store.save(run);
+    logger.info(
+      `Workflow ${run.id} (${run.name}) created with ${run.steps.length} steps`,
+      "TaskWorkflow",
+    );
+
+    return (await this.withRun(run.id, (stored) => this.advance(stored)))!;
+  }
+
+  async get(id: string): Promise<WorkflowRun | null> {
+    return this.store.get(id);
+  }
+
+  async list(limit: number = 50): Promise<WorkflowRun[]> {
+    return this.store.list(limit);
+  }
+
+  /**
+   * Cancel the queued and running steps; waiting steps never run
+   */
+  async cancel(id: string, reason?: string): Promise<WorkflowRun | null> {
+    return this.withRun(id, async (run) => {
+      if (run.status !== "running") return run;
+
+      for (const step of run.steps) {
+        if (FINISHED_STEP.includes(step.status)) continue;
+        if (step.taskId && step.status !== "waiting") {
+          try {
+            await this.queue.cancelTask(step.taskId, reason);
+          } catch (error: unknown) {
+            logger.warn(
+              `Task ${step.taskId} of workflow ${id} not cancelled: ${(error as Error).message}`,
+              "TaskWorkflow",
+            );
+          }
+        }
+        step.status = "cancelled";
+        step.error = reason;
+        step.completedAt = new Date().toISOString();
+      }
+      run.status = "cancelled";
+      return this.finish(run);
+    });
+  }
+
+  /**
+   * Apply a queue task change to its step and queue what it unblocks
+   */
+  async applyTaskUpdate(task: Task): Promise<WorkflowRun | null> {
+    const { workflowId, workflowStep } = task.metadata ?? {};
+    if (!workflowId || !workflowStep) return null;
+
+    return this.withRun(workflowId, async (run) => {
+      const step = run.steps.find((candidate) => candidate.id === workflowStep);
+      if (!step || !this.track(step, task)) return run;
+      return this.advance(run);
+    });
+  }
+
+  /**
+   * Catch up with the task changes missed while no replica was leading
+   */
+  async resume(): Promise<void> {
+    const runs = await this.store.active();
+    for (const { id } of runs) {
+      await this.withRun(id, async (run) => {
+        for (const step of run.steps) {
+          if (!step.taskId || FINISHED_STEP.includes(step.status)) continue;
+          const task = await this.queue.getTask(step.taskId);
+          if (task) this.track(step, task);
+        }
+        return this.advance(run);
+      });
+    }
+    if (runs.length > 0) {
+      logger.info(`Resumed ${runs.length} workflows`, "TaskWorkflow");
+    }
+  }
+
+  // Private Methods
+
+  private onTaskEvent = (event: { event: string; data?: any }): void => {
+    if (event.event !== "task.updated" || !this.lease.isLeader()) return;
+    this.applyTaskUpdate(event.data.task).catch((error: unknown) => {
+      logger.error(
+        "Failed to apply task update to workflow",
+        error instanceof Error ? error : new Error(String(error)),
+        "TaskWorkflow",
+      );
+    });
+  };
+
+  private onLeaseAcquired = (): void => {
+    this.resume().catch((error: unknown) => {
+      logger.error(
+        "Failed to resume workflows",
+        error instanceof Error ? error : new Error(String(error)),
+        "TaskWorkflow",
+      );
+    });
+  };
+
+  private async withRun(
+    id: string,
+    change: (run: WorkflowRun) => Promise<WorkflowRun>,
+  ): Promise<WorkflowRun | null> {
+    const previous = this.runLocks.get(id) ?? Promise.resolve();
+    const next = previous.then(() => this.applyChange(id, change));
+    const settled = next.catch(() => undefined);
+    this.runLocks.set(id, settled);
+    settled.then(() => {
+      if (this.runLocks.get(id) === settled) this.runLocks.delete(id);
+    });
+    return next;
+  }
+
+  /**
+   * Load, change and save a run, again on a fresh copy when another replica
+   * saved it first. Steps queued by the losing attempt keep their task, so
+   * they are not queued twice.
+   */
+  private async applyChange(
+    id: string,
+    change: (run: WorkflowRun) => Promise<WorkflowRun>,
+  ): Promise<WorkflowRun | null> {
+    let queued: WorkflowStep[] = [];
+    for (let attempt = 1; ; attempt++) {
+      const run = await this.store.get(id);
+      if (!run) return null;
+      const waiting = run.steps
+        .filter((step) => step.status === "waiting")
+        .map((step) => step.id);
+      for (const lost of queued) {
+        const step = run.steps.find((candidate) => candidate.id === lost.id);
+        if (step?.status === "waiting") Object.assign(step, lost);
+      }
+
+      try {
+        return await change(run);
+      } catch (error: unknown) {
+        if (
+          !(error instanceof WorkflowConflictError) ||
+          attempt >= SAVE_ATTEMPTS
+        ) {
+          throw error;
+        }
+        queued = run.steps.filter(
+          (step) => waiting.includes(step.id) && step.status === "queued",
+        );
+        logger.warn(
+          `Workflow ${id} changed by another replica, retrying`,
+          "TaskWorkflow",
+        );
+      }
+    }
+  }
+
+  /**
+   * Copy the task state to its step; false when nothing changed
+   */
+  private track(step: WorkflowStep, task: Task): boolean {
+    // Late events of a finished step, or of a task it no longer waits on
+    if (FINISHED_STEP.includes(step.status)) return false;
+    if (step.taskId && step.taskId !== task.id) return false;
+
+    const status = STEP_STATUS[task.status] ?? step.status;
+    const progress = task.progress ?? step.progress;
+    const attempts = (task.retryCount ?? 0) + 1;
+    if (
+      status === step.status &&
+      progress === step.progress &&
+      attempts === step.attempts
+    ) {
+      return false;
+    }
+
+    step.taskId = task.id;
+    step.status = status;
+    step.progress = status === "completed" ? 100 : progress;
+    step.attempts = attempts;
+    if (task.startedAt && !step.startedAt) {
+      step.startedAt = new Date(task.startedAt).toISOString();
+    }
+    if (status === "completed") {
+      step.result = task.result;
+      step.error = undefined;
+    } else if (task.error) {
+      step.error = task.error.message;
+    }
+    if (FINISHED_STEP.includes(status)) {
+      step.completedAt = new Date(task.completedAt ?? Date.now()).toISOString();
+    }
+    return true;
+  }
+
+  /**
+   * Queue or skip every waiting step whose dependencies have finished, then
+   * save the run
+   */
+  private async advance(run: WorkflowRun): Promise<WorkflowRun> {
+    if (run.status !== "running") return run;
+
+    const steps = new Map(run.steps.map((step) => [step.id, step]));
+    let unblocked = true;
+    while (unblocked) {
+      unblocked = false;
+      for (const step of run.steps) {
+        if (step.status !== "waiting") continue;
+        const dependencies = step.dependsOn.map((id) => steps.get(id)!);
+        if (!dependencies.every((d) => FINISHED_STEP.includes(d.status))) {
+          continue;
+        }
+
+        const definition = run.definition.steps.find((s) => s.id === step.id)!;
+        const skipReason = this.skipReason(definition, dependencies);
+        if (skipReason) {
+          step.status = "skipped";
+          step.skipReason = skipReason;
+          step.completedAt = new Date().toISOString();
+          // Skipping may unblock steps already passed over in this sweep
+          unblocked = true;
+        } else {
+          await this.enqueue(run, step, definition, dependencies);
+        }
+      }
+    }
+
+    if (run.steps.every((step) => FINISHED_STEP.includes(step.status))) {
+      run.status = run.steps.some((step) => step.status === "failed")
+        ? "failed"
+        : "completed";
+      return this.finish(run);
+    }
+    return this.save(run);
+  }
+
+  private skipReason(
+    definition: WorkflowStepDefinition,
+    dependencies: WorkflowStep[],
+  ): string | null {
+    const trigger = definition.trigger ?? "all_succeeded";
+    if (
+      trigger === "all_succeeded" &&
+      !dependencies.every((d) => d.status === "completed")
+    ) {
+      return "Upstream step did not succeed";
+    }
+    if (
+      trigger === "any_failed" &&
+      !dependencies.some((d) => d.status === "failed")
+    ) {
+      return "No upstream step failed";
+    }
+
+    const condition = definition.condition;
+    if (condition) {
+      const source = dependencies.find((d) => d.id === condition.step)!;
+      if (!evaluateCondition(condition, source.result)) {
+        return `Condition on ${condition.step} not met`;
+      }
+    }
+    return null;
+  }
+
+  private async enqueue(
+    run: WorkflowRun,
+    step: WorkflowStep,
+    definition: WorkflowStepDefinition,
+    dependencies: WorkflowStep[],
+  ): Promise<void> {
+    // Fan-in: the step sees the result of every dependency that completed
+    const inputs = Object.fromEntries(
+      dependencies
+        .filter((d) => d.status === "completed")
+        .map((d) => [d.id, d.result]),
+    );
+
+    step.taskId = await this.queue.addTask({
+      type: definition.type,
+      data: {
+        ...definition.data,
+        ...(dependencies.length > 0 ? { inputs } : {}),
+      },
+      priority:
+        definition.priority ?? run.definition.priority ?? TaskPriority.NORMAL,
+      maxRetries: definition.maxRetries ?? DEFAULT_MAX_RETRIES,
+      metadata: {
+        createdBy: run.createdBy,
+        parentTaskId: dependencies.find((d) => d.taskId)?.taskId,
+        tags: [...(run.definition.tags ?? []), "workflow"],
+        workflowId: run.id,
+        workflowStep: step.id,
+      },
+    });
+    step.status = "queued";
+    step.attempts = 1;
+    logger.info(
+      `Workflow ${run.id} queued step ${step.id} as task ${step.taskId}`,
+      "TaskWorkflow",
+    );
+  }
+
+  private async finish(run: WorkflowRun): Promise<WorkflowRun> {
+    run.completedAt = new Date().toISOString();
+    logger.info(`Workflow ${run.id} ${run.status}`, "TaskWorkflow");
+    await this.save(run);
+    this.emit("workflowFinished", run);
+    return run;
+  }
+
+  private async save(run: WorkflowRun): Promise<WorkflowRun> {
+    run.progress = workflowProgress(run);
+    run.updatedAt = new Date().toISOString();
+    await this.store.save(run);
+    this.emit("workflowUpdated", run);
+    return run;
+  }
+}
+
+/**
+ * Share of the work done; finished steps count whole
+ */
+export function workflowProgress(run: WorkflowRun): number {
+  const total = run.steps.reduce(
+    (sum, step) =>
+      sum + (FINISHED_STEP.includes(step.status) ? 100 : step.progress),
+    0,
+  );
+  return Math.round(total / run.steps.length);
+}
+
+export function evaluateCondition(
+  condition: StepCondition,
+  result: unknown,
+): boolean {
+  const actual = condition.path
+    ? condition.path
+        .split(".")
+        .reduce<any>((value, key) => value?.[key], result)
+    : result;
+  const expected = condition.value as any;
+
+  switch (condition.op) {
+    case "eq":
+      return actual === expected;
+    case "ne":
+      return actual !== expected;
+    case "gt":
+      return actual > expected;
+    case "gte":
+      return actual >= expected;
+    case "lt":
+      return actual < expected;
+    case "lte":
+      return actual <= expected;
+    case "exists":
+      return actual !== undefined && actual !== null;
+    case "truthy":
+      return Boolean(actual);
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Workflow Stores - Persisted state of TaskWorkflow runs
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import type { Cluster, Redis } from "ioredis";
+import type { WorkflowRun } from "./TaskWorkflow";
+
+export interface WorkflowStore {
+  // Only over the version it was read at; bumps run.version, and throws
+  // WorkflowConflictError when another writer saved the run in between
+  save(run: WorkflowRun): Promise<void>;
+  get(id: string): Promise<WorkflowRun | null>;
+  // Newest first
+  list(limit?: number): Promise<WorkflowRun[]>;
+  // Runs still in progress, resumed after a restart
+  active(): Promise<WorkflowRun[]>;
+}
+
+export class WorkflowConflictError extends Error {
+  constructor(public readonly runId: string) {
+    super(`Workflow ${runId} was changed by another writer`);
+    this.name = "WorkflowConflictError";
+  }
+}
+
+// Finished runs are kept for a week, like completed queue tasks
+const FINISHED_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export class MemoryWorkflowStore implements WorkflowStore {
+  private runs = new Map<string, string>();
+
+  async save(run: WorkflowRun): Promise<void> {
+    const stored = this.runs.get(run.id);
+    const version = stored ? (JSON.parse(stored).version ?? 0) : 0;
+    if (version !== (run.version ?? 0)) {
+      throw new WorkflowConflictError(run.id);
+    }
+    run.version = version + 1;
+    this.runs.set(run.id, JSON.stringify(run));
+  }
+
+  async get(id: string): Promise<WorkflowRun | null> {
+    const raw = this.runs.get(id);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async list(limit: number = 50): Promise<WorkflowRun[]> {
+    return [...this.runs.values()]
+      .map((raw) => JSON.parse(raw) as WorkflowRun)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  }
+
+  async active(): Promise<WorkflowRun[]> {
+    return (await this.list(Infinity)).filter(
+      (run) => run.status === "running",
+    );
+  }
+}
+
+// KEYS: run; ARGV: run JSON, version it was read at, TTL seconds (0: none)
+const SAVE_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+local version = 0
+if raw then version = cjson.decode(raw).version or 0 end
+if version ~= tonumber(ARGV[2]) then return 0 end
+if ARGV[3] == '0' then
+  redis.call('SET', KEYS[1], ARGV[1])
+else
+  redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[3])
+end
+return 1
+`;
+
+/**
+ * Runs shared by every replica: one JSON document per run, a sorted index
+ * by creation time and the set of runs in progress. The version check and
+ * the write of a run run in one Lua script.
+ */
+export class RedisWorkflowStore implements WorkflowStore {
+  constructor(
+    private connection: () => Promise<Redis | Cluster>,
+    private prefix: string = "workflows",
+  ) {}
+
+  async save(run: WorkflowRun): Promise<void> {
+    const redis = await this.connection();
+    const version = run.version ?? 0;
+    const running = run.status === "running";
+    const saved = await redis.eval(
+      SAVE_SCRIPT,
+      1,
+      this.key(run.id),
+      JSON.stringify({ ...run, version: version + 1 }),
+      version,
+      running ? 0 : FINISHED_TTL_SECONDS,
+    );
+    if (saved !== 1) {
+      throw new WorkflowConflictError(run.id);
+    }
+    run.version = version + 1;
+
+    if (running) {
+      await redis.sadd(`${this.prefix}:active`, run.id);
+    } else {
+      await redis.srem(`${this.prefix}:active`, run.id);
+    }
+    await redis.zadd(`${this.prefix}:index`, Date.parse(run.createdAt), run.id);
+  }
+
+  async get(id: string): Promise<WorkflowRun | null> {
+    const redis = await this.connection();
+    const raw = await redis.get(this.key(id));
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async list(limit: number = 50): Promise<WorkflowRun[]> {
+    const redis = await this.connection();
+    const ids = await redis.zrevrange(`${this.prefix}:index`, 0, limit - 1);
+    return this.load(ids);
+  }
+
+  async active(): Promise<WorkflowRun[]> {
+    const redis = await this.connection();
+    const runs = await this.load(await redis.smembers(`${this.prefix}:active`));
+    // A slower writer may have re-added a run another one finished
+    return runs.filter((run) => run.status === "running");
+  }
+
+  private async load(ids: string[]): Promise<WorkflowRun[]> {
+    const runs = await Promise.all(ids.map((id) => this.get(id)));
+    // Expired runs are dropped from the index lazily
+    const expired = ids.filter((_, i) => !runs[i]);
+    if (expired.length > 0) {
+      const redis = await this.connection();
+      await redis.zrem(`${this.prefix}:index`, ...expired);
+    }
+    return runs.filter((run): run is WorkflowRun => run !== null);
+  }
+
+  private key(id: string): string {
+    return `${this.prefix}:run:${id}`;
+  }
+}
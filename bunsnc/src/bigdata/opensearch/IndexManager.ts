@@ -6,6 +6,10 @@
 import { EventEmitter } from "events";
 import { logger } from "../../utils/Logger";
 import { performanceMonitor } from "../../utils/PerformanceMonitor";
+import {
+  leaderLease,
+  type LeaderLease,
+} from "../../services/system/LeaderLease";
 import type { OpenSearchClient, IndexConfig } from "./OpenSearchClient";
 
 export interface IndexTemplate {
@@ -100,10 +104,15 @@ export class IndexManager extends EventEmitter {
   private indexMetrics: Map<string, IndexMetrics> = new Map();
   private monitoringInterval?: NodeJS.Timeout;
   private isMonitoring: boolean = false;
+  private monitoringLease: LeaderLease;
 
-  constructor(client: OpenSearchClient) {
+  constructor(
+    client: OpenSearchClient,
+    monitoringLease: LeaderLease = leaderLease("index-monitoring"),
+  ) {
     super();
     this.client = client;
+    this.monitoringLease = monitoringLease;
 
     logger.info("IndexManager initialized");
   }
@@ -447,8 +456,13 @@ export class IndexManager extends EventEmitter {
     }
 
     this.isMonitoring = true;
+    // Only the lease holder polls the cluster; standbys wait for a handover
+    void this.monitoringLease.start();
 
     this.monitoringInterval = setInterval(async () => {
+      if (!this.monitoringLease.isLeader()) {
+        return;
+      }
       try {
         await this.updateAllIndexMetrics();
         await this.checkIndexHealth();
@@ -474,6 +488,7 @@ export class IndexManager extends EventEmitter {
       clearInterval(this.monitoringInterval);
       this.monitoringInterval = undefined;
     }
+    void this.monitoringLease.stop();
 
     this.isMonitoring = false;
 
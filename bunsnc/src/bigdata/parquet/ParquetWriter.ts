@@ -9,6 +9,7 @@ import { join, dirname } from "path";
 import { logger } from "../../utils/Logger";
 import { performanceMonitor } from "../../utils/PerformanceMonitor";
 import type { GlideRecord } from "../../record/GlideRecord";
+import type { ServiceNowRecord } from "../../types/servicenow";
 
 export interface ParquetWriterOptions {
   compression?:
@@ -91,15 +92,21 @@ export class ParquetWriter {
    * Auto-detect schema from ServiceNow GlideRecord
    */
   async detectSchema(gr: GlideRecord): Promise<arrow.Schema> {
+    if (!gr.next()) {
+      throw new Error("No records available for schema detection");
+    }
+
+    return this.detectSchemaFromRecord(gr.serialize(), gr.getTableName());
+  }
+
+  /**
+   * Auto-detect schema from a single ServiceNow record
+   */
+  detectSchemaFromRecord(record: object, tableName?: string): arrow.Schema {
     const timer = performanceMonitor.startTimer("parquet_schema_detection");
 
     try {
-      if (!gr.next()) {
-        throw new Error("No records available for schema detection");
-      }
-
       const fields: arrow.Field[] = [];
-      const record = gr.serialize();
 
       // Add system fields first
       fields.push(arrow.Field.new("sys_id", arrow.Utf8, false));
@@ -123,7 +130,7 @@ export class ParquetWriter {
       this.schema = new arrow.Schema(fields);
 
       logger.info(
-        `Schema detected with ${fields.length} fields for table ${gr.getTableName()}`,
+        `Schema detected with ${fields.length} fields${tableName ? ` for table ${tableName}` : ""}`,
       );
       return this.schema;
     } finally {
@@ -194,29 +201,37 @@ export class ParquetWriter {
   }
 
   /**
-   * Stream ServiceNow GlideRecord to Parquet (memory efficient)
+   * Stream ServiceNow records to Parquet (memory efficient).
+   * A GlideRecord is read through its keyset stream(); record streams and async
+   * iterables (e.g. gr.stream({ keyset: "sys_updated_on" })) are consumed as given.
    */
   async streamToParquet(
-    gr: GlideRecord,
+    source:
+      | GlideRecord
+      | ReadableStream<ServiceNowRecord>
+      | AsyncIterable<ServiceNowRecord>,
     outputPath: string,
     batchSize: number = 10000,
   ): Promise<ParquetWriteStats> {
     const timer = performanceMonitor.startTimer("parquet_stream_write");
 
     try {
-      // Auto-detect schema if not set
-      if (!this.schema) {
-        await this.detectSchema(gr);
-        gr.rewind(); // Reset to beginning
-      }
+      const records =
+        "stream" in source && typeof source.stream === "function"
+          ? source.stream()
+          : (source as AsyncIterable<ServiceNowRecord>);
 
       this.resetStats();
       let batch: any[] = [];
       let batchNumber = 0;
 
-      while (gr.next()) {
-        const record = this.transformRecord(gr.serialize());
-        batch.push(record);
+      for await (const raw of records) {
+        // Auto-detect schema from the first record if not set
+        if (!this.schema) {
+          this.detectSchemaFromRecord(raw);
+        }
+
+        batch.push(this.transformRecord(raw));
 
         // Write batch when size is reached
         if (batch.length >= batchSize) {
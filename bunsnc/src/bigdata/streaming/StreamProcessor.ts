@@ -110,6 +110,17 @@ export class StreamProcessor<T = any, R = any> extends EventEmitter {
     logger.info(`StreamProcessor initialized: ${config.name}`);
   }
 
+  /**
+   * Create a source stream from a web ReadableStream or async iterable such as
+   * GlideRecord.stream(), ready to pipe into createProcessingStream()
+   */
+  createSourceStream(source: ReadableStream<T> | AsyncIterable<T>): Readable {
+    return Readable.from(source as AsyncIterable<T>, {
+      objectMode: true,
+      highWaterMark: this.config.bufferSize,
+    });
+  }
+
   /**
    * Create a processing stream with backpressure handling
    */
@@ -10,6 +10,7 @@
 import { Elysia } from "elysia";
 import { cliPlugin } from "./plugins/cli";
 import * as dotenv from "dotenv";
+import type { NotificationManager } from "./notifications/NotificationManager";
 
 // Load environment variables
 dotenv.config();
@@ -17,6 +18,35 @@ dotenv.config();
 // Create Elysia app with CLI plugin
 const cliApp = new Elysia().use(cliPlugin).compile();
 
+// AttachmentAPI for the resumable transfers, talking to the instance directly
+async function resumableAttachments() {
+  const { AttachmentAPI } = await import("./api/AttachmentAPI");
+  return new AttachmentAPI(
+    process.env.SNC_INSTANCE_URL || process.env.SERVICENOW_INSTANCE_URL || "",
+    process.env.SNC_AUTH_TOKEN || "",
+    { enableCaching: false },
+  );
+}
+
+// Runs a resumable transfer reporting to the NotificationManager like the
+// TaskQueue processors; without Redis the transfer runs unreported
+async function withTransferNotifier<T>(
+  transfer: (notifier?: NotificationManager) => Promise<T>,
+): Promise<T> {
+  let notifications: NotificationManager | undefined;
+  try {
+    const { getNotificationManager } = await import("./routes/notifications");
+    notifications = await getNotificationManager();
+  } catch (error: unknown) {
+    console.warn("Progresso da transferência não será notificado:", error);
+  }
+  try {
+    return await transfer(notifications);
+  } finally {
+    await notifications?.stop();
+  }
+}
+
 // Main CLI execution function
 async function runCLI() {
   try {
@@ -34,8 +64,22 @@ async function runCLI() {
       console.log("  update <table> <sysId>    Update a record by sysId");
       console.log("  delete <table> <sysId>    Delete a record by sysId");
       console.log("  batch                     Execute batch operations");
-      console.log("  upload <table> <sysId> <file>   Upload attachment");
-      console.log("  download <attachmentId> <dest>  Download attachment");
+      console.log(
+        "  upload <table> <sysId> <file>   Upload attachment (--resume for chunked)",
+      );
+      console.log(
+        "  download <attachmentId> <dest>  Download attachment (--resume for Range)",
+      );
+      console.log(
+        "  codegen <tables...>       Generate typed table interfaces from sys_dictionary",
+      );
+      console.log("  query-lint <query>        Validate an encoded query");
+      console.log(
+        "  penalty-report            SLA penalty invoice of a billing period",
+      );
+      console.log(
+        "  simulate                  Run a local ServiceNow REST API simulator",
+      );
       console.log("");
       console.log(
         "For help on a specific command: bun src/cli.ts <command> --help",
@@ -144,7 +188,27 @@ async function runCLI() {
     program
       .command("upload <table> <sysId> <file>")
       .description("Faz upload de anexo para um registro")
-      .action(async (table, sysId, filePath) => {
+      .option(
+        "--resume",
+        "Upload em partes retomável; reenvia só as partes que falharam. " +
+          "Arquivos maiores que uma parte ficam como um anexo por parte mais " +
+          "<nome>.parts.json, que só o download --resume remonta",
+      )
+      .option("--part-size <mb>", "Tamanho de cada parte em MB", "16")
+      .action(async (table, sysId, filePath, opts) => {
+        if (opts.resume) {
+          const attachments = await resumableAttachments();
+          const result = await withTransferNotifier((notifier) =>
+            attachments.resumableUpload(filePath, table, sysId, {
+              resume: true,
+              partSize: Number(opts.partSize) * 1024 * 1024,
+              notifier,
+            }),
+          );
+          console.log(JSON.stringify(result, null, 2));
+          return;
+        }
+
         const fs = await import("fs/promises");
         const fileBuffer = await fs.readFile(filePath);
         const uint8 = new Uint8Array(fileBuffer);
@@ -162,7 +226,23 @@ async function runCLI() {
     program
       .command("download <attachmentId> <dest>")
       .description("Faz download de anexo pelo attachmentId")
-      .action(async (attachmentId, dest) => {
+      .option(
+        "--resume",
+        "Download por Range retomável, com verificação do checksum",
+      )
+      .action(async (attachmentId, dest, opts) => {
+        if (opts.resume) {
+          const attachments = await resumableAttachments();
+          const result = await withTransferNotifier((notifier) =>
+            attachments.resumableDownload(attachmentId, dest, {
+              resume: true,
+              notifier,
+            }),
+          );
+          console.log(JSON.stringify(result, null, 2));
+          return;
+        }
+
         const data = await consolidatedServiceNowService.download(attachmentId);
         const fs = await import("fs/promises");
         await fs.writeFile(dest, Buffer.from(data));
@@ -171,6 +251,201 @@ async function runCLI() {
         );
       });
 
+    // Typed table interfaces from the data dictionary
+    program
+      .command("codegen <tables...>")
+      .description(
+        "Gera interfaces TypeScript tipadas a partir de sys_dictionary/sys_db_object",
+      )
+      .option(
+        "-s, --snapshot <file>",
+        "Usa um snapshot JSON do dicionário (modo offline)",
+      )
+      .option(
+        "--save-snapshot <file>",
+        "Salva o dicionário lido da instância em um snapshot JSON",
+      )
+      .option("-o, --out <dir>", "Diretório de saída")
+      .action(async (tables: string[], opts) => {
+        const { DictionaryLoader, generateTypes, DEFAULT_CODEGEN_OUT_DIR } =
+          await import("./codegen");
+
+        const snapshot = opts.snapshot
+          ? DictionaryLoader.fromSnapshot(opts.snapshot)
+          : await DictionaryLoader.fromInstance(
+              consolidatedServiceNowService,
+              tables,
+              process.env.SERVICENOW_INSTANCE_URL,
+            );
+
+        if (opts.saveSnapshot) {
+          DictionaryLoader.saveSnapshot(snapshot, opts.saveSnapshot);
+        }
+
+        const outDir = opts.out || DEFAULT_CODEGEN_OUT_DIR;
+        const files = await generateTypes({ snapshot, tables, outDir });
+        console.log(
+          JSON.stringify(
+            { outDir, files: files.map((f) => f.fileName) },
+            null,
+            2,
+          ),
+        );
+      });
+
+    // Encoded query linting
+    program
+      .command("query-lint <query>")
+      .description("Valida uma encoded query do ServiceNow")
+      .option("-t, --table <table>", "Tabela alvo da query")
+      .option(
+        "-s, --snapshot <file>",
+        "Snapshot do dicionário para validar os campos (requer --table)",
+      )
+      .action(async (query: string, opts) => {
+        const { lintEncodedQuery } = await import("./query");
+
+        let fields: string[] | undefined;
+        if (opts.snapshot && opts.table) {
+          const { DictionaryLoader } = await import("./codegen");
+          const snapshot = DictionaryLoader.fromSnapshot(opts.snapshot);
+          fields = DictionaryLoader.resolveTable(
+            snapshot,
+            opts.table,
+          ).fields.map((field) => field.element);
+        }
+
+        const issues = lintEncodedQuery(query, { table: opts.table, fields });
+        const valid = !issues.some((issue) => issue.severity === "error");
+        console.log(JSON.stringify({ query, valid, issues }, null, 2));
+
+        if (!valid) {
+          process.exitCode = 1;
+        }
+      });
+
+    // Contract penalty invoice of a billing period
+    program
+      .command("penalty-report")
+      .description(
+        "Gera o relatório de multas contratuais de SLA de um período de faturamento",
+      )
+      .option("-p, --period <YYYY-MM>", "Mês de faturamento")
+      .option("--start <date>", "Início do período (sem --period)")
+      .option("--end <date>", "Fim do período, exclusivo (sem --period)")
+      .option("-f, --format <format>", "json, csv, xlsx ou html", "json")
+      .option("-t, --type <ticketType>", "incident, ctask ou sctask")
+      .option("--fee <value>", "Valor mensal do contrato")
+      .option("--cap <percentage>", "Teto contratual da multa (%)")
+      .option("-o, --out <file>", "Arquivo de saída (padrão: stdout)")
+      .action(async (opts) => {
+        const [
+          { MongoClient },
+          { ContractualSLAService },
+          { EnhancedMetricsService },
+          { PenaltyInvoiceService, resolveBillingPeriod },
+          { PENALTY_INVOICE_FORMATS, renderPenaltyInvoice },
+          { pluginConfigManager },
+          { TicketType },
+        ] = await Promise.all([
+          import("mongodb"),
+          import("./services/ContractualSLAService"),
+          import("./services/EnhancedMetricsService"),
+          import("./services/sla/PenaltyInvoiceService"),
+          import("./services/sla/PenaltyInvoiceExport"),
+          import("./plugins/config-manager"),
+          import("./types/ContractualSLA"),
+        ]);
+
+        if (opts.type && !Object.values(TicketType).includes(opts.type)) {
+          throw new Error(`Tipo de ticket inválido: ${opts.type}`);
+        }
+        if (!PENALTY_INVOICE_FORMATS.includes(opts.format)) {
+          throw new Error(`Formato inválido: ${opts.format}`);
+        }
+        const config = await pluginConfigManager.load();
+        const billing = config.sla?.billing ?? {};
+        const period = resolveBillingPeriod(
+          { period: opts.period, start_date: opts.start, end_date: opts.end },
+          billing.timezone,
+        );
+
+        const mongoClient = new MongoClient(
+          process.env.MONGODB_URL || "mongodb://localhost:27018",
+        );
+        const databaseName = process.env.MONGODB_DATABASE || "bunsnc";
+        try {
+          await mongoClient.connect();
+          const sla = new ContractualSLAService(mongoClient, databaseName);
+          await sla.initialize();
+          if (config.sla?.pause) {
+            sla.setPauseRules(
+              config.sla.pause as Parameters<typeof sla.setPauseRules>[0],
+            );
+          }
+          const service = new PenaltyInvoiceService(
+            new EnhancedMetricsService(mongoClient, databaseName, sla),
+            sla,
+          );
+
+          const invoice = await service.generate({
+            period_start: period.start,
+            period_end: period.end,
+            label: period.label,
+            ticket_types: opts.type ? [opts.type] : undefined,
+            monthly_fee: opts.fee
+              ? parseFloat(opts.fee)
+              : billing.monthly_fee || undefined,
+            currency: billing.currency,
+            penalty_cap_percentage: opts.cap
+              ? parseFloat(opts.cap)
+              : billing.penalty_cap_percentage,
+          });
+          const rendered = renderPenaltyInvoice(invoice, opts.format);
+
+          if (opts.out) {
+            const fs = await import("fs/promises");
+            await fs.writeFile(opts.out, rendered.body);
+            console.log(
+              JSON.stringify(
+                {
+                  message: `Relatório salvo em ${opts.out}`,
+                  totals: invoice.totals,
+                },
+                null,
+                2,
+              ),
+            );
+          } else if (typeof rendered.body === "string") {
+            process.stdout.write(rendered.body);
+          } else {
+            throw new Error("Use --out para salvar o relatório em xlsx");
+          }
+        } finally {
+          await mongoClient.close();
+        }
+      });
+
+    // Local fake instance for tests and offline development
+    program
+      .command("simulate")
+      .description(
+        "Inicia um simulador local das APIs Table/Attachment/Batch/Stats",
+      )
+      .option("-p, --port <port>", "Porta HTTP", "3999")
+      .option("-f, --fixtures <file>", "Fixtures JSON { tabela: [registros] }")
+      .option("--sqlite <file>", "Persiste os dados em um arquivo SQLite")
+      .action(async (opts) => {
+        const { startServiceNowSimulator } = await import(
+          "./modules/servicenow-simulator"
+        );
+        startServiceNowSimulator({
+          port: Number(opts.port),
+          fixturesPath: opts.fixtures,
+          sqlitePath: opts.sqlite,
+        });
+      });
+
     // Parse and execute the command
     await program.parseAsync(args, { from: "user" });
   } catch (error: any) {
@@ -182,7 +457,7 @@ async function runCLI() {
     ) {
       console.log("");
       console.log(
-        "Available commands: login, record, read, update, delete, batch, upload, download",
+        "Available commands: login, record, read, update, delete, batch, upload, download, codegen, query-lint, penalty-report, simulate",
       );
       console.log("Use --help with any command for detailed usage information");
     }
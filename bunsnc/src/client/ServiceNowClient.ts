@@ -3,9 +3,12 @@
  * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
  */
 import { GlideRecord } from "../record/GlideRecord";
+import { GlideAggregate } from "../record/GlideAggregate";
 import { TableAPI } from "../api/TableAPI";
 import { AttachmentAPI } from "../api/AttachmentAPI";
 import { BatchAPI } from "../api/BatchAPI";
+import { ServiceNowBridgeService } from "../services/ServiceNowBridgeService";
+import type { ServiceNowFetchClient } from "../services/ServiceNowFetchClient";
 import { ConsolidatedServiceNowService as ServiceNowService } from "../services";
 import { handleServiceNowError } from "../exceptions";
 import { logger } from "../utils/Logger";
@@ -13,6 +16,19 @@ import { cache } from "../utils/Cache";
 import { performanceMonitor } from "../utils/PerformanceMonitor";
 import { transactionManager } from "../utils/TransactionManager";
 import type { ServiceNowRecord, QueryOptions } from "../types/servicenow";
+import {
+  ApiKeyAuthProvider,
+  MutualTLSAuthProvider,
+  StaticAuthProvider,
+  authProviderFetchClient,
+  authorizedFetch,
+  type AuthProvider,
+  type ClientCertificate,
+} from "../services/auth/AuthProvider";
+import {
+  OAuth2AuthProvider,
+  type OAuth2Options,
+} from "../services/auth/OAuth2AuthProvider";
 
 export interface IServiceNowClient {
   // Core properties
@@ -31,6 +47,7 @@ export interface IServiceNowClient {
     batchSize?: number,
     rewindable?: boolean,
   ): GlideRecord;
+  GlideAggregate(table: string): GlideAggregate;
 
   // Direct API methods
   query(options: QueryOptions): Promise<ServiceNowRecord[]>;
@@ -93,6 +110,7 @@ export interface IServiceNowClient {
 export class ServiceNowClient implements IServiceNowClient {
   public readonly instance: string;
   public readonly auth: string;
+  public readonly authProvider: AuthProvider;
   public readonly table: TableAPI;
   public readonly attachment: AttachmentAPI;
   public readonly batch: BatchAPI;
@@ -170,10 +188,11 @@ export class ServiceNowClient implements IServiceNowClient {
 
   constructor(
     instanceUrl: string,
-    authToken: string,
+    authToken: string | AuthProvider,
     options: {
       validateConnection?: boolean;
       enableCache?: boolean;
+      bridgeService?: ServiceNowBridgeService; // e.g. ServiceNowSimulator.bridge()
     } = {},
   ) {
     // 🛡️ ULTRA DEFENSIVE: Validate FIRST, before ANY operations
@@ -199,13 +218,18 @@ export class ServiceNowClient implements IServiceNowClient {
       );
     }
 
-    if (typeof authToken !== "string") {
+    const provider =
+      typeof authToken === "object" && typeof authToken.headers === "function"
+        ? authToken
+        : null;
+
+    if (!provider && typeof authToken !== "string") {
       throw new Error(
-        `[ServiceNowClient] authToken must be a string, received: ${typeof authToken}`,
+        `[ServiceNowClient] authToken must be a string or an AuthProvider, received: ${typeof authToken}`,
       );
     }
 
-    if (authToken.trim() === "") {
+    if (typeof authToken === "string" && authToken.trim() === "") {
       throw new Error(`[ServiceNowClient] authToken cannot be empty string`);
     }
 
@@ -217,16 +241,34 @@ export class ServiceNowClient implements IServiceNowClient {
       ? instanceUrl.slice(0, -1)
       : instanceUrl;
 
-    this.auth = authToken;
+    // A provider's credentials change over time: `auth` is only its type
+    this.auth = provider ? provider.type : (authToken as string);
+    this.authProvider = provider ?? new StaticAuthProvider(this.auth);
     this.cacheEnabled = options.enableCache ?? true;
 
-    // Initialize API instances
-    this.table = new TableAPI(this.instance, this.auth);
-    this.attachment = new AttachmentAPI(this.instance, this.auth);
+    // Initialize API instances. Without a provider the bridge keeps the
+    // env-configured session; with one, every request carries its credentials
+    const bridgeService =
+      options.bridgeService ??
+      (provider
+        ? new ServiceNowBridgeService(
+            authProviderFetchClient(
+              this.instance,
+              provider,
+            ) as unknown as ServiceNowFetchClient,
+          )
+        : undefined);
+    const token = provider ? "" : this.auth;
+    this.table = new TableAPI(this.instance, token, bridgeService);
+    this.attachment = new AttachmentAPI(this.instance, token, {
+      bridgeService,
+      authProvider: provider ?? undefined,
+    });
     this.batch = new BatchAPI(this.table, this.attachment);
     this.serviceNow = new ServiceNowService({
       instanceUrl: this.instance,
-      authToken: this.auth,
+      authToken: token,
+      bridgeService,
     });
 
     // Log client initialization
@@ -277,6 +319,13 @@ export class ServiceNowClient implements IServiceNowClient {
     return new GlideRecord(this, table, batchSize, rewindable);
   }
 
+  /**
+   * Factory method to create GlideAggregate instances
+   */
+  GlideAggregate(table: string): GlideAggregate {
+    return new GlideAggregate(this, table);
+  }
+
   /**
    * Query records with advanced options
    */
@@ -645,16 +694,12 @@ export class ServiceNowClient implements IServiceNowClient {
    */
   async testConnection(): Promise<boolean> {
     try {
-      const response = await fetch(
+      const response = await authorizedFetch(
+        this.authProvider,
         `${this.instance}/api/now/table/sys_properties?sysparm_limit=1`,
         {
           method: "GET",
-          headers: {
-            Accept: "application/json",
-            Authorization: this.auth.startsWith("Bearer ")
-              ? this.auth
-              : `Bearer ${this.auth}`,
-          },
+          headers: { Accept: "application/json" },
         },
       );
 
@@ -934,19 +979,76 @@ export class ServiceNowClient implements IServiceNowClient {
   }
 
   /**
-   * Create client with OAuth token
+   * Create client with OAuth: a fixed access token, or the client
+   * credentials of a password / client-credentials grant renewed on expiry
    */
   static createWithOAuth(
     instanceUrl: string,
-    accessToken: string,
+    accessToken: string | Omit<OAuth2Options, "instanceUrl">,
     options: {
       validateConnection?: boolean;
     } = {},
   ): ServiceNowClient {
+    if (typeof accessToken !== "string") {
+      return new ServiceNowClient(
+        instanceUrl,
+        new OAuth2AuthProvider({ ...accessToken, instanceUrl }),
+        options,
+      );
+    }
     const authToken = `Bearer ${accessToken}`;
     return new ServiceNowClient(instanceUrl, authToken, options);
   }
 
+  /**
+   * Create client with an inbound REST API key (x-sn-apikey)
+   */
+  static createWithApiKey(
+    instanceUrl: string,
+    apiKey: string,
+    options: {
+      validateConnection?: boolean;
+    } = {},
+  ): ServiceNowClient {
+    return new ServiceNowClient(
+      instanceUrl,
+      new ApiKeyAuthProvider(apiKey),
+      options,
+    );
+  }
+
+  /**
+   * Create client authenticated by a TLS client certificate
+   */
+  static createWithMutualTLS(
+    instanceUrl: string,
+    certificate: ClientCertificate,
+    options: {
+      validateConnection?: boolean;
+      inner?: AuthProvider; // headers the instance requires on top
+    } = {},
+  ): ServiceNowClient {
+    return new ServiceNowClient(
+      instanceUrl,
+      new MutualTLSAuthProvider(certificate, options.inner),
+      options,
+    );
+  }
+
+  /**
+   * Create client with any AuthProvider
+   */
+  static createWithAuthProvider(
+    instanceUrl: string,
+    provider: AuthProvider,
+    options: {
+      validateConnection?: boolean;
+      enableCache?: boolean;
+    } = {},
+  ): ServiceNowClient {
+    return new ServiceNowClient(instanceUrl, provider, options);
+  }
+
   /**
    * Cache and Performance Methods
    */
@@ -226,6 +226,8 @@ export interface CreateScheduledTaskRequest {
   name: string;
   description: string;
   cronExpression: string;
+  timezone?: string;
+  misfirePolicy?: "fire_once" | "fire_all" | "skip";
   taskType: TaskType;
   taskData: Record<string, any>;
   priority?: TaskPriority;
@@ -0,0 +1,541 @@
+/**
+ * LLM Gateway - Provider-agnostic chat, streaming, structured output and tool calling with per-feature limits
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { logger } from "../utils/Logger";
+import {
+  OllamaProvider,
+  OpenAICompatibleProvider,
+  StubProvider,
+} from "./LLMProviders";
+
+export type JSONSchema = {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: unknown[];
+  description?: string;
+};
+
+export interface LLMTool {
+  name: string;
+  description: string;
+  parameters: JSONSchema;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface GatewayMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  // Calls requested by an assistant message
+  toolCalls?: LLMToolCall[];
+  // Call answered by a tool message
+  toolCallId?: string;
+}
+
+export interface GatewayRequest {
+  messages: GatewayMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  tools?: LLMTool[];
+  // Structured output: the answer must be JSON matching the schema
+  schema?: JSONSchema;
+}
+
+export interface GatewayUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface GatewayResult {
+  content: string;
+  toolCalls: LLMToolCall[];
+  model: string;
+  provider: string;
+  usage: GatewayUsage;
+}
+
+/**
+ * A backend the gateway talks to; requests arrive with maxTokens resolved
+ */
+export interface LLMProvider {
+  readonly name: string;
+  chat(request: GatewayRequest): Promise<GatewayResult>;
+  // Content tokens as they are generated
+  stream(request: GatewayRequest): AsyncIterable<string>;
+}
+
+export interface FeatureLimits {
+  maxPromptTokens: number;
+  maxCompletionTokens: number;
+  // Prompt plus completion tokens per rolling hour
+  tokensPerHour: number;
+  concurrency: number;
+}
+
+export interface FeatureUsage {
+  requests: number;
+  rejected: number;
+  promptTokens: number;
+  completionTokens: number;
+  hourTokens: number;
+  active: number;
+  queued: number;
+}
+
+export type ToolHandler = (args: Record<string, unknown>) => Promise<unknown>;
+
+export class LLMBudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LLMBudgetExceededError";
+  }
+}
+
+export class LLMOutputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LLMOutputError";
+  }
+}
+
+const DEFAULT_LIMITS: FeatureLimits = {
+  maxPromptTokens: 4000,
+  maxCompletionTokens: 800,
+  tokensPerHour: 200_000,
+  concurrency: 2,
+};
+
+// Chat is interactive, analytics runs in batches behind it
+export const FEATURE_LIMITS: Record<string, Partial<FeatureLimits>> = {
+  "ai-chat": { maxPromptTokens: 6000, concurrency: 4 },
+  "agent-assistant": { concurrency: 4 },
+  "ticket-intelligence": { maxCompletionTokens: 1000 },
+  "predictive-analytics": { maxCompletionTokens: 300, concurrency: 1 },
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Rough token count, about four characters per token
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function promptTokens(request: GatewayRequest): number {
+  return (
+    request.messages.reduce(
+      (sum, message) => sum + estimateTokens(message.content) + 4,
+      0,
+    ) +
+    estimateTokens(JSON.stringify(request.tools ?? [])) +
+    estimateTokens(JSON.stringify(request.schema ?? ""))
+  );
+}
+
+/**
+ * Problems of a value against the schema subset the gateway supports
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JSONSchema,
+  path: string = "$",
+): string[] {
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${path} must be one of ${JSON.stringify(schema.enum)}`];
+  }
+  switch (schema.type) {
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      return [
+        ...(schema.required ?? [])
+          .filter((key) => record[key] === undefined)
+          .map((key) => `${path}.${key} is required`),
+        ...Object.entries(schema.properties ?? {})
+          .filter(([key]) => record[key] !== undefined)
+          .flatMap(([key, property]) =>
+            validateSchema(record[key], property, `${path}.${key}`),
+          ),
+      ];
+    }
+    case "array":
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array`];
+      }
+      return schema.items
+        ? value.flatMap((item, index) =>
+            validateSchema(item, schema.items!, `${path}[${index}]`),
+          )
+        : [];
+    case "integer":
+      return Number.isInteger(value) ? [] : [`${path} must be an integer`];
+    case "number":
+      return typeof value === "number" && Number.isFinite(value)
+        ? []
+        : [`${path} must be a number`];
+    case "string":
+    case "boolean":
+      return typeof value === schema.type
+        ? []
+        : [`${path} must be a ${schema.type}`];
+    default:
+      return [];
+  }
+}
+
+// Models often wrap JSON in a fenced block or add a sentence around it
+function extractJSON(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = fenced ? fenced[1] : content;
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+  if (start < 0 || end < start) {
+    throw new LLMOutputError("No JSON found in the model output");
+  }
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch (error: unknown) {
+    throw new LLMOutputError(`Invalid JSON in the model output: ${error}`);
+  }
+}
+
+class FeatureState {
+  usage: FeatureUsage = {
+    requests: 0,
+    rejected: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    hourTokens: 0,
+    active: 0,
+    queued: 0,
+  };
+  private windowStart = Date.now();
+  private waiting: Array<() => void> = [];
+
+  constructor(readonly limits: FeatureLimits) {}
+
+  async acquire(): Promise<void> {
+    if (this.usage.active >= this.limits.concurrency) {
+      this.usage.queued++;
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+      this.usage.queued--;
+    }
+    this.usage.active++;
+  }
+
+  release(): void {
+    this.usage.active--;
+    this.waiting.shift()?.();
+  }
+
+  hourTokens(): number {
+    if (Date.now() - this.windowStart >= HOUR_MS) {
+      this.windowStart = Date.now();
+      this.usage.hourTokens = 0;
+    }
+    return this.usage.hourTokens;
+  }
+
+  record(usage: GatewayUsage): void {
+    this.usage.requests++;
+    this.usage.promptTokens += usage.promptTokens;
+    this.usage.completionTokens += usage.completionTokens;
+    this.usage.hourTokens += usage.promptTokens + usage.completionTokens;
+  }
+}
+
+/**
+ * Every AI feature goes through one gateway, which caps its prompt and
+ * completion sizes, its hourly tokens and its concurrent requests
+ */
+export class LLMGateway {
+  private features = new Map<string, FeatureState>();
+
+  constructor(
+    private provider: LLMProvider,
+    private limits: Record<string, Partial<FeatureLimits>> = FEATURE_LIMITS,
+  ) {}
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  async chat(feature: string, request: GatewayRequest): Promise<GatewayResult> {
+    const state = this.feature(feature);
+    const prepared = this.admit(feature, state, request);
+    await state.acquire();
+    try {
+      const result = await this.provider.chat(prepared);
+      state.record(result.usage);
+      return result;
+    } finally {
+      state.release();
+    }
+  }
+
+  /**
+   * Single-prompt completion, the gateway form of LLMClient.generateCompletion
+   */
+  async complete(
+    feature: string,
+    prompt: string,
+    options: { system?: string; temperature?: number; maxTokens?: number } = {},
+  ): Promise<string> {
+    const messages: GatewayMessage[] = options.system
+      ? [{ role: "system", content: options.system }]
+      : [];
+    messages.push({ role: "user", content: prompt });
+    const result = await this.chat(feature, {
+      messages,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+    });
+    return result.content;
+  }
+
+  /**
+   * Content tokens as the provider produces them; the concurrency slot is
+   * held until the stream ends or the consumer stops reading
+   */
+  async *stream(
+    feature: string,
+    request: GatewayRequest,
+  ): AsyncGenerator<string, void, undefined> {
+    const state = this.feature(feature);
+    const prepared = this.admit(feature, state, request);
+    await state.acquire();
+    let content = "";
+    try {
+      for await (const token of this.provider.stream(prepared)) {
+        content += token;
+        yield token;
+      }
+    } finally {
+      state.record({
+        promptTokens: promptTokens(prepared),
+        completionTokens: estimateTokens(content),
+      });
+      state.release();
+    }
+  }
+
+  /**
+   * Structured output validated against the schema; an invalid answer is
+   * sent back once with the problems found
+   */
+  async json<T>(
+    feature: string,
+    request: Omit<GatewayRequest, "schema">,
+    schema: JSONSchema,
+  ): Promise<T> {
+    const instruction: GatewayMessage = {
+      role: "system",
+      content: `Responda somente com JSON válido que siga este JSON Schema:\n${JSON.stringify(schema)}`,
+    };
+    let messages = [instruction, ...request.messages];
+
+    for (let attempt = 1; ; attempt++) {
+      const result = await this.chat(feature, { ...request, messages, schema });
+      let problems: string[];
+      try {
+        const value = extractJSON(result.content);
+        problems = validateSchema(value, schema);
+        if (problems.length === 0) {
+          return value as T;
+        }
+      } catch (error: unknown) {
+        if (!(error instanceof LLMOutputError)) throw error;
+        problems = [error.message];
+      }
+
+      if (attempt === 2) {
+        throw new LLMOutputError(
+          `Model output does not match the schema: ${problems.join("; ")}`,
+        );
+      }
+      messages = [
+        ...messages,
+        { role: "assistant", content: result.content },
+        {
+          role: "user",
+          content: `A resposta não segue o schema: ${problems.join("; ")}. Responda novamente somente com o JSON corrigido.`,
+        },
+      ];
+    }
+  }
+
+  /**
+   * Lets the model call the given tools until it answers, at most maxRounds
+   * times; unknown tools and handler failures are reported back to it
+   */
+  async runTools(
+    feature: string,
+    request: GatewayRequest & { tools: LLMTool[] },
+    handlers: Record<string, ToolHandler>,
+    maxRounds: number = 4,
+  ): Promise<GatewayResult> {
+    const messages = [...request.messages];
+
+    for (let round = 0; round <= maxRounds; round++) {
+      const result = await this.chat(feature, {
+        ...request,
+        messages,
+        // The last round must produce an answer
+        tools: round < maxRounds ? request.tools : undefined,
+      });
+      if (result.toolCalls.length === 0) {
+        return result;
+      }
+
+      messages.push({
+        role: "assistant",
+        content: result.content,
+        toolCalls: result.toolCalls,
+      });
+      for (const call of result.toolCalls) {
+        messages.push({
+          role: "tool",
+          toolCallId: call.id,
+          content: await this.invoke(call, handlers),
+        });
+      }
+    }
+    throw new LLMOutputError(
+      `Model still calling tools after ${maxRounds + 1} rounds`,
+    );
+  }
+
+  usage(): Record<string, FeatureUsage & { limits: FeatureLimits }> {
+    return Object.fromEntries(
+      [...this.features].map(([name, state]) => [
+        name,
+        {
+          ...state.usage,
+          hourTokens: state.hourTokens(),
+          limits: state.limits,
+        },
+      ]),
+    );
+  }
+
+  private async invoke(
+    call: LLMToolCall,
+    handlers: Record<string, ToolHandler>,
+  ): Promise<string> {
+    const handler = handlers[call.name];
+    if (!handler) {
+      return JSON.stringify({ error: `Unknown tool ${call.name}` });
+    }
+    try {
+      return JSON.stringify(await handler(call.arguments));
+    } catch (error: unknown) {
+      logger.warn(`[LLMGateway] Tool ${call.name} failed`, "LLMGateway", {
+        error: String(error),
+      });
+      return JSON.stringify({
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Checks the budgets and clamps the completion size
+   */
+  private admit(
+    feature: string,
+    state: FeatureState,
+    request: GatewayRequest,
+  ): GatewayRequest {
+    const { limits } = state;
+    const tokens = promptTokens(request);
+    const maxTokens = Math.min(
+      request.maxTokens ?? limits.maxCompletionTokens,
+      limits.maxCompletionTokens,
+    );
+
+    if (tokens > limits.maxPromptTokens) {
+      state.usage.rejected++;
+      throw new LLMBudgetExceededError(
+        `${feature}: prompt of ~${tokens} tokens exceeds the limit of ${limits.maxPromptTokens}`,
+      );
+    }
+    if (state.hourTokens() + tokens + maxTokens > limits.tokensPerHour) {
+      state.usage.rejected++;
+      throw new LLMBudgetExceededError(
+        `${feature}: hourly budget of ${limits.tokensPerHour} tokens exhausted`,
+      );
+    }
+    return { ...request, maxTokens };
+  }
+
+  private feature(name: string): FeatureState {
+    let state = this.features.get(name);
+    if (!state) {
+      state = new FeatureState({ ...DEFAULT_LIMITS, ...this.limits[name] });
+      this.features.set(name, state);
+    }
+    return state;
+  }
+}
+
+let gateway: LLMGateway | null = null;
+
+/**
+ * LLM_PROVIDER picks the backend: ollama (default), openai for any
+ * OpenAI-compatible server, or stub for a deterministic offline model.
+ * LLM_FEATURE_LIMITS (JSON) overrides the limits of each feature
+ */
+export function createLLMProvider(): LLMProvider {
+  switch (process.env.LLM_PROVIDER) {
+    case "openai":
+      return new OpenAICompatibleProvider({
+        baseUrl: process.env.LLM_API_URL || "http://localhost:8000/v1",
+        apiKey: process.env.LLM_API_KEY,
+        model: process.env.LLM_MODEL || "gpt-4o-mini",
+        timeout: parseInt(process.env.LLM_TIMEOUT || "60000"),
+      });
+    case "stub":
+      return new StubProvider();
+    default:
+      return new OllamaProvider({
+        baseUrl: `http://${process.env.LLM_HOST || "10.219.8.210"}:${process.env.LLM_PORT || "11434"}`,
+        model: process.env.LLM_MODEL || "deepseek-coder:1.3b",
+        timeout: parseInt(process.env.LLM_TIMEOUT || "60000"),
+      });
+  }
+}
+
+/**
+ * The process-wide gateway shared by the AI services
+ */
+export function llmGateway(): LLMGateway {
+  if (!gateway) {
+    const overrides = process.env.LLM_FEATURE_LIMITS
+      ? (JSON.parse(process.env.LLM_FEATURE_LIMITS) as Record<
+          string,
+          Partial<FeatureLimits>
+        >)
+      : {};
+    const limits = { ...FEATURE_LIMITS };
+    for (const [feature, values] of Object.entries(overrides)) {
+      limits[feature] = { ...limits[feature], ...values };
+    }
+    gateway = new LLMGateway(createLLMProvider(), limits);
+    logger.info(
+      `[LLMGateway] Using the ${gateway.providerName} provider`,
+      "LLMGateway",
+    );
+  }
+  return gateway;
+}
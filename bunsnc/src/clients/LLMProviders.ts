@@ -0,0 +1,341 @@
+/**
+ * LLM Providers - Ollama, OpenAI-compatible and deterministic stub adapters for the LLM gateway
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import {
+  estimateTokens,
+  type GatewayMessage,
+  type GatewayRequest,
+  type GatewayResult,
+  type JSONSchema,
+  type LLMProvider,
+  type LLMToolCall,
+} from "./LLMGateway";
+
+export interface HttpProviderConfig {
+  baseUrl: string;
+  model: string;
+  timeout: number;
+  apiKey?: string;
+}
+
+function estimatedUsage(request: GatewayRequest, content: string) {
+  return {
+    promptTokens: request.messages.reduce(
+      (sum, message) => sum + estimateTokens(message.content),
+      0,
+    ),
+    completionTokens: estimateTokens(content),
+  };
+}
+
+async function failIfNotOk(response: Response, what: string): Promise<void> {
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `${what} failed: ${response.status} ${response.statusText} - ${errorText}`,
+    );
+  }
+}
+
+/**
+ * Lines of a streamed body, split across chunk boundaries
+ */
+async function* lines(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const parts = buffer.split("\n");
+      buffer = parts.pop() ?? "";
+      for (const line of parts) {
+        if (line.trim()) yield line.trim();
+      }
+    }
+    if (buffer.trim()) yield buffer.trim();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+const tools = (request: GatewayRequest) =>
+  request.tools?.map((tool) => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }));
+
+/**
+ * Ollama /api/chat; JSON schemas go in `format`, tools in `tools`
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly name = "ollama";
+
+  constructor(private config: HttpProviderConfig) {}
+
+  async chat(request: GatewayRequest): Promise<GatewayResult> {
+    const response = await this.post(request, false);
+    await failIfNotOk(response, "Ollama request");
+    const result = (await response.json()) as any;
+    const content: string = result.message?.content ?? "";
+
+    return {
+      content,
+      toolCalls: (result.message?.tool_calls ?? []).map(
+        (call: any, index: number): LLMToolCall => ({
+          id: `call_${index}`,
+          name: call.function.name,
+          arguments: call.function.arguments ?? {},
+        }),
+      ),
+      model: result.model ?? this.config.model,
+      provider: this.name,
+      usage:
+        result.prompt_eval_count !== undefined
+          ? {
+              promptTokens: result.prompt_eval_count,
+              completionTokens: result.eval_count ?? 0,
+            }
+          : estimatedUsage(request, content),
+    };
+  }
+
+  async *stream(request: GatewayRequest): AsyncIterable<string> {
+    const response = await this.post(request, true);
+    await failIfNotOk(response, "Ollama streaming");
+    if (!response.body) {
+      throw new Error("Failed to get response reader");
+    }
+    for await (const line of lines(response.body)) {
+      const chunk = JSON.parse(line);
+      if (chunk.message?.content) yield chunk.message.content;
+      if (chunk.done) return;
+    }
+  }
+
+  private post(request: GatewayRequest, stream: boolean): Promise<Response> {
+    return fetch(`${this.config.baseUrl}/api/chat`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: request.model || this.config.model,
+        messages: request.messages.map((message) => ({
+          role: message.role,
+          content: message.content,
+          tool_calls: message.toolCalls?.map((call) => ({
+            function: { name: call.name, arguments: call.arguments },
+          })),
+        })),
+        stream,
+        tools: tools(request),
+        format: request.schema,
+        options: {
+          temperature: request.temperature,
+          num_predict: request.maxTokens,
+        },
+      }),
+      signal: AbortSignal.timeout(this.config.timeout),
+    });
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API (vLLM, LiteLLM,
+ * llama.cpp server, Azure OpenAI behind a proxy, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+
+  constructor(private config: HttpProviderConfig) {}
+
+  async chat(request: GatewayRequest): Promise<GatewayResult> {
+    const response = await this.post(request, false);
+    await failIfNotOk(response, "OpenAI-compatible request");
+    const result = (await response.json()) as any;
+    const message = result.choices?.[0]?.message ?? {};
+    const content: string = message.content ?? "";
+
+    return {
+      content,
+      toolCalls: (message.tool_calls ?? []).map(
+        (call: any): LLMToolCall => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: JSON.parse(call.function.arguments || "{}"),
+        }),
+      ),
+      model: result.model ?? this.config.model,
+      provider: this.name,
+      usage: result.usage
+        ? {
+            promptTokens: result.usage.prompt_tokens,
+            completionTokens: result.usage.completion_tokens,
+          }
+        : estimatedUsage(request, content),
+    };
+  }
+
+  async *stream(request: GatewayRequest): AsyncIterable<string> {
+    const response = await this.post(request, true);
+    await failIfNotOk(response, "OpenAI-compatible streaming");
+    if (!response.body) {
+      throw new Error("Failed to get response reader");
+    }
+    for await (const line of lines(response.body)) {
+      if (!line.startsWith("data:")) continue;
+      const data = line.slice(5).trim();
+      if (data === "[DONE]") return;
+      const token = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (token) yield token;
+    }
+  }
+
+  private post(request: GatewayRequest, stream: boolean): Promise<Response> {
+    return fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.config.apiKey
+          ? { Authorization: `Bearer ${this.config.apiKey}` }
+          : {}),
+      },
+      body: JSON.stringify({
+        model: request.model || this.config.model,
+        messages: request.messages.map(openAIMessage),
+        stream,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        tools: tools(request),
+        response_format: request.schema
+          ? {
+              type: "json_schema",
+              json_schema: { name: "output", schema: request.schema },
+            }
+          : undefined,
+      }),
+      signal: AbortSignal.timeout(this.config.timeout),
+    });
+  }
+}
+
+function openAIMessage(message: GatewayMessage): Record<string, unknown> {
+  if (message.role === "tool") {
+    return {
+      role: "tool",
+      tool_call_id: message.toolCallId,
+      content: message.content,
+    };
+  }
+  return {
+    role: message.role,
+    content: message.content,
+    tool_calls: message.toolCalls?.map((call) => ({
+      id: call.id,
+      type: "function",
+      function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+    })),
+  };
+}
+
+export interface StubRule {
+  // Matched against the last user message
+  match: RegExp | string;
+  reply?: string;
+  // Requested once per user message when the tool is offered
+  toolCall?: { name: string; arguments: Record<string, unknown> };
+}
+
+/**
+ * Deterministic offline model: replies by rule, echoes otherwise, fills
+ * schemas with sample values and streams its answer word by word
+ */
+export class StubProvider implements LLMProvider {
+  readonly name = "stub";
+  requests: GatewayRequest[] = [];
+
+  constructor(private rules: StubRule[] = []) {}
+
+  async chat(request: GatewayRequest): Promise<GatewayResult> {
+    this.requests.push(request);
+    const index = request.messages.map((m) => m.role).lastIndexOf("user");
+    const question = request.messages[index]?.content ?? "";
+    const answered = request.messages.slice(index + 1);
+    const rule = this.rules.find((candidate) =>
+      typeof candidate.match === "string"
+        ? question.includes(candidate.match)
+        : candidate.match.test(question),
+    );
+
+    let content: string;
+    let toolCalls: LLMToolCall[] = [];
+    if (
+      rule?.toolCall &&
+      request.tools?.some((tool) => tool.name === rule.toolCall!.name) &&
+      !answered.some((message) => message.role === "tool")
+    ) {
+      content = "";
+      toolCalls = [{ id: "stub_call_1", ...rule.toolCall }];
+    } else if (rule?.reply !== undefined) {
+      content = rule.reply;
+    } else if (request.schema) {
+      content = JSON.stringify(sample(request.schema));
+    } else {
+      const results = answered
+        .filter((message) => message.role === "tool")
+        .map((message) => message.content);
+      content = `Resposta stub para: ${question.slice(0, 200)}${
+        results.length > 0 ? `\nFerramentas: ${results.join(" ")}` : ""
+      }`;
+    }
+
+    const maxChars = (request.maxTokens ?? Infinity) * 4;
+    if (!request.schema && content.length > maxChars) {
+      content = content.slice(0, maxChars);
+    }
+    return {
+      content,
+      toolCalls,
+      model: "stub",
+      provider: this.name,
+      usage: estimatedUsage(request, content),
+    };
+  }
+
+  async *stream(request: GatewayRequest): AsyncIterable<string> {
+    const { content } = await this.chat(request);
+    for (const token of content.match(/\S+\s*/g) ?? []) {
+      yield token;
+    }
+  }
+}
+
+function sample(schema: JSONSchema): unknown {
+  if (schema.enum) return schema.enum[0];
+  switch (schema.type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [
+          key,
+          sample(property),
+        ]),
+      );
+    case "array":
+      return schema.items ? [sample(schema.items)] : [];
+    case "integer":
+    case "number":
+      return 1;
+    case "boolean":
+      return false;
+    default:
+      return "stub";
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Local Tika Client - In-process stand-in for the Tika Server
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * Answers extractFull() like TikaClient for text formats (plain, CSV, JSON,
+ * XML/HTML, logs, e-mail) and falls back to the printable runs of binary
+ * files, so attachments can be indexed where no Tika server is reachable.
+ */
+
+import { TikaClient, type TikaMetadata, type TikaResponse } from "./TikaClient";
+
+const TEXT_TYPES = [
+  "text/",
+  "application/json",
+  "application/xml",
+  "application/javascript",
+  "application/x-ndjson",
+  "application/x-yaml",
+  "message/rfc822",
+];
+
+const MARKUP_TYPES = ["text/html", "application/xml", "text/xml"];
+
+// Runs of 4+ printable characters, like strings(1)
+const PRINTABLE_RUN = /[\p{L}\p{N}\p{P}\p{Zs}]{4,}/gu;
+
+export class LocalTikaClient {
+  async extractFull(
+    fileBuffer: Buffer,
+    mimeType?: string,
+  ): Promise<TikaResponse> {
+    const contentType = (mimeType || "application/octet-stream")
+      .split(";")[0]
+      .trim()
+      .toLowerCase();
+
+    let content = this.isText(contentType, fileBuffer)
+      ? new TextDecoder("utf-8").decode(fileBuffer)
+      : (
+          new TextDecoder("utf-8", { fatal: false })
+            .decode(fileBuffer)
+            .match(PRINTABLE_RUN) ?? []
+        ).join("\n");
+
+    let title: string | undefined;
+    if (MARKUP_TYPES.includes(contentType)) {
+      title = /<title[^>]*>([^<]*)<\/title>/i.exec(content)?.[1]?.trim();
+      content = content
+        .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+        .replace(/<[^>]+>/g, " ")
+        .replace(/&nbsp;/g, " ")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&amp;/g, "&");
+    }
+    content = content.replace(/[ \t]+/g, " ").trim();
+
+    const metadata: TikaMetadata = {
+      "Content-Type": contentType,
+      "Content-Length": String(fileBuffer.length),
+      "Word-Count": String(content ? content.split(/\s+/).length : 0),
+      "Character Count": String(content.length),
+      "X-TIKA:Parsed-By": "LocalTikaClient",
+    };
+    if (title) {
+      metadata["dc:title"] = title;
+    }
+
+    return { content, metadata, title };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  detectMimeType(fileName: string, fileBuffer: Buffer): string {
+    return TikaClient.prototype.detectMimeType(fileName, fileBuffer);
+  }
+
+  private isText(contentType: string, fileBuffer: Buffer): boolean {
+    if (TEXT_TYPES.some((type) => contentType.startsWith(type))) {
+      return true;
+    }
+    // Untyped uploads (application/octet-stream) that are valid UTF-8 text
+    const sample = fileBuffer.subarray(0, 4096);
+    if (sample.includes(0)) {
+      return false;
+    }
+    try {
+      new TextDecoder("utf-8", { fatal: true }).decode(sample);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export default LocalTikaClient;
@@ -0,0 +1,261 @@
+/**
+ * DictionaryLoader - Reads sys_db_object / sys_dictionary / sys_choice from an instance
+ * or from a saved JSON snapshot, and resolves table inheritance for code generation
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { readFileSync, writeFileSync } from "fs";
+import { logger } from "../utils/Logger";
+import type { QueryOptions, ServiceNowRecord } from "../types/servicenow";
+import type {
+  DictionaryChoice,
+  DictionaryField,
+  DictionarySnapshot,
+  DictionaryTable,
+} from "../types/servicenow/dictionary";
+
+export interface DictionarySource {
+  query(options: QueryOptions): Promise<ServiceNowRecord[]>;
+}
+
+export interface ResolvedField extends DictionaryField {
+  choices: DictionaryChoice[];
+  inheritedFrom?: string;
+}
+
+export interface ResolvedTable {
+  name: string;
+  label?: string;
+  hierarchy: string[]; // [table, parent, grandparent, ...]
+  fields: ResolvedField[];
+}
+
+const DICTIONARY_LIMIT = 10000;
+
+/**
+ * Unwrap values that may come back as { value, display_value } objects
+ */
+function plain(value: any): string | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (typeof value === "object") {
+    return value.value !== undefined ? String(value.value) : undefined;
+  }
+  const str = String(value);
+  return str === "" ? undefined : str;
+}
+
+function inList(values: string[]): string {
+  return values.join(",");
+}
+
+export class DictionaryLoader {
+  /**
+   * Load dictionary entries for the given tables (and their parents) from an instance
+   */
+  static async fromInstance(
+    source: DictionarySource,
+    tableNames: string[],
+    instance?: string,
+  ): Promise<DictionarySnapshot> {
+    const operation = logger.operation(
+      "dictionary_load",
+      "sys_dictionary",
+      undefined,
+      { tables: tableNames },
+    );
+
+    try {
+      const tables = new Map<string, DictionaryTable>();
+      let pending = [...new Set(tableNames)];
+
+      // Walk super_class references until we reach the root tables
+      while (pending.length > 0) {
+        const rows = await source.query({
+          table: "sys_db_object",
+          filter: `nameIN${inList(pending)}`,
+          fields: ["name", "label", "super_class", "super_class.name"],
+          limit: DICTIONARY_LIMIT,
+        });
+
+        pending = [];
+        for (const row of rows) {
+          const name = plain(row.name)!;
+          const superClass = plain(row["super_class.name"]);
+          tables.set(name, {
+            name,
+            label: plain(row.label),
+            super_class: superClass,
+          });
+          if (superClass && !tables.has(superClass)) {
+            pending.push(superClass);
+          }
+        }
+      }
+
+      const names = Array.from(tables.keys());
+
+      const fieldRows = await source.query({
+        table: "sys_dictionary",
+        filter: `nameIN${inList(names)}^elementISNOTEMPTY`,
+        fields: [
+          "name",
+          "element",
+          "internal_type",
+          "column_label",
+          "reference",
+          "max_length",
+          "mandatory",
+          "read_only",
+          "choice",
+          "default_value",
+        ],
+        limit: DICTIONARY_LIMIT,
+      });
+
+      const choiceRows = await source.query({
+        table: "sys_choice",
+        filter: `nameIN${inList(names)}^inactive=false`,
+        fields: ["name", "element", "value", "label", "inactive"],
+        limit: DICTIONARY_LIMIT,
+      });
+
+      const snapshot: DictionarySnapshot = {
+        instance,
+        capturedAt: new Date().toISOString(),
+        tables: Array.from(tables.values()),
+        fields: fieldRows.map((row) => ({
+          name: plain(row.name)!,
+          element: plain(row.element)!,
+          internal_type: plain(row.internal_type) || "string",
+          column_label: plain(row.column_label),
+          reference: plain(row.reference),
+          max_length: plain(row.max_length),
+          mandatory: plain(row.mandatory),
+          read_only: plain(row.read_only),
+          choice: plain(row.choice),
+          default_value: plain(row.default_value),
+        })),
+        choices: choiceRows.map((row) => ({
+          name: plain(row.name)!,
+          element: plain(row.element)!,
+          value: plain(row.value) ?? "",
+          label: plain(row.label),
+          inactive: plain(row.inactive),
+        })),
+      };
+
+      operation.success("Dictionary loaded", {
+        tables: snapshot.tables.length,
+        fields: snapshot.fields.length,
+        choices: snapshot.choices.length,
+      });
+
+      return snapshot;
+    } catch (error: unknown) {
+      operation.error("Dictionary load failed", error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load a snapshot previously saved with saveSnapshot()
+   */
+  static fromSnapshot(path: string): DictionarySnapshot {
+    const snapshot = JSON.parse(readFileSync(path, "utf-8"));
+
+    if (
+      !Array.isArray(snapshot.tables) ||
+      !Array.isArray(snapshot.fields) ||
+      !Array.isArray(snapshot.choices)
+    ) {
+      throw new Error(
+        `Invalid dictionary snapshot ${path}: expected tables, fields and choices arrays`,
+      );
+    }
+
+    return snapshot as DictionarySnapshot;
+  }
+
+  static saveSnapshot(snapshot: DictionarySnapshot, path: string): void {
+    writeFileSync(path, JSON.stringify(snapshot, null, 2));
+  }
+
+  /**
+   * Merge a table's own fields with those inherited from its parents.
+   * Fields redefined lower in the hierarchy win over inherited definitions.
+   */
+  static resolveTable(
+    snapshot: DictionarySnapshot,
+    tableName: string,
+  ): ResolvedTable {
+    const tables = new Map(snapshot.tables.map((t) => [t.name, t]));
+    const table = tables.get(tableName);
+    if (!table) {
+      throw new Error(`Table ${tableName} not found in dictionary snapshot`);
+    }
+
+    const hierarchy: string[] = [];
+    let current: DictionaryTable | undefined = table;
+    while (current && !hierarchy.includes(current.name)) {
+      hierarchy.push(current.name);
+      current = current.super_class
+        ? tables.get(current.super_class)
+        : undefined;
+    }
+
+    const fields = new Map<string, ResolvedField>();
+    for (const owner of [...hierarchy].reverse()) {
+      for (const field of snapshot.fields) {
+        if (field.name !== owner || !field.element) {
+          continue;
+        }
+
+        // Choices redefined on the extended table replace the parent's list
+        const own = DictionaryLoader.choicesFor(
+          snapshot,
+          tableName,
+          field.element,
+        );
+        const choices =
+          own.length > 0
+            ? own
+            : DictionaryLoader.choicesFor(snapshot, owner, field.element);
+
+        fields.set(field.element, {
+          ...field,
+          choices,
+          inheritedFrom: owner === tableName ? undefined : owner,
+        });
+      }
+    }
+
+    return {
+      name: table.name,
+      label: table.label,
+      hierarchy,
+      fields: Array.from(fields.values()).sort((a, b) =>
+        a.element.localeCompare(b.element),
+      ),
+    };
+  }
+
+  private static choicesFor(
+    snapshot: DictionarySnapshot,
+    table: string,
+    element: string,
+  ): DictionaryChoice[] {
+    const byValue = new Map<string, DictionaryChoice>();
+    for (const choice of snapshot.choices) {
+      if (
+        choice.name === table &&
+        choice.element === element &&
+        choice.inactive !== "true" &&
+        !byValue.has(choice.value)
+      ) {
+        byValue.set(choice.value, choice);
+      }
+    }
+    return Array.from(byValue.values());
+  }
+}
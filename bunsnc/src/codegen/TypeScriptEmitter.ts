@@ -0,0 +1,261 @@
+/**
+ * TypeScriptEmitter - Emits table interfaces, TypeBox schemas and TypedGlideRecord
+ * aliases from resolved sys_dictionary definitions
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import type { ResolvedField, ResolvedTable } from "./DictionaryLoader";
+import type { DictionarySnapshot } from "../types/servicenow/dictionary";
+
+export interface EmittedFile {
+  fileName: string;
+  content: string;
+}
+
+const NUMERIC_TYPES = new Set([
+  "integer",
+  "longint",
+  "decimal",
+  "float",
+  "numeric",
+  "currency",
+  "price",
+  "percent_complete",
+  "order_index",
+]);
+
+const DATE_TYPES = new Set([
+  "glide_date_time",
+  "glide_date",
+  "glide_time",
+  "due_date",
+  "date",
+  "datetime",
+]);
+
+const REFERENCE_TYPES = new Set(["reference", "document_id"]);
+
+// dictionary "choice" values that restrict a field to its choice list (1 = with -- None --)
+const STRICT_CHOICE_MODES = new Set(["1", "3"]);
+
+export function toPascalCase(name: string): string {
+  return name
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("");
+}
+
+function propertyName(element: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(element)
+    ? element
+    : JSON.stringify(element);
+}
+
+function docText(text: string): string {
+  return text.replace(/\*\//g, "*\\/").replace(/\s+/g, " ").trim();
+}
+
+function isStrictChoice(field: ResolvedField): boolean {
+  return (
+    field.choices.length > 0 && STRICT_CHOICE_MODES.has(field.choice || "")
+  );
+}
+
+function choiceValues(field: ResolvedField): string[] {
+  const values = field.choices.map((c) => c.value);
+  if (field.choice === "1" && !values.includes("")) {
+    values.push("");
+  }
+  return values;
+}
+
+export class TypeScriptEmitter {
+  static interfaceName(table: string): string {
+    return `${toPascalCase(table)}Fields`;
+  }
+
+  static choiceTypeName(table: string, element: string): string {
+    return `${toPascalCase(table)}${toPascalCase(element)}Choice`;
+  }
+
+  /**
+   * TypeScript type of a field value as returned by the Table API (sysparm_display_value=false)
+   */
+  static fieldType(table: string, field: ResolvedField): string {
+    if (isStrictChoice(field)) {
+      return TypeScriptEmitter.choiceTypeName(table, field.element);
+    }
+    if (REFERENCE_TYPES.has(field.internal_type)) {
+      return field.reference
+        ? `Reference<${JSON.stringify(field.reference)}>`
+        : "Reference";
+    }
+    if (field.internal_type === "boolean") {
+      return "BooleanString";
+    }
+    if (NUMERIC_TYPES.has(field.internal_type)) {
+      return "NumericString";
+    }
+    if (DATE_TYPES.has(field.internal_type)) {
+      return "DateTimeString";
+    }
+    return "string";
+  }
+
+  static schemaType(field: ResolvedField): string {
+    let schema: string;
+
+    if (isStrictChoice(field)) {
+      schema = `t.Union([${choiceValues(field)
+        .map((v) => `t.Literal(${JSON.stringify(v)})`)
+        .join(", ")}])`;
+    } else if (REFERENCE_TYPES.has(field.internal_type)) {
+      schema = "ReferenceSchema";
+    } else if (field.internal_type === "boolean") {
+      schema = "ServiceNowBoolean";
+    } else if (DATE_TYPES.has(field.internal_type)) {
+      schema = "ServiceNowDateTimeOptional";
+    } else if (field.element === "sys_id") {
+      schema = "SysId";
+    } else if (field.max_length && Number(field.max_length) > 0) {
+      schema = `t.String({ maxLength: ${Number(field.max_length)} })`;
+    } else {
+      schema = "t.String()";
+    }
+
+    return field.mandatory === "true" ? schema : `t.Optional(${schema})`;
+  }
+
+  static emitTable(
+    table: ResolvedTable,
+    snapshot: DictionarySnapshot,
+  ): EmittedFile {
+    const interfaceName = TypeScriptEmitter.interfaceName(table.name);
+    const lines: string[] = [];
+
+    lines.push(
+      "/**",
+      ` * ServiceNow ${table.name} interface - Generated from sys_dictionary`,
+      ` * Hierarchy: ${table.hierarchy.join(" -> ")}`,
+      ` * Total fields: ${table.fields.length}`,
+      ` * Source: ${snapshot.instance || "dictionary snapshot"} (captured ${snapshot.capturedAt})`,
+      ` * Do not edit by hand - regenerate with: bun src/cli.ts codegen ${table.name}`,
+      " */",
+      'import { t, type Static } from "elysia";',
+      "import {",
+      "  SysId,",
+      "  ServiceNowBoolean,",
+      "  ServiceNowDateTimeOptional,",
+      '} from "../../../schemas/core/base.typebox";',
+      'import { Reference as ReferenceSchema } from "../../../schemas/core/servicenow.typebox";',
+      'import { TypedGlideRecord } from "../../../record/TypedGlideRecord";',
+      "import type {",
+      "  Reference,",
+      "  BooleanString,",
+      "  NumericString,",
+      "  DateTimeString,",
+      '} from "../dictionary";',
+      "",
+    );
+
+    // Choice unions
+    for (const field of table.fields.filter(isStrictChoice)) {
+      const name = TypeScriptEmitter.choiceTypeName(table.name, field.element);
+      const labels = field.choices
+        .map((c) => `${c.value} = ${c.label ?? c.value}`)
+        .join(", ");
+      lines.push(
+        `/** ${docText(labels)} */`,
+        `export type ${name} =`,
+        ...choiceValues(field).map((v) => `  | ${JSON.stringify(v)}`),
+      );
+      lines[lines.length - 1] += ";";
+      lines.push("");
+    }
+
+    // Interface
+    lines.push(
+      `/** ${docText(table.label || table.name)} (${table.name}) */`,
+      `export interface ${interfaceName} {`,
+    );
+    for (const field of table.fields) {
+      const details = [field.internal_type];
+      if (field.reference) details.push(`-> ${field.reference}`);
+      if (field.mandatory === "true") details.push("mandatory");
+      if (field.read_only === "true") details.push("read only");
+      if (field.inheritedFrom) details.push(`from ${field.inheritedFrom}`);
+
+      lines.push(
+        `  /** ${docText(field.column_label || field.element)} - ${docText(details.join(", "))} */`,
+        `  ${propertyName(field.element)}: ${TypeScriptEmitter.fieldType(table.name, field)};`,
+      );
+    }
+    lines.push("}", "");
+
+    // TypeBox schema
+    lines.push(`export const ${interfaceName}Schema = t.Object({`);
+    for (const field of table.fields) {
+      lines.push(
+        `  ${propertyName(field.element)}: ${TypeScriptEmitter.schemaType(field)},`,
+      );
+    }
+    lines.push(
+      "});",
+      "",
+      `export type ${interfaceName}SchemaType = Static<typeof ${interfaceName}Schema>;`,
+      "",
+      `export type ${toPascalCase(table.name)}GlideRecord = TypedGlideRecord<${interfaceName}>;`,
+      "",
+    );
+
+    return { fileName: `${table.name}.ts`, content: lines.join("\n") };
+  }
+
+  static emitIndex(tables: ResolvedTable[]): EmittedFile {
+    const sorted = [...tables].sort((a, b) => a.name.localeCompare(b.name));
+    const lines: string[] = [
+      "/**",
+      " * Generated ServiceNow table types - index",
+      " * Do not edit by hand - regenerate with: bun src/cli.ts codegen <tables...>",
+      " */",
+      'import { TypedGlideRecord } from "../../../record/TypedGlideRecord";',
+    ];
+
+    for (const table of sorted) {
+      lines.push(
+        `import type { ${TypeScriptEmitter.interfaceName(table.name)} } from "./${table.name}";`,
+      );
+    }
+    lines.push("");
+
+    for (const table of sorted) {
+      lines.push(`export * from "./${table.name}";`);
+    }
+
+    lines.push("", "export interface ServiceNowTableMap {");
+    for (const table of sorted) {
+      lines.push(
+        `  ${propertyName(table.name)}: ${TypeScriptEmitter.interfaceName(table.name)};`,
+      );
+    }
+    lines.push(
+      "}",
+      "",
+      "export const typedGlideRecord = <K extends keyof ServiceNowTableMap>(",
+      "  client: any,",
+      "  table: K,",
+      "  batchSize?: number,",
+      "  rewindable?: boolean,",
+      ") =>",
+      "  new TypedGlideRecord<ServiceNowTableMap[K]>(",
+      "    client,",
+      "    table,",
+      "    batchSize,",
+      "    rewindable,",
+      "  );",
+      "",
+    );
+
+    return { fileName: "index.ts", content: lines.join("\n") };
+  }
+}
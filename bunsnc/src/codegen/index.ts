@@ -0,0 +1,77 @@
+/**
+ * Codegen module - typed table interfaces generated from the ServiceNow data dictionary
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import { DictionaryLoader } from "./DictionaryLoader";
+import { TypeScriptEmitter, type EmittedFile } from "./TypeScriptEmitter";
+import { logger } from "../utils/Logger";
+import type { DictionarySnapshot } from "../types/servicenow/dictionary";
+
+export {
+  DictionaryLoader,
+  type DictionarySource,
+  type ResolvedField,
+  type ResolvedTable,
+} from "./DictionaryLoader";
+export {
+  TypeScriptEmitter,
+  toPascalCase,
+  type EmittedFile,
+} from "./TypeScriptEmitter";
+
+export const DEFAULT_CODEGEN_OUT_DIR = "src/types/servicenow/generated";
+
+export interface GenerateTypesOptions {
+  snapshot: DictionarySnapshot;
+  tables: string[];
+  outDir?: string;
+  write?: boolean;
+}
+
+async function formatSource(content: string): Promise<string> {
+  try {
+    const prettier = await import("prettier");
+    return await prettier.format(content, { parser: "typescript" });
+  } catch {
+    return content; // prettier is a dev dependency - keep raw output without it
+  }
+}
+
+/**
+ * Generate one file per table plus an index with the table map and typedGlideRecord factory
+ */
+export async function generateTypes(
+  options: GenerateTypesOptions,
+): Promise<EmittedFile[]> {
+  const outDir = options.outDir || DEFAULT_CODEGEN_OUT_DIR;
+  const resolved = options.tables.map((table) =>
+    DictionaryLoader.resolveTable(options.snapshot, table),
+  );
+
+  const files = [
+    ...resolved.map((table) =>
+      TypeScriptEmitter.emitTable(table, options.snapshot),
+    ),
+    TypeScriptEmitter.emitIndex(resolved),
+  ];
+
+  for (const file of files) {
+    file.content = await formatSource(file.content);
+  }
+
+  if (options.write !== false) {
+    mkdirSync(outDir, { recursive: true });
+    for (const file of files) {
+      writeFileSync(join(outDir, file.fileName), file.content);
+    }
+
+    logger.info(`Generated ${files.length} type files`, "Codegen", {
+      outDir,
+      tables: options.tables,
+    });
+  }
+
+  return files;
+}
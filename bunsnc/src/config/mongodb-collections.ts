@@ -90,8 +90,23 @@ export const COLLECTION_NAMES = {
   SC_TASKS: "sn_sctasks",
   GROUPS: "sn_groups",
   SLA_CONTRATADO: "sn_sla_contratado",
+  BUSINESS_SCHEDULES: "sn_business_schedules",
+  SYNC_CURSORS: "sn_sync_cursors",
+  SYNC_BASES: "sn_sync_bases",
+  SYNC_CONFLICTS: "sn_sync_conflicts",
+  ATTACHMENT_CONTENTS: "sn_attachment_contents",
+  ATTACHMENT_LINKS: "sn_attachment_links",
+  SLA_ALERTS: "sn_sla_alerts",
+  AUTH_TOKENS: "sn_auth_tokens",
 } as const;
 
+// ServiceNow table -> mirror collection
+export const TICKET_COLLECTIONS: Record<string, CollectionName> = {
+  incident: COLLECTION_NAMES.INCIDENTS,
+  change_task: COLLECTION_NAMES.CHANGE_TASKS,
+  sc_task: COLLECTION_NAMES.SC_TASKS,
+};
+
 export type CollectionName =
   (typeof COLLECTION_NAMES)[keyof typeof COLLECTION_NAMES];
 
@@ -102,6 +117,7 @@ import { dataService } from "../services";
 export interface CollectionConfig {
   name: string;
   indexes: IndexSpecification[];
+  unique?: IndexSpecification[]; // compound keys no two documents may share
   shardKey?: object;
   validation?: object;
 }
@@ -123,6 +139,7 @@ export const COLLECTION_CONFIGS: CollectionConfig[] = [
       { sys_id_prefix: 1, created_at: -1 }, // Partitioning support
       { updated_at: -1 }, // Time-based queries
       { "data.sync_timestamp": -1 }, // Sync tracking
+      { sync_scopes: 1 }, // Watermark sync deletion diff
       // Compound indexes for complex queries
       { "data.incident.state": 1, "data.incident.priority": 1, updated_at: -1 },
       { "data.incident.assignment_group": 1, "data.incident.state": 1 },
@@ -169,6 +186,7 @@ export const COLLECTION_CONFIGS: CollectionConfig[] = [
       { sys_id_prefix: 1, created_at: -1 },
       { updated_at: -1 },
       { "data.sync_timestamp": -1 },
+      { sync_scopes: 1 },
       // Compound indexes for SLM queries
       { "data.slms.assignment_group": 1, "data.slms.taskslatable_stage": 1 },
       {
@@ -195,6 +213,7 @@ export const COLLECTION_CONFIGS: CollectionConfig[] = [
       { sys_id_prefix: 1, created_at: -1 },
       { updated_at: -1 },
       { "data.sync_timestamp": -1 },
+      { sync_scopes: 1 },
       // Compound indexes for SLM queries
       { "data.slms.assignment_group": 1, "data.slms.taskslatable_stage": 1 },
       {
@@ -340,6 +359,51 @@ export const COLLECTION_CONFIGS: CollectionConfig[] = [
       { timestamp: -1 },
     ],
   },
+  {
+    name: COLLECTION_NAMES.BUSINESS_SCHEDULES,
+    indexes: [{ id: 1 }, { groups: 1 }, { is_default: 1 }],
+  },
+  {
+    name: COLLECTION_NAMES.SYNC_CURSORS,
+    indexes: [{ table: 1, query: 1 }],
+  },
+  {
+    name: COLLECTION_NAMES.SYNC_BASES,
+    indexes: [{ table: 1, sys_id: 1 }],
+  },
+  {
+    name: COLLECTION_NAMES.SYNC_CONFLICTS,
+    indexes: [
+      { id: 1 },
+      { resolution: 1, timestamp: -1 },
+      { table: 1, resolution: 1 },
+    ],
+  },
+  {
+    name: COLLECTION_NAMES.ATTACHMENT_CONTENTS,
+    indexes: [{ hash: 1 }, { text: "text" }],
+  },
+  {
+    name: COLLECTION_NAMES.ATTACHMENT_LINKS,
+    indexes: [
+      { attachment_sys_id: 1 },
+      { hash: 1, table: 1 },
+      { table: 1, table_sys_id: 1 },
+    ],
+  },
+  {
+    name: COLLECTION_NAMES.SLA_ALERTS,
+    indexes: [
+      { ticket_id: 1, metric_type: 1, threshold: 1 },
+      { status: 1, acknowledged_at: 1, sent_at: -1 },
+    ],
+    // The alert claim is an upsert; the key makes a second one fail
+    unique: [{ ticket_id: 1, metric_type: 1, threshold: 1 }],
+  },
+  {
+    name: COLLECTION_NAMES.AUTH_TOKENS,
+    indexes: [{ key: 1 }],
+  },
   {
     name: "performance_metrics",
     indexes: [
@@ -417,7 +481,7 @@ export class MongoDBCollectionManager {
 
     // Create indexes with conflict resolution
     if (config.indexes && config.indexes.length > 0) {
-      await this.createIndexesSafely(collection, config.indexes);
+      await this.createIndexesSafely(collection, config.indexes, config.unique);
     }
 
     // Configure sharding if specified
@@ -447,6 +511,7 @@ export class MongoDBCollectionManager {
   private async createIndexesSafely(
     collection: Collection,
     indexSpecs: any[],
+    uniqueSpecs: any[] = [],
   ): Promise<void> {
     try {
       // Get existing indexes to check for conflicts
@@ -455,7 +520,10 @@ export class MongoDBCollectionManager {
       for (const indexSpec of indexSpecs) {
         try {
           // Determine if this should be a unique index (for sys_id fields)
-          const isUniqueIndex = this.shouldBeUniqueIndex(indexSpec);
+          const isUniqueIndex = this.shouldBeUniqueIndex(
+            indexSpec,
+            uniqueSpecs,
+          );
 
           const indexOptions: any = {
             background: true,
@@ -512,14 +580,18 @@ export class MongoDBCollectionManager {
   }
 
   /**
-   * Check if an index should be unique (sys_id fields)
+   * Check if an index should be unique (sys_id fields and the collection's
+   * unique keys)
    */
-  private shouldBeUniqueIndex(indexSpec: any): boolean {
+  private shouldBeUniqueIndex(indexSpec: any, uniqueSpecs: any[]): boolean {
     // Check if this is a sys_id index
     if (typeof indexSpec === "object" && indexSpec.sys_id === 1) {
       return true;
     }
-    return false;
+    const indexName = this.generateIndexName(indexSpec);
+    return uniqueSpecs.some(
+      (spec) => this.generateIndexName(spec) === indexName,
+    );
   }
 
   /**
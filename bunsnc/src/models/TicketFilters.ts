@@ -5,6 +5,7 @@
  * Centralized configuration for ticket filtering, state management, and tab organization.
  * Provides type-specific state mappings and group filtering options.
  */
+import { mergeEncodedQueries } from "../query/EncodedQuery";
 
 /**
  * Available ticket types in the system
@@ -209,8 +210,10 @@ export function isValidGroup(group: string): boolean {
 
 /**
  * Generate filter query parameters for API calls
- * @param filters - Filter state object
+ * @param filters - Filter state object; query takes user encoded queries, which are
+ *   parsed and ANDed together so a ^NQ in one cannot bypass the others
  * @returns URL search parameters string
+ * @throws EncodedQueryParseError when a user query is not a valid encoded query
  */
 export function generateFilterParams(filters: {
   group?: string;
@@ -218,6 +221,7 @@ export function generateFilterParams(filters: {
   ticketType?: TicketType;
   page?: number;
   limit?: number;
+  query?: string | string[];
 }): string {
   const params = new URLSearchParams();
 
@@ -241,6 +245,15 @@ export function generateFilterParams(filters: {
     params.append("limit", filters.limit.toString());
   }
 
+  if (filters.query) {
+    const query = mergeEncodedQueries(
+      ...(Array.isArray(filters.query) ? filters.query : [filters.query]),
+    );
+    if (query) {
+      params.append("query", query);
+    }
+  }
+
   return params.toString();
 }
 
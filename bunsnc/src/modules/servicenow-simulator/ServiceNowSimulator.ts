@@ -0,0 +1,782 @@
+/**
+ * ServiceNowSimulator - Local implementation of the Table, Attachment, Batch and
+ * Aggregate (stats) APIs for tests and offline development
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * Requests are plain fetch Requests, so the simulator can be mounted in Elysia,
+ * injected into ServiceNowBridgeService or installed in place of global fetch.
+ */
+import {
+  EncodedQuery,
+  EncodedQueryParseError,
+  QueryCompiler,
+  UnsupportedQueryError,
+  type QueryCompilerOptions,
+} from "../../query";
+import { ServiceNowBridgeService } from "../../services/ServiceNowBridgeService";
+import type { ServiceNowFetchClient } from "../../services/ServiceNowFetchClient";
+import type { ServiceNowRecord } from "../../types/servicenow";
+import {
+  MemorySimulatorStore,
+  seedStore,
+  type SimulatorFixtures,
+  type SimulatorStore,
+} from "./SimulatorStore";
+
+export interface ServiceNowSimulatorOptions {
+  store?: SimulatorStore;
+  fixtures?: SimulatorFixtures;
+  instanceUrl?: string;
+  user?: string; // sys_created_by / sys_updated_by on writes
+  now?: () => Date;
+  query?: QueryCompilerOptions;
+}
+
+type RouteHandler = (
+  request: Request,
+  url: URL,
+  params: string[],
+) => Response | Promise<Response>;
+
+interface SimulatorRoute {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+interface BatchRestRequest {
+  id: string;
+  url: string;
+  method: string;
+  headers?: Array<{ name: string; value: string }>;
+  body?: string; // base64
+  exclude_response_headers?: boolean;
+}
+
+/**
+ * Malformed request, answered with 400 like the instance does
+ */
+class BadRequestError extends Error {}
+
+const DEFAULT_INSTANCE_URL = "https://simulator.service-now.com";
+const DEFAULT_LIMIT = 10000; // glide.rest.query.max_records default
+
+const STATUS_TEXT: Record<number, string> = {
+  200: "OK",
+  201: "Created",
+  204: "No Content",
+  206: "Partial Content",
+  400: "Bad Request",
+  404: "Not Found",
+  416: "Range Not Satisfiable",
+  500: "Internal Server Error",
+};
+
+const AGGREGATE_TYPES = ["avg", "sum", "min", "max"] as const;
+
+const HAVING_OPERATORS: Record<string, (a: number, b: number) => boolean> = {
+  "=": (a, b) => a === b,
+  "!=": (a, b) => a !== b,
+  ">": (a, b) => a > b,
+  ">=": (a, b) => a >= b,
+  "<": (a, b) => a < b,
+  "<=": (a, b) => a <= b,
+};
+
+function respond(
+  body: unknown,
+  status: number = 200,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    statusText: STATUS_TEXT[status],
+    headers:
+      body === undefined
+        ? headers
+        : { "Content-Type": "application/json", ...headers },
+  });
+}
+
+/**
+ * Error body shape returned by the Table API
+ */
+function failure(status: number, message: string, detail?: string): Response {
+  return respond(
+    { error: { message, detail: detail ?? null }, status: "failure" },
+    status,
+  );
+}
+
+function glideDateTime(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+function newSysId(): string {
+  return crypto.randomUUID().replace(/-/g, "");
+}
+
+function isWrapped(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === "object" && "value" in value;
+}
+
+function rawValue(value: unknown): string {
+  const raw = isWrapped(value) ? value.value : value;
+  return raw === null || raw === undefined ? "" : String(raw);
+}
+
+function displayValue(value: unknown): string {
+  if (isWrapped(value) && value.display_value !== undefined) {
+    return value.display_value === null ? "" : String(value.display_value);
+  }
+  return rawValue(value);
+}
+
+function renderValue(
+  value: unknown,
+  mode: string,
+  excludeLinks: boolean,
+): unknown {
+  const link =
+    !excludeLinks && isWrapped(value) && value.link ? value.link : undefined;
+  if (mode === "true") {
+    return displayValue(value);
+  }
+  if (mode === "all") {
+    const rendered = {
+      display_value: displayValue(value),
+      value: rawValue(value),
+    };
+    return link ? { ...rendered, link } : rendered;
+  }
+  return link ? { link, value: rawValue(value) } : rawValue(value);
+}
+
+function listParam(params: URLSearchParams, name: string): string[] {
+  return (params.get(name) || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function toRequest(input: string | URL | Request, init?: RequestInit) {
+  return input instanceof Request
+    ? new Request(input, init)
+    : new Request(String(input), init);
+}
+
+function toBase64(content: Uint8Array): string {
+  return Buffer.from(content).toString("base64");
+}
+
+export class ServiceNowSimulator {
+  readonly store: SimulatorStore;
+  readonly instanceUrl: string;
+  private compiler: QueryCompiler;
+  private user: string;
+  private now: () => Date;
+  private routes: SimulatorRoute[];
+
+  constructor(options: ServiceNowSimulatorOptions = {}) {
+    this.store = options.store ?? new MemorySimulatorStore();
+    this.instanceUrl = (options.instanceUrl ?? DEFAULT_INSTANCE_URL).replace(
+      /\/$/,
+      "",
+    );
+    this.user = options.user ?? "admin";
+    this.now = options.now ?? (() => new Date());
+    this.compiler = new QueryCompiler({ now: this.now, ...options.query });
+
+    if (options.fixtures) {
+      seedStore(this.store, options.fixtures);
+    }
+
+    const table = "/api/now(?:/v[12])?/table/([^/]+)";
+    const attachment = "/api/now(?:/v1)?/attachment";
+    this.routes = [
+      this.route("GET", `${table}`, (_, url, [t]) => this.listRecords(t, url)),
+      this.route("POST", `${table}`, (req, url, [t]) =>
+        this.createRecord(t, req, url),
+      ),
+      this.route("GET", `${table}/([^/]+)`, (_, url, [t, id]) =>
+        this.getRecord(t, id, url),
+      ),
+      this.route("PUT", `${table}/([^/]+)`, (req, url, [t, id]) =>
+        this.updateRecord(t, id, req, url),
+      ),
+      this.route("PATCH", `${table}/([^/]+)`, (req, url, [t, id]) =>
+        this.updateRecord(t, id, req, url),
+      ),
+      this.route("DELETE", `${table}/([^/]+)`, (_, __, [t, id]) =>
+        this.deleteRecord(t, id),
+      ),
+      this.route("GET", "/api/now(?:/v1)?/stats/([^/]+)", (_, url, [t]) =>
+        this.stats(t, url),
+      ),
+      this.route("POST", `${attachment}/file`, (req, url) =>
+        this.uploadAttachment(req, url),
+      ),
+      this.route("POST", `${attachment}/upload`, (req, url) =>
+        this.uploadAttachment(req, url),
+      ),
+      this.route("GET", `${attachment}`, (_, url) =>
+        this.listRecords("sys_attachment", url),
+      ),
+      this.route("GET", `${attachment}/([^/]+)/file`, (req, __, [id]) =>
+        this.downloadAttachment(id, req.headers.get("Range")),
+      ),
+      this.route("GET", `${attachment}/([^/]+)`, (_, url, [id]) =>
+        this.getRecord("sys_attachment", id, url),
+      ),
+      this.route("DELETE", `${attachment}/([^/]+)`, (_, __, [id]) =>
+        this.deleteAttachment(id),
+      ),
+      this.route("POST", "/api/now(?:/v1)?/batch", (req) => this.batch(req)),
+    ];
+  }
+
+  /**
+   * Handle one REST request; unknown paths answer like an instance does
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    for (const route of this.routes) {
+      const match = route.pattern.exec(url.pathname);
+      if (!match || route.method !== request.method.toUpperCase()) {
+        continue;
+      }
+
+      try {
+        return await route.handler(
+          request,
+          url,
+          match.slice(1).map(decodeURIComponent),
+        );
+      } catch (error: unknown) {
+        if (
+          error instanceof EncodedQueryParseError ||
+          error instanceof UnsupportedQueryError
+        ) {
+          return failure(400, "Invalid query", error.message);
+        }
+        if (error instanceof BadRequestError) {
+          return failure(400, error.message);
+        }
+        return failure(500, (error as Error).message);
+      }
+    }
+
+    return failure(400, "Requested URI does not represent any resource");
+  }
+
+  /**
+   * fetch-compatible entry point
+   */
+  fetch = (
+    input: string | URL | Request,
+    init?: RequestInit,
+  ): Promise<Response> => this.handle(toRequest(input, init));
+
+  /**
+   * Bridge whose requests are served by the simulator, for TableAPI,
+   * AttachmentAPI and ServiceNowClient (option bridgeService)
+   */
+  bridge(): ServiceNowBridgeService {
+    const fetchClient = {
+      authenticate: async () => {},
+      getBaseUrl: () => this.instanceUrl,
+      makeAuthenticatedFetch: (
+        url: string,
+        config: {
+          method?: string;
+          headers?: Record<string, string>;
+          body?: string;
+        } = {},
+      ) =>
+        this.fetch(url, {
+          method: config.method,
+          headers: config.headers,
+          body: config.body,
+        }),
+    };
+    return new ServiceNowBridgeService(
+      fetchClient as unknown as ServiceNowFetchClient,
+    );
+  }
+
+  /**
+   * Route global fetch calls for the given origins (default: any /api/now/ URL)
+   * to the simulator. Returns a function restoring the original fetch.
+   */
+  intercept(origins?: string[]): () => void {
+    const original = globalThis.fetch;
+    const hosts = origins?.map((origin) => new URL(origin).origin);
+
+    const simulated = (input: string | URL | Request, init?: RequestInit) => {
+      const request = toRequest(input, init);
+      const url = new URL(request.url);
+      const matches = hosts
+        ? hosts.includes(url.origin)
+        : url.pathname.startsWith("/api/now/");
+      return matches ? this.handle(request) : original(input, init);
+    };
+
+    globalThis.fetch = simulated as typeof fetch;
+    return () => {
+      globalThis.fetch = original;
+    };
+  }
+
+  private route(
+    method: string,
+    path: string,
+    handler: RouteHandler,
+  ): SimulatorRoute {
+    return { method, pattern: new RegExp(`^${path}/?$`), handler };
+  }
+
+  private select(table: string, query: string): ServiceNowRecord[] {
+    const encoded = EncodedQuery.parse(query, table);
+    const rows = this.store
+      .all(table)
+      .filter(this.compiler.toPredicate(encoded));
+    const comparator = this.compiler.toComparator(encoded);
+    return comparator ? rows.sort(comparator) : rows;
+  }
+
+  private render(
+    record: ServiceNowRecord,
+    params: URLSearchParams,
+  ): ServiceNowRecord {
+    const mode = params.get("sysparm_display_value") ?? "false";
+    const excludeLinks =
+      params.get("sysparm_exclude_reference_link") === "true";
+    const fields = listParam(params, "sysparm_fields");
+    const keys =
+      fields.length > 0
+        ? fields.filter((field) => field in record)
+        : Object.keys(record);
+
+    const rendered: ServiceNowRecord = {};
+    for (const key of keys) {
+      rendered[key] = renderValue(record[key], mode, excludeLinks);
+    }
+    return rendered;
+  }
+
+  private listRecords(table: string, url: URL): Response {
+    const params = url.searchParams;
+    const rows = this.select(table, params.get("sysparm_query") ?? "");
+    const offset = Number(params.get("sysparm_offset")) || 0;
+    const limit = Number(params.get("sysparm_limit")) || DEFAULT_LIMIT;
+
+    return respond(
+      {
+        result: rows
+          .slice(offset, offset + limit)
+          .map((row) => this.render(row, params)),
+      },
+      200,
+      { "X-Total-Count": String(rows.length) },
+    );
+  }
+
+  private getRecord(table: string, sysId: string, url: URL): Response {
+    const record = this.store.get(table, sysId);
+    if (!record) {
+      return failure(
+        404,
+        "No Record found",
+        "Record doesn't exist or ACL restricts the record retrieval",
+      );
+    }
+    return respond({ result: this.render(record, url.searchParams) });
+  }
+
+  private async readBody(request: Request): Promise<ServiceNowRecord> {
+    const body = await request.json().catch(() => undefined);
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      throw new BadRequestError("Exception while reading request");
+    }
+    const values: ServiceNowRecord = {};
+    for (const [field, value] of Object.entries(body)) {
+      values[field] = rawValue(value);
+    }
+    return values;
+  }
+
+  private async createRecord(
+    table: string,
+    request: Request,
+    url: URL,
+  ): Promise<Response> {
+    const values = await this.readBody(request);
+    const now = glideDateTime(this.now());
+    const record: ServiceNowRecord = {
+      ...values,
+      sys_id: values.sys_id || newSysId(),
+      sys_created_on: now,
+      sys_created_by: this.user,
+      sys_updated_on: now,
+      sys_updated_by: this.user,
+      sys_mod_count: "0",
+    };
+
+    this.store.put(table, record);
+    return respond({ result: this.render(record, url.searchParams) }, 201, {
+      Location: `${this.instanceUrl}/api/now/table/${table}/${record.sys_id}`,
+    });
+  }
+
+  private async updateRecord(
+    table: string,
+    sysId: string,
+    request: Request,
+    url: URL,
+  ): Promise<Response> {
+    const existing = this.store.get(table, sysId);
+    if (!existing) {
+      return failure(404, "No Record found", `Record ${sysId} doesn't exist`);
+    }
+
+    const record: ServiceNowRecord = {
+      ...existing,
+      ...(await this.readBody(request)),
+      sys_id: sysId,
+      sys_updated_on: glideDateTime(this.now()),
+      sys_updated_by: this.user,
+      sys_mod_count: String(
+        (Number(rawValue(existing.sys_mod_count)) || 0) + 1,
+      ),
+    };
+
+    this.store.put(table, record);
+    return respond({ result: this.render(record, url.searchParams) });
+  }
+
+  private deleteRecord(table: string, sysId: string): Response {
+    if (!this.store.remove(table, sysId)) {
+      return failure(404, "No Record found", `Record ${sysId} doesn't exist`);
+    }
+    return respond(undefined, 204);
+  }
+
+  /**
+   * /api/now/stats - count, avg/sum/min/max, group_by, having and order_by
+   */
+  private stats(table: string, url: URL): Response {
+    const params = url.searchParams;
+    const rows = this.select(table, params.get("sysparm_query") ?? "");
+    const groupBy = listParam(params, "sysparm_group_by");
+
+    if (groupBy.length === 0) {
+      return respond({ result: { stats: this.aggregate(rows, params) } });
+    }
+
+    const groups = new Map<string, ServiceNowRecord[]>();
+    for (const row of rows) {
+      const key = JSON.stringify(groupBy.map((field) => rawValue(row[field])));
+      groups.set(key, [...(groups.get(key) ?? []), row]);
+    }
+
+    const displayMode = params.get("sysparm_display_value");
+    let result = [...groups.values()].map((members) => ({
+      stats: this.aggregate(members, params),
+      groupby_fields: groupBy.map((field) => ({
+        field,
+        value: rawValue(members[0][field]),
+        ...(displayMode === "true" || displayMode === "all"
+          ? { display_value: displayValue(members[0][field]) }
+          : {}),
+      })),
+    }));
+
+    for (const having of listParam(params, "sysparm_having")) {
+      const [aggregate, field, operator, value] = having.split("^");
+      const compare = HAVING_OPERATORS[operator];
+      if (!compare) {
+        throw new BadRequestError(
+          `Invalid sysparm_having operator: ${operator}`,
+        );
+      }
+      result = result.filter((group) =>
+        compare(
+          Number(this.statValue(group.stats, aggregate, field)),
+          Number(value),
+        ),
+      );
+    }
+
+    const orderBy = listParam(params, "sysparm_order_by");
+    if (orderBy.length > 0) {
+      result.sort((a, b) => {
+        for (const clause of orderBy) {
+          const parts = clause.split("^");
+          const descending = parts[parts.length - 1] === "DESC";
+          if (descending) {
+            parts.pop();
+          }
+          const [first, field] = parts;
+          const isAggregate = ["COUNT", "AVG", "SUM", "MIN", "MAX"].includes(
+            first.toUpperCase(),
+          );
+          const valueOf = (group: (typeof result)[number]) =>
+            isAggregate
+              ? Number(this.statValue(group.stats, first, field))
+              : (group.groupby_fields.find((g) => g.field === first)?.value ??
+                "");
+          const x = valueOf(a);
+          const y = valueOf(b);
+          const order = x < y ? -1 : x > y ? 1 : 0;
+          if (order !== 0) {
+            return descending ? -order : order;
+          }
+        }
+        return 0;
+      });
+    }
+
+    return respond({ result });
+  }
+
+  private aggregate(
+    rows: ServiceNowRecord[],
+    params: URLSearchParams,
+  ): Record<string, any> {
+    const stats: Record<string, any> = {};
+    if (params.get("sysparm_count") === "true") {
+      stats.count = String(rows.length);
+    }
+
+    for (const type of AGGREGATE_TYPES) {
+      const fields = listParam(params, `sysparm_${type}_fields`);
+      if (fields.length === 0) {
+        continue;
+      }
+      stats[type] = {};
+      for (const field of fields) {
+        const numbers = rows
+          .map((row) => rawValue(row[field]))
+          .filter((value) => value !== "" && !isNaN(Number(value)))
+          .map(Number);
+        stats[type][field] =
+          numbers.length === 0 ? "" : String(this.reduce(type, numbers));
+      }
+    }
+    return stats;
+  }
+
+  private reduce(type: (typeof AGGREGATE_TYPES)[number], values: number[]) {
+    const sum = values.reduce((total, value) => total + value, 0);
+    switch (type) {
+      case "avg":
+        return sum / values.length;
+      case "sum":
+        return sum;
+      case "min":
+        return Math.min(...values);
+      case "max":
+        return Math.max(...values);
+    }
+  }
+
+  private statValue(
+    stats: Record<string, any>,
+    aggregate: string,
+    field?: string,
+  ): string {
+    const type = aggregate.toLowerCase();
+    return type === "count" ? stats.count : stats[type]?.[field ?? ""];
+  }
+
+  /**
+   * POST /attachment/file takes the raw body (or multipart, as AttachmentAPI
+   * sends it); /attachment/upload takes multipart with the file last
+   */
+  private async uploadAttachment(
+    request: Request,
+    url: URL,
+  ): Promise<Response> {
+    const params = url.searchParams;
+    let tableName = params.get("table_name");
+    let tableSysId = params.get("table_sys_id");
+    let fileName = params.get("file_name");
+    let contentType =
+      request.headers.get("Content-Type") || "application/octet-stream";
+    let content: Uint8Array;
+
+    if (contentType.startsWith("multipart/form-data")) {
+      const form = await request.formData();
+      const file = [...form.values()].find(
+        (value) => typeof value !== "string",
+      ) as File | undefined;
+      if (!file) {
+        return failure(400, "Failed to create the attachment. File not found");
+      }
+      tableName = tableName || (form.get("table_name") as string | null);
+      tableSysId = tableSysId || (form.get("table_sys_id") as string | null);
+      fileName =
+        fileName || (form.get("file_name") as string | null) || file.name;
+      contentType = file.type || "application/octet-stream";
+      content = new Uint8Array(await file.arrayBuffer());
+    } else {
+      content = new Uint8Array(await request.arrayBuffer());
+    }
+
+    if (!tableName || !tableSysId || !fileName) {
+      return failure(
+        400,
+        "Missing required parameter",
+        "table_name, table_sys_id and file_name are required",
+      );
+    }
+
+    const sysId = newSysId();
+    const now = glideDateTime(this.now());
+    const record: ServiceNowRecord = {
+      sys_id: sysId,
+      file_name: fileName,
+      content_type: contentType,
+      size_bytes: String(content.length),
+      size_compressed: String(content.length),
+      table_name: tableName,
+      table_sys_id: tableSysId,
+      hash: new Bun.CryptoHasher("sha256").update(content).digest("hex"),
+      download_link: `${this.instanceUrl}/api/now/attachment/${sysId}/file`,
+      sys_created_on: now,
+      sys_created_by: this.user,
+      sys_updated_on: now,
+      sys_updated_by: this.user,
+      sys_mod_count: "0",
+    };
+
+    this.store.writeFile(sysId, content);
+    this.store.put("sys_attachment", record);
+    return respond({ result: record }, 201, {
+      Location: `${this.instanceUrl}/api/now/attachment/${sysId}`,
+    });
+  }
+
+  /**
+   * Honours a single "Range: bytes=start-end" like the instance does
+   */
+  private downloadAttachment(sysId: string, range?: string | null): Response {
+    const record = this.store.get("sys_attachment", sysId);
+    const content = record && this.store.readFile(sysId);
+    if (!record || !content) {
+      return failure(
+        404,
+        "Record doesn't exist or ACL restricts the record retrieval",
+      );
+    }
+
+    const headers = {
+      "Content-Type": rawValue(record.content_type),
+      "Accept-Ranges": "bytes",
+      "X-Attachment-Metadata": JSON.stringify(record),
+    };
+
+    const match = range && /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+    if (match && (match[1] || match[2])) {
+      const size = content.length;
+      const start = match[1]
+        ? Number(match[1])
+        : Math.max(0, size - Number(match[2]));
+      const end =
+        match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+      if (start >= size || start > end) {
+        return new Response(null, {
+          status: 416,
+          statusText: STATUS_TEXT[416],
+          headers: { "Content-Range": `bytes */${size}` },
+        });
+      }
+      const slice = content.slice(start, end + 1);
+      return new Response(slice, {
+        status: 206,
+        statusText: STATUS_TEXT[206],
+        headers: {
+          ...headers,
+          "Content-Length": String(slice.length),
+          "Content-Range": `bytes ${start}-${end}/${size}`,
+        },
+      });
+    }
+
+    return new Response(content, {
+      status: 200,
+      statusText: STATUS_TEXT[200],
+      headers: { ...headers, "Content-Length": String(content.length) },
+    });
+  }
+
+  private deleteAttachment(sysId: string): Response {
+    if (!this.store.remove("sys_attachment", sysId)) {
+      return failure(
+        404,
+        "Record doesn't exist or ACL restricts the record retrieval",
+      );
+    }
+    this.store.deleteFile(sysId);
+    return respond(undefined, 204);
+  }
+
+  /**
+   * /api/now/v1/batch - each rest_request is replayed against the simulator,
+   * bodies are base64 both ways
+   */
+  private async batch(request: Request): Promise<Response> {
+    const body = (await request.json().catch(() => undefined)) as
+      | { batch_request_id?: string; rest_requests?: BatchRestRequest[] }
+      | undefined;
+    if (!body || !Array.isArray(body.rest_requests)) {
+      return failure(400, "Invalid batch request", "rest_requests is required");
+    }
+
+    const serviced = [];
+    const unserviced: string[] = [];
+
+    for (const rest of body.rest_requests) {
+      const target = rest.url && new URL(rest.url, this.instanceUrl);
+      if (
+        !rest.id ||
+        !rest.method ||
+        !target ||
+        /\/batch\/?$/.test(target.pathname)
+      ) {
+        unserviced.push(rest.id);
+        continue;
+      }
+
+      const startTime = performance.now();
+      const response = await this.handle(
+        new Request(target.toString(), {
+          method: rest.method,
+          headers: (rest.headers ?? []).map(
+            (header) => [header.name, header.value] as [string, string],
+          ),
+          body: rest.body ? Buffer.from(rest.body, "base64") : undefined,
+        }),
+      );
+      const content = new Uint8Array(await response.arrayBuffer());
+
+      serviced.push({
+        id: rest.id,
+        status_code: response.status,
+        status_text: response.statusText,
+        headers: rest.exclude_response_headers
+          ? []
+          : [...response.headers].map(([name, value]) => ({ name, value })),
+        body: toBase64(content),
+        execution_time: Math.round(performance.now() - startTime),
+      });
+    }
+
+    return respond({
+      batch_request_id: body.batch_request_id,
+      serviced_requests: serviced,
+      unserviced_requests: unserviced,
+    });
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Simulator Stores - Record and attachment storage behind the ServiceNow simulator
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * Records are kept as ServiceNow returns them: plain values or
+ * { value, display_value } objects for references and choices.
+ */
+import { Database } from "bun:sqlite";
+import { readFileSync } from "fs";
+import type { ServiceNowRecord } from "../../types/servicenow";
+
+export type SimulatorFixtures = Record<string, ServiceNowRecord[]>;
+
+export interface SimulatorStore {
+  tables(): string[];
+  all(table: string): ServiceNowRecord[];
+  get(table: string, sysId: string): ServiceNowRecord | null;
+  put(table: string, record: ServiceNowRecord): void; // insert or replace by sys_id
+  remove(table: string, sysId: string): boolean;
+  readFile(sysId: string): Uint8Array | null;
+  writeFile(sysId: string, content: Uint8Array): void;
+  deleteFile(sysId: string): void;
+}
+
+export class MemorySimulatorStore implements SimulatorStore {
+  private records = new Map<string, Map<string, ServiceNowRecord>>();
+  private files = new Map<string, Uint8Array>();
+
+  tables(): string[] {
+    return [...this.records.keys()];
+  }
+
+  all(table: string): ServiceNowRecord[] {
+    return [...(this.records.get(table)?.values() ?? [])].map((record) => ({
+      ...record,
+    }));
+  }
+
+  get(table: string, sysId: string): ServiceNowRecord | null {
+    const record = this.records.get(table)?.get(sysId);
+    return record ? { ...record } : null;
+  }
+
+  put(table: string, record: ServiceNowRecord): void {
+    if (!this.records.has(table)) {
+      this.records.set(table, new Map());
+    }
+    this.records.get(table)!.set(record.sys_id, { ...record });
+  }
+
+  remove(table: string, sysId: string): boolean {
+    return this.records.get(table)?.delete(sysId) ?? false;
+  }
+
+  readFile(sysId: string): Uint8Array | null {
+    return this.files.get(sysId) ?? null;
+  }
+
+  writeFile(sysId: string, content: Uint8Array): void {
+    this.files.set(sysId, content);
+  }
+
+  deleteFile(sysId: string): void {
+    this.files.delete(sysId);
+  }
+}
+
+/**
+ * SQLite-backed store, so seeded data and writes survive simulator restarts
+ */
+export class SqliteSimulatorStore implements SimulatorStore {
+  private db: Database;
+
+  constructor(path: string = ":memory:") {
+    this.db = new Database(path, { create: true });
+    this.db.run(
+      `CREATE TABLE IF NOT EXISTS records (
+        table_name TEXT NOT NULL,
+        sys_id TEXT NOT NULL,
+        seq INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (table_name, sys_id)
+      )`,
+    );
+    this.db.run(
+      "CREATE TABLE IF NOT EXISTS files (sys_id TEXT PRIMARY KEY, content BLOB NOT NULL)",
+    );
+  }
+
+  tables(): string[] {
+    return this.db
+      .query<{ table_name: string }, []>(
+        "SELECT DISTINCT table_name FROM records ORDER BY table_name",
+      )
+      .all()
+      .map((row) => row.table_name);
+  }
+
+  all(table: string): ServiceNowRecord[] {
+    return this.db
+      .query<{ data: string }, [string]>(
+        "SELECT data FROM records WHERE table_name = ? ORDER BY seq",
+      )
+      .all(table)
+      .map((row) => JSON.parse(row.data));
+  }
+
+  get(table: string, sysId: string): ServiceNowRecord | null {
+    const row = this.db
+      .query<
+        { data: string },
+        [string, string]
+      >("SELECT data FROM records WHERE table_name = ? AND sys_id = ?")
+      .get(table, sysId);
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  put(table: string, record: ServiceNowRecord): void {
+    // Replacing keeps the original position, like updating a row in the Map store
+    this.db
+      .query(
+        `INSERT INTO records (table_name, sys_id, seq, data)
+         VALUES (?1, ?2, (SELECT COALESCE(MAX(seq), 0) + 1 FROM records), ?3)
+         ON CONFLICT (table_name, sys_id) DO UPDATE SET data = excluded.data`,
+      )
+      .run(table, record.sys_id, JSON.stringify(record));
+  }
+
+  remove(table: string, sysId: string): boolean {
+    return (
+      this.db
+        .query("DELETE FROM records WHERE table_name = ? AND sys_id = ?")
+        .run(table, sysId).changes > 0
+    );
+  }
+
+  readFile(sysId: string): Uint8Array | null {
+    const row = this.db
+      .query<
+        { content: Uint8Array },
+        [string]
+      >("SELECT content FROM files WHERE sys_id = ?")
+      .get(sysId);
+    return row ? new Uint8Array(row.content) : null;
+  }
+
+  writeFile(sysId: string, content: Uint8Array): void {
+    this.db
+      .query(
+        "INSERT INTO files (sys_id, content) VALUES (?, ?) ON CONFLICT (sys_id) DO UPDATE SET content = excluded.content",
+      )
+      .run(sysId, content);
+  }
+
+  deleteFile(sysId: string): void {
+    this.db.query("DELETE FROM files WHERE sys_id = ?").run(sysId);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Fixtures are { table: [records] }, as exported from the Table API
+ */
+export function loadFixtures(path: string): SimulatorFixtures {
+  const fixtures = JSON.parse(readFileSync(path, "utf-8"));
+  if (!fixtures || typeof fixtures !== "object" || Array.isArray(fixtures)) {
+    throw new Error(`Fixture file ${path} must map table names to records`);
+  }
+  return fixtures;
+}
+
+export function seedStore(
+  store: SimulatorStore,
+  fixtures: SimulatorFixtures,
+): void {
+  for (const [table, records] of Object.entries(fixtures)) {
+    for (const record of records) {
+      // Exports taken with sysparm_display_value=all wrap sys_id too
+      const sysId =
+        typeof record.sys_id === "object"
+          ? record.sys_id?.value
+          : record.sys_id;
+      if (!sysId) {
+        throw new Error(`Fixture record in ${table} has no sys_id`);
+      }
+      store.put(table, { ...record, sys_id: sysId });
+    }
+  }
+}
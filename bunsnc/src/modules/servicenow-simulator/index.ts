@@ -0,0 +1,69 @@
+/**
+ * ServiceNow Simulator Module - Fake instance serving /api/now over Elysia
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * Serves the Table, Attachment, Batch and Stats APIs from an in-memory or
+ * SQLite store seeded with JSON fixtures:
+ *
+ *   bun src/cli.ts simulate --fixtures fixtures.json --port 3999
+ *   curl "http://localhost:3999/api/now/table/incident?sysparm_query=active=true"
+ */
+
+import { Elysia } from "elysia";
+import {
+  ServiceNowSimulator,
+  type ServiceNowSimulatorOptions,
+} from "./ServiceNowSimulator";
+import {
+  MemorySimulatorStore,
+  SqliteSimulatorStore,
+  loadFixtures,
+} from "./SimulatorStore";
+
+export * from "./ServiceNowSimulator";
+export * from "./SimulatorStore";
+
+export interface SimulatorServerOptions extends ServiceNowSimulatorOptions {
+  port?: number;
+  fixturesPath?: string;
+  sqlitePath?: string;
+}
+
+export const serviceNowSimulatorRoutes = (simulator: ServiceNowSimulator) =>
+  new Elysia({ name: "servicenow-simulator" })
+    .decorate("simulator", simulator)
+    // The simulator parses bodies itself (JSON, raw uploads, multipart)
+    .all("/api/now/*", ({ request }) => simulator.handle(request), {
+      parse: "none",
+      detail: {
+        summary: "ServiceNow REST API simulator",
+        tags: ["Simulator"],
+      },
+    });
+
+export function startServiceNowSimulator(options: SimulatorServerOptions = {}) {
+  const port = options.port ?? 3999;
+  const simulator = new ServiceNowSimulator({
+    instanceUrl: `http://localhost:${port}`,
+    ...options,
+    store:
+      options.store ??
+      (options.sqlitePath
+        ? new SqliteSimulatorStore(options.sqlitePath)
+        : new MemorySimulatorStore()),
+    fixtures:
+      options.fixtures ??
+      (options.fixturesPath ? loadFixtures(options.fixturesPath) : undefined),
+  });
+
+  const app = serviceNowSimulatorRoutes(simulator).listen(port);
+  console.log(
+    `🧪 ServiceNow simulator listening on ${simulator.instanceUrl} (${simulator.store.tables().length} tables)`,
+  );
+  return { app, simulator };
+}
+
+// Export type para Eden Treaty
+export type ServiceNowSimulatorApp = ReturnType<
+  typeof serviceNowSimulatorRoutes
+>;
@@ -0,0 +1,267 @@
+/**
+ * ServiceNowWebhookReceiver - Verifies and normalizes instance callbacks into stream changes
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * The instance (outbound REST message or Business Rule) signs each call:
+ *
+ *   X-ServiceNow-Timestamp: <unix seconds>
+ *   X-ServiceNow-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+ *
+ * Accepted bodies:
+ *   { "table": "incident", "operation": "update", "record": { ... } }
+ *   { "table": "incident", "operation": "insert", "current": { ... } }
+ *   { "sys_class_name": "incident", "sys_id": "...", ... }   (record only)
+ */
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { ServiceNowChange } from "../../config/redis-streams";
+import { logger } from "../../utils/Logger";
+import { MemoryWebhookStore, type WebhookStore } from "./WebhookStore";
+
+export interface ServiceNowWebhookOptions {
+  secret: string;
+  publish: (change: ServiceNowChange) => Promise<string | null>;
+  store?: WebhookStore;
+  toleranceSeconds?: number; // accepted clock skew and replay window (default 300)
+  dedupeSeconds?: number; // how long sys_id + sys_mod_count stays known (default 1 day)
+  now?: () => number;
+}
+
+const CHANGE_TYPES = new Set<ServiceNowChange["type"]>([
+  "incident",
+  "ctask",
+  "sctask",
+  "change_task",
+  "sc_task",
+  "problem",
+  "change_request",
+  "sc_request",
+  "task",
+  "incident_task",
+  "problem_task",
+]);
+
+// Incident/problem "Resolved" and task "Closed Complete"
+const RESOLVED_STATES: Record<string, string> = {
+  incident: "6",
+  problem: "6",
+};
+const COMPLETED_STATE = "3";
+
+const MAX_DEAD_LETTER_BODY = 64 * 1024;
+
+class MalformedEventError extends Error {}
+
+function json(status: number, body: Record<string, any>): Response {
+  return Response.json(body, { status });
+}
+
+function plain(value: any): any {
+  return value && typeof value === "object" && "value" in value
+    ? value.value
+    : value;
+}
+
+function display(value: any): string | undefined {
+  if (value && typeof value === "object") {
+    return value.display_value ?? value.value;
+  }
+  return value || undefined;
+}
+
+export class ServiceNowWebhookReceiver {
+  readonly store: WebhookStore;
+  private toleranceSeconds: number;
+  private dedupeSeconds: number;
+  private now: () => number;
+
+  constructor(private options: ServiceNowWebhookOptions) {
+    if (!options.secret) {
+      throw new Error("ServiceNow webhook secret is required");
+    }
+    this.now = options.now ?? Date.now;
+    this.store = options.store ?? new MemoryWebhookStore(this.now);
+    this.toleranceSeconds = options.toleranceSeconds ?? 300;
+    this.dedupeSeconds = options.dedupeSeconds ?? 86400;
+  }
+
+  /**
+   * Signature headers for a body, as the instance computes them
+   */
+  sign(body: string, timestamp: number = Math.floor(this.now() / 1000)) {
+    const digest = createHmac("sha256", this.options.secret)
+      .update(`${timestamp}.${body}`)
+      .digest("hex");
+    return {
+      "X-ServiceNow-Timestamp": String(timestamp),
+      "X-ServiceNow-Signature": `sha256=${digest}`,
+    };
+  }
+
+  async handle(request: Request): Promise<Response> {
+    const body = await request.text();
+    const timestamp = request.headers.get("X-ServiceNow-Timestamp") || "";
+    const signature = request.headers.get("X-ServiceNow-Signature") || "";
+
+    // Unauthenticated calls are dropped, never dead-lettered
+    const rejection = this.verify(body, timestamp, signature);
+    if (rejection) {
+      logger.warn(`Webhook rejected: ${rejection}`, "ServiceNowWebhook");
+      return json(401, { error: rejection });
+    }
+
+    const nonce = `sig:${signature}`;
+    if (!(await this.store.claim(nonce, this.toleranceSeconds * 2))) {
+      logger.warn("Webhook replay rejected", "ServiceNowWebhook", {
+        timestamp,
+      });
+      return json(409, { error: "Replayed request" });
+    }
+
+    let change: ServiceNowChange | null;
+    let modCount: string;
+    try {
+      ({ change, modCount } = this.normalize(body));
+    } catch (error: unknown) {
+      const reason = (error as Error).message;
+      await this.store.deadLetter({
+        id: randomUUID(),
+        reason,
+        receivedAt: new Date(this.now()).toISOString(),
+        body: body.slice(0, MAX_DEAD_LETTER_BODY),
+      });
+      logger.warn(`Webhook dead-lettered: ${reason}`, "ServiceNowWebhook");
+      return json(422, { error: reason, status: "dead_lettered" });
+    }
+
+    if (!change) {
+      return json(202, { status: "ignored" });
+    }
+
+    // Without sys_mod_count two versions of a record cannot be told apart
+    const dedupeKey =
+      modCount && `change:${change.type}:${change.sys_id}:${modCount}`;
+    if (dedupeKey && !(await this.store.claim(dedupeKey, this.dedupeSeconds))) {
+      return json(200, { status: "duplicate" });
+    }
+
+    const messageId = await this.options.publish(change);
+    if (!messageId) {
+      // Let the instance retry the same delivery later
+      if (dedupeKey) {
+        await this.store.release(dedupeKey);
+      }
+      await this.store.release(nonce);
+      return json(503, { error: "Change stream unavailable" });
+    }
+
+    logger.info("Webhook change published", "ServiceNowWebhook", {
+      messageId,
+      type: change.type,
+      action: change.action,
+      sys_id: change.sys_id,
+    });
+    return json(202, { status: "accepted", messageId });
+  }
+
+  private verify(
+    body: string,
+    timestamp: string,
+    signature: string,
+  ): string | null {
+    if (!timestamp || !signature) {
+      return "Missing signature headers";
+    }
+
+    const seconds = Number(timestamp);
+    if (!Number.isInteger(seconds)) {
+      return "Invalid timestamp";
+    }
+    if (Math.abs(this.now() / 1000 - seconds) > this.toleranceSeconds) {
+      return "Timestamp outside tolerance";
+    }
+
+    const expected = Buffer.from(
+      this.sign(body, seconds)["X-ServiceNow-Signature"],
+    );
+    const received = Buffer.from(signature);
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      return "Invalid signature";
+    }
+    return null;
+  }
+
+  /**
+   * Payload to ServiceNowChange; null for events the stream has no action for
+   */
+  private normalize(body: string): {
+    change: ServiceNowChange | null;
+    modCount: string;
+  } {
+    let payload: any;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      throw new MalformedEventError("Body is not valid JSON");
+    }
+    if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+      throw new MalformedEventError("Body must be a JSON object");
+    }
+
+    const record = payload.record ?? payload.current ?? payload;
+    if (!record || typeof record !== "object") {
+      throw new MalformedEventError("Event has no record");
+    }
+
+    const table = plain(payload.table ?? record.sys_class_name);
+    if (!CHANGE_TYPES.has(table)) {
+      throw new MalformedEventError(`Unsupported table: ${table ?? "none"}`);
+    }
+
+    const sysId = plain(record.sys_id);
+    if (typeof sysId !== "string" || !/^[0-9a-f]{32}$/i.test(sysId)) {
+      throw new MalformedEventError("Record has no valid sys_id");
+    }
+
+    const modCount = String(plain(record.sys_mod_count) ?? "");
+    const operation = String(
+      payload.operation ??
+        payload.action ??
+        (modCount === "0" ? "insert" : "update"),
+    ).toLowerCase();
+    if (operation === "delete") {
+      return { change: null, modCount };
+    }
+    if (operation !== "insert" && operation !== "update") {
+      throw new MalformedEventError(`Unsupported operation: ${operation}`);
+    }
+
+    const type = table as ServiceNowChange["type"];
+    const state = String(plain(record.state) ?? "");
+    const action: ServiceNowChange["action"] =
+      operation === "insert"
+        ? "created"
+        : RESOLVED_STATES[type] === state
+          ? "resolved"
+          : !(type in RESOLVED_STATES) && state === COMPLETED_STATE
+            ? "completed"
+            : "updated";
+
+    return {
+      change: {
+        type,
+        action,
+        sys_id: sysId,
+        number: String(plain(record.number) ?? ""),
+        state,
+        assignment_group: display(record.assignment_group),
+        short_description: plain(record.short_description) || undefined,
+        timestamp: new Date(this.now()).toISOString(),
+        data: record,
+      },
+      modCount,
+    };
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Webhook Stores - Replay/dedupe keys and dead letters for the ServiceNow webhook
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import type { Cluster, Redis } from "ioredis";
+import { logger } from "../../utils/Logger";
+
+export interface DeadLetter {
+  id: string;
+  reason: string;
+  receivedAt: string;
+  body: string;
+}
+
+export interface WebhookStore {
+  // true when the key was free; the key then expires after ttlSeconds
+  claim(key: string, ttlSeconds: number): Promise<boolean>;
+  release(key: string): Promise<void>;
+  deadLetter(entry: DeadLetter): Promise<void>;
+  deadLetters(limit?: number): Promise<DeadLetter[]>;
+}
+
+const MAX_DEAD_LETTERS = 1000;
+
+type WebhookRedis = Redis | Cluster;
+
+export class MemoryWebhookStore implements WebhookStore {
+  private keys = new Map<string, number>();
+  private letters: DeadLetter[] = [];
+
+  constructor(private now: () => number = Date.now) {}
+
+  async claim(key: string, ttlSeconds: number): Promise<boolean> {
+    const expiresAt = this.keys.get(key);
+    if (expiresAt !== undefined && expiresAt > this.now()) {
+      return false;
+    }
+    this.keys.set(key, this.now() + ttlSeconds * 1000);
+    return true;
+  }
+
+  async release(key: string): Promise<void> {
+    this.keys.delete(key);
+  }
+
+  async deadLetter(entry: DeadLetter): Promise<void> {
+    this.letters.unshift(entry);
+    this.letters.length = Math.min(this.letters.length, MAX_DEAD_LETTERS);
+  }
+
+  async deadLetters(limit: number = 100): Promise<DeadLetter[]> {
+    return this.letters.slice(0, limit);
+  }
+}
+
+/**
+ * Redis-backed store shared by all instances behind the load balancer.
+ * Falls back to memory while Redis is unavailable.
+ */
+export class RedisWebhookStore implements WebhookStore {
+  private fallback = new MemoryWebhookStore();
+
+  constructor(
+    private connection: () => WebhookRedis | null,
+    private prefix: string = "servicenow:webhook",
+  ) {}
+
+  async claim(key: string, ttlSeconds: number): Promise<boolean> {
+    const redis = this.redis();
+    if (!redis) {
+      return this.fallback.claim(key, ttlSeconds);
+    }
+    const result = await redis.set(
+      `${this.prefix}:key:${key}`,
+      "1",
+      "EX",
+      ttlSeconds,
+      "NX",
+    );
+    return result === "OK";
+  }
+
+  async release(key: string): Promise<void> {
+    const redis = this.redis();
+    if (!redis) {
+      return this.fallback.release(key);
+    }
+    await redis.del(`${this.prefix}:key:${key}`);
+  }
+
+  async deadLetter(entry: DeadLetter): Promise<void> {
+    const redis = this.redis();
+    if (!redis) {
+      return this.fallback.deadLetter(entry);
+    }
+    const list = `${this.prefix}:dead-letters`;
+    await redis.lpush(list, JSON.stringify(entry));
+    await redis.ltrim(list, 0, MAX_DEAD_LETTERS - 1);
+  }
+
+  async deadLetters(limit: number = 100): Promise<DeadLetter[]> {
+    const redis = this.redis();
+    if (!redis) {
+      return this.fallback.deadLetters(limit);
+    }
+    const entries = await redis.lrange(
+      `${this.prefix}:dead-letters`,
+      0,
+      limit - 1,
+    );
+    return entries.map((entry: string) => JSON.parse(entry));
+  }
+
+  private redis(): WebhookRedis | null {
+    const redis = this.connection();
+    if (!redis) {
+      logger.warn(
+        "Redis unavailable - webhook store using memory",
+        "ServiceNowWebhook",
+      );
+    }
+    return redis;
+  }
+}
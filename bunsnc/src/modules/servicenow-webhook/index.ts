@@ -0,0 +1,78 @@
+/**
+ * ServiceNow Webhook Module - Inbound instance callbacks feeding the Redis change stream
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * POST /api/v1/servicenow/webhook              signed change events (outbound REST / Business Rule)
+ * GET  /api/v1/servicenow/webhook/dead-letters  malformed events kept for inspection
+ *
+ * Published changes reach StreamHandler and WebSocketManager through the
+ * servicenow:changes stream, without waiting for the next poll.
+ */
+
+import { Elysia, t } from "elysia";
+import { publishServiceNowChange } from "../../config/redis-streams";
+import { getExistingRedisConnection } from "../../utils/RedisConnection";
+import {
+  ServiceNowWebhookReceiver,
+  type ServiceNowWebhookOptions,
+} from "./ServiceNowWebhookReceiver";
+import { RedisWebhookStore } from "./WebhookStore";
+
+export * from "./ServiceNowWebhookReceiver";
+export * from "./WebhookStore";
+
+export const serviceNowWebhookRoutes = (receiver: ServiceNowWebhookReceiver) =>
+  new Elysia({ name: "servicenow-webhook", prefix: "/api/v1/servicenow" })
+    .decorate("webhookReceiver", receiver)
+    // The signature covers the raw body, so Elysia must not parse it
+    .post("/webhook", ({ request }) => receiver.handle(request), {
+      parse: "none",
+      detail: {
+        summary: "Receive ServiceNow change events",
+        tags: ["ServiceNow", "Webhook"],
+      },
+    })
+    .get(
+      "/webhook/dead-letters",
+      async ({ query }) => ({
+        success: true,
+        result: await receiver.store.deadLetters(query.limit ?? 100),
+        timestamp: new Date().toISOString(),
+      }),
+      {
+        query: t.Object({
+          limit: t.Optional(t.Numeric({ minimum: 1, maximum: 1000 })),
+        }),
+        detail: {
+          summary: "List dead-lettered webhook events",
+          tags: ["ServiceNow", "Webhook"],
+        },
+      },
+    );
+
+/**
+ * Receiver wired to the shared Redis connection and change stream;
+ * the secret comes from SERVICENOW_WEBHOOK_SECRET
+ */
+export function createServiceNowWebhookRoutes(
+  options: Partial<ServiceNowWebhookOptions> = {},
+) {
+  const secret = options.secret ?? process.env.SERVICENOW_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error("SERVICENOW_WEBHOOK_SECRET is not configured");
+  }
+
+  const receiver = new ServiceNowWebhookReceiver({
+    publish: publishServiceNowChange,
+    store: new RedisWebhookStore(getExistingRedisConnection),
+    toleranceSeconds: parseInt(
+      process.env.SERVICENOW_WEBHOOK_TOLERANCE || "300",
+    ),
+    ...options,
+    secret,
+  });
+  return serviceNowWebhookRoutes(receiver);
+}
+
+// Export type para Eden Treaty
+export type ServiceNowWebhookApp = ReturnType<typeof serviceNowWebhookRoutes>;
@@ -23,6 +23,7 @@ import {
   ServiceNowNotification,
   DataProcessingNotification,
   PerformanceNotification,
+  SLANotification,
   SecurityNotification,
 } from "./NotificationTypes";
 
@@ -440,6 +441,31 @@ export class NotificationManager extends EventEmitter {
     return await this.notify(notification);
   }
 
+  /**
+   * Send SLA breach warning to the escalation recipients
+   */
+  async notifySLA(
+    slaData: SLANotification["data"],
+    channels: NotificationChannel[] = [],
+  ): Promise<string> {
+    const notification: SLANotification = {
+      id: crypto.randomUUID(),
+      type: NotificationType.SLA_BREACH_WARNING,
+      timestamp: new Date(),
+      source: "sla_monitor",
+      priority: this.getSLAPriority(slaData.threshold),
+      channels: [
+        NotificationChannel.WEBSOCKET,
+        NotificationChannel.SSE,
+        ...channels,
+      ],
+      metadata: { recipients: slaData.recipients },
+      data: slaData,
+    };
+
+    return await this.notify(notification, [...new Set(notification.channels)]);
+  }
+
   /**
    * Send security notification
    */
@@ -798,6 +824,12 @@ export class NotificationManager extends EventEmitter {
     }
   }
 
+  private getSLAPriority(threshold: number): NotificationPriority {
+    if (threshold >= 90) return NotificationPriority.CRITICAL;
+    if (threshold >= 75) return NotificationPriority.HIGH;
+    return NotificationPriority.MEDIUM;
+  }
+
   private getSecurityPriority(
     eventType: string,
     riskScore?: number,
@@ -1102,6 +1134,9 @@ export class NotificationManager extends EventEmitter {
         return `System Error: ${(notification as SystemNotification).data.component}`;
       case NotificationType.PERFORMANCE_ALERT:
         return `Performance Alert: ${(notification as PerformanceNotification).data.metric}`;
+      case NotificationType.SLA_BREACH_WARNING:
+        const slaAlert = notification as SLANotification;
+        return `SLA Warning ${slaAlert.data.threshold}%: ${slaAlert.data.ticketNumber}`;
       case NotificationType.SECURITY_ALERT:
         return "Security Alert Detected";
       default:
@@ -1123,6 +1158,9 @@ export class NotificationManager extends EventEmitter {
       case NotificationType.PERFORMANCE_ALERT:
         const perfAlert = notification as PerformanceNotification;
         return `Performance metric ${perfAlert.data.metric} exceeded threshold: ${perfAlert.data.currentValue} > ${perfAlert.data.threshold}`;
+      case NotificationType.SLA_BREACH_WARNING:
+        const slaWarning = notification as SLANotification;
+        return `Ticket ${slaWarning.data.ticketNumber} has used ${slaWarning.data.percentage}% of its ${slaWarning.data.slaHours}h SLA${slaWarning.data.dueAt ? `, breach at ${new Date(slaWarning.data.dueAt).toISOString()}` : ""}.`;
       default:
         return `Notification from ${notification.source}: ${notification.type}`;
     }
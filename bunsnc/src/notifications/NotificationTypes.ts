@@ -47,6 +47,9 @@ export enum NotificationType {
   PERFORMANCE_DEGRADATION = "performance.degradation",
   PERFORMANCE_RECOVERY = "performance.recovery",
 
+  // SLA notifications
+  SLA_BREACH_WARNING = "sla.breach_warning",
+
   // Security notifications
   SECURITY_ALERT = "security.alert",
   AUTH_SUCCESS = "auth.success",
@@ -165,6 +168,23 @@ export interface PerformanceNotification extends BaseNotification {
   };
 }
 
+export interface SLANotification extends BaseNotification {
+  type: NotificationType.SLA_BREACH_WARNING;
+  data: {
+    ticketId: string;
+    ticketNumber: string;
+    ticketType: string;
+    assignmentGroup?: string;
+    threshold: number;
+    percentage: number;
+    slaHours: number;
+    elapsedHours: number;
+    dueAt: Date | null;
+    recipients: string[];
+    acknowledgedBy?: string;
+  };
+}
+
 export interface SecurityNotification extends BaseNotification {
   type:
     | NotificationType.SECURITY_ALERT
@@ -190,6 +210,7 @@ export type Notification =
   | ServiceNowNotification
   | DataProcessingNotification
   | PerformanceNotification
+  | SLANotification
   | SecurityNotification;
 
 // WebSocket message types
@@ -209,6 +209,94 @@ const LoggingConfigSchema = t.Object({
   includeLocation: t.Boolean({ default: false }),
 });
 
+// Sync Configuration Schema
+const ConflictStrategySchema = t.Union([
+  t.Literal("servicenow_wins"),
+  t.Literal("mongodb_wins"),
+  t.Literal("newest_wins"),
+  t.Literal("manual"),
+]);
+
+const SyncConfigSchema = t.Object({
+  interval: t.Optional(t.Number()),
+  batchSize: t.Optional(t.Number()),
+  enableDeltaSync: t.Optional(t.Boolean()),
+  enableRealTimeUpdates: t.Optional(t.Boolean()),
+  tables: t.Optional(t.Array(t.String())),
+  strategy: t.Optional(
+    t.Union([t.Literal("full"), t.Literal("delta"), t.Literal("incremental")]),
+  ),
+  parallelTables: t.Optional(t.Number()),
+  queries: t.Optional(t.Record(t.String(), t.String())),
+  // Three-way merge policy per field, see ConflictResolver
+  conflicts: t.Optional(
+    t.Object({
+      default: t.Optional(ConflictStrategySchema),
+      fields: t.Optional(t.Record(t.String(), ConflictStrategySchema)),
+      tables: t.Optional(
+        t.Record(t.String(), t.Record(t.String(), ConflictStrategySchema)),
+      ),
+      ignoredFields: t.Optional(t.Array(t.String())),
+    }),
+  ),
+});
+
+// SLA Configuration Schema
+const SLAPauseRuleSchema = t.Object({
+  pause: t.Array(
+    t.Object({
+      label: t.String(),
+      when: t.Record(t.String(), t.Array(t.String())),
+    }),
+  ),
+  stop: t.Optional(t.Record(t.String(), t.Array(t.String()))),
+});
+
+const SLAQuietHoursSchema = t.Object({
+  start: t.String(),
+  end: t.String(),
+  timezone: t.String(),
+  days: t.Optional(t.Array(t.Number())),
+  bypass_threshold: t.Optional(t.Number()),
+});
+
+const SLAAlertPolicySchema = t.Object({
+  thresholds: t.Optional(t.Array(t.Number())),
+  quiet_hours: t.Optional(SLAQuietHoursSchema),
+  // Escalation chain per assignment group; "default" for the others
+  escalation: t.Optional(
+    t.Record(
+      t.String(),
+      t.Object({
+        levels: t.Array(
+          t.Object({
+            threshold: t.Number(),
+            recipients: t.Array(t.String()),
+            channels: t.Optional(t.Array(t.String())),
+          }),
+        ),
+        quiet_hours: t.Optional(t.Union([SLAQuietHoursSchema, t.Null()])),
+      }),
+    ),
+  ),
+});
+
+// Contract terms of the penalty invoice report
+const SLABillingSchema = t.Object({
+  monthly_fee: t.Optional(t.Number()),
+  currency: t.Optional(t.String()),
+  penalty_cap_percentage: t.Optional(t.Number()),
+  timezone: t.Optional(t.String()), // billing month boundaries
+});
+
+const SLAConfigSchema = t.Object({
+  // Pause conditions per ticket type (incident, ctask, sctask)
+  pause: t.Optional(t.Record(t.String(), SLAPauseRuleSchema)),
+  // Predictive breach alerts
+  alerts: t.Optional(SLAAlertPolicySchema),
+  billing: t.Optional(SLABillingSchema),
+});
+
 // Complete Plugin Configuration Schema
 export const PluginConfigSchema = t.Object({
   ...BaseConfigSchema.properties,
@@ -219,6 +307,8 @@ export const PluginConfigSchema = t.Object({
   hotReload: t.Optional(HotReloadConfigSchema),
   server: t.Optional(ServerConfigSchema),
   logging: t.Optional(LoggingConfigSchema),
+  sync: t.Optional(SyncConfigSchema),
+  sla: t.Optional(SLAConfigSchema),
 
   // Plugin-specific configurations
   plugins: t.Optional(t.Record(t.String(), t.Any())),
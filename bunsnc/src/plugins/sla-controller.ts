@@ -16,6 +16,8 @@ import { ContractualSLAService } from "../services/ContractualSLAService";
 import { EnhancedMetricsService } from "../services/EnhancedMetricsService";
 import { ContractualViolationService } from "../services/ContractualViolationService";
 import { logger } from "../utils/Logger";
+import { pluginConfigManager } from "./config-manager";
+import type { SLAPauseRules } from "../types/ContractualSLA";
 
 // Singleton instances (Lazy Loading Pattern v5.6.1)
 let _slaServiceSingleton: ContractualSLAService | null = null;
@@ -54,6 +56,11 @@ const getSLAServices = async () => {
     );
     await _slaServiceSingleton.initialize();
 
+    const config = await pluginConfigManager.load();
+    if (config.sla?.pause) {
+      _slaServiceSingleton.setPauseRules(config.sla.pause as Partial<SLAPauseRules>);
+    }
+
     _metricsServiceSingleton = EnhancedMetricsService.getInstance(
       _mongoClientSingleton,
       databaseName,
@@ -8,7 +8,8 @@
  * Features:
  * - Auto-sync with configurable intervals
  * - Manual table synchronization
- * - Delta sync for incremental updates
+ * - Delta sync for incremental updates (durable sys_updated_on + sys_id watermarks)
+ * - Deletion reconciliation against sys_audit_delete or sys_id diffs
  * - Real-time ServiceNow updates via Redis Streams
  * - Batch processing with configurable batch sizes
  * - Error handling and retry logic
@@ -17,6 +18,22 @@
 
 import { Elysia } from "elysia";
 import { logger } from "../utils/Logger";
+import { TableAPI } from "../api/TableAPI";
+import {
+  COLLECTION_NAMES,
+  TICKET_COLLECTIONS,
+  mongoCollectionManager,
+} from "../config/mongodb-collections";
+import {
+  WatermarkSyncEngine,
+  type DeletionStrategy,
+} from "../services/sync/WatermarkSyncEngine";
+import { MongoSyncMirror } from "../services/sync/SyncMirror";
+import { MongoSyncCursorStore } from "../services/sync/SyncCursorStore";
+import { ConflictResolver } from "../services/sync/ConflictResolver";
+import { MongoConflictStore } from "../services/sync/ConflictStore";
+import { pluginConfigManager } from "./config-manager";
+import { leaderLease, type LeaderLease } from "../services/system/LeaderLease";
 
 // Sync Configuration Interface
 export interface SyncConfig {
@@ -30,6 +47,7 @@ export interface SyncConfig {
   syncStrategy?: "full" | "delta" | "incremental";
   parallelTables?: number;
   timeoutMs?: number;
+  queries?: Record<string, string>; // encoded query per table for delta sync
 }
 
 // Sync Statistics Interface
@@ -71,6 +89,7 @@ export interface AutoSyncStatus {
   totalSyncs: number;
   errors: number;
   uptime: number;
+  leader?: boolean; // this replica holds the auto-sync lease
 }
 
 // Sync Service Interface
@@ -131,6 +150,8 @@ class ServiceNowSyncService implements SyncService {
   private mongoService: any;
   private cacheService: any;
   private serviceNowService: any;
+  private watermarkSync: WatermarkSyncEngine | null;
+  private autoSyncLease: LeaderLease;
 
   constructor(config: SyncConfig, dependencies: any) {
     this.config = {
@@ -162,6 +183,8 @@ class ServiceNowSyncService implements SyncService {
     this.mongoService = dependencies.mongoService;
     this.cacheService = dependencies.cacheService;
     this.serviceNowService = dependencies.serviceNowService;
+    this.watermarkSync = dependencies.watermarkSync ?? null;
+    this.autoSyncLease = dependencies.autoSyncLease ?? leaderLease("auto-sync");
   }
 
   /**
@@ -368,8 +391,18 @@ class ServiceNowSyncService implements SyncService {
       this.autoSyncStatus.interval = this.config.syncInterval!;
       this.autoSyncStatus.tables = this.config.tables!;
 
+      // Every replica keeps the timer; only the lease holder syncs
+      await this.autoSyncLease.start();
+
       // Start auto-sync timer
       this.autoSyncTimer = setInterval(async () => {
+        if (!this.autoSyncLease.isLeader()) {
+          logger.debug(
+            "Auto-sync cycle skipped, another replica holds the lease",
+            "SyncController",
+          );
+          return;
+        }
         try {
           this.autoSyncStatus.lastSync = new Date().toISOString();
           this.autoSyncStatus.nextSync = new Date(
@@ -440,6 +473,7 @@ class ServiceNowSyncService implements SyncService {
         clearInterval(this.autoSyncTimer);
         this.autoSyncTimer = null;
       }
+      await this.autoSyncLease.stop();
 
       this.autoSyncStatus.isRunning = false;
       this.autoSyncStatus.nextSync = null;
@@ -532,11 +566,20 @@ class ServiceNowSyncService implements SyncService {
         lastSync = await this.cacheService.get(`delta:${table}:last_sync`);
       }
 
+      const cursor = this.watermarkSync
+        ? await this.watermarkSync.status(
+            table,
+            this.config.queries?.[table] ?? "",
+          )
+        : null;
+
       return {
         table,
         enabled,
-        lastSync,
+        lastSync: cursor?.updated_at ?? lastSync,
         strategy: enabled ? "delta" : "full",
+        watermark: cursor?.position ?? null,
+        deletionsReconciledAt: cursor?.reconciled_at ?? null,
       };
     } catch (error: any) {
       return {
@@ -723,7 +766,7 @@ class ServiceNowSyncService implements SyncService {
   }
 
   getAutoSyncStatus(): AutoSyncStatus {
-    return { ...this.autoSyncStatus };
+    return { ...this.autoSyncStatus, leader: this.autoSyncLease.isLeader() };
   }
 
   // Health and Diagnostics
@@ -783,6 +826,38 @@ class ServiceNowSyncService implements SyncService {
     const startTime = Date.now();
     const config = { ...this.config, ...options };
 
+    if (
+      this.watermarkSync &&
+      config.syncStrategy !== "full" &&
+      this.deltaSyncEnabled.has(table)
+    ) {
+      const result = await this.watermarkSync.syncTable(
+        table,
+        config.queries?.[table] ?? "",
+      );
+
+      if (this.cacheService) {
+        await this.cacheService.set(
+          `delta:${table}:last_sync`,
+          result.cursor.updated_at,
+        );
+      }
+
+      return {
+        table,
+        success: true,
+        processed: result.processed,
+        inserted: result.inserted,
+        updated: result.updated,
+        deleted: result.deleted,
+        errors: [],
+        duration: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+        strategy: config.syncStrategy!,
+        batchSize: config.batchSize!,
+      };
+    }
+
     // Mock implementation - replace with actual ServiceNow sync logic
     const processed = Math.floor(Math.random() * 100) + 1;
     const inserted = Math.floor(processed * 0.3);
@@ -852,6 +927,42 @@ class ServiceNowSyncService implements SyncService {
   }
 }
 
+/**
+ * Watermark engine writing the ticket collections, cursors in sn_sync_cursors.
+ * Records are merged with their mirrored copy under the "sync.conflicts"
+ * policies; mirror-side changes are patched back to ServiceNow.
+ */
+const createWatermarkSync = async (batchSize?: number) => {
+  const config = await pluginConfigManager.load();
+  const table = new TableAPI(process.env.SERVICENOW_INSTANCE_URL || "", "");
+
+  return new WatermarkSyncEngine({
+    source: table,
+    mirror: new MongoSyncMirror((name) =>
+      TICKET_COLLECTIONS[name]
+        ? mongoCollectionManager.getCollection(TICKET_COLLECTIONS[name])
+        : null,
+    ),
+    cursors: new MongoSyncCursorStore(() =>
+      mongoCollectionManager.getCollection(COLLECTION_NAMES.SYNC_CURSORS),
+    ),
+    conflicts: new ConflictResolver({
+      store: new MongoConflictStore(
+        () => mongoCollectionManager.getCollection(COLLECTION_NAMES.SYNC_BASES),
+        () =>
+          mongoCollectionManager.getCollection(COLLECTION_NAMES.SYNC_CONFLICTS),
+      ),
+      policies: config.sync?.conflicts,
+    }),
+    push: async (name, sysId, fields) => {
+      await table.patch(name, sysId, fields);
+    },
+    pageSize: batchSize,
+    deletions:
+      (process.env.SYNC_DELETION_STRATEGY as DeletionStrategy) || "audit",
+  });
+};
+
 // FIX v5.6.1: Singleton Lazy Loading Pattern
 let _syncServiceSingleton: ServiceNowSyncService | null = null;
 
@@ -863,7 +974,14 @@ const getSyncService = async (syncConfig: SyncConfig, dependencies: any) => {
   console.log(
     "📦 Creating ServiceNowSyncService (SINGLETON - first initialization)",
   );
-  _syncServiceSingleton = new ServiceNowSyncService(syncConfig, dependencies);
+  const watermarkSync = await createWatermarkSync(syncConfig.batchSize);
+  if (_syncServiceSingleton) {
+    return { syncService: _syncServiceSingleton }; // created while loading config
+  }
+  _syncServiceSingleton = new ServiceNowSyncService(syncConfig, {
+    watermarkSync,
+    ...dependencies,
+  });
   await _syncServiceSingleton.initialize();
   console.log(
     "✅ ServiceNowSyncService created (SINGLETON - reused across all requests)",
@@ -893,6 +1011,7 @@ export const syncController = new Elysia({ name: "sync" })
       tables: config?.sync?.tables || ["incident", "change_task", "sc_task"],
       syncStrategy: config?.sync?.strategy || "delta",
       parallelTables: config?.sync?.parallelTables || 3,
+      queries: config?.sync?.queries,
     };
 
     // Create sync service instance with dependencies (singleton)
@@ -21,5 +21,17 @@ export abstract class BaseCondition {
     }
   }
 
+  get name(): string {
+    return this._name;
+  }
+
+  get operator(): string {
+    return this._operator;
+  }
+
+  get value(): any {
+    return this._value;
+  }
+
   abstract generate(): string;
 }
@@ -0,0 +1,666 @@
+/**
+ * Encoded query parser - turns ServiceNow encoded queries into an AST of
+ * QueryCondition / OrCondition / JoinQuery / RLQuery nodes that serializes back byte-for-byte
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { QueryCondition } from "./QueryCondition";
+import { JoinQuery } from "./JoinQuery";
+import { RLQuery } from "./RLQuery";
+
+export class EncodedQueryParseError extends Error {
+  constructor(
+    message: string,
+    public position: number,
+    public query: string,
+  ) {
+    super(`${message} (at position ${position})`);
+    this.name = "EncodedQueryParseError";
+  }
+}
+
+/**
+ * ORDERBY / ORDERBYDESC clause
+ */
+export class OrderByClause {
+  constructor(
+    public field: string,
+    public descending: boolean = false,
+  ) {}
+
+  generate(): string {
+    return `${this.descending ? "ORDERBYDESC" : "ORDERBY"}${this.field}`;
+  }
+}
+
+export type QueryNode = QueryCondition | JoinQuery | RLQuery | OrderByClause;
+
+// Longest first, so "NOT IN" wins over "IN" and ">=" over ">"
+export const ENCODED_QUERY_OPERATORS = [
+  "DOES NOT CONTAIN",
+  "GT_OR_EQUALS_FIELD",
+  "LT_OR_EQUALS_FIELD",
+  "EMPTYSTRING",
+  "CHANGESFROM",
+  "RELATIVEGT",
+  "RELATIVELT",
+  "RELATIVEGE",
+  "RELATIVELE",
+  "RELATIVEEE",
+  "ISNOTEMPTY",
+  "STARTSWITH",
+  "VALCHANGES",
+  "INSTANCEOF",
+  "CHANGESTO",
+  "NOT LIKE",
+  "ENDSWITH",
+  "CONTAINS",
+  "ANYTHING",
+  "DATEPART",
+  "MORETHAN",
+  "LESSTHAN",
+  "GT_FIELD",
+  "LT_FIELD",
+  "BETWEEN",
+  "DYNAMIC",
+  "ISEMPTY",
+  "NSAMEAS",
+  "NOT IN",
+  "SAMEAS",
+  "NOTON",
+  "LIKE",
+  "!=",
+  ">=",
+  "<=",
+  "IN",
+  "ON",
+  "=",
+  ">",
+  "<",
+];
+
+// Field names are lowercase (dot-walks included); a few keyword pseudo-fields are not
+const FIELD_PATTERN =
+  /^(?:123TEXTQUERY321|IR_AND_OR_QUERY|IR_OR_QUERY|[a-z0-9_$.]+)/;
+
+interface Segment {
+  text: string;
+  position: number;
+}
+
+interface ParsedCondition {
+  field: string;
+  operator: string;
+  value: string;
+}
+
+/**
+ * Where parsed nodes end up: top-level blocks keep their own node order,
+ * nodes inside RLQUERY are added through the enclosing Query
+ */
+interface NodeSink {
+  condition(parsed: ParsedCondition): QueryCondition;
+  join(
+    table: string,
+    primaryField: string,
+    joinTable: string,
+    joinTableField: string,
+  ): JoinQuery;
+  related(
+    relatedTable: string,
+    relatedField: string,
+    condition: string,
+    stopAtRelationship: boolean,
+  ): RLQuery;
+}
+
+/**
+ * Split on ^ separators; "^^" is an escaped caret inside a value and stays in place
+ */
+function splitSegments(query: string): Segment[] {
+  if (query === "") {
+    return [];
+  }
+
+  const segments: Segment[] = [];
+  let start = 0;
+  for (let i = 0; i < query.length; i++) {
+    if (query[i] !== "^") {
+      continue;
+    }
+    if (query[i + 1] === "^") {
+      i++;
+      continue;
+    }
+    segments.push({ text: query.slice(start, i), position: start });
+    start = i + 1;
+  }
+  segments.push({ text: query.slice(start), position: start });
+
+  return segments;
+}
+
+function isOrSegment(text: string): boolean {
+  return text.startsWith("OR") && !text.startsWith("ORDERBY");
+}
+
+function nodeText(node: QueryNode): string {
+  if (node instanceof QueryCondition || node instanceof OrderByClause) {
+    return node.generate();
+  }
+  return node.generateQuery();
+}
+
+class Parser {
+  private segments: Segment[];
+  private index = 0;
+
+  constructor(
+    private query: string,
+    private table?: string,
+  ) {
+    this.segments = splitSegments(query);
+  }
+
+  parse(): EncodedQuery {
+    const blocks: QueryNode[][] = [[]];
+    let terminated = false;
+
+    const sink: NodeSink = {
+      condition: ({ field, operator, value }) =>
+        this.push(blocks, new QueryCondition(field, operator, value)),
+      join: (table, primaryField, joinTable, joinTableField) =>
+        this.push(
+          blocks,
+          new JoinQuery(table, joinTable, primaryField, joinTableField),
+        ),
+      related: (relatedTable, relatedField, condition, stopAtRelationship) =>
+        this.push(
+          blocks,
+          // the outer table is not part of the encoded form; nested RLQUERY needs one set
+          new RLQuery(
+            this.table || relatedTable,
+            relatedTable,
+            relatedField,
+            condition,
+            stopAtRelationship,
+          ),
+        ),
+    };
+
+    let last: QueryCondition | undefined;
+
+    while (this.index < this.segments.length) {
+      const segment = this.segments[this.index];
+
+      if (terminated) {
+        throw this.error("Unexpected content after ^EQ", segment.position);
+      }
+
+      if (segment.text === "EQ") {
+        terminated = true;
+        this.index++;
+        continue;
+      }
+
+      if (segment.text.startsWith("NQ")) {
+        if (blocks[blocks.length - 1].length === 0) {
+          throw this.error("Empty query before ^NQ", segment.position);
+        }
+        blocks.push([]);
+        last = undefined;
+        this.segments[this.index] = {
+          text: segment.text.slice(2),
+          position: segment.position + 2,
+        };
+        continue;
+      }
+
+      if (segment.text.startsWith("ORDERBY")) {
+        const descending = segment.text.startsWith("ORDERBYDESC");
+        const field = segment.text.slice(descending ? 11 : 7);
+        if (!field) {
+          throw this.error("ORDERBY without a field", segment.position);
+        }
+        blocks[blocks.length - 1].push(new OrderByClause(field, descending));
+        last = undefined;
+        this.index++;
+        continue;
+      }
+
+      last = this.parseNode(sink, last);
+    }
+
+    return new EncodedQuery(blocks, terminated);
+  }
+
+  private push<T extends QueryNode>(blocks: QueryNode[][], node: T): T {
+    blocks[blocks.length - 1].push(node);
+    return node;
+  }
+
+  /**
+   * Parse the node starting at the current segment, returning the condition
+   * that following ^OR segments attach to
+   */
+  private parseNode(
+    sink: NodeSink,
+    last: QueryCondition | undefined,
+  ): QueryCondition | undefined {
+    const segment = this.segments[this.index++];
+    const { text, position } = segment;
+
+    if (text === "") {
+      throw this.error("Empty condition", position);
+    }
+
+    if (isOrSegment(text)) {
+      if (!last) {
+        throw this.error("^OR without a preceding condition", position);
+      }
+      const { field, operator, value } = this.parseCondition(
+        text.slice(2),
+        position + 2,
+      );
+      last.addOrCondition(field, operator, value);
+      return last;
+    }
+
+    if (text.startsWith("RLQUERY")) {
+      const rl = this.parseRLQueryHeader(sink, text.slice(7), position + 7);
+      const end = this.parseRLQueryBody(rl, segment);
+      this.verify(rl.generateQuery(), segment, end, "RLQUERY");
+      return undefined;
+    }
+
+    if (text.startsWith("JOIN")) {
+      return this.parseJoin(sink, text.slice(4), segment);
+    }
+
+    if (text === "ENDRLQUERY") {
+      throw this.error("^ENDRLQUERY without RLQUERY", position);
+    }
+
+    return sink.condition(this.parseCondition(text, position));
+  }
+
+  private parseCondition(text: string, position: number): ParsedCondition {
+    const field = FIELD_PATTERN.exec(text)?.[0];
+    if (!field) {
+      throw this.error(`Expected a field name in "${text}"`, position);
+    }
+
+    const rest = text.slice(field.length);
+    const operator = ENCODED_QUERY_OPERATORS.find((op) => rest.startsWith(op));
+    if (!operator) {
+      throw this.error(
+        `Unknown operator in "${text}"`,
+        position + field.length,
+      );
+    }
+
+    return { field, operator, value: rest.slice(operator.length) };
+  }
+
+  /**
+   * JOINtable.field=join_table.field!condition - the join keeps the condition
+   * after "!" and the ^OR segments that follow it
+   */
+  private parseJoin(
+    sink: NodeSink,
+    text: string,
+    segment: Segment,
+  ): QueryCondition | undefined {
+    const bang = text.indexOf("!");
+    const spec = bang >= 0 ? text.slice(0, bang) : "";
+    const [left, right, ...extra] = spec.split("=");
+    const primaryDot = left?.indexOf(".") ?? -1;
+    const joinDot = right?.indexOf(".") ?? -1;
+
+    if (bang < 0 || extra.length > 0 || primaryDot <= 0 || joinDot <= 0) {
+      throw this.error(
+        "Expected JOIN<table>.<field>=<join_table>.<field>!",
+        segment.position,
+      );
+    }
+
+    const join = sink.join(
+      left.slice(0, primaryDot),
+      left.slice(primaryDot + 1),
+      right.slice(0, joinDot),
+      right.slice(joinDot + 1),
+    );
+
+    const inner = text.slice(bang + 1);
+    let condition: QueryCondition | undefined;
+    if (inner) {
+      const { field, operator, value } = this.parseCondition(
+        inner,
+        segment.position + 4 + bang + 1,
+      );
+      condition = join.addQuery(field, operator, value);
+    }
+
+    let end = segment;
+    while (
+      condition &&
+      this.index < this.segments.length &&
+      isOrSegment(this.segments[this.index].text)
+    ) {
+      end = this.segments[this.index++];
+      const { field, operator, value } = this.parseCondition(
+        end.text.slice(2),
+        end.position + 2,
+      );
+      condition.addOrCondition(field, operator, value);
+    }
+
+    this.verify(join.generateQuery(), segment, end, "JOIN");
+    return undefined;
+  }
+
+  /**
+   * RLQUERYrelated_table.field,<count condition>[,m2m]
+   */
+  private parseRLQueryHeader(
+    sink: NodeSink,
+    text: string,
+    position: number,
+  ): RLQuery {
+    const [identifier, condition, stop, ...extra] = text.split(",");
+    const dot = identifier.indexOf(".");
+
+    if (
+      dot <= 0 ||
+      !condition ||
+      extra.length > 0 ||
+      (stop !== undefined && stop !== "m2m")
+    ) {
+      throw this.error(
+        "Expected RLQUERY<table>.<field>,<condition>[,m2m]",
+        position,
+      );
+    }
+
+    return sink.related(
+      identifier.slice(0, dot),
+      identifier.slice(dot + 1),
+      condition,
+      stop === "m2m",
+    );
+  }
+
+  private parseRLQueryBody(rl: RLQuery, open: Segment): Segment {
+    const sink: NodeSink = {
+      condition: ({ field, operator, value }) =>
+        rl.addQuery(field, operator, value),
+      join: (_table, primaryField, joinTable, joinTableField) =>
+        rl.addJoinQuery(joinTable, primaryField, joinTableField),
+      related: (relatedTable, relatedField, condition, stopAtRelationship) =>
+        rl.addRLQuery(
+          relatedTable,
+          relatedField,
+          condition,
+          stopAtRelationship,
+        ),
+    };
+
+    let last: QueryCondition | undefined;
+    while (this.index < this.segments.length) {
+      const segment = this.segments[this.index];
+
+      if (segment.text === "ENDRLQUERY") {
+        this.index++;
+        return segment;
+      }
+      if (
+        segment.text === "EQ" ||
+        segment.text.startsWith("NQ") ||
+        segment.text.startsWith("ORDERBY")
+      ) {
+        throw this.error(
+          `${segment.text.slice(0, 7)} is not allowed inside RLQUERY`,
+          segment.position,
+        );
+      }
+
+      last = this.parseNode(sink, last);
+    }
+
+    throw this.error("RLQUERY without ^ENDRLQUERY", open.position);
+  }
+
+  /**
+   * JOIN and RLQUERY serialize through Query.generateQuery(), which groups conditions
+   * before sub-queries - refuse input it would not reproduce exactly
+   */
+  private verify(
+    generated: string,
+    start: Segment,
+    end: Segment,
+    kind: string,
+  ): void {
+    const source = this.query.slice(
+      start.position,
+      end.position + end.text.length,
+    );
+    if (generated !== source) {
+      throw this.error(
+        `${kind} cannot be represented exactly: expected "${source}", got "${generated}"`,
+        start.position,
+      );
+    }
+  }
+
+  private error(message: string, position: number): EncodedQueryParseError {
+    return new EncodedQueryParseError(message, position, this.query);
+  }
+}
+
+/**
+ * Parsed encoded query. Blocks are the ^NQ separated top-level queries,
+ * each holding its nodes in source order.
+ */
+export class EncodedQuery {
+  constructor(
+    public blocks: QueryNode[][] = [[]],
+    public terminated: boolean = false, // trailing ^EQ as added by the list UI
+  ) {}
+
+  static parse(query: string, table?: string): EncodedQuery {
+    return new Parser(query, table).parse();
+  }
+
+  /**
+   * Top-level conditions of every block (JOIN and RLQUERY sub-queries excluded)
+   */
+  get conditions(): QueryCondition[] {
+    return this.blocks
+      .flat()
+      .filter((node): node is QueryCondition => node instanceof QueryCondition);
+  }
+
+  get orderBy(): OrderByClause[] {
+    return this.blocks
+      .flat()
+      .filter((node): node is OrderByClause => node instanceof OrderByClause);
+  }
+
+  isEmpty(): boolean {
+    return this.blocks.every((block) => block.length === 0) && !this.terminated;
+  }
+
+  /**
+   * AND this query with another one. ^NQ blocks are distributed
+   * ((A1 NQ A2) AND B = A1^B NQ A2^B) so a ^NQ in either side cannot escape
+   * the other's conditions; ORDERBY clauses move to the end.
+   */
+  and(other: EncodedQuery | string): EncodedQuery {
+    const right = typeof other === "string" ? EncodedQuery.parse(other) : other;
+    const filters = (query: EncodedQuery) =>
+      query.blocks
+        .map((block) =>
+          block.filter((node) => !(node instanceof OrderByClause)),
+        )
+        .filter((block) => block.length > 0);
+
+    const leftBlocks = filters(this);
+    const rightBlocks = filters(right);
+
+    let blocks: QueryNode[][];
+    if (leftBlocks.length === 0) {
+      blocks = rightBlocks;
+    } else if (rightBlocks.length === 0) {
+      blocks = leftBlocks;
+    } else {
+      blocks = leftBlocks.flatMap((l) => rightBlocks.map((r) => [...l, ...r]));
+    }
+    if (blocks.length === 0) {
+      blocks = [[]];
+    }
+
+    blocks[blocks.length - 1].push(...this.orderBy, ...right.orderBy);
+
+    return new EncodedQuery(blocks, this.terminated || right.terminated);
+  }
+
+  toString(): string {
+    const query = this.blocks
+      .map((block) => block.map(nodeText).join("^"))
+      .join("^NQ");
+
+    if (!this.terminated) {
+      return query;
+    }
+    return query ? `${query}^EQ` : "EQ";
+  }
+}
+
+export function parseEncodedQuery(query: string, table?: string): EncodedQuery {
+  return EncodedQuery.parse(query, table);
+}
+
+/**
+ * AND several encoded queries together, ignoring empty ones
+ */
+export function mergeEncodedQueries(...queries: string[]): string {
+  return queries
+    .filter((query) => query)
+    .reduce(
+      (merged, query) => merged.and(EncodedQuery.parse(query)),
+      new EncodedQuery(),
+    )
+    .toString();
+}
+
+export interface QueryLintIssue {
+  severity: "error" | "warning";
+  message: string;
+  position?: number;
+}
+
+export interface QueryLintOptions {
+  table?: string;
+  fields?: string[]; // known field names; enables unknown field warnings
+}
+
+const VALUELESS_OPERATORS = new Set([
+  "ISEMPTY",
+  "ISNOTEMPTY",
+  "ANYTHING",
+  "EMPTYSTRING",
+  "VALCHANGES",
+]);
+
+/**
+ * Check an encoded query for syntax errors and common mistakes
+ */
+export function lintEncodedQuery(
+  query: string,
+  options: QueryLintOptions = {},
+): QueryLintIssue[] {
+  let parsed: EncodedQuery;
+  try {
+    parsed = EncodedQuery.parse(query, options.table);
+  } catch (error: unknown) {
+    if (error instanceof EncodedQueryParseError) {
+      return [
+        { severity: "error", message: error.message, position: error.position },
+      ];
+    }
+    throw error;
+  }
+
+  const issues: QueryLintIssue[] = [];
+  const known = options.fields ? new Set(options.fields) : undefined;
+  const warn = (message: string) =>
+    issues.push({ severity: "warning", message });
+
+  parsed.blocks.forEach((block, index) => {
+    const seen = new Set<string>();
+    let ordered = false;
+
+    for (const node of block) {
+      if (node instanceof OrderByClause) {
+        ordered = true;
+        if (known && !known.has(node.field.split(".")[0])) {
+          warn(`Unknown field "${node.field}" in ${node.generate()}`);
+        }
+        continue;
+      }
+
+      if (ordered) {
+        warn(`"${nodeText(node)}" follows an ORDERBY clause`);
+      }
+
+      if (!(node instanceof QueryCondition)) {
+        continue;
+      }
+
+      const text = node.generate();
+      if (seen.has(text)) {
+        warn(`Duplicate condition "${text}" in query block ${index + 1}`);
+      }
+      seen.add(text);
+
+      for (const condition of [node, ...node.orConditions]) {
+        const { name, operator } = condition;
+        const value = String(condition.value);
+        const label = `${name}${operator}${value}`;
+
+        if (
+          known &&
+          !/^[A-Z0-9]/.test(name) &&
+          !known.has(name.split(".")[0])
+        ) {
+          warn(`Unknown field "${name}" in "${label}"`);
+        }
+        if (operator === "BETWEEN" && value.split("@").length !== 2) {
+          issues.push({
+            severity: "error",
+            message: `BETWEEN expects <from>@<to> in "${label}"`,
+          });
+        }
+        if (operator === "DYNAMIC" && !/^[0-9a-f]{32}$/.test(value)) {
+          warn(`DYNAMIC expects a dynamic filter sys_id in "${label}"`);
+        }
+        if (
+          (operator === "IN" || operator === "NOT IN") &&
+          value.split(",").some((item) => item === "")
+        ) {
+          warn(`Empty item in ${operator} list "${label}"`);
+        }
+        if (VALUELESS_OPERATORS.has(operator) && value !== "") {
+          warn(`${operator} does not take a value in "${label}"`);
+        }
+        if (
+          value.startsWith("javascript:") &&
+          !value.startsWith("javascript:gs.")
+        ) {
+          warn(`Script value outside GlideSystem helpers in "${label}"`);
+        }
+      }
+    }
+  });
+
+  return issues;
+}
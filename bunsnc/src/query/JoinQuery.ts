@@ -21,6 +21,18 @@ export class JoinQuery extends Query {
     this._joinTableField = joinTableField;
   }
 
+  get joinTable(): string {
+    return this._joinTable;
+  }
+
+  get primaryField(): string {
+    return this._primaryField || "sys_id";
+  }
+
+  get joinTableField(): string {
+    return this._joinTableField || "sys_id";
+  }
+
   /**
    * Generate ServiceNow JOIN query string
    */
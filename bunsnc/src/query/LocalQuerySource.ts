@@ -0,0 +1,207 @@
+/**
+ * Local query sources - serve GlideRecord queries from in-memory fixtures or the
+ * MongoDB ticket mirror through the same interface as client.serviceNow
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ *   const gr = new GlideRecord({ serviceNow: new MemoryQuerySource({ incident }) }, "incident");
+ */
+import type { Collection } from "mongodb";
+import { EncodedQuery } from "./EncodedQuery";
+import { QueryCompiler, type QueryCompilerOptions } from "./QueryCompiler";
+import type { ServiceNowRecord } from "../types/servicenow";
+
+export interface LocalQueryOptions {
+  table: string;
+  filter?: string;
+  query?: string; // GlideRecord passes the encoded query as "query"
+  fields?: string[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface MongoQuerySourceOptions extends QueryCompilerOptions {
+  tableField?: string; // document field holding the table name, for collections mixing tables
+}
+
+function encodedQuery(options: LocalQueryOptions): EncodedQuery {
+  return EncodedQuery.parse(
+    options.filter ?? options.query ?? "",
+    options.table,
+  );
+}
+
+function project(
+  record: ServiceNowRecord,
+  fields?: string[],
+): ServiceNowRecord {
+  if (!fields || fields.length === 0) {
+    return { ...record };
+  }
+  const projected: ServiceNowRecord = {};
+  for (const field of fields) {
+    if (field in record) {
+      projected[field] = record[field];
+    }
+  }
+  return projected;
+}
+
+/**
+ * Fixture-backed source supporting query, CRUD and record counts
+ */
+export class MemoryQuerySource {
+  private tables: Map<string, ServiceNowRecord[]>;
+  private compiler: QueryCompiler;
+
+  constructor(
+    fixtures: Record<string, ServiceNowRecord[]> = {},
+    options: QueryCompilerOptions = {},
+  ) {
+    this.tables = new Map(
+      Object.entries(fixtures).map(([table, records]) => [
+        table,
+        records.map((record) => ({ ...record })),
+      ]),
+    );
+    this.compiler = new QueryCompiler(options);
+  }
+
+  records(table: string): ServiceNowRecord[] {
+    if (!this.tables.has(table)) {
+      this.tables.set(table, []);
+    }
+    return this.tables.get(table)!;
+  }
+
+  async query(options: LocalQueryOptions): Promise<ServiceNowRecord[]> {
+    const query = encodedQuery(options);
+    let rows = this.records(options.table).filter(
+      this.compiler.toPredicate(query),
+    );
+
+    const comparator = this.compiler.toComparator(query);
+    if (comparator) {
+      rows = [...rows].sort(comparator);
+    }
+
+    const offset = options.offset || 0;
+    const end = options.limit ? offset + options.limit : undefined;
+    return rows.slice(offset, end).map((row) => project(row, options.fields));
+  }
+
+  async queryStats(
+    table: string,
+    params: Record<string, any>,
+  ): Promise<{ stats: { count: string } }> {
+    const rows = await this.query({ table, filter: params.sysparm_query });
+    return { stats: { count: String(rows.length) } };
+  }
+
+  async read(table: string, sysId: string): Promise<ServiceNowRecord | null> {
+    const record = this.records(table).find((row) => row.sys_id === sysId);
+    return record ? { ...record } : null;
+  }
+
+  async create(
+    table: string,
+    data: ServiceNowRecord,
+  ): Promise<ServiceNowRecord> {
+    const record = {
+      ...data,
+      sys_id: data.sys_id || crypto.randomUUID().replace(/-/g, ""),
+    };
+    this.records(table).push(record);
+    return { ...record };
+  }
+
+  async update(
+    table: string,
+    sysId: string,
+    data: ServiceNowRecord,
+  ): Promise<ServiceNowRecord> {
+    const record = this.records(table).find((row) => row.sys_id === sysId);
+    if (!record) {
+      throw new Error(`Record ${sysId} not found in ${table}`);
+    }
+    Object.assign(record, data);
+    return { ...record };
+  }
+
+  async delete(table: string, sysId: string): Promise<boolean> {
+    const records = this.records(table);
+    const index = records.findIndex((row) => row.sys_id === sysId);
+    if (index < 0) {
+      return false;
+    }
+    records.splice(index, 1);
+    return true;
+  }
+}
+
+/**
+ * Read-only source over a MongoDB collection such as the tickets mirror
+ */
+export class MongoQuerySource {
+  private collection: Collection<any>;
+  private compiler: QueryCompiler;
+  private tableField?: string;
+
+  constructor(
+    collection: Collection<any>,
+    options: MongoQuerySourceOptions = {},
+  ) {
+    this.collection = collection;
+    this.compiler = new QueryCompiler(options);
+    this.tableField = options.tableField;
+  }
+
+  filter(options: LocalQueryOptions): Record<string, any> {
+    const filter = this.compiler.toMongoFilter(encodedQuery(options));
+    if (!this.tableField) {
+      return filter;
+    }
+
+    const table = { [this.tableField]: options.table };
+    return Object.keys(filter).length > 0 ? { $and: [table, filter] } : table;
+  }
+
+  async query(options: LocalQueryOptions): Promise<ServiceNowRecord[]> {
+    const query = encodedQuery(options);
+    let cursor = this.collection
+      .find(this.filter(options))
+      .sort(this.compiler.toMongoSort(query));
+
+    if (options.offset) {
+      cursor = cursor.skip(options.offset);
+    }
+    if (options.limit) {
+      cursor = cursor.limit(options.limit);
+    }
+    if (options.fields && options.fields.length > 0) {
+      cursor = cursor.project(
+        Object.fromEntries(options.fields.map((field) => [field, 1])),
+      );
+    }
+
+    return (await cursor.toArray()) as ServiceNowRecord[];
+  }
+
+  async queryStats(
+    table: string,
+    params: Record<string, any>,
+  ): Promise<{ stats: { count: string } }> {
+    const count = await this.collection.countDocuments(
+      this.filter({ table, filter: params.sysparm_query }),
+    );
+    return { stats: { count: String(count) } };
+  }
+
+  async read(table: string, sysId: string): Promise<ServiceNowRecord | null> {
+    const [record] = await this.query({
+      table,
+      filter: `sys_id=${sysId}`,
+      limit: 1,
+    });
+    return record || null;
+  }
+}
@@ -13,6 +13,18 @@ export class Query {
     this._table = table;
   }
 
+  get table(): string | undefined {
+    return this._table;
+  }
+
+  get conditions(): QueryCondition[] {
+    return [...this.__conditions];
+  }
+
+  get subQueries(): Query[] {
+    return [...this.__subQuery];
+  }
+
   /**
    * Add an active=true query condition
    */
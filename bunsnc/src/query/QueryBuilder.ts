@@ -7,6 +7,7 @@ import { QueryCondition } from "./QueryCondition";
 import { OrCondition } from "./OrCondition";
 import { JoinQuery } from "./JoinQuery";
 import { RLQuery } from "./RLQuery";
+import { EncodedQuery } from "./EncodedQuery";
 
 export interface IQueryBuilder {
   addQuery(field: string, operator: string, value?: any): QueryCondition;
@@ -138,6 +139,13 @@ export class QueryBuilder implements IQueryBuilder {
     return this.query.generateQuery(this.encodedQuery, this.orderByClause);
   }
 
+  /**
+   * Parse the generated query into an EncodedQuery AST for inspection or merging
+   */
+  toEncodedQuery(): EncodedQuery {
+    return EncodedQuery.parse(this.generateQuery(), this.query.table);
+  }
+
   /**
    * Reset the query builder
    */
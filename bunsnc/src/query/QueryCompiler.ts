@@ -0,0 +1,667 @@
+/**
+ * QueryCompiler - Compiles encoded queries into MongoDB filters and in-memory predicates,
+ * so the same query runs against the instance, the local mirror and test fixtures
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { BaseCondition } from "./BaseCondition";
+import { QueryBuilder } from "./QueryBuilder";
+import { QueryCondition } from "./QueryCondition";
+import { EncodedQuery, OrderByClause, type QueryNode } from "./EncodedQuery";
+
+export type QueryFieldType = "string" | "number" | "boolean" | "date";
+
+export interface QueryCompilerOptions {
+  fieldTypes?: Record<string, QueryFieldType>; // how Mongo filter values are typed (default string)
+  fieldMap?: Record<string, string>; // ServiceNow field -> document path
+  now?: () => Date; // clock for javascript:gs.* and RELATIVE operators
+}
+
+export type QueryInput = string | QueryBuilder | EncodedQuery;
+export type RecordPredicate = (record: Record<string, any>) => boolean;
+export type RecordComparator = (
+  a: Record<string, any>,
+  b: Record<string, any>,
+) => number;
+
+export class UnsupportedQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedQueryError";
+  }
+}
+
+type Operand = string | Date;
+type Ordering = "eq" | "ne" | "gt" | "gte" | "lt" | "lte";
+
+/**
+ * Operator-independent form of a condition, rendered to Mongo or JavaScript
+ */
+type Comparison =
+  | { kind: "compare"; field: string; op: Ordering; value: Operand }
+  | { kind: "in"; field: string; values: string[]; negate: boolean }
+  | { kind: "empty"; field: string; negate: boolean }
+  | { kind: "match"; field: string; pattern: RegExp; negate: boolean }
+  | {
+      kind: "range";
+      field: string;
+      from: Operand;
+      to: Operand;
+      negate: boolean;
+    }
+  | { kind: "field"; field: string; other: string; op: Ordering }
+  | { kind: "any" };
+
+const MONGO_ORDERING: Record<Ordering, string> = {
+  eq: "$eq",
+  ne: "$ne",
+  gt: "$gt",
+  gte: "$gte",
+  lt: "$lt",
+  lte: "$lte",
+};
+
+const FIELD_OPERATORS: Record<string, Ordering> = {
+  SAMEAS: "eq",
+  NSAMEAS: "ne",
+  GT_FIELD: "gt",
+  LT_FIELD: "lt",
+  GT_OR_EQUALS_FIELD: "gte",
+  LT_OR_EQUALS_FIELD: "lte",
+};
+
+const RELATIVE_OPERATORS: Record<string, Ordering> = {
+  RELATIVEGT: "gt",
+  RELATIVEGE: "gte",
+  RELATIVELT: "lt",
+  RELATIVELE: "lte",
+};
+
+const MS_PER_UNIT: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+const DAY_MS = MS_PER_UNIT.day;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * ServiceNow date/time values ("2025-01-31 10:00:00") are UTC
+ */
+function parseDate(value: unknown): Date | undefined {
+  if (value instanceof Date) {
+    return value;
+  }
+  if (typeof value !== "string" || value === "") {
+    return undefined;
+  }
+  const match = /^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2}:\d{2}))?$/.exec(value);
+  const date = match
+    ? new Date(`${match[1]}T${match[2] || "00:00:00"}Z`)
+    : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Values may be plain or { value, display_value } as returned with sysparm_display_value=all
+ */
+function unwrap(value: any): any {
+  if (
+    value !== null &&
+    typeof value === "object" &&
+    !(value instanceof Date) &&
+    "value" in value
+  ) {
+    return value.value;
+  }
+  return value;
+}
+
+function readPath(record: Record<string, any>, path: string): any {
+  if (path in record) {
+    return unwrap(record[path]);
+  }
+  let current: any = record;
+  for (const part of path.split(".")) {
+    current = unwrap(current);
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+    current = current[part];
+  }
+  return unwrap(current);
+}
+
+function isEmpty(value: any): boolean {
+  return value === null || value === undefined || value === "";
+}
+
+export class QueryCompiler {
+  private options: QueryCompilerOptions;
+
+  constructor(options: QueryCompilerOptions = {}) {
+    this.options = options;
+  }
+
+  static parse(query: QueryInput): EncodedQuery {
+    if (query instanceof EncodedQuery) {
+      return query;
+    }
+    if (query instanceof QueryBuilder) {
+      return query.toEncodedQuery();
+    }
+    return EncodedQuery.parse(query);
+  }
+
+  /**
+   * MongoDB filter: ^NQ blocks become $or, conditions in a block $and, ^OR groups $or
+   */
+  toMongoFilter(query: QueryInput): Record<string, any> {
+    const blocks = this.comparisonBlocks(QueryCompiler.parse(query)).map(
+      (block) =>
+        this.combine(
+          "$and",
+          block.map((group) =>
+            this.combine(
+              "$or",
+              group.map((comparison) => this.mongoComparison(comparison)),
+            ),
+          ),
+        ),
+    );
+
+    return this.combine("$or", blocks);
+  }
+
+  toMongoSort(query: QueryInput): Record<string, 1 | -1> {
+    const sort: Record<string, 1 | -1> = {};
+    for (const clause of this.orderClauses(query)) {
+      sort[this.path(clause.field)] = clause.descending ? -1 : 1;
+    }
+    return sort;
+  }
+
+  /**
+   * JavaScript predicate over plain or display_value=all records
+   */
+  toPredicate(query: QueryInput): RecordPredicate {
+    const blocks = this.comparisonBlocks(QueryCompiler.parse(query));
+
+    return (record) =>
+      blocks.length === 0 ||
+      blocks.some((block) =>
+        block.every((group) =>
+          group.some((comparison) => this.evaluate(comparison, record)),
+        ),
+      );
+  }
+
+  /**
+   * Comparator for the ORDERBY clauses, undefined when the query has none
+   */
+  toComparator(query: QueryInput): RecordComparator | undefined {
+    const clauses = this.orderClauses(query);
+    if (clauses.length === 0) {
+      return undefined;
+    }
+
+    return (a, b) => {
+      for (const clause of clauses) {
+        const path = this.path(clause.field);
+        const result = this.compareValues(
+          readPath(a, path),
+          readPath(b, path),
+          clause.field,
+        );
+        if (result !== 0) {
+          return clause.descending ? -result : result;
+        }
+      }
+      return 0;
+    };
+  }
+
+  /**
+   * A later clause on the same field wins, as orderByDesc() emits ORDERBYx^ORDERBYDESCx
+   */
+  private orderClauses(query: QueryInput): OrderByClause[] {
+    const clauses = new Map<string, OrderByClause>();
+    for (const clause of QueryCompiler.parse(query).orderBy) {
+      clauses.set(clause.field, clause);
+    }
+    return [...clauses.values()];
+  }
+
+  private comparisonBlocks(query: EncodedQuery): Comparison[][][] {
+    return query.blocks
+      .map((block) =>
+        block
+          .filter((node) => !(node instanceof OrderByClause))
+          .map((node) => this.conditionGroup(node)),
+      )
+      .filter((block) => block.length > 0);
+  }
+
+  private conditionGroup(node: QueryNode): Comparison[] {
+    if (!(node instanceof QueryCondition)) {
+      throw new UnsupportedQueryError(
+        `JOIN and RLQUERY cannot be evaluated locally: ${(node as any).generateQuery()}`,
+      );
+    }
+    return [node, ...node.orConditions].map((condition) =>
+      this.comparison(condition),
+    );
+  }
+
+  private comparison(condition: BaseCondition): Comparison {
+    const field = condition.name;
+    const operator = condition.operator;
+    const value = String(condition.value ?? "");
+
+    switch (operator) {
+      case "=":
+        return value === ""
+          ? { kind: "empty", field, negate: false }
+          : { kind: "compare", field, op: "eq", value: this.operand(value) };
+      case "!=":
+        return value === ""
+          ? { kind: "empty", field, negate: true }
+          : { kind: "compare", field, op: "ne", value: this.operand(value) };
+      case ">":
+        return { kind: "compare", field, op: "gt", value: this.operand(value) };
+      case ">=":
+        return {
+          kind: "compare",
+          field,
+          op: "gte",
+          value: this.operand(value),
+        };
+      case "<":
+        return { kind: "compare", field, op: "lt", value: this.operand(value) };
+      case "<=":
+        return {
+          kind: "compare",
+          field,
+          op: "lte",
+          value: this.operand(value),
+        };
+      case "IN":
+      case "NOT IN":
+        return {
+          kind: "in",
+          field,
+          values: value.split(","),
+          negate: operator === "NOT IN",
+        };
+      case "ISEMPTY":
+        return { kind: "empty", field, negate: false };
+      case "ISNOTEMPTY":
+        return { kind: "empty", field, negate: true };
+      case "EMPTYSTRING":
+        return { kind: "compare", field, op: "eq", value: "" };
+      case "ANYTHING":
+        return { kind: "any" };
+      case "STARTSWITH":
+        return this.match(field, `^${escapeRegExp(value)}`, false);
+      case "ENDSWITH":
+        return this.match(field, `${escapeRegExp(value)}$`, false);
+      case "LIKE":
+      case "CONTAINS":
+        return this.match(field, escapeRegExp(value), false);
+      case "NOT LIKE":
+      case "DOES NOT CONTAIN":
+        return this.match(field, escapeRegExp(value), true);
+      case "BETWEEN": {
+        const [from, to] = value.split("@");
+        return {
+          kind: "range",
+          field,
+          from: this.operand(from),
+          to: this.operand(to),
+          negate: false,
+        };
+      }
+      case "ON":
+      case "NOTON": {
+        // <label>@<start script>@<end script>
+        const [, from, to] = value.split("@");
+        if (!from || !to) {
+          throw new UnsupportedQueryError(
+            `${operator} expects <label>@<start>@<end>: ${field}${operator}${value}`,
+          );
+        }
+        return {
+          kind: "range",
+          field,
+          from: this.operand(from),
+          to: this.operand(to),
+          negate: operator === "NOTON",
+        };
+      }
+    }
+
+    if (operator in FIELD_OPERATORS) {
+      return {
+        kind: "field",
+        field,
+        other: value,
+        op: FIELD_OPERATORS[operator],
+      };
+    }
+
+    if (operator in RELATIVE_OPERATORS) {
+      return {
+        kind: "compare",
+        field,
+        op: RELATIVE_OPERATORS[operator],
+        value: this.relativeDate(value, `${field}${operator}${value}`),
+      };
+    }
+
+    throw new UnsupportedQueryError(
+      `Operator ${operator} cannot be evaluated locally: ${field}${operator}${value}`,
+    );
+  }
+
+  private match(field: string, source: string, negate: boolean): Comparison {
+    return { kind: "match", field, pattern: new RegExp(source, "i"), negate };
+  }
+
+  /**
+   * @<unit>@ago|ahead@<count>
+   */
+  private relativeDate(value: string, condition: string): Date {
+    const [, unit, direction, count] = value.split("@");
+    const amount = Number(count);
+    const sign =
+      direction === "ago" ? -1 : direction === "ahead" ? 1 : undefined;
+
+    if (!sign || isNaN(amount)) {
+      throw new UnsupportedQueryError(`Invalid relative date: ${condition}`);
+    }
+
+    const date = new Date(this.now().getTime());
+    if (unit === "month") {
+      date.setUTCMonth(date.getUTCMonth() + sign * amount);
+    } else if (unit === "year") {
+      date.setUTCFullYear(date.getUTCFullYear() + sign * amount);
+    } else if (MS_PER_UNIT[unit]) {
+      date.setTime(date.getTime() + sign * amount * MS_PER_UNIT[unit]);
+    } else {
+      throw new UnsupportedQueryError(`Unknown relative unit: ${condition}`);
+    }
+    return date;
+  }
+
+  /**
+   * Literal values stay strings; GlideSystem date helpers are evaluated
+   */
+  private operand(value: string): Operand {
+    if (!value.startsWith("javascript:")) {
+      return value;
+    }
+
+    const script = value.slice("javascript:".length).replace(/;$/, "").trim();
+    const call = /^gs\.(\w+)\((.*)\)$/.exec(script);
+    if (!call) {
+      throw new UnsupportedQueryError(`Unsupported script value: ${value}`);
+    }
+
+    const [, fn, rawArgs] = call;
+    const args = rawArgs
+      .split(",")
+      .map((arg) => arg.trim().replace(/^['"]|['"]$/g, ""))
+      .filter((arg) => arg !== "");
+    const now = this.now().getTime();
+    const startOfDay = (daysAgo: number) =>
+      new Date(Math.floor(now / DAY_MS) * DAY_MS - daysAgo * DAY_MS);
+    const endOfDay = (daysAgo: number) =>
+      new Date(startOfDay(daysAgo).getTime() + DAY_MS - 1000);
+
+    switch (fn) {
+      case "now":
+      case "nowDateTime":
+        return new Date(now);
+      case "daysAgo":
+        return new Date(now - Number(args[0] ?? 0) * DAY_MS);
+      case "daysAgoStart":
+        return startOfDay(Number(args[0] ?? 0));
+      case "daysAgoEnd":
+        return endOfDay(Number(args[0] ?? 0));
+      case "hoursAgo":
+        return new Date(now - Number(args[0] ?? 0) * MS_PER_UNIT.hour);
+      case "minutesAgo":
+        return new Date(now - Number(args[0] ?? 0) * MS_PER_UNIT.minute);
+      case "beginningOfToday":
+        return startOfDay(0);
+      case "endOfToday":
+        return endOfDay(0);
+      case "beginningOfYesterday":
+        return startOfDay(1);
+      case "endOfYesterday":
+        return endOfDay(1);
+      case "dateGenerate": {
+        const [date, time = "00:00:00"] = args;
+        const clock =
+          time === "start" ? "00:00:00" : time === "end" ? "23:59:59" : time;
+        const generated = parseDate(`${date} ${clock}`);
+        if (generated) {
+          return generated;
+        }
+        break;
+      }
+    }
+
+    throw new UnsupportedQueryError(`Unsupported script value: ${value}`);
+  }
+
+  private now(): Date {
+    return this.options.now ? this.options.now() : new Date();
+  }
+
+  private path(field: string): string {
+    return this.options.fieldMap?.[field] ?? field;
+  }
+
+  /**
+   * Type a filter value for Mongo using the configured field type
+   */
+  private mongoValue(field: string, value: Operand): any {
+    const type = this.options.fieldTypes?.[field];
+    if (value instanceof Date) {
+      return type === "string" ? value.toISOString() : value;
+    }
+
+    switch (type) {
+      case "number":
+        return Number(value);
+      case "boolean":
+        return value === "true";
+      case "date":
+        return parseDate(value) ?? value;
+      default:
+        return value;
+    }
+  }
+
+  private mongoComparison(comparison: Comparison): Record<string, any> {
+    if (comparison.kind === "any") {
+      return {};
+    }
+
+    const path = this.path(comparison.field);
+    const typed = (value: Operand) => this.mongoValue(comparison.field, value);
+
+    switch (comparison.kind) {
+      case "compare":
+        return comparison.op === "eq"
+          ? { [path]: typed(comparison.value) }
+          : {
+              [path]: {
+                [MONGO_ORDERING[comparison.op]]: typed(comparison.value),
+              },
+            };
+      case "in":
+        return {
+          [path]: {
+            [comparison.negate ? "$nin" : "$in"]: comparison.values.map(typed),
+          },
+        };
+      case "empty":
+        return {
+          [path]: { [comparison.negate ? "$nin" : "$in"]: [null, ""] },
+        };
+      case "match":
+        return {
+          [path]: comparison.negate
+            ? { $not: comparison.pattern }
+            : comparison.pattern,
+        };
+      case "range": {
+        const range = {
+          $gte: typed(comparison.from),
+          $lte: typed(comparison.to),
+        };
+        return { [path]: comparison.negate ? { $not: range } : range };
+      }
+      case "field":
+        return {
+          $expr: {
+            [MONGO_ORDERING[comparison.op]]: [
+              `$${path}`,
+              `$${this.path(comparison.other)}`,
+            ],
+          },
+        };
+    }
+  }
+
+  private combine(
+    operator: "$and" | "$or",
+    filters: Record<string, any>[],
+  ): Record<string, any> {
+    const meaningful = filters.filter(
+      (filter) => Object.keys(filter).length > 0,
+    );
+    if (operator === "$or" && meaningful.length < filters.length) {
+      return {}; // one branch matches everything
+    }
+    if (meaningful.length === 0) {
+      return {};
+    }
+    return meaningful.length === 1 ? meaningful[0] : { [operator]: meaningful };
+  }
+
+  private evaluate(
+    comparison: Comparison,
+    record: Record<string, any>,
+  ): boolean {
+    if (comparison.kind === "any") {
+      return true;
+    }
+
+    const value = readPath(record, this.path(comparison.field));
+
+    switch (comparison.kind) {
+      case "compare": {
+        if (isEmpty(value)) {
+          return comparison.op === "ne"
+            ? true
+            : comparison.op === "eq" && comparison.value === "";
+        }
+        const result = this.compareValues(
+          value,
+          comparison.value,
+          comparison.field,
+        );
+        return this.ordered(result, comparison.op);
+      }
+      case "in": {
+        const found =
+          !isEmpty(value) &&
+          comparison.values.some(
+            (item) => this.compareValues(value, item, comparison.field) === 0,
+          );
+        return comparison.negate ? !found : found;
+      }
+      case "empty":
+        return comparison.negate ? !isEmpty(value) : isEmpty(value);
+      case "match": {
+        const found = !isEmpty(value) && comparison.pattern.test(String(value));
+        return comparison.negate ? !found : found;
+      }
+      case "range": {
+        const inside =
+          !isEmpty(value) &&
+          this.compareValues(value, comparison.from, comparison.field) >= 0 &&
+          this.compareValues(value, comparison.to, comparison.field) <= 0;
+        return comparison.negate ? !inside : inside;
+      }
+      case "field": {
+        const other = readPath(record, this.path(comparison.other));
+        return this.ordered(
+          this.compareValues(value, other, comparison.field),
+          comparison.op,
+        );
+      }
+    }
+  }
+
+  private ordered(result: number, op: Ordering): boolean {
+    switch (op) {
+      case "eq":
+        return result === 0;
+      case "ne":
+        return result !== 0;
+      case "gt":
+        return result > 0;
+      case "gte":
+        return result >= 0;
+      case "lt":
+        return result < 0;
+      case "lte":
+        return result <= 0;
+    }
+  }
+
+  /**
+   * Compare a record value with an operand, coercing both to the field type
+   * (configured, or inferred from the record value)
+   */
+  private compareValues(left: any, right: any, field: string): number {
+    if (isEmpty(left) || isEmpty(right)) {
+      return isEmpty(left) === isEmpty(right) ? 0 : isEmpty(left) ? -1 : 1;
+    }
+
+    const type = this.options.fieldTypes?.[field];
+    const numeric = (value: any) =>
+      typeof value === "number" ||
+      (typeof value === "string" &&
+        value.trim() !== "" &&
+        !isNaN(Number(value)));
+
+    if (type === "date" || left instanceof Date || right instanceof Date) {
+      const a = parseDate(left)?.getTime();
+      const b = parseDate(right)?.getTime();
+      if (a !== undefined && b !== undefined) {
+        return Math.sign(a - b);
+      }
+    }
+
+    if (
+      type === "number" ||
+      (type !== "string" && numeric(left) && numeric(right))
+    ) {
+      return Math.sign(Number(left) - Number(right));
+    }
+
+    const a = String(left);
+    const b = String(right);
+    return a === b ? 0 : a < b ? -1 : 1;
+  }
+}
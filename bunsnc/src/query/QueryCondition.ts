@@ -12,6 +12,10 @@ export class QueryCondition extends BaseCondition {
     super(name, operator, value);
   }
 
+  get orConditions(): OrCondition[] {
+    return [...this.__subQuery];
+  }
+
   /**
    * Add an OR condition to this query condition
    */
@@ -24,6 +24,22 @@ export class RLQuery extends Query {
     this.stopAtRelationship = stopAtRelationship;
   }
 
+  get relatedTable(): string {
+    return this._relatedTable;
+  }
+
+  get relatedField(): string {
+    return this._relatedField;
+  }
+
+  get condition(): string {
+    return this.operatorCondition;
+  }
+
+  get stopsAtRelationship(): boolean {
+    return this.stopAtRelationship;
+  }
+
   /**
    * Generate ServiceNow Related List query string
    */
@@ -10,6 +10,33 @@ export { JoinQuery } from "./JoinQuery";
 export { RLQuery } from "./RLQuery";
 export { Query } from "./Query";
 export { QueryBuilder, type IQueryBuilder } from "./QueryBuilder";
+export {
+  EncodedQuery,
+  EncodedQueryParseError,
+  OrderByClause,
+  ENCODED_QUERY_OPERATORS,
+  parseEncodedQuery,
+  mergeEncodedQueries,
+  lintEncodedQuery,
+  type QueryNode,
+  type QueryLintIssue,
+  type QueryLintOptions,
+} from "./EncodedQuery";
+export {
+  QueryCompiler,
+  UnsupportedQueryError,
+  type QueryCompilerOptions,
+  type QueryFieldType,
+  type QueryInput,
+  type RecordPredicate,
+  type RecordComparator,
+} from "./QueryCompiler";
+export {
+  MemoryQuerySource,
+  MongoQuerySource,
+  type LocalQueryOptions,
+  type MongoQuerySourceOptions,
+} from "./LocalQuerySource";
 
 // Convenience factory functions
 export const createQuery = (table?: string) => new Query(table);
@@ -0,0 +1,389 @@
+/**
+ * GlideAggregate - ServiceNow aggregate queries backed by the Stats API (/api/now/stats/{table})
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { GlideElement } from "./GlideElement";
+import { QueryBuilder } from "../query/QueryBuilder";
+import { QueryCondition } from "../query/QueryCondition";
+import { OrCondition } from "../query/OrCondition";
+import { logger } from "../utils/Logger";
+
+export type AggregateType = "COUNT" | "SUM" | "AVG" | "MIN" | "MAX";
+
+export interface AggregateHaving {
+  aggregate: AggregateType;
+  field: string;
+  operator: string;
+  value: string | number;
+}
+
+export interface AggregateRow {
+  stats: Record<string, any>;
+  groupby_fields?: Array<{
+    field: string;
+    value: string;
+    display_value?: string;
+  }>;
+}
+
+export interface IGlideAggregate {
+  // Query Methods
+  query(): Promise<void>;
+  addQuery(field: string, operator: string, value?: any): QueryCondition;
+  addOrCondition(field: string, operator: string, value?: any): OrCondition;
+  addNullQuery(field: string): QueryCondition;
+  addNotNullQuery(field: string): QueryCondition;
+  addActiveQuery(): QueryCondition;
+  addEncodedQuery(query: string): void;
+
+  // Aggregate Methods
+  addAggregate(aggregate: AggregateType, field?: string): void;
+  groupBy(field: string): void;
+  orderBy(field: string): void;
+  orderByAggregate(
+    aggregate: AggregateType,
+    field?: string,
+    descending?: boolean,
+  ): void;
+  addHaving(
+    aggregate: AggregateType,
+    field: string,
+    operator: string,
+    value: string | number,
+  ): void;
+
+  // Navigation
+  next(): boolean;
+  hasNext(): boolean;
+  rewind(): void;
+
+  // Data Access
+  getAggregate(aggregate: AggregateType, field?: string): string | null;
+  getValue(field: string): any;
+  getDisplayValue(field: string): any;
+  getElement(field: string): GlideElement;
+  getRowCount(): number;
+  getEncodedQuery(): string;
+
+  // Iteration
+  [Symbol.iterator](): Iterator<GlideAggregate>;
+}
+
+const AGGREGATE_PARAMS: Record<Exclude<AggregateType, "COUNT">, string> = {
+  SUM: "sysparm_sum_fields",
+  AVG: "sysparm_avg_fields",
+  MIN: "sysparm_min_fields",
+  MAX: "sysparm_max_fields",
+};
+
+export class GlideAggregate implements IGlideAggregate {
+  private _client: any; // ServiceNowClient - will be injected
+  private _table: string;
+  private _queryBuilder: QueryBuilder;
+  private _count: boolean = false;
+  private _aggregateFields: Map<Exclude<AggregateType, "COUNT">, Set<string>> =
+    new Map();
+  private _groupBy: string[] = [];
+  private _orderBy: string[] = [];
+  private _having: AggregateHaving[] = [];
+  private _displayValue: boolean | string = false;
+  private _results: AggregateRow[] = [];
+  private _current: number = -1;
+  private _elements: Map<string, GlideElement> = new Map();
+
+  constructor(client: any, table: string) {
+    this._client = client;
+    this._table = table;
+    this._queryBuilder = new QueryBuilder(table);
+  }
+
+  // Properties
+  get table(): string {
+    return this._table;
+  }
+
+  get location(): number {
+    return this._current;
+  }
+
+  get displayValue(): boolean | string {
+    return this._displayValue;
+  }
+
+  set displayValue(displayValue: boolean | string) {
+    if (![true, false, "all"].includes(displayValue as any)) {
+      throw new Error("displayValue must be true, false, or 'all'");
+    }
+    this._displayValue = displayValue;
+  }
+
+  // Query Methods
+  addQuery(field: string, operator: string, value?: any): QueryCondition {
+    return this._queryBuilder.addQuery(field, operator, value);
+  }
+
+  addOrCondition(field: string, operator: string, value?: any): OrCondition {
+    return this._queryBuilder.addOrCondition(field, operator, value);
+  }
+
+  addNullQuery(field: string): QueryCondition {
+    return this._queryBuilder.addNullQuery(field);
+  }
+
+  addNotNullQuery(field: string): QueryCondition {
+    return this._queryBuilder.addNotNullQuery(field);
+  }
+
+  addActiveQuery(): QueryCondition {
+    return this._queryBuilder.addActiveQuery();
+  }
+
+  addEncodedQuery(query: string): void {
+    this._queryBuilder.addEncodedQuery(query);
+  }
+
+  getEncodedQuery(): string {
+    return this._queryBuilder.generateQuery();
+  }
+
+  // Aggregate Methods
+  addAggregate(aggregate: AggregateType, field?: string): void {
+    const type = this._normalizeAggregate(aggregate);
+
+    if (type === "COUNT") {
+      this._count = true;
+      return;
+    }
+
+    if (!field) {
+      throw new Error(`${type} aggregate requires a field`);
+    }
+
+    if (!this._aggregateFields.has(type)) {
+      this._aggregateFields.set(type, new Set());
+    }
+    this._aggregateFields.get(type)!.add(field);
+  }
+
+  groupBy(field: string): void {
+    if (!this._groupBy.includes(field)) {
+      this._groupBy.push(field);
+    }
+  }
+
+  orderBy(field: string): void {
+    this._orderBy.push(field);
+  }
+
+  /**
+   * Order grouped results by an aggregate value (e.g. COUNT, or AVG of a field)
+   */
+  orderByAggregate(
+    aggregate: AggregateType,
+    field?: string,
+    descending: boolean = false,
+  ): void {
+    const type = this._normalizeAggregate(aggregate);
+    const clause = type === "COUNT" || !field ? type : `${type}^${field}`;
+    this._orderBy.push(descending ? `${clause}^DESC` : clause);
+  }
+
+  /**
+   * Filter grouped results on an aggregate value (sysparm_having)
+   */
+  addHaving(
+    aggregate: AggregateType,
+    field: string,
+    operator: string,
+    value: string | number,
+  ): void {
+    this._having.push({
+      aggregate: this._normalizeAggregate(aggregate),
+      field,
+      operator,
+      value,
+    });
+  }
+
+  async query(): Promise<void> {
+    const params = this._buildParams();
+
+    const operation = logger.operation("aggregate", this._table, undefined, {
+      query: params.sysparm_query,
+      groupBy: params.sysparm_group_by,
+    });
+
+    try {
+      const result = await this._client.serviceNow.queryStats(
+        this._table,
+        params,
+      );
+
+      if (Array.isArray(result)) {
+        this._results = result;
+      } else if (result && result.stats) {
+        this._results = [result];
+      } else {
+        this._results = [];
+      }
+
+      this._current = -1;
+      this._elements.clear();
+
+      operation.success(`Aggregate completed: ${this._results.length} rows`, {
+        rowCount: this._results.length,
+      });
+    } catch (error: unknown) {
+      operation.error("Aggregate query failed", error as Error);
+      throw error;
+    }
+  }
+
+  // Navigation Methods
+  next(): boolean {
+    if (this._current + 1 < this._results.length) {
+      this._current++;
+      this._populateCurrentRow();
+      return true;
+    }
+    return false;
+  }
+
+  hasNext(): boolean {
+    return this._current + 1 < this._results.length;
+  }
+
+  rewind(): void {
+    this._current = -1;
+    this._elements.clear();
+  }
+
+  // Data Access Methods
+  /**
+   * Get an aggregate value for the current row, e.g. getAggregate("SUM", "reassignment_count")
+   */
+  getAggregate(aggregate: AggregateType, field?: string): string | null {
+    const row = this._currentRow();
+    if (!row) {
+      return null;
+    }
+
+    const type = this._normalizeAggregate(aggregate);
+    if (type === "COUNT") {
+      return row.stats.count ?? null;
+    }
+
+    if (!field) {
+      throw new Error(`${type} aggregate requires a field`);
+    }
+
+    const values = row.stats[type.toLowerCase()];
+    return values && field in values ? values[field] : null;
+  }
+
+  getValue(field: string): any {
+    return this.getElement(field).getValue();
+  }
+
+  getDisplayValue(field: string): any {
+    return this.getElement(field).getDisplayValue();
+  }
+
+  getElement(field: string): GlideElement {
+    if (this._elements.has(field)) {
+      return this._elements.get(field)!;
+    }
+    return new GlideElement(field, null, undefined, this);
+  }
+
+  getRowCount(): number {
+    return this._results.length;
+  }
+
+  // Iterator Implementation
+  [Symbol.iterator](): Iterator<GlideAggregate> {
+    const self = this;
+    self._current = -1;
+
+    return {
+      next(): IteratorResult<GlideAggregate> {
+        if (self.next()) {
+          return { value: self, done: false };
+        }
+        return { value: undefined as any, done: true };
+      },
+    };
+  }
+
+  // Private Methods
+  private _normalizeAggregate(aggregate: string): AggregateType {
+    const type = aggregate.toUpperCase();
+    if (!["COUNT", "SUM", "AVG", "MIN", "MAX"].includes(type)) {
+      throw new Error(`Unsupported aggregate type: ${aggregate}`);
+    }
+    return type as AggregateType;
+  }
+
+  private _buildParams(): Record<string, string> {
+    const params: Record<string, string> = {};
+
+    const query = this._queryBuilder.generateQuery();
+    if (query) {
+      params.sysparm_query = query;
+    }
+
+    // Grouped results without an explicit aggregate are useless, so count by default
+    if (this._count || this._aggregateFields.size === 0) {
+      params.sysparm_count = "true";
+    }
+
+    for (const [type, fields] of this._aggregateFields.entries()) {
+      params[AGGREGATE_PARAMS[type]] = Array.from(fields).join(",");
+    }
+
+    if (this._groupBy.length > 0) {
+      params.sysparm_group_by = this._groupBy.join(",");
+    }
+
+    if (this._orderBy.length > 0) {
+      params.sysparm_order_by = this._orderBy.join(",");
+    }
+
+    if (this._having.length > 0) {
+      params.sysparm_having = this._having
+        .map(
+          (h) =>
+            `${h.aggregate.toLowerCase()}^${h.field}^${h.operator}^${h.value}`,
+        )
+        .join(",");
+    }
+
+    if (this._displayValue !== false) {
+      params.sysparm_display_value = String(this._displayValue);
+    }
+
+    return params;
+  }
+
+  private _currentRow(): AggregateRow | undefined {
+    if (this._current >= 0 && this._current < this._results.length) {
+      return this._results[this._current];
+    }
+    return undefined;
+  }
+
+  private _populateCurrentRow(): void {
+    const row = this._currentRow();
+    this._elements.clear();
+    if (!row) {
+      return;
+    }
+
+    for (const group of row.groupby_fields || []) {
+      this._elements.set(
+        group.field,
+        new GlideElement(group.field, group.value, group.display_value, this),
+      );
+    }
+  }
+}
@@ -8,8 +8,65 @@ import { QueryCondition } from "../query/QueryCondition";
 import { OrCondition } from "../query/OrCondition";
 import { JoinQuery } from "../query/JoinQuery";
 import { RLQuery } from "../query/RLQuery";
+import { DictionaryLoader } from "../codegen/DictionaryLoader";
 import { logger } from "../utils/Logger";
 import type { ServiceNowRecord } from "../types/servicenow";
+import type { DictionarySnapshot } from "../types/servicenow/dictionary";
+
+export interface NewRecordOptions {
+  applyDefaults?: boolean; // apply literal sys_dictionary default values (default true)
+  preallocateSysId?: boolean; // generate the sys_id client-side before insert()
+  dictionary?: DictionarySnapshot; // offline dictionary instead of querying the instance
+}
+
+export type KeysetField = "sys_id" | "sys_updated_on";
+
+export interface StreamOptions {
+  keyset?: KeysetField; // cursor column (default sys_id)
+  pageSize?: number; // rows per request (default batch size)
+  highWaterMark?: number; // rows stream() buffers ahead of the reader (default page size)
+}
+
+const KEYSET_ORDER: Record<KeysetField, string> = {
+  sys_id: "ORDERBYsys_id",
+  sys_updated_on: "ORDERBYsys_updated_on^ORDERBYsys_id",
+};
+
+function rawValue(record: ServiceNowRecord, field: string): string {
+  const value = record[field];
+  if (value !== null && typeof value === "object") {
+    return String(value.value ?? "");
+  }
+  return value === null || value === undefined ? "" : String(value);
+}
+
+/**
+ * Split an encoded query into its ^NQ blocks without ORDERBY clauses,
+ * so keyset conditions can be appended to every block
+ */
+function filterBlocks(query: string): string[] {
+  return query.split("^NQ").map((block) =>
+    block
+      .split("^")
+      .filter((part) => part !== "" && !part.startsWith("ORDERBY"))
+      .join("^"),
+  );
+}
+
+function keysetQuery(
+  blocks: string[],
+  conditions: string[],
+  order: string,
+): string {
+  const query = blocks
+    .flatMap((block) =>
+      conditions.map((condition) =>
+        [block, condition].filter(Boolean).join("^"),
+      ),
+    )
+    .join("^NQ");
+  return query ? `${query}^${order}` : order;
+}
 
 export interface IGlideRecord {
   // Navigation
@@ -26,6 +83,7 @@ export interface IGlideRecord {
   delete(): Promise<boolean>;
   deleteMultiple(): Promise<boolean>;
   updateMultiple(): Promise<boolean>;
+  newRecord(options?: NewRecordOptions): Promise<void>;
 
   // Query Methods
   query(): Promise<void>;
@@ -48,6 +106,7 @@ export interface IGlideRecord {
   addEncodedQuery(query: string): void;
   orderBy(field: string): void;
   orderByDesc(field: string): void;
+  chooseWindow(firstRow: number, lastRow: number, forceCount?: boolean): void;
 
   // Data Access
   getValue(field: string): any;
@@ -63,12 +122,18 @@ export interface IGlideRecord {
   getRowCount(): number;
   getEncodedQuery(): string;
   getLink(): string;
+  isValidRecord(): boolean;
+  getRecordClassName(): string;
+  getClassDisplayValue(): string;
+  setNewGuidValue(value: string): void;
 
   // Bulk Operations
   setBulkUpdateValue(field: string, value: any): void;
 
   // Iteration
   [Symbol.iterator](): Iterator<GlideRecord>;
+  [Symbol.asyncIterator](): AsyncIterator<GlideRecord>;
+  stream(options?: StreamOptions): ReadableStream<ServiceNowRecord>;
 }
 
 export class GlideRecord implements IGlideRecord {
@@ -95,6 +160,12 @@ export class GlideRecord implements IGlideRecord {
   private _currentOffset: number = 0;
   private _hasMorePages: boolean = true;
   private _isPaginating: boolean = false;
+  private _windowStart?: number;
+  private _windowEnd?: number;
+  private _forceCount: boolean = false;
+
+  private static _defaultsCache: Map<string, Record<string, string>> =
+    new Map();
 
   constructor(
     client: any,
@@ -501,13 +572,20 @@ export class GlideRecord implements IGlideRecord {
       this._page++;
 
       // Update pagination state based on results
-      if (this._results.length < this._batchSize) {
+      if (
+        this._results.length < this._batchSize ||
+        this._isWindowExhausted(this._results.length)
+      ) {
         this._hasMorePages = false;
         this._total = this._results.length;
       } else {
         // More data might be available
         this._total = this._limit || this._results.length + this._batchSize;
       }
+
+      if (this._forceCount && this._windowEnd !== undefined) {
+        this._total = await this._countWindow();
+      }
     } catch (error: unknown) {
       console.error("Error in query:", error);
       throw error;
@@ -574,6 +652,26 @@ export class GlideRecord implements IGlideRecord {
     this._order = `ORDERBYDESC${field}`;
   }
 
+  /**
+   * Limit the query to rows [firstRow, lastRow) - first row inclusive, last row exclusive.
+   * With forceCount the row count reflects the real number of rows inside the window.
+   */
+  chooseWindow(
+    firstRow: number,
+    lastRow: number,
+    forceCount: boolean = true,
+  ): void {
+    if (firstRow < 0 || lastRow <= firstRow) {
+      throw new Error(
+        "Invalid window: lastRow must be greater than firstRow and firstRow must not be negative",
+      );
+    }
+    this._windowStart = firstRow;
+    this._windowEnd = lastRow;
+    this._limit = lastRow - firstRow;
+    this._forceCount = forceCount;
+  }
+
   // Data Access Methods
   getValue(field: string): any {
     const element = this.getElement(field);
@@ -669,6 +767,76 @@ export class GlideRecord implements IGlideRecord {
     return "";
   }
 
+  /**
+   * Whether the cursor points at a record that exists (or is being created)
+   */
+  isValidRecord(): boolean {
+    if (this._current < 0 || this._current >= this._results.length) {
+      return false;
+    }
+    return this._isNewRecord || !!this.getValue("sys_id");
+  }
+
+  /**
+   * Concrete class of the current record - e.g. "incident" when querying "task"
+   */
+  getRecordClassName(): string {
+    if (this.isValidRecord()) {
+      const className = this.getValue("sys_class_name");
+      if (className) {
+        return className;
+      }
+    }
+    return this._table;
+  }
+
+  getClassDisplayValue(): string {
+    if (this.isValidRecord()) {
+      const displayValue = this.getDisplayValue("sys_class_name");
+      if (displayValue) {
+        return displayValue;
+      }
+    }
+    return this.getRecordClassName();
+  }
+
+  /**
+   * Set the sys_id of a new record before insert (32 character GUID)
+   */
+  setNewGuidValue(value: string): void {
+    const guid = String(value);
+    if (!/^[0-9a-f]{32}$/i.test(guid)) {
+      throw new Error("GUID must be a 32 character hexadecimal string");
+    }
+    this.setValue("sys_id", guid.toLowerCase());
+  }
+
+  /**
+   * Start a new record at the end of the result set, pre-populated with the
+   * literal default values from sys_dictionary. Script defaults (javascript:...)
+   * are left for the instance to evaluate on insert.
+   */
+  async newRecord(options: NewRecordOptions = {}): Promise<void> {
+    const defaults =
+      options.applyDefaults === false
+        ? {}
+        : await this._loadDictionaryDefaults(options.dictionary);
+
+    this._results.push({});
+    this._current = this._results.length - 1;
+    this._total = Math.max(this._total || 0, this._results.length);
+    this._isNewRecord = true;
+    this._elements.clear();
+
+    for (const [field, value] of Object.entries(defaults)) {
+      this.setValue(field, value);
+    }
+
+    if (options.preallocateSysId) {
+      this.setNewGuidValue(crypto.randomUUID().replace(/-/g, ""));
+    }
+  }
+
   // Iterator Implementation
   [Symbol.iterator](): Iterator<GlideRecord> {
     const self = this;
@@ -696,7 +864,145 @@ export class GlideRecord implements IGlideRecord {
     };
   }
 
+  /**
+   * Walk every matching record with keyset pagination, keeping only the current page in memory:
+   *   for await (const record of gr) { ... }
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<GlideRecord> {
+    for await (const page of this._keysetPages()) {
+      this._results = page;
+      this._total = page.length;
+      for (let i = 0; i < page.length; i++) {
+        this._current = i;
+        this._populateCurrentRecord();
+        yield this;
+      }
+    }
+  }
+
+  /**
+   * Stream matching records with keyset pagination. Pages are requested as the reader
+   * pulls, so memory stays bounded by highWaterMark plus one page.
+   */
+  stream(options: StreamOptions = {}): ReadableStream<ServiceNowRecord> {
+    const pages = this._keysetPages(options);
+    const highWaterMark =
+      options.highWaterMark ?? options.pageSize ?? this._batchSize;
+
+    return new ReadableStream<ServiceNowRecord>(
+      {
+        async pull(controller) {
+          const next = await pages.next();
+          if (next.done) {
+            controller.close();
+            return;
+          }
+          for (const record of next.value) {
+            controller.enqueue(record);
+          }
+        },
+        async cancel() {
+          await pages.return(undefined);
+        },
+      },
+      new CountQueuingStrategy({ highWaterMark }),
+    );
+  }
+
   // Private Methods
+  /**
+   * Fetch pages ordered by the keyset column, each one starting after the last row of the
+   * previous page. Unlike offsets, rows inserted or deleted mid-scan cannot shift the pages,
+   * so no row is returned twice or skipped. In sys_updated_on mode the scan is capped at the
+   * newest sys_updated_on seen when it starts; rows changed later are left for the next run.
+   */
+  private async *_keysetPages(
+    options: StreamOptions = {},
+  ): AsyncGenerator<ServiceNowRecord[]> {
+    const keyset = options.keyset ?? "sys_id";
+    const pageSize = options.pageSize ?? this._batchSize;
+    const blocks = filterBlocks(this._queryBuilder.generateQuery());
+    const fields = this._queryFields();
+    const pageFields =
+      fields && Array.from(new Set([...fields, "sys_id", keyset]));
+
+    const operation = logger.operation("keyset_scan", this._table, undefined, {
+      keyset,
+      pageSize,
+    });
+
+    let upperBound = "";
+    if (keyset === "sys_updated_on") {
+      const newest: ServiceNowRecord[] = await this._client.serviceNow.query({
+        table: this._table,
+        filter: keysetQuery(blocks, [""], "ORDERBYDESCsys_updated_on"),
+        fields: ["sys_updated_on"],
+        limit: 1,
+      });
+      if (!newest || newest.length === 0) {
+        operation.success("Keyset scan completed", { records: 0, pages: 0 });
+        return;
+      }
+      upperBound = `sys_updated_on<=${rawValue(newest[0], "sys_updated_on")}`;
+    }
+
+    let remaining = this._limit ?? Infinity;
+    let offset = this._windowStart ?? 0; // chooseWindow() start applies to the first page only
+    let last: ServiceNowRecord | undefined;
+    let records = 0;
+    let pages = 0;
+
+    try {
+      while (remaining > 0) {
+        const conditions: string[] = [];
+        if (!last) {
+          conditions.push("");
+        } else if (keyset === "sys_id") {
+          conditions.push(`sys_id>${rawValue(last, "sys_id")}`);
+        } else {
+          const updated = rawValue(last, "sys_updated_on");
+          conditions.push(
+            `sys_updated_on>${updated}`,
+            `sys_updated_on=${updated}^sys_id>${rawValue(last, "sys_id")}`,
+          );
+        }
+
+        const limit = Math.min(pageSize, remaining);
+        const page: ServiceNowRecord[] = await this._client.serviceNow.query({
+          table: this._table,
+          filter: keysetQuery(
+            blocks,
+            conditions.map((c) => [c, upperBound].filter(Boolean).join("^")),
+            KEYSET_ORDER[keyset],
+          ),
+          fields: pageFields,
+          limit,
+          offset,
+        });
+        offset = 0;
+
+        if (!page || page.length === 0) {
+          break;
+        }
+
+        records += page.length;
+        pages++;
+        remaining -= page.length;
+        last = page[page.length - 1];
+        yield page;
+
+        if (page.length < limit) {
+          break;
+        }
+      }
+
+      operation.success("Keyset scan completed", { records, pages });
+    } catch (error: unknown) {
+      operation.error("Keyset scan failed", error as Error);
+      throw error;
+    }
+  }
+
   private _clearQuery(): void {
     this._queryBuilder.clear();
     this._encodedQuery = undefined;
@@ -704,6 +1010,12 @@ export class GlideRecord implements IGlideRecord {
     this._current = -1;
     this._total = undefined;
     this._elements.clear();
+    if (this._windowEnd !== undefined) {
+      this._limit = undefined; // the limit came from chooseWindow()
+    }
+    this._windowStart = undefined;
+    this._windowEnd = undefined;
+    this._forceCount = false;
   }
 
   private async _executeQuery(): Promise<ServiceNowRecord[]> {
@@ -711,14 +1023,92 @@ export class GlideRecord implements IGlideRecord {
     const options = {
       table: this._table,
       query,
-      fields: this._fieldLimits,
-      limit: this._limit,
-      offset: this._current + 1,
+      fields: this._queryFields(),
+      limit:
+        this._windowEnd !== undefined
+          ? Math.min(this._batchSize, this._limit!)
+          : this._limit,
+      offset: (this._windowStart ?? 0) + this._current + 1,
     };
 
     return await this._client.serviceNow.query(options);
   }
 
+  /**
+   * Field limits always keep sys_class_name so extended tables can be told apart
+   */
+  private _queryFields(): string[] | undefined {
+    if (!this._fieldLimits || this._fieldLimits.includes("sys_class_name")) {
+      return this._fieldLimits;
+    }
+    return [...this._fieldLimits, "sys_class_name"];
+  }
+
+  private _isWindowExhausted(loaded: number): boolean {
+    return this._windowEnd !== undefined && loaded >= this._limit!;
+  }
+
+  /**
+   * Count the rows inside the chosen window using the stats API
+   */
+  private async _countWindow(): Promise<number> {
+    const params: Record<string, string> = { sysparm_count: "true" };
+    const query = this._queryBuilder.generateQuery();
+    if (query) {
+      params.sysparm_query = query;
+    }
+
+    const result = await this._client.serviceNow.queryStats(
+      this._table,
+      params,
+    );
+    const count = Number(result?.stats?.count ?? 0);
+
+    return Math.max(
+      0,
+      Math.min(count, this._windowEnd!) - (this._windowStart ?? 0),
+    );
+  }
+
+  private async _loadDictionaryDefaults(
+    dictionary?: DictionarySnapshot,
+  ): Promise<Record<string, string>> {
+    if (!dictionary && GlideRecord._defaultsCache.has(this._table)) {
+      return GlideRecord._defaultsCache.get(this._table)!;
+    }
+
+    try {
+      const snapshot =
+        dictionary ||
+        (await DictionaryLoader.fromInstance(this._client.serviceNow, [
+          this._table,
+        ]));
+      const table = DictionaryLoader.resolveTable(snapshot, this._table);
+
+      const defaults: Record<string, string> = {};
+      for (const field of table.fields) {
+        if (
+          field.default_value !== undefined &&
+          field.default_value !== "" &&
+          !field.default_value.startsWith("javascript:")
+        ) {
+          defaults[field.element] = field.default_value;
+        }
+      }
+
+      if (!dictionary) {
+        GlideRecord._defaultsCache.set(this._table, defaults);
+      }
+      return defaults;
+    } catch (error: unknown) {
+      logger.warn("Could not load dictionary defaults", "GlideRecord", {
+        table: this._table,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {};
+    }
+  }
+
   private _fetchMoreAndNext(): boolean {
     if (!this._autoPaginate || this._isPaginating) {
       return false;
@@ -788,14 +1178,25 @@ export class GlideRecord implements IGlideRecord {
       // Calculate next offset
       this._currentOffset = this._results.length;
 
+      // Stay inside the window chosen with chooseWindow()
+      let pageSize = this._batchSize;
+      if (this._windowEnd !== undefined) {
+        pageSize = Math.min(pageSize, this._limit! - this._currentOffset);
+        if (pageSize <= 0) {
+          this._hasMorePages = false;
+          this._isPaginating = false;
+          return false;
+        }
+      }
+
       // Build query for next page
       const query = this._queryBuilder.generateQuery();
       const options = {
         table: this._table,
         query,
-        fields: this._fieldLimits,
-        limit: this._batchSize,
-        offset: this._currentOffset,
+        fields: this._queryFields(),
+        limit: pageSize,
+        offset: (this._windowStart ?? 0) + this._currentOffset,
       };
 
       // Fetch next page with retry logic
@@ -827,7 +1228,10 @@ export class GlideRecord implements IGlideRecord {
         this._results.push(...nextBatch);
 
         // Update pagination state
-        if (nextBatch.length < this._batchSize) {
+        if (
+          nextBatch.length < pageSize ||
+          this._isWindowExhausted(this._results.length)
+        ) {
           this._hasMorePages = false;
         }
 
@@ -0,0 +1,119 @@
+/**
+ * TypedGlideRecord - GlideRecord checked at compile time against a table interface
+ * generated from sys_dictionary (see src/codegen)
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { GlideRecord } from "./GlideRecord";
+import { GlideElement } from "./GlideElement";
+import { QueryCondition } from "../query/QueryCondition";
+import { OrCondition } from "../query/OrCondition";
+
+export type FieldName<T> = Extract<keyof T, string>;
+
+export type EqualityOperator = "=" | "!=";
+
+export type ListOperator = "IN" | "NOT IN";
+
+export type QueryOperator =
+  | EqualityOperator
+  | ListOperator
+  | ">"
+  | ">="
+  | "<"
+  | "<="
+  | "STARTSWITH"
+  | "ENDSWITH"
+  | "CONTAINS"
+  | "DOES NOT CONTAIN"
+  | "LIKE"
+  | "NOT LIKE"
+  | "INSTANCEOF"
+  | "BETWEEN"
+  | "SAMEAS"
+  | "NSAMEAS"
+  | "DYNAMIC";
+
+/**
+ * Value accepted by addQuery for a given field type and operator:
+ * equality keeps the field type (so choice fields only accept real choice values),
+ * list operators take an array or a comma separated string.
+ */
+export type OperatorValue<
+  V,
+  O extends QueryOperator,
+> = O extends EqualityOperator
+  ? V
+  : O extends ListOperator
+    ? V[] | string
+    : string | number;
+
+export class TypedGlideRecord<T extends object> extends GlideRecord {
+  constructor(
+    client: any,
+    table: string,
+    batchSize: number = 500,
+    rewindable: boolean = true,
+  ) {
+    super(client, table, batchSize, rewindable);
+  }
+
+  getValue<K extends FieldName<T>>(field: K): T[K] | null {
+    return super.getValue(field);
+  }
+
+  getDisplayValue<K extends FieldName<T>>(field: K): string | null {
+    return super.getDisplayValue(field);
+  }
+
+  getElement<K extends FieldName<T>>(field: K): GlideElement {
+    return super.getElement(field);
+  }
+
+  setValue<K extends FieldName<T>>(field: K, value: T[K]): void {
+    super.setValue(field, value);
+  }
+
+  setDisplayValue<K extends FieldName<T>>(field: K, value: string): void {
+    super.setDisplayValue(field, value);
+  }
+
+  addQuery<K extends FieldName<T>>(field: K, value: T[K]): QueryCondition;
+  addQuery<K extends FieldName<T>, O extends QueryOperator>(
+    field: K,
+    operator: O,
+    value: OperatorValue<T[K], O>,
+  ): QueryCondition;
+  addQuery(field: string, operator: any, value?: any): QueryCondition {
+    return super.addQuery(field, operator, value);
+  }
+
+  addOrCondition<K extends FieldName<T>>(field: K, value: T[K]): OrCondition;
+  addOrCondition<K extends FieldName<T>, O extends QueryOperator>(
+    field: K,
+    operator: O,
+    value: OperatorValue<T[K], O>,
+  ): OrCondition;
+  addOrCondition(field: string, operator: any, value?: any): OrCondition {
+    return super.addOrCondition(field, operator, value);
+  }
+
+  addNullQuery(field: FieldName<T>): QueryCondition {
+    return super.addNullQuery(field);
+  }
+
+  addNotNullQuery(field: FieldName<T>): QueryCondition {
+    return super.addNotNullQuery(field);
+  }
+
+  orderBy(field: FieldName<T>): void {
+    super.orderBy(field);
+  }
+
+  orderByDesc(field: FieldName<T>): void {
+    super.orderByDesc(field);
+  }
+
+  setBulkUpdateValue<K extends FieldName<T>>(field: K, value: T[K]): void {
+    super.setBulkUpdateValue(field, value);
+  }
+}
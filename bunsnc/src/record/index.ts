@@ -2,9 +2,17 @@
  * Record module exports
  * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
  */
+import { GlideAggregate } from "./GlideAggregate";
 
 export { GlideElement, type IGlideElement } from "./GlideElement";
 export { GlideRecord, type IGlideRecord } from "./GlideRecord";
+export {
+  GlideAggregate,
+  type IGlideAggregate,
+  type AggregateType,
+  type AggregateHaving,
+  type AggregateRow,
+} from "./GlideAggregate";
 
 // Convenience factory functions
 export const createGlideElement = (
@@ -19,3 +27,6 @@ export const createGlideRecord = (
   batchSize?: number,
   rewindable?: boolean,
 ) => new GlideRecord(client, table, batchSize, rewindable);
+
+export const createGlideAggregate = (client: any, table: string) =>
+  new GlideAggregate(client, table);
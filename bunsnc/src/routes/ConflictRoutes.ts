@@ -0,0 +1,162 @@
+/**
+ * Conflict Routes - Review and resolve MongoDB/ServiceNow sync conflicts
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * GET  /api/v1/sync/conflicts              pending (or ?resolution=resolved) conflicts
+ * GET  /api/v1/sync/conflicts/stats        counts by state and table
+ * GET  /api/v1/sync/conflicts/:id          one conflict (id = table:sys_id)
+ * POST /api/v1/sync/conflicts/:id/resolve  { choice: "mongodb" | "servicenow" | { field: side } }
+ */
+
+import { Elysia, t } from "elysia";
+import { TableAPI } from "../api/TableAPI";
+import {
+  COLLECTION_NAMES,
+  TICKET_COLLECTIONS,
+  mongoCollectionManager,
+} from "../config/mongodb-collections";
+import { pluginConfigManager } from "../plugins/config-manager";
+import {
+  ConflictNotFoundError,
+  ConflictResolver,
+} from "../services/sync/ConflictResolver";
+import { MongoConflictStore } from "../services/sync/ConflictStore";
+import { MongoSyncMirror } from "../services/sync/SyncMirror";
+import { logger } from "../utils/Logger";
+
+const Side = t.Union([t.Literal("mongodb"), t.Literal("servicenow")]);
+
+export const conflictRoutes = (resolver: ConflictResolver) =>
+  new Elysia({ name: "sync-conflicts", prefix: "/api/v1/sync/conflicts" })
+    .get(
+      "/",
+      async ({ query }) => ({
+        success: true,
+        result: await resolver.store.listConflicts({
+          table: query.table,
+          resolution: query.resolution ?? "pending",
+          limit: query.limit ?? 100,
+        }),
+        timestamp: new Date().toISOString(),
+      }),
+      {
+        query: t.Object({
+          table: t.Optional(t.String()),
+          resolution: t.Optional(
+            t.Union([t.Literal("pending"), t.Literal("resolved")]),
+          ),
+          limit: t.Optional(t.Numeric({ minimum: 1, maximum: 1000 })),
+        }),
+        detail: {
+          summary: "List sync conflicts",
+          tags: ["Sync", "Conflicts"],
+        },
+      },
+    )
+    .get(
+      "/stats",
+      async () => ({
+        success: true,
+        result: await resolver.getConflictStats(),
+        timestamp: new Date().toISOString(),
+      }),
+      {
+        detail: {
+          summary: "Sync conflict statistics",
+          tags: ["Sync", "Conflicts"],
+        },
+      },
+    )
+    .get(
+      "/:id",
+      async ({ params, set }) => {
+        const conflict = await resolver.getConflict(params.id);
+        if (!conflict) {
+          set.status = 404;
+          return { success: false, error: `Conflict not found: ${params.id}` };
+        }
+        return { success: true, result: conflict };
+      },
+      {
+        params: t.Object({ id: t.String() }),
+        detail: {
+          summary: "Get a sync conflict",
+          tags: ["Sync", "Conflicts"],
+        },
+      },
+    )
+    .post(
+      "/:id/resolve",
+      async ({ params, body, set }) => {
+        try {
+          const result = await resolver.resolve(
+            params.id,
+            body.choice,
+            body.resolvedBy,
+          );
+          return {
+            success: true,
+            result: {
+              conflict: result.conflict,
+              toServiceNow: result.toServiceNow,
+              toMongo: result.toMongo,
+            },
+          };
+        } catch (error: unknown) {
+          set.status = error instanceof ConflictNotFoundError ? 404 : 400;
+          return { success: false, error: (error as Error).message };
+        }
+      },
+      {
+        params: t.Object({ id: t.String() }),
+        body: t.Object({
+          choice: t.Union([Side, t.Record(t.String(), Side)]),
+          resolvedBy: t.Optional(t.String()),
+        }),
+        detail: {
+          summary: "Resolve a sync conflict",
+          tags: ["Sync", "Conflicts"],
+        },
+      },
+    );
+
+/**
+ * Resolver over the Mongo conflict collections with policies from the
+ * "sync.conflicts" config section; resolutions are pushed to ServiceNow
+ * and written to the ticket mirror
+ */
+export async function createConflictRoutes() {
+  const config = await pluginConfigManager.load();
+  const table = new TableAPI(process.env.SERVICENOW_INSTANCE_URL || "", "");
+  const mirror = new MongoSyncMirror((name) =>
+    TICKET_COLLECTIONS[name]
+      ? mongoCollectionManager.getCollection(TICKET_COLLECTIONS[name])
+      : null,
+  );
+
+  const resolver = new ConflictResolver({
+    store: new MongoConflictStore(
+      () => mongoCollectionManager.getCollection(COLLECTION_NAMES.SYNC_BASES),
+      () =>
+        mongoCollectionManager.getCollection(COLLECTION_NAMES.SYNC_CONFLICTS),
+    ),
+    policies: config.sync?.conflicts,
+    apply: async (conflict, result) => {
+      if (Object.keys(result.toServiceNow).length > 0) {
+        await table.patch(conflict.table, conflict.sys_id, result.toServiceNow);
+      }
+      if (Object.keys(result.toMongo).length > 0) {
+        await mirror.upsert(conflict.table, [result.merged], conflict.table);
+      }
+      logger.info("Sync conflict applied", "SyncConflicts", {
+        id: conflict.id,
+        toServiceNow: Object.keys(result.toServiceNow),
+        toMongo: Object.keys(result.toMongo),
+      });
+    },
+  });
+  return conflictRoutes(resolver);
+}
+
+// Export type para Eden Treaty
+export type ConflictRoutesApp = ReturnType<typeof conflictRoutes>;
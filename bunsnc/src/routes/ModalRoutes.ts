@@ -16,6 +16,20 @@ import type {
 } from "../types/TicketTypes";
 import { UpdateTicketSchema } from "../types/TicketTypes";
 import { consolidatedServiceNowService } from "../services";
+import { ContractualSLAService } from "../services/ContractualSLAService";
+import {
+  SLATimelineEngine,
+  changesFromAudit,
+  serviceNowDate,
+} from "../services/sla/SLATimelineEngine";
+import { plainValue } from "../services/sync/SyncMirror";
+import {
+  MetricType,
+  SLA_PRIORITY_MAPPING,
+  TicketType,
+  type SLAPriority,
+  type SLATimeline,
+} from "../types/ContractualSLA";
 
 export const createModalRoutes = () => {
   return (
@@ -64,12 +78,19 @@ export const createModalRoutes = () => {
               );
             }
 
+            const slaTimeline = await buildSLATimeline(
+              params.table,
+              ticket,
+              historyData,
+            );
+
             // Generate modal HTML
             const modalHtml = EnhancedTicketModalView.generateModal({
               ticket: ticket,
               slaData: ticket.slms || [],
               notes: ticket.notes || [],
               history: historyData,
+              slaTimeline,
               showRealTime: query.realtime !== "false",
             });
 
@@ -563,6 +584,66 @@ function generateDetailsUpdate(ticket: any): string {
   return EnhancedTicketModalView.generateDetailsTab(ticket);
 }
 
+const TIMELINE_TICKET_TYPES: Record<string, TicketType> = {
+  incident: TicketType.INCIDENT,
+  change_task: TicketType.CTASK,
+  sc_task: TicketType.SCTASK,
+};
+
+/**
+ * Pause/resume segments of the ticket's resolution SLA, rebuilt from its history
+ */
+async function buildSLATimeline(
+  table: string,
+  ticket: any,
+  history: HistoryResponse["history"],
+): Promise<SLATimeline | null> {
+  const ticketType = TIMELINE_TICKET_TYPES[table];
+  const opened = ticket.opened_at || ticket.sys_created_on;
+  if (!ticketType || !opened) {
+    return null;
+  }
+
+  try {
+    const closed = ticket.resolved_at || ticket.closed_at;
+    const options = {
+      start_time: serviceNowDate(opened),
+      end_time: closed ? serviceNowDate(closed) : undefined,
+      assignment_group: plainValue(ticket.assignment_group),
+      changes: changesFromAudit(history),
+      current_values: { ...ticket },
+    };
+
+    const slaService = ContractualSLAService.getInstance();
+    const priority = `P${plainValue(ticket.priority)}` as SLAPriority;
+    if (
+      slaService &&
+      (SLA_PRIORITY_MAPPING[ticketType] as SLAPriority[]).includes(priority)
+    ) {
+      return await slaService.buildTimeline(
+        ticket.sys_id,
+        ticketType,
+        priority,
+        MetricType.RESOLUTION_TIME,
+        options,
+      );
+    }
+
+    return new SLATimelineEngine().build({
+      ticketType,
+      start: options.start_time,
+      end: options.end_time,
+      changes: options.changes,
+      current: options.current_values,
+    });
+  } catch (error: unknown) {
+    logger.warn(
+      `⚠️ Failed to build SLA timeline for ${ticket.sys_id}: ${(error as Error).message}`,
+    );
+    return null;
+  }
+}
+
 function generateSLAUpdate(slaData: any[]): string {
   return EnhancedTicketModalView.generateSLATab(slaData);
 }
@@ -16,6 +16,8 @@ import { createGroupRoutes } from "./GroupRoutes";
 import { createModalRoutes, createSSERoutes } from "./ModalRoutes";
 import { systemPlugin } from "../plugins/system";
 import { serviceNowProxyRoutes } from "../modules/servicenow-proxy";
+import { createServiceNowWebhookRoutes } from "../modules/servicenow-webhook";
+import { createConflictRoutes } from "./ConflictRoutes";
 
 // Plugin System Integration
 import {
@@ -172,6 +174,26 @@ export async function createMainApp(): Promise<Elysia> {
     console.warn(" Server will continue but self-referencing calls will fail");
   }
 
+  // Add ServiceNow webhook receiver (push changes into the Redis stream)
+  if (process.env.SERVICENOW_WEBHOOK_SECRET) {
+    try {
+      mainApp.use(createServiceNowWebhookRoutes());
+      console.log("🪝 ServiceNow webhook receiver added");
+    } catch (error: unknown) {
+      console.error(" Failed to add ServiceNow webhook routes:", error);
+      console.warn(" Server will continue with polling-only change feed");
+    }
+  }
+
+  // Add sync conflict review routes
+  try {
+    mainApp.use(await createConflictRoutes());
+    console.log("⚔️ Sync conflict routes added");
+  } catch (error: unknown) {
+    console.error(" Failed to add sync conflict routes:", error);
+    console.warn(" Server will continue without conflict review");
+  }
+
   // Add notification routes (SSE, WebSocket) with error handling
   try {
     const notificationRoutes = createNotificationRoutes();
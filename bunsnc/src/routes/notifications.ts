@@ -75,7 +75,7 @@ const defaultConfig: NotificationManagerConfig = {
 };
 
 // Initialize notification manager
-async function getNotificationManager(): Promise<NotificationManager> {
+export async function getNotificationManager(): Promise<NotificationManager> {
   if (!notificationManager) {
     notificationManager = new NotificationManager(defaultConfig);
 
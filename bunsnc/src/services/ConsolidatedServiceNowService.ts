@@ -128,6 +128,7 @@ export interface ServiceNowConfig {
     maxRetries: number;
     baseDelay: number;
   };
+  bridgeService?: ServiceNowBridgeService; // e.g. ServiceNowSimulator.bridge()
 }
 
 export class ConsolidatedServiceNowService extends EventEmitter {
@@ -142,7 +143,7 @@ export class ConsolidatedServiceNowService extends EventEmitter {
     this.config = config;
 
     // Use ServiceNow Bridge Service directly - NO MORE HTTP SELF-REFERENCING CALLS
-    this.bridgeService = new ServiceNowBridgeService();
+    this.bridgeService = config.bridgeService || new ServiceNowBridgeService();
 
     console.log(
       "🔌 ConsolidatedServiceNowService using bridge service directly - self-referencing calls eliminated",
@@ -286,6 +287,21 @@ export class ConsolidatedServiceNowService extends EventEmitter {
     });
   }
 
+  async queryStats(table: string, params: Record<string, any>): Promise<any> {
+    return this.executeRequest(async () => {
+      const response = await this.bridgeService.queryStats(table, params);
+
+      if (!response.success) {
+        throw new Error(response.error || "Failed to query stats");
+      }
+
+      logger.debug(` [ServiceNow] Queried stats from ${table}`);
+      this.emit("statsQueried", { table, query: params.sysparm_query });
+
+      return response.result;
+    });
+  }
+
   // ==================== TICKET ACTIONS ====================
 
   async resolveTicket(
@@ -12,24 +12,68 @@ import {
   SLAPriority,
   SLAComplianceResult,
   BusinessHoursConfig,
+  BusinessSchedule,
   DEFAULT_BUSINESS_HOURS,
   SLACalculationOptions,
+  SLAPauseRules,
+  SLATimeline,
 } from "../types/ContractualSLA";
+import { BusinessHoursCalculator } from "../utils/BusinessHoursCalculator";
+import { scheduleFromConfig } from "../utils/BusinessSchedule";
+import {
+  parseICalendar,
+  type ICalendarParseOptions,
+  type ICalendarParseResult,
+} from "../utils/ICalendarParser";
+import {
+  MongoBusinessScheduleStore,
+  type BusinessScheduleStore,
+} from "./schedules/BusinessScheduleStore";
+import {
+  SLATimelineEngine,
+  type TicketAuditDocument,
+} from "./sla/SLATimelineEngine";
+
+export interface ScheduleImportOptions extends ICalendarParseOptions {
+  name?: string;
+  groups?: string[];
+  replace?: boolean; // drop the schedule's current spans first
+}
+
+export interface ScheduleImportResult {
+  schedule: BusinessSchedule;
+  imported: number;
+  skipped: ICalendarParseResult["skipped"];
+}
 
 export class ContractualSLAService {
   private static instance: ContractualSLAService;
   private collection: Collection<ContractualSLA>;
   private cache: Map<string, ContractualSLA[]> = new Map();
   private cacheExpiry: Map<string, number> = new Map();
+  private calculators: Map<
+    string,
+    { calculator: BusinessHoursCalculator; expires: number }
+  > = new Map();
   private readonly CACHE_TTL = 300000; // 5 minutes
+  readonly schedules: BusinessScheduleStore;
+  readonly timelines: SLATimelineEngine;
 
   constructor(
     private mongoClient: MongoClient,
     private databaseName: string,
+    schedules?: BusinessScheduleStore,
   ) {
-    this.collection = this.mongoClient
-      .db(this.databaseName)
-      .collection<ContractualSLA>("sn_sla_contratado");
+    const db = this.mongoClient.db(this.databaseName);
+    this.collection = db.collection<ContractualSLA>("sn_sla_contratado");
+    this.schedules =
+      schedules ??
+      new MongoBusinessScheduleStore(() =>
+        db.collection<BusinessSchedule>("sn_business_schedules"),
+      );
+    this.timelines = new SLATimelineEngine({
+      auditTrail: () => db.collection<TicketAuditDocument>("ticket_audit"),
+    });
   }
 
   static getInstance(
@@ -76,7 +120,7 @@ export class ContractualSLAService {
       // Try cache first
       const cachedResult = this.getCachedSLA(cacheKey);
       if (cachedResult) {
-        return cachedResult;
+        return cachedResult[0];
       }
 
       // Query database
@@ -237,15 +281,36 @@ export class ContractualSLAService {
       }
 
       // Adjust hours for business hours if required
-      let adjustedActualHours = actualHours;
-      if (
+      const businessHoursOnly =
         sla.business_hours_only &&
-        options?.include_business_hours_only !== false
-      ) {
-        adjustedActualHours = this.calculateBusinessHours(
-          actualHours,
-          options?.business_hours_config || DEFAULT_BUSINESS_HOURS,
-        );
+        options?.include_business_hours_only !== false;
+      let adjustedActualHours = actualHours;
+      let timeline: SLATimeline | null = null;
+      if (options?.changes?.length && options.start_time) {
+        // Paused segments do not count; without history the clock never paused
+        timeline = this.timelines.build({
+          ticketType,
+          start: options.start_time,
+          end: options.end_time,
+          changes: options.changes,
+          current: options.current_values,
+          slaHours: sla.sla_hours,
+          calculator: businessHoursOnly
+            ? await this.getCalculator(options)
+            : undefined,
+        });
+        adjustedActualHours = timeline.running_hours;
+      } else if (businessHoursOnly) {
+        adjustedActualHours =
+          options?.start_time && options.end_time
+            ? (await this.getCalculator(options)).calculateBusinessHours(
+                options.start_time,
+                options.end_time,
+              )
+            : this.calculateBusinessHours(
+                actualHours,
+                options?.business_hours_config || DEFAULT_BUSINESS_HOURS,
+              );
       }
 
       const isCompliant = adjustedActualHours <= sla.sla_hours;
@@ -272,6 +337,10 @@ export class ContractualSLAService {
         penalty_percentage: penaltyPercentage,
         business_hours_only: sla.business_hours_only,
         calculated_at: new Date(),
+        ...(timeline && {
+          paused_hours: timeline.paused_hours,
+          breached_at: timeline.breached_at,
+        }),
       };
     } catch (error: unknown) {
       logger.error(
@@ -282,6 +351,134 @@ export class ContractualSLAService {
     }
   }
 
+  /**
+   * Calculator for a ticket: explicit schedule or config first, then the
+   * schedule of its assignment group, then the default schedule
+   */
+  async getCalculator(
+    options: SLACalculationOptions = {},
+  ): Promise<BusinessHoursCalculator> {
+    if (options.schedule) {
+      return new BusinessHoursCalculator(options.schedule);
+    }
+    if (options.business_hours_config) {
+      return new BusinessHoursCalculator(options.business_hours_config);
+    }
+
+    const key = options.assignment_group ?? "";
+    const cached = this.calculators.get(key);
+    if (cached && cached.expires > Date.now()) {
+      return cached.calculator;
+    }
+
+    const schedule =
+      (await this.schedules.forGroup(options.assignment_group)) ??
+      scheduleFromConfig(DEFAULT_BUSINESS_HOURS);
+    const calculator = new BusinessHoursCalculator(schedule);
+    this.calculators.set(key, {
+      calculator,
+      expires: Date.now() + this.CACHE_TTL,
+    });
+    return calculator;
+  }
+
+  /**
+   * Pause conditions per ticket type, e.g. from the "sla.pause" config section
+   */
+  setPauseRules(rules: Partial<SLAPauseRules>): void {
+    this.timelines.setRules(rules);
+    logger.info(
+      ` [ContractualSLA] Pause rules set for ${Object.keys(rules).join(", ")}`,
+    );
+  }
+
+  /**
+   * Running/paused timeline of a ticket against one of its SLAs, from the
+   * recorded history of the fields the pause rules look at
+   */
+  async buildTimeline(
+    ticketId: string,
+    ticketType: TicketType,
+    priority: SLAPriority,
+    metricType: MetricType,
+    options: SLACalculationOptions & { start_time: Date },
+  ): Promise<SLATimeline> {
+    const sla = await this.getSLA(ticketType, priority, metricType);
+    const changes =
+      options.changes ??
+      (await this.timelines.loadChanges(ticketType, ticketId));
+
+    return this.timelines.build({
+      ticketType,
+      start: options.start_time,
+      end: options.end_time,
+      changes,
+      current: options.current_values,
+      slaHours: sla?.sla_hours,
+      calculator:
+        sla?.business_hours_only &&
+        options.include_business_hours_only !== false
+          ? await this.getCalculator(options)
+          : undefined,
+    });
+  }
+
+  async saveSchedule(schedule: BusinessSchedule): Promise<void> {
+    await this.schedules.save(schedule);
+    this.calculators.clear();
+    logger.info(` [ContractualSLA] Schedule ${schedule.id} saved`);
+  }
+
+  /**
+   * Add the events of an iCalendar file to a schedule, creating it if needed.
+   * Spans already in the schedule are not duplicated on re-import.
+   */
+  async importSchedule(
+    id: string,
+    ics: string,
+    options: ScheduleImportOptions = {},
+  ): Promise<ScheduleImportResult> {
+    const existing = await this.schedules.get(id);
+    const parsed = parseICalendar(ics, {
+      timezone: options.timezone ?? existing?.timezone,
+      type: options.type,
+    });
+
+    const kept = options.replace
+      ? []
+      : (existing?.spans ?? []).filter(
+          (span) =>
+            !parsed.spans.some(
+              (imported) =>
+                imported.type === span.type &&
+                imported.start === span.start &&
+                imported.end === span.end,
+            ),
+        );
+    const schedule: BusinessSchedule = {
+      ...existing,
+      id,
+      name: options.name ?? existing?.name ?? parsed.name ?? id,
+      timezone: parsed.timezone,
+      spans: [...kept, ...parsed.spans],
+    };
+    if (options.groups) {
+      schedule.groups = options.groups;
+    }
+
+    await this.saveSchedule(schedule);
+    if (parsed.skipped.length > 0) {
+      logger.warn(
+        ` [ContractualSLA] ${parsed.skipped.length} iCalendar events not imported into ${id}`,
+      );
+    }
+    return {
+      schedule,
+      imported: parsed.spans.length,
+      skipped: parsed.skipped,
+    };
+  }
+
   /**
    * Calculate business hours between dates
    */
@@ -412,6 +609,7 @@ export class ContractualSLAService {
   clearCache(): void {
     this.cache.clear();
     this.cacheExpiry.clear();
+    this.calculators.clear();
     logger.info("🧹 [ContractualSLA] Cache cleared");
   }
 
@@ -18,6 +18,7 @@ import {
   SLAAlert,
   DEFAULT_BUSINESS_HOURS,
 } from "../types/ContractualSLA";
+import { serviceNowTimestamp } from "./sla/SLATimelineEngine";
 
 interface TicketRecord {
   sys_id: string;
@@ -121,6 +122,12 @@ export class EnhancedMetricsService {
         return null;
       }
 
+      // State history, so time on hold is not counted
+      const changes = await this.contractualSLAService.timelines.loadChanges(
+        ticketType,
+        ticket.sys_id,
+      );
+
       // Calculate response time compliance
       let responseSLA: SLAComplianceResult | null = null;
       if (ticket.first_response_date) {
@@ -138,6 +145,11 @@ export class EnhancedMetricsService {
           {
             include_business_hours_only: true,
             penalty_calculation_enabled: true,
+            assignment_group: ticket.assignment_group?.value,
+            start_time: new Date(ticket.sys_created_on),
+            end_time: new Date(ticket.first_response_date),
+            changes,
+            current_values: { ...ticket },
           },
         );
       }
@@ -160,6 +172,11 @@ export class EnhancedMetricsService {
           {
             include_business_hours_only: true,
             penalty_calculation_enabled: true,
+            assignment_group: ticket.assignment_group?.value,
+            start_time: new Date(ticket.sys_created_on),
+            end_time: new Date(resolutionDate),
+            changes,
+            current_values: { ...ticket },
           },
         );
       }
@@ -239,6 +256,45 @@ export class EnhancedMetricsService {
     }
   }
 
+  /**
+   * SLA status of the tickets resolved (or closed without resolution) in a
+   * billing period; the end is exclusive
+   */
+  async getResolvedTicketSLAs(
+    startDate: Date,
+    endDate: Date,
+    ticketType: TicketType,
+  ): Promise<TicketSLAStatus[]> {
+    const collection = this.getCollectionForTicketType(ticketType);
+    const resolvedPath = this.getFieldPath(ticketType, "resolved_at");
+    const closedPath = this.getFieldPath(ticketType, "closed_at");
+    const range = {
+      $gte: serviceNowTimestamp(startDate),
+      $lt: serviceNowTimestamp(endDate),
+    };
+
+    const documents = await collection
+      .find(
+        {
+          $or: [
+            { [resolvedPath]: range },
+            { [resolvedPath]: { $in: [null, ""] }, [closedPath]: range },
+          ],
+        },
+        { projection: { sys_id: 1 } },
+      )
+      .toArray();
+
+    const statuses: TicketSLAStatus[] = [];
+    for (const document of documents) {
+      const status = await this.calculateTicketSLA(document.sys_id, ticketType);
+      if (status) {
+        statuses.push(status);
+      }
+    }
+    return statuses;
+  }
+
   /**
    * Get comprehensive SLA dashboard data
    */
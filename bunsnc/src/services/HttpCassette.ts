@@ -0,0 +1,278 @@
+/**
+ * HttpCassette - Record/replay of ServiceNow HTTP traffic (VCR style)
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * record: real requests go out and request/response pairs are written to the
+ *         cassette file, with auth headers and cookies masked
+ * replay: responses are served from the cassette, no instance needed
+ * auto:   replay when the cassette file exists, record otherwise
+ *
+ *   SNC_CASSETTE=cassettes/incident.json SNC_CASSETTE_MODE=record bun test-timeout.ts
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { securityService } from "./SecurityService";
+
+export type CassetteMode = "record" | "replay" | "auto";
+
+export interface CassetteMatchOptions {
+  method?: boolean; // default true
+  path?: boolean; // default true
+  params?: "sysparm" | "all" | "none"; // default sysparm: only sysparm_* params
+  ignoreParams?: string[];
+  body?: boolean; // default false
+}
+
+export interface HttpCassetteOptions {
+  mode?: CassetteMode;
+  match?: CassetteMatchOptions;
+  allowRepeats?: boolean; // replay the last match again once recordings run out
+}
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    encoding: "utf8" | "base64";
+  };
+  recordedAt: string;
+}
+
+export interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+type FetchFunction = (
+  url: string,
+  init?: RequestInit & Record<string, any>,
+) => Promise<Response>;
+
+export class CassetteMissError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly cassettePath: string,
+  ) {
+    super(`No recorded interaction for ${key} in cassette ${cassettePath}`);
+    this.name = "CassetteMissError";
+  }
+}
+
+// Comma lists whose item order does not change the response
+const LIST_PARAMS = new Set(["sysparm_fields", "sysparm_group_by"]);
+
+function headersToObject(
+  headers?: RequestInit["headers"],
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  new Headers(headers).forEach((value, name) => {
+    result[name] = value;
+  });
+  return result;
+}
+
+/**
+ * Header masking goes through SecurityService so cassettes and logs agree
+ */
+function scrubHeaders(headers: Record<string, string>): Record<string, string> {
+  return securityService.maskSensitiveData(headers) as Record<string, string>;
+}
+
+function isText(contentType: string | null): boolean {
+  return (
+    !contentType ||
+    /^text\/|json|xml|javascript|x-www-form-urlencoded/i.test(contentType)
+  );
+}
+
+export class HttpCassette {
+  readonly path: string;
+  readonly mode: "record" | "replay";
+  private match: Required<Omit<CassetteMatchOptions, "ignoreParams">> & {
+    ignoreParams: string[];
+  };
+  private allowRepeats: boolean;
+  private interactions: CassetteInteraction[];
+  private played = new Set<number>();
+
+  constructor(path: string, options: HttpCassetteOptions = {}) {
+    this.path = path;
+    const mode = options.mode ?? "auto";
+    this.mode =
+      mode === "auto" ? (existsSync(path) ? "replay" : "record") : mode;
+    this.match = {
+      method: options.match?.method ?? true,
+      path: options.match?.path ?? true,
+      params: options.match?.params ?? "sysparm",
+      ignoreParams: options.match?.ignoreParams ?? [],
+      body: options.match?.body ?? false,
+    };
+    this.allowRepeats = options.allowRepeats ?? false;
+
+    if (this.mode === "replay" && !existsSync(path)) {
+      throw new Error(`Cassette ${path} not found for replay`);
+    }
+    this.interactions = existsSync(path)
+      ? (JSON.parse(readFileSync(path, "utf-8")) as CassetteFile).interactions
+      : [];
+  }
+
+  /**
+   * Cassette configured by SNC_CASSETTE / SNC_CASSETTE_MODE, if any
+   */
+  static fromEnv(): HttpCassette | undefined {
+    const path = process.env.SNC_CASSETTE;
+    if (!path) {
+      return undefined;
+    }
+    return new HttpCassette(path, {
+      mode: (process.env.SNC_CASSETTE_MODE as CassetteMode) || "auto",
+    });
+  }
+
+  get size(): number {
+    return this.interactions.length;
+  }
+
+  /**
+   * Matching key: method, path and normalized query params (and body if enabled)
+   */
+  key(method: string, url: string, body?: string): string {
+    const parsed = new URL(url);
+    const parts: string[] = [];
+
+    if (this.match.method) {
+      parts.push(method.toUpperCase());
+    }
+    if (this.match.path) {
+      parts.push(parsed.pathname.replace(/\/+$/, ""));
+    }
+    if (this.match.params !== "none") {
+      const params = [...parsed.searchParams.entries()]
+        .filter(
+          ([name]) =>
+            (this.match.params === "all" || name.startsWith("sysparm_")) &&
+            !this.match.ignoreParams.includes(name),
+        )
+        .map(([name, value]) => {
+          let normalized = value.trim();
+          if (LIST_PARAMS.has(name)) {
+            normalized = normalized
+              .split(",")
+              .map((item) => item.trim())
+              .filter(Boolean)
+              .sort()
+              .join(",");
+          } else if (/^(true|false)$/i.test(normalized)) {
+            normalized = normalized.toLowerCase();
+          }
+          return `${name}=${normalized}`;
+        })
+        .sort();
+      parts.push(params.join("&"));
+    }
+    if (this.match.body && body) {
+      parts.push(body);
+    }
+    return parts.join(" ");
+  }
+
+  /**
+   * fetch replacement: records through realFetch, or replays from the cassette
+   */
+  async fetch(
+    url: string,
+    init: RequestInit & Record<string, any> = {},
+    realFetch: FetchFunction = fetch,
+  ): Promise<Response> {
+    const method = (init.method || "GET").toUpperCase();
+    const body = typeof init.body === "string" ? init.body : undefined;
+
+    if (this.mode === "replay") {
+      return this.replay(method, url, body);
+    }
+
+    const response = await realFetch(url, init);
+    const content = new Uint8Array(await response.arrayBuffer());
+    const headers = headersToObject(response.headers);
+    const text = isText(response.headers.get("content-type"));
+
+    this.interactions.push({
+      request: {
+        method,
+        url,
+        headers: scrubHeaders(headersToObject(init.headers)),
+        ...(body !== undefined ? { body } : {}),
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: scrubHeaders(headers),
+        body: text
+          ? new TextDecoder().decode(content)
+          : Buffer.from(content).toString("base64"),
+        encoding: text ? "utf8" : "base64",
+      },
+      recordedAt: new Date().toISOString(),
+    });
+    this.save();
+
+    return new Response(content.length > 0 ? content : null, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  }
+
+  private replay(method: string, url: string, body?: string): Response {
+    const key = this.key(method, url, body);
+    const matches: number[] = [];
+    this.interactions.forEach((interaction, index) => {
+      const recorded = this.key(
+        interaction.request.method,
+        interaction.request.url,
+        interaction.request.body,
+      );
+      if (recorded === key) {
+        matches.push(index);
+      }
+    });
+
+    // Same request recorded several times: play the recordings in order
+    const next = matches.find((index) => !this.played.has(index));
+    const index =
+      next ?? (this.allowRepeats ? matches[matches.length - 1] : undefined);
+    if (index === undefined) {
+      throw new CassetteMissError(key, this.path);
+    }
+    this.played.add(index);
+
+    const { response } = this.interactions[index];
+    const content =
+      response.encoding === "base64"
+        ? Buffer.from(response.body, "base64")
+        : response.body;
+    return new Response(
+      response.status === 204 || response.body === "" ? null : content,
+      {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      },
+    );
+  }
+
+  save(): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const file: CassetteFile = { version: 1, interactions: this.interactions };
+    writeFileSync(this.path, JSON.stringify(file, null, 2));
+  }
+}
@@ -10,6 +10,14 @@ import { ticketSearchService } from "./TicketSearchService";
 import { synonymService } from "./SynonymService";
 import { logger } from "../utils/Logger";
 import { ErrorHandler } from "../utils/ErrorHandler";
+import {
+  COLLECTION_NAMES,
+  mongoCollectionManager,
+} from "../config/mongodb-collections";
+import {
+  MongoAttachmentIndexStore,
+  type AttachmentIndexStore,
+} from "./attachments/AttachmentIndexStore";
 
 export interface NeuralSearchResult {
   id: string;
@@ -23,6 +31,7 @@ export interface NeuralSearchResult {
     priority?: string;
     status?: string;
     created_date?: string;
+    attachment?: { sys_id: string; file_name: string }; // matched by its text
   };
 }
 
@@ -43,9 +52,10 @@ export class NeuralSearchService {
   private openSearchClient: OpenSearchClient;
   private embeddingClient: EmbeddingClient;
   private rerankClient: RerankClient;
+  private attachmentIndex: AttachmentIndexStore;
   private isInitialized = false;
 
-  constructor() {
+  constructor(attachmentIndex?: AttachmentIndexStore) {
     this.openSearchClient = new OpenSearchClient({
       host: process.env.OPENSEARCH_HOST || "10.219.8.210",
       port: parseInt(process.env.OPENSEARCH_PORT || "9200"),
@@ -55,6 +65,18 @@ export class NeuralSearchService {
 
     this.embeddingClient = new EmbeddingClient();
     this.rerankClient = new RerankClient();
+    this.attachmentIndex =
+      attachmentIndex ??
+      new MongoAttachmentIndexStore(
+        () =>
+          mongoCollectionManager.getCollection(
+            COLLECTION_NAMES.ATTACHMENT_CONTENTS,
+          ),
+        () =>
+          mongoCollectionManager.getCollection(
+            COLLECTION_NAMES.ATTACHMENT_LINKS,
+          ),
+      );
   }
 
   async initialize(): Promise<void> {
@@ -126,6 +148,12 @@ export class NeuralSearchService {
           results = await this.performHybridSearch(query, filters, maxResults);
       }
 
+      // Tickets whose attachments mention the query
+      results = this.mergeResults(
+        results,
+        await this.searchAttachments(query, filters, maxResults),
+      ).sort((a, b) => b.score - a.score);
+
       // Filter by minimum score
       results = results.filter((result) => result.score >= minScore);
 
@@ -466,6 +494,41 @@ export class NeuralSearchService {
     }
   }
 
+  private async searchAttachments(
+    query: string,
+    filters: any,
+    maxResults: number,
+  ): Promise<NeuralSearchResult[]> {
+    try {
+      const matches = await this.attachmentIndex.search(query, {
+        table: filters.table,
+        limit: maxResults,
+      });
+
+      return matches.map(({ link, score, snippet }) => ({
+        id: link.table_sys_id,
+        title: `${link.number || link.table_sys_id}: ${link.short_description || link.file_name}`,
+        content: snippet,
+        score,
+        source: "mongodb" as const,
+        metadata: {
+          table: link.table,
+          ticket_number: link.number,
+          attachment: {
+            sys_id: link.attachment_sys_id,
+            file_name: link.file_name,
+          },
+        },
+      }));
+    } catch (error: unknown) {
+      ErrorHandler.logUnknownError(
+        "NeuralSearchService.searchAttachments",
+        error,
+      );
+      return [];
+    }
+  }
+
   private mergeResults(
     results1: NeuralSearchResult[],
     results2: NeuralSearchResult[],
@@ -172,6 +172,8 @@ export class SecurityService {
       "token",
       "key",
       "credentials",
+      "authorization",
+      "cookie",
     ]);
     const maskedData: EncryptedData = {};
 
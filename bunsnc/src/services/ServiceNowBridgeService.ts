@@ -38,6 +38,29 @@ export interface BridgeResponse<T = any> {
   duration?: number;
 }
 
+// Batch API (/api/now/v1/batch) - bodies are base64 encoded
+export interface BatchRestRequest {
+  id: string;
+  method: string;
+  url: string;
+  headers?: Array<{ name: string; value: string }>;
+  body?: string;
+  exclude_response_headers?: boolean;
+}
+
+export interface BatchRestResponse {
+  batch_request_id: string;
+  serviced_requests: Array<{
+    id: string;
+    status_code: number;
+    status_text: string;
+    body?: string;
+    headers?: Array<{ name: string; value: string }>;
+    execution_time?: number;
+  }>;
+  unserviced_requests: string[];
+}
+
 /**
  * ServiceNow Bridge Service
  * Faz bridge entre proxy routes e ServiceNow real usando SAML auth
@@ -395,6 +418,143 @@ export class ServiceNowBridgeService {
     }
   }
 
+  /**
+   * Send several REST requests in one call via bridge (/api/now/v1/batch)
+   */
+  async executeBatch(
+    requests: BatchRestRequest[],
+    batchRequestId: string = `batch_${Date.now()}`,
+  ): Promise<BridgeResponse<BatchRestResponse>> {
+    const startTime = Date.now();
+
+    try {
+      console.log(
+        `📦 Bridge Batch: ${batchRequestId} (${requests.length} requests)`,
+      );
+
+      await this.fetchClient.authenticate();
+
+      const directServiceNowUrl = `https://iberdrola.service-now.com/api/now/v1/batch`;
+
+      const response = await this.fetchClient["makeAuthenticatedFetch"](
+        directServiceNowUrl,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json",
+          },
+          body: JSON.stringify({
+            batch_request_id: batchRequestId,
+            rest_requests: requests,
+          }),
+        },
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`❌ ServiceNow API Error ${response.status}:`, errorText);
+        throw new Error(
+          `ServiceNow API returned status ${response.status}: ${response.statusText}`,
+        );
+      }
+
+      const result = (await response.json()) as BatchRestResponse;
+      const duration = Date.now() - startTime;
+
+      this.updateMetrics(true, duration);
+
+      console.log(`✅ Bridge Batch completed in ${duration}ms`);
+
+      return {
+        success: true,
+        result,
+        total: result.serviced_requests?.length || 0,
+        duration,
+      };
+    } catch (error: any) {
+      const duration = Date.now() - startTime;
+      this.updateMetrics(false, duration);
+
+      console.error(
+        `❌ Bridge Batch failed after ${duration}ms:`,
+        error.message,
+      );
+
+      return {
+        success: false,
+        error: error.message,
+        duration,
+      };
+    }
+  }
+
+  /**
+   * Query aggregate statistics via bridge (/api/now/stats/{table})
+   */
+  async queryStats(
+    table: string,
+    params: Record<string, any> = {},
+  ): Promise<BridgeResponse<any>> {
+    const startTime = Date.now();
+
+    try {
+      console.log(`📊 Bridge Stats: ${table}`, params);
+
+      await this.fetchClient.authenticate();
+
+      const url = new URL(
+        `${this.fetchClient.getBaseUrl()}/api/now/stats/${table}`,
+      );
+
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          url.searchParams.append(key, String(value));
+        }
+      });
+
+      const response = await this.fetchClient["makeAuthenticatedFetch"](
+        url.toString(),
+        {
+          method: "GET",
+        },
+      );
+
+      if (!response.ok) {
+        throw new Error(
+          `ServiceNow API returned status ${response.status}: ${response.statusText}`,
+        );
+      }
+
+      const data: any = await response.json();
+      const duration = Date.now() - startTime;
+
+      this.updateMetrics(true, duration);
+
+      console.log(`✅ Bridge Stats completed in ${duration}ms`);
+
+      return {
+        success: true,
+        result: data.result,
+        duration,
+      };
+    } catch (error: any) {
+      const duration = Date.now() - startTime;
+      this.updateMetrics(false, duration);
+
+      console.error(
+        `❌ Bridge Stats failed after ${duration}ms:`,
+        error.message,
+      );
+
+      return {
+        success: false,
+        error: error.message,
+        duration,
+      };
+    }
+  }
+
   /**
    * Check if bridge service is healthy
    */
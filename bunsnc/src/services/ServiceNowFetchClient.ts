@@ -9,6 +9,7 @@ import { SAMLAuthenticationData, SAML_NO_PROXY_DOMAINS } from "../types/saml";
 import { serviceNowRateLimiter } from "./ServiceNowRateLimit";
 import { serviceNowCircuitBreaker } from "./CircuitBreaker";
 import { ServiceNowBridgeService } from "./ServiceNowBridgeService";
+import { HttpCassette } from "./HttpCassette";
 
 export interface ServiceNowRecord {
   sys_id: string;
@@ -52,6 +53,7 @@ export class ServiceNowFetchClient {
   private readonly baseUrl: string;
   private samlAuthData: SAMLAuthenticationData | null = null;
   private isAuthenticated = false;
+  private cassette?: HttpCassette;
 
   // Rate limiting
   private requestTimes: number[] = [];
@@ -66,9 +68,13 @@ export class ServiceNowFetchClient {
     averageResponseTime: 0,
   };
 
-  constructor(config?: Partial<RateLimitConfig>) {
+  constructor(
+    config?: Partial<RateLimitConfig>,
+    options: { cassette?: HttpCassette } = {},
+  ) {
     // Eliminada dependência circular com ServiceNowBridgeService
     this.baseUrl = "ServiceNow Direct Client"; // For logging purposes only
+    this.cassette = options.cassette ?? HttpCassette.fromEnv();
     this.rateLimitConfig = {
       maxRequestsPerSecond: parseInt(process.env.SERVICENOW_RATE_LIMIT || "25"),
       maxConcurrentRequests: parseInt(
@@ -148,6 +154,12 @@ export class ServiceNowFetchClient {
       return;
     }
 
+    // Replayed cassettes need no session
+    if (this.cassette?.mode === "replay") {
+      this.isAuthenticated = true;
+      return;
+    }
+
     console.log("🔐 Checking ServiceNow authentication...");
 
     try {
@@ -408,6 +420,14 @@ export class ServiceNowFetchClient {
     url: string,
     config: FetchRequestConfig = {},
   ): Promise<Response> {
+    if (this.cassette?.mode === "replay") {
+      return this.cassette.fetch(url, {
+        method: config.method || "GET",
+        headers: config.headers,
+        body: config.body,
+      });
+    }
+
     if (!this.samlAuthData) {
       throw new Error("Not authenticated - call authenticate() first");
     }
@@ -473,7 +493,9 @@ export class ServiceNowFetchClient {
         },
       );
 
-      const response = await fetch(url, fetchConfig as RequestInit);
+      const response = this.cassette
+        ? await this.cassette.fetch(url, fetchConfig)
+        : await fetch(url, fetchConfig as RequestInit);
       return response;
     } finally {
       clearTimeout(timeoutId);
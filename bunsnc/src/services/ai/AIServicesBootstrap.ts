@@ -7,6 +7,7 @@ import { AIServiceManager } from "./AIServiceManager";
 import { DocumentIntelligenceService } from "./DocumentIntelligenceService";
 import { TicketIntelligenceService } from "./TicketIntelligenceService";
 import { AgentAssistantService } from "./AgentAssistantService";
+import { llmGateway } from "../../clients/LLMGateway";
 import { logger } from "../../utils/Logger";
 
 export interface AIServicesConfig {
@@ -98,6 +99,7 @@ export class AIServicesBootstrap {
       const ticketIntelligence = new TicketIntelligenceService({
         servicenow_config: this.config.servicenow,
         document_intelligence: documentIntelligence,
+        llm: llmGateway(),
         similarity_threshold:
           this.config.ticket_intelligence.similarity_threshold,
         max_similar_tickets:
@@ -114,6 +116,7 @@ export class AIServicesBootstrap {
       const agentAssistant = new AgentAssistantService({
         document_intelligence: documentIntelligence,
         ticket_intelligence: ticketIntelligence,
+        llm: llmGateway(),
         max_chat_history: this.config.agent_assistant.max_chat_history,
         confidence_threshold: this.config.agent_assistant.confidence_threshold,
         response_timeout_ms: this.config.agent_assistant.response_timeout_ms,
@@ -6,6 +6,7 @@
 import { AIService } from "./AIServiceManager";
 import { DocumentIntelligenceService } from "./DocumentIntelligenceService";
 import { TicketIntelligenceService } from "./TicketIntelligenceService";
+import type { LLMGateway } from "../../clients/LLMGateway";
 import { logger } from "../../utils/Logger";
 import {
   AIRequest,
@@ -39,6 +40,7 @@ export interface AgentAssistantRequest extends AIRequest {
 export interface AgentAssistantConfig {
   document_intelligence: DocumentIntelligenceService;
   ticket_intelligence: TicketIntelligenceService;
+  llm: LLMGateway;
   max_chat_history: number;
   confidence_threshold: number;
   response_timeout_ms: number;
@@ -376,6 +378,17 @@ export class AgentAssistantService extends AIService {
     })) as ChatSource[];
 
     let response = this.generateResponseFromSources(message, searchResults);
+    if (searchResults.length > 0) {
+      try {
+        response = await this.composeAnswer(message, searchResults, session);
+      } catch (error: unknown) {
+        logger.warn(
+          " [AgentAssistant] LLM answer failed, using the best source",
+          "AgentAssistant",
+          { error: String(error) },
+        );
+      }
+    }
 
     const suggestedActions = this.generateSuggestedActions(
       message,
@@ -509,6 +522,36 @@ export class AgentAssistantService extends AIService {
     session.last_activity = new Date();
   }
 
+  private async composeAnswer(
+    message: string,
+    searchResults: any[],
+    session: ChatSession,
+  ): Promise<string> {
+    const context = searchResults
+      .slice(0, 3)
+      .map(
+        (result, index) =>
+          `[${index + 1}] ${result.title}\n${result.content.substring(0, 800)}`,
+      )
+      .join("\n\n");
+
+    const result = await this.config.llm.chat("agent-assistant", {
+      messages: [
+        {
+          role: "system",
+          content: `You are an assistant for ServiceNow support agents. Answer from the documentation below and cite it as [n].\n\n${context}`,
+        },
+        ...session.messages.slice(-6).map((entry) => ({
+          role: entry.type,
+          content: entry.content,
+        })),
+        { role: "user", content: message },
+      ],
+      temperature: 0.3,
+    });
+    return result.content;
+  }
+
   private generateResponseFromSources(query: string, sources: any[]): string {
     if (sources.length === 0) {
       return "I couldn't find relevant information in our knowledge base. Could you provide more details?";
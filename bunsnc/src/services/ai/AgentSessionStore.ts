@@ -0,0 +1,146 @@
+/**
+ * Agent Session Stores - AI chat and workflow guidance sessions shared by the replicas
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import type { Cluster, Redis } from "ioredis";
+import { redisConnectionManager } from "../../utils/RedisConnection";
+
+export interface AgentSession {
+  sessionId: string;
+  agentId?: string;
+  ticketId?: string;
+  created: string;
+  lastUpdated: string;
+}
+
+export interface AgentSessionStore<T extends AgentSession> {
+  get(sessionId: string): Promise<T | null>;
+  // The latest session of an agent on a ticket (or outside any ticket)
+  find(agentId: string, ticketId?: string): Promise<T | null>;
+  save(session: T): Promise<void>;
+  // Most recently updated first
+  list(limit?: number): Promise<T[]>;
+}
+
+// Sessions idle for a week are dropped
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const ownerKey = (agentId: string, ticketId?: string) =>
+  `${agentId}:${ticketId || "-"}`;
+
+export class MemoryAgentSessionStore<T extends AgentSession>
+  implements AgentSessionStore<T>
+{
+  private sessions = new Map<string, string>();
+
+  async get(sessionId: string): Promise<T | null> {
+    const raw = this.sessions.get(sessionId);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async find(agentId: string, ticketId?: string): Promise<T | null> {
+    const owner = ownerKey(agentId, ticketId);
+    return (
+      (await this.list(Infinity)).find(
+        (session) =>
+          session.agentId &&
+          ownerKey(session.agentId, session.ticketId) === owner,
+      ) ?? null
+    );
+  }
+
+  async save(session: T): Promise<void> {
+    this.sessions.set(session.sessionId, JSON.stringify(session));
+  }
+
+  async list(limit: number = 50): Promise<T[]> {
+    return [...this.sessions.values()]
+      .map((raw) => JSON.parse(raw) as T)
+      .sort((a, b) => b.lastUpdated.localeCompare(a.lastUpdated))
+      .slice(0, limit);
+  }
+}
+
+/**
+ * One JSON document per session, a pointer from agent and ticket to the
+ * latest session and a sorted index by last update
+ */
+export class RedisAgentSessionStore<T extends AgentSession>
+  implements AgentSessionStore<T>
+{
+  constructor(
+    private connection: () => Promise<Redis | Cluster>,
+    private prefix: string,
+    private ttlSeconds: number = SESSION_TTL_SECONDS,
+  ) {}
+
+  async get(sessionId: string): Promise<T | null> {
+    const redis = await this.connection();
+    const raw = await redis.get(this.key(sessionId));
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async find(agentId: string, ticketId?: string): Promise<T | null> {
+    const redis = await this.connection();
+    const sessionId = await redis.get(
+      `${this.prefix}:owner:${ownerKey(agentId, ticketId)}`,
+    );
+    return sessionId ? this.get(sessionId) : null;
+  }
+
+  async save(session: T): Promise<void> {
+    const redis = await this.connection();
+    await redis.set(
+      this.key(session.sessionId),
+      JSON.stringify(session),
+      "EX",
+      this.ttlSeconds,
+    );
+    if (session.agentId) {
+      await redis.set(
+        `${this.prefix}:owner:${ownerKey(session.agentId, session.ticketId)}`,
+        session.sessionId,
+        "EX",
+        this.ttlSeconds,
+      );
+    }
+    await redis.zadd(
+      `${this.prefix}:index`,
+      Date.parse(session.lastUpdated),
+      session.sessionId,
+    );
+  }
+
+  async list(limit: number = 50): Promise<T[]> {
+    const redis = await this.connection();
+    const ids = await redis.zrevrange(`${this.prefix}:index`, 0, limit - 1);
+    const sessions: (T | null)[] = await Promise.all(
+      ids.map((id) => this.get(id)),
+    );
+    // Expired sessions are dropped from the index lazily
+    const expired = ids.filter((_, i) => !sessions[i]);
+    if (expired.length > 0) {
+      await redis.zrem(`${this.prefix}:index`, ...expired);
+    }
+    return sessions.filter((session): session is T => session !== null);
+  }
+
+  private key(sessionId: string): string {
+    return `${this.prefix}:session:${sessionId}`;
+  }
+}
+
+/**
+ * Redis store under a prefix; AI_SESSION_STORE=memory keeps the sessions in
+ * the process for a single instance without Redis
+ */
+export function defaultAgentSessionStore<T extends AgentSession>(
+  prefix: string,
+): AgentSessionStore<T> {
+  return process.env.AI_SESSION_STORE === "memory"
+    ? new MemoryAgentSessionStore<T>()
+    : new RedisAgentSessionStore<T>(
+        () => redisConnectionManager.connect(),
+        prefix,
+      );
+}
@@ -0,0 +1,591 @@
+/**
+ * Chat Session Service - Persistent AI chat sessions grounded on the ticket being worked
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import {
+  estimateTokens,
+  type GatewayMessage,
+  type GatewayRequest,
+  type LLMGateway,
+} from "../../clients/LLMGateway";
+import type { ConsolidatedServiceNowService } from "../ConsolidatedServiceNowService";
+import type { TicketSLASummary } from "../../types/servicenow";
+import { searchTerms, snippet } from "../attachments/AttachmentIndexStore";
+import type { AgentSession, AgentSessionStore } from "./AgentSessionStore";
+import { logger } from "../../utils/Logger";
+
+export type CitationType = "note" | "sla" | "attachment" | "kb";
+
+export interface ChatCitation {
+  type: CitationType;
+  // sys_id of the note or attachment, ticket number for the SLA, KB title
+  ref: string;
+  label: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: string;
+  confidence?: number;
+  citations?: ChatCitation[];
+}
+
+export interface PinnedNote {
+  sysId: string;
+  text: string;
+  author: string;
+  createdOn: string;
+  workNote: boolean;
+}
+
+export interface PinnedAttachment {
+  sysId: string;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+}
+
+/**
+ * What the session knows about its ticket, refreshed when older than the
+ * context TTL
+ */
+export interface TicketContext {
+  ticketId: string;
+  table: string;
+  sysId?: string;
+  notes: PinnedNote[];
+  sla: TicketSLASummary | null;
+  attachments: PinnedAttachment[];
+  pinnedAt: string;
+}
+
+export interface ChatSession extends AgentSession {
+  messages: ChatMessage[];
+  // Messages before this index are folded into the summary
+  summarizedCount: number;
+  summary?: string;
+  ticket?: TicketContext;
+}
+
+export interface KnowledgeDocument {
+  title: string;
+  content: string;
+}
+
+export interface ContextPassage {
+  citation: ChatCitation;
+  text: string;
+  score: number;
+}
+
+export type TicketContextSource = Pick<
+  ConsolidatedServiceNowService,
+  "query" | "getTicketNotes" | "getTaskSLASummary" | "listAttachments"
+>;
+
+export type ChatModel = Pick<LLMGateway, "chat" | "complete" | "stream">;
+
+export interface ChatSessionServiceOptions {
+  store: AgentSessionStore<ChatSession>;
+  tickets: TicketContextSource;
+  llm: ChatModel;
+  knowledge?: (query: string) => Promise<KnowledgeDocument[]>;
+  // Tokens of summary plus unsummarized messages sent with each question
+  historyTokens?: number;
+  // Latest messages never folded into the summary
+  keepRecent?: number;
+  contextTtlMs?: number;
+  maxPassages?: number;
+}
+
+// Oldest summarized messages are dropped past this size
+const MAX_STORED_MESSAGES = 200;
+
+// Gateway feature of the chat, for its token budgets and concurrency
+const FEATURE = "ai-chat";
+
+export function ticketTable(ticketId: string): string {
+  const number = ticketId.toUpperCase();
+  if (number.startsWith("CHG")) return "change_request";
+  if (number.startsWith("CTASK")) return "change_task";
+  if (number.startsWith("SCTASK")) return "sc_task";
+  return "incident";
+}
+
+// Words too common in questions to tell passages apart
+const STOPWORDS = new Set([
+  "que",
+  "com",
+  "para",
+  "por",
+  "uma",
+  "dos",
+  "das",
+  "nos",
+  "nas",
+  "qual",
+  "como",
+  "está",
+  "foi",
+  "ser",
+  "não",
+  "sobre",
+  "este",
+  "esse",
+  "isso",
+  "the",
+  "and",
+  "what",
+  "how",
+]);
+
+const questionTerms = (question: string): string[] =>
+  searchTerms(question).filter(
+    (term) => term.length > 2 && !STOPWORDS.has(term),
+  );
+
+// Reference fields come back either raw or as display/value pairs
+const plain = (field: any): string =>
+  typeof field === "object" && field !== null
+    ? String(field.value ?? "")
+    : String(field ?? "");
+
+export class ChatSessionService {
+  private historyTokens: number;
+  private keepRecent: number;
+  private contextTtlMs: number;
+  private maxPassages: number;
+
+  constructor(private options: ChatSessionServiceOptions) {
+    this.historyTokens = options.historyTokens ?? 1500;
+    this.keepRecent = options.keepRecent ?? 4;
+    this.contextTtlMs = options.contextTtlMs ?? 15 * 60 * 1000;
+    this.maxPassages = options.maxPassages ?? 4;
+  }
+
+  get(sessionId: string): Promise<ChatSession | null> {
+    return this.options.store.get(sessionId);
+  }
+
+  /**
+   * The given session, else the latest one of the agent on the ticket, else
+   * a new one; the ticket context is pinned or refreshed on the way
+   */
+  async open(request: {
+    sessionId?: string;
+    agentId: string;
+    ticketId?: string;
+  }): Promise<ChatSession> {
+    const { store } = this.options;
+    let session =
+      (request.sessionId && (await store.get(request.sessionId))) ||
+      (await store.find(request.agentId, request.ticketId));
+
+    if (!session) {
+      const now = new Date().toISOString();
+      session = {
+        sessionId: request.sessionId || generateSessionId(),
+        agentId: request.agentId,
+        ticketId: request.ticketId,
+        messages: [],
+        summarizedCount: 0,
+        created: now,
+        lastUpdated: now,
+      };
+    }
+
+    if (session.ticketId && this.isStale(session.ticket)) {
+      session.ticket = await this.pinTicket(session.ticketId);
+    }
+    await store.save(session);
+    return session;
+  }
+
+  /**
+   * Notes, SLA state and attachments of a ticket; whatever can't be fetched
+   * is left empty so the chat still works
+   */
+  async pinTicket(ticketId: string): Promise<TicketContext> {
+    const { tickets } = this.options;
+    const table = ticketTable(ticketId);
+    const context: TicketContext = {
+      ticketId,
+      table,
+      notes: [],
+      sla: null,
+      attachments: [],
+      pinnedAt: new Date().toISOString(),
+    };
+
+    try {
+      const [record] = await tickets.query({
+        table,
+        filter: `number=${ticketId}`,
+        fields: ["sys_id"],
+        limit: 1,
+      });
+      context.sysId = record ? plain(record.sys_id) : undefined;
+    } catch (error: unknown) {
+      logger.warn(
+        `[ChatSession] Ticket ${ticketId} lookup failed`,
+        "ChatSession",
+        {
+          error: String(error),
+        },
+      );
+    }
+
+    const [notes, sla, attachments] = await Promise.allSettled([
+      context.sysId
+        ? tickets.getTicketNotes(table, context.sysId)
+        : Promise.resolve([]),
+      tickets.getTaskSLASummary(ticketId),
+      context.sysId
+        ? tickets.listAttachments(table, context.sysId)
+        : Promise.resolve([]),
+    ]);
+
+    if (notes.status === "fulfilled") {
+      context.notes = notes.value
+        .filter((note) => note.value)
+        .map((note) => ({
+          sysId: note.sys_id,
+          text: note.value,
+          author: note.sys_created_by.display_value,
+          createdOn: note.sys_created_on,
+          workNote: note.work_notes === true,
+        }));
+    }
+    if (sla.status === "fulfilled") {
+      context.sla = sla.value;
+    }
+    if (attachments.status === "fulfilled") {
+      context.attachments = attachments.value.map((attachment) => ({
+        sysId: plain(attachment.sys_id),
+        fileName: plain(attachment.file_name),
+        contentType: plain(attachment.content_type),
+        sizeBytes: attachment.size_bytes,
+      }));
+    }
+    return context;
+  }
+
+  /**
+   * Pinned ticket passages sharing terms with the question, best first
+   */
+  retrieve(session: ChatSession, question: string): ContextPassage[] {
+    const terms = questionTerms(question);
+    if (!session.ticket || terms.length === 0) {
+      return [];
+    }
+    return ticketPassages(session.ticket)
+      .map((passage) => ({
+        ...passage,
+        score: terms.filter((term) => passage.text.toLowerCase().includes(term))
+          .length,
+      }))
+      .filter((passage) => passage.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.maxPassages);
+  }
+
+  /**
+   * Answers a question with the session history, the pinned ticket context
+   * and the knowledge base, citing the passages the answer used; with
+   * onToken the answer is streamed as it is generated
+   */
+  async ask(
+    session: ChatSession,
+    question: string,
+    onToken?: (token: string) => void,
+  ): Promise<{ question: ChatMessage; answer: ChatMessage }> {
+    const asked = createChatMessage("user", question);
+    session.messages.push(asked);
+
+    const passages = [
+      ...this.retrieve(session, question),
+      ...(await this.searchKnowledge(question)),
+    ];
+    const reply = await this.answer(session, question, passages, onToken);
+
+    session.messages.push(reply);
+    await this.compact(session);
+    session.lastUpdated = new Date().toISOString();
+    await this.options.store.save(session);
+    return { question: asked, answer: reply };
+  }
+
+  /**
+   * Appends messages produced outside the model, e.g. quick actions
+   */
+  async record(
+    session: ChatSession,
+    ...messages: ChatMessage[]
+  ): Promise<void> {
+    session.messages.push(...messages);
+    await this.compact(session);
+    session.lastUpdated = new Date().toISOString();
+    await this.options.store.save(session);
+  }
+
+  /**
+   * History sent to the model: the summary, then the unsummarized messages
+   */
+  history(session: ChatSession): GatewayMessage[] {
+    const history: GatewayMessage[] = session.summary
+      ? [
+          {
+            role: "system",
+            content: `Resumo da conversa até aqui: ${session.summary}`,
+          },
+        ]
+      : [];
+    return history.concat(
+      session.messages
+        .slice(session.summarizedCount)
+        .map((entry) => ({ role: entry.role, content: entry.content })),
+    );
+  }
+
+  /**
+   * Folds the oldest messages into the summary once the history exceeds the
+   * token budget; without the model the summary is the tail of the text
+   */
+  async compact(session: ChatSession): Promise<void> {
+    const pending = session.messages.slice(session.summarizedCount);
+    const used =
+      estimateTokens(session.summary ?? "") +
+      pending.reduce((sum, entry) => sum + estimateTokens(entry.content), 0);
+    const fold = pending.slice(
+      0,
+      Math.max(0, pending.length - this.keepRecent),
+    );
+
+    if (used > this.historyTokens && fold.length > 0) {
+      const text = [
+        session.summary ? `Resumo anterior: ${session.summary}` : "",
+        ...fold.map(
+          (entry) =>
+            `${entry.role === "user" ? "Agente" : "Assistente"}: ${entry.content}`,
+        ),
+      ]
+        .filter(Boolean)
+        .join("\n");
+      // Half of the budget for the summary, in characters
+      const maxLength = Math.floor(this.historyTokens / 2) * 4;
+
+      try {
+        session.summary = (
+          await this.options.llm.complete(FEATURE, text, {
+            system: `Resuma a conversa a seguir em até ${maxLength} caracteres, mantendo fatos, decisões e pendências.`,
+            temperature: 0.2,
+            maxTokens: Math.ceil(maxLength / 4),
+          })
+        ).slice(0, maxLength);
+      } catch (error: unknown) {
+        logger.warn(
+          "[ChatSession] Summarization failed, truncating",
+          "ChatSession",
+          {
+            error: String(error),
+          },
+        );
+        session.summary = text.slice(-maxLength);
+      }
+      session.summarizedCount += fold.length;
+    }
+
+    const overflow = Math.min(
+      session.messages.length - MAX_STORED_MESSAGES,
+      session.summarizedCount,
+    );
+    if (overflow > 0) {
+      session.messages.splice(0, overflow);
+      session.summarizedCount -= overflow;
+    }
+  }
+
+  private isStale(context?: TicketContext): boolean {
+    return (
+      !context || Date.now() - Date.parse(context.pinnedAt) > this.contextTtlMs
+    );
+  }
+
+  private async searchKnowledge(question: string): Promise<ContextPassage[]> {
+    if (!this.options.knowledge) {
+      return [];
+    }
+    try {
+      const documents = await this.options.knowledge(question);
+      return documents.slice(0, 2).map((document, index) => ({
+        citation: { type: "kb", ref: document.title, label: document.title },
+        text: document.content.substring(0, 1200),
+        score: documents.length - index,
+      }));
+    } catch (error: unknown) {
+      logger.warn("[ChatSession] Knowledge base search failed", "ChatSession", {
+        error: String(error),
+      });
+      return [];
+    }
+  }
+
+  private async answer(
+    session: ChatSession,
+    question: string,
+    passages: ContextPassage[],
+    onToken?: (token: string) => void,
+  ): Promise<ChatMessage> {
+    const context = passages
+      .map(
+        (passage, index) =>
+          `[${index + 1}] ${passage.citation.label}\n${passage.text}`,
+      )
+      .join("\n\n");
+
+    try {
+      const request: GatewayRequest = {
+        messages: [
+          {
+            role: "system",
+            content: `Você é um assistente de suporte técnico que ajuda agentes do ServiceNow. Responda em português, de forma objetiva.${
+              session.ticket
+                ? ` O agente está trabalhando no ticket ${session.ticket.ticketId}.`
+                : ""
+            }${
+              context
+                ? ` Use o contexto abaixo e cite as fontes usadas pelo número entre colchetes, como [1].\n\n${context}`
+                : " Não há notas do ticket nem documentos relacionados a esta pergunta."
+            }`,
+          },
+          ...this.history(session),
+        ],
+        temperature: 0.3,
+      };
+      let content = "";
+      if (onToken) {
+        for await (const token of this.options.llm.stream(FEATURE, request)) {
+          content += token;
+          onToken(token);
+        }
+      } else {
+        content = (await this.options.llm.chat(FEATURE, request)).content;
+      }
+      content = content.trim();
+      // Only the passages the answer refers to; all of them when it cites none
+      const cited = passages.filter((_, index) =>
+        content.includes(`[${index + 1}]`),
+      );
+      return createChatMessage("assistant", content, {
+        confidence: passages.length > 0 ? 0.85 : 0.6,
+        citations: (cited.length > 0 ? cited : passages).map(
+          (passage) => passage.citation,
+        ),
+      });
+    } catch (error: unknown) {
+      logger.error(
+        "[ChatSession] Answer generation failed",
+        error as Error,
+        "ChatSession",
+      );
+    }
+
+    if (passages.length === 0) {
+      return createChatMessage(
+        "assistant",
+        `Entendi sua pergunta sobre "${question}".
+
+Infelizmente, não encontrei informações específicas nas notas do ticket nem na base de conhecimento no momento. Posso sugerir:
+
+1. **Verificar documentação técnica** relacionada ao tópico
+2. **Consultar tickets similares** no histórico
+3. **Contatar especialista** da área correspondente
+
+Posso ajudá-lo de outra forma? Tente ser mais específico sobre o problema ou tecnologia.`,
+        { confidence: 0.6 },
+      );
+    }
+
+    // Without the model the passages are quoted as they are
+    const terms = questionTerms(question);
+    const quoted = passages
+      .map(
+        (passage, index) =>
+          `**${index + 1}. ${passage.citation.label}**\n${snippet(passage.text, terms, 300)}`,
+      )
+      .join("\n\n");
+    return createChatMessage(
+      "assistant",
+      `Encontrei as seguintes informações:\n\n${quoted}`,
+      {
+        confidence: 0.7,
+        citations: passages.map((passage) => passage.citation),
+      },
+    );
+  }
+}
+
+function ticketPassages(
+  ticket: TicketContext,
+): Omit<ContextPassage, "score">[] {
+  const passages: Omit<ContextPassage, "score">[] = ticket.notes.map(
+    (note) => ({
+      citation: {
+        type: "note",
+        ref: note.sysId,
+        label: `${note.workNote ? "Nota de trabalho" : "Comentário"} de ${note.author} (${note.createdOn})`,
+      },
+      text: note.text,
+    }),
+  );
+
+  if (ticket.sla) {
+    const { sla } = ticket;
+    passages.push({
+      citation: {
+        type: "sla",
+        ref: ticket.ticketId,
+        label: `SLA de ${ticket.ticketId}`,
+      },
+      text: [
+        `SLA prazo: ${sla.total_slas} SLA(s), ${sla.active_slas} ativo(s), ${sla.breached_slas} violado(s) (breach).`,
+        ...sla.all_slas.map(
+          (entry) =>
+            `${entry.sla_name}: ${entry.business_percentage}% do prazo, estágio ${entry.stage}${entry.has_breached ? ", violado" : ""}.`,
+        ),
+      ].join("\n"),
+    });
+  }
+
+  for (const attachment of ticket.attachments) {
+    passages.push({
+      citation: {
+        type: "attachment",
+        ref: attachment.sysId,
+        label: `Anexo ${attachment.fileName}`,
+      },
+      text: `Anexo ${attachment.fileName} (${attachment.contentType}, ${attachment.sizeBytes} bytes)`,
+    });
+  }
+  return passages;
+}
+
+export function createChatMessage(
+  role: ChatMessage["role"],
+  content: string,
+  extra: Pick<ChatMessage, "confidence" | "citations"> = {},
+): ChatMessage {
+  return {
+    id: `msg_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+    role,
+    content,
+    timestamp: new Date().toISOString(),
+    ...extra,
+  };
+}
+
+export function generateSessionId(): string {
+  return `chat_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+}
@@ -4,7 +4,11 @@
  */
 
 import { ServiceNowAuthClient } from "../ServiceNowAuthClient";
-import { LLMClient } from "../../clients/LLMClient";
+import {
+  llmGateway,
+  type JSONSchema,
+  type LLMGateway,
+} from "../../clients/LLMGateway";
 import { EmbeddingClient } from "../../clients/EmbeddingClient";
 import { logger } from "../../utils/Logger";
 
@@ -61,16 +65,33 @@ export interface PatternInsight {
   businessValue: string;
 }
 
+const factor: JSONSchema = { type: "integer" };
+const COMPLEXITY_SCHEMA: JSONSchema = {
+  type: "object",
+  properties: {
+    technical_complexity: factor,
+    business_impact: factor,
+    resource_requirements: factor,
+    urgency: factor,
+  },
+  required: [
+    "technical_complexity",
+    "business_impact",
+    "resource_requirements",
+    "urgency",
+  ],
+};
+
 export class PredictiveAnalyticsService {
   private serviceNowClient: ServiceNowAuthClient;
-  private llmClient: LLMClient;
+  private llm: LLMGateway;
   private embeddingClient: EmbeddingClient;
   private predictionCache: Map<string, { data: any; timestamp: number }>;
   private readonly CACHE_TTL = 15 * 60 * 1000; // 15 minutes
 
-  constructor() {
+  constructor(llm: LLMGateway = llmGateway()) {
     this.serviceNowClient = new ServiceNowAuthClient();
-    this.llmClient = new LLMClient();
+    this.llm = llm;
     this.embeddingClient = new EmbeddingClient();
     this.predictionCache = new Map();
 
@@ -352,15 +373,13 @@ export class PredictiveAnalyticsService {
       Category: ${ticket.category}
       Priority: ${ticket.priority}
 
-      Rate the complexity factors on a scale of 1-10 and provide reasoning.
-      Return JSON with: { technical_complexity, business_impact, resource_requirements, urgency }`;
-
-      const response = await this.llmClient.generateCompletion(prompt, {
-        temperature: 0.3,
-        max_tokens: 300,
-      });
+      Rate the complexity factors on a scale of 1-10.`;
 
-      return JSON.parse(response);
+      return await this.llm.json(
+        "predictive-analytics",
+        { messages: [{ role: "user", content: prompt }], temperature: 0.3 },
+        COMPLEXITY_SCHEMA,
+      );
     } catch (error: unknown) {
       logger.warn("[PredictiveAnalytics] Complexity analysis failed:", error);
       return {
@@ -6,6 +6,7 @@
 import { AIService } from "./AIServiceManager";
 import { DocumentIntelligenceService } from "./DocumentIntelligenceService";
 import { ServiceNowAuthClient } from "../ServiceNowAuthClient";
+import type { LLMGateway, LLMTool } from "../../clients/LLMGateway";
 import { logger } from "../../utils/Logger";
 import {
   AIRequest,
@@ -44,6 +45,7 @@ export interface TicketIntelligenceConfig {
     auth_token: string;
   };
   document_intelligence: DocumentIntelligenceService;
+  llm: LLMGateway;
   similarity_threshold: number;
   max_similar_tickets: number;
   max_suggestions: number;
@@ -475,9 +477,101 @@ export class TicketIntelligenceService extends AIService {
       });
     }
 
+    if (suggestions.length === 0) {
+      const suggestion = await this.suggestWithModel(
+        ticketData,
+        classification,
+      );
+      if (suggestion) suggestions.push(suggestion);
+    }
+
     return suggestions;
   }
 
+  /**
+   * Asks the model for resolution steps when no document has any; it may
+   * search the knowledge base itself through a tool
+   */
+  private async suggestWithModel(
+    ticketData: any,
+    classification: TicketClassification,
+  ): Promise<ResolutionSuggestion | null> {
+    const searchTool: LLMTool = {
+      name: "search_documents",
+      description:
+        "Search the support knowledge base and past tickets. Returns titles and excerpts.",
+      parameters: {
+        type: "object",
+        properties: { query: { type: "string" } },
+        required: ["query"],
+      },
+    };
+
+    try {
+      const result = await this.config.llm.runTools(
+        "ticket-intelligence",
+        {
+          messages: [
+            {
+              role: "system",
+              content:
+                "You are an expert IT support analyst. Give numbered resolution steps, one per line. Search the knowledge base when it helps.",
+            },
+            {
+              role: "user",
+              content: `Ticket: ${ticketData.short_description || "N/A"}
+Description: ${ticketData.description || "N/A"}
+Category: ${classification.category}
+Technologies: ${classification.technology.join(", ") || "N/A"}
+Support group: ${classification.support_group}`,
+            },
+          ],
+          tools: [searchTool],
+          temperature: 0.2,
+        },
+        {
+          search_documents: async (args) => {
+            const response = await this.documentIntelligence.execute({
+              type: "search_documents",
+              data: {
+                query: String(args.query ?? ""),
+                search_options: { size: 3, search_type: "hybrid" },
+              },
+            });
+            return ((response.data as SearchResult[]) || []).map(
+              (document) => ({
+                title: document.title,
+                excerpt: document.content.substring(0, 500),
+              }),
+            );
+          },
+        },
+      );
+
+      const steps = this.extractSteps(result.content);
+      if (steps.length === 0) {
+        return null;
+      }
+      return {
+        id: "suggestion_llm",
+        title: `Suggested resolution for ${classification.category}`,
+        description: this.generateSuggestionDescription(result.content),
+        source_type: "knowledge_base",
+        source_id: result.model,
+        confidence: 0.5,
+        estimated_time: this.estimateTimeFromSteps(steps),
+        steps,
+      };
+    } catch (error: unknown) {
+      logger.warn(
+        " [TicketIntelligence] Model suggestion failed",
+        "TicketIntelligence",
+        { error: String(error) },
+      );
+      return null;
+    }
+  }
+
   private async estimateResolutionTimeInternal(
     ticketData: any,
     classification: TicketClassification,
@@ -0,0 +1,248 @@
+/**
+ * Attachment Index Stores - Extracted attachment text, deduplicated by content hash
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * Contents are keyed by the sha256 of the file, so a log bundle attached to
+ * ten tickets is extracted and stored once; links map each sys_attachment
+ * row to its content and parent ticket.
+ */
+import type { Collection } from "mongodb";
+
+export interface AttachmentContent {
+  hash: string; // sha256 hex of the file
+  text: string;
+  metadata: Record<string, string>;
+  content_type: string;
+  size_bytes: number;
+  extracted_at: string;
+}
+
+export interface AttachmentLink {
+  attachment_sys_id: string;
+  hash: string;
+  file_name: string;
+  table: string; // parent ticket table
+  table_sys_id: string;
+  number?: string;
+  short_description?: string;
+  indexed_at: string;
+}
+
+export interface AttachmentMatch {
+  link: AttachmentLink;
+  score: number; // 0..1
+  snippet: string;
+}
+
+export interface AttachmentSearchOptions {
+  table?: string;
+  limit?: number;
+}
+
+export interface AttachmentIndexStats {
+  contents: number;
+  links: number;
+}
+
+export interface AttachmentIndexStore {
+  getContent(hash: string): Promise<AttachmentContent | null>;
+  saveContent(content: AttachmentContent): Promise<void>;
+  getLink(attachmentSysId: string): Promise<AttachmentLink | null>;
+  saveLink(link: AttachmentLink): Promise<void>;
+  search(
+    query: string,
+    options?: AttachmentSearchOptions,
+  ): Promise<AttachmentMatch[]>;
+  stats(): Promise<AttachmentIndexStats>;
+}
+
+export function searchTerms(query: string): string[] {
+  return [
+    ...new Set(
+      query
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}_.-]+/u)
+        .filter((term) => term.length >= 2),
+    ),
+  ];
+}
+
+/**
+ * Text around the first matching term
+ */
+export function snippet(text: string, terms: string[], width = 160): string {
+  const lower = text.toLowerCase();
+  const at = terms
+    .map((term) => lower.indexOf(term))
+    .filter((index) => index >= 0)
+    .sort((a, b) => a - b)[0];
+  const start = Math.max(0, (at ?? 0) - width / 2);
+  const excerpt = text
+    .slice(start, start + width)
+    .replace(/\s+/g, " ")
+    .trim();
+  return `${start > 0 ? "…" : ""}${excerpt}${start + width < text.length ? "…" : ""}`;
+}
+
+export class MemoryAttachmentIndexStore implements AttachmentIndexStore {
+  private contents = new Map<string, AttachmentContent>();
+  private links = new Map<string, AttachmentLink>();
+
+  async getContent(hash: string): Promise<AttachmentContent | null> {
+    const content = this.contents.get(hash);
+    return content ? structuredClone(content) : null;
+  }
+
+  async saveContent(content: AttachmentContent): Promise<void> {
+    this.contents.set(content.hash, structuredClone(content));
+  }
+
+  async getLink(attachmentSysId: string): Promise<AttachmentLink | null> {
+    const link = this.links.get(attachmentSysId);
+    return link ? structuredClone(link) : null;
+  }
+
+  async saveLink(link: AttachmentLink): Promise<void> {
+    this.links.set(link.attachment_sys_id, structuredClone(link));
+  }
+
+  /**
+   * Score is the share of query terms found in the text
+   */
+  async search(
+    query: string,
+    options: AttachmentSearchOptions = {},
+  ): Promise<AttachmentMatch[]> {
+    const terms = searchTerms(query);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const scores = new Map<string, number>();
+    for (const content of this.contents.values()) {
+      const text = content.text.toLowerCase();
+      const found = terms.filter((term) => text.includes(term)).length;
+      if (found > 0) {
+        scores.set(content.hash, found / terms.length);
+      }
+    }
+
+    return [...this.links.values()]
+      .filter(
+        (link) =>
+          scores.has(link.hash) &&
+          (!options.table || link.table === options.table),
+      )
+      .map((link) => ({
+        link: structuredClone(link),
+        score: scores.get(link.hash)!,
+        snippet: snippet(this.contents.get(link.hash)!.text, terms),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? 20);
+  }
+
+  async stats(): Promise<AttachmentIndexStats> {
+    return { contents: this.contents.size, links: this.links.size };
+  }
+}
+
+/**
+ * Contents in sn_attachment_contents (text index), links in sn_attachment_links
+ */
+export class MongoAttachmentIndexStore implements AttachmentIndexStore {
+  constructor(
+    private contents: () => Collection<AttachmentContent>,
+    private links: () => Collection<AttachmentLink>,
+  ) {}
+
+  async getContent(hash: string): Promise<AttachmentContent | null> {
+    return this.contents().findOne({ hash }, { projection: { _id: 0 } });
+  }
+
+  async saveContent(content: AttachmentContent): Promise<void> {
+    await this.contents().replaceOne({ hash: content.hash }, content, {
+      upsert: true,
+    });
+  }
+
+  async getLink(attachmentSysId: string): Promise<AttachmentLink | null> {
+    return this.links().findOne(
+      { attachment_sys_id: attachmentSysId },
+      { projection: { _id: 0 } },
+    );
+  }
+
+  async saveLink(link: AttachmentLink): Promise<void> {
+    await this.links().replaceOne(
+      { attachment_sys_id: link.attachment_sys_id },
+      link,
+      { upsert: true },
+    );
+  }
+
+  /**
+   * $text search over the contents; scores are normalised to the best hit
+   */
+  async search(
+    query: string,
+    options: AttachmentSearchOptions = {},
+  ): Promise<AttachmentMatch[]> {
+    const terms = searchTerms(query);
+    if (terms.length === 0) {
+      return [];
+    }
+    const limit = options.limit ?? 20;
+
+    const hits = await this.contents()
+      .find(
+        { $text: { $search: query } },
+        {
+          projection: {
+            _id: 0,
+            hash: 1,
+            text: 1,
+            score: { $meta: "textScore" },
+          },
+        },
+      )
+      .sort({ score: { $meta: "textScore" } })
+      .limit(limit)
+      .toArray();
+    if (hits.length === 0) {
+      return [];
+    }
+
+    const best = Math.max(...hits.map((hit: any) => hit.score));
+    const byHash = new Map(hits.map((hit: any) => [hit.hash, hit]));
+    const links = await this.links()
+      .find(
+        {
+          hash: { $in: [...byHash.keys()] },
+          ...(options.table ? { table: options.table } : {}),
+        },
+        { projection: { _id: 0 } },
+      )
+      .limit(limit)
+      .toArray();
+
+    return links
+      .map((link) => {
+        const hit: any = byHash.get(link.hash);
+        return {
+          link,
+          score: best > 0 ? hit.score / best : 0,
+          snippet: snippet(hit.text, terms),
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  async stats(): Promise<AttachmentIndexStats> {
+    const [contents, links] = await Promise.all([
+      this.contents().countDocuments(),
+      this.links().countDocuments(),
+    ]);
+    return { contents, links };
+  }
+}
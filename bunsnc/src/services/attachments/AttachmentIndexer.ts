@@ -0,0 +1,250 @@
+/**
+ * Attachment Indexer - Extract and index the text of new ticket attachments
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * Walks sys_attachment by (sys_created_on, sys_id) from a durable cursor.
+ * Each file is hashed; a hash already in the store is only linked to the new
+ * ticket, anything else goes through the extractor (Tika or its local
+ * stand-in) first. A failing attachment stops the run before the cursor
+ * passes it, so the task retry picks it up again.
+ */
+import type { TikaClient } from "../../clients/TikaClient";
+import { LocalTikaClient } from "../../clients/LocalTikaClient";
+import type { ServiceNowRecord } from "../../types/servicenow";
+import { logger } from "../../utils/Logger";
+import {
+  MemorySyncCursorStore,
+  type SyncCursor,
+  type SyncCursorStore,
+} from "../sync/SyncCursorStore";
+import { plainValue } from "../sync/SyncMirror";
+import { keysetQuery, type WatermarkSource } from "../sync/WatermarkSyncEngine";
+import type {
+  AttachmentIndexStore,
+  AttachmentLink,
+} from "./AttachmentIndexStore";
+
+export type TextExtractor = Pick<TikaClient, "extractFull">;
+
+export interface AttachmentFiles {
+  getFileContent(sysId: string): Promise<ArrayBuffer>;
+}
+
+export interface AttachmentIndexerOptions {
+  source: WatermarkSource; // sys_attachment rows and parent tickets
+  files: AttachmentFiles;
+  store: AttachmentIndexStore;
+  extractor?: TextExtractor; // default LocalTikaClient
+  cursors?: SyncCursorStore;
+  query?: string; // sys_attachment filter (default: ticket tables)
+  pageSize?: number; // default 100
+  maxBytes?: number; // larger files are skipped (default 50 MiB)
+  maxTextLength?: number; // characters kept per content (default 1M)
+}
+
+export type AttachmentIndexOutcome = "indexed" | "deduplicated" | "skipped";
+
+export interface AttachmentIndexResult {
+  processed: number;
+  indexed: number;
+  deduplicated: number;
+  skipped: number;
+  cursor: SyncCursor;
+  duration: number;
+}
+
+const ATTACHMENT_TABLE = "sys_attachment";
+const TIMESTAMP_FIELD = "sys_created_on";
+const DEFAULT_QUERY = "table_nameINincident,change_task,sc_task";
+const FIELDS = [
+  "sys_id",
+  "sys_created_on",
+  "file_name",
+  "content_type",
+  "size_bytes",
+  "hash",
+  "table_name",
+  "table_sys_id",
+];
+
+function text(value: any): string {
+  return String(plainValue(value) ?? "");
+}
+
+export class AttachmentIndexer {
+  readonly cursors: SyncCursorStore;
+  private extractor: TextExtractor;
+  private query: string;
+  private pageSize: number;
+  private maxBytes: number;
+  private maxTextLength: number;
+
+  constructor(private options: AttachmentIndexerOptions) {
+    this.cursors = options.cursors ?? new MemorySyncCursorStore();
+    this.extractor = options.extractor ?? new LocalTikaClient();
+    this.query = options.query ?? DEFAULT_QUERY;
+    this.pageSize = options.pageSize ?? 100;
+    this.maxBytes = options.maxBytes ?? 50 * 1024 * 1024;
+    this.maxTextLength = options.maxTextLength ?? 1_000_000;
+  }
+
+  /**
+   * Index attachments created since the last run, at most `limit` of them
+   */
+  async run(limit: number = Infinity): Promise<AttachmentIndexResult> {
+    const started = Date.now();
+    const now = new Date().toISOString();
+    const cursor: SyncCursor = (await this.cursors.load(
+      ATTACHMENT_TABLE,
+      this.query,
+    )) ?? {
+      table: ATTACHMENT_TABLE,
+      query: this.query,
+      position: null,
+      deletions: null,
+      reconciled_at: null,
+      created_at: now,
+      updated_at: now,
+    };
+    const result: AttachmentIndexResult = {
+      processed: 0,
+      indexed: 0,
+      deduplicated: 0,
+      skipped: 0,
+      cursor,
+      duration: 0,
+    };
+    const parents = new Map<string, ServiceNowRecord | null>();
+
+    while (result.processed < limit) {
+      const rows = await this.options.source.query({
+        table: ATTACHMENT_TABLE,
+        filter: keysetQuery(this.query, TIMESTAMP_FIELD, cursor.position),
+        fields: FIELDS,
+        limit: Math.min(this.pageSize, limit - result.processed),
+      });
+
+      for (const row of rows) {
+        const outcome = await this.indexAttachment(row, parents);
+        result[outcome]++;
+        result.processed++;
+
+        cursor.position = {
+          timestamp: text(row[TIMESTAMP_FIELD]),
+          sys_id: text(row.sys_id),
+        };
+        cursor.updated_at = new Date().toISOString();
+        await this.cursors.save(cursor);
+      }
+
+      if (rows.length < this.pageSize) {
+        break;
+      }
+    }
+
+    result.duration = Date.now() - started;
+    logger.info("Attachment indexing run finished", "AttachmentIndexer", {
+      processed: result.processed,
+      indexed: result.indexed,
+      deduplicated: result.deduplicated,
+      skipped: result.skipped,
+      duration: result.duration,
+    });
+    return result;
+  }
+
+  /**
+   * Link one sys_attachment row to its content, extracting it when new
+   */
+  async indexAttachment(
+    row: ServiceNowRecord,
+    parents: Map<string, ServiceNowRecord | null> = new Map(),
+  ): Promise<AttachmentIndexOutcome> {
+    const sysId = text(row.sys_id);
+    const store = this.options.store;
+    if (await store.getLink(sysId)) {
+      return "skipped";
+    }
+
+    const size = Number(text(row.size_bytes)) || 0;
+    const contentType = text(row.content_type) || "application/octet-stream";
+    let outcome: AttachmentIndexOutcome;
+    let hash = text(row.hash).toLowerCase();
+
+    try {
+      // The instance's own sha256 saves the download of a known file
+      if (/^[a-f0-9]{64}$/.test(hash) && (await store.getContent(hash))) {
+        outcome = "deduplicated";
+      } else if (size > this.maxBytes) {
+        return "skipped";
+      } else {
+        const file = Buffer.from(
+          await this.options.files.getFileContent(sysId),
+        );
+        hash = new Bun.CryptoHasher("sha256").update(file).digest("hex");
+
+        if (await store.getContent(hash)) {
+          outcome = "deduplicated";
+        } else {
+          const extracted = await this.extractor.extractFull(file, contentType);
+          await store.saveContent({
+            hash,
+            text: extracted.content.slice(0, this.maxTextLength),
+            metadata: Object.fromEntries(
+              Object.entries(extracted.metadata ?? {})
+                .filter(([, value]) => value !== undefined)
+                .map(([key, value]) => [key, String(value)]),
+            ),
+            content_type: contentType,
+            size_bytes: file.length,
+            extracted_at: new Date().toISOString(),
+          });
+          outcome = "indexed";
+        }
+      }
+
+      const table = text(row.table_name);
+      const parent = await this.parent(table, text(row.table_sys_id), parents);
+      const link: AttachmentLink = {
+        attachment_sys_id: sysId,
+        hash,
+        file_name: text(row.file_name),
+        table,
+        table_sys_id: text(row.table_sys_id),
+        indexed_at: new Date().toISOString(),
+      };
+      if (parent) {
+        link.number = text(parent.number);
+        link.short_description = text(parent.short_description);
+      }
+      await store.saveLink(link);
+      return outcome;
+    } catch (error: unknown) {
+      throw new Error(
+        `Indexing attachment ${sysId} failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  async reset(): Promise<void> {
+    await this.cursors.remove(ATTACHMENT_TABLE, this.query);
+  }
+
+  private async parent(
+    table: string,
+    sysId: string,
+    parents: Map<string, ServiceNowRecord | null>,
+  ): Promise<ServiceNowRecord | null> {
+    const key = `${table}:${sysId}`;
+    if (!parents.has(key)) {
+      const [record] = await this.options.source.query({
+        table,
+        filter: `sys_id=${sysId}`,
+        fields: ["number", "short_description"],
+        limit: 1,
+      });
+      parents.set(key, record ?? null);
+    }
+    return parents.get(key)!;
+  }
+}
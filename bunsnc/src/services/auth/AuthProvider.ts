@@ -0,0 +1,204 @@
+/**
+ * Auth Providers - Pluggable credentials for requests to the instance
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * A provider hands out the headers (and, for mutual TLS, the client
+ * certificate) of each request. Providers whose credentials expire implement
+ * refresh(), which authorizedFetch calls once when the instance answers 401.
+ */
+import { readFileSync } from "node:fs";
+
+export type AuthProviderType =
+  | "static"
+  | "basic"
+  | "api_key"
+  | "oauth2"
+  | "mtls";
+
+export interface ClientCertificate {
+  cert: string; // PEM
+  key: string; // PEM
+  ca?: string;
+  passphrase?: string;
+}
+
+export interface AuthProvider {
+  readonly type: AuthProviderType;
+  headers(): Promise<Record<string, string>>;
+  // Client certificate presented in the TLS handshake
+  tls?(): ClientCertificate | undefined;
+  // New credentials after a 401 on `rejected`; false when nothing changed
+  refresh?(rejected?: Record<string, string>): Promise<boolean>;
+}
+
+/**
+ * Fixed Authorization value: "Basic ...", "Bearer ..." or a bare token
+ */
+export class StaticAuthProvider implements AuthProvider {
+  readonly type = "static";
+
+  constructor(private authorization: string) {}
+
+  async headers(): Promise<Record<string, string>> {
+    return {
+      Authorization: /^\w+ /.test(this.authorization)
+        ? this.authorization
+        : `Bearer ${this.authorization}`,
+    };
+  }
+}
+
+export class BasicAuthProvider implements AuthProvider {
+  readonly type = "basic";
+  private authorization: string;
+
+  constructor(username: string, password: string) {
+    this.authorization = `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`;
+  }
+
+  async headers(): Promise<Record<string, string>> {
+    return { Authorization: this.authorization };
+  }
+}
+
+/**
+ * Inbound REST API key (System Web Services > API Access Policies)
+ */
+export class ApiKeyAuthProvider implements AuthProvider {
+  readonly type = "api_key";
+
+  constructor(
+    private apiKey: string,
+    private header = "x-sn-apikey",
+  ) {}
+
+  async headers(): Promise<Record<string, string>> {
+    return { [this.header]: this.apiKey };
+  }
+}
+
+/**
+ * Mutual TLS: the certificate authenticates the request; an inner provider
+ * may still add headers when the instance also requires them
+ */
+export class MutualTLSAuthProvider implements AuthProvider {
+  readonly type = "mtls";
+
+  constructor(
+    private certificate: ClientCertificate,
+    private inner?: AuthProvider,
+  ) {}
+
+  /**
+   * Certificate, key and CA read from PEM files
+   */
+  static fromFiles(
+    paths: { cert: string; key: string; ca?: string; passphrase?: string },
+    inner?: AuthProvider,
+  ): MutualTLSAuthProvider {
+    return new MutualTLSAuthProvider(
+      {
+        cert: readFileSync(paths.cert, "utf8"),
+        key: readFileSync(paths.key, "utf8"),
+        ca: paths.ca ? readFileSync(paths.ca, "utf8") : undefined,
+        passphrase: paths.passphrase,
+      },
+      inner,
+    );
+  }
+
+  async headers(): Promise<Record<string, string>> {
+    return this.inner ? this.inner.headers() : {};
+  }
+
+  tls(): ClientCertificate {
+    return this.certificate;
+  }
+
+  async refresh(rejected?: Record<string, string>): Promise<boolean> {
+    return this.inner?.refresh ? this.inner.refresh(rejected) : false;
+  }
+}
+
+export type FetchFunction = (
+  url: string,
+  init?: RequestInit,
+) => Promise<Response>;
+
+/**
+ * fetch with the provider's credentials; a 401 refreshes them and retries
+ * the request once
+ */
+export async function authorizedFetch(
+  provider: AuthProvider,
+  url: string,
+  init: RequestInit = {},
+  fetchImpl: FetchFunction = fetch,
+): Promise<Response> {
+  const send = async () => {
+    const credentials = await provider.headers();
+    const headers = new Headers(init.headers);
+    for (const [name, value] of Object.entries(credentials)) {
+      headers.set(name, value);
+    }
+    const certificate = provider.tls?.();
+    const response = await fetchImpl(url, {
+      ...init,
+      headers,
+      ...(certificate && { tls: certificate }),
+    } as RequestInit);
+    return { response, credentials };
+  };
+
+  const first = await send();
+  if (first.response.status !== 401 || !provider.refresh) {
+    return first.response;
+  }
+  if (!(await provider.refresh(first.credentials))) {
+    return first.response;
+  }
+  return (await send()).response;
+}
+
+/**
+ * Transport for ServiceNowBridgeService in place of its SAML fetch client:
+ * requests go to `instanceUrl` through authorizedFetch, so every table,
+ * batch and stats call carries the provider's credentials
+ */
+export function authProviderFetchClient(
+  instanceUrl: string,
+  provider: AuthProvider,
+  fetchImpl?: FetchFunction,
+) {
+  return {
+    authenticate: async () => {},
+    isAuthValid: () => true,
+    resetAuth: () => {},
+    getBaseUrl: () => instanceUrl,
+    makeAuthenticatedFetch: (
+      url: string,
+      config: {
+        method?: string;
+        headers?: Record<string, string>;
+        body?: string;
+      } = {},
+    ) => {
+      // The bridge may address a fixed host; only path and query are kept
+      const target = new URL(url, instanceUrl);
+      return authorizedFetch(
+        provider,
+        `${instanceUrl}${target.pathname}${target.search}`,
+        {
+          method: config.method || "GET",
+          headers: {
+            Accept: "application/json",
+            "Content-Type": "application/json",
+            ...config.headers,
+          },
+          body: config.body,
+        },
+        fetchImpl,
+      );
+    },
+  };
+}
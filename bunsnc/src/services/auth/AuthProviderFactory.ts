@@ -0,0 +1,89 @@
+/**
+ * Auth Provider Factory - Provider chosen by SERVICENOW_AUTH_TYPE
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { AuthenticationException } from "../../exceptions";
+import {
+  ApiKeyAuthProvider,
+  BasicAuthProvider,
+  MutualTLSAuthProvider,
+  StaticAuthProvider,
+  type AuthProvider,
+  type AuthProviderType,
+} from "./AuthProvider";
+import type { AuthTokenStore } from "./AuthTokenStore";
+import { OAuth2AuthProvider } from "./OAuth2AuthProvider";
+
+export const AUTH_PROVIDER_TYPES: AuthProviderType[] = [
+  "static",
+  "basic",
+  "api_key",
+  "oauth2",
+  "mtls",
+];
+
+export function isAuthProviderType(value: unknown): value is AuthProviderType {
+  return AUTH_PROVIDER_TYPES.includes(value as AuthProviderType);
+}
+
+function required(env: NodeJS.ProcessEnv, name: string): string {
+  const value = env[name];
+  if (!value) {
+    throw new AuthenticationException(`${name} is required for this auth type`);
+  }
+  return value;
+}
+
+/**
+ * Provider of a SERVICENOW_AUTH_TYPE; "mtls" wraps the provider named in
+ * SERVICENOW_MTLS_INNER_AUTH, if any
+ */
+export function authProviderFromEnv(
+  type: AuthProviderType,
+  env: NodeJS.ProcessEnv = process.env,
+  store?: AuthTokenStore,
+): AuthProvider {
+  const instanceUrl = env.SERVICENOW_INSTANCE_URL || env.SNC_INSTANCE_URL || "";
+
+  switch (type) {
+    case "static":
+      return new StaticAuthProvider(
+        env.SERVICENOW_TOKEN || required(env, "SNC_AUTH_TOKEN"),
+      );
+    case "basic":
+      return new BasicAuthProvider(
+        required(env, "SERVICENOW_USERNAME"),
+        required(env, "SERVICENOW_PASSWORD"),
+      );
+    case "api_key":
+      return new ApiKeyAuthProvider(required(env, "SERVICENOW_API_KEY"));
+    case "oauth2":
+      return new OAuth2AuthProvider({
+        instanceUrl: instanceUrl || required(env, "SERVICENOW_INSTANCE_URL"),
+        clientId: required(env, "SERVICENOW_CLIENT_ID"),
+        clientSecret: required(env, "SERVICENOW_CLIENT_SECRET"),
+        grant:
+          env.SERVICENOW_OAUTH_GRANT === "client_credentials"
+            ? "client_credentials"
+            : "password",
+        username: env.SERVICENOW_USERNAME,
+        password: env.SERVICENOW_PASSWORD,
+        scope: env.SERVICENOW_OAUTH_SCOPE,
+        store,
+      });
+    case "mtls": {
+      const inner = env.SERVICENOW_MTLS_INNER_AUTH;
+      return MutualTLSAuthProvider.fromFiles(
+        {
+          cert: required(env, "SERVICENOW_CLIENT_CERT"),
+          key: required(env, "SERVICENOW_CLIENT_KEY"),
+          ca: env.SERVICENOW_CLIENT_CA,
+          passphrase: env.SERVICENOW_CLIENT_KEY_PASSPHRASE,
+        },
+        isAuthProviderType(inner) && inner !== "mtls"
+          ? authProviderFromEnv(inner, env, store)
+          : undefined,
+      );
+    }
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Auth Token Stores - OAuth tokens kept across restarts, encrypted at rest
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import type { Collection } from "mongodb";
+import type { SecurityService } from "../SecurityService";
+
+export interface OAuthToken {
+  access_token: string;
+  refresh_token?: string;
+  token_type: string;
+  scope?: string;
+  expires_at: Date;
+}
+
+export interface AuthTokenStore {
+  load(key: string): Promise<OAuthToken | null>;
+  save(key: string, token: OAuthToken): Promise<void>;
+  clear(key: string): Promise<void>;
+}
+
+export class MemoryAuthTokenStore implements AuthTokenStore {
+  private tokens = new Map<string, OAuthToken>();
+
+  async load(key: string): Promise<OAuthToken | null> {
+    const token = this.tokens.get(key);
+    return token ? structuredClone(token) : null;
+  }
+
+  async save(key: string, token: OAuthToken): Promise<void> {
+    this.tokens.set(key, structuredClone(token));
+  }
+
+  async clear(key: string): Promise<void> {
+    this.tokens.delete(key);
+  }
+}
+
+interface AuthTokenDocument {
+  key: string;
+  access_token: string; // encrypted
+  refresh_token?: string; // encrypted
+  token_type: string;
+  scope?: string;
+  expires_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Tokens in sn_auth_tokens; both tokens go through SecurityService
+ */
+export class MongoAuthTokenStore implements AuthTokenStore {
+  constructor(
+    private collection: () => Collection<AuthTokenDocument>,
+    private security: Pick<SecurityService, "encrypt" | "decrypt">,
+  ) {}
+
+  async load(key: string): Promise<OAuthToken | null> {
+    const document = await this.collection().findOne({ key });
+    if (!document) {
+      return null;
+    }
+    return {
+      access_token: this.security.decrypt(document.access_token),
+      refresh_token: document.refresh_token
+        ? this.security.decrypt(document.refresh_token)
+        : undefined,
+      token_type: document.token_type,
+      scope: document.scope,
+      expires_at: new Date(document.expires_at),
+    };
+  }
+
+  async save(key: string, token: OAuthToken): Promise<void> {
+    await this.collection().replaceOne(
+      { key },
+      {
+        key,
+        access_token: this.security.encrypt(token.access_token),
+        ...(token.refresh_token && {
+          refresh_token: this.security.encrypt(token.refresh_token),
+        }),
+        token_type: token.token_type,
+        scope: token.scope,
+        expires_at: token.expires_at,
+        updated_at: new Date(),
+      },
+      { upsert: true },
+    );
+  }
+
+  async clear(key: string): Promise<void> {
+    await this.collection().deleteOne({ key });
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * OAuth2 Auth Provider - Password and client-credentials grants with refresh
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * Tokens come from the instance's /oauth_token.do and are renewed shortly
+ * before they expire, with the refresh token when there is one. Concurrent
+ * callers share a single token request.
+ */
+import { AuthenticationException } from "../../exceptions";
+import { logger } from "../../utils/Logger";
+import type { AuthProvider, FetchFunction } from "./AuthProvider";
+import type { AuthTokenStore, OAuthToken } from "./AuthTokenStore";
+
+const DEFAULT_REFRESH_MARGIN = 60 * 1000;
+
+export interface OAuth2Options {
+  instanceUrl: string;
+  clientId: string;
+  clientSecret: string;
+  grant: "password" | "client_credentials";
+  username?: string; // password grant
+  password?: string;
+  scope?: string;
+  refreshMargin?: number; // ms before expiry to renew, default 60s
+  store?: AuthTokenStore;
+  fetch?: FetchFunction;
+  now?: () => number;
+}
+
+interface TokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  token_type?: string;
+  scope?: string;
+  expires_in?: number | string;
+  error?: string;
+  error_description?: string;
+}
+
+export class OAuth2AuthProvider implements AuthProvider {
+  readonly type = "oauth2";
+  private token: OAuthToken | null = null;
+  private loading: Promise<void> | null = null;
+  private pending: Promise<OAuthToken> | null = null;
+  private fetch: FetchFunction;
+  private now: () => number;
+
+  constructor(private options: OAuth2Options) {
+    if (
+      options.grant === "password" &&
+      (!options.username || !options.password)
+    ) {
+      throw new AuthenticationException(
+        "OAuth2 password grant requires username and password",
+      );
+    }
+    this.fetch = options.fetch ?? fetch;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Key of the token in the store: one per instance, client and user
+   */
+  get storeKey(): string {
+    const { instanceUrl, clientId, username } = this.options;
+    return [instanceUrl.replace(/\/$/, ""), clientId, username ?? ""].join("|");
+  }
+
+  async headers(): Promise<Record<string, string>> {
+    const token = await this.accessToken();
+    return { Authorization: `Bearer ${token.access_token}` };
+  }
+
+  async refresh(rejected?: Record<string, string>): Promise<boolean> {
+    // Another caller already replaced the rejected token
+    if (
+      rejected?.Authorization &&
+      this.token &&
+      rejected.Authorization !== `Bearer ${this.token.access_token}`
+    ) {
+      return true;
+    }
+    if (this.token) {
+      this.token = { ...this.token, expires_at: new Date(0) };
+    }
+    await this.accessToken();
+    return true;
+  }
+
+  private async accessToken(): Promise<OAuthToken> {
+    // Every first caller waits on the same read of the store
+    this.loading ??= this.loadStored().then((stored) => {
+      // Never over a token renew() set meanwhile
+      this.token ??= stored;
+    });
+    await this.loading;
+    if (this.token && !this.expiring(this.token)) {
+      return this.token;
+    }
+    if (!this.pending) {
+      this.pending = this.renew().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private expiring(token: OAuthToken): boolean {
+    return (
+      token.expires_at.getTime() -
+        (this.options.refreshMargin ?? DEFAULT_REFRESH_MARGIN) <=
+      this.now()
+    );
+  }
+
+  private async renew(): Promise<OAuthToken> {
+    let token: OAuthToken | null = null;
+    if (this.token?.refresh_token) {
+      try {
+        token = await this.request({
+          grant_type: "refresh_token",
+          refresh_token: this.token.refresh_token,
+        });
+      } catch (error: unknown) {
+        logger.warn(
+          `OAuth2 refresh failed, requesting a new token: ${(error as Error).message}`,
+          "OAuth2AuthProvider",
+        );
+      }
+    }
+    if (!token) {
+      token = await this.request(
+        this.options.grant === "password"
+          ? {
+              grant_type: "password",
+              username: this.options.username!,
+              password: this.options.password!,
+            }
+          : { grant_type: "client_credentials" },
+      );
+    }
+
+    this.token = token;
+    if (this.options.store) {
+      try {
+        await this.options.store.save(this.storeKey, token);
+      } catch (error: unknown) {
+        logger.warn(
+          `OAuth2 token not persisted: ${(error as Error).message}`,
+          "OAuth2AuthProvider",
+        );
+      }
+    }
+    return token;
+  }
+
+  private async request(grant: Record<string, string>): Promise<OAuthToken> {
+    const body = new URLSearchParams({
+      ...grant,
+      client_id: this.options.clientId,
+      client_secret: this.options.clientSecret,
+      ...(this.options.scope && { scope: this.options.scope }),
+    });
+    const response = await this.fetch(
+      `${this.options.instanceUrl.replace(/\/$/, "")}/oauth_token.do`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Accept: "application/json",
+        },
+        body: body.toString(),
+      },
+    );
+    const data = (await response.json().catch(() => ({}))) as TokenResponse;
+    if (!response.ok || !data.access_token) {
+      throw new AuthenticationException(
+        `OAuth2 ${grant.grant_type} grant failed: ${data.error_description || data.error || response.statusText}`,
+        response.status,
+      );
+    }
+
+    return {
+      access_token: data.access_token,
+      // The instance may omit it on refresh: keep the previous one
+      refresh_token: data.refresh_token ?? grant.refresh_token,
+      token_type: data.token_type ?? "Bearer",
+      scope: data.scope,
+      expires_at: new Date(this.now() + Number(data.expires_in ?? 1800) * 1000),
+    };
+  }
+
+  private async loadStored(): Promise<OAuthToken | null> {
+    if (!this.options.store) {
+      return null;
+    }
+    try {
+      return await this.options.store.load(this.storeKey);
+    } catch (error: unknown) {
+      logger.warn(
+        `OAuth2 stored token unreadable: ${(error as Error).message}`,
+        "OAuth2AuthProvider",
+      );
+      return null;
+    }
+  }
+}
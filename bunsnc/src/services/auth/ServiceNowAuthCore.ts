@@ -12,6 +12,14 @@ import { RedisStreamManager } from "../../bigdata/redis/RedisStreamManager";
 import { serviceNowSAMLAuth } from "./ServiceNowSAMLAuth";
 import { SAMLConfig, SAMLAuthenticationData } from "../../types/saml";
 import { ServiceNowBridgeService } from "../ServiceNowBridgeService";
+import {
+  authorizedFetch,
+  type AuthProvider,
+  type AuthProviderType,
+} from "./AuthProvider";
+import { authProviderFromEnv, isAuthProviderType } from "./AuthProviderFactory";
+import { MongoAuthTokenStore } from "./AuthTokenStore";
+import { securityService } from "../SecurityService";
 
 export interface AuthServiceResponse {
   cookies: Array<{
@@ -55,7 +63,8 @@ export class ServiceNowAuthCore {
   protected authTTL = 30 * 60 * 1000; // 30 minutes
   protected redisCache: RedisCache | null = null;
   protected redisStreamManager: RedisStreamManager | null = null;
-  protected authType: "external" | "saml" = "external";
+  protected authType: "external" | "saml" | AuthProviderType = "external";
+  protected authProvider: AuthProvider | null = null;
   protected requestHeaders: Record<string, string> = {};
   protected bridgeService: ServiceNowBridgeService;
   // proxyUrl removed - using AUTH_SERVICE_PROXY_URL consistently
@@ -82,7 +91,10 @@ export class ServiceNowAuthCore {
 
     // Determine authentication type from environment
     this.authType =
-      (process.env.SERVICENOW_AUTH_TYPE as "external" | "saml") || "external";
+      (process.env.SERVICENOW_AUTH_TYPE as
+        | "external"
+        | "saml"
+        | AuthProviderType) || "external";
     console.log(`🔐 ServiceNow authentication type: ${this.authType}`);
 
     // Initialize Redis - use provided connection or initialize async
@@ -215,6 +227,12 @@ export class ServiceNowAuthCore {
    * Authenticate with ServiceNow using configured authentication type
    */
   protected async authenticate(): Promise<void> {
+    // Providers renew their own credentials: ask them on every call
+    if (isAuthProviderType(this.authType)) {
+      await this.authenticateWithProvider();
+      return;
+    }
+
     const now = Date.now();
 
     if (this.isAuthenticated && now - this.lastAuthTime < this.authTTL) {
@@ -228,6 +246,31 @@ export class ServiceNowAuthCore {
     }
   }
 
+  /**
+   * Authenticate with an AuthProvider (oauth2, api_key, basic, mtls, static);
+   * OAuth tokens are persisted encrypted in sn_auth_tokens
+   */
+  private async authenticateWithProvider(): Promise<void> {
+    if (!this.authProvider) {
+      const { COLLECTION_NAMES, mongoCollectionManager } = await import(
+        "../../config/mongodb-collections"
+      );
+      this.authProvider = authProviderFromEnv(
+        this.authType as AuthProviderType,
+        process.env,
+        new MongoAuthTokenStore(
+          () =>
+            mongoCollectionManager.getCollection(COLLECTION_NAMES.AUTH_TOKENS),
+          securityService,
+        ),
+      );
+    }
+
+    Object.assign(this.requestHeaders, await this.authProvider.headers());
+    this.isAuthenticated = true;
+    this.lastAuthTime = Date.now();
+  }
+
   /**
    * Authenticate with ServiceNow using external auth service (legacy) with proxy retry
    */
@@ -482,9 +525,15 @@ export class ServiceNowAuthCore {
         const urlPath = config.url.replace("/api/now/table/", "");
         const tableName = urlPath.split("?")[0].split("/")[0];
 
-        // Build proxy URL - use auth service as proxy to avoid 61s timeout
+        // Build proxy URL - use auth service as proxy to avoid 61s timeout;
+        // provider credentials go straight to the instance
         const proxyUrl = `${this.AUTH_SERVICE_PROXY_URL}/api/v1/servicenow/tickets/${tableName}`;
-        const url = new URL(proxyUrl);
+        const url = this.authProvider
+          ? new URL(
+              config.url,
+              process.env.SERVICENOW_INSTANCE_URL || this.SERVICENOW_BASE_URL,
+            )
+          : new URL(proxyUrl);
 
         if (config.params) {
           Object.entries(config.params).forEach(([key, value]) => {
@@ -517,7 +566,13 @@ export class ServiceNowAuthCore {
           `🚀 ServiceNow proxy request: ${config.method || "GET"} ${url.toString()}`,
         );
 
-        const response = await fetch(url.toString(), fetchConfig);
+        const response = this.authProvider
+          ? await authorizedFetch(
+              this.authProvider,
+              url.toString(),
+              fetchConfig,
+            )
+          : await fetch(url.toString(), fetchConfig);
         const duration = Date.now() - startTime;
 
         console.log(`✅ ServiceNow proxy request completed in ${duration}ms`);
@@ -578,6 +633,9 @@ export class ServiceNowAuthCore {
    * Check authentication status
    */
   public isAuthValid(): boolean {
+    if (this.authProvider) {
+      return this.isAuthenticated;
+    }
     const now = Date.now();
     return this.isAuthenticated && now - this.lastAuthTime < this.authTTL;
   }
@@ -585,7 +643,7 @@ export class ServiceNowAuthCore {
   /**
    * Get current authentication type
    */
-  public getAuthType(): "external" | "saml" {
+  public getAuthType(): "external" | "saml" | AuthProviderType {
     return this.authType;
   }
 
@@ -0,0 +1,88 @@
+/**
+ * Business Schedule Stores - Named schedules and the groups that use them
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import type { Collection } from "mongodb";
+import type { BusinessSchedule } from "../../types/ContractualSLA";
+
+export interface BusinessScheduleStore {
+  get(id: string): Promise<BusinessSchedule | null>;
+  list(): Promise<BusinessSchedule[]>;
+  save(schedule: BusinessSchedule): Promise<void>;
+  remove(id: string): Promise<boolean>;
+  // Schedule of an assignment group (sys_id or name), else the default one
+  forGroup(group?: string): Promise<BusinessSchedule | null>;
+}
+
+export class MemoryBusinessScheduleStore implements BusinessScheduleStore {
+  private schedules = new Map<string, BusinessSchedule>();
+
+  constructor(schedules: BusinessSchedule[] = []) {
+    for (const schedule of schedules) {
+      this.schedules.set(schedule.id, structuredClone(schedule));
+    }
+  }
+
+  async get(id: string): Promise<BusinessSchedule | null> {
+    const schedule = this.schedules.get(id);
+    return schedule ? structuredClone(schedule) : null;
+  }
+
+  async list(): Promise<BusinessSchedule[]> {
+    return [...this.schedules.values()].map((s) => structuredClone(s));
+  }
+
+  async save(schedule: BusinessSchedule): Promise<void> {
+    this.schedules.set(schedule.id, structuredClone(schedule));
+  }
+
+  async remove(id: string): Promise<boolean> {
+    return this.schedules.delete(id);
+  }
+
+  async forGroup(group?: string): Promise<BusinessSchedule | null> {
+    const schedules = [...this.schedules.values()];
+    const match =
+      (group && schedules.find((s) => s.groups?.includes(group))) ||
+      schedules.find((s) => s.is_default);
+    return match ? structuredClone(match) : null;
+  }
+}
+
+/**
+ * Schedules in sn_business_schedules, one document per schedule
+ */
+export class MongoBusinessScheduleStore implements BusinessScheduleStore {
+  constructor(private collection: () => Collection<BusinessSchedule>) {}
+
+  async get(id: string): Promise<BusinessSchedule | null> {
+    return this.collection().findOne({ id }, { projection: { _id: 0 } });
+  }
+
+  async list(): Promise<BusinessSchedule[]> {
+    return this.collection()
+      .find({}, { projection: { _id: 0 } })
+      .sort({ name: 1 })
+      .toArray();
+  }
+
+  async save(schedule: BusinessSchedule): Promise<void> {
+    await this.collection().replaceOne({ id: schedule.id }, schedule, {
+      upsert: true,
+    });
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const result = await this.collection().deleteOne({ id });
+    return result.deletedCount > 0;
+  }
+
+  async forGroup(group?: string): Promise<BusinessSchedule | null> {
+    const options = { projection: { _id: 0 } };
+    return (
+      (group &&
+        (await this.collection().findOne({ groups: group }, options))) ||
+      this.collection().findOne({ is_default: true }, options)
+    );
+  }
+}
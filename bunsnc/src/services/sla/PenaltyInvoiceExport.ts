@@ -0,0 +1,316 @@
+/**
+ * Penalty Invoice Export - CSV, XLSX and printable HTML renderings
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import {
+  DEFAULT_BUSINESS_HOURS,
+  MetricType,
+  TicketType,
+  type PenaltyInvoice,
+  type PenaltyInvoiceGroup,
+} from "../../types/ContractualSLA";
+import { buildXlsx, type XlsxCell } from "../../utils/XlsxWriter";
+
+export type PenaltyInvoiceFormat = "json" | "csv" | "xlsx" | "html";
+
+export const PENALTY_INVOICE_FORMATS: PenaltyInvoiceFormat[] = [
+  "json",
+  "csv",
+  "xlsx",
+  "html",
+];
+
+export interface RenderedPenaltyInvoice {
+  body: string | Uint8Array;
+  content_type: string;
+  filename: string;
+}
+
+const TICKET_TYPE_LABELS: Record<TicketType, string> = {
+  [TicketType.INCIDENT]: "Incidente",
+  [TicketType.CTASK]: "Tarefa de mudança",
+  [TicketType.SCTASK]: "Tarefa de catálogo",
+};
+
+const METRIC_LABELS: Record<MetricType, string> = {
+  [MetricType.RESPONSE_TIME]: "Resposta",
+  [MetricType.RESOLUTION_TIME]: "Resolução",
+};
+
+const GROUP_HEADER = [
+  "Tipo",
+  "Prioridade",
+  "Tickets",
+  "Em conformidade",
+  "Violados",
+  "Conformidade (%)",
+  "Multa (%)",
+];
+
+const BREACH_HEADER = [
+  "Ticket",
+  "Tipo",
+  "Prioridade",
+  "Métrica",
+  "Aberto em",
+  "Resolvido em",
+  "Regra",
+  "Descrição da regra",
+  "SLA (h)",
+  "Realizado (h)",
+  "Pausado (h)",
+  "Excedido (h)",
+  "Violado em",
+  "Horário comercial",
+  "Multa (%)",
+  "Calculado em",
+];
+
+function groupRow(group: PenaltyInvoiceGroup): XlsxCell[] {
+  return [
+    TICKET_TYPE_LABELS[group.ticket_type] ?? group.ticket_type,
+    group.priority ?? "",
+    group.total_tickets,
+    group.compliant_tickets,
+    group.breached_tickets,
+    group.compliance_percentage,
+    group.penalty_percentage,
+  ];
+}
+
+function summaryRows(invoice: PenaltyInvoice): XlsxCell[][] {
+  const { totals } = invoice;
+  const rows: XlsxCell[][] = [
+    ["Período", invoice.period.label],
+    ["Início", invoice.period.start],
+    ["Fim", invoice.period.end],
+    ["Gerado em", invoice.generated_at],
+    ["Tickets", totals.total_tickets],
+    ["Em conformidade", totals.compliant_tickets],
+    ["Violados", totals.breached_tickets],
+    ["Conformidade (%)", totals.compliance_percentage],
+    ["Multa calculada (%)", totals.penalty_percentage],
+  ];
+  if (totals.penalty_cap_percentage !== undefined) {
+    rows.push(["Teto contratual (%)", totals.penalty_cap_percentage]);
+  }
+  rows.push(["Multa aplicada (%)", totals.applied_penalty_percentage]);
+  if (totals.monthly_fee !== undefined) {
+    const currency = invoice.currency ? ` (${invoice.currency})` : "";
+    rows.push([`Valor mensal${currency}`, totals.monthly_fee]);
+    rows.push([`Valor da multa${currency}`, totals.penalty_amount]);
+  }
+  return rows;
+}
+
+function breachRows(invoice: PenaltyInvoice): XlsxCell[][] {
+  return invoice.breaches.map((line) => [
+    line.ticket_number,
+    TICKET_TYPE_LABELS[line.ticket_type] ?? line.ticket_type,
+    line.priority,
+    METRIC_LABELS[line.metric_type] ?? line.metric_type,
+    line.opened_at,
+    line.resolved_at,
+    line.sla_id,
+    line.sla_description,
+    line.sla_hours,
+    line.actual_hours,
+    line.paused_hours,
+    line.breach_hours,
+    line.breached_at,
+    line.business_hours_only ? "Sim" : "Não",
+    line.penalty_percentage,
+    line.calculated_at,
+  ]);
+}
+
+function csvValue(value: XlsxCell): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Summary, breakdowns and audit trail as consecutive CSV sections; the BOM
+ * lets spreadsheet tools read the accents
+ */
+export function penaltyInvoiceToCSV(invoice: PenaltyInvoice): string {
+  const sections: XlsxCell[][][] = [
+    [["Resumo"], ...summaryRows(invoice)],
+    [
+      ["Por tipo de ticket"],
+      GROUP_HEADER,
+      ...invoice.by_ticket_type.map(groupRow),
+    ],
+    [["Por prioridade"], GROUP_HEADER, ...invoice.by_priority.map(groupRow)],
+    [["Tickets violados"], BREACH_HEADER, ...breachRows(invoice)],
+  ];
+  return (
+    "\ufeff" +
+    sections
+      .map((rows) =>
+        rows.map((row) => row.map(csvValue).join(",")).join("\r\n"),
+      )
+      .join("\r\n\r\n") +
+    "\r\n"
+  );
+}
+
+export function penaltyInvoiceToXLSX(invoice: PenaltyInvoice): Uint8Array {
+  return buildXlsx([
+    { name: "Resumo", rows: summaryRows(invoice) },
+    {
+      name: "Por tipo",
+      rows: [GROUP_HEADER, ...invoice.by_ticket_type.map(groupRow)],
+      header: true,
+    },
+    {
+      name: "Por prioridade",
+      rows: [GROUP_HEADER, ...invoice.by_priority.map(groupRow)],
+      header: true,
+    },
+    {
+      name: "Tickets violados",
+      rows: [BREACH_HEADER, ...breachRows(invoice)],
+      header: true,
+    },
+  ]);
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function htmlValue(value: XlsxCell, timezone: string): string {
+  if (value instanceof Date) {
+    return value.toLocaleString("pt-BR", { timeZone: timezone });
+  }
+  if (typeof value === "number") {
+    return value.toLocaleString("pt-BR", { maximumFractionDigits: 2 });
+  }
+  return escapeHtml(value);
+}
+
+function htmlTable(
+  header: string[],
+  rows: XlsxCell[][],
+  timezone: string,
+): string {
+  if (rows.length === 0) {
+    return `<p class="empty">Nenhum registro no período.</p>`;
+  }
+  return `<table>
+<thead><tr>${header.map((title) => `<th>${escapeHtml(title)}</th>`).join("")}</tr></thead>
+<tbody>
+${rows
+  .map(
+    (row) =>
+      `<tr>${row.map((value) => `<td${typeof value === "number" ? ' class="num"' : ""}>${htmlValue(value, timezone)}</td>`).join("")}</tr>`,
+  )
+  .join("\n")}
+</tbody>
+</table>`;
+}
+
+/**
+ * Standalone page meant to be printed or saved as PDF from the browser
+ */
+export function penaltyInvoiceToHTML(
+  invoice: PenaltyInvoice,
+  timezone = DEFAULT_BUSINESS_HOURS.timezone,
+): string {
+  const summary = summaryRows(invoice)
+    .map(
+      ([label, value]) =>
+        `<tr><th>${escapeHtml(label)}</th><td class="num">${htmlValue(value, timezone)}</td></tr>`,
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<title>Relatório de Multas Contratuais - ${escapeHtml(invoice.period.label)}</title>
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 12px; color: #111827; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 24px 0 8px; border-bottom: 1px solid #d1d5db; padding-bottom: 4px; }
+  .meta { color: #6b7280; margin-bottom: 16px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #d1d5db; padding: 4px 6px; text-align: left; vertical-align: top; }
+  thead th { background: #f3f4f6; }
+  .summary { width: auto; min-width: 360px; }
+  .summary th { background: #f9fafb; font-weight: normal; }
+  .num { text-align: right; white-space: nowrap; }
+  .empty { color: #6b7280; font-style: italic; }
+  @media print {
+    body { margin: 0; font-size: 10px; }
+    h2 { break-after: avoid; }
+    tr { break-inside: avoid; }
+    thead { display: table-header-group; }
+  }
+  @page { size: A4 landscape; margin: 12mm; }
+</style>
+</head>
+<body>
+<h1>Relatório de Multas Contratuais</h1>
+<div class="meta">Período ${escapeHtml(invoice.period.label)} · gerado em ${htmlValue(invoice.generated_at, timezone)}</div>
+
+<h2>Resumo</h2>
+<table class="summary">
+${summary}
+</table>
+
+<h2>Por tipo de ticket</h2>
+${htmlTable(GROUP_HEADER, invoice.by_ticket_type.map(groupRow), timezone)}
+
+<h2>Por prioridade</h2>
+${htmlTable(GROUP_HEADER, invoice.by_priority.map(groupRow), timezone)}
+
+<h2>Tickets violados</h2>
+${htmlTable(BREACH_HEADER, breachRows(invoice), timezone)}
+</body>
+</html>
+`;
+}
+
+export function renderPenaltyInvoice(
+  invoice: PenaltyInvoice,
+  format: PenaltyInvoiceFormat,
+): RenderedPenaltyInvoice {
+  const filename = `multas-sla-${invoice.period.label.replace(/[^\w.-]+/g, "_")}`;
+  switch (format) {
+    case "csv":
+      return {
+        body: penaltyInvoiceToCSV(invoice),
+        content_type: "text/csv; charset=utf-8",
+        filename: `${filename}.csv`,
+      };
+    case "xlsx":
+      return {
+        body: penaltyInvoiceToXLSX(invoice),
+        content_type:
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        filename: `${filename}.xlsx`,
+      };
+    case "html":
+      return {
+        body: penaltyInvoiceToHTML(invoice),
+        content_type: "text/html; charset=utf-8",
+        filename: `${filename}.html`,
+      };
+    default:
+      return {
+        body: JSON.stringify(invoice, null, 2),
+        content_type: "application/json",
+        filename: `${filename}.json`,
+      };
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Penalty Invoice Service - Contract penalties of a billing period
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * Takes the tickets resolved in the period, their response and resolution
+ * compliance (pauses excluded) and the contractual penalty of each breach,
+ * and totals them per ticket type and priority. Every breached metric is kept
+ * as an audit line with the rule that priced it.
+ */
+import {
+  DEFAULT_BUSINESS_HOURS,
+  TicketType,
+  type ContractualSLA,
+  type MetricType,
+  type PenaltyInvoice,
+  type PenaltyInvoiceGroup,
+  type PenaltyInvoiceLine,
+  type PenaltyInvoiceOptions,
+  type SLAComplianceResult,
+  type SLAPriority,
+  type TicketSLAStatus,
+} from "../../types/ContractualSLA";
+import { wallToInstant } from "../../utils/BusinessSchedule";
+import type { ContractualSLAService } from "../ContractualSLAService";
+import type { EnhancedMetricsService } from "../EnhancedMetricsService";
+
+const BILLING_MONTH = /^(\d{4})-(\d{2})$/;
+
+export class InvalidBillingPeriodError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidBillingPeriodError";
+  }
+}
+
+export type PenaltyInvoiceMetrics = Pick<
+  EnhancedMetricsService,
+  "getResolvedTicketSLAs"
+>;
+export type PenaltyInvoiceRules = Pick<ContractualSLAService, "getSLA">;
+
+/**
+ * "YYYY-MM" as the month's start and the next month's start, at local midnight
+ */
+export function billingPeriod(
+  month: string,
+  timezone = DEFAULT_BUSINESS_HOURS.timezone,
+): { start: Date; end: Date } {
+  const match = BILLING_MONTH.exec(month.trim());
+  if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+    throw new InvalidBillingPeriodError(`Invalid billing period: ${month}`);
+  }
+  const year = Number(match[1]);
+  const index = Number(match[2]) - 1;
+  return {
+    start: new Date(wallToInstant(Date.UTC(year, index, 1), timezone)),
+    end: new Date(wallToInstant(Date.UTC(year, index + 1, 1), timezone)),
+  };
+}
+
+/**
+ * Period of a request: a billing month, or an explicit start and end
+ */
+export function resolveBillingPeriod(
+  input: { period?: string; start_date?: string; end_date?: string },
+  timezone?: string,
+): { start: Date; end: Date; label?: string } {
+  if (input.period) {
+    return { ...billingPeriod(input.period, timezone), label: input.period };
+  }
+  const start = new Date(input.start_date ?? "");
+  const end = new Date(input.end_date ?? "");
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new InvalidBillingPeriodError(
+      "Billing period required: YYYY-MM or start and end dates",
+    );
+  }
+  return { start, end };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function tally(
+  statuses: TicketSLAStatus[],
+): Omit<PenaltyInvoiceGroup, "ticket_type" | "priority"> {
+  const breached = statuses.filter((status) => !status.overall_compliance);
+  return {
+    total_tickets: statuses.length,
+    compliant_tickets: statuses.length - breached.length,
+    breached_tickets: breached.length,
+    compliance_percentage: statuses.length
+      ? round(((statuses.length - breached.length) / statuses.length) * 100)
+      : 100,
+    penalty_percentage: round(
+      breached.reduce(
+        (total, status) => total + status.total_penalty_percentage,
+        0,
+      ),
+    ),
+  };
+}
+
+/**
+ * Invoice from already computed ticket statuses; `rules` holds the
+ * contractual SLA of each breached metric, keyed by type-priority-metric
+ */
+export function buildPenaltyInvoice(
+  statuses: TicketSLAStatus[],
+  options: PenaltyInvoiceOptions,
+  rules: Map<string, ContractualSLA> = new Map(),
+  generatedAt = new Date(),
+): PenaltyInvoice {
+  // Tickets without any contractual SLA are out of the contract
+  const counted = statuses
+    .filter((status) => status.response_sla || status.resolution_sla)
+    .filter(
+      (status) =>
+        !options.ticket_types ||
+        options.ticket_types.includes(status.ticket_type),
+    );
+
+  const byTicketType: PenaltyInvoiceGroup[] = [];
+  const byPriority: PenaltyInvoiceGroup[] = [];
+  for (const ticketType of Object.values(TicketType)) {
+    const ofType = counted.filter(
+      (status) => status.ticket_type === ticketType,
+    );
+    if (ofType.length === 0) {
+      continue;
+    }
+    byTicketType.push({ ticket_type: ticketType, ...tally(ofType) });
+    const priorities = [...new Set(ofType.map((status) => status.priority))];
+    for (const priority of priorities.sort()) {
+      byPriority.push({
+        ticket_type: ticketType,
+        priority,
+        ...tally(ofType.filter((status) => status.priority === priority)),
+      });
+    }
+  }
+
+  const breaches: PenaltyInvoiceLine[] = counted.flatMap((status) =>
+    [status.response_sla, status.resolution_sla]
+      .filter((result): result is SLAComplianceResult => !!result)
+      .filter((result) => !result.is_compliant)
+      .map((result) => {
+        const rule = rules.get(ruleKey(result));
+        return {
+          ticket_id: status.ticket_id,
+          ticket_number: status.ticket_number,
+          ticket_type: status.ticket_type,
+          priority: status.priority,
+          metric_type: result.metric_type,
+          opened_at: status.created_at,
+          resolved_at: status.resolved_at,
+          sla_id: rule?.id,
+          sla_description: rule?.description,
+          sla_hours: result.sla_hours,
+          actual_hours: round(result.actual_hours),
+          paused_hours: result.paused_hours ?? 0,
+          breach_hours: round(result.breach_hours),
+          breached_at: result.breached_at ?? null,
+          business_hours_only: result.business_hours_only,
+          penalty_percentage: result.penalty_percentage,
+          calculated_at: result.calculated_at,
+        };
+      }),
+  );
+  breaches.sort(
+    (a, b) =>
+      a.ticket_type.localeCompare(b.ticket_type) ||
+      a.priority.localeCompare(b.priority) ||
+      a.ticket_number.localeCompare(b.ticket_number),
+  );
+
+  const totals = tally(counted);
+  const cap = options.penalty_cap_percentage;
+  const applied =
+    cap !== undefined
+      ? Math.min(totals.penalty_percentage, cap)
+      : totals.penalty_percentage;
+
+  return {
+    period: {
+      start: options.period_start,
+      end: options.period_end,
+      label:
+        options.label ??
+        `${options.period_start.toISOString().slice(0, 10)}..${options.period_end.toISOString().slice(0, 10)}`,
+    },
+    generated_at: generatedAt,
+    currency: options.currency,
+    totals: {
+      ...totals,
+      applied_penalty_percentage: applied,
+      penalty_cap_percentage: cap,
+      monthly_fee: options.monthly_fee,
+      penalty_amount:
+        options.monthly_fee !== undefined
+          ? round((options.monthly_fee * applied) / 100)
+          : undefined,
+    },
+    by_ticket_type: byTicketType,
+    by_priority: byPriority,
+    breaches,
+  };
+}
+
+function ruleKey(result: {
+  ticket_type: TicketType;
+  priority: SLAPriority;
+  metric_type: MetricType;
+}): string {
+  return `${result.ticket_type}-${result.priority}-${result.metric_type}`;
+}
+
+export class PenaltyInvoiceService {
+  constructor(
+    private metrics: PenaltyInvoiceMetrics,
+    private sla: PenaltyInvoiceRules,
+  ) {}
+
+  async generate(options: PenaltyInvoiceOptions): Promise<PenaltyInvoice> {
+    if (options.period_end <= options.period_start) {
+      throw new InvalidBillingPeriodError(
+        "Billing period end must be after its start",
+      );
+    }
+
+    const statuses: TicketSLAStatus[] = [];
+    for (const ticketType of options.ticket_types ??
+      Object.values(TicketType)) {
+      statuses.push(
+        ...(await this.metrics.getResolvedTicketSLAs(
+          options.period_start,
+          options.period_end,
+          ticketType,
+        )),
+      );
+    }
+
+    // Contract rule behind each breach, for the audit trail
+    const rules = new Map<string, ContractualSLA>();
+    for (const status of statuses) {
+      for (const result of [status.response_sla, status.resolution_sla]) {
+        if (!result || result.is_compliant || rules.has(ruleKey(result))) {
+          continue;
+        }
+        const rule = await this.sla.getSLA(
+          result.ticket_type,
+          result.priority,
+          result.metric_type,
+        );
+        if (rule) {
+          rules.set(ruleKey(result), rule);
+        }
+      }
+    }
+
+    return buildPenaltyInvoice(statuses, options, rules);
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * SLA Alert Stores - Thresholds already alerted per ticket and their acknowledgements
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import type { Collection } from "mongodb";
+import type { MetricType, SLAAlertRecord } from "../../types/ContractualSLA";
+
+export interface SLAAlertStore {
+  list(ticketId: string): Promise<SLAAlertRecord[]>;
+  // false when the threshold was already claimed, by this run or another one
+  claim(record: SLAAlertRecord): Promise<boolean>;
+  release(
+    ticketId: string,
+    metricType: MetricType,
+    threshold: number,
+  ): Promise<void>;
+  acknowledge(ticketId: string, by: string, at?: Date): Promise<number>;
+  unacknowledged(limit?: number): Promise<SLAAlertRecord[]>;
+}
+
+const alertKey = (ticketId: string, metricType: string, threshold: number) =>
+  `${ticketId}:${metricType}:${threshold}`;
+
+export class MemorySLAAlertStore implements SLAAlertStore {
+  private alerts = new Map<string, SLAAlertRecord>();
+
+  async list(ticketId: string): Promise<SLAAlertRecord[]> {
+    return [...this.alerts.values()]
+      .filter((alert) => alert.ticket_id === ticketId)
+      .map((alert) => structuredClone(alert));
+  }
+
+  async claim(record: SLAAlertRecord): Promise<boolean> {
+    const key = alertKey(
+      record.ticket_id,
+      record.metric_type,
+      record.threshold,
+    );
+    if (this.alerts.has(key)) {
+      return false;
+    }
+    this.alerts.set(key, structuredClone(record));
+    return true;
+  }
+
+  async release(
+    ticketId: string,
+    metricType: MetricType,
+    threshold: number,
+  ): Promise<void> {
+    this.alerts.delete(alertKey(ticketId, metricType, threshold));
+  }
+
+  async acknowledge(
+    ticketId: string,
+    by: string,
+    at = new Date(),
+  ): Promise<number> {
+    let count = 0;
+    for (const alert of this.alerts.values()) {
+      if (alert.ticket_id === ticketId && !alert.acknowledged_at) {
+        alert.acknowledged_at = at;
+        alert.acknowledged_by = by;
+        count++;
+      }
+    }
+    return count;
+  }
+
+  async unacknowledged(limit = 100): Promise<SLAAlertRecord[]> {
+    return [...this.alerts.values()]
+      .filter((alert) => alert.status === "sent" && !alert.acknowledged_at)
+      .sort((a, b) => b.sent_at.getTime() - a.sent_at.getTime())
+      .slice(0, limit)
+      .map((alert) => structuredClone(alert));
+  }
+}
+
+const DUPLICATE_KEY = 11000;
+
+/**
+ * Alerts in sn_sla_alerts, one document per ticket, metric and threshold
+ * (a unique key, see mongodb-collections)
+ */
+export class MongoSLAAlertStore implements SLAAlertStore {
+  constructor(private collection: () => Collection<SLAAlertRecord>) {}
+
+  async list(ticketId: string): Promise<SLAAlertRecord[]> {
+    return this.collection()
+      .find({ ticket_id: ticketId }, { projection: { _id: 0 } })
+      .toArray();
+  }
+
+  async claim(record: SLAAlertRecord): Promise<boolean> {
+    try {
+      const result = await this.collection().updateOne(
+        {
+          ticket_id: record.ticket_id,
+          metric_type: record.metric_type,
+          threshold: record.threshold,
+        },
+        { $setOnInsert: record },
+        { upsert: true },
+      );
+      return result.upsertedCount > 0;
+    } catch (error: unknown) {
+      // Concurrent upserts: the unique key lets only one of them insert
+      if ((error as { code?: number }).code === DUPLICATE_KEY) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async release(
+    ticketId: string,
+    metricType: MetricType,
+    threshold: number,
+  ): Promise<void> {
+    await this.collection().deleteOne({
+      ticket_id: ticketId,
+      metric_type: metricType,
+      threshold,
+    });
+  }
+
+  async acknowledge(
+    ticketId: string,
+    by: string,
+    at = new Date(),
+  ): Promise<number> {
+    const result = await this.collection().updateMany(
+      { ticket_id: ticketId, acknowledged_at: { $exists: false } },
+      { $set: { acknowledged_at: at, acknowledged_by: by } },
+    );
+    return result.modifiedCount;
+  }
+
+  async unacknowledged(limit = 100): Promise<SLAAlertRecord[]> {
+    return this.collection()
+      .find(
+        { status: "sent", acknowledged_at: { $exists: false } },
+        { projection: { _id: 0 } },
+      )
+      .sort({ sent_at: -1 })
+      .limit(limit)
+      .toArray();
+  }
+}
@@ -0,0 +1,383 @@
+/**
+ * SLA Breach Predictor - Tiered alerts before open tickets breach their SLA
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * Projects the breach instant of every open ticket from its pause timeline,
+ * and notifies the group's escalation chain the first time the consumed share
+ * of the SLA crosses each threshold. Claims are stored before sending, so a
+ * threshold pages once even across runs and instances; quiet hours defer
+ * low thresholds until the window ends.
+ */
+import type { Collection } from "mongodb";
+import {
+  DEFAULT_SLA_ALERT_POLICY,
+  MetricType,
+  SLA_PRIORITY_MAPPING,
+  TicketType,
+  type SLAAlertPolicy,
+  type SLAEscalationChain,
+  type SLAPriority,
+  type SLAQuietHours,
+} from "../../types/ContractualSLA";
+import type { NotificationManager } from "../../notifications/NotificationManager";
+import { NotificationChannel } from "../../notifications/NotificationTypes";
+import { DAY, MINUTE, wallTime } from "../../utils/BusinessSchedule";
+import { logger } from "../../utils/Logger";
+import type { ContractualSLAService } from "../ContractualSLAService";
+import { plainValue } from "../sync/SyncMirror";
+import { serviceNowDate } from "./SLATimelineEngine";
+import type { SLAAlertStore } from "./SLAAlertStore";
+
+const DEFAULT_BYPASS_THRESHOLD = 90;
+
+export interface OpenTicket {
+  sys_id: string;
+  number: string;
+  ticket_type: TicketType;
+  priority: SLAPriority;
+  assignment_group?: string; // sys_id
+  assignment_group_name?: string;
+  opened_at: Date;
+  values: Record<string, unknown>; // current field values
+}
+
+export interface OpenTicketSource {
+  openTickets(limit?: number): Promise<OpenTicket[]>;
+}
+
+export type SLAAlertNotifier = Pick<NotificationManager, "notifySLA">;
+
+export interface SLABreachPrediction {
+  ticket: OpenTicket;
+  sla_hours: number;
+  elapsed_hours: number; // running time, pauses excluded
+  percentage: number;
+  due_at: Date | null;
+  breached_at: Date | null;
+}
+
+export interface SLABreachPredictorOptions {
+  sla: ContractualSLAService;
+  tickets: OpenTicketSource;
+  alerts: SLAAlertStore;
+  notifier: SLAAlertNotifier;
+  policy?: Partial<SLAAlertPolicy>;
+  now?: () => Date;
+}
+
+export interface SLAPredictionRunResult {
+  evaluated: number;
+  alerted: number;
+  deferred: number; // held back by quiet hours
+  skipped: number; // no contractual SLA for the ticket
+  failed: number;
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Quiet windows may run past midnight; `days` names the day they start on
+ */
+export function inQuietHours(quiet: SLAQuietHours, at: Date): boolean {
+  const wall = wallTime(at.getTime(), quiet.timezone);
+  const minutes = Math.floor((wall % DAY) / MINUTE);
+  const day = new Date(wall).getUTCDay();
+  const start = minutesOf(quiet.start);
+  const end = minutesOf(quiet.end);
+  const startsOn = (weekday: number) =>
+    !quiet.days || quiet.days.includes(weekday);
+
+  if (start <= end) {
+    return minutes >= start && minutes < end && startsOn(day);
+  }
+  if (minutes >= start) {
+    return startsOn(day);
+  }
+  return minutes < end && startsOn((day + 6) % 7);
+}
+
+/**
+ * Ticket priority ("2") as the contractual SLA priority ("P2")
+ */
+export function slaPriority(
+  ticketType: TicketType,
+  priority: unknown,
+): SLAPriority | null {
+  const value = String(plainValue(priority) ?? "");
+  const candidate = (/^\d+$/.test(value) ? `P${value}` : value) as SLAPriority;
+  return (SLA_PRIORITY_MAPPING[ticketType] as SLAPriority[]).includes(candidate)
+    ? candidate
+    : null;
+}
+
+export class SLABreachPredictor {
+  private policy: SLAAlertPolicy;
+  private now: () => Date;
+
+  constructor(private options: SLABreachPredictorOptions) {
+    this.policy = { ...DEFAULT_SLA_ALERT_POLICY, ...options.policy };
+    this.now = options.now ?? (() => new Date());
+  }
+
+  setPolicy(policy: Partial<SLAAlertPolicy>): void {
+    this.policy = { ...this.policy, ...policy };
+  }
+
+  /**
+   * Escalation chain of the ticket's group, else the default one
+   */
+  chainFor(ticket: OpenTicket): SLAEscalationChain {
+    const { escalation } = this.policy;
+    return (
+      (ticket.assignment_group && escalation[ticket.assignment_group]) ||
+      (ticket.assignment_group_name &&
+        escalation[ticket.assignment_group_name]) ||
+      escalation.default || { levels: [] }
+    );
+  }
+
+  async predict(ticket: OpenTicket): Promise<SLABreachPrediction | null> {
+    const timeline = await this.options.sla.buildTimeline(
+      ticket.sys_id,
+      ticket.ticket_type,
+      ticket.priority,
+      MetricType.RESOLUTION_TIME,
+      {
+        start_time: ticket.opened_at,
+        end_time: this.now(),
+        assignment_group: ticket.assignment_group,
+        current_values: ticket.values,
+      },
+    );
+    if (!timeline.sla_hours) {
+      return null;
+    }
+
+    return {
+      ticket,
+      sla_hours: timeline.sla_hours,
+      elapsed_hours: timeline.running_hours,
+      percentage:
+        Math.round((timeline.running_hours / timeline.sla_hours) * 1000) / 10,
+      due_at: timeline.due_at,
+      breached_at: timeline.breached_at,
+    };
+  }
+
+  /**
+   * One pass over the open tickets; sends at most one alert per ticket
+   */
+  async evaluate(limit?: number): Promise<SLAPredictionRunResult> {
+    const result: SLAPredictionRunResult = {
+      evaluated: 0,
+      alerted: 0,
+      deferred: 0,
+      skipped: 0,
+      failed: 0,
+    };
+    const tickets = await this.options.tickets.openTickets(limit);
+
+    for (const ticket of tickets) {
+      result.evaluated++;
+      try {
+        const prediction = await this.predict(ticket);
+        if (!prediction) {
+          result.skipped++;
+          continue;
+        }
+        const outcome = await this.alert(prediction);
+        if (outcome === "alerted") result.alerted++;
+        if (outcome === "deferred") result.deferred++;
+      } catch (error: unknown) {
+        result.failed++;
+        logger.warn(
+          `SLA prediction failed for ${ticket.number}: ${(error as Error).message}`,
+          "SLABreachPredictor",
+        );
+      }
+    }
+
+    logger.info(
+      `SLA prediction: ${result.evaluated} tickets, ${result.alerted} alerts, ${result.deferred} deferred`,
+      "SLABreachPredictor",
+    );
+    return result;
+  }
+
+  async acknowledge(ticketId: string, by: string): Promise<number> {
+    return this.options.alerts.acknowledge(ticketId, by, this.now());
+  }
+
+  private async alert(
+    prediction: SLABreachPrediction,
+  ): Promise<"alerted" | "deferred" | "none"> {
+    const { ticket } = prediction;
+    const existing = await this.options.alerts.list(ticket.sys_id);
+    const done = new Set(existing.map((alert) => alert.threshold));
+    const pending = [...this.policy.thresholds]
+      .sort((a, b) => a - b)
+      .filter((threshold) => prediction.percentage >= threshold)
+      .filter((threshold) => !done.has(threshold));
+    if (pending.length === 0) {
+      return "none";
+    }
+
+    // Only the highest threshold crossed since the last run is sent
+    const threshold = pending[pending.length - 1];
+    const chain = this.chainFor(ticket);
+    const quiet =
+      chain.quiet_hours === null
+        ? undefined
+        : (chain.quiet_hours ?? this.policy.quiet_hours);
+    if (
+      quiet &&
+      threshold < (quiet.bypass_threshold ?? DEFAULT_BYPASS_THRESHOLD) &&
+      inQuietHours(quiet, this.now())
+    ) {
+      return "deferred";
+    }
+
+    // Once acknowledged the ticket stops escalating: only its owner is told
+    const acknowledged = existing.find((alert) => alert.acknowledged_by);
+    const levels = chain.levels.filter((level) => level.threshold <= threshold);
+    const recipients = acknowledged
+      ? [acknowledged.acknowledged_by!]
+      : [...new Set(levels.flatMap((level) => level.recipients))];
+    const channels = [
+      ...new Set(levels.flatMap((level) => level.channels ?? [])),
+    ] as NotificationChannel[];
+
+    const record = {
+      ticket_id: ticket.sys_id,
+      ticket_number: ticket.number,
+      ticket_type: ticket.ticket_type,
+      metric_type: MetricType.RESOLUTION_TIME,
+      assignment_group: ticket.assignment_group,
+      percentage: prediction.percentage,
+      due_at: prediction.due_at,
+      sent_at: this.now(),
+    };
+    const claimed = await this.options.alerts.claim({
+      ...record,
+      threshold,
+      status: "sent",
+      recipients,
+    });
+    if (!claimed) {
+      return "none";
+    }
+    for (const lower of pending.slice(0, -1)) {
+      await this.options.alerts.claim({
+        ...record,
+        threshold: lower,
+        status: "superseded",
+        recipients: [],
+      });
+    }
+
+    try {
+      await this.options.notifier.notifySLA(
+        {
+          ticketId: ticket.sys_id,
+          ticketNumber: ticket.number,
+          ticketType: ticket.ticket_type,
+          assignmentGroup:
+            ticket.assignment_group_name ?? ticket.assignment_group,
+          threshold,
+          percentage: prediction.percentage,
+          slaHours: prediction.sla_hours,
+          elapsedHours: prediction.elapsed_hours,
+          dueAt: prediction.due_at,
+          recipients,
+          acknowledgedBy: acknowledged?.acknowledged_by,
+        },
+        channels,
+      );
+    } catch (error: unknown) {
+      // Give the threshold back so the next run retries it
+      await this.options.alerts.release(
+        ticket.sys_id,
+        MetricType.RESOLUTION_TIME,
+        threshold,
+      );
+      throw error;
+    }
+    return "alerted";
+  }
+}
+
+/**
+ * Open tickets in the mirror collections; closed states come from the
+ * stop conditions of the pause rules
+ */
+export class MongoOpenTicketSource implements OpenTicketSource {
+  private static readonly PATHS: Record<TicketType, string> = {
+    [TicketType.INCIDENT]: "data.incident",
+    [TicketType.CTASK]: "data.change_task",
+    [TicketType.SCTASK]: "data.sc_task",
+  };
+
+  constructor(
+    private collections: Record<TicketType, () => Collection>,
+    private stopConditions: (
+      ticketType: TicketType,
+    ) => Record<string, string[]> | undefined,
+  ) {}
+
+  async openTickets(limit = 1000): Promise<OpenTicket[]> {
+    const tickets: OpenTicket[] = [];
+
+    for (const ticketType of Object.values(TicketType)) {
+      const path = MongoOpenTicketSource.PATHS[ticketType];
+      const filter: Record<string, unknown> = {};
+      for (const [field, values] of Object.entries(
+        this.stopConditions(ticketType) ?? {},
+      )) {
+        filter[`${path}.${field}`] = { $nin: values };
+        filter[`${path}.${field}.value`] = { $nin: values };
+      }
+
+      const documents = await this.collections[ticketType]()
+        .find(filter)
+        .limit(limit - tickets.length)
+        .toArray();
+      for (const document of documents) {
+        const ticket = this.toOpenTicket(
+          ticketType,
+          path.split(".").reduce((value: any, key) => value?.[key], document),
+        );
+        if (ticket) {
+          tickets.push(ticket);
+        }
+      }
+      if (tickets.length >= limit) {
+        break;
+      }
+    }
+    return tickets;
+  }
+
+  private toOpenTicket(
+    ticketType: TicketType,
+    data: Record<string, any> | undefined,
+  ): OpenTicket | null {
+    const priority = data && slaPriority(ticketType, data.priority);
+    const opened = data && (data.opened_at || data.sys_created_on);
+    if (!data || !priority || !opened) {
+      return null;
+    }
+    return {
+      sys_id: plainValue(data.sys_id),
+      number: plainValue(data.number),
+      ticket_type: ticketType,
+      priority,
+      assignment_group: plainValue(data.assignment_group) || undefined,
+      assignment_group_name: data.assignment_group?.display_value,
+      opened_at: serviceNowDate(opened),
+      values: data,
+    };
+  }
+}
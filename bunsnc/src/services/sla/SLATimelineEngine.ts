@@ -0,0 +1,350 @@
+/**
+ * SLA Timeline Engine - Running and paused segments of a ticket's SLA clock
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * Replays the history of the fields named in the pause rules (state,
+ * hold_reason...) from sys_audit, sys_journal_field or the ticket_audit
+ * snapshots, splits creation-to-resolution into running and paused segments
+ * and finds the instant the running time crossed the SLA.
+ */
+import type { Collection } from "mongodb";
+import {
+  DEFAULT_SLA_PAUSE_RULES,
+  type SLAFieldChange,
+  type SLAPauseRule,
+  type SLAPauseRules,
+  type SLATimeline,
+  type SLATimelineSegment,
+  type TicketType,
+} from "../../types/ContractualSLA";
+import type { HistoryEntry } from "../../types/TicketTypes";
+import type { BusinessHoursCalculator } from "../../utils/BusinessHoursCalculator";
+import { logger } from "../../utils/Logger";
+import { plainValue } from "../sync/SyncMirror";
+import type { WatermarkSource } from "../sync/WatermarkSyncEngine";
+
+const HOUR = 60 * 60 * 1000;
+const SERVICENOW_DATE = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/;
+
+export interface SLATimelineInput {
+  ticketType: TicketType;
+  start: Date; // clock start (opened_at / sys_created_on)
+  end?: Date; // resolution time, default now; a stop condition ends it earlier
+  changes: SLAFieldChange[];
+  current?: Record<string, unknown>; // ticket values for fields never changed
+  slaHours?: number;
+  calculator?: BusinessHoursCalculator; // count business hours only
+}
+
+/**
+ * ticket_audit document written by TicketPersistenceService.recordAuditTrail
+ */
+export interface TicketAuditDocument {
+  ticketId: string;
+  changes: Array<{ field: string; oldValue: unknown; newValue: unknown }>;
+  changedAt: Date;
+}
+
+export interface SLATimelineEngineOptions {
+  rules?: Partial<SLAPauseRules>;
+  source?: WatermarkSource; // sys_audit / sys_journal_field
+  auditTrail?: () => Collection<TicketAuditDocument>;
+}
+
+function text(value: unknown): string {
+  const plain = plainValue(value);
+  return plain === null || plain === undefined ? "" : String(plain);
+}
+
+/**
+ * ServiceNow "YYYY-MM-DD HH:mm:ss" values are UTC
+ */
+export function serviceNowDate(value: unknown): Date {
+  const raw = text(value);
+  return new Date(
+    SERVICENOW_DATE.test(raw) ? `${raw.replace(" ", "T")}Z` : raw,
+  );
+}
+
+/**
+ * Date as stored by ServiceNow, for range queries on mirrored fields
+ */
+export function serviceNowTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+export function changesFromAudit(
+  entries: Array<Partial<HistoryEntry>>,
+): SLAFieldChange[] {
+  return entries.map((entry) => ({
+    field: text(entry.fieldname),
+    old_value: text(entry.oldvalue),
+    new_value: text(entry.newvalue),
+    at: serviceNowDate(entry.sys_created_on),
+    by: text(entry.user) || text(entry.sys_created_by) || undefined,
+    source: "sys_audit",
+  }));
+}
+
+export function changesFromJournal(
+  entries: Array<Record<string, unknown>>,
+): SLAFieldChange[] {
+  return entries.map((entry) => ({
+    field: text(entry.element),
+    new_value: text(entry.value),
+    at: serviceNowDate(entry.sys_created_on),
+    by: text(entry.sys_created_by) || undefined,
+    source: "sys_journal_field",
+  }));
+}
+
+export function changesFromAuditTrail(
+  documents: TicketAuditDocument[],
+): SLAFieldChange[] {
+  return documents.flatMap((document) =>
+    document.changes.map((change) => ({
+      field: change.field,
+      old_value: text(change.oldValue),
+      new_value: text(change.newValue),
+      at: new Date(document.changedAt),
+      source: "ticket_audit" as const,
+    })),
+  );
+}
+
+function matches(
+  values: Map<string, string>,
+  when: Record<string, string[]>,
+): boolean {
+  return Object.entries(when).every(([field, accepted]) =>
+    accepted.includes(values.get(field) ?? ""),
+  );
+}
+
+export class SLATimelineEngine {
+  private rules: SLAPauseRules;
+
+  constructor(private options: SLATimelineEngineOptions = {}) {
+    this.rules = { ...DEFAULT_SLA_PAUSE_RULES, ...options.rules };
+  }
+
+  setRules(rules: Partial<SLAPauseRules>): void {
+    this.rules = { ...this.rules, ...rules };
+  }
+
+  getRule(ticketType: TicketType): SLAPauseRule {
+    return this.rules[ticketType] ?? { pause: [] };
+  }
+
+  /**
+   * Fields whose history decides pauses and stops
+   */
+  trackedFields(ticketType: TicketType): string[] {
+    const rule = this.getRule(ticketType);
+    return [
+      ...new Set([
+        ...rule.pause.flatMap((condition) => Object.keys(condition.when)),
+        ...Object.keys(rule.stop ?? {}),
+      ]),
+    ];
+  }
+
+  build(input: SLATimelineInput): SLATimeline {
+    const rule = this.getRule(input.ticketType);
+    const tracked = new Set(this.trackedFields(input.ticketType));
+    const changes = input.changes
+      .filter((change) => tracked.has(change.field))
+      .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+    // Values at the start: before the first change, or the current ones. A
+    // ticket without any history can't tell what its start state was.
+    const values = new Map<string, string>();
+    for (const field of tracked) {
+      const first = changes.find((change) => change.field === field);
+      values.set(
+        field,
+        first
+          ? (first.old_value ?? "")
+          : input.changes.length > 0
+            ? text(input.current?.[field])
+            : "",
+      );
+    }
+
+    const start = input.start;
+    let end = input.end ?? new Date();
+    let stopped = false;
+    const raw: Array<Omit<SLATimelineSegment, "hours">> = [];
+    let cursor = start;
+
+    const status = () => {
+      const pause = rule.pause.find((condition) =>
+        matches(values, condition.when),
+      );
+      return pause
+        ? { status: "paused" as const, reason: pause.label }
+        : { status: "running" as const };
+    };
+    const close = (until: Date) => {
+      if (until <= cursor) {
+        return;
+      }
+      const current = status();
+      const last = raw[raw.length - 1];
+      if (
+        last &&
+        last.status === current.status &&
+        last.reason === current.reason
+      ) {
+        last.end = until;
+      } else {
+        raw.push({ ...current, start: cursor, end: until });
+      }
+      cursor = until;
+    };
+    const isStopped = () => !!rule.stop && matches(values, rule.stop);
+
+    for (const change of changes) {
+      if (change.at >= end) {
+        break;
+      }
+      if (change.at > start) {
+        close(change.at);
+      }
+      values.set(change.field, change.new_value);
+      if (isStopped() && change.at >= start) {
+        end = change.at;
+        stopped = true;
+        break;
+      }
+    }
+    close(end);
+
+    const counted = (from: Date, to: Date) =>
+      input.calculator
+        ? input.calculator.businessMilliseconds(from, to)
+        : to.getTime() - from.getTime();
+    const hours = (ms: number) => Math.round((ms / HOUR) * 100) / 100;
+
+    const segments: SLATimelineSegment[] = raw.map((segment) => ({
+      ...segment,
+      hours: hours(counted(segment.start, segment.end)),
+    }));
+
+    // Instant the running time reaches the SLA
+    let breachedAt: Date | null = null;
+    let remaining =
+      input.slaHours !== undefined ? input.slaHours * HOUR : Infinity;
+    for (const segment of raw) {
+      if (segment.status !== "running") {
+        continue;
+      }
+      const available = counted(segment.start, segment.end);
+      if (available >= remaining) {
+        breachedAt = this.advance(segment.start, remaining, input.calculator);
+        break;
+      }
+      remaining -= available;
+    }
+
+    const runningMs = raw
+      .filter((segment) => segment.status === "running")
+      .reduce(
+        (total, segment) => total + counted(segment.start, segment.end),
+        0,
+      );
+    const pausedMs = raw
+      .filter((segment) => segment.status === "paused")
+      .reduce(
+        (total, segment) => total + counted(segment.start, segment.end),
+        0,
+      );
+    const running =
+      !stopped && (raw.length === 0 || raw.at(-1)!.status === "running");
+
+    return {
+      ticket_type: input.ticketType,
+      start,
+      end,
+      stopped,
+      segments,
+      running_hours: hours(runningMs),
+      paused_hours: hours(pausedMs),
+      sla_hours: input.slaHours,
+      breached_at: breachedAt,
+      due_at:
+        !breachedAt && running && Number.isFinite(remaining)
+          ? this.advance(end, remaining, input.calculator)
+          : null,
+    };
+  }
+
+  /**
+   * Read the history of the tracked fields: sys_audit and sys_journal_field
+   * from the instance, or the ticket_audit snapshots when it is unreachable
+   */
+  async loadChanges(
+    ticketType: TicketType,
+    sysId: string,
+  ): Promise<SLAFieldChange[]> {
+    const fields = this.trackedFields(ticketType).join(",");
+
+    if (this.options.source) {
+      try {
+        const [audit, journal] = await Promise.all([
+          this.options.source.query({
+            table: "sys_audit",
+            filter: `documentkey=${sysId}^fieldnameIN${fields}`,
+            fields: [
+              "fieldname",
+              "oldvalue",
+              "newvalue",
+              "sys_created_on",
+              "user",
+              "sys_created_by",
+            ],
+            limit: 1000,
+          }),
+          this.options.source.query({
+            table: "sys_journal_field",
+            filter: `element_id=${sysId}^elementIN${fields}`,
+            fields: ["element", "value", "sys_created_on", "sys_created_by"],
+            limit: 1000,
+          }),
+        ]);
+        return [
+          ...changesFromAudit(audit as Array<Partial<HistoryEntry>>),
+          ...changesFromJournal(journal),
+        ];
+      } catch (error: unknown) {
+        if (!this.options.auditTrail) {
+          throw error;
+        }
+        logger.warn(
+          `SLA history for ${sysId} read from ticket_audit: ${(error as Error).message}`,
+          "SLATimeline",
+        );
+      }
+    }
+
+    if (this.options.auditTrail) {
+      const documents = await this.options
+        .auditTrail()
+        .find({ ticketId: sysId })
+        .sort({ changedAt: 1 })
+        .toArray();
+      return changesFromAuditTrail(documents);
+    }
+    return [];
+  }
+
+  private advance(
+    from: Date,
+    ms: number,
+    calculator?: BusinessHoursCalculator,
+  ): Date {
+    return calculator
+      ? calculator.addBusinessHours(from, ms / HOUR)
+      : new Date(from.getTime() + ms);
+  }
+}
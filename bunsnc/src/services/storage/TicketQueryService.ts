@@ -9,6 +9,33 @@ import {
   TicketQuery,
   QueryResult,
 } from "./TicketStorageCore";
+import {
+  QueryCompiler,
+  type QueryCompilerOptions,
+} from "../../query/QueryCompiler";
+import { MongoQuerySource } from "../../query/LocalQuerySource";
+
+/**
+ * Typing of mirrored ticket fields for encoded queries run against MongoDB
+ */
+export const TICKET_QUERY_OPTIONS: QueryCompilerOptions = {
+  fieldMap: { sys_class_name: "ticketType" },
+  fieldTypes: {
+    state: "number",
+    priority: "number",
+    incident_state: "number",
+    severity: "number",
+    urgency: "number",
+    impact: "number",
+    active: "boolean",
+    opened_at: "date",
+    closed_at: "date",
+    resolved_at: "date",
+    sys_created_on: "date",
+    sys_updated_on: "date",
+    sla_due: "date",
+  },
+};
 
 export class TicketQueryService extends TicketStorageCore {
   /**
@@ -59,8 +86,25 @@ export class TicketQueryService extends TicketStorageCore {
         filter.$text = { $search: query.textSearch };
       }
 
+      // Encoded query filters and ORDERBY clauses
+      let encodedSort: Record<string, 1 | -1> = {};
+      if (query.encodedQuery) {
+        const compiler = new QueryCompiler(TICKET_QUERY_OPTIONS);
+        const encoded = QueryCompiler.parse(query.encodedQuery);
+        const encodedFilter = compiler.toMongoFilter(encoded);
+        encodedSort = compiler.toMongoSort(encoded);
+
+        if (Object.keys(encodedFilter).length > 0) {
+          filter.$and = [...(filter.$and || []), encodedFilter];
+        }
+      }
+
       // Build sort
-      const sort = query.sort || { sys_created_on: -1 };
+      const sort =
+        query.sort ||
+        (Object.keys(encodedSort).length > 0
+          ? encodedSort
+          : { sys_created_on: -1 });
 
       // Execute query with pagination
       const limit = Math.min(query.limit || 50, 1000); // Max 1000 results
@@ -89,6 +133,21 @@ export class TicketQueryService extends TicketStorageCore {
     }
   }
 
+  /**
+   * Query source over the tickets mirror, so GlideRecord code can run locally:
+   *   new GlideRecord({ serviceNow: await service.getQuerySource() }, "incident")
+   */
+  async getQuerySource(): Promise<MongoQuerySource> {
+    await this.ensureConnected();
+    if (!this.ticketsCollection)
+      throw new Error("Tickets collection not initialized");
+
+    return new MongoQuerySource(this.ticketsCollection, {
+      ...TICKET_QUERY_OPTIONS,
+      tableField: "ticketType",
+    });
+  }
+
   /**
    * Get dashboard statistics with optimized aggregation
    */
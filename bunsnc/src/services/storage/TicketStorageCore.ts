@@ -115,6 +115,7 @@ export interface TicketQuery {
     end?: Date;
   };
   textSearch?: string;
+  encodedQuery?: string; // ServiceNow encoded query, ANDed with the filters above
   limit?: number;
   skip?: number;
   sort?: Record<string, 1 | -1>;
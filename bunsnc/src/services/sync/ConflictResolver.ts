@@ -1,203 +1,356 @@
 /**
  * Conflict Resolver - Handle data conflicts between MongoDB and ServiceNow
  * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * Three-way merge against the last synced base of each record: a field
+ * changed on one side only is taken from that side, and only fields changed
+ * differently on both sides are conflicts. Those follow the field policy;
+ * "manual" ones are persisted until resolved through resolve().
  */
+import { MemoryConflictStore, type ConflictStore } from "./ConflictStore";
+
+export type ConflictResolutionStrategy =
+  | "servicenow_wins"
+  | "mongodb_wins"
+  | "newest_wins"
+  | "manual";
+
+export type ConflictSide = "mongodb" | "servicenow";
+
+export interface ConflictPolicyConfig {
+  default?: ConflictResolutionStrategy; // default "newest_wins"
+  fields?: Record<string, ConflictResolutionStrategy>; // any table
+  tables?: Record<string, Record<string, ConflictResolutionStrategy>>; // table -> field -> policy
+  ignoredFields?: string[]; // replaces DEFAULT_IGNORED_FIELDS
+}
+
+export interface FieldConflict {
+  field: string;
+  base: any;
+  mongodb: any;
+  servicenow: any;
+  policy: ConflictResolutionStrategy;
+  resolvedWith: ConflictSide | null;
+}
 
 export interface ConflictData {
+  id: string; // table:sys_id
   sys_id: string;
   table: string;
+  base: any;
   mongoData: any;
   serviceNowData: any;
+  merged: any; // servicenow values for the pending fields
   conflictFields: string[];
+  fields: FieldConflict[];
   resolution: "pending" | "resolved";
-  resolvedWith: "mongodb" | "servicenow" | null;
+  resolvedWith: ConflictSide | "mixed" | null;
+  resolvedBy?: string;
+  resolvedAt?: string;
   timestamp: string;
 }
 
-export type ConflictResolutionStrategy =
-  | "servicenow_wins"
-  | "mongodb_wins"
-  | "newest_wins"
-  | "manual";
+export interface MergeResult {
+  status: "clean" | "auto_resolved" | "conflict";
+  merged: Record<string, any>;
+  toServiceNow: Record<string, any>; // fields ServiceNow does not have yet
+  toMongo: Record<string, any>; // fields MongoDB does not have yet
+  conflicts: FieldConflict[];
+  conflict?: ConflictData; // persisted when a field needs manual review
+}
+
+export interface ConflictResolverOptions {
+  store?: ConflictStore;
+  policies?: ConflictPolicyConfig;
+  // Writes a manual resolution to both sides before it is marked resolved
+  apply?: (conflict: ConflictData, result: MergeResult) => Promise<void>;
+}
+
+export class ConflictNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Conflict not found: ${id}`);
+    this.name = "ConflictNotFoundError";
+  }
+}
+
+// Bookkeeping fields each side stamps on its own
+export const DEFAULT_IGNORED_FIELDS = [
+  "_id",
+  "sys_id",
+  "sys_created_on",
+  "sys_created_by",
+  "sys_updated_on",
+  "sys_updated_by",
+  "sys_mod_count",
+];
 
 export class ConflictResolver {
-  private conflicts: Map<string, ConflictData> = new Map();
-  private strategy: ConflictResolutionStrategy;
+  readonly store: ConflictStore;
+  private policies: ConflictPolicyConfig;
+  private ignored: Set<string>;
 
-  constructor(strategy: ConflictResolutionStrategy = "newest_wins") {
-    this.strategy = strategy;
+  constructor(private options: ConflictResolverOptions = {}) {
+    this.store = options.store ?? new MemoryConflictStore();
+    this.policies = options.policies ?? {};
+    this.ignored = new Set(
+      this.policies.ignoredFields ?? DEFAULT_IGNORED_FIELDS,
+    );
   }
 
   /**
-   * Check for data conflicts between MongoDB and ServiceNow data
+   * Policy for a field: table override, then field override, then default
    */
-  checkForConflicts(
+  policyFor(table: string, field: string): ConflictResolutionStrategy {
+    return (
+      this.policies.tables?.[table]?.[field] ??
+      this.policies.fields?.[field] ??
+      this.policies.default ??
+      "newest_wins"
+    );
+  }
+
+  /**
+   * Merge both versions against the stored base. Clean and auto-resolved
+   * merges become the new base; manual conflicts are persisted and keep the
+   * old base so the next merge still sees them.
+   */
+  async merge(
+    table: string,
     mongoData: any,
     serviceNowData: any,
-    table: string,
-  ): ConflictData | null {
-    const conflictFields: string[] = [];
-    const criticalFields = [
-      "state",
-      "priority",
-      "short_description",
-      "assignment_group",
-    ];
-
-    for (const field of criticalFields) {
-      const mongoValue = this.normalizeValue(mongoData[field]);
-      const snowValue = this.normalizeValue(serviceNowData[field]);
-
-      if (mongoValue !== snowValue) {
-        conflictFields.push(field);
+    base?: any,
+  ): Promise<MergeResult> {
+    const sysId = this.normalizeValue(
+      serviceNowData.sys_id ?? mongoData.sys_id,
+    );
+    const ancestor = base ?? (await this.store.loadBase(table, sysId)) ?? {};
+
+    const merged: Record<string, any> = { ...serviceNowData };
+    const conflicts: FieldConflict[] = [];
+
+    // Fields only MongoDB knows about are local annotations, not ServiceNow data
+    const fields = new Set([
+      ...Object.keys(ancestor),
+      ...Object.keys(serviceNowData),
+    ]);
+
+    for (const field of fields) {
+      if (this.ignored.has(field)) {
+        continue;
+      }
+
+      const b = this.normalizeValue(ancestor[field]);
+      const m = this.normalizeValue(mongoData[field]);
+      const s = this.normalizeValue(serviceNowData[field]);
+
+      if (m === s || m === b) {
+        continue; // ServiceNow value already in merged
       }
+      if (s === b) {
+        merged[field] = mongoData[field];
+        continue;
+      }
+
+      const policy = this.policyFor(table, field);
+      const resolvedWith = this.pick(policy, mongoData, serviceNowData);
+      if (resolvedWith === "mongodb") {
+        merged[field] = mongoData[field];
+      }
+      conflicts.push({
+        field,
+        base: ancestor[field],
+        mongodb: mongoData[field],
+        servicenow: serviceNowData[field],
+        policy,
+        resolvedWith,
+      });
     }
 
-    if (conflictFields.length > 0) {
-      const conflictData: ConflictData = {
-        sys_id: serviceNowData.sys_id,
-        table,
-        mongoData,
-        serviceNowData,
-        conflictFields,
-        resolution: "pending",
-        resolvedWith: null,
-        timestamp: new Date().toISOString(),
-      };
-
-      const conflictId = `${table}:${serviceNowData.sys_id}`;
-      this.conflicts.set(conflictId, conflictData);
-
-      console.log(
-        `⚔️ Conflict detected for ${table}/${serviceNowData.sys_id}: ${conflictFields.join(", ")}`,
-      );
-      return conflictData;
+    const pending = conflicts.filter((conflict) => !conflict.resolvedWith);
+    const result: MergeResult = {
+      status:
+        pending.length > 0
+          ? "conflict"
+          : conflicts.length > 0
+            ? "auto_resolved"
+            : "clean",
+      merged,
+      ...this.changes(merged, mongoData, serviceNowData),
+      conflicts,
+    };
+
+    const id = `${table}:${sysId}`;
+    if (pending.length === 0) {
+      await this.store.saveBase(table, sysId, merged);
+      await this.settle(id);
+      return result;
     }
 
-    return null;
+    result.conflict = {
+      id,
+      sys_id: sysId,
+      table,
+      base: ancestor,
+      mongoData,
+      serviceNowData,
+      merged,
+      conflictFields: pending.map((conflict) => conflict.field),
+      fields: conflicts,
+      resolution: "pending",
+      resolvedWith: null,
+      timestamp: new Date().toISOString(),
+    };
+    await this.store.saveConflict(result.conflict);
+
+    console.log(
+      `⚔️ Conflict detected for ${table}/${sysId}: ${result.conflict.conflictFields.join(", ")}`,
+    );
+    return result;
   }
 
   /**
-   * Resolve conflict based on strategy
+   * Resolve a pending conflict with one side, or one side per field
    */
-  resolveConflict(conflict: ConflictData): {
-    data: any;
-    source: "mongodb" | "servicenow";
-  } {
-    let winningData: any;
-    let resolution: "mongodb" | "servicenow";
-
-    switch (this.strategy) {
-      case "servicenow_wins":
-        winningData = conflict.serviceNowData;
-        resolution = "servicenow";
-        break;
+  async resolve(
+    id: string,
+    choice: ConflictSide | Record<string, ConflictSide>,
+    resolvedBy?: string,
+  ): Promise<MergeResult> {
+    const conflict = await this.store.getConflict(id);
+    if (!conflict) {
+      throw new ConflictNotFoundError(id);
+    }
+    if (conflict.resolution === "resolved") {
+      throw new Error(`Conflict already resolved: ${id}`);
+    }
 
-      case "mongodb_wins":
-        winningData = conflict.mongoData;
-        resolution = "mongodb";
-        break;
-
-      case "newest_wins":
-        const mongoTime = new Date(conflict.mongoData.sys_updated_on || 0);
-        const snowTime = new Date(conflict.serviceNowData.sys_updated_on || 0);
-
-        if (snowTime > mongoTime) {
-          winningData = conflict.serviceNowData;
-          resolution = "servicenow";
-        } else {
-          winningData = conflict.mongoData;
-          resolution = "mongodb";
-        }
-        break;
-
-      case "manual":
-        throw new Error(
-          `Manual resolution required for ${conflict.table}/${conflict.sys_id}`,
-        );
+    const pending = conflict.fields.filter((field) => !field.resolvedWith);
+    const missing = pending.find(
+      (field) => typeof choice !== "string" && !choice[field.field],
+    );
+    if (missing) {
+      throw new Error(`No resolution given for field: ${missing.field}`);
+    }
 
-      default:
-        winningData = conflict.serviceNowData;
-        resolution = "servicenow";
+    const merged = { ...conflict.merged };
+    const sides = new Set<ConflictSide>();
+    for (const field of pending) {
+      const side = typeof choice === "string" ? choice : choice[field.field];
+      field.resolvedWith = side;
+      merged[field.field] =
+        side === "mongodb" ? field.mongodb : field.servicenow;
+      sides.add(side);
     }
 
-    // Update conflict status
+    const result: MergeResult = {
+      status: "auto_resolved",
+      merged,
+      ...this.changes(merged, conflict.mongoData, conflict.serviceNowData),
+      conflicts: conflict.fields,
+    };
+
+    await this.options.apply?.(conflict, result);
+
+    conflict.merged = merged;
     conflict.resolution = "resolved";
-    conflict.resolvedWith = resolution;
+    conflict.resolvedWith = sides.size === 1 ? [...sides][0] : "mixed";
+    conflict.resolvedBy = resolvedBy;
+    conflict.resolvedAt = new Date().toISOString();
+    await this.store.saveBase(conflict.table, conflict.sys_id, merged);
+    await this.store.saveConflict(conflict);
 
     console.log(
-      ` Resolved conflict for ${conflict.table}/${conflict.sys_id}: ${resolution} wins`,
+      ` Resolved conflict for ${conflict.table}/${conflict.sys_id}: ${conflict.resolvedWith}`,
     );
+    return { ...result, conflict };
+  }
 
-    return { data: winningData, source: resolution };
+  async getConflict(id: string): Promise<ConflictData | null> {
+    return this.store.getConflict(id);
   }
 
   /**
    * Get all pending conflicts
    */
-  getPendingConflicts(): ConflictData[] {
-    return Array.from(this.conflicts.values()).filter(
-      (c) => c.resolution === "pending",
-    );
+  async getPendingConflicts(table?: string): Promise<ConflictData[]> {
+    return this.store.listConflicts({ table, resolution: "pending" });
   }
 
   /**
-   * Clear resolved conflicts
+   * Get conflict statistics
    */
-  clearResolvedConflicts(): void {
-    for (const [key, conflict] of this.conflicts) {
-      if (conflict.resolution === "resolved") {
-        this.conflicts.delete(key);
-      }
-    }
+  async getConflictStats() {
+    return this.store.stats();
   }
 
   /**
-   * Get conflict statistics
+   * A pending conflict whose sides have since converged needs no review
    */
-  getConflictStats(): {
-    total: number;
-    pending: number;
-    resolved: number;
-    byTable: Record<string, number>;
-  } {
-    const stats = {
-      total: this.conflicts.size,
-      pending: 0,
-      resolved: 0,
-      byTable: {} as Record<string, number>,
-    };
+  private async settle(id: string): Promise<void> {
+    const stale = await this.store.getConflict(id);
+    if (stale?.resolution !== "pending") {
+      return;
+    }
+    stale.resolution = "resolved";
+    stale.resolvedBy = "merge";
+    stale.resolvedAt = new Date().toISOString();
+    await this.store.saveConflict(stale);
+  }
 
-    for (const conflict of this.conflicts.values()) {
-      if (conflict.resolution === "pending") {
-        stats.pending++;
-      } else {
-        stats.resolved++;
+  /**
+   * Side chosen by a policy, null when a person has to decide
+   */
+  private pick(
+    policy: ConflictResolutionStrategy,
+    mongoData: any,
+    serviceNowData: any,
+  ): ConflictSide | null {
+    switch (policy) {
+      case "servicenow_wins":
+        return "servicenow";
+      case "mongodb_wins":
+        return "mongodb";
+      case "newest_wins": {
+        const mongoTime = new Date(
+          this.normalizeValue(mongoData.sys_updated_on) || 0,
+        );
+        const snowTime = new Date(
+          this.normalizeValue(serviceNowData.sys_updated_on) || 0,
+        );
+        return snowTime >= mongoTime ? "servicenow" : "mongodb";
       }
-
-      stats.byTable[conflict.table] = (stats.byTable[conflict.table] || 0) + 1;
+      default:
+        return null;
     }
+  }
 
-    return stats;
+  private changes(merged: any, mongoData: any, serviceNowData: any) {
+    const toServiceNow: Record<string, any> = {};
+    const toMongo: Record<string, any> = {};
+    for (const [field, value] of Object.entries(merged)) {
+      if (this.ignored.has(field)) {
+        continue;
+      }
+      const target = this.normalizeValue(value);
+      if (target !== this.normalizeValue(serviceNowData[field])) {
+        toServiceNow[field] = this.normalizeValue(value);
+      }
+      if (target !== this.normalizeValue(mongoData[field])) {
+        toMongo[field] = value;
+      }
+    }
+    return { toServiceNow, toMongo };
   }
 
   /**
-   * Normalize field values for comparison
+   * Normalize field values for comparison; references compare by sys_id,
+   * so { value, display_value } and the plain value are equal
    */
   private normalizeValue(value: any): string {
-    if (!value) return "";
-    if (typeof value === "string") return value.trim();
-    if (typeof value === "object" && value.display_value)
-      return value.display_value.trim();
-    if (typeof value === "object" && value.value) return value.value.trim();
+    if (value === null || value === undefined) return "";
+    if (typeof value === "object" && "value" in value)
+      return this.normalizeValue(value.value);
+    if (typeof value === "object") return JSON.stringify(value);
     return String(value).trim();
   }
-
-  /**
-   * Update resolution strategy
-   */
-  setStrategy(strategy: ConflictResolutionStrategy): void {
-    this.strategy = strategy;
-    console.log(` Conflict resolution strategy updated: ${strategy}`);
-  }
 }
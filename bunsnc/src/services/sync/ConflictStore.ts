@@ -0,0 +1,174 @@
+/**
+ * Conflict Stores - Merge bases and unresolved conflicts for ConflictResolver
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import type { Collection } from "mongodb";
+import type { ConflictData } from "./ConflictResolver";
+
+export interface ConflictFilter {
+  table?: string;
+  resolution?: ConflictData["resolution"];
+  limit?: number;
+}
+
+export interface ConflictStats {
+  total: number;
+  pending: number;
+  resolved: number;
+  byTable: Record<string, number>;
+}
+
+export interface ConflictStore {
+  // Last version both sides agreed on
+  loadBase(table: string, sysId: string): Promise<Record<string, any> | null>;
+  saveBase(
+    table: string,
+    sysId: string,
+    record: Record<string, any>,
+  ): Promise<void>;
+  saveConflict(conflict: ConflictData): Promise<void>;
+  getConflict(id: string): Promise<ConflictData | null>;
+  listConflicts(filter?: ConflictFilter): Promise<ConflictData[]>;
+  stats(): Promise<ConflictStats>;
+}
+
+export class MemoryConflictStore implements ConflictStore {
+  private bases = new Map<string, Record<string, any>>();
+  private conflicts = new Map<string, ConflictData>();
+
+  async loadBase(
+    table: string,
+    sysId: string,
+  ): Promise<Record<string, any> | null> {
+    const base = this.bases.get(`${table}:${sysId}`);
+    return base ? structuredClone(base) : null;
+  }
+
+  async saveBase(
+    table: string,
+    sysId: string,
+    record: Record<string, any>,
+  ): Promise<void> {
+    this.bases.set(`${table}:${sysId}`, structuredClone(record));
+  }
+
+  async saveConflict(conflict: ConflictData): Promise<void> {
+    this.conflicts.set(conflict.id, structuredClone(conflict));
+  }
+
+  async getConflict(id: string): Promise<ConflictData | null> {
+    const conflict = this.conflicts.get(id);
+    return conflict ? structuredClone(conflict) : null;
+  }
+
+  async listConflicts(filter: ConflictFilter = {}): Promise<ConflictData[]> {
+    return [...this.conflicts.values()]
+      .filter(
+        (conflict) =>
+          (!filter.table || conflict.table === filter.table) &&
+          (!filter.resolution || conflict.resolution === filter.resolution),
+      )
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .slice(0, filter.limit ?? 100)
+      .map((conflict) => structuredClone(conflict));
+  }
+
+  async stats(): Promise<ConflictStats> {
+    const stats: ConflictStats = {
+      total: 0,
+      pending: 0,
+      resolved: 0,
+      byTable: {},
+    };
+    for (const conflict of this.conflicts.values()) {
+      stats.total++;
+      stats[conflict.resolution]++;
+      stats.byTable[conflict.table] = (stats.byTable[conflict.table] || 0) + 1;
+    }
+    return stats;
+  }
+}
+
+/**
+ * Bases in sn_sync_bases, conflicts in sn_sync_conflicts (keyed by table:sys_id)
+ */
+export class MongoConflictStore implements ConflictStore {
+  constructor(
+    private bases: () => Collection<any>,
+    private conflicts: () => Collection<ConflictData>,
+  ) {}
+
+  async loadBase(
+    table: string,
+    sysId: string,
+  ): Promise<Record<string, any> | null> {
+    const document = await this.bases().findOne({ table, sys_id: sysId });
+    return document?.record ?? null;
+  }
+
+  async saveBase(
+    table: string,
+    sysId: string,
+    record: Record<string, any>,
+  ): Promise<void> {
+    await this.bases().updateOne(
+      { table, sys_id: sysId },
+      { $set: { record, updated_at: new Date() } },
+      { upsert: true },
+    );
+  }
+
+  async saveConflict(conflict: ConflictData): Promise<void> {
+    await this.conflicts().replaceOne({ id: conflict.id }, conflict, {
+      upsert: true,
+    });
+  }
+
+  async getConflict(id: string): Promise<ConflictData | null> {
+    return this.conflicts().findOne({ id }, { projection: { _id: 0 } });
+  }
+
+  async listConflicts(filter: ConflictFilter = {}): Promise<ConflictData[]> {
+    const query: Record<string, any> = {};
+    if (filter.table) {
+      query.table = filter.table;
+    }
+    if (filter.resolution) {
+      query.resolution = filter.resolution;
+    }
+    return this.conflicts()
+      .find(query, { projection: { _id: 0 } })
+      .sort({ timestamp: -1 })
+      .limit(filter.limit ?? 100)
+      .toArray();
+  }
+
+  async stats(): Promise<ConflictStats> {
+    const groups = await this.conflicts()
+      .aggregate<{
+        _id: { table: string; resolution: ConflictData["resolution"] };
+        count: number;
+      }>([
+        {
+          $group: {
+            _id: { table: "$table", resolution: "$resolution" },
+            count: { $sum: 1 },
+          },
+        },
+      ])
+      .toArray();
+
+    const stats: ConflictStats = {
+      total: 0,
+      pending: 0,
+      resolved: 0,
+      byTable: {},
+    };
+    for (const { _id, count } of groups) {
+      stats.total += count;
+      stats[_id.resolution] += count;
+      stats.byTable[_id.table] = (stats.byTable[_id.table] || 0) + count;
+    }
+    return stats;
+  }
+}
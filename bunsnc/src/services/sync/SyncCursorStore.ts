@@ -0,0 +1,86 @@
+/**
+ * Sync Cursor Stores - Durable high-watermarks for WatermarkSyncEngine
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import type { Collection } from "mongodb";
+
+// Position in a keyset ordered by (timestamp field, sys_id)
+export interface SyncPosition {
+  timestamp: string;
+  sys_id: string;
+}
+
+export interface SyncCursor {
+  table: string;
+  query: string;
+  position: SyncPosition | null; // last applied sys_updated_on + sys_id
+  deletions: SyncPosition | null; // last applied sys_audit_delete entry
+  reconciled_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SyncCursorStore {
+  load(table: string, query: string): Promise<SyncCursor | null>;
+  save(cursor: SyncCursor): Promise<void>;
+  remove(table: string, query: string): Promise<void>;
+  list(table?: string): Promise<SyncCursor[]>;
+}
+
+export class MemorySyncCursorStore implements SyncCursorStore {
+  private cursors = new Map<string, SyncCursor>();
+
+  async load(table: string, query: string): Promise<SyncCursor | null> {
+    const cursor = this.cursors.get(`${table}\u0000${query}`);
+    return cursor ? structuredClone(cursor) : null;
+  }
+
+  async save(cursor: SyncCursor): Promise<void> {
+    this.cursors.set(
+      `${cursor.table}\u0000${cursor.query}`,
+      structuredClone(cursor),
+    );
+  }
+
+  async remove(table: string, query: string): Promise<void> {
+    this.cursors.delete(`${table}\u0000${query}`);
+  }
+
+  async list(table?: string): Promise<SyncCursor[]> {
+    return [...this.cursors.values()]
+      .filter((cursor) => !table || cursor.table === table)
+      .map((cursor) => structuredClone(cursor));
+  }
+}
+
+/**
+ * One document per table + query in sn_sync_cursors
+ */
+export class MongoSyncCursorStore implements SyncCursorStore {
+  constructor(private collection: () => Collection<SyncCursor>) {}
+
+  async load(table: string, query: string): Promise<SyncCursor | null> {
+    return this.collection().findOne(
+      { table, query },
+      { projection: { _id: 0 } },
+    );
+  }
+
+  async save(cursor: SyncCursor): Promise<void> {
+    await this.collection().replaceOne(
+      { table: cursor.table, query: cursor.query },
+      cursor,
+      { upsert: true },
+    );
+  }
+
+  async remove(table: string, query: string): Promise<void> {
+    await this.collection().deleteOne({ table, query });
+  }
+
+  async list(table?: string): Promise<SyncCursor[]> {
+    return this.collection()
+      .find(table ? { table } : {}, { projection: { _id: 0 } })
+      .toArray();
+  }
+}
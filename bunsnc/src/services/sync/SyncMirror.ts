@@ -0,0 +1,176 @@
+/**
+ * Sync Mirrors - Local copies of ServiceNow tables written by WatermarkSyncEngine
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * Each record is tagged with the sync scopes (table + query) that fetched it,
+ * so a narrow query only has to diff the records it brought in.
+ */
+import type { Collection } from "mongodb";
+import type { ServiceNowRecord } from "../../types/servicenow";
+
+export interface SyncMirror {
+  upsert(
+    table: string,
+    records: ServiceNowRecord[],
+    scope: string,
+  ): Promise<{ inserted: number; updated: number }>;
+  remove(table: string, sysIds: string[]): Promise<number>;
+  sysIds(table: string, scope: string): Promise<string[]>;
+  // Mirrored copies of the given records, missing ones left out
+  get(table: string, sysIds: string[]): Promise<ServiceNowRecord[]>;
+}
+
+/**
+ * Values may be plain or { value, display_value } as returned with sysparm_display_value=all
+ */
+export function plainValue(value: any): any {
+  return value !== null && typeof value === "object" && "value" in value
+    ? value.value
+    : value;
+}
+
+export class MemorySyncMirror implements SyncMirror {
+  private tables = new Map<
+    string,
+    Map<string, { record: ServiceNowRecord; scopes: Set<string> }>
+  >();
+
+  records(table: string): ServiceNowRecord[] {
+    return [...this.table(table).values()].map((entry) => entry.record);
+  }
+
+  async upsert(
+    table: string,
+    records: ServiceNowRecord[],
+    scope: string,
+  ): Promise<{ inserted: number; updated: number }> {
+    const rows = this.table(table);
+    let inserted = 0;
+    for (const record of records) {
+      const sysId = plainValue(record.sys_id);
+      const existing = rows.get(sysId);
+      if (!existing) {
+        inserted++;
+      }
+      rows.set(sysId, {
+        record: { ...record },
+        scopes: new Set([...(existing?.scopes ?? []), scope]),
+      });
+    }
+    return { inserted, updated: records.length - inserted };
+  }
+
+  async remove(table: string, sysIds: string[]): Promise<number> {
+    const rows = this.table(table);
+    return sysIds.filter((sysId) => rows.delete(sysId)).length;
+  }
+
+  async sysIds(table: string, scope: string): Promise<string[]> {
+    return [...this.table(table).entries()]
+      .filter(([, entry]) => entry.scopes.has(scope))
+      .map(([sysId]) => sysId);
+  }
+
+  async get(table: string, sysIds: string[]): Promise<ServiceNowRecord[]> {
+    const rows = this.table(table);
+    return sysIds
+      .filter((sysId) => rows.has(sysId))
+      .map((sysId) => ({ ...rows.get(sysId)!.record }));
+  }
+
+  private table(table: string) {
+    if (!this.tables.has(table)) {
+      this.tables.set(table, new Map());
+    }
+    return this.tables.get(table)!;
+  }
+}
+
+/**
+ * Writes the ticket collections in their validated shape
+ * ({ sys_id, number, data: { <table>, slms, all_fields, ... } }).
+ * SLMs gathered by other collectors are left untouched.
+ */
+export class MongoSyncMirror implements SyncMirror {
+  constructor(private collection: (table: string) => Collection<any> | null) {}
+
+  async upsert(
+    table: string,
+    records: ServiceNowRecord[],
+    scope: string,
+  ): Promise<{ inserted: number; updated: number }> {
+    if (records.length === 0) {
+      return { inserted: 0, updated: 0 };
+    }
+
+    const now = new Date();
+    const result = await this.require(table).bulkWrite(
+      records.map((record) => {
+        const sysId = plainValue(record.sys_id);
+        return {
+          updateOne: {
+            filter: { sys_id: sysId },
+            update: {
+              $set: {
+                number: String(plainValue(record.number) ?? ""),
+                [`data.${table}`]: record,
+                "data.all_fields": record,
+                "data.sync_timestamp": now.toISOString(),
+                "data.collection_version": "v1.0",
+                updated_at: now,
+                sys_id_prefix: sysId.substring(0, 8),
+              },
+              $setOnInsert: { created_at: now, "data.slms": [] },
+              $addToSet: { sync_scopes: scope },
+            },
+            upsert: true,
+          },
+        };
+      }),
+      { ordered: false },
+    );
+
+    return {
+      inserted: result.upsertedCount,
+      updated: records.length - result.upsertedCount,
+    };
+  }
+
+  async remove(table: string, sysIds: string[]): Promise<number> {
+    if (sysIds.length === 0) {
+      return 0;
+    }
+    const result = await this.require(table).deleteMany({
+      sys_id: { $in: sysIds },
+    });
+    return result.deletedCount;
+  }
+
+  async sysIds(table: string, scope: string): Promise<string[]> {
+    const documents = await this.require(table)
+      .find({ sync_scopes: scope }, { projection: { _id: 0, sys_id: 1 } })
+      .toArray();
+    return documents.map((document) => document.sys_id);
+  }
+
+  async get(table: string, sysIds: string[]): Promise<ServiceNowRecord[]> {
+    if (sysIds.length === 0) {
+      return [];
+    }
+    const documents = await this.require(table)
+      .find(
+        { sys_id: { $in: sysIds } },
+        { projection: { _id: 0, [`data.${table}`]: 1 } },
+      )
+      .toArray();
+    return documents.map((document) => document.data?.[table]).filter(Boolean);
+  }
+
+  private require(table: string): Collection<any> {
+    const collection = this.collection(table);
+    if (!collection) {
+      throw new Error(`No mirror collection for table: ${table}`);
+    }
+    return collection;
+  }
+}
@@ -0,0 +1,440 @@
+/**
+ * WatermarkSyncEngine - Incremental table sync with durable cursors and deletion reconciliation
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * Records are pulled in keyset order (sys_updated_on, sys_id):
+ *
+ *   <query>^sys_updated_on>T^NQ<query>^sys_updated_on=T^sys_id>S^ORDERBYsys_updated_on^ORDERBYsys_id
+ *
+ * and the cursor is saved after every page, so a crashed run resumes at the
+ * first record it had not applied. Deletions are picked up from sys_audit_delete
+ * or, for tables without delete auditing, by diffing sys_id sets. With a
+ * ConflictResolver, each pulled record is merged with its mirrored copy
+ * before it is written.
+ */
+import {
+  EncodedQuery,
+  OrderByClause,
+  type QueryNode,
+} from "../../query/EncodedQuery";
+import type { QueryOptions, ServiceNowRecord } from "../../types/servicenow";
+import { logger } from "../../utils/Logger";
+import {
+  MemorySyncCursorStore,
+  type SyncCursor,
+  type SyncCursorStore,
+  type SyncPosition,
+} from "./SyncCursorStore";
+import { plainValue, type SyncMirror } from "./SyncMirror";
+import type { ConflictResolver } from "./ConflictResolver";
+
+export type DeletionStrategy = "audit" | "diff" | "none";
+
+export interface WatermarkSource {
+  query(options: QueryOptions): Promise<ServiceNowRecord[]>;
+}
+
+export interface WatermarkSyncOptions {
+  source: WatermarkSource;
+  mirror: SyncMirror;
+  cursors?: SyncCursorStore;
+  pageSize?: number; // records per request (default 500)
+  fields?: string[]; // sysparm_fields; sys_id and sys_updated_on are always added
+  deletions?: DeletionStrategy; // default "audit"
+  reconcileIntervalMs?: number; // how often syncTable() reconciles deletions (default 1 hour)
+  conflicts?: ConflictResolver; // three-way merge with the mirrored copy
+  // Sends mirror-side changes ServiceNow does not have yet
+  push?: (
+    table: string,
+    sysId: string,
+    fields: Record<string, any>,
+  ) => Promise<void>;
+  now?: () => number;
+}
+
+export interface WatermarkSyncResult {
+  table: string;
+  query: string;
+  processed: number;
+  inserted: number;
+  updated: number;
+  deleted: number;
+  conflicts: number; // records left with fields for manual review
+  pages: number;
+  reconciled: boolean;
+  cursor: SyncCursor;
+  duration: number;
+}
+
+const TIMESTAMP_FIELD = "sys_updated_on";
+const AUDIT_TABLE = "sys_audit_delete";
+const CONFIRM_CHUNK = 100;
+
+function position(record: ServiceNowRecord, field: string): SyncPosition {
+  return {
+    timestamp: String(plainValue(record[field]) ?? ""),
+    sys_id: String(plainValue(record.sys_id) ?? ""),
+  };
+}
+
+function isAfter(next: SyncPosition, previous: SyncPosition | null): boolean {
+  if (!previous) {
+    return true;
+  }
+  return next.timestamp === previous.timestamp
+    ? next.sys_id > previous.sys_id
+    : next.timestamp > previous.timestamp;
+}
+
+// ORDERBY clauses of a base query would break the keyset order
+function withoutOrdering(base: string): EncodedQuery {
+  const parsed = EncodedQuery.parse(base);
+  return new EncodedQuery(
+    parsed.blocks.map((block) =>
+      block.filter((node: QueryNode) => !(node instanceof OrderByClause)),
+    ),
+  );
+}
+
+/**
+ * base AND (field, sys_id) > position, ordered by field then sys_id
+ */
+export function keysetQuery(
+  base: string,
+  field: string,
+  after: SyncPosition | null,
+): string {
+  const order = `ORDERBY${field}^ORDERBYsys_id`;
+  return withoutOrdering(base)
+    .and(
+      after
+        ? `${field}>${after.timestamp}^NQ${field}=${after.timestamp}^sys_id>${after.sys_id}^${order}`
+        : order,
+    )
+    .toString();
+}
+
+export class WatermarkSyncEngine {
+  readonly cursors: SyncCursorStore;
+  private pageSize: number;
+  private deletions: DeletionStrategy;
+  private reconcileIntervalMs: number;
+  private now: () => number;
+
+  constructor(private options: WatermarkSyncOptions) {
+    this.cursors = options.cursors ?? new MemorySyncCursorStore();
+    this.pageSize = options.pageSize ?? 500;
+    this.deletions = options.deletions ?? "audit";
+    this.reconcileIntervalMs = options.reconcileIntervalMs ?? 3600000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Scope key tagging mirrored records, one per table + query
+   */
+  static scope(table: string, query: string = ""): string {
+    return query ? `${table}?${query}` : table;
+  }
+
+  /**
+   * Apply every change since the stored cursor, then reconcile deletions when due
+   */
+  async syncTable(
+    table: string,
+    query: string = "",
+  ): Promise<WatermarkSyncResult> {
+    const startTime = this.now();
+    const cursor = await this.loadCursor(table, query);
+    const scope = WatermarkSyncEngine.scope(table, query);
+    const fields = this.options.fields?.length
+      ? [...new Set([...this.options.fields, "sys_id", TIMESTAMP_FIELD])]
+      : undefined;
+
+    const result = {
+      processed: 0,
+      inserted: 0,
+      updated: 0,
+      deleted: 0,
+      conflicts: 0,
+      pages: 0,
+      reconciled: false,
+    };
+
+    while (true) {
+      const records = await this.options.source.query({
+        table,
+        filter: keysetQuery(query, TIMESTAMP_FIELD, cursor.position),
+        fields,
+        limit: this.pageSize,
+      });
+      if (records.length === 0) {
+        break;
+      }
+
+      const last = position(records[records.length - 1], TIMESTAMP_FIELD);
+      if (!last.timestamp || !last.sys_id || !isAfter(last, cursor.position)) {
+        // The source ignored the keyset; saving would loop forever
+        throw new Error(
+          `Sync of ${table} did not advance past ${JSON.stringify(cursor.position)}`,
+        );
+      }
+
+      const merged = await this.merge(table, records);
+      const written = await this.options.mirror.upsert(
+        table,
+        merged.records,
+        scope,
+      );
+      result.conflicts += merged.conflicts;
+      result.processed += records.length;
+      result.inserted += written.inserted;
+      result.updated += written.updated;
+      result.pages++;
+
+      cursor.position = last;
+      await this.saveCursor(cursor);
+
+      if (records.length < this.pageSize) {
+        break;
+      }
+    }
+
+    if (this.reconcileDue(cursor)) {
+      result.deleted = await this.reconcile(cursor);
+      result.reconciled = true;
+    }
+
+    logger.info(`Watermark sync completed for ${table}`, "WatermarkSync", {
+      query,
+      ...result,
+      position: cursor.position,
+    });
+
+    return {
+      table,
+      query,
+      ...result,
+      cursor,
+      duration: this.now() - startTime,
+    };
+  }
+
+  /**
+   * Remove mirrored records deleted upstream, regardless of the interval
+   */
+  async reconcileDeletions(table: string, query: string = ""): Promise<number> {
+    return this.reconcile(await this.loadCursor(table, query));
+  }
+
+  async status(table: string, query: string = ""): Promise<SyncCursor | null> {
+    return this.cursors.load(table, query);
+  }
+
+  /**
+   * Forget the cursor; the next sync starts from the first record again
+   */
+  async reset(table: string, query: string = ""): Promise<void> {
+    await this.cursors.remove(table, query);
+  }
+
+  /**
+   * Merge each record with its mirrored copy against the last synced base.
+   * Fields pending manual review keep the mirrored value until resolved, so
+   * the next merge still sees them as a conflict.
+   */
+  private async merge(
+    table: string,
+    records: ServiceNowRecord[],
+  ): Promise<{ records: ServiceNowRecord[]; conflicts: number }> {
+    const resolver = this.options.conflicts;
+    if (!resolver) {
+      return { records, conflicts: 0 };
+    }
+
+    const sysIds = records.map((record) => String(plainValue(record.sys_id)));
+    const mirrored = new Map(
+      (await this.options.mirror.get(table, sysIds)).map((record) => [
+        String(plainValue(record.sys_id)),
+        record,
+      ]),
+    );
+
+    const merged: ServiceNowRecord[] = [];
+    let conflicts = 0;
+    for (const [index, record] of records.entries()) {
+      const sysId = sysIds[index];
+      const local = mirrored.get(sysId);
+      if (!local) {
+        await resolver.store.saveBase(table, sysId, record);
+        merged.push(record);
+        continue;
+      }
+
+      // A copy mirrored before conflicts were tracked is the last synced version
+      const base = (await resolver.store.loadBase(table, sysId)) ?? local;
+      const result = await resolver.merge(table, local, record, base);
+      if (Object.keys(result.toServiceNow).length > 0 && this.options.push) {
+        await this.options.push(table, sysId, result.toServiceNow);
+      }
+      const next = { ...result.merged } as ServiceNowRecord;
+      for (const field of result.conflict?.conflictFields ?? []) {
+        next[field] = local[field];
+      }
+      if (result.conflict) {
+        conflicts++;
+      }
+      merged.push(next);
+    }
+    return { records: merged, conflicts };
+  }
+
+  private async reconcile(cursor: SyncCursor): Promise<number> {
+    const strategy = this.deletions;
+    if (strategy === "none") {
+      return 0;
+    }
+
+    const deleted =
+      strategy === "audit"
+        ? await this.reconcileFromAudit(cursor)
+        : await this.reconcileByDiff(cursor);
+
+    cursor.reconciled_at = new Date(this.now()).toISOString();
+    await this.saveCursor(cursor);
+
+    if (deleted > 0) {
+      logger.info(
+        `Removed ${deleted} ${cursor.table} records deleted in ServiceNow`,
+        "WatermarkSync",
+        { query: cursor.query, strategy },
+      );
+    }
+    return deleted;
+  }
+
+  /**
+   * Walk sys_audit_delete from the last applied entry
+   */
+  private async reconcileFromAudit(cursor: SyncCursor): Promise<number> {
+    let deleted = 0;
+
+    while (true) {
+      const entries = await this.options.source.query({
+        table: AUDIT_TABLE,
+        filter: keysetQuery(
+          `tablename=${cursor.table}`,
+          "sys_created_on",
+          cursor.deletions,
+        ),
+        fields: ["sys_id", "documentkey", "sys_created_on"],
+        limit: this.pageSize,
+      });
+      if (entries.length === 0) {
+        break;
+      }
+
+      const last = position(entries[entries.length - 1], "sys_created_on");
+      if (!isAfter(last, cursor.deletions)) {
+        throw new Error(
+          `Deletion audit of ${cursor.table} did not advance past ${JSON.stringify(cursor.deletions)}`,
+        );
+      }
+
+      const keys = entries
+        .map((entry) => String(plainValue(entry.documentkey) ?? ""))
+        .filter(Boolean);
+      deleted += await this.options.mirror.remove(cursor.table, keys);
+
+      cursor.deletions = last;
+      await this.saveCursor(cursor);
+
+      if (entries.length < this.pageSize) {
+        break;
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * Mirrored sys_ids missing from the upstream query result are confirmed
+   * one chunk at a time without the query, so records that merely left the
+   * scope are kept.
+   */
+  private async reconcileByDiff(cursor: SyncCursor): Promise<number> {
+    const scope = WatermarkSyncEngine.scope(cursor.table, cursor.query);
+    const mirrored = await this.options.mirror.sysIds(cursor.table, scope);
+    if (mirrored.length === 0) {
+      return 0;
+    }
+
+    const upstream = new Set<string>();
+    let after = "";
+    while (true) {
+      const page = await this.options.source.query({
+        table: cursor.table,
+        filter: withoutOrdering(cursor.query)
+          .and(after ? `sys_id>${after}^ORDERBYsys_id` : "ORDERBYsys_id")
+          .toString(),
+        fields: ["sys_id"],
+        limit: this.pageSize,
+      });
+      for (const record of page) {
+        upstream.add(String(plainValue(record.sys_id)));
+      }
+      if (page.length < this.pageSize) {
+        break;
+      }
+      after = String(plainValue(page[page.length - 1].sys_id));
+    }
+
+    const missing = mirrored.filter((sysId) => !upstream.has(sysId));
+    const gone: string[] = [];
+    for (let i = 0; i < missing.length; i += CONFIRM_CHUNK) {
+      const chunk = missing.slice(i, i + CONFIRM_CHUNK);
+      const found = await this.options.source.query({
+        table: cursor.table,
+        filter: `sys_idIN${chunk.join(",")}`,
+        fields: ["sys_id"],
+        limit: chunk.length,
+      });
+      const existing = new Set(
+        found.map((record) => String(plainValue(record.sys_id))),
+      );
+      gone.push(...chunk.filter((sysId) => !existing.has(sysId)));
+    }
+
+    return this.options.mirror.remove(cursor.table, gone);
+  }
+
+  private reconcileDue(cursor: SyncCursor): boolean {
+    if (this.deletions === "none") {
+      return false;
+    }
+    return (
+      !cursor.reconciled_at ||
+      this.now() - Date.parse(cursor.reconciled_at) >= this.reconcileIntervalMs
+    );
+  }
+
+  private async loadCursor(table: string, query: string): Promise<SyncCursor> {
+    const existing = await this.cursors.load(table, query);
+    if (existing) {
+      return existing;
+    }
+    const now = new Date(this.now()).toISOString();
+    return {
+      table,
+      query,
+      position: null,
+      deletions: null,
+      reconciled_at: null,
+      created_at: now,
+      updated_at: now,
+    };
+  }
+
+  private async saveCursor(cursor: SyncCursor): Promise<void> {
+    cursor.updated_at = new Date(this.now()).toISOString();
+    await this.cursors.save(cursor);
+  }
+}
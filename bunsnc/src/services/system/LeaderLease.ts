@@ -0,0 +1,215 @@
+/**
+ * Leader Lease - One replica at a time runs a singleton loop
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * A lease is held for ttlMs and renewed every renewIntervalMs. The holder
+ * keeps leading while a renewal is under ttlMs old, so a replica cut off from
+ * Redis steps down before another one can take over. stop() frees the lease
+ * for the standbys' next attempt instead of letting it expire.
+ *
+ * Every new holder gets a larger fencing token; work started by a leader
+ * carries it so writers can reject a deposed leader's late writes (the
+ * TaskQueue does so for the tasks it is given).
+ */
+import { EventEmitter } from "events";
+import { hostname } from "os";
+import { logger } from "../../utils/Logger";
+import { redisConnectionManager } from "../../utils/RedisConnection";
+import {
+  MemoryLeaseBackend,
+  RedisLeaseBackend,
+  type LeaseBackend,
+  type LeaseRecord,
+} from "./LeaseBackend";
+
+export interface LeaderLeaseOptions {
+  ttlMs?: number; // default 30s
+  renewIntervalMs?: number; // default ttlMs / 3
+  holder?: string; // default host:pid:random
+  now?: () => number;
+}
+
+export interface LeaseStatus {
+  name: string;
+  holder: string | null; // current holder in the backend, any replica
+  token: number | null;
+  acquired_at: string | null;
+  expires_at: string | null;
+  leader: boolean; // this replica holds it
+  replica: string;
+}
+
+const DEFAULT_TTL = 30 * 1000;
+
+export class LeaderLease extends EventEmitter {
+  readonly holder: string;
+  private record: LeaseRecord | null = null;
+  private validUntil = 0;
+  private running = false;
+  private timer?: Timer;
+  private attempt: Promise<void> | null = null;
+  private ttlMs: number;
+  private renewIntervalMs: number;
+  private now: () => number;
+
+  constructor(
+    readonly name: string,
+    private backend: LeaseBackend,
+    options: LeaderLeaseOptions = {},
+  ) {
+    super();
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL;
+    this.renewIntervalMs =
+      options.renewIntervalMs ?? Math.floor(this.ttlMs / 3);
+    this.holder =
+      options.holder ??
+      `${hostname()}:${process.pid}:${Math.random().toString(36).slice(2, 8)}`;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Join the election; resolves after the first attempt with whether this
+   * replica leads
+   */
+  async start(): Promise<boolean> {
+    if (!this.running) {
+      this.running = true;
+      await (this.attempt = this.campaign());
+    }
+    return this.isLeader();
+  }
+
+  /**
+   * Leave the election, handing the lease over if held
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    clearTimeout(this.timer);
+    await this.attempt;
+    if (!this.record) return;
+
+    try {
+      if (await this.backend.release(this.name, this.holder)) {
+        logger.info(
+          `Lease ${this.name} released by ${this.holder}`,
+          "LeaderLease",
+        );
+      }
+    } catch (error: unknown) {
+      logger.warn(
+        `Lease ${this.name} not released, it expires in ${this.ttlMs}ms: ${(error as Error).message}`,
+        "LeaderLease",
+      );
+    }
+    this.record = null;
+    this.emit("released");
+  }
+
+  isLeader(): boolean {
+    return this.record !== null && this.now() < this.validUntil;
+  }
+
+  get fencingToken(): number | null {
+    return this.isLeader() ? this.record!.token : null;
+  }
+
+  async status(): Promise<LeaseStatus> {
+    let current: LeaseRecord | null = null;
+    try {
+      current = await this.backend.current(this.name);
+    } catch (error: unknown) {
+      logger.warn(
+        `Lease ${this.name} status unavailable: ${(error as Error).message}`,
+        "LeaderLease",
+      );
+    }
+    return {
+      name: this.name,
+      holder: current?.holder ?? null,
+      token: current?.token ?? null,
+      acquired_at: current?.acquired_at ?? null,
+      expires_at: current?.expires_at ?? null,
+      leader: this.isLeader(),
+      replica: this.holder,
+    };
+  }
+
+  private async campaign(): Promise<void> {
+    const previous = this.record;
+    const attemptedAt = this.now();
+    try {
+      const record = await this.backend.acquire(
+        this.name,
+        this.holder,
+        this.ttlMs,
+      );
+      if (record) {
+        this.record = record;
+        this.validUntil = attemptedAt + this.ttlMs;
+        if (previous?.token !== record.token) {
+          logger.info(
+            `Lease ${this.name} acquired by ${this.holder} (token ${record.token})`,
+            "LeaderLease",
+          );
+          this.emit("acquired", record);
+        }
+      } else {
+        this.lose();
+      }
+    } catch (error: unknown) {
+      logger.warn(
+        `Lease ${this.name} renewal failed: ${(error as Error).message}`,
+        "LeaderLease",
+      );
+      // Keep leading until the last renewal runs out
+      if (!this.isLeader()) {
+        this.lose();
+      }
+    }
+
+    if (this.running) {
+      this.timer = setTimeout(() => {
+        this.attempt = this.campaign();
+      }, this.renewIntervalMs);
+    }
+  }
+
+  private lose(): void {
+    if (this.record) {
+      this.record = null;
+      logger.warn(`Lease ${this.name} lost by ${this.holder}`, "LeaderLease");
+      this.emit("lost");
+    }
+  }
+}
+
+const leases = new Map<string, LeaderLease>();
+
+/**
+ * Redis leases shared by the replicas; LEADER_ELECTION=disabled keeps them
+ * in memory for a single instance without Redis
+ */
+export function defaultLeaseBackend(): LeaseBackend {
+  return process.env.LEADER_ELECTION === "disabled"
+    ? new MemoryLeaseBackend()
+    : new RedisLeaseBackend(() => redisConnectionManager.connect());
+}
+
+/**
+ * The process-wide lease of a name, created on first use
+ */
+export function leaderLease(
+  name: string,
+  options?: LeaderLeaseOptions,
+): LeaderLease {
+  let lease = leases.get(name);
+  if (!lease) {
+    lease = new LeaderLease(name, defaultLeaseBackend(), options);
+    leases.set(name, lease);
+  }
+  return lease;
+}
+
+export async function leaseStatuses(): Promise<LeaseStatus[]> {
+  return Promise.all([...leases.values()].map((lease) => lease.status()));
+}
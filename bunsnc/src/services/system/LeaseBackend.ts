@@ -0,0 +1,166 @@
+/**
+ * Lease Backends - Shared storage for LeaderLease
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import type { Cluster, Redis } from "ioredis";
+
+export interface LeaseRecord {
+  name: string;
+  holder: string;
+  token: number; // fencing token, grows on every new holder
+  acquired_at: string;
+  expires_at: string;
+}
+
+export interface LeaseBackend {
+  // Takes a free lease or extends one `holder` already has; null when taken
+  acquire(
+    name: string,
+    holder: string,
+    ttlMs: number,
+  ): Promise<LeaseRecord | null>;
+  // Frees the lease if `holder` still has it
+  release(name: string, holder: string): Promise<boolean>;
+  current(name: string): Promise<LeaseRecord | null>;
+}
+
+/**
+ * Leases of a single process: every caller in it competes, other replicas
+ * don't see them
+ */
+export class MemoryLeaseBackend implements LeaseBackend {
+  private leases = new Map<
+    string,
+    { record: LeaseRecord; expiresAt: number }
+  >();
+  private tokens = new Map<string, number>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  async acquire(
+    name: string,
+    holder: string,
+    ttlMs: number,
+  ): Promise<LeaseRecord | null> {
+    const now = this.now();
+    const lease = this.leases.get(name);
+    if (lease && lease.expiresAt > now && lease.record.holder !== holder) {
+      return null;
+    }
+
+    let record: LeaseRecord;
+    if (lease && lease.expiresAt > now) {
+      record = lease.record;
+    } else {
+      const token = (this.tokens.get(name) ?? 0) + 1;
+      this.tokens.set(name, token);
+      record = {
+        name,
+        holder,
+        token,
+        acquired_at: new Date(now).toISOString(),
+        expires_at: "",
+      };
+    }
+    record = { ...record, expires_at: new Date(now + ttlMs).toISOString() };
+    this.leases.set(name, { record, expiresAt: now + ttlMs });
+    return { ...record };
+  }
+
+  async release(name: string, holder: string): Promise<boolean> {
+    const lease = this.leases.get(name);
+    if (!lease || lease.record.holder !== holder) {
+      return false;
+    }
+    this.leases.delete(name);
+    return true;
+  }
+
+  async current(name: string): Promise<LeaseRecord | null> {
+    const lease = this.leases.get(name);
+    return lease && lease.expiresAt > this.now() ? { ...lease.record } : null;
+  }
+}
+
+// KEYS: lease, fencing counter; ARGV: holder, ttl ms, now, expires at
+const ACQUIRE_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+local lease
+if raw then
+  lease = cjson.decode(raw)
+  if lease.holder ~= ARGV[1] then return false end
+else
+  lease = { holder = ARGV[1], token = redis.call('INCR', KEYS[2]), acquired_at = ARGV[3] }
+end
+lease.expires_at = ARGV[4]
+raw = cjson.encode(lease)
+redis.call('SET', KEYS[1], raw, 'PX', ARGV[2])
+return raw
+`;
+
+// KEYS: lease; ARGV: holder
+const RELEASE_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+if raw and cjson.decode(raw).holder == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Leases shared by every replica. The check and the write of each call run
+ * in one Lua script; the hash tag keeps both keys on one cluster slot.
+ */
+export class RedisLeaseBackend implements LeaseBackend {
+  constructor(
+    private connection: () => Promise<Redis | Cluster>,
+    private prefix: string = "leases",
+  ) {}
+
+  async acquire(
+    name: string,
+    holder: string,
+    ttlMs: number,
+  ): Promise<LeaseRecord | null> {
+    const redis = await this.connection();
+    const now = Date.now();
+    const raw = (await redis.eval(
+      ACQUIRE_SCRIPT,
+      2,
+      this.key(name),
+      `${this.key(name)}:fence`,
+      holder,
+      ttlMs,
+      new Date(now).toISOString(),
+      new Date(now + ttlMs).toISOString(),
+    )) as string | null;
+    return raw ? this.parse(name, raw) : null;
+  }
+
+  async release(name: string, holder: string): Promise<boolean> {
+    const redis = await this.connection();
+    const deleted = await redis.eval(RELEASE_SCRIPT, 1, this.key(name), holder);
+    return deleted === 1;
+  }
+
+  async current(name: string): Promise<LeaseRecord | null> {
+    const redis = await this.connection();
+    const raw = await redis.get(this.key(name));
+    return raw ? this.parse(name, raw) : null;
+  }
+
+  private key(name: string): string {
+    return `${this.prefix}:{${name}}`;
+  }
+
+  private parse(name: string, raw: string): LeaseRecord {
+    const lease = JSON.parse(raw);
+    return {
+      name,
+      holder: lease.holder,
+      token: Number(lease.token),
+      acquired_at: lease.acquired_at,
+      expires_at: lease.expires_at,
+    };
+  }
+}
@@ -7,6 +7,8 @@ import { BatchAPI, BatchConfig } from "../../api/BatchAPI";
 import type { ServiceNowRecord } from "../../types/servicenow";
 import { Logger } from "../../utils/Logger";
 import { performanceMonitor } from "../../utils/PerformanceMonitor";
+import { ServiceNowSimulator } from "../../modules/servicenow-simulator/ServiceNowSimulator";
+import { TableAPI } from "../../api/TableAPI";
 
 // Mock ServiceNowClient
 class MockServiceNowClient {
@@ -444,3 +446,134 @@ describe("BatchAPI", () => {
     });
   });
 });
+
+describe("BatchAPI dependency graph", () => {
+  let simulator: ServiceNowSimulator;
+  let batch: BatchAPI;
+  let batchCalls: number;
+
+  beforeEach(() => {
+    simulator = new ServiceNowSimulator({
+      fixtures: { sys_user_group: [{ sys_id: "g1", name: "Service Desk" }] },
+    });
+    batchCalls = 0;
+    const handle = simulator.handle.bind(simulator);
+    simulator.handle = (request: Request) => {
+      if (new URL(request.url).pathname.endsWith("/batch")) {
+        batchCalls++;
+      }
+      return handle(request);
+    };
+
+    const table = new TableAPI(
+      simulator.instanceUrl,
+      "token",
+      simulator.bridge(),
+    );
+    batch = new BatchAPI(table, null, { enableCaching: false });
+  });
+
+  test("should create an incident, then attach and annotate it", async () => {
+    batch.addRequest({
+      id: "incident",
+      method: "POST",
+      table: "incident",
+      data: { number: "INC0100", short_description: "VPN down" },
+    });
+    batch.addRequest({
+      id: "log",
+      method: "POST",
+      table: "incident",
+      sysId: BatchAPI.ref("incident"),
+      attachment: {
+        fileName: "{{incident.number}}.log",
+        content: "connection reset",
+        contentType: "text/plain",
+      },
+    });
+    batch.addRequest({
+      id: "note",
+      method: "PATCH",
+      table: "incident",
+      sysId: "{{incident.sys_id}}",
+      data: { work_notes: "Log attached as {{log.file_name}}" },
+    });
+    batch.addRequest({
+      id: "group",
+      method: "GET",
+      table: "sys_user_group",
+      sysId: "g1",
+    });
+
+    const results = await batch.executeGraph();
+
+    expect(results.map((r) => [r.id, r.status, r.level, r.dependsOn])).toEqual([
+      ["incident", "succeeded", 0, []],
+      ["log", "succeeded", 1, ["incident"]],
+      ["note", "succeeded", 2, ["incident", "log"]],
+      ["group", "succeeded", 0, []],
+    ]);
+    expect(batchCalls).toBe(3);
+    expect(batch.getRequestCount()).toBe(0);
+
+    const incident = results[0].result;
+    const [attachment] = simulator.store.all("sys_attachment");
+    expect(attachment).toMatchObject({
+      table_sys_id: incident.sys_id,
+      file_name: `${incident.number}.log`,
+    });
+    expect(simulator.store.get("incident", incident.sys_id)?.work_notes).toBe(
+      `Log attached as ${incident.number}.log`,
+    );
+  });
+
+  test("should skip requests whose dependencies failed", async () => {
+    const results = await batch.executeGraph([
+      {
+        id: "missing",
+        method: "PATCH",
+        table: "incident",
+        sysId: "nope",
+        data: { state: "2" },
+      },
+      {
+        id: "note",
+        method: "PATCH",
+        table: "incident",
+        sysId: "{{missing.sys_id}}",
+        data: { work_notes: "never sent" },
+      },
+      {
+        id: "after",
+        method: "GET",
+        table: "sys_user_group",
+        sysId: "g1",
+        dependsOn: ["note"],
+      },
+    ]);
+
+    expect(results.map((r) => [r.id, r.status, r.statusCode])).toEqual([
+      ["missing", "failed", 404],
+      ["note", "skipped", undefined],
+      ["after", "skipped", undefined],
+    ]);
+    expect(results[2].error).toBe("Dependency note did not succeed");
+    expect(batchCalls).toBe(1);
+  });
+
+  test("should reject unknown dependencies and cycles before sending", async () => {
+    await expect(
+      batch.executeGraph([
+        { id: "a", method: "GET", table: "incident", dependsOn: ["ghost"] },
+      ]),
+    ).rejects.toThrow("depends on unknown request ghost");
+
+    await expect(
+      batch.executeGraph([
+        { id: "a", method: "GET", table: "incident", sysId: "{{b.sys_id}}" },
+        { id: "b", method: "GET", table: "incident", sysId: "{{a.sys_id}}" },
+      ]),
+    ).rejects.toThrow("dependency cycle: a, b");
+    expect(batchCalls).toBe(0);
+  });
+});
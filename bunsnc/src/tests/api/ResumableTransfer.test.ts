@@ -0,0 +1,233 @@
+/**
+ * ResumableTransfer Tests - Chunked uploads and Range downloads against the simulator
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AttachmentAPI } from "../../api/AttachmentAPI";
+import {
+  ChecksumMismatchError,
+  IncompleteUploadError,
+  ResumableTransfer,
+  type UploadManifest,
+} from "../../api/ResumableTransfer";
+import { ServiceNowSimulator } from "../../modules/servicenow-simulator/ServiceNowSimulator";
+
+const retries = { maxAttempts: 2, retryDelayMs: 0 };
+
+function bytes(size: number): Buffer {
+  return Buffer.from(Array.from({ length: size }, (_, i) => (i * 7) % 256));
+}
+
+describe("ResumableTransfer", () => {
+  let simulator: ServiceNowSimulator;
+  let attachments: AttachmentAPI;
+  let dir: string;
+  let restore: () => void;
+
+  beforeEach(() => {
+    simulator = new ServiceNowSimulator({
+      fixtures: { incident: [{ sys_id: "a1", number: "INC0010001" }] },
+    });
+    restore = simulator.intercept();
+    attachments = new AttachmentAPI(simulator.instanceUrl, "token", {
+      enableCaching: false,
+      bridgeService: simulator.bridge(),
+    });
+    dir = mkdtempSync(join(tmpdir(), "bunsnc-transfer-"));
+  });
+
+  afterEach(() => {
+    restore();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Serve every request but the ones `fail` picks with a 500
+  function failWhen(fail: (request: Request) => Promise<boolean> | boolean) {
+    const handle = simulator.handle.bind(simulator);
+    simulator.handle = async (request: Request) =>
+      (await fail(request.clone()))
+        ? new Response("upstream reset", { status: 500 })
+        : handle(request);
+    return () => {
+      simulator.handle = handle;
+    };
+  }
+
+  test("should upload a small file as a single attachment", async () => {
+    const source = join(dir, "notes.txt");
+    writeFileSync(source, "hello world");
+
+    const result = await attachments.resumableUpload(source, "incident", "a1", {
+      contentType: "text/plain",
+    });
+
+    expect(result).toMatchObject({ size: 11, parts: 1, uploadedParts: 1 });
+    const record = simulator.store.get("sys_attachment", result.attachmentId);
+    expect(record?.file_name).toBe("notes.txt");
+    expect(record?.content_type).toStartWith("text/plain");
+    expect(existsSync(ResumableTransfer.manifestPath(source))).toBe(false);
+    expect(existsSync(`${source}.upload`)).toBe(false);
+  });
+
+  test("should retry only the failed parts when an upload is resumed", async () => {
+    const source = join(dir, "bundle.log");
+    const content = bytes(2500);
+    writeFileSync(source, content);
+
+    const heal = failWhen(async (request) => {
+      if (request.method !== "POST") return false;
+      const form = await request.formData();
+      return form.get("file_name") === "bundle.log.part00002";
+    });
+
+    const first = attachments.resumableUpload(source, "incident", "a1", {
+      partSize: 1024,
+      ...retries,
+    });
+    await expect(first).rejects.toThrow(IncompleteUploadError);
+
+    const manifest = JSON.parse(
+      readFileSync(ResumableTransfer.manifestPath(source), "utf-8"),
+    ) as UploadManifest;
+    expect(manifest.parts.map((part) => [part.status, part.attempts])).toEqual([
+      ["uploaded", 1],
+      ["failed", 2],
+      ["uploaded", 1],
+    ]);
+
+    heal();
+    const result = await attachments.resumableUpload(source, "incident", "a1", {
+      resume: true,
+      ...retries,
+    });
+    expect(result).toMatchObject({
+      size: 2500,
+      parts: 3,
+      uploadedParts: 1,
+      resumed: true,
+    });
+
+    const names = simulator.store
+      .all("sys_attachment")
+      .map((record) => record.file_name)
+      .sort();
+    expect(names).toEqual([
+      "bundle.log.part00001",
+      "bundle.log.part00002",
+      "bundle.log.part00003",
+      "bundle.log.parts.json",
+    ]);
+    expect(existsSync(`${source}.upload`)).toBe(false);
+
+    // The parts list downloads back as the original file
+    const dest = join(dir, "copy.log");
+    const download = await attachments.resumableDownload(
+      result.attachmentId,
+      dest,
+      { chunkSize: 1000 },
+    );
+    expect(download.size).toBe(2500);
+    expect(readFileSync(dest).equals(content)).toBe(true);
+  });
+
+  test("should resume a download from the partial file", async () => {
+    const content = bytes(3000);
+    const sysId = await attachments.upload(
+      "dump.bin",
+      "incident",
+      "a1",
+      content,
+    );
+    const dest = join(dir, "dump.bin");
+
+    let ranges = 0;
+    const heal = failWhen((request) =>
+      request.headers.has("Range") ? ++ranges > 1 : false,
+    );
+    await expect(
+      attachments.resumableDownload(sysId, dest, {
+        chunkSize: 1024,
+        ...retries,
+      }),
+    ).rejects.toThrow();
+    expect(readFileSync(`${dest}.part`).length).toBe(1024);
+
+    heal();
+    const result = await attachments.resumableDownload(sysId, dest, {
+      chunkSize: 1024,
+      resume: true,
+    });
+    expect(result.resumedFrom).toBe(1024);
+    expect(readFileSync(dest).equals(content)).toBe(true);
+    expect(existsSync(`${dest}.part`)).toBe(false);
+  });
+
+  test("should reject a download whose checksum does not match", async () => {
+    const sysId = await attachments.upload(
+      "report.csv",
+      "incident",
+      "a1",
+      Buffer.from("a,b\n1,2\n"),
+    );
+    const record = simulator.store.get("sys_attachment", sysId)!;
+    simulator.store.put("sys_attachment", { ...record, hash: "0".repeat(64) });
+
+    const dest = join(dir, "report.csv");
+    await expect(attachments.resumableDownload(sysId, dest)).rejects.toThrow(
+      ChecksumMismatchError,
+    );
+    expect(existsSync(dest)).toBe(false);
+    expect(existsSync(`${dest}.part`)).toBe(false);
+  });
+
+  test("should report progress through notifyTask", async () => {
+    const source = join(dir, "trace.log");
+    writeFileSync(source, bytes(2048));
+    const events: Array<{ status: string; progress?: number }> = [];
+    const notifier = {
+      notifyTask: async (task: { status: string; progress?: number }) => {
+        events.push({ status: task.status, progress: task.progress });
+        return "queued";
+      },
+    };
+
+    await attachments.resumableUpload(source, "incident", "a1", {
+      partSize: 1024,
+      notifier,
+      taskId: "upload-1",
+    });
+
+    expect(events).toEqual([
+      { status: "started", progress: 0 },
+      { status: "progress", progress: 50 },
+      { status: "progress", progress: 100 },
+      { status: "completed", progress: 100 },
+    ]);
+  });
+
+  test("simulator should answer Range requests with 206 and 416", async () => {
+    const sysId = await attachments.upload(
+      "range.txt",
+      "incident",
+      "a1",
+      Buffer.from("0123456789"),
+    );
+
+    const partial = await attachments.getFileRange(sysId, 2, 5);
+    expect(partial.status).toBe(206);
+    expect(partial.headers.get("Content-Range")).toBe("bytes 2-5/10");
+    expect(await partial.text()).toBe("2345");
+
+    expect(await (await attachments.getFileRange(sysId, 7)).text()).toBe("789");
+    await expect(attachments.getFileRange(sysId, 10)).rejects.toThrow();
+  });
+});
@@ -21,6 +21,8 @@ import {
   type ScheduleOptions,
 } from "../../background/TaskScheduler";
 import { TaskQueue, TaskType, TaskPriority } from "../../background/TaskQueue";
+import { LeaderLease } from "../../services/system/LeaderLease";
+import { MemoryLeaseBackend } from "../../services/system/LeaseBackend";
 
 // Mock Redis client for TaskScheduler
 const mockRedisClient = {
@@ -122,7 +124,11 @@ describe("TaskScheduler - Auto-Sync Scheduling Tests", () => {
     ).mockResolvedValue(void 0);
 
     // Initialize TaskScheduler
-    taskScheduler = new TaskScheduler(mockTaskQueue, mockRedisConfig);
+    taskScheduler = new TaskScheduler(
+      mockTaskQueue,
+      mockRedisConfig,
+      new LeaderLease("task-scheduler", new MemoryLeaseBackend()),
+    );
 
     // Override redis property to use mock
     (taskScheduler as any).redis = mockRedisClient;
@@ -398,8 +404,10 @@ describe("TaskScheduler - Auto-Sync Scheduling Tests", () => {
       const invalidExpressions = [
         "invalid",
         "* * * *", // Too few parts
-        "* * * * * *", // Too many parts
+        "* * * * * * * *", // Too many parts
         "", // Empty
+        "60 * * * *", // Minute out of range
+        "0 0 * * MON#6", // No sixth Monday
       ];
 
       for (const expr of invalidExpressions) {
@@ -407,6 +415,57 @@ describe("TaskScheduler - Auto-Sync Scheduling Tests", () => {
       }
     });
 
+    it("should accept seconds, year and special day fields", () => {
+      const validExpressions = [
+        "*/30 * * * * *", // Every 30 seconds
+        "0 0 12 1 1 ? 2030", // Once, in 2030
+        "0 18 L * *", // Last day of the month
+        "0 9 15W * *", // Weekday nearest the 15th
+        "0 9 ? * MON#1", // First Monday
+        "0 8 * * MON-FRI",
+        "@daily",
+      ];
+
+      for (const expr of validExpressions) {
+        expect(TaskScheduler.validateCronExpression(expr)).toBe(true);
+      }
+    });
+
+    it("should preview the next runs in the task timezone", () => {
+      const runs = TaskScheduler.previewRuns("0 9 * * MON-FRI", {
+        timezone: "America/Sao_Paulo",
+        count: 3,
+        from: new Date("2025-03-07T13:00:00Z"), // Friday, 10:00 local
+      });
+
+      expect(runs.map((run) => run.toISOString())).toEqual([
+        "2025-03-10T12:00:00.000Z",
+        "2025-03-11T12:00:00.000Z",
+        "2025-03-12T12:00:00.000Z",
+      ]);
+      expect(() =>
+        TaskScheduler.previewRuns("0 9 * * *", { timezone: "Nowhere/City" }),
+      ).toThrow("Unknown timezone");
+    });
+
+    it("should fire at process-local times without a timezone", () => {
+      const [run] = TaskScheduler.previewRuns("30 9 * * *", {
+        count: 1,
+        from: new Date("2025-03-07T13:00:00Z"),
+      });
+
+      expect([run.getHours(), run.getMinutes()]).toEqual([9, 30]);
+    });
+
+    it("should reject scheduling an invalid expression", async () => {
+      await expect(
+        taskScheduler.schedule({
+          ...mockAutoSyncTask,
+          cronExpression: "0 25 * * *",
+        }),
+      ).rejects.toThrow("hour value 25 out of range");
+    });
+
     it("should provide common cron expression templates", () => {
       const expressions = TaskScheduler.getCommonExpressions();
 
@@ -417,6 +476,64 @@ describe("TaskScheduler - Auto-Sync Scheduling Tests", () => {
     });
   });
 
+  describe("Misfire Policies", () => {
+    const downtime = 10 * 60 * 1000;
+    let firstMissedRun: Date;
+
+    async function scheduleMissed(
+      misfirePolicy?: "fire_once" | "fire_all" | "skip",
+      cronExpression = mockAutoSyncTask.cronExpression,
+    ) {
+      const taskId = await taskScheduler.schedule({
+        ...mockAutoSyncTask,
+        cronExpression,
+        misfirePolicy,
+      });
+      const task = taskScheduler.getScheduledTask(taskId)!;
+      // Due 10 minutes ago, every 5 minutes: 2 or 3 runs missed
+      task.nextRun = firstMissedRun = new Date(Date.now() - downtime);
+      mockTaskQueue.addTask.mockClear();
+      mockRedisClient.set.mockResolvedValueOnce("OK");
+      await taskScheduler.start();
+      return taskId;
+    }
+
+    it("should fire missed runs once by default", async () => {
+      const misfired = mock();
+      taskScheduler.on("taskMisfired", misfired);
+      const taskId = await scheduleMissed();
+
+      expect(mockTaskQueue.addTask).toHaveBeenCalledTimes(1);
+      expect(misfired).toHaveBeenCalledWith(
+        expect.objectContaining({ scheduledTaskId: taskId, firedRuns: 1 }),
+      );
+      expect(
+        taskScheduler.getScheduledTask(taskId)!.nextRun!.getTime(),
+      ).toBeGreaterThan(Date.now());
+    });
+
+    it("should fire every missed run with fire_all", async () => {
+      const taskId = await scheduleMissed("fire_all");
+
+      const calls = mockTaskQueue.addTask.mock.calls;
+      expect(calls.length).toBeGreaterThanOrEqual(2);
+      expect(calls[0][0].data.scheduledFor).toBe(firstMissedRun.toISOString());
+      expect(taskScheduler.getScheduledTask(taskId)!.runCount).toBe(
+        calls.length,
+      );
+    });
+
+    it("should drop missed runs with skip", async () => {
+      // Yearly, so no run can be on time whatever the clock says
+      const taskId = await scheduleMissed("skip", "0 0 1 1 *");
+
+      expect(mockTaskQueue.addTask).not.toHaveBeenCalled();
+      const task = taskScheduler.getScheduledTask(taskId)!;
+      expect(task.runCount).toBe(0);
+      expect(task.nextRun!.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
   describe("Scheduler Statistics", () => {
     it("should provide accurate scheduler statistics", async () => {
       // Schedule multiple auto-sync tasks
@@ -509,6 +626,51 @@ describe("TaskScheduler - Auto-Sync Scheduling Tests", () => {
     });
   });
 
+  describe("Leader Election", () => {
+    it("should not run due tasks while another replica holds the lease", async () => {
+      const backend = new MemoryLeaseBackend();
+      const other = new LeaderLease("task-scheduler", backend);
+      await other.start();
+
+      const standby = new TaskScheduler(
+        mockTaskQueue,
+        mockRedisConfig,
+        new LeaderLease("task-scheduler", backend),
+      );
+      (standby as any).redis = mockRedisClient;
+      const taskId = await standby.schedule(mockAutoSyncTask);
+      standby.getScheduledTask(taskId)!.nextRun = new Date(Date.now() - 1000);
+      mockTaskQueue.addTask.mockClear();
+
+      await standby.start();
+      expect(mockTaskQueue.addTask).not.toHaveBeenCalled();
+      expect(standby.getStats().leader).toBe(false);
+
+      await standby.stop();
+      await other.stop();
+    });
+
+    it("should queue tasks with the lease fencing token", async () => {
+      const taskId = await taskScheduler.schedule(mockAutoSyncTask);
+      taskScheduler.getScheduledTask(taskId)!.nextRun = new Date(
+        Date.now() - 1000,
+      );
+      mockTaskQueue.addTask.mockClear();
+      mockRedisClient.set.mockResolvedValueOnce("OK");
+
+      await taskScheduler.start();
+
+      expect(mockTaskQueue.addTask).toHaveBeenCalledWith(
+        expect.objectContaining({
+          metadata: expect.objectContaining({
+            fencingToken: 1,
+            fencingLease: "task-scheduler",
+          }),
+        }),
+      );
+    });
+  });
+
   describe("Error Handling and Resilience", () => {
     it("should handle Redis connection failures gracefully", async () => {
       mockRedisClient.hSet.mockRejectedValueOnce(
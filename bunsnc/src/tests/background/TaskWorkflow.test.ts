@@ -0,0 +1,409 @@
+/**
+ * TaskWorkflow Tests - Chains, fan-out/fan-in, conditions, retries and resume
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { EventEmitter } from "events";
+import {
+  InvalidWorkflowError,
+  TaskWorkflowEngine,
+  evaluateCondition,
+  type WorkflowDefinition,
+  type WorkflowQueue,
+  type WorkflowRun,
+} from "../../background/TaskWorkflow";
+import {
+  MemoryWorkflowStore,
+  WorkflowConflictError,
+} from "../../background/WorkflowStore";
+import {
+  TaskPriority,
+  TaskStatus,
+  TaskType,
+  type Task,
+} from "../../background/TaskQueue";
+import { LeaderLease } from "../../services/system/LeaderLease";
+import { MemoryLeaseBackend } from "../../services/system/LeaseBackend";
+
+// In-memory queue; tests move its tasks by hand
+class FakeQueue extends EventEmitter {
+  tasks = new Map<string, Task>();
+  private sequence = 0;
+
+  async addTask(
+    task: Omit<Task, "id" | "status" | "progress" | "retryCount" | "createdAt">,
+  ): Promise<string> {
+    const id = `task_${++this.sequence}`;
+    this.tasks.set(id, {
+      ...task,
+      id,
+      status: TaskStatus.PENDING,
+      progress: 0,
+      retryCount: 0,
+      createdAt: new Date(),
+    });
+    return id;
+  }
+
+  async getTask(taskId: string): Promise<Task | null> {
+    return this.tasks.get(taskId) ?? null;
+  }
+
+  async cancelTask(taskId: string): Promise<void> {
+    this.update(taskId, { status: TaskStatus.CANCELLED });
+  }
+
+  update(taskId: string, changes: Partial<Task>): Task {
+    const task = { ...this.tasks.get(taskId)!, ...changes };
+    this.tasks.set(taskId, task);
+    return task;
+  }
+
+  byStep(step: string): Task | undefined {
+    return [...this.tasks.values()].find(
+      (task) => task.metadata.workflowStep === step,
+    );
+  }
+}
+
+let queue: FakeQueue;
+let store: MemoryWorkflowStore;
+let engine: TaskWorkflowEngine;
+
+async function finish(
+  step: string,
+  status: TaskStatus = TaskStatus.COMPLETED,
+  result?: any,
+): Promise<WorkflowRun> {
+  const task = queue.update(queue.byStep(step)!.id, {
+    status,
+    result,
+    progress: status === TaskStatus.COMPLETED ? 100 : 0,
+    completedAt: new Date(),
+    error:
+      status === TaskStatus.FAILED
+        ? { message: "boom", timestamp: new Date(), retryable: false }
+        : undefined,
+  });
+  return (await engine.applyTaskUpdate(task))!;
+}
+
+function statuses(run: WorkflowRun): Record<string, string> {
+  return Object.fromEntries(run.steps.map((step) => [step.id, step.status]));
+}
+
+const exportChain: WorkflowDefinition = {
+  name: "Export group",
+  steps: [
+    { id: "sync", type: TaskType.DATA_SYNC, data: { group: "X" } },
+    { id: "export", type: TaskType.PARQUET_EXPORT, dependsOn: ["sync"] },
+    { id: "upload", type: TaskType.HADOOP_UPLOAD, dependsOn: ["export"] },
+    { id: "notify", type: TaskType.NOTIFICATION_SEND, dependsOn: ["upload"] },
+  ],
+};
+
+beforeEach(async () => {
+  queue = new FakeQueue();
+  store = new MemoryWorkflowStore();
+  engine = new TaskWorkflowEngine(
+    queue as unknown as WorkflowQueue,
+    store,
+    new LeaderLease("task-workflows", new MemoryLeaseBackend()),
+  );
+  await engine.start();
+});
+
+afterEach(async () => {
+  await engine.stop();
+});
+
+describe("TaskWorkflowEngine", () => {
+  test("runs a chain one step after the other", async () => {
+    let run = await engine.create(exportChain, "tester");
+    expect(statuses(run)).toEqual({
+      sync: "queued",
+      export: "waiting",
+      upload: "waiting",
+      notify: "waiting",
+    });
+    expect(queue.byStep("sync")!.data).toEqual({ group: "X" });
+
+    run = await finish("sync", TaskStatus.COMPLETED, { records: 10 });
+    expect(run.steps[1].status).toBe("queued");
+    const exportTask = queue.byStep("export")!;
+    expect(exportTask.data.inputs).toEqual({ sync: { records: 10 } });
+    expect(exportTask.metadata).toMatchObject({
+      workflowId: run.id,
+      workflowStep: "export",
+      parentTaskId: queue.byStep("sync")!.id,
+      createdBy: "tester",
+    });
+    expect(run.progress).toBe(25);
+
+    await finish("export");
+    await finish("upload");
+    run = await finish("notify");
+    expect(run.status).toBe("completed");
+    expect(run.progress).toBe(100);
+    expect(run.completedAt).toBeDefined();
+  });
+
+  test("fans out and joins the results of every branch", async () => {
+    let run = await engine.create({
+      name: "Per table export",
+      steps: [
+        { id: "sync", type: TaskType.DATA_SYNC },
+        { id: "incident", type: TaskType.PARQUET_EXPORT, dependsOn: ["sync"] },
+        { id: "problem", type: TaskType.PARQUET_EXPORT, dependsOn: ["sync"] },
+        {
+          id: "upload",
+          type: TaskType.HADOOP_UPLOAD,
+          dependsOn: ["incident", "problem"],
+        },
+      ],
+    });
+
+    run = await finish("sync");
+    expect(statuses(run)).toMatchObject({
+      incident: "queued",
+      problem: "queued",
+      upload: "waiting",
+    });
+
+    run = await finish("incident", TaskStatus.COMPLETED, { rows: 5 });
+    expect(run.steps[3].status).toBe("waiting");
+    run = await finish("problem", TaskStatus.COMPLETED, { rows: 7 });
+    expect(run.steps[3].status).toBe("queued");
+    expect(queue.byStep("upload")!.data.inputs).toEqual({
+      incident: { rows: 5 },
+      problem: { rows: 7 },
+    });
+  });
+
+  test("skips conditional steps and what depends on them", async () => {
+    let run = await engine.create({
+      name: "Export when there is data",
+      steps: [
+        { id: "sync", type: TaskType.DATA_SYNC },
+        {
+          id: "export",
+          type: TaskType.PARQUET_EXPORT,
+          dependsOn: ["sync"],
+          condition: {
+            step: "sync",
+            path: "stats.records",
+            op: "gt",
+            value: 0,
+          },
+        },
+        { id: "upload", type: TaskType.HADOOP_UPLOAD, dependsOn: ["export"] },
+        {
+          id: "notify",
+          type: TaskType.NOTIFICATION_SEND,
+          dependsOn: ["upload"],
+          trigger: "always",
+        },
+      ],
+    });
+
+    run = await finish("sync", TaskStatus.COMPLETED, { stats: { records: 0 } });
+    expect(statuses(run)).toEqual({
+      sync: "completed",
+      export: "skipped",
+      upload: "skipped",
+      notify: "queued",
+    });
+    expect(run.steps[1].skipReason).toBe("Condition on sync not met");
+  });
+
+  test("a failed step skips its dependants and runs failure handlers", async () => {
+    let run = await engine.create({
+      name: "Sync with alert",
+      steps: [
+        { id: "sync", type: TaskType.DATA_SYNC, maxRetries: 5 },
+        { id: "export", type: TaskType.PARQUET_EXPORT, dependsOn: ["sync"] },
+        {
+          id: "alert",
+          type: TaskType.NOTIFICATION_SEND,
+          dependsOn: ["sync"],
+          trigger: "any_failed",
+        },
+      ],
+    });
+    expect(queue.byStep("sync")!.maxRetries).toBe(5);
+
+    // Queue retries show up as attempts of the same step
+    const task = queue.update(queue.byStep("sync")!.id, {
+      status: TaskStatus.RETRYING,
+      retryCount: 1,
+    });
+    run = (await engine.applyTaskUpdate(task))!;
+    expect(run.steps[0]).toMatchObject({ status: "retrying", attempts: 2 });
+
+    run = await finish("sync", TaskStatus.FAILED);
+    expect(statuses(run)).toEqual({
+      sync: "failed",
+      export: "skipped",
+      alert: "queued",
+    });
+    expect(run.steps[0].error).toBe("boom");
+
+    run = await finish("alert");
+    expect(run.status).toBe("failed");
+  });
+
+  test("cancel stops queued steps and never runs the waiting ones", async () => {
+    const created = await engine.create(exportChain);
+    const run = (await engine.cancel(created.id, "no longer needed"))!;
+
+    expect(run.status).toBe("cancelled");
+    expect(new Set(Object.values(statuses(run)))).toEqual(
+      new Set(["cancelled"]),
+    );
+    expect(queue.byStep("sync")!.status).toBe(TaskStatus.CANCELLED);
+
+    // The cancellation event of the task changes nothing
+    await finish("sync", TaskStatus.CANCELLED);
+    expect(queue.tasks.size).toBe(1);
+  });
+
+  test("resume picks up the task changes missed during a restart", async () => {
+    const created = await engine.create(exportChain);
+    await engine.stop();
+
+    // Finished while no engine was listening
+    queue.update(queue.byStep("sync")!.id, {
+      status: TaskStatus.COMPLETED,
+      result: { records: 3 },
+    });
+
+    engine = new TaskWorkflowEngine(
+      queue as unknown as WorkflowQueue,
+      store,
+      new LeaderLease("task-workflows", new MemoryLeaseBackend()),
+    );
+    await engine.start();
+
+    const run = (await engine.get(created.id))!;
+    expect(statuses(run)).toMatchObject({
+      sync: "completed",
+      export: "queued",
+    });
+    expect(queue.byStep("export")!.data.inputs).toEqual({
+      sync: { records: 3 },
+    });
+  });
+
+  test("task events of the queue advance the run", async () => {
+    const run = await engine.create(exportChain);
+    const task = queue.update(queue.byStep("sync")!.id, {
+      status: TaskStatus.COMPLETED,
+    });
+    queue.emit("taskEvent", {
+      event: "task.updated",
+      data: { taskId: task.id, task },
+    });
+    await Bun.sleep(10);
+
+    expect((await engine.get(run.id))!.steps[1].status).toBe("queued");
+  });
+
+  test("a save lost to another replica is redone without queuing twice", async () => {
+    // Another replica saves the run right before the first advance does
+    const save = store.save.bind(store);
+    let interfere = true;
+    store.save = async (run) => {
+      if (interfere && run.version === 1) {
+        interfere = false;
+        const other = (await store.get(run.id))!;
+        await save({ ...other, createdBy: "replica-2" });
+      }
+      return save(run);
+    };
+
+    const run = await engine.create(exportChain);
+    expect(queue.tasks.size).toBe(1);
+    expect(run.steps[0]).toMatchObject({
+      status: "queued",
+      taskId: queue.byStep("sync")!.id,
+    });
+    expect(run.createdBy).toBe("replica-2");
+    expect(run.version).toBe(3);
+  });
+});
+
+describe("MemoryWorkflowStore", () => {
+  test("rejects a save over a version it was not read at", async () => {
+    const run = await engine.create(exportChain);
+    const stale = (await store.get(run.id))!;
+    await store.save(run);
+    await expect(store.save(stale)).rejects.toThrow(WorkflowConflictError);
+    expect((await store.get(run.id))!.version).toBe(run.version);
+  });
+});
+
+describe("Workflow validation", () => {
+  const step = (id: string, dependsOn?: string[]) => ({
+    id,
+    type: TaskType.DATA_SYNC,
+    dependsOn,
+  });
+
+  test("rejects malformed definitions", () => {
+    for (const definition of [
+      { name: "", steps: [step("a")] },
+      { name: "empty", steps: [] },
+      { name: "duplicate", steps: [step("a"), step("a")] },
+      { name: "unknown", steps: [step("a", ["b"])] },
+      {
+        name: "cycle",
+        steps: [step("a", ["c"]), step("b", ["a"]), step("c", ["b"])],
+      },
+      {
+        name: "condition",
+        steps: [
+          step("a"),
+          { ...step("b"), condition: { step: "a", op: "truthy" as const } },
+        ],
+      },
+    ]) {
+      expect(() => TaskWorkflowEngine.validate(definition)).toThrow(
+        InvalidWorkflowError,
+      );
+    }
+  });
+
+  test("accepts a diamond", () => {
+    expect(() =>
+      TaskWorkflowEngine.validate({
+        name: "diamond",
+        priority: TaskPriority.HIGH,
+        steps: [
+          step("a"),
+          step("b", ["a"]),
+          step("c", ["a"]),
+          step("d", ["b", "c"]),
+        ],
+      }),
+    ).not.toThrow();
+  });
+
+  test("conditions compare a path of the upstream result", () => {
+    const result = { stats: { records: 4 }, table: "incident" };
+    expect(
+      evaluateCondition(
+        { step: "s", path: "stats.records", op: "gte", value: 4 },
+        result,
+      ),
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        { step: "s", path: "table", op: "ne", value: "incident" },
+        result,
+      ),
+    ).toBe(false);
+    expect(
+      evaluateCondition({ step: "s", path: "missing", op: "exists" }, result),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * LLMGateway Tests - Stub model, structured output, tool calling, budgets and provider adapters
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect, afterEach } from "bun:test";
+import {
+  LLMBudgetExceededError,
+  LLMGateway,
+  LLMOutputError,
+  validateSchema,
+  type GatewayRequest,
+  type GatewayResult,
+  type JSONSchema,
+  type LLMProvider,
+} from "../../clients/LLMGateway";
+import {
+  OllamaProvider,
+  OpenAICompatibleProvider,
+  StubProvider,
+} from "../../clients/LLMProviders";
+
+const ask = (content: string): GatewayRequest => ({
+  messages: [{ role: "user", content }],
+});
+
+// Answers with the queued contents, one per request
+class ScriptedProvider implements LLMProvider {
+  readonly name = "scripted";
+  requests: GatewayRequest[] = [];
+
+  constructor(private contents: string[]) {}
+
+  async chat(request: GatewayRequest): Promise<GatewayResult> {
+    this.requests.push(request);
+    return {
+      content: this.contents.shift() ?? "",
+      toolCalls: [],
+      model: "scripted",
+      provider: this.name,
+      usage: { promptTokens: 10, completionTokens: 5 },
+    };
+  }
+
+  async *stream(): AsyncIterable<string> {}
+}
+
+const severity: JSONSchema = {
+  type: "object",
+  properties: {
+    severity: { type: "string", enum: ["low", "high"] },
+    score: { type: "integer" },
+  },
+  required: ["severity", "score"],
+};
+
+describe("StubProvider", () => {
+  test("is deterministic and streams what it answers", async () => {
+    const gateway = new LLMGateway(new StubProvider());
+    const first = await gateway.chat("test", ask("Oracle caiu"));
+    const second = await gateway.chat("test", ask("Oracle caiu"));
+    expect(first.content).toBe("Resposta stub para: Oracle caiu");
+    expect(second.content).toBe(first.content);
+
+    const tokens: string[] = [];
+    for await (const token of gateway.stream("test", ask("Oracle caiu"))) {
+      tokens.push(token);
+    }
+    expect(tokens).toHaveLength(5);
+    expect(tokens.join("")).toBe(first.content);
+  });
+});
+
+describe("LLMGateway", () => {
+  test("returns structured output matching the schema", async () => {
+    const gateway = new LLMGateway(new StubProvider());
+    expect(await gateway.json("test", ask("classifique"), severity)).toEqual({
+      severity: "low",
+      score: 1,
+    });
+  });
+
+  test("sends an invalid answer back once with the problems", async () => {
+    const provider = new ScriptedProvider([
+      'Claro! {"severity": "medium"}',
+      '```json\n{"severity": "high", "score": 8}\n```',
+    ]);
+    const gateway = new LLMGateway(provider);
+
+    expect(await gateway.json("test", ask("classifique"), severity)).toEqual({
+      severity: "high",
+      score: 8,
+    });
+    expect(provider.requests[0].schema).toEqual(severity);
+    expect(provider.requests[1].messages.at(-1)!.content).toContain(
+      '$.severity must be one of ["low","high"]',
+    );
+
+    const broken = new LLMGateway(new ScriptedProvider(["nada", "ainda nada"]));
+    await expect(broken.json("test", ask("x"), severity)).rejects.toThrow(
+      LLMOutputError,
+    );
+  });
+
+  test("runs the tools the model calls and answers with their results", async () => {
+    const provider = new StubProvider([
+      {
+        match: "INC0010001",
+        toolCall: { name: "lookup", arguments: { number: "INC0010001" } },
+      },
+    ]);
+    const gateway = new LLMGateway(provider);
+    const calls: unknown[] = [];
+
+    const result = await gateway.runTools(
+      "test",
+      {
+        ...ask("Status do INC0010001?"),
+        tools: [
+          {
+            name: "lookup",
+            description: "Find a ticket",
+            parameters: { type: "object", properties: {} },
+          },
+        ],
+      },
+      {
+        lookup: async (args) => {
+          calls.push(args);
+          return { state: "Em andamento" };
+        },
+      },
+    );
+
+    expect(calls).toEqual([{ number: "INC0010001" }]);
+    expect(result.content).toContain('{"state":"Em andamento"}');
+    const sent = provider.requests[1].messages;
+    expect(sent[1].toolCalls![0].name).toBe("lookup");
+    expect(sent[2]).toMatchObject({ role: "tool", toolCallId: "stub_call_1" });
+  });
+
+  test("gives up when the model keeps calling tools", async () => {
+    const provider = new ScriptedProvider([]);
+    provider.chat = async (request) => {
+      provider.requests.push(request);
+      return {
+        content: "",
+        toolCalls: [{ id: "call_1", name: "lookup", arguments: {} }],
+        model: "scripted",
+        provider: provider.name,
+        usage: { promptTokens: 10, completionTokens: 5 },
+      };
+    };
+    const gateway = new LLMGateway(provider);
+
+    await expect(
+      gateway.runTools(
+        "test",
+        { ...ask("x"), tools: [] },
+        { lookup: async () => ({}) },
+        2,
+      ),
+    ).rejects.toThrow(LLMOutputError);
+    expect(provider.requests).toHaveLength(3);
+    expect(provider.requests[2].tools).toBeUndefined();
+  });
+
+  test("enforces the prompt, completion and hourly budgets per feature", async () => {
+    const provider = new ScriptedProvider(["a", "b", "c"]);
+    const gateway = new LLMGateway(provider, {
+      small: {
+        maxPromptTokens: 20,
+        maxCompletionTokens: 50,
+        tokensPerHour: 80,
+      },
+    });
+
+    await expect(gateway.chat("small", ask("x".repeat(200)))).rejects.toThrow(
+      LLMBudgetExceededError,
+    );
+
+    await gateway.chat("small", { ...ask("oi"), maxTokens: 500 });
+    expect(provider.requests[0].maxTokens).toBe(50);
+
+    // Each request reserves its prompt plus 50 completion tokens
+    await gateway.chat("small", ask("oi"));
+    await expect(gateway.chat("small", ask("oi"))).rejects.toThrow(
+      "hourly budget",
+    );
+    expect(gateway.usage().small).toMatchObject({
+      requests: 2,
+      rejected: 2,
+      hourTokens: 30,
+    });
+    // Other features have their own budget
+    await gateway.chat("other", ask("oi"));
+  });
+
+  test("queues requests beyond the feature concurrency", async () => {
+    let release!: () => void;
+    const provider = new ScriptedProvider(["a", "b"]);
+    const chat = provider.chat.bind(provider);
+    provider.chat = async (request) => {
+      await new Promise<void>((resolve) => (release = resolve));
+      return chat(request);
+    };
+    const gateway = new LLMGateway(provider, { one: { concurrency: 1 } });
+
+    const first = gateway.chat("one", ask("1"));
+    const second = gateway.chat("one", ask("2"));
+    await Bun.sleep(5);
+    expect(gateway.usage().one).toMatchObject({ active: 1, queued: 1 });
+    expect(provider.requests).toHaveLength(0);
+
+    release();
+    expect((await first).content).toBe("a");
+    await Bun.sleep(5);
+    release();
+    expect((await second).content).toBe("b");
+    expect(gateway.usage().one).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  test("validates the supported schema subset", () => {
+    expect(validateSchema({ severity: "low", score: 2 }, severity)).toEqual([]);
+    expect(validateSchema({ score: 2.5 }, severity)).toEqual([
+      "$.severity is required",
+      "$.score must be an integer",
+    ]);
+    expect(
+      validateSchema([1, "2"], { type: "array", items: { type: "number" } }),
+    ).toEqual(["$[1] must be a number"]);
+  });
+});
+
+describe("HTTP providers", () => {
+  const realFetch = globalThis.fetch;
+  let bodies: any[] = [];
+
+  function serve(...responses: Response[]) {
+    bodies = [];
+    globalThis.fetch = (async (_url: string, init: RequestInit) => {
+      bodies.push(JSON.parse(String(init.body)));
+      return responses.shift()!;
+    }) as typeof fetch;
+  }
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  test("OpenAI-compatible servers: tool calls, schemas and SSE", async () => {
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: "http://llm/v1",
+      model: "gpt",
+      timeout: 1000,
+      apiKey: "key",
+    });
+    serve(
+      Response.json({
+        model: "gpt",
+        choices: [
+          {
+            message: {
+              content: null,
+              tool_calls: [
+                {
+                  id: "call_9",
+                  function: { name: "lookup", arguments: '{"number":"INC1"}' },
+                },
+              ],
+            },
+          },
+        ],
+        usage: { prompt_tokens: 12, completion_tokens: 3 },
+      }),
+      new Response(
+        'data: {"choices":[{"delta":{"content":"Olá"}}]}\n\ndata: {"choices":[{"delta":{"content":" mundo"}}]}\n\ndata: [DONE]\n\n',
+      ),
+    );
+
+    const result = await provider.chat({
+      messages: [
+        { role: "user", content: "oi" },
+        {
+          role: "assistant",
+          content: "",
+          toolCalls: [{ id: "call_1", name: "lookup", arguments: {} }],
+        },
+        { role: "tool", content: "{}", toolCallId: "call_1" },
+      ],
+      schema: severity,
+      maxTokens: 100,
+    });
+    expect(result).toMatchObject({
+      content: "",
+      toolCalls: [
+        { id: "call_9", name: "lookup", arguments: { number: "INC1" } },
+      ],
+      usage: { promptTokens: 12, completionTokens: 3 },
+    });
+    expect(bodies[0]).toMatchObject({
+      max_tokens: 100,
+      response_format: { type: "json_schema" },
+    });
+    expect(bodies[0].messages[1].tool_calls[0].function.arguments).toBe("{}");
+    expect(bodies[0].messages[2]).toEqual({
+      role: "tool",
+      tool_call_id: "call_1",
+      content: "{}",
+    });
+
+    const tokens: string[] = [];
+    for await (const token of provider.stream(ask("oi"))) tokens.push(token);
+    expect(tokens).toEqual(["Olá", " mundo"]);
+  });
+
+  test("Ollama: chat and NDJSON streaming", async () => {
+    const provider = new OllamaProvider({
+      baseUrl: "http://ollama:11434",
+      model: "deepseek",
+      timeout: 1000,
+    });
+    serve(
+      Response.json({
+        model: "deepseek",
+        message: { role: "assistant", content: "Pronto" },
+        prompt_eval_count: 7,
+        eval_count: 2,
+      }),
+      new Response(
+        '{"message":{"content":"Pro"},"done":false}\n{"message":{"content":"nto"},"done":false}\n{"message":{"content":""},"done":true}\n',
+      ),
+    );
+
+    const result = await provider.chat({ ...ask("oi"), maxTokens: 64 });
+    expect(result).toMatchObject({
+      content: "Pronto",
+      usage: { promptTokens: 7, completionTokens: 2 },
+    });
+    expect(bodies[0].options.num_predict).toBe(64);
+
+    const tokens: string[] = [];
+    for await (const token of provider.stream(ask("oi"))) tokens.push(token);
+    expect(tokens).toEqual(["Pro", "nto"]);
+  });
+});
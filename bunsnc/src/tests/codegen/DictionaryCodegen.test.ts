@@ -0,0 +1,243 @@
+/**
+ * Dictionary Codegen Unit Tests
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect, mock } from "bun:test";
+import {
+  DictionaryLoader,
+  TypeScriptEmitter,
+  generateTypes,
+  toPascalCase,
+} from "../../codegen";
+import { TypedGlideRecord } from "../../record/TypedGlideRecord";
+import type { DictionarySnapshot } from "../../types/servicenow/dictionary";
+
+const snapshot: DictionarySnapshot = {
+  instance: "https://dev12345.service-now.com",
+  capturedAt: "2025-01-01T00:00:00.000Z",
+  tables: [
+    { name: "task", label: "Task" },
+    { name: "incident", label: "Incident", super_class: "task" },
+  ],
+  fields: [
+    {
+      name: "task",
+      element: "sys_id",
+      internal_type: "GUID",
+      max_length: "32",
+    },
+    {
+      name: "task",
+      element: "number",
+      internal_type: "string",
+      column_label: "Number",
+      max_length: "40",
+      mandatory: "true",
+    },
+    {
+      name: "task",
+      element: "state",
+      internal_type: "integer",
+      column_label: "State",
+      choice: "3",
+    },
+    { name: "task", element: "active", internal_type: "boolean" },
+    {
+      name: "task",
+      element: "assigned_to",
+      internal_type: "reference",
+      reference: "sys_user",
+    },
+    { name: "task", element: "opened_at", internal_type: "glide_date_time" },
+    {
+      name: "incident",
+      element: "category",
+      internal_type: "string",
+      choice: "1",
+    },
+    {
+      name: "incident",
+      element: "subcategory",
+      internal_type: "string",
+      choice: "2",
+    },
+  ],
+  choices: [
+    { name: "task", element: "state", value: "1", label: "Open" },
+    { name: "task", element: "state", value: "3", label: "Closed Complete" },
+    { name: "incident", element: "state", value: "1", label: "New" },
+    { name: "incident", element: "state", value: "2", label: "In Progress" },
+    { name: "incident", element: "state", value: "7", label: "Closed" },
+    {
+      name: "incident",
+      element: "state",
+      value: "8",
+      label: "Canceled",
+      inactive: "true",
+    },
+    {
+      name: "incident",
+      element: "category",
+      value: "network",
+      label: "Network",
+    },
+    { name: "incident", element: "subcategory", value: "dns", label: "DNS" },
+  ],
+};
+
+describe("DictionaryLoader", () => {
+  test("should merge inherited fields and let the extended table's choices win", () => {
+    const incident = DictionaryLoader.resolveTable(snapshot, "incident");
+
+    expect(incident.hierarchy).toEqual(["incident", "task"]);
+    expect(incident.fields.map((f) => f.element)).toEqual([
+      "active",
+      "assigned_to",
+      "category",
+      "number",
+      "opened_at",
+      "state",
+      "subcategory",
+      "sys_id",
+    ]);
+
+    const state = incident.fields.find((f) => f.element === "state")!;
+    expect(state.inheritedFrom).toBe("task");
+    expect(state.choices.map((c) => c.value)).toEqual(["1", "2", "7"]);
+  });
+
+  test("should fall back to the parent's choices on the parent table", () => {
+    const task = DictionaryLoader.resolveTable(snapshot, "task");
+    const state = task.fields.find((f) => f.element === "state")!;
+    expect(state.choices.map((c) => c.value)).toEqual(["1", "3"]);
+  });
+
+  test("should throw for tables missing from the snapshot", () => {
+    expect(() => DictionaryLoader.resolveTable(snapshot, "problem")).toThrow(
+      "Table problem not found in dictionary snapshot",
+    );
+  });
+
+  test("should load the hierarchy from an instance", async () => {
+    const source = {
+      query: mock(async (options: any) => {
+        if (options.table === "sys_db_object") {
+          return options.filter === "nameINincident"
+            ? [
+                {
+                  name: "incident",
+                  label: "Incident",
+                  "super_class.name": "task",
+                },
+              ]
+            : [{ name: "task", label: "Task", "super_class.name": "" }];
+        }
+        if (options.table === "sys_dictionary") {
+          return [
+            {
+              name: { value: "task", display_value: "Task" },
+              element: "number",
+              internal_type: "string",
+              mandatory: "true",
+            },
+          ];
+        }
+        return [];
+      }),
+    };
+
+    const loaded = await DictionaryLoader.fromInstance(source, ["incident"]);
+
+    expect(loaded.tables).toEqual([
+      { name: "incident", label: "Incident", super_class: "task" },
+      { name: "task", label: "Task", super_class: undefined },
+    ]);
+    expect(loaded.fields[0]).toMatchObject({
+      name: "task",
+      element: "number",
+      mandatory: "true",
+    });
+    expect(source.query.mock.calls[3][0].filter).toBe(
+      "nameINincident,task^inactive=false",
+    );
+  });
+});
+
+describe("TypeScriptEmitter", () => {
+  const incident = DictionaryLoader.resolveTable(snapshot, "incident");
+  const field = (name: string) =>
+    incident.fields.find((f) => f.element === name)!;
+
+  test("should build names from table and field names", () => {
+    expect(toPascalCase("change_task")).toBe("ChangeTask");
+    expect(TypeScriptEmitter.interfaceName("sc_task")).toBe("ScTaskFields");
+    expect(TypeScriptEmitter.choiceTypeName("incident", "close_code")).toBe(
+      "IncidentCloseCodeChoice",
+    );
+  });
+
+  test("should map dictionary types to field value types", () => {
+    expect(TypeScriptEmitter.fieldType("incident", field("state"))).toBe(
+      "IncidentStateChoice",
+    );
+    expect(TypeScriptEmitter.fieldType("incident", field("assigned_to"))).toBe(
+      'Reference<"sys_user">',
+    );
+    expect(TypeScriptEmitter.fieldType("incident", field("active"))).toBe(
+      "BooleanString",
+    );
+    expect(TypeScriptEmitter.fieldType("incident", field("opened_at"))).toBe(
+      "DateTimeString",
+    );
+    // suggestion choices accept free text
+    expect(TypeScriptEmitter.fieldType("incident", field("subcategory"))).toBe(
+      "string",
+    );
+  });
+
+  test("should map mandatory fields to required schema properties", () => {
+    expect(TypeScriptEmitter.schemaType(field("number"))).toBe(
+      "t.String({ maxLength: 40 })",
+    );
+    expect(TypeScriptEmitter.schemaType(field("sys_id"))).toBe(
+      "t.Optional(SysId)",
+    );
+  });
+
+  test("should emit choice unions, interface and schema", async () => {
+    const files = await generateTypes({
+      snapshot,
+      tables: ["incident"],
+      write: false,
+    });
+
+    expect(files.map((f) => f.fileName)).toEqual(["incident.ts", "index.ts"]);
+
+    const source = files[0].content;
+    expect(source).toContain("export type IncidentStateChoice =");
+    expect(source).toContain('| ""'); // category allows -- None --
+    expect(source).toContain("export interface IncidentFields {");
+    expect(source).toContain('assigned_to: Reference<"sys_user">;');
+    expect(source).toContain("export const IncidentFieldsSchema = t.Object({");
+    expect(source).toContain(
+      "export type IncidentGlideRecord = TypedGlideRecord<IncidentFields>;",
+    );
+
+    expect(files[1].content).toContain("incident: IncidentFields;");
+  });
+});
+
+describe("TypedGlideRecord", () => {
+  test("should delegate to GlideRecord query building", () => {
+    const gr = new TypedGlideRecord<{
+      state: "1" | "2";
+      priority: `${number}`;
+    }>({}, "incident");
+
+    gr.addQuery("state", "1");
+    gr.addQuery("priority", "IN", ["1", "2"]);
+    gr.orderBy("priority");
+
+    expect(gr.getEncodedQuery()).toBe("state=1^priorityIN1,2^ORDERBYpriority");
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * ServiceNowSimulator Tests - Fake instance and end-to-end API client checks
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ServiceNowSimulator } from "../../modules/servicenow-simulator/ServiceNowSimulator";
+import { SqliteSimulatorStore } from "../../modules/servicenow-simulator/SimulatorStore";
+import { TableAPI } from "../../api/TableAPI";
+import { AttachmentAPI } from "../../api/AttachmentAPI";
+import { BatchAPI } from "../../api/BatchAPI";
+
+const fixtures = {
+  incident: [
+    {
+      sys_id: "a1",
+      number: "INC0001",
+      state: { value: "1", display_value: "New" },
+      priority: "1",
+      assigned_to: {
+        value: "u1",
+        display_value: "Abel Tuter",
+        link: "https://simulator.service-now.com/api/now/table/sys_user/u1",
+      },
+    },
+    {
+      sys_id: "a2",
+      number: "INC0002",
+      state: { value: "2", display_value: "In Progress" },
+      priority: "3",
+      assigned_to: "",
+    },
+    {
+      sys_id: "a3",
+      number: "INC0003",
+      state: { value: "2", display_value: "In Progress" },
+      priority: "2",
+      assigned_to: "",
+    },
+  ],
+};
+
+const now = () => new Date("2025-03-10T12:00:00Z");
+
+describe("ServiceNowSimulator", () => {
+  let simulator: ServiceNowSimulator;
+
+  const call = async (path: string, init?: RequestInit) => {
+    const response = await simulator.fetch(
+      `${simulator.instanceUrl}${path}`,
+      init,
+    );
+    const text = await response.text();
+    return { response, body: text ? JSON.parse(text) : undefined };
+  };
+
+  beforeEach(() => {
+    simulator = new ServiceNowSimulator({ fixtures, now });
+  });
+
+  describe("Table API", () => {
+    test("should honour query, fields, display value and paging", async () => {
+      const { response, body } = await call(
+        "/api/now/table/incident?sysparm_query=state=2^ORDERBYDESCpriority" +
+          "&sysparm_fields=number,state&sysparm_display_value=all&sysparm_limit=1&sysparm_offset=1",
+      );
+
+      expect(response.headers.get("X-Total-Count")).toBe("2");
+      expect(body.result).toEqual([
+        {
+          number: { display_value: "INC0003", value: "INC0003" },
+          state: { display_value: "In Progress", value: "2" },
+        },
+      ]);
+    });
+
+    test("should render reference links and display values", async () => {
+      const raw = await call(
+        "/api/now/table/incident/a1?sysparm_fields=assigned_to",
+      );
+      expect(raw.body.result.assigned_to).toEqual({
+        link: "https://simulator.service-now.com/api/now/table/sys_user/u1",
+        value: "u1",
+      });
+
+      const display = await call(
+        "/api/now/table/incident/a1?sysparm_display_value=true&sysparm_fields=state,assigned_to",
+      );
+      expect(display.body.result).toEqual({
+        state: "New",
+        assigned_to: "Abel Tuter",
+      });
+    });
+
+    test("should create, update and delete records", async () => {
+      const created = await call("/api/now/table/incident", {
+        method: "POST",
+        body: JSON.stringify({ short_description: "Disk full", priority: 2 }),
+      });
+      expect(created.response.status).toBe(201);
+      const sysId = created.body.result.sys_id;
+      expect(created.body.result).toMatchObject({
+        priority: "2",
+        sys_created_on: "2025-03-10 12:00:00",
+        sys_mod_count: "0",
+      });
+
+      const updated = await call(`/api/now/table/incident/${sysId}`, {
+        method: "PATCH",
+        body: JSON.stringify({ state: "6" }),
+      });
+      expect(updated.body.result).toMatchObject({
+        short_description: "Disk full",
+        state: "6",
+        sys_mod_count: "1",
+      });
+
+      expect(
+        (await call(`/api/now/table/incident/${sysId}`, { method: "DELETE" }))
+          .response.status,
+      ).toBe(204);
+      const missing = await call(`/api/now/table/incident/${sysId}`);
+      expect(missing.response.status).toBe(404);
+      expect(missing.body.error.message).toBe("No Record found");
+    });
+
+    test("should reject queries it cannot evaluate", async () => {
+      const { response, body } = await call(
+        "/api/now/table/incident?sysparm_query=state~2",
+      );
+      expect(response.status).toBe(400);
+      expect(body.error.detail).toContain("Unknown operator");
+    });
+  });
+
+  describe("Stats API", () => {
+    test("should aggregate, group and filter groups", async () => {
+      const totals = await call(
+        "/api/now/stats/incident?sysparm_count=true&sysparm_avg_fields=priority",
+      );
+      expect(totals.body.result).toEqual({
+        stats: { count: "3", avg: { priority: "2" } },
+      });
+
+      const grouped = await call(
+        "/api/now/stats/incident?sysparm_count=true&sysparm_group_by=state" +
+          "&sysparm_display_value=true&sysparm_having=count^*^>^1",
+      );
+      expect(grouped.body.result).toEqual([
+        {
+          stats: { count: "2" },
+          groupby_fields: [
+            { field: "state", value: "2", display_value: "In Progress" },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe("Attachment API", () => {
+    test("should upload, list, download and delete files", async () => {
+      const upload = await call(
+        "/api/now/attachment/file?table_name=incident&table_sys_id=a1&file_name=log.txt",
+        {
+          method: "POST",
+          headers: { "Content-Type": "text/plain" },
+          body: "disk full",
+        },
+      );
+      expect(upload.response.status).toBe(201);
+      const sysId = upload.body.result.sys_id;
+      expect(upload.response.headers.get("Location")).toEndWith(sysId);
+      expect(upload.body.result.size_bytes).toBe("9");
+
+      const list = await call(
+        "/api/now/attachment?sysparm_query=table_sys_id=a1",
+      );
+      expect(list.body.result.map((a: any) => a.file_name)).toEqual([
+        "log.txt",
+      ]);
+
+      const file = await simulator.fetch(
+        `${simulator.instanceUrl}/api/now/attachment/${sysId}/file`,
+      );
+      expect(file.headers.get("Content-Type")).toBe("text/plain");
+      expect(await file.text()).toBe("disk full");
+
+      await call(`/api/now/attachment/${sysId}`, { method: "DELETE" });
+      expect(
+        (await call(`/api/now/attachment/${sysId}/file`)).response.status,
+      ).toBe(404);
+    });
+  });
+
+  describe("Batch API", () => {
+    test("should replay rest requests with base64 bodies", async () => {
+      const { body } = await call("/api/now/v1/batch", {
+        method: "POST",
+        body: JSON.stringify({
+          batch_request_id: "b1",
+          rest_requests: [
+            {
+              id: "create",
+              method: "POST",
+              url: "/api/now/table/incident",
+              headers: [{ name: "Content-Type", value: "application/json" }],
+              body: Buffer.from(
+                JSON.stringify({ short_description: "From batch" }),
+              ).toString("base64"),
+            },
+            {
+              id: "read",
+              method: "GET",
+              url: "/api/now/table/incident/a9",
+              exclude_response_headers: true,
+            },
+            { id: "nested", method: "POST", url: "/api/now/v1/batch" },
+          ],
+        }),
+      });
+
+      expect(body.batch_request_id).toBe("b1");
+      expect(body.unserviced_requests).toEqual(["nested"]);
+      const [create, read] = body.serviced_requests;
+      expect(create.status_code).toBe(201);
+      expect(
+        JSON.parse(Buffer.from(create.body, "base64").toString()).result
+          .short_description,
+      ).toBe("From batch");
+      expect(read).toMatchObject({
+        status_code: 404,
+        status_text: "Not Found",
+        headers: [],
+      });
+    });
+  });
+
+  describe("SQLite store", () => {
+    const path = join(tmpdir(), `bunsnc-simulator-${process.pid}.db`);
+
+    afterEach(() => rmSync(path, { force: true }));
+
+    test("should keep records and files across restarts", async () => {
+      const first = new SqliteSimulatorStore(path);
+      simulator = new ServiceNowSimulator({ store: first, fixtures });
+      await call("/api/now/table/incident/a2", {
+        method: "PUT",
+        body: JSON.stringify({ priority: "1" }),
+      });
+      first.writeFile("f1", new Uint8Array([1, 2, 3]));
+      first.close();
+
+      const second = new SqliteSimulatorStore(path);
+      expect(second.tables()).toEqual(["incident"]);
+      expect(second.all("incident").map((r) => r.sys_id)).toEqual([
+        "a1",
+        "a2",
+        "a3",
+      ]);
+      expect(second.get("incident", "a2")?.priority).toBe("1");
+      expect(second.readFile("f1")).toEqual(new Uint8Array([1, 2, 3]));
+      second.close();
+    });
+  });
+});
+
+describe("API clients against the simulator", () => {
+  let simulator: ServiceNowSimulator;
+
+  beforeEach(() => {
+    simulator = new ServiceNowSimulator({ fixtures, now });
+  });
+
+  test("TableAPI and BatchAPI should run through the simulator bridge", async () => {
+    const table = new TableAPI(
+      simulator.instanceUrl,
+      "token",
+      simulator.bridge(),
+    );
+
+    const created = await table.create("incident", {
+      short_description: "Printer jam",
+    });
+    expect(
+      (await table.get("incident", created.sys_id))?.short_description,
+    ).toBe("Printer jam");
+
+    const rows = await table.query({
+      table: "incident",
+      filter: "priority<=2^ORDERBYnumber",
+      fields: ["number"],
+    });
+    expect(rows.map((row) => row.number.value)).toEqual(["INC0001", "INC0003"]);
+
+    const batch = new BatchAPI(table, null, { enableCaching: false });
+    batch.addRequest({
+      id: "close",
+      method: "PATCH",
+      table: "incident",
+      sysId: "a2",
+      data: { state: "7" },
+    });
+    batch.addRequest({
+      id: "gone",
+      method: "DELETE",
+      table: "incident",
+      sysId: "a3",
+    });
+    const results = await batch.execute();
+
+    expect(results.map((r) => [r.id, r.success])).toEqual([
+      ["close", true],
+      ["gone", true],
+    ]);
+    expect(simulator.store.get("incident", "a2")?.state).toBe("7");
+    expect(simulator.store.get("incident", "a3")).toBeNull();
+  });
+
+  test("AttachmentAPI should upload and download through intercepted fetch", async () => {
+    const restore = simulator.intercept();
+    try {
+      const attachments = new AttachmentAPI(simulator.instanceUrl, "token", {
+        enableCaching: false,
+        bridgeService: simulator.bridge(),
+      });
+
+      const sysId = await attachments.upload(
+        "notes.txt",
+        "incident",
+        "a1",
+        Buffer.from("hello"),
+        "text/plain",
+      );
+
+      const listed = await attachments.list("incident", "a1");
+      expect(listed.map((a) => a.file_name.value)).toEqual(["notes.txt"]);
+      expect(await attachments.getFileAsText(sysId)).toBe("hello");
+      expect(await attachments.delete(sysId)).toBe(true);
+    } finally {
+      restore();
+    }
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * ServiceNowWebhookReceiver Tests - Signature, replay, dedupe and dead-letter handling
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect, beforeEach } from "bun:test";
+import { ServiceNowWebhookReceiver } from "../../modules/servicenow-webhook/ServiceNowWebhookReceiver";
+import type { ServiceNowChange } from "../../config/redis-streams";
+
+const sysId = "46d44a5bdb1e2010a0d4e1c3ca961908";
+const start = Date.parse("2025-03-10T12:00:00Z");
+
+describe("ServiceNowWebhookReceiver", () => {
+  let receiver: ServiceNowWebhookReceiver;
+  let published: ServiceNowChange[];
+  let streamUp: boolean;
+  let clock: number;
+
+  const send = async (
+    payload: unknown,
+    headers?: Record<string, string>,
+  ): Promise<{ status: number; body: any }> => {
+    const body =
+      typeof payload === "string" ? payload : JSON.stringify(payload);
+    const response = await receiver.handle(
+      new Request("http://localhost/api/v1/servicenow/webhook", {
+        method: "POST",
+        headers: headers ?? receiver.sign(body),
+        body,
+      }),
+    );
+    return { status: response.status, body: await response.json() };
+  };
+
+  const event = (record: Record<string, any>, operation = "update") => ({
+    table: "incident",
+    operation,
+    record: { sys_id: sysId, number: "INC0010001", ...record },
+  });
+
+  beforeEach(() => {
+    published = [];
+    streamUp = true;
+    clock = start;
+    receiver = new ServiceNowWebhookReceiver({
+      secret: "s3cret",
+      now: () => clock,
+      publish: async (change) => {
+        if (!streamUp) {
+          return null;
+        }
+        published.push(change);
+        return `1741608000000-${published.length}`;
+      },
+    });
+  });
+
+  test("should publish signed Business Rule events as stream changes", async () => {
+    const { status, body } = await send(
+      event({
+        sys_mod_count: "4",
+        state: { value: "6", display_value: "Resolved" },
+        assignment_group: { value: "g1", display_value: "Service Desk" },
+        short_description: "VPN down",
+      }),
+    );
+
+    expect(status).toBe(202);
+    expect(body).toEqual({
+      status: "accepted",
+      messageId: "1741608000000-1",
+    });
+    expect(published[0]).toMatchObject({
+      type: "incident",
+      action: "resolved",
+      sys_id: sysId,
+      number: "INC0010001",
+      state: "6",
+      assignment_group: "Service Desk",
+      short_description: "VPN down",
+      timestamp: "2025-03-10T12:00:00.000Z",
+    });
+  });
+
+  test("should map record-only payloads and task completion", async () => {
+    await send({
+      sys_class_name: "sc_task",
+      sys_id: sysId,
+      sys_mod_count: "0",
+    });
+    await send({
+      table: "sc_task",
+      record: { sys_id: sysId, state: "3", sys_mod_count: "3" },
+    });
+
+    expect(published.map((change) => [change.type, change.action])).toEqual([
+      ["sc_task", "created"],
+      ["sc_task", "completed"],
+    ]);
+  });
+
+  test("should reject bad signatures and stale timestamps", async () => {
+    const body = JSON.stringify(event({ sys_mod_count: "1" }));
+
+    const forged = await send(body, {
+      ...receiver.sign(body),
+      "X-ServiceNow-Signature": `sha256=${"0".repeat(64)}`,
+    });
+    expect(forged).toEqual({
+      status: 401,
+      body: { error: "Invalid signature" },
+    });
+
+    const stale = await send(
+      body,
+      receiver.sign(body, Math.floor(clock / 1000) - 600),
+    );
+    expect(stale.body.error).toBe("Timestamp outside tolerance");
+    expect(
+      (await send(body, { "Content-Type": "application/json" })).status,
+    ).toBe(401);
+    expect(published).toHaveLength(0);
+  });
+
+  test("should reject replays and dedupe record versions", async () => {
+    const first = JSON.stringify(event({ sys_mod_count: "7" }));
+    const headers = receiver.sign(first);
+    expect((await send(first, headers)).status).toBe(202);
+    expect((await send(first, headers)).status).toBe(409);
+
+    // Same version redelivered with a fresh signature
+    clock += 1000;
+    const again = await send(event({ sys_mod_count: "7", work_notes: "x" }));
+    expect(again).toEqual({ status: 200, body: { status: "duplicate" } });
+
+    expect((await send(event({ sys_mod_count: "8" }))).status).toBe(202);
+    expect(published).toHaveLength(2);
+  });
+
+  test("should dead-letter malformed events", async () => {
+    expect((await send("{not json")).body).toEqual({
+      error: "Body is not valid JSON",
+      status: "dead_lettered",
+    });
+    expect(
+      (await send({ table: "cmdb_ci", record: { sys_id: sysId } })).status,
+    ).toBe(422);
+    expect(
+      (await send({ table: "incident", record: { number: "INC1" } })).body
+        .error,
+    ).toBe("Record has no valid sys_id");
+
+    const letters = await receiver.store.deadLetters();
+    expect(letters.map((letter) => letter.reason)).toEqual([
+      "Record has no valid sys_id",
+      "Unsupported table: cmdb_ci",
+      "Body is not valid JSON",
+    ]);
+    expect(letters[2].body).toBe("{not json");
+    expect(published).toHaveLength(0);
+  });
+
+  test("should let the instance retry while the stream is down", async () => {
+    const body = JSON.stringify(event({ sys_mod_count: "2" }));
+    const headers = receiver.sign(body);
+
+    streamUp = false;
+    expect((await send(body, headers)).status).toBe(503);
+
+    streamUp = true;
+    expect((await send(body, headers)).status).toBe(202);
+    expect(published).toHaveLength(1);
+  });
+
+  test("should ignore deletes", async () => {
+    const { status, body } = await send(
+      event({ sys_mod_count: "9" }, "delete"),
+    );
+    expect(status).toBe(202);
+    expect(body.status).toBe("ignored");
+    expect(published).toHaveLength(0);
+  });
+});
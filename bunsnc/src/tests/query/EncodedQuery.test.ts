@@ -0,0 +1,205 @@
+/**
+ * EncodedQuery Parser Unit Tests
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect } from "bun:test";
+import {
+  EncodedQuery,
+  EncodedQueryParseError,
+  OrderByClause,
+  QueryBuilder,
+  QueryCondition,
+  JoinQuery,
+  RLQuery,
+  lintEncodedQuery,
+  mergeEncodedQueries,
+} from "../../query";
+import { generateFilterParams } from "../../models/TicketFilters";
+
+describe("EncodedQuery", () => {
+  describe("Round trip", () => {
+    const queries = [
+      "active=true",
+      "active=true^priority<=2^ORpriority=3^NQstate=6^ORDERBYDESCsys_created_on",
+      "sys_created_onBETWEENjavascript:gs.daysAgoStart(7)@javascript:gs.daysAgoEnd(0)",
+      "opened_at>=javascript:gs.daysAgo(30)^assigned_toDYNAMIC90d1921e5f510100a9ad2572f2b477fe^EQ",
+      "stateNOT IN6,7^caller_id.nameSTARTSWITHAbel^short_descriptionISNOTEMPTY",
+      "sys_updated_onRELATIVEGT@minute@ago@10^state=3",
+      "short_descriptionLIKEa^^b^active=true",
+      "123TEXTQUERY321=email^ORDERBYnumber^ORDERBYDESCnumber",
+      "RLQUERYtask_sla.task,>=1^stage=in_progress^ORstage=paused^ENDRLQUERY",
+      "active=true^RLQUERYsys_user_grmember.group,>=1,m2m^ENDRLQUERY",
+      "JOINincident.sys_id=task_sla.task!stage=in_progress^ORstage=paused^active=true",
+      "JOINincident.caller_id=sys_user.sys_id!",
+      "",
+    ];
+
+    for (const query of queries) {
+      test(`should serialize "${query}" back unchanged`, () => {
+        expect(EncodedQuery.parse(query, "incident").toString()).toBe(query);
+      });
+    }
+  });
+
+  describe("AST", () => {
+    test("should build blocks of existing query objects", () => {
+      const parsed = EncodedQuery.parse(
+        "active=true^priority<=2^ORpriority=3^NQstate=6^ORDERBYDESCsys_created_on",
+      );
+
+      expect(parsed.blocks).toHaveLength(2);
+      const [active, priority] = parsed.blocks[0] as QueryCondition[];
+      expect(active).toBeInstanceOf(QueryCondition);
+      expect([active.name, active.operator, active.value]).toEqual([
+        "active",
+        "=",
+        "true",
+      ]);
+      expect(priority.operator).toBe("<=");
+      expect(priority.orConditions.map((c) => c.generate())).toEqual([
+        "ORpriority=3",
+      ]);
+
+      expect(parsed.orderBy).toEqual([
+        new OrderByClause("sys_created_on", true),
+      ]);
+      expect(parsed.conditions.map((c) => c.name)).toEqual([
+        "active",
+        "priority",
+        "state",
+      ]);
+    });
+
+    test("should parse JOIN and RLQUERY segments", () => {
+      const parsed = EncodedQuery.parse(
+        "JOINincident.sys_id=task_sla.task!stage=in_progress^RLQUERYtask_sla.task,>=1,m2m^active=true^ENDRLQUERY",
+        "incident",
+      );
+      const [join, rl] = parsed.blocks[0];
+
+      expect(join).toBeInstanceOf(JoinQuery);
+      expect((join as JoinQuery).joinTable).toBe("task_sla");
+      expect((join as JoinQuery).joinTableField).toBe("task");
+      expect((join as JoinQuery).conditions[0].generate()).toBe(
+        "stage=in_progress",
+      );
+
+      expect(rl).toBeInstanceOf(RLQuery);
+      expect((rl as RLQuery).relatedTable).toBe("task_sla");
+      expect((rl as RLQuery).condition).toBe(">=1");
+      expect((rl as RLQuery).stopsAtRelationship).toBe(true);
+    });
+
+    test("should parse the output of QueryBuilder", () => {
+      const builder = new QueryBuilder("incident");
+      builder.addQuery("priority", "IN", "1,2");
+      builder.addNullQuery("assigned_to");
+      builder.orderBy("number");
+
+      const parsed = builder.toEncodedQuery();
+      expect(parsed.conditions.map((c) => c.operator)).toEqual([
+        "IN",
+        "ISEMPTY",
+      ]);
+      expect(parsed.toString()).toBe(builder.generateQuery());
+    });
+  });
+
+  describe("Errors", () => {
+    const invalid: Array<[string, string, number]> = [
+      ["^active=true", "Empty condition", 0],
+      ["active~true", "Unknown operator", 6],
+      ["ORstate=1", "^OR without a preceding condition", 0],
+      ["state=1^NQ", "Empty condition", 10],
+      ["RLQUERYtask_sla.task,>=1^stage=1", "RLQUERY without ^ENDRLQUERY", 0],
+      ["JOINincident.sys_id", "Expected JOIN", 0],
+      ["state=1^EQ^active=true", "Unexpected content after ^EQ", 11],
+    ];
+
+    for (const [query, message, position] of invalid) {
+      test(`should reject "${query}"`, () => {
+        try {
+          EncodedQuery.parse(query);
+          throw new Error("expected a parse error");
+        } catch (error: any) {
+          expect(error).toBeInstanceOf(EncodedQueryParseError);
+          expect(error.message).toContain(message);
+          expect(error.position).toBe(position);
+        }
+      });
+    }
+  });
+
+  describe("Merging", () => {
+    test("should distribute ^NQ blocks and move ORDERBY to the end", () => {
+      const merged = EncodedQuery.parse("a=1^ORDERBYnumber^NQb=2").and(
+        "c=3^NQd=4^ORDERBYDESCpriority",
+      );
+
+      expect(merged.toString()).toBe(
+        "a=1^c=3^NQa=1^d=4^NQb=2^c=3^NQb=2^d=4^ORDERBYnumber^ORDERBYDESCpriority",
+      );
+    });
+
+    test("should skip empty queries", () => {
+      expect(mergeEncodedQueries("", "active=true", "")).toBe("active=true");
+      expect(mergeEncodedQueries()).toBe("");
+    });
+
+    test("should merge user filters into ticket filter params", () => {
+      const params = new URLSearchParams(
+        generateFilterParams({
+          group: "all",
+          ticketType: "incident",
+          query: ["active=true", "priority=1^NQpriority=2"],
+        }),
+      );
+
+      expect(params.get("group")).toBeNull();
+      expect(params.get("query")).toBe(
+        "active=true^priority=1^NQactive=true^priority=2",
+      );
+      expect(() => generateFilterParams({ query: "active=true^^NQ^" })).toThrow(
+        EncodedQueryParseError,
+      );
+    });
+  });
+
+  describe("Linting", () => {
+    test("should report parse errors with their position", () => {
+      expect(lintEncodedQuery("active~true")).toEqual([
+        {
+          severity: "error",
+          message: 'Unknown operator in "active~true" (at position 6)',
+          position: 6,
+        },
+      ]);
+    });
+
+    test("should flag suspicious conditions", () => {
+      const issues = lintEncodedQuery(
+        "opened_atBETWEENjavascript:gs.daysAgo(7)^stateIN1,,2^state=1^state=1^ORDERBYnumber^foo=bar",
+        { fields: ["opened_at", "state", "number"] },
+      );
+
+      expect(issues.map((i) => [i.severity, i.message])).toEqual([
+        [
+          "error",
+          'BETWEEN expects <from>@<to> in "opened_atBETWEENjavascript:gs.daysAgo(7)"',
+        ],
+        ["warning", 'Empty item in IN list "stateIN1,,2"'],
+        ["warning", 'Duplicate condition "state=1" in query block 1'],
+        ["warning", '"foo=bar" follows an ORDERBY clause'],
+        ["warning", 'Unknown field "foo" in "foo=bar"'],
+      ]);
+    });
+
+    test("should accept a clean query", () => {
+      expect(
+        lintEncodedQuery(
+          "active=true^assigned_toDYNAMIC90d1921e5f510100a9ad2572f2b477fe^ORDERBYnumber",
+        ),
+      ).toEqual([]);
+    });
+  });
+});
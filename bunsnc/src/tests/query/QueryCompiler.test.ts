@@ -0,0 +1,212 @@
+/**
+ * QueryCompiler and Local Query Source Unit Tests
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect } from "bun:test";
+import {
+  QueryBuilder,
+  QueryCompiler,
+  UnsupportedQueryError,
+  MemoryQuerySource,
+  MongoQuerySource,
+} from "../../query";
+import { GlideRecord } from "../../record/GlideRecord";
+
+const now = new Date("2025-03-10T12:00:00Z");
+
+const incidents = [
+  {
+    sys_id: "a1",
+    number: "INC0001",
+    state: "1",
+    priority: "1",
+    short_description: "Email server down",
+    assigned_to: "",
+    opened_at: "2025-03-09 08:00:00",
+  },
+  {
+    sys_id: "a2",
+    number: "INC0002",
+    state: "2",
+    priority: "3",
+    short_description: "VPN slow",
+    assigned_to: { value: "u1", display_value: "Abel Tuter" },
+    opened_at: "2025-02-01 08:00:00",
+  },
+  {
+    sys_id: "a3",
+    number: "INC0003",
+    state: "6",
+    priority: "2",
+    short_description: "Printer jam",
+    assigned_to: "u2",
+    opened_at: "2025-03-10 09:00:00",
+  },
+];
+
+describe("QueryCompiler", () => {
+  const compiler = new QueryCompiler({
+    now: () => now,
+    fieldTypes: { state: "number", active: "boolean", opened_at: "date" },
+  });
+
+  describe("MongoDB filters", () => {
+    test("should map conditions, ^OR groups and ^NQ blocks", () => {
+      expect(
+        compiler.toMongoFilter(
+          "active=true^state<=2^ORpriority=1^NQstateIN6,7",
+        ),
+      ).toEqual({
+        $or: [
+          {
+            $and: [
+              { active: true },
+              { $or: [{ state: { $lte: 2 } }, { priority: "1" }] },
+            ],
+          },
+          { state: { $in: [6, 7] } },
+        ],
+      });
+    });
+
+    test("should map empty checks and text operators", () => {
+      expect(
+        compiler.toMongoFilter(
+          "assigned_toISEMPTY^short_descriptionLIKEe.mail^numberSTARTSWITHINC",
+        ),
+      ).toEqual({
+        $and: [
+          { assigned_to: { $in: [null, ""] } },
+          { short_description: /e\.mail/i },
+          { number: /^INC/i },
+        ],
+      });
+    });
+
+    test("should evaluate GlideSystem date helpers", () => {
+      expect(
+        compiler.toMongoFilter(
+          "opened_atBETWEENjavascript:gs.daysAgoStart(1)@javascript:gs.daysAgoEnd(0)",
+        ),
+      ).toEqual({
+        opened_at: {
+          $gte: new Date("2025-03-09T00:00:00Z"),
+          $lte: new Date("2025-03-10T23:59:59Z"),
+        },
+      });
+      expect(
+        compiler.toMongoFilter("opened_at>javascript:gs.daysAgo(7)"),
+      ).toEqual({ opened_at: { $gt: new Date("2025-03-03T12:00:00Z") } });
+    });
+
+    test("should compile QueryBuilder queries and ORDERBY", () => {
+      const builder = new QueryBuilder("incident");
+      builder.addQuery("state", "!=", "6");
+      builder.orderByDesc("opened_at");
+
+      expect(compiler.toMongoFilter(builder)).toEqual({
+        state: { $ne: 6 },
+      });
+      expect(compiler.toMongoSort(builder)).toEqual({ opened_at: -1 });
+    });
+
+    test("should refuse what cannot run locally", () => {
+      expect(() =>
+        compiler.toMongoFilter(
+          "assigned_toDYNAMIC90d1921e5f510100a9ad2572f2b477fe",
+        ),
+      ).toThrow(UnsupportedQueryError);
+      expect(() =>
+        compiler.toPredicate("RLQUERYtask_sla.task,>=1^ENDRLQUERY"),
+      ).toThrow("JOIN and RLQUERY cannot be evaluated locally");
+    });
+  });
+
+  describe("Predicates", () => {
+    const matching = (query: string) =>
+      incidents.filter(compiler.toPredicate(query)).map((i) => i.sys_id);
+
+    test("should filter records like the instance", () => {
+      expect(matching("state<=2")).toEqual(["a1", "a2"]);
+      expect(matching("stateNOT IN1,2")).toEqual(["a3"]);
+      expect(matching("assigned_toISNOTEMPTY")).toEqual(["a2", "a3"]);
+      expect(matching("assigned_to=u1")).toEqual(["a2"]);
+      expect(matching("short_descriptionLIKEserver^NQpriority=2")).toEqual([
+        "a1",
+        "a3",
+      ]);
+      expect(
+        matching(
+          "opened_atONToday@javascript:gs.beginningOfToday()@javascript:gs.endOfToday()",
+        ),
+      ).toEqual(["a3"]);
+      expect(matching("opened_atRELATIVEGT@day@ago@7")).toEqual(["a1", "a3"]);
+      expect(matching("")).toEqual(["a1", "a2", "a3"]);
+    });
+
+    test("should sort by ORDERBY clauses", () => {
+      const comparator = compiler.toComparator(
+        "ORDERBYDESCpriority^ORDERBYnumber",
+      )!;
+      expect([...incidents].sort(comparator).map((i) => i.sys_id)).toEqual([
+        "a2",
+        "a3",
+        "a1",
+      ]);
+      expect(compiler.toComparator("state=1")).toBeUndefined();
+    });
+  });
+});
+
+describe("MemoryQuerySource", () => {
+  test("should serve GlideRecord queries from fixtures", async () => {
+    const source = new MemoryQuerySource({ incident: incidents });
+    const gr = new GlideRecord({ serviceNow: source }, "incident");
+    gr.addQuery("state", "!=", "6");
+    gr.orderByDesc("number");
+    await gr.query();
+
+    const numbers: string[] = [];
+    while (gr.next()) {
+      numbers.push(gr.getValue("number"));
+    }
+    expect(numbers).toEqual(["INC0002", "INC0001"]);
+  });
+
+  test("should support keyset streaming and CRUD", async () => {
+    const source = new MemoryQuerySource({ incident: incidents });
+    const gr = new GlideRecord({ serviceNow: source }, "incident", 2);
+
+    const ids: string[] = [];
+    for await (const record of gr.stream()) {
+      ids.push(record.sys_id);
+    }
+    expect(ids).toEqual(["a1", "a2", "a3"]);
+
+    const created = await source.create("incident", { number: "INC0004" });
+    expect(created.sys_id).toMatch(/^[0-9a-f]{32}$/);
+    await source.update("incident", "a1", { state: "6" });
+    expect(await source.delete("incident", "a2")).toBe(true);
+
+    const closed = await source.query({ table: "incident", filter: "state=6" });
+    expect(closed.map((r) => r.sys_id)).toEqual(["a1", "a3"]);
+    expect(incidents[0].state).toBe("1"); // fixtures are copied
+  });
+});
+
+describe("MongoQuerySource", () => {
+  test("should scope filters to the table field", () => {
+    const source = new MongoQuerySource({} as any, {
+      tableField: "ticketType",
+      fieldMap: { sys_class_name: "ticketType" },
+      fieldTypes: { state: "number" },
+    });
+
+    expect(source.filter({ table: "incident", query: "state=2" })).toEqual({
+      $and: [{ ticketType: "incident" }, { state: 2 }],
+    });
+    expect(source.filter({ table: "sc_task" })).toEqual({
+      ticketType: "sc_task",
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * GlideAggregate Unit Tests
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { GlideAggregate } from "../../record/GlideAggregate";
+
+// Mock ServiceNow client
+const mockClient = {
+  instance: "https://dev12345.service-now.com",
+  serviceNow: {
+    queryStats: mock((table: string, params: Record<string, string>) =>
+      Promise.resolve<any>({ stats: { count: "0" } }),
+    ),
+  },
+};
+
+describe("GlideAggregate", () => {
+  let ga: GlideAggregate;
+
+  beforeEach(() => {
+    ga = new GlideAggregate(mockClient, "incident");
+    mockClient.serviceNow.queryStats.mockClear();
+  });
+
+  describe("Parameter Generation", () => {
+    test("should default to a count when no aggregate is set", async () => {
+      ga.addQuery("active", "true");
+      await ga.query();
+
+      const [table, params] = mockClient.serviceNow.queryStats.mock.calls[0];
+      expect(table).toBe("incident");
+      expect(params.sysparm_query).toBe("active=true");
+      expect(params.sysparm_count).toBe("true");
+    });
+
+    test("should map aggregates to sysparm field lists", async () => {
+      ga.addAggregate("SUM", "reassignment_count");
+      ga.addAggregate("AVG", "reassignment_count");
+      ga.addAggregate("MAX", "priority");
+      ga.addAggregate("MAX", "impact");
+      await ga.query();
+
+      const [, params] = mockClient.serviceNow.queryStats.mock.calls[0];
+      expect(params.sysparm_count).toBeUndefined();
+      expect(params.sysparm_sum_fields).toBe("reassignment_count");
+      expect(params.sysparm_avg_fields).toBe("reassignment_count");
+      expect(params.sysparm_max_fields).toBe("priority,impact");
+    });
+
+    test("should build group by, order by and having clauses", async () => {
+      ga.addAggregate("COUNT");
+      ga.groupBy("assignment_group");
+      ga.groupBy("priority");
+      ga.orderBy("priority");
+      ga.orderByAggregate("COUNT", undefined, true);
+      ga.addHaving("COUNT", "*", ">", 5);
+      await ga.query();
+
+      const [, params] = mockClient.serviceNow.queryStats.mock.calls[0];
+      expect(params.sysparm_group_by).toBe("assignment_group,priority");
+      expect(params.sysparm_order_by).toBe("priority,COUNT^DESC");
+      expect(params.sysparm_having).toBe("count^*^>^5");
+    });
+
+    test("should require a field for non-count aggregates", () => {
+      expect(() => ga.addAggregate("SUM")).toThrow(
+        "SUM aggregate requires a field",
+      );
+    });
+
+    test("should reject unknown aggregate types", () => {
+      expect(() => ga.addAggregate("MEDIAN" as any, "priority")).toThrow(
+        "Unsupported aggregate type: MEDIAN",
+      );
+    });
+  });
+
+  describe("Result Iteration", () => {
+    test("should expose a single row for ungrouped results", async () => {
+      mockClient.serviceNow.queryStats.mockImplementationOnce(() =>
+        Promise.resolve({
+          stats: { count: "42", sum: { reassignment_count: "17" } },
+        }),
+      );
+      ga.addAggregate("COUNT");
+      ga.addAggregate("SUM", "reassignment_count");
+      await ga.query();
+
+      expect(ga.getRowCount()).toBe(1);
+      expect(ga.next()).toBe(true);
+      expect(ga.getAggregate("COUNT")).toBe("42");
+      expect(ga.getAggregate("SUM", "reassignment_count")).toBe("17");
+      expect(ga.getAggregate("AVG", "reassignment_count")).toBeNull();
+      expect(ga.next()).toBe(false);
+    });
+
+    test("should iterate grouped results with group by values", async () => {
+      mockClient.serviceNow.queryStats.mockImplementationOnce(() =>
+        Promise.resolve([
+          {
+            stats: { count: "3" },
+            groupby_fields: [
+              { field: "priority", value: "1", display_value: "1 - Critical" },
+            ],
+          },
+          {
+            stats: { count: "8" },
+            groupby_fields: [
+              { field: "priority", value: "3", display_value: "3 - Moderate" },
+            ],
+          },
+        ]),
+      );
+      ga.groupBy("priority");
+      await ga.query();
+
+      const rows: Array<[string, string, string | null]> = [];
+      for (const row of ga) {
+        rows.push([
+          row.getValue("priority"),
+          row.getDisplayValue("priority"),
+          row.getAggregate("COUNT"),
+        ]);
+      }
+
+      expect(rows).toEqual([
+        ["1", "1 - Critical", "3"],
+        ["3", "3 - Moderate", "8"],
+      ]);
+    });
+
+    test("should rewind to the beginning of the result set", async () => {
+      mockClient.serviceNow.queryStats.mockImplementationOnce(() =>
+        Promise.resolve([{ stats: { count: "1" } }, { stats: { count: "2" } }]),
+      );
+      await ga.query();
+
+      ga.next();
+      ga.next();
+      expect(ga.hasNext()).toBe(false);
+
+      ga.rewind();
+      expect(ga.location).toBe(-1);
+      expect(ga.hasNext()).toBe(true);
+    });
+  });
+});
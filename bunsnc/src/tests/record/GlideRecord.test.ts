@@ -19,6 +19,7 @@ const mockClient = {
       Promise.resolve({ sys_id: "test_id", name: "Updated Record" }),
     ),
     delete: mock(() => Promise.resolve(true)),
+    queryStats: mock(() => Promise.resolve<any>({ stats: { count: "0" } })),
   },
 };
 
@@ -33,6 +34,7 @@ describe("GlideRecord", () => {
     mockClient.serviceNow.read.mockClear();
     mockClient.serviceNow.update.mockClear();
     mockClient.serviceNow.delete.mockClear();
+    mockClient.serviceNow.queryStats.mockClear();
   });
 
   describe("Basic Construction", () => {
@@ -458,6 +460,250 @@ describe("GlideRecord", () => {
     });
   });
 
+  describe("Windowing", () => {
+    test("should reject invalid windows", () => {
+      expect(() => gr.chooseWindow(10, 10)).toThrow("Invalid window");
+      expect(() => gr.chooseWindow(-1, 10)).toThrow("Invalid window");
+    });
+
+    test("should map the window onto offset and limit", async () => {
+      mockClient.serviceNow.query.mockResolvedValue([]);
+      gr.chooseWindow(20, 30, false);
+      await gr.query();
+
+      const options = mockClient.serviceNow.query.mock.calls[0][0] as any;
+      expect(options.offset).toBe(20);
+      expect(options.limit).toBe(10);
+      expect(mockClient.serviceNow.queryStats).not.toHaveBeenCalled();
+    });
+
+    test("should page inside the window without passing its end", async () => {
+      const page = (prefix: string, size: number) =>
+        Array.from({ length: size }, (_, i) => ({ sys_id: `${prefix}${i}` }));
+
+      const windowed = new GlideRecord(mockClient, "incident", 4);
+      windowed.chooseWindow(100, 110, false);
+
+      mockClient.serviceNow.query.mockResolvedValueOnce(page("a", 4));
+      await windowed.query();
+      mockClient.serviceNow.query.mockResolvedValueOnce(page("b", 4));
+      mockClient.serviceNow.query.mockResolvedValueOnce(page("c", 2));
+
+      const ids: string[] = [];
+      while (await windowed.nextAsync()) {
+        ids.push(windowed.getValue("sys_id"));
+      }
+
+      const calls = mockClient.serviceNow.query.mock.calls.map(
+        (call: any[]) => [call[0].offset, call[0].limit],
+      );
+      expect(calls).toEqual([
+        [100, 4],
+        [104, 4],
+        [108, 2],
+      ]);
+      expect(ids).toHaveLength(10);
+    });
+
+    test("should count the rows inside the window with forceCount", async () => {
+      mockClient.serviceNow.query.mockResolvedValue([{ sys_id: "id1" }]);
+      mockClient.serviceNow.queryStats.mockResolvedValueOnce({
+        stats: { count: "25" },
+      });
+
+      gr.addQuery("active", "true");
+      gr.chooseWindow(20, 30);
+      await gr.query();
+
+      expect(mockClient.serviceNow.queryStats).toHaveBeenCalledWith(
+        "incident",
+        { sysparm_count: "true", sysparm_query: "active=true" },
+      );
+      expect(gr.getRowCount()).toBe(5);
+    });
+  });
+
+  describe("Record Class and New Records", () => {
+    const dictionary = {
+      capturedAt: "2025-01-01T00:00:00.000Z",
+      tables: [{ name: "task" }, { name: "incident", super_class: "task" }],
+      fields: [
+        {
+          name: "task",
+          element: "active",
+          internal_type: "boolean",
+          default_value: "true",
+        },
+        {
+          name: "task",
+          element: "opened_by",
+          internal_type: "reference",
+          default_value: "javascript:gs.getUserID()",
+        },
+        {
+          name: "incident",
+          element: "impact",
+          internal_type: "integer",
+          default_value: "3",
+        },
+      ],
+      choices: [],
+    };
+
+    test("should report the concrete class of extended table records", () => {
+      const task = new GlideRecord(mockClient, "task");
+      task["_results"] = [
+        {
+          sys_id: "id1",
+          sys_class_name: { value: "incident", display_value: "Incident" },
+        },
+        { sys_id: "id2" },
+      ];
+      task["_total"] = 2;
+
+      expect(task.isValidRecord()).toBe(false);
+      expect(task.getRecordClassName()).toBe("task");
+
+      task.next();
+      expect(task.isValidRecord()).toBe(true);
+      expect(task.getRecordClassName()).toBe("incident");
+      expect(task.getClassDisplayValue()).toBe("Incident");
+
+      task.next();
+      expect(task.getRecordClassName()).toBe("task");
+    });
+
+    test("should apply literal dictionary defaults to new records", async () => {
+      await gr.newRecord({ dictionary });
+
+      expect(gr.isValidRecord()).toBe(true);
+      expect(gr.getValue("active")).toBe("true");
+      expect(gr.getValue("impact")).toBe("3");
+      expect(gr.getValue("opened_by")).toBeNull();
+      expect(gr.getValue("sys_id")).toBeNull();
+    });
+
+    test("should preallocate a sys_id that is sent on insert", async () => {
+      await gr.newRecord({ applyDefaults: false, preallocateSysId: true });
+      const sysId = gr.getValue("sys_id");
+      expect(sysId).toMatch(/^[0-9a-f]{32}$/);
+
+      gr.setValue("short_description", "Preallocated");
+      await gr.insert();
+
+      expect(mockClient.serviceNow.create).toHaveBeenCalledWith("incident", {
+        sys_id: sysId,
+        short_description: "Preallocated",
+      });
+    });
+
+    test("should validate GUIDs", () => {
+      expect(() => gr.setNewGuidValue("not-a-guid")).toThrow(
+        "GUID must be a 32 character hexadecimal string",
+      );
+    });
+  });
+
+  describe("Async Iteration and Streaming", () => {
+    const page = (...ids: string[]) =>
+      ids.map((id) => ({ sys_id: id, number: `INC-${id}` }));
+
+    test("should walk pages with a sys_id keyset", async () => {
+      const paged = new GlideRecord(mockClient, "incident", 2);
+      paged.addQuery("active", "true");
+      paged.orderByDesc("number"); // replaced by the keyset order
+
+      mockClient.serviceNow.query
+        .mockResolvedValueOnce(page("a1", "a2"))
+        .mockResolvedValueOnce(page("b1", "b2"))
+        .mockResolvedValueOnce(page("c1"));
+
+      const numbers: string[] = [];
+      for await (const record of paged) {
+        numbers.push(record.getValue("number"));
+      }
+
+      expect(numbers).toEqual([
+        "INC-a1",
+        "INC-a2",
+        "INC-b1",
+        "INC-b2",
+        "INC-c1",
+      ]);
+      const filters = mockClient.serviceNow.query.mock.calls.map(
+        (call: any[]) => call[0].filter,
+      );
+      expect(filters).toEqual([
+        "active=true^ORDERBYsys_id",
+        "active=true^sys_id>a2^ORDERBYsys_id",
+        "active=true^sys_id>b2^ORDERBYsys_id",
+      ]);
+    });
+
+    test("should stop at the limit", async () => {
+      mockClient.serviceNow.query
+        .mockResolvedValueOnce(page("a1", "a2"))
+        .mockResolvedValueOnce(page("b1"));
+
+      const paged = new GlideRecord(mockClient, "incident", 2);
+      paged.limit = 3;
+      let count = 0;
+      for await (const _ of paged) {
+        count++;
+      }
+
+      expect(count).toBe(3);
+      expect(mockClient.serviceNow.query.mock.calls[1][0].limit).toBe(1);
+    });
+
+    test("should stream records with a sys_updated_on keyset", async () => {
+      mockClient.serviceNow.query
+        .mockResolvedValueOnce([{ sys_updated_on: "2025-01-02 00:00:00" }])
+        .mockResolvedValueOnce([
+          { sys_id: "a1", sys_updated_on: "2025-01-01 00:00:00" },
+          { sys_id: "a2", sys_updated_on: "2025-01-01 10:00:00" },
+        ])
+        .mockResolvedValueOnce([]);
+
+      gr.addEncodedQuery("priority=1^NQpriority=2^ORDERBYnumber");
+      const records: any[] = [];
+      for await (const record of gr.stream({
+        keyset: "sys_updated_on",
+        pageSize: 2,
+      })) {
+        records.push(record);
+      }
+
+      expect(records.map((r) => r.sys_id)).toEqual(["a1", "a2"]);
+
+      const filters = mockClient.serviceNow.query.mock.calls.map(
+        (call: any[]) => call[0].filter,
+      );
+      expect(filters[0]).toBe(
+        "priority=1^NQpriority=2^ORDERBYDESCsys_updated_on",
+      );
+      const bound = "sys_updated_on<=2025-01-02 00:00:00";
+      expect(filters[2]).toBe(
+        [
+          `priority=1^sys_updated_on>2025-01-01 10:00:00^${bound}`,
+          `priority=1^sys_updated_on=2025-01-01 10:00:00^sys_id>a2^${bound}`,
+          `priority=2^sys_updated_on>2025-01-01 10:00:00^${bound}`,
+          `priority=2^sys_updated_on=2025-01-01 10:00:00^sys_id>a2^${bound}`,
+        ].join("^NQ") + "^ORDERBYsys_updated_on^ORDERBYsys_id",
+      );
+    });
+
+    test("should not query again when the stream is cancelled", async () => {
+      mockClient.serviceNow.query.mockResolvedValueOnce(page("a1", "a2"));
+
+      const reader = gr.stream({ pageSize: 2 }).getReader();
+      expect((await reader.read()).value).toEqual(page("a1")[0]);
+      await reader.cancel();
+
+      expect(mockClient.serviceNow.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("Error Handling", () => {
     test("should handle query errors", async () => {
       mockClient.serviceNow.query.mockRejectedValue(new Error("Query failed"));
@@ -0,0 +1,171 @@
+/**
+ * AttachmentIndexer Tests - Extraction, content dedupe and cursor resume
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect, beforeEach } from "bun:test";
+import { AttachmentIndexer } from "../../services/attachments/AttachmentIndexer";
+import { MemoryAttachmentIndexStore } from "../../services/attachments/AttachmentIndexStore";
+import { MemorySyncCursorStore } from "../../services/sync/SyncCursorStore";
+import { MemoryQuerySource } from "../../query/LocalQuerySource";
+import { LocalTikaClient } from "../../clients/LocalTikaClient";
+
+const sha256 = (content: string) =>
+  new Bun.CryptoHasher("sha256").update(content).digest("hex");
+
+const attachment = (
+  id: string,
+  created: string,
+  ticket: string,
+  fileName: string,
+  content: string,
+  extra = {},
+) => ({
+  sys_id: `att${id}`,
+  sys_created_on: created,
+  file_name: fileName,
+  content_type: "text/plain",
+  size_bytes: String(content.length),
+  table_name: "incident",
+  table_sys_id: ticket,
+  ...extra,
+});
+
+describe("AttachmentIndexer", () => {
+  let files: Record<string, string>;
+  let downloads: string[];
+  let source: MemoryQuerySource;
+  let store: MemoryAttachmentIndexStore;
+  let cursors: MemorySyncCursorStore;
+  let extracted: number;
+
+  const indexer = () => {
+    const tika = new LocalTikaClient();
+    return new AttachmentIndexer({
+      source,
+      store,
+      cursors,
+      pageSize: 2,
+      files: {
+        getFileContent: async (sysId) => {
+          downloads.push(sysId);
+          if (!(sysId in files)) {
+            throw new Error("socket hang up");
+          }
+          return new TextEncoder().encode(files[sysId]).buffer as ArrayBuffer;
+        },
+      },
+      extractor: {
+        extractFull: (buffer, mimeType) => {
+          extracted++;
+          return tika.extractFull(buffer, mimeType);
+        },
+      },
+    });
+  };
+
+  beforeEach(() => {
+    const trace = "ORA-12541: TNS no listener on db-prod-03";
+    files = {
+      att1: trace,
+      att2: "VPN tunnel flapping every 5 minutes",
+      att3: trace,
+    };
+    downloads = [];
+    extracted = 0;
+    source = new MemoryQuerySource({
+      incident: [
+        { sys_id: "i1", number: "INC0010001", short_description: "DB down" },
+        { sys_id: "i2", number: "INC0010002", short_description: "VPN" },
+        { sys_id: "i3", number: "INC0010003", short_description: "App 500" },
+      ],
+      sys_attachment: [
+        attachment("1", "2025-03-10 09:00:00", "i1", "trace.log", trace),
+        attachment("2", "2025-03-10 09:05:00", "i2", "vpn.txt", files.att2),
+        attachment("3", "2025-03-10 09:10:00", "i3", "copy.log", trace),
+      ],
+    });
+    store = new MemoryAttachmentIndexStore();
+    cursors = new MemorySyncCursorStore();
+  });
+
+  test("should index attachment text linked to its parent ticket", async () => {
+    const result = await indexer().run();
+    expect(result).toMatchObject({
+      processed: 3,
+      indexed: 2,
+      deduplicated: 1,
+      skipped: 0,
+    });
+
+    const [match] = await store.search("no listener");
+    expect(match.link).toMatchObject({
+      table: "incident",
+      number: "INC0010001",
+      file_name: "trace.log",
+    });
+    expect(match.score).toBe(1);
+    expect(match.snippet).toContain("TNS no listener");
+
+    const tickets = (await store.search("TNS")).map((m) => m.link.number);
+    expect(tickets.sort()).toEqual(["INC0010001", "INC0010003"]);
+    expect(await store.search("VPN", { table: "change_task" })).toEqual([]);
+  });
+
+  test("should extract identical files once", async () => {
+    await indexer().run();
+    expect(extracted).toBe(2);
+    expect(await store.stats()).toEqual({ contents: 2, links: 3 });
+
+    // A known sys_attachment.hash is linked without downloading the file
+    source.records("sys_attachment").push(
+      attachment("4", "2025-03-10 10:00:00", "i2", "again.log", files.att1, {
+        hash: sha256(files.att1),
+      }),
+    );
+    downloads = [];
+    const result = await indexer().run();
+    expect(result).toMatchObject({ processed: 1, deduplicated: 1 });
+    expect(downloads).toEqual([]);
+    expect((await store.getLink("att4"))?.hash).toBe(sha256(files.att1));
+  });
+
+  test("should stop at a failing attachment and resume from it", async () => {
+    delete files.att2;
+    await expect(indexer().run()).rejects.toThrow(
+      "Indexing attachment att2 failed: socket hang up",
+    );
+    const [cursor] = await cursors.list();
+    expect(cursor.position?.sys_id).toBe("att1");
+
+    files.att2 = "VPN tunnel flapping every 5 minutes";
+    downloads = [];
+    const result = await indexer().run();
+    expect(result.processed).toBe(2);
+    expect(downloads).toEqual(["att2", "att3"]);
+    expect(extracted).toBe(2); // att3 is the same file as att1
+    expect(await indexer().run()).toMatchObject({ processed: 0 });
+  });
+
+  test("local Tika stand-in should strip markup and keep strings of binaries", async () => {
+    const tika = new LocalTikaClient();
+    const html = await tika.extractFull(
+      Buffer.from(
+        "<html><head><title>Runbook</title><style>p{}</style></head><body><p>Restart&nbsp;the listener</p></body></html>",
+      ),
+      "text/html; charset=utf-8",
+    );
+    expect(html.title).toBe("Runbook");
+    expect(html.content).toBe("Runbook Restart the listener");
+
+    const binary = await tika.extractFull(
+      Buffer.concat([
+        Buffer.from([0, 1, 2, 255]),
+        Buffer.from("core dumped in libssl"),
+        Buffer.from([0, 0, 7]),
+      ]),
+      "application/octet-stream",
+    );
+    expect(binary.content).toBe("core dumped in libssl");
+    expect(binary.metadata["X-TIKA:Parsed-By"]).toBe("LocalTikaClient");
+  });
+});
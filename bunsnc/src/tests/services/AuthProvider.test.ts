@@ -0,0 +1,401 @@
+/**
+ * Auth Provider Tests - Static, basic, API key, mTLS and OAuth2 credentials
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect } from "bun:test";
+import {
+  ApiKeyAuthProvider,
+  BasicAuthProvider,
+  MutualTLSAuthProvider,
+  StaticAuthProvider,
+  authProviderFetchClient,
+  authorizedFetch,
+} from "../../services/auth/AuthProvider";
+import { authProviderFromEnv } from "../../services/auth/AuthProviderFactory";
+import {
+  MemoryAuthTokenStore,
+  MongoAuthTokenStore,
+} from "../../services/auth/AuthTokenStore";
+import { OAuth2AuthProvider } from "../../services/auth/OAuth2AuthProvider";
+import { SecurityService } from "../../services/SecurityService";
+import { TableAPI } from "../../api/TableAPI";
+import { ServiceNowBridgeService } from "../../services/ServiceNowBridgeService";
+import type { ServiceNowFetchClient } from "../../services/ServiceNowFetchClient";
+import { AuthenticationException } from "../../exceptions";
+
+const instanceUrl = "https://dev12345.service-now.com";
+
+interface Call {
+  url: string;
+  init: RequestInit & { tls?: unknown };
+}
+
+function recordingFetch(respond: (call: Call, index: number) => Response) {
+  const calls: Call[] = [];
+  const fetchImpl = async (url: string, init?: RequestInit) => {
+    const call = { url, init: init ?? {} };
+    calls.push(call);
+    return respond(call, calls.length - 1);
+  };
+  return { calls, fetchImpl };
+}
+
+// Token endpoint that issues access-1, access-2, ... valid for `expiresIn` s
+function tokenEndpoint(expiresIn = 1800) {
+  let issued = 0;
+  const grants: Record<string, string>[] = [];
+  const { calls, fetchImpl } = recordingFetch((call) => {
+    if (call.url.endsWith("/oauth_token.do")) {
+      grants.push(
+        Object.fromEntries(new URLSearchParams(String(call.init.body))),
+      );
+      issued++;
+      return Response.json({
+        access_token: `access-${issued}`,
+        refresh_token: `refresh-${issued}`,
+        token_type: "Bearer",
+        expires_in: expiresIn,
+      });
+    }
+    const authorization = new Headers(call.init.headers).get("Authorization");
+    return new Response(null, {
+      status: authorization === `Bearer access-${issued}` ? 200 : 401,
+    });
+  });
+  return { calls, grants, fetchImpl };
+}
+
+describe("AuthProvider", () => {
+  test("static provider adds Bearer only to bare tokens", async () => {
+    expect(await new StaticAuthProvider("abc").headers()).toEqual({
+      Authorization: "Bearer abc",
+    });
+    expect(await new StaticAuthProvider("Basic dXNlcg==").headers()).toEqual({
+      Authorization: "Basic dXNlcg==",
+    });
+  });
+
+  test("basic provider encodes username and password", async () => {
+    expect(await new BasicAuthProvider("admin", "s3cret").headers()).toEqual({
+      Authorization: `Basic ${Buffer.from("admin:s3cret").toString("base64")}`,
+    });
+  });
+
+  test("API key provider sends x-sn-apikey", async () => {
+    expect(await new ApiKeyAuthProvider("key-1").headers()).toEqual({
+      "x-sn-apikey": "key-1",
+    });
+  });
+
+  test("mTLS provider passes the certificate and inner headers to fetch", async () => {
+    const certificate = { cert: "CERT", key: "KEY" };
+    const provider = new MutualTLSAuthProvider(
+      certificate,
+      new ApiKeyAuthProvider("key-1"),
+    );
+    const { calls, fetchImpl } = recordingFetch(() => new Response("ok"));
+
+    await authorizedFetch(
+      provider,
+      `${instanceUrl}/api/now/table/incident`,
+      { headers: { Accept: "application/json" } },
+      fetchImpl,
+    );
+
+    expect(calls[0].init.tls).toEqual(certificate);
+    const headers = new Headers(calls[0].init.headers);
+    expect(headers.get("x-sn-apikey")).toBe("key-1");
+    expect(headers.get("Accept")).toBe("application/json");
+  });
+
+  test("401 without refresh is returned as is", async () => {
+    const { calls, fetchImpl } = recordingFetch(
+      () => new Response(null, { status: 401 }),
+    );
+    const response = await authorizedFetch(
+      new StaticAuthProvider("expired"),
+      instanceUrl,
+      {},
+      fetchImpl,
+    );
+    expect(response.status).toBe(401);
+    expect(calls).toHaveLength(1);
+  });
+
+  test("factory builds the provider of SERVICENOW_AUTH_TYPE", () => {
+    expect(
+      authProviderFromEnv("api_key", { SERVICENOW_API_KEY: "key-1" }).type,
+    ).toBe("api_key");
+    expect(() => authProviderFromEnv("basic", {})).toThrow(
+      AuthenticationException,
+    );
+  });
+});
+
+describe("OAuth2AuthProvider", () => {
+  const options = {
+    instanceUrl,
+    clientId: "client",
+    clientSecret: "secret",
+    grant: "password" as const,
+    username: "admin",
+    password: "s3cret",
+  };
+
+  test("password grant requires credentials", () => {
+    expect(
+      () => new OAuth2AuthProvider({ ...options, password: undefined }),
+    ).toThrow(AuthenticationException);
+  });
+
+  test("concurrent callers share a single token request", async () => {
+    const endpoint = tokenEndpoint();
+    const provider = new OAuth2AuthProvider({
+      ...options,
+      fetch: endpoint.fetchImpl,
+    });
+
+    const headers = await Promise.all([
+      provider.headers(),
+      provider.headers(),
+      provider.headers(),
+    ]);
+
+    expect(endpoint.grants).toHaveLength(1);
+    expect(endpoint.grants[0]).toMatchObject({
+      grant_type: "password",
+      username: "admin",
+      client_id: "client",
+    });
+    expect(headers.every((h) => h.Authorization === "Bearer access-1")).toBe(
+      true,
+    );
+  });
+
+  test("renews with the refresh token before expiry", async () => {
+    let now = Date.parse("2025-03-10T12:00:00Z");
+    const endpoint = tokenEndpoint(600);
+    const provider = new OAuth2AuthProvider({
+      ...options,
+      fetch: endpoint.fetchImpl,
+      now: () => now,
+    });
+
+    await provider.headers();
+    now += 500 * 1000; // 100s left, outside the 60s margin
+    expect((await provider.headers()).Authorization).toBe("Bearer access-1");
+
+    now += 50 * 1000; // 50s left
+    expect((await provider.headers()).Authorization).toBe("Bearer access-2");
+    expect(endpoint.grants[1]).toMatchObject({
+      grant_type: "refresh_token",
+      refresh_token: "refresh-1",
+    });
+  });
+
+  test("falls back to the initial grant when the refresh token is rejected", async () => {
+    let now = 0;
+    const grants: string[] = [];
+    const { fetchImpl } = recordingFetch((call) => {
+      const grant = new URLSearchParams(String(call.init.body)).get(
+        "grant_type",
+      )!;
+      grants.push(grant);
+      if (grant === "refresh_token") {
+        return Response.json({ error: "invalid_grant" }, { status: 401 });
+      }
+      return Response.json({
+        access_token: `access-${grants.length}`,
+        refresh_token: "refresh",
+        expires_in: 60,
+      });
+    });
+    const provider = new OAuth2AuthProvider({
+      ...options,
+      fetch: fetchImpl,
+      now: () => now,
+    });
+
+    await provider.headers();
+    now += 60 * 1000;
+    expect((await provider.headers()).Authorization).toBe("Bearer access-3");
+    expect(grants).toEqual(["password", "refresh_token", "password"]);
+  });
+
+  test("concurrent first calls read the store once and request one token", async () => {
+    const endpoint = tokenEndpoint();
+    const store = new MemoryAuthTokenStore();
+    const load = store.load.bind(store);
+    let loads = 0;
+    // A slow read returns what the store held when it started
+    store.load = async (key) => {
+      loads++;
+      const token = await load(key);
+      await Bun.sleep(5);
+      return token;
+    };
+    const provider = new OAuth2AuthProvider({
+      ...options,
+      store,
+      fetch: endpoint.fetchImpl,
+    });
+
+    const [first, second] = await Promise.all([
+      provider.headers(),
+      provider.headers(),
+    ]);
+
+    expect(first.Authorization).toBe("Bearer access-1");
+    expect(second.Authorization).toBe("Bearer access-1");
+    expect(loads).toBe(1);
+    expect(endpoint.grants).toHaveLength(1);
+    expect((await provider.headers()).Authorization).toBe("Bearer access-1");
+  });
+
+  test("a 401 refreshes once and retries the request", async () => {
+    const endpoint = tokenEndpoint();
+    const store = new MemoryAuthTokenStore();
+    const provider = new OAuth2AuthProvider({
+      ...options,
+      store,
+      fetch: endpoint.fetchImpl,
+    });
+    // Token revoked on the instance but still valid locally
+    await store.save(provider.storeKey, {
+      access_token: "revoked",
+      refresh_token: "refresh-0",
+      token_type: "Bearer",
+      expires_at: new Date(Date.now() + 3600 * 1000),
+    });
+
+    const response = await authorizedFetch(
+      provider,
+      `${instanceUrl}/api/now/table/incident`,
+      {},
+      endpoint.fetchImpl,
+    );
+
+    expect(response.status).toBe(200);
+    expect(endpoint.grants).toHaveLength(1);
+    expect(endpoint.grants[0].refresh_token).toBe("refresh-0");
+    expect((await store.load(provider.storeKey))?.access_token).toBe(
+      "access-1",
+    );
+  });
+
+  test("concurrent 401s trigger a single refresh", async () => {
+    const endpoint = tokenEndpoint();
+    const store = new MemoryAuthTokenStore();
+    const provider = new OAuth2AuthProvider({
+      ...options,
+      store,
+      fetch: endpoint.fetchImpl,
+    });
+    await store.save(provider.storeKey, {
+      access_token: "revoked",
+      token_type: "Bearer",
+      expires_at: new Date(Date.now() + 3600 * 1000),
+    });
+
+    const responses = await Promise.all(
+      [1, 2, 3].map(() =>
+        authorizedFetch(provider, instanceUrl, {}, endpoint.fetchImpl),
+      ),
+    );
+
+    expect(responses.map((r) => r.status)).toEqual([200, 200, 200]);
+    expect(endpoint.grants).toHaveLength(1);
+  });
+});
+
+describe("authProviderFetchClient", () => {
+  test("table queries carry the provider's token and retry after a 401", async () => {
+    const endpoint = tokenEndpoint();
+    const store = new MemoryAuthTokenStore();
+    const provider = new OAuth2AuthProvider({
+      instanceUrl,
+      clientId: "client",
+      clientSecret: "secret",
+      grant: "password",
+      username: "admin",
+      password: "s3cret",
+      store,
+      fetch: endpoint.fetchImpl,
+    });
+    await store.save(provider.storeKey, {
+      access_token: "revoked",
+      refresh_token: "refresh-0",
+      token_type: "Bearer",
+      expires_at: new Date(Date.now() + 3600 * 1000),
+    });
+    // The stack ServiceNowClient builds when given a provider
+    const table = new TableAPI(
+      instanceUrl,
+      "",
+      new ServiceNowBridgeService(
+        authProviderFetchClient(
+          instanceUrl,
+          provider,
+        ) as unknown as ServiceNowFetchClient,
+      ),
+    );
+
+    const realFetch = globalThis.fetch;
+    const { calls, fetchImpl } = recordingFetch((call) =>
+      new Headers(call.init.headers).get("Authorization") === "Bearer access-1"
+        ? Response.json({ result: [{ sys_id: "abc" }] })
+        : new Response(null, { status: 401 }),
+    );
+    globalThis.fetch = fetchImpl as unknown as typeof fetch;
+    try {
+      const records = await table.query({ table: "incident" });
+      expect(records).toEqual([{ sys_id: "abc" }]);
+    } finally {
+      globalThis.fetch = realFetch;
+    }
+
+    expect(calls).toHaveLength(2);
+    expect(calls[1].url).toStartWith(`${instanceUrl}/api/now/table/incident?`);
+    expect(new Headers(calls[0].init.headers).get("Authorization")).toBe(
+      "Bearer revoked",
+    );
+    expect(endpoint.grants[0].refresh_token).toBe("refresh-0");
+  });
+});
+
+describe("MongoAuthTokenStore", () => {
+  test("stores both tokens encrypted and reads them back", async () => {
+    const documents = new Map<string, any>();
+    const collection = {
+      findOne: async ({ key }: { key: string }) => documents.get(key) ?? null,
+      replaceOne: async (
+        { key }: { key: string },
+        document: Record<string, unknown>,
+      ) => {
+        documents.set(key, document);
+      },
+      deleteOne: async ({ key }: { key: string }) => {
+        documents.delete(key);
+      },
+    };
+    const store = new MongoAuthTokenStore(
+      () => collection as any,
+      new SecurityService(),
+    );
+    const token = {
+      access_token: "access-1",
+      refresh_token: "refresh-1",
+      token_type: "Bearer",
+      expires_at: new Date("2025-03-10T12:30:00Z"),
+    };
+
+    await store.save("key", token);
+    const stored = documents.get("key");
+    expect(stored.access_token).not.toContain("access-1");
+    expect(stored.refresh_token).not.toContain("refresh-1");
+    expect(await store.load("key")).toMatchObject(token);
+
+    await store.clear("key");
+    expect(await store.load("key")).toBeNull();
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * ChatSessionService Tests - Sessions per agent and ticket, pinned context, summaries and citations
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect, beforeEach } from "bun:test";
+import {
+  ChatSessionService,
+  type ChatSession,
+  type TicketContextSource,
+} from "../../services/ai/ChatSessionService";
+import { MemoryAgentSessionStore } from "../../services/ai/AgentSessionStore";
+import {
+  LLMGateway,
+  estimateTokens,
+  type GatewayRequest,
+} from "../../clients/LLMGateway";
+import { StubProvider } from "../../clients/LLMProviders";
+
+const notes = [
+  {
+    sys_id: "note1",
+    value: "Reiniciado o listener Oracle no servidor db01, conexões voltaram",
+    sys_created_on: "2025-03-10 10:00:00",
+    sys_created_by: { display_value: "Ana Souza", value: "ana" },
+    element_id: "sys_inc1",
+    work_notes: true,
+  },
+  {
+    sys_id: "note2",
+    value: "Usuário informa lentidão no portal",
+    sys_created_on: "2025-03-10 09:00:00",
+    sys_created_by: { display_value: "Portal", value: "portal" },
+    element_id: "sys_inc1",
+    work_notes: false,
+  },
+];
+
+const sla = {
+  ticket_number: "INC0010001",
+  total_slas: 2,
+  active_slas: 1,
+  breached_slas: 1,
+  breach_percentage: 50,
+  worst_sla: null,
+  all_slas: [
+    {
+      sla_name: "P1 Resolution",
+      has_breached: true,
+      business_percentage: 120,
+      start_time: "2025-03-10 08:00:00",
+      end_time: "2025-03-10 12:00:00",
+      stage: "in_progress",
+    },
+  ],
+};
+
+let fetches: string[];
+
+const tickets = {
+  async query(options: { table: string; filter?: string }) {
+    fetches.push(`query ${options.table} ${options.filter}`);
+    return [{ sys_id: { value: "sys_inc1", display_value: "sys_inc1" } }];
+  },
+  async getTicketNotes(table: string, sysId: string) {
+    fetches.push(`notes ${table} ${sysId}`);
+    return notes;
+  },
+  async getTaskSLASummary() {
+    return sla;
+  },
+  async listAttachments() {
+    throw new Error("attachments unavailable");
+  },
+} as unknown as TicketContextSource;
+
+const isSummary = (request: GatewayRequest) =>
+  request.messages[0].content.startsWith("Resuma");
+
+// Summaries and answers by rule; summaries can be made to fail
+class ChatModel extends StubProvider {
+  failSummary = false;
+
+  constructor() {
+    super([
+      { match: /^(Agente|Resumo anterior):/, reply: "resumo da conversa" },
+      { match: "pergunta", reply: "x".repeat(80) },
+      { match: "resolver o listener", reply: "O listener foi reiniciado [1]." },
+    ]);
+  }
+
+  async chat(request: GatewayRequest) {
+    if (this.failSummary && isSummary(request)) {
+      throw new Error("model offline");
+    }
+    return super.chat(request);
+  }
+}
+
+let store: MemoryAgentSessionStore<ChatSession>;
+let model: ChatModel;
+let service: ChatSessionService;
+
+beforeEach(() => {
+  fetches = [];
+  store = new MemoryAgentSessionStore<ChatSession>();
+  model = new ChatModel();
+  service = new ChatSessionService({
+    store,
+    tickets,
+    llm: new LLMGateway(model),
+    knowledge: async () => [
+      { title: "Oracle Listener Guide", content: "lsnrctl status e restart" },
+    ],
+    historyTokens: 60,
+    keepRecent: 2,
+  });
+});
+
+describe("ChatSessionService", () => {
+  test("reopens the session of the same agent on the same ticket", async () => {
+    const first = await service.open({
+      agentId: "ana",
+      ticketId: "INC0010001",
+    });
+    const again = await service.open({
+      agentId: "ana",
+      ticketId: "INC0010001",
+    });
+    const other = await service.open({
+      agentId: "bia",
+      ticketId: "INC0010001",
+    });
+
+    expect(again.sessionId).toBe(first.sessionId);
+    expect(other.sessionId).not.toBe(first.sessionId);
+    // Pinned once while the context is fresh
+    expect(fetches.filter((f) => f.startsWith("notes"))).toHaveLength(2);
+  });
+
+  test("pins notes and SLA state even when attachments fail", async () => {
+    const session = await service.open({
+      agentId: "ana",
+      ticketId: "INC0010001",
+    });
+
+    expect(fetches[0]).toBe("query incident number=INC0010001");
+    expect(session.ticket).toMatchObject({
+      table: "incident",
+      sysId: "sys_inc1",
+      attachments: [],
+      sla: { breached_slas: 1 },
+    });
+    expect(session.ticket!.notes[0]).toMatchObject({
+      sysId: "note1",
+      author: "Ana Souza",
+      workNote: true,
+    });
+    expect((await store.get(session.sessionId))!.ticket).toBeDefined();
+  });
+
+  test("retrieves the ticket passages matching the question", async () => {
+    const session = await service.open({
+      agentId: "ana",
+      ticketId: "INC0010001",
+    });
+
+    const listener = service.retrieve(
+      session,
+      "O que foi feito no listener Oracle?",
+    );
+    expect(listener.map((p) => p.citation.ref)).toEqual(["note1"]);
+
+    const breach = service.retrieve(session, "O SLA já foi violado?");
+    expect(breach[0].citation).toMatchObject({
+      type: "sla",
+      ref: "INC0010001",
+    });
+  });
+
+  test("answers citing only the passages it used", async () => {
+    const session = await service.open({
+      agentId: "ana",
+      ticketId: "INC0010001",
+    });
+    const { question, answer } = await service.ask(
+      session,
+      "Como resolver o listener Oracle?",
+    );
+
+    expect(question.role).toBe("user");
+    expect(answer.citations).toEqual([
+      {
+        type: "note",
+        ref: "note1",
+        label: "Nota de trabalho de Ana Souza (2025-03-10 10:00:00)",
+      },
+    ]);
+    const system = model.requests[0].messages[0].content;
+    expect(system).toContain("[1] Nota de trabalho de Ana Souza");
+    expect(system).toContain("[2] Oracle Listener Guide");
+    expect((await store.get(session.sessionId))!.messages).toHaveLength(2);
+  });
+
+  test("folds old messages into a summary past the token budget", async () => {
+    const session = await service.open({ agentId: "ana" });
+    for (let i = 0; i < 4; i++) {
+      await service.ask(session, `pergunta ${i}`);
+    }
+
+    expect(model.requests.filter(isSummary).length).toBeGreaterThan(0);
+    expect(session.summary).toBe("resumo da conversa");
+    expect(session.messages).toHaveLength(8);
+
+    const history = service.history(session);
+    expect(history[0]).toMatchObject({ role: "system" });
+    const used = history.reduce(
+      (sum, entry) => sum + estimateTokens(entry.content),
+      0,
+    );
+    expect(used).toBeLessThanOrEqual(
+      60 + estimateTokens("Resumo da conversa até aqui: "),
+    );
+    // The latest messages are always sent as they are
+    expect(history.at(-1)!.content).toBe("x".repeat(80));
+  });
+
+  test("truncates the history when the model can't summarize", async () => {
+    model.failSummary = true;
+    const session = await service.open({ agentId: "ana" });
+    for (let i = 0; i < 3; i++) {
+      await service.ask(session, `pergunta ${i}`);
+    }
+
+    expect(session.summarizedCount).toBeGreaterThan(0);
+    expect(session.summary!.length).toBeLessThanOrEqual(120);
+  });
+
+  test("quotes the passages when the model is down", async () => {
+    const session = await service.open({
+      agentId: "ana",
+      ticketId: "INC0010001",
+    });
+    model.chat = async () => {
+      throw new Error("model offline");
+    };
+
+    const { answer } = await service.ask(session, "listener Oracle");
+    expect(answer.content).toContain("Oracle Listener Guide");
+    expect(answer.citations!.map((c) => c.type)).toEqual(["note", "kb"]);
+  });
+
+  test("streams the answer token by token", async () => {
+    const session = await service.open({
+      agentId: "ana",
+      ticketId: "INC0010001",
+    });
+    const tokens: string[] = [];
+
+    const { answer } = await service.ask(
+      session,
+      "Como resolver o listener Oracle?",
+      (token) => tokens.push(token),
+    );
+
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join("")).toBe(answer.content);
+    expect(answer.citations!.map((c) => c.ref)).toEqual(["note1"]);
+  });
+
+  test("falls back when the chat budget is exhausted", async () => {
+    service = new ChatSessionService({
+      store,
+      tickets,
+      llm: new LLMGateway(model, { "ai-chat": { maxPromptTokens: 10 } }),
+    });
+    const session = await service.open({
+      agentId: "ana",
+      ticketId: "INC0010001",
+    });
+
+    const { answer } = await service.ask(session, "listener Oracle");
+    expect(model.requests).toHaveLength(0);
+    expect(answer.citations!.map((c) => c.ref)).toEqual(["note1"]);
+  });
+});
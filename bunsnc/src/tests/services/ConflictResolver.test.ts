@@ -0,0 +1,207 @@
+/**
+ * ConflictResolver Tests - Three-way merge, field policies and manual review
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect, beforeEach } from "bun:test";
+import {
+  ConflictNotFoundError,
+  ConflictResolver,
+} from "../../services/sync/ConflictResolver";
+import { MemoryConflictStore } from "../../services/sync/ConflictStore";
+
+const sysId = "46d44a5bdb1e2010a0d4e1c3ca961908";
+
+const base = {
+  sys_id: sysId,
+  number: "INC0010001",
+  state: { value: "2", display_value: "In Progress" },
+  priority: "3",
+  short_description: "VPN down",
+  work_notes: "",
+  sys_updated_on: "2025-03-10 09:00:00",
+};
+
+describe("ConflictResolver", () => {
+  let store: MemoryConflictStore;
+  let resolver: ConflictResolver;
+
+  beforeEach(async () => {
+    store = new MemoryConflictStore();
+    resolver = new ConflictResolver({
+      store,
+      policies: {
+        default: "manual",
+        fields: { work_notes: "servicenow_wins" },
+        tables: { incident: { priority: "newest_wins" } },
+      },
+    });
+    await store.saveBase("incident", sysId, base);
+  });
+
+  test("should merge edits to different fields from both sides", async () => {
+    const result = await resolver.merge(
+      "incident",
+      { ...base, short_description: "VPN down for the whole site" },
+      {
+        ...base,
+        state: { value: "6", display_value: "Resolved" },
+        sys_updated_on: "2025-03-10 10:00:00",
+      },
+    );
+
+    expect(result.status).toBe("clean");
+    expect(result.merged).toMatchObject({
+      state: { value: "6", display_value: "Resolved" },
+      short_description: "VPN down for the whole site",
+    });
+    expect(result.toServiceNow).toEqual({
+      short_description: "VPN down for the whole site",
+    });
+    expect(result.toMongo).toEqual({
+      state: { value: "6", display_value: "Resolved" },
+    });
+    expect((await store.loadBase("incident", sysId))?.state.value).toBe("6");
+  });
+
+  test("should treat plain and display_value=all values as equal", async () => {
+    const result = await resolver.merge(
+      "incident",
+      { ...base, state: "2" },
+      { ...base },
+    );
+    expect(result.status).toBe("clean");
+    expect(result.toServiceNow).toEqual({});
+  });
+
+  test("should apply per-field policies to true conflicts", async () => {
+    const result = await resolver.merge(
+      "incident",
+      { ...base, work_notes: "local note", priority: "1" },
+      {
+        ...base,
+        work_notes: "instance note",
+        priority: "2",
+        sys_updated_on: "2025-03-10 08:00:00",
+      },
+    );
+
+    expect(result.status).toBe("auto_resolved");
+    expect(
+      result.conflicts.map((c) => [c.field, c.policy, c.resolvedWith]),
+    ).toEqual([
+      ["priority", "newest_wins", "mongodb"],
+      ["work_notes", "servicenow_wins", "servicenow"],
+    ]);
+    expect(result.merged).toMatchObject({
+      priority: "1",
+      work_notes: "instance note",
+    });
+    expect(await resolver.getPendingConflicts()).toHaveLength(0);
+  });
+
+  test("should persist manual conflicts until resolved per field", async () => {
+    const local = {
+      ...base,
+      short_description: "Local title",
+      state: { value: "3", display_value: "On Hold" },
+    };
+    const remote = {
+      ...base,
+      short_description: "Instance title",
+      state: { value: "6", display_value: "Resolved" },
+    };
+
+    const first = await resolver.merge("incident", local, remote);
+    expect(first.status).toBe("conflict");
+    expect(first.merged.short_description).toBe("Instance title");
+
+    // A new resolver over the same store still sees it
+    const reviewer = new ConflictResolver({ store });
+    const [pending] = await reviewer.getPendingConflicts("incident");
+    expect(pending.id).toBe(`incident:${sysId}`);
+    expect(pending.conflictFields.sort()).toEqual([
+      "short_description",
+      "state",
+    ]);
+
+    const resolved = await reviewer.resolve(
+      pending.id,
+      { short_description: "mongodb", state: "servicenow" },
+      "ana.silva",
+    );
+    expect(resolved.merged).toMatchObject({
+      short_description: "Local title",
+      state: { value: "6", display_value: "Resolved" },
+    });
+    expect(resolved.toServiceNow).toEqual({
+      short_description: "Local title",
+    });
+    expect(resolved.conflict).toMatchObject({
+      resolution: "resolved",
+      resolvedWith: "mixed",
+      resolvedBy: "ana.silva",
+    });
+    expect(await reviewer.getConflictStats()).toMatchObject({
+      total: 1,
+      pending: 0,
+      resolved: 1,
+    });
+
+    // Both sides now match the new base
+    const after = await reviewer.merge(
+      "incident",
+      { ...resolved.merged },
+      { ...resolved.merged },
+    );
+    expect(after.status).toBe("clean");
+  });
+
+  test("should settle pending conflicts once both sides converge", async () => {
+    await resolver.merge(
+      "incident",
+      { ...base, priority: "1", sys_updated_on: "2025-03-10 11:00:00" },
+      { ...base, short_description: "x", priority: "2" },
+    );
+    // priority is newest_wins, short_description was only changed upstream
+    expect(await resolver.getPendingConflicts()).toHaveLength(0);
+
+    await resolver.merge(
+      "incident",
+      { ...base, short_description: "Local" },
+      { ...base, short_description: "Remote" },
+    );
+    expect(await resolver.getPendingConflicts()).toHaveLength(1);
+
+    await resolver.merge(
+      "incident",
+      { ...base, short_description: "Remote" },
+      { ...base, short_description: "Remote" },
+    );
+    const [conflict] = await store.listConflicts();
+    expect(conflict).toMatchObject({
+      resolution: "resolved",
+      resolvedBy: "merge",
+    });
+  });
+
+  test("should reject unknown, incomplete and repeated resolutions", async () => {
+    await expect(resolver.resolve("incident:nope", "mongodb")).rejects.toThrow(
+      ConflictNotFoundError,
+    );
+
+    await resolver.merge(
+      "incident",
+      { ...base, short_description: "a", number: "INC1" },
+      { ...base, short_description: "b", number: "INC2" },
+    );
+    const id = `incident:${sysId}`;
+    await expect(
+      resolver.resolve(id, { short_description: "mongodb" }),
+    ).rejects.toThrow("No resolution given for field: number");
+
+    await resolver.resolve(id, "servicenow");
+    await expect(resolver.resolve(id, "servicenow")).rejects.toThrow(
+      "already resolved",
+    );
+  });
+});
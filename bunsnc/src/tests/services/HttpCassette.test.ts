@@ -0,0 +1,149 @@
+/**
+ * HttpCassette Tests - Recording, scrubbing and deterministic replay
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect, afterEach } from "bun:test";
+import { readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  CassetteMissError,
+  HttpCassette,
+  type CassetteFile,
+} from "../../services/HttpCassette";
+import { ServiceNowFetchClient } from "../../services/ServiceNowFetchClient";
+import { ServiceNowBridgeService } from "../../services/ServiceNowBridgeService";
+import { TableAPI } from "../../api/TableAPI";
+
+const instance = "https://iberdrola.service-now.com";
+const path = join(tmpdir(), `bunsnc-cassette-${process.pid}`, "incident.json");
+
+const incidents = [
+  { sys_id: "a1", number: "INC0001", state: "2" },
+  { sys_id: "a2", number: "INC0002", state: "2" },
+];
+
+const fakeInstance = async (url: string, init?: RequestInit) => {
+  const { pathname } = new URL(url);
+  if (init?.method === "DELETE") {
+    return new Response(null, { status: 204 });
+  }
+  return Response.json(
+    { result: pathname.endsWith("/a1") ? incidents[0] : incidents },
+    { headers: { "Set-Cookie": "JSESSIONID=abc123; Path=/" } },
+  );
+};
+
+const record = async () => {
+  const cassette = new HttpCassette(path, { mode: "record" });
+  await cassette.fetch(
+    `${instance}/api/now/table/incident?sysparm_query=state%3D2&sysparm_fields=sys_id,number,state&sysparm_limit=10`,
+    {
+      method: "GET",
+      headers: {
+        Cookie: "glide_user_route=secret",
+        "X-UserToken": "tok-123",
+        Accept: "application/json",
+      },
+    },
+    fakeInstance,
+  );
+  await cassette.fetch(
+    `${instance}/api/now/table/incident/a1`,
+    { method: "DELETE" },
+    fakeInstance,
+  );
+  return cassette;
+};
+
+describe("HttpCassette", () => {
+  afterEach(() => rmSync(join(path, ".."), { recursive: true, force: true }));
+
+  test("should record interactions with credentials masked", async () => {
+    const cassette = await record();
+    expect(cassette.size).toBe(2);
+
+    const file: CassetteFile = JSON.parse(readFileSync(path, "utf-8"));
+    const [query, remove] = file.interactions;
+    expect(query.request.headers).toMatchObject({
+      cookie: "********",
+      "x-usertoken": "*******",
+      accept: "application/json",
+    });
+    expect(query.response.headers["set-cookie"]).toBe("********");
+    expect(JSON.parse(query.response.body).result).toHaveLength(2);
+    expect(remove.response).toMatchObject({ status: 204, body: "" });
+    expect(JSON.stringify(file)).not.toContain("tok-123");
+  });
+
+  test("should replay with normalized sysparm params", async () => {
+    await record();
+    const cassette = new HttpCassette(path);
+    expect(cassette.mode).toBe("replay");
+
+    const response = await cassette.fetch(
+      `${instance}/api/now/table/incident?sysparm_limit=10&_ts=123` +
+        "&sysparm_fields=number, state,sys_id&sysparm_query=state%3D2",
+    );
+    expect((await response.json()).result[1].number).toBe("INC0002");
+
+    const deleted = await cassette.fetch(
+      `${instance}/api/now/table/incident/a1/`,
+      { method: "DELETE" },
+    );
+    expect(deleted.status).toBe(204);
+  });
+
+  test("should fail on unrecorded or exhausted requests", async () => {
+    await record();
+    const cassette = new HttpCassette(path);
+    const url = `${instance}/api/now/table/incident/a1`;
+
+    await expect(cassette.fetch(url)).rejects.toBeInstanceOf(CassetteMissError);
+    await cassette.fetch(url, { method: "DELETE" });
+    await expect(cassette.fetch(url, { method: "DELETE" })).rejects.toThrow(
+      "No recorded interaction for DELETE /api/now/table/incident/a1",
+    );
+
+    const repeating = new HttpCassette(path, { allowRepeats: true });
+    await repeating.fetch(url, { method: "DELETE" });
+    expect((await repeating.fetch(url, { method: "DELETE" })).status).toBe(204);
+  });
+
+  test("should match on path only when params matching is off", async () => {
+    await record();
+    const cassette = new HttpCassette(path, { match: { params: "none" } });
+    const response = await cassette.fetch(
+      `${instance}/api/now/table/incident?sysparm_query=state%3D7`,
+    );
+    expect((await response.json()).result).toHaveLength(2);
+  });
+
+  test("should serve TableAPI through ServiceNowFetchClient without a session", async () => {
+    await record();
+    const client = new ServiceNowFetchClient(undefined, {
+      cassette: new HttpCassette(path, {
+        mode: "replay",
+        match: {
+          ignoreParams: [
+            "sysparm_display_value",
+            "sysparm_exclude_reference_link",
+          ],
+        },
+      }),
+    });
+    const table = new TableAPI(
+      instance,
+      "token",
+      new ServiceNowBridgeService(client),
+    );
+
+    const rows = await table.query({
+      table: "incident",
+      filter: "state=2",
+      fields: ["state", "number", "sys_id"],
+      limit: 10,
+    });
+    expect(rows.map((row) => row.number)).toEqual(["INC0001", "INC0002"]);
+  });
+});
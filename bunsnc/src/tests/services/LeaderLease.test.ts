@@ -0,0 +1,130 @@
+/**
+ * Leader Lease Tests - Exclusivity, fencing tokens, renewal and handover
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect, afterEach } from "bun:test";
+import { LeaderLease } from "../../services/system/LeaderLease";
+import {
+  MemoryLeaseBackend,
+  type LeaseBackend,
+} from "../../services/system/LeaseBackend";
+
+let now = Date.parse("2025-03-10T12:00:00Z");
+const clock = () => now;
+const started: LeaderLease[] = [];
+
+function replica(
+  holder: string,
+  backend: LeaseBackend,
+  ttlMs = 30000,
+): LeaderLease {
+  // Renewals are driven by hand through start() of fresh replicas
+  const lease = new LeaderLease("task-scheduler", backend, {
+    holder,
+    ttlMs,
+    renewIntervalMs: 60 * 60 * 1000,
+    now: clock,
+  });
+  started.push(lease);
+  return lease;
+}
+
+afterEach(async () => {
+  await Promise.all(started.splice(0).map((lease) => lease.stop()));
+  now = Date.parse("2025-03-10T12:00:00Z");
+});
+
+describe("LeaderLease", () => {
+  test("only one replica leads at a time", async () => {
+    const backend = new MemoryLeaseBackend(clock);
+    const a = replica("a", backend);
+    const b = replica("b", backend);
+
+    expect(await a.start()).toBe(true);
+    expect(await b.start()).toBe(false);
+    expect(a.fencingToken).toBe(1);
+    expect(b.fencingToken).toBeNull();
+  });
+
+  test("stop hands the lease over with a larger fencing token", async () => {
+    const backend = new MemoryLeaseBackend(clock);
+    const a = replica("a", backend);
+    const events: string[] = [];
+    a.on("released", () => events.push("released"));
+
+    await a.start();
+    await a.stop();
+    expect(events).toEqual(["released"]);
+    expect(a.isLeader()).toBe(false);
+
+    const b = replica("b", backend);
+    expect(await b.start()).toBe(true);
+    expect(b.fencingToken).toBe(2);
+  });
+
+  test("an expired lease can be taken by another replica", async () => {
+    const backend = new MemoryLeaseBackend(clock);
+    const a = replica("a", backend, 10000);
+    await a.start();
+
+    now += 10001;
+    expect(a.isLeader()).toBe(false);
+
+    const b = replica("b", backend, 10000);
+    expect(await b.start()).toBe(true);
+    expect((await b.status()).holder).toBe("b");
+    expect(b.fencingToken).toBe(2);
+  });
+
+  test("a failed renewal keeps leading until the ttl runs out", async () => {
+    let failing = false;
+    const memory = new MemoryLeaseBackend(clock);
+    const backend: LeaseBackend = {
+      acquire: (...args) =>
+        failing
+          ? Promise.reject(new Error("connection lost"))
+          : memory.acquire(...args),
+      release: (...args) => memory.release(...args),
+      current: (...args) => memory.current(...args),
+    };
+    const lease = new LeaderLease("auto-sync", backend, {
+      holder: "a",
+      ttlMs: 10000,
+      renewIntervalMs: 5,
+      now: clock,
+    });
+    started.push(lease);
+    const lost: number[] = [];
+    lease.on("lost", () => lost.push(now));
+
+    await lease.start();
+    failing = true;
+    now += 5000;
+    await Bun.sleep(20);
+    expect(lease.isLeader()).toBe(true);
+    expect(lost).toHaveLength(0);
+
+    now += 5001;
+    await Bun.sleep(20);
+    expect(lease.isLeader()).toBe(false);
+    expect(lost).toHaveLength(1);
+  });
+
+  test("status reports the holder seen by every replica", async () => {
+    const backend = new MemoryLeaseBackend(clock);
+    const a = replica("a", backend);
+    const b = replica("b", backend);
+    await a.start();
+    await b.start();
+
+    expect(await b.status()).toEqual({
+      name: "task-scheduler",
+      holder: "a",
+      token: 1,
+      acquired_at: "2025-03-10T12:00:00.000Z",
+      expires_at: "2025-03-10T12:00:30.000Z",
+      leader: false,
+      replica: "b",
+    });
+  });
+});
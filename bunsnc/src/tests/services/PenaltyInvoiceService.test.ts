@@ -0,0 +1,328 @@
+/**
+ * PenaltyInvoiceService Tests - Billing period totals, audit trail and exports
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect } from "bun:test";
+import { inflateRawSync } from "node:zlib";
+import {
+  InvalidBillingPeriodError,
+  PenaltyInvoiceService,
+  billingPeriod,
+} from "../../services/sla/PenaltyInvoiceService";
+import {
+  penaltyInvoiceToCSV,
+  penaltyInvoiceToHTML,
+  penaltyInvoiceToXLSX,
+} from "../../services/sla/PenaltyInvoiceExport";
+import { columnName, crc32 } from "../../utils/XlsxWriter";
+import {
+  IncidentPriority,
+  MetricType,
+  TicketType,
+  type SLAComplianceResult,
+  type SLAPriority,
+  type TicketSLAStatus,
+} from "../../types/ContractualSLA";
+
+const at = (iso: string) => new Date(iso);
+
+function result(
+  ticketType: TicketType,
+  priority: SLAPriority,
+  metricType: MetricType,
+  slaHours: number,
+  actualHours: number,
+  penalty: number,
+): SLAComplianceResult {
+  const compliant = actualHours <= slaHours;
+  return {
+    ticket_id: "",
+    ticket_type: ticketType,
+    priority,
+    metric_type: metricType,
+    sla_hours: slaHours,
+    actual_hours: actualHours,
+    is_compliant: compliant,
+    breach_hours: compliant ? 0 : actualHours - slaHours,
+    penalty_percentage: compliant ? 0 : penalty,
+    business_hours_only: true,
+    calculated_at: at("2025-04-01T12:00:00Z"),
+    paused_hours: 1.5,
+    breached_at: compliant ? null : at("2025-03-10T18:00:00Z"),
+  };
+}
+
+function status(
+  number: string,
+  ticketType: TicketType,
+  priority: SLAPriority,
+  response: SLAComplianceResult | null,
+  resolution: SLAComplianceResult | null,
+): TicketSLAStatus {
+  return {
+    ticket_id: number.toLowerCase(),
+    ticket_number: number,
+    ticket_type: ticketType,
+    priority,
+    created_at: at("2025-03-10T08:00:00Z"),
+    resolved_at: at("2025-03-11T08:00:00Z"),
+    response_sla: response,
+    resolution_sla: resolution,
+    overall_compliance:
+      (!response || response.is_compliant) &&
+      (!resolution || resolution.is_compliant),
+    total_penalty_percentage:
+      (response?.penalty_percentage || 0) +
+      (resolution?.penalty_percentage || 0),
+  };
+}
+
+const { INCIDENT, SCTASK } = TicketType;
+const { RESPONSE_TIME, RESOLUTION_TIME } = MetricType;
+const P1 = IncidentPriority.P1;
+const P2 = IncidentPriority.P2;
+
+const statuses: Record<TicketType, TicketSLAStatus[]> = {
+  [INCIDENT]: [
+    status(
+      "INC0000002",
+      INCIDENT,
+      P1,
+      result(INCIDENT, P1, RESPONSE_TIME, 1, 2, 2.5),
+      result(INCIDENT, P1, RESOLUTION_TIME, 4, 10, 5),
+    ),
+    status(
+      "INC0000001",
+      INCIDENT,
+      P2,
+      null,
+      result(INCIDENT, P2, RESOLUTION_TIME, 8, 6, 2),
+    ),
+    status("INC0000003", INCIDENT, P2, null, null), // no contractual SLA
+  ],
+  [TicketType.CTASK]: [],
+  [SCTASK]: [
+    status(
+      "SCTASK0000001",
+      SCTASK,
+      "Normal" as SLAPriority,
+      null,
+      result(SCTASK, "Normal" as SLAPriority, RESOLUTION_TIME, 24, 30, 0.5),
+    ),
+  ],
+};
+
+function service(calls: string[] = []) {
+  return new PenaltyInvoiceService(
+    {
+      getResolvedTicketSLAs: async (_start, _end, ticketType) => {
+        calls.push(ticketType);
+        return statuses[ticketType];
+      },
+    },
+    {
+      getSLA: async (ticketType, priority, metricType) => ({
+        id: 7,
+        ticket_type: ticketType,
+        metric_type: metricType,
+        priority,
+        sla_hours: 0,
+        penalty_percentage: 0,
+        description: `${priority} ${metricType}`,
+        business_hours_only: true,
+      }),
+    },
+  );
+}
+
+const march = billingPeriod("2025-03", "America/Sao_Paulo");
+
+/**
+ * Entries of a stored or deflated ZIP, read from the local headers
+ */
+function unzip(archive: Uint8Array): Record<string, string> {
+  const view = new DataView(archive.buffer, archive.byteOffset);
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = new TextDecoder().decode(
+      archive.subarray(offset + 30, offset + 30 + nameLength),
+    );
+    const start = offset + 30 + nameLength;
+    const data = inflateRawSync(archive.subarray(start, start + size));
+    expect(crc32(data)).toBe(view.getUint32(offset + 14, true));
+    files[name] = data.toString("utf8");
+    offset = start + size;
+  }
+  return files;
+}
+
+describe("PenaltyInvoiceService", () => {
+  test("should bound billing months at local midnight", () => {
+    expect(march.start.toISOString()).toBe("2025-03-01T03:00:00.000Z");
+    expect(march.end.toISOString()).toBe("2025-04-01T03:00:00.000Z");
+    expect(billingPeriod("2025-12", "UTC").end.toISOString()).toBe(
+      "2026-01-01T00:00:00.000Z",
+    );
+    expect(() => billingPeriod("2025-13")).toThrow(InvalidBillingPeriodError);
+  });
+
+  test("should total compliance and penalties per type and priority", async () => {
+    const invoice = await service().generate({
+      period_start: march.start,
+      period_end: march.end,
+      label: "2025-03",
+      monthly_fee: 200000,
+      currency: "BRL",
+      penalty_cap_percentage: 5,
+    });
+
+    expect(invoice.totals).toMatchObject({
+      total_tickets: 3,
+      compliant_tickets: 1,
+      breached_tickets: 2,
+      compliance_percentage: 33.33,
+      penalty_percentage: 8,
+      applied_penalty_percentage: 5,
+      penalty_amount: 10000,
+    });
+    expect(invoice.by_ticket_type).toEqual([
+      {
+        ticket_type: INCIDENT,
+        total_tickets: 2,
+        compliant_tickets: 1,
+        breached_tickets: 1,
+        compliance_percentage: 50,
+        penalty_percentage: 7.5,
+      },
+      {
+        ticket_type: SCTASK,
+        total_tickets: 1,
+        compliant_tickets: 0,
+        breached_tickets: 1,
+        compliance_percentage: 0,
+        penalty_percentage: 0.5,
+      },
+    ]);
+    expect(
+      invoice.by_priority.map((group) => [
+        group.ticket_type,
+        group.priority,
+        group.penalty_percentage,
+      ]),
+    ).toEqual([
+      [INCIDENT, P1, 7.5],
+      [INCIDENT, P2, 0],
+      [SCTASK, "Normal", 0.5],
+    ]);
+  });
+
+  test("should keep an audit line per breached metric", async () => {
+    const invoice = await service().generate({
+      period_start: march.start,
+      period_end: march.end,
+    });
+
+    expect(invoice.period.label).toBe("2025-03-01..2025-04-01");
+    expect(
+      invoice.breaches.map((line) => [line.ticket_number, line.metric_type]),
+    ).toEqual([
+      ["INC0000002", RESPONSE_TIME],
+      ["INC0000002", RESOLUTION_TIME],
+      ["SCTASK0000001", RESOLUTION_TIME],
+    ]);
+    expect(invoice.breaches[1]).toMatchObject({
+      sla_id: 7,
+      sla_description: "P1 resolution_time",
+      sla_hours: 4,
+      actual_hours: 10,
+      paused_hours: 1.5,
+      breach_hours: 6,
+      penalty_percentage: 5,
+    });
+    expect(invoice.totals.penalty_amount).toBeUndefined();
+  });
+
+  test("should only query the requested ticket types", async () => {
+    const calls: string[] = [];
+    const invoice = await service(calls).generate({
+      period_start: march.start,
+      period_end: march.end,
+      ticket_types: [SCTASK],
+    });
+    expect(calls).toEqual([SCTASK]);
+    expect(invoice.totals.total_tickets).toBe(1);
+
+    await expect(
+      service().generate({ period_start: march.end, period_end: march.start }),
+    ).rejects.toThrow(InvalidBillingPeriodError);
+  });
+});
+
+describe("Penalty invoice exports", () => {
+  const build = () =>
+    service().generate({
+      period_start: march.start,
+      period_end: march.end,
+      label: "2025-03",
+      monthly_fee: 200000,
+      currency: "BRL",
+    });
+
+  test("should write CSV sections with quoting", async () => {
+    const invoice = await build();
+    invoice.breaches[0].sla_description = 'P1 "crítico", resposta';
+    const csv = penaltyInvoiceToCSV(invoice);
+
+    expect(csv.startsWith("\ufeffResumo\r\n")).toBe(true);
+    expect(csv).toContain("Valor da multa (BRL),16000");
+    expect(csv).toContain("\r\n\r\nTickets violados\r\nTicket,Tipo,");
+    expect(csv).toContain(
+      'INC0000002,Incidente,P1,Resposta,2025-03-10T08:00:00.000Z,2025-03-11T08:00:00.000Z,7,"P1 ""crítico"", resposta",1,2,1.5,1,',
+    );
+  });
+
+  test("should write a readable XLSX workbook", async () => {
+    const files = unzip(penaltyInvoiceToXLSX(await build()));
+
+    expect(Object.keys(files)).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/styles.xml",
+      "xl/worksheets/sheet1.xml",
+      "xl/worksheets/sheet2.xml",
+      "xl/worksheets/sheet3.xml",
+      "xl/worksheets/sheet4.xml",
+    ]);
+    expect(files["xl/workbook.xml"]).toContain(
+      '<sheet name="Tickets violados" sheetId="4" r:id="rId4"/>',
+    );
+    const breaches = files["xl/worksheets/sheet4.xml"];
+    expect(breaches).toContain(
+      '<c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">Ticket</t></is></c>',
+    );
+    expect(breaches).toContain(
+      '<c r="A2" t="inlineStr"><is><t xml:space="preserve">INC0000002</t></is></c>',
+    );
+    // 2025-03-10T08:00Z as an Excel serial
+    expect(breaches).toContain('<c r="E2" s="2"><v>45726.33333333333</v></c>');
+    expect(columnName(25)).toBe("Z");
+    expect(columnName(26)).toBe("AA");
+  });
+
+  test("should render a printable HTML page with escaped values", async () => {
+    const invoice = await build();
+    invoice.breaches[0].sla_description = "<script>alert(1)</script>";
+    const html = penaltyInvoiceToHTML(invoice, "America/Sao_Paulo");
+
+    expect(html).toContain("<title>Relatório de Multas Contratuais - 2025-03");
+    expect(html).toContain("@media print");
+    expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt;");
+    expect(html).not.toContain("<script>");
+    expect(html).toContain("10/03/2025, 05:00:00"); // opened_at, local time
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * SLABreachPredictor Tests - Threshold alerts, escalation, quiet hours and acknowledgement
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect } from "bun:test";
+import {
+  SLABreachPredictor,
+  inQuietHours,
+  slaPriority,
+  type OpenTicket,
+  type SLAAlertNotifier,
+} from "../../services/sla/SLABreachPredictor";
+import {
+  MemorySLAAlertStore,
+  MongoSLAAlertStore,
+} from "../../services/sla/SLAAlertStore";
+import { ContractualSLAService } from "../../services/ContractualSLAService";
+import { MemoryBusinessScheduleStore } from "../../services/schedules/BusinessScheduleStore";
+import {
+  IncidentPriority,
+  MetricType,
+  TicketType,
+  type SLAAlertPolicy,
+  type SLAAlertRecord,
+} from "../../types/ContractualSLA";
+
+const at = (iso: string) => new Date(iso);
+
+// 8h resolution SLA counted on the clock, no history in ticket_audit
+const collection = {
+  findOne: async () => ({
+    id: 1,
+    ticket_type: TicketType.INCIDENT,
+    metric_type: MetricType.RESOLUTION_TIME,
+    priority: IncidentPriority.P2,
+    sla_hours: 8,
+    penalty_percentage: 2.5,
+    description: "P2 resolution",
+    business_hours_only: false,
+  }),
+  find: () => ({ sort: () => ({ toArray: async () => [] }) }),
+};
+const mongoClient = { db: () => ({ collection: () => collection }) } as any;
+
+const ticket: OpenTicket = {
+  sys_id: "inc1",
+  number: "INC0010001",
+  ticket_type: TicketType.INCIDENT,
+  priority: IncidentPriority.P2,
+  assignment_group: "network-sys-id",
+  assignment_group_name: "Network",
+  opened_at: at("2025-03-10T12:00:00Z"),
+  values: { state: "2" },
+};
+
+const policy: SLAAlertPolicy = {
+  thresholds: [50, 75, 90],
+  // 22:00-07:00 in Sao Paulo is 01:00-10:00 UTC
+  quiet_hours: {
+    start: "22:00",
+    end: "07:00",
+    timezone: "America/Sao_Paulo",
+  },
+  escalation: {
+    default: { levels: [{ threshold: 50, recipients: ["desk@company.com"] }] },
+    Network: {
+      levels: [
+        { threshold: 50, recipients: ["noc@company.com"] },
+        {
+          threshold: 90,
+          recipients: ["noc-manager@company.com"],
+          channels: ["email"],
+        },
+      ],
+    },
+  },
+};
+
+function setup(tickets: OpenTicket[] = [ticket]) {
+  let now = at("2025-03-10T16:30:00Z");
+  const sent: Array<{ data: any; channels: string[] }> = [];
+  let failing = false;
+  const notifier: SLAAlertNotifier = {
+    notifySLA: async (data, channels = []) => {
+      if (failing) {
+        throw new Error("queue unavailable");
+      }
+      sent.push({ data, channels });
+      return `queued-${sent.length}`;
+    },
+  };
+  const alerts = new MemorySLAAlertStore();
+  const predictor = new SLABreachPredictor({
+    sla: new ContractualSLAService(
+      mongoClient,
+      "bunsnc",
+      new MemoryBusinessScheduleStore(),
+    ),
+    tickets: { openTickets: async () => tickets },
+    alerts,
+    notifier,
+    policy,
+    now: () => now,
+  });
+  return {
+    predictor,
+    alerts,
+    sent,
+    setNow: (iso: string) => (now = at(iso)),
+    setFailing: (value: boolean) => (failing = value),
+  };
+}
+
+describe("SLABreachPredictor", () => {
+  test("should project the breach and page each threshold once", async () => {
+    const { predictor, sent } = setup();
+
+    const prediction = await predictor.predict(ticket);
+    expect(prediction).toMatchObject({
+      sla_hours: 8,
+      elapsed_hours: 4.5,
+      percentage: 56.3,
+      breached_at: null,
+    });
+    expect(prediction!.due_at!.toISOString()).toBe("2025-03-10T20:00:00.000Z");
+
+    expect(await predictor.evaluate()).toMatchObject({
+      evaluated: 1,
+      alerted: 1,
+    });
+    expect(await predictor.evaluate()).toMatchObject({ alerted: 0 });
+    expect(sent).toHaveLength(1);
+    expect(sent[0].data).toMatchObject({
+      ticketNumber: "INC0010001",
+      assignmentGroup: "Network",
+      threshold: 50,
+      recipients: ["noc@company.com"],
+    });
+  });
+
+  test("should send only the highest threshold crossed and escalate", async () => {
+    const { predictor, alerts, sent, setNow } = setup();
+    setNow("2025-03-10T19:30:00Z"); // 7.5 of 8h
+
+    await predictor.evaluate();
+    expect(sent).toHaveLength(1);
+    expect(sent[0].data.threshold).toBe(90);
+    expect(sent[0].data.recipients).toEqual([
+      "noc@company.com",
+      "noc-manager@company.com",
+    ]);
+    expect(sent[0].channels).toEqual(["email"]);
+
+    const records = await alerts.list("inc1");
+    expect(
+      records.map((r) => [r.threshold, r.status]).sort((a, b) => +a[0] - +b[0]),
+    ).toEqual([
+      [50, "superseded"],
+      [75, "superseded"],
+      [90, "sent"],
+    ]);
+  });
+
+  test("should hold low thresholds during quiet hours", async () => {
+    const opened = { ...ticket, opened_at: at("2025-03-10T21:00:00Z") };
+    const { predictor, sent, setNow } = setup([opened]);
+
+    setNow("2025-03-11T02:00:00Z"); // 23:00 local, 62.5%
+    expect(await predictor.evaluate()).toMatchObject({ deferred: 1 });
+    expect(sent).toHaveLength(0);
+
+    setNow("2025-03-11T04:30:00Z"); // 01:30 local, 93.75%: pages anyway
+    expect(await predictor.evaluate()).toMatchObject({ alerted: 1 });
+    expect(sent[0].data.threshold).toBe(90);
+  });
+
+  test("should stop escalating once acknowledged", async () => {
+    const { predictor, sent, setNow } = setup();
+
+    await predictor.evaluate(); // 50%
+    expect(await predictor.acknowledge("inc1", "beth.anglin")).toBe(1);
+
+    setNow("2025-03-10T19:30:00Z");
+    await predictor.evaluate();
+    expect(sent).toHaveLength(2);
+    expect(sent[1].data).toMatchObject({
+      threshold: 90,
+      recipients: ["beth.anglin"],
+      acknowledgedBy: "beth.anglin",
+    });
+  });
+
+  test("should retry a threshold whose notification failed", async () => {
+    const { predictor, sent, setFailing } = setup();
+
+    setFailing(true);
+    expect(await predictor.evaluate()).toMatchObject({ failed: 1 });
+    setFailing(false);
+    expect(await predictor.evaluate()).toMatchObject({ alerted: 1 });
+    expect(sent[0].data.threshold).toBe(50);
+  });
+
+  test("should skip tickets without a contractual SLA", async () => {
+    const { predictor } = setup();
+    const original = collection.findOne;
+    collection.findOne = async () => null as any;
+    try {
+      expect(await predictor.evaluate()).toMatchObject({
+        skipped: 1,
+        alerted: 0,
+      });
+    } finally {
+      collection.findOne = original;
+    }
+  });
+});
+
+describe("SLA alert helpers", () => {
+  test("should match overnight quiet hours on the day they start", () => {
+    const quiet = {
+      start: "22:00",
+      end: "07:00",
+      timezone: "UTC",
+      days: [5], // Friday night only
+    };
+    expect(inQuietHours(quiet, at("2025-03-14T23:00:00Z"))).toBe(true); // Fri
+    expect(inQuietHours(quiet, at("2025-03-15T06:00:00Z"))).toBe(true); // Sat
+    expect(inQuietHours(quiet, at("2025-03-15T07:00:00Z"))).toBe(false);
+    expect(inQuietHours(quiet, at("2025-03-13T23:00:00Z"))).toBe(false); // Thu
+  });
+
+  test("should map ticket priorities to contractual ones", () => {
+    expect(slaPriority(TicketType.INCIDENT, "2")).toBe(IncidentPriority.P2);
+    expect(
+      slaPriority(TicketType.SCTASK, { value: "Normal", display_value: "" }),
+    ).toBe("Normal" as any);
+    expect(slaPriority(TicketType.CTASK, "5")).toBeNull();
+  });
+});
+
+describe("MongoSLAAlertStore", () => {
+  test("should let only one of two concurrent claims win", async () => {
+    // Both upserts find no document; the unique key rejects the second insert
+    const keys = new Set<string>();
+    const collection = {
+      updateOne: async (filter: Record<string, unknown>) => {
+        const key = JSON.stringify(filter);
+        const found = keys.has(key);
+        await Bun.sleep(1);
+        if (found) return { upsertedCount: 0 };
+        if (keys.has(key)) {
+          throw Object.assign(new Error("E11000 duplicate key error"), {
+            code: 11000,
+          });
+        }
+        keys.add(key);
+        return { upsertedCount: 1 };
+      },
+    };
+    const store = new MongoSLAAlertStore(() => collection as any);
+    const record: SLAAlertRecord = {
+      ticket_id: "t1",
+      ticket_number: "INC0010001",
+      ticket_type: TicketType.INCIDENT,
+      metric_type: MetricType.RESOLUTION_TIME,
+      threshold: 80,
+      status: "sent",
+      percentage: 82,
+      due_at: null,
+      recipients: [],
+      sent_at: new Date(),
+    };
+
+    const claims = await Promise.all([
+      store.claim(record),
+      store.claim({ ...record }),
+    ]);
+
+    expect(claims.sort()).toEqual([false, true]);
+    expect(await store.claim(record)).toBe(false);
+  });
+});
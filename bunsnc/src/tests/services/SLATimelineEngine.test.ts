@@ -0,0 +1,314 @@
+/**
+ * SLATimelineEngine Tests - Pause segments, stops and breach instants
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect } from "bun:test";
+import {
+  SLATimelineEngine,
+  changesFromAudit,
+  changesFromAuditTrail,
+  changesFromJournal,
+} from "../../services/sla/SLATimelineEngine";
+import { ContractualSLAService } from "../../services/ContractualSLAService";
+import { MemoryBusinessScheduleStore } from "../../services/schedules/BusinessScheduleStore";
+import { BusinessHoursCalculator } from "../../utils/BusinessHoursCalculator";
+import {
+  IncidentPriority,
+  MetricType,
+  TicketType,
+} from "../../types/ContractualSLA";
+
+const at = (iso: string) => new Date(iso);
+
+// Opened 08:00, on hold awaiting the caller 10:00-14:00, resolved 18:00 UTC
+const history = [
+  {
+    fieldname: "state",
+    oldvalue: "2",
+    newvalue: "3",
+    sys_created_on: "2025-03-10 10:00:00",
+    user: "beth.anglin",
+  },
+  {
+    fieldname: "hold_reason",
+    oldvalue: "",
+    newvalue: "1",
+    sys_created_on: "2025-03-10 10:00:00",
+  },
+  {
+    fieldname: "short_description",
+    oldvalue: "a",
+    newvalue: "b",
+    sys_created_on: "2025-03-10 11:00:00",
+  },
+  {
+    fieldname: "state",
+    oldvalue: "3",
+    newvalue: "2",
+    sys_created_on: "2025-03-10 14:00:00",
+  },
+  {
+    fieldname: "hold_reason",
+    oldvalue: "1",
+    newvalue: "",
+    sys_created_on: "2025-03-10 14:00:00",
+  },
+  {
+    fieldname: "state",
+    oldvalue: "2",
+    newvalue: "6",
+    sys_created_on: "2025-03-10 18:00:00",
+  },
+];
+
+describe("SLATimelineEngine", () => {
+  const engine = new SLATimelineEngine();
+
+  test("should exclude on-hold time and stop the clock at resolution", () => {
+    const timeline = engine.build({
+      ticketType: TicketType.INCIDENT,
+      start: at("2025-03-10T08:00:00Z"),
+      end: at("2025-03-11T08:00:00Z"),
+      changes: changesFromAudit(history),
+      slaHours: 8,
+    });
+
+    expect(timeline.stopped).toBe(true);
+    expect(timeline.end.toISOString()).toBe("2025-03-10T18:00:00.000Z");
+    expect(
+      timeline.segments.map(({ status, reason, hours }) => ({
+        status,
+        reason,
+        hours,
+      })),
+    ).toEqual([
+      { status: "running", reason: undefined, hours: 2 },
+      { status: "paused", reason: "Aguardando usuário", hours: 4 },
+      { status: "running", reason: undefined, hours: 4 },
+    ]);
+    expect(timeline.running_hours).toBe(6);
+    expect(timeline.paused_hours).toBe(4);
+    expect(timeline.breached_at).toBeNull();
+    expect(timeline.due_at).toBeNull();
+  });
+
+  test("should find the breach instant inside a running segment", () => {
+    const timeline = engine.build({
+      ticketType: TicketType.INCIDENT,
+      start: at("2025-03-10T08:00:00Z"),
+      changes: changesFromAudit(history),
+      slaHours: 4,
+    });
+
+    // 2h before the pause, the remaining 2h after it resumes at 14:00
+    expect(timeline.breached_at?.toISOString()).toBe(
+      "2025-03-10T16:00:00.000Z",
+    );
+  });
+
+  test("should count business hours and project the due date", () => {
+    // 08:00-17:00 America/Sao_Paulo is 11:00-20:00 UTC
+    const calculator = new BusinessHoursCalculator({
+      id: "desk",
+      name: "Desk",
+      timezone: "America/Sao_Paulo",
+      spans: [
+        {
+          type: "include",
+          start: "2025-01-06T08:00",
+          end: "2025-01-06T17:00",
+          repeat: { frequency: "weekly", days: [1, 2, 3, 4, 5] },
+        },
+      ],
+    });
+
+    const open = engine.build({
+      ticketType: TicketType.INCIDENT,
+      start: at("2025-03-10T08:00:00Z"),
+      end: at("2025-03-10T16:00:00Z"),
+      changes: changesFromAudit(history.slice(0, 5)),
+      slaHours: 6,
+      calculator,
+    });
+    // 08:00-10:00 UTC is before opening hours
+    expect(open.running_hours).toBe(2); // 14:00-16:00
+    expect(open.paused_hours).toBe(3); // 11:00-14:00
+    expect(open.breached_at).toBeNull();
+    // 4h left from 16:00 UTC: 16:00-20:00
+    expect(open.due_at?.toISOString()).toBe("2025-03-10T20:00:00.000Z");
+
+    const late = engine.build({
+      ticketType: TicketType.INCIDENT,
+      start: at("2025-03-10T08:00:00Z"),
+      end: at("2025-03-11T16:00:00Z"),
+      changes: changesFromAudit(history.slice(0, 5)),
+      slaHours: 8,
+      calculator,
+    });
+    // 6h on Monday (14:00-20:00), the last 2h on Tuesday from 11:00
+    expect(late.breached_at?.toISOString()).toBe("2025-03-11T13:00:00.000Z");
+    expect(late.due_at).toBeNull();
+  });
+
+  test("should use the current values when a field never changed", () => {
+    const timeline = engine.build({
+      ticketType: TicketType.SCTASK,
+      start: at("2025-03-10T08:00:00Z"),
+      end: at("2025-03-10T12:00:00Z"),
+      changes: changesFromAudit([history[2]]),
+      current: { state: { value: "-5", display_value: "Pending" } },
+    });
+    expect(timeline.segments).toHaveLength(1);
+    expect(timeline.segments[0]).toMatchObject({
+      status: "paused",
+      reason: "Pendente",
+      hours: 4,
+    });
+  });
+
+  test("should not assume the current state held since opening without history", () => {
+    const timeline = engine.build({
+      ticketType: TicketType.INCIDENT,
+      start: at("2025-03-10T08:00:00Z"),
+      end: at("2025-03-10T18:00:00Z"),
+      changes: [],
+      current: { state: "3" },
+      slaHours: 8,
+    });
+    expect(timeline).toMatchObject({ running_hours: 10, paused_hours: 0 });
+    expect(timeline.breached_at).toEqual(at("2025-03-10T16:00:00Z"));
+  });
+
+  test("should read journal entries and ticket_audit snapshots", () => {
+    expect(
+      changesFromJournal([
+        { element: "state", value: "3", sys_created_on: "2025-03-10 10:00:00" },
+      ]),
+    ).toEqual([
+      {
+        field: "state",
+        new_value: "3",
+        at: at("2025-03-10T10:00:00Z"),
+        by: undefined,
+        source: "sys_journal_field",
+      },
+    ]);
+
+    expect(
+      changesFromAuditTrail([
+        {
+          ticketId: "inc1",
+          changes: [{ field: "state", oldValue: "2", newValue: "3" }],
+          changedAt: at("2025-03-10T10:00:00Z"),
+        },
+      ]),
+    ).toEqual([
+      {
+        field: "state",
+        old_value: "2",
+        new_value: "3",
+        at: at("2025-03-10T10:00:00Z"),
+        source: "ticket_audit",
+      },
+    ]);
+  });
+
+  test("should fall back to ticket_audit when the instance fails", async () => {
+    const queries: string[] = [];
+    const fallback = new SLATimelineEngine({
+      source: {
+        query: async ({ filter }: { filter: string }) => {
+          queries.push(filter);
+          throw new Error("ServiceNow unavailable");
+        },
+      } as any,
+      auditTrail: () =>
+        ({
+          find: () => ({
+            sort: () => ({
+              toArray: async () => [
+                {
+                  ticketId: "inc1",
+                  changes: [{ field: "state", oldValue: "2", newValue: "3" }],
+                  changedAt: at("2025-03-10T10:00:00Z"),
+                },
+              ],
+            }),
+          }),
+        }) as any,
+    });
+
+    const changes = await fallback.loadChanges(TicketType.INCIDENT, "inc1");
+    expect(queries).toContain("documentkey=inc1^fieldnameINstate,hold_reason");
+    expect(changes).toHaveLength(1);
+    expect(changes[0].source).toBe("ticket_audit");
+  });
+});
+
+describe("ContractualSLAService pause-aware compliance", () => {
+  const slaCollection = {
+    findOne: async () => ({
+      id: 1,
+      ticket_type: TicketType.INCIDENT,
+      metric_type: MetricType.RESOLUTION_TIME,
+      priority: IncidentPriority.P2,
+      sla_hours: 8,
+      penalty_percentage: 2.5,
+      description: "P2 resolution",
+      business_hours_only: false,
+    }),
+  };
+  const mongoClient = {
+    db: () => ({ collection: () => slaCollection }),
+  } as any;
+
+  test("should leave paused time out of the actual hours", async () => {
+    const service = new ContractualSLAService(
+      mongoClient,
+      "bunsnc",
+      new MemoryBusinessScheduleStore(),
+    );
+    const result = await service.calculateCompliance(
+      "inc1",
+      TicketType.INCIDENT,
+      IncidentPriority.P2,
+      MetricType.RESOLUTION_TIME,
+      10,
+      {
+        start_time: at("2025-03-10T08:00:00Z"),
+        end_time: at("2025-03-10T18:00:00Z"),
+        changes: changesFromAudit(history),
+      },
+    );
+
+    expect(result).toMatchObject({
+      actual_hours: 6,
+      paused_hours: 4,
+      is_compliant: true,
+      breached_at: null,
+    });
+  });
+
+  test("should use the elapsed hours when the ticket has no history", async () => {
+    const service = new ContractualSLAService(
+      mongoClient,
+      "bunsnc",
+      new MemoryBusinessScheduleStore(),
+    );
+    const result = await service.calculateCompliance(
+      "inc2",
+      TicketType.INCIDENT,
+      IncidentPriority.P2,
+      MetricType.RESOLUTION_TIME,
+      10,
+      {
+        start_time: at("2025-03-10T08:00:00Z"),
+        end_time: at("2025-03-10T18:00:00Z"),
+        changes: [],
+        current_values: { state: "3" },
+      },
+    );
+
+    expect(result).toMatchObject({ actual_hours: 10, is_compliant: false });
+  });
+});
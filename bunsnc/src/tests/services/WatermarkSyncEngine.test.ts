@@ -0,0 +1,244 @@
+/**
+ * WatermarkSyncEngine Tests - Keyset paging, crash resume and deletion reconciliation
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect, beforeEach } from "bun:test";
+import {
+  WatermarkSyncEngine,
+  keysetQuery,
+} from "../../services/sync/WatermarkSyncEngine";
+import { MemorySyncCursorStore } from "../../services/sync/SyncCursorStore";
+import { MemorySyncMirror } from "../../services/sync/SyncMirror";
+import { ConflictResolver } from "../../services/sync/ConflictResolver";
+import { MemoryQuerySource } from "../../query/LocalQuerySource";
+import { ServiceNowSimulator } from "../../modules/servicenow-simulator/ServiceNowSimulator";
+import { TableAPI } from "../../api/TableAPI";
+
+const incident = (id: string, updated: string, extra = {}) => ({
+  sys_id: `a${id}`.padEnd(32, "f"),
+  number: `INC000000${id}`,
+  active: "true",
+  sys_updated_on: updated,
+  ...extra,
+});
+
+describe("WatermarkSyncEngine", () => {
+  let source: MemoryQuerySource;
+  let mirror: MemorySyncMirror;
+  let cursors: MemorySyncCursorStore;
+  let clock: number;
+
+  const engine = (options = {}) =>
+    new WatermarkSyncEngine({
+      source,
+      mirror,
+      cursors,
+      pageSize: 2,
+      now: () => clock,
+      ...options,
+    });
+
+  beforeEach(() => {
+    clock = Date.parse("2025-03-10T12:00:00Z");
+    source = new MemoryQuerySource({
+      incident: [
+        incident("1", "2025-03-10 09:00:00"),
+        incident("2", "2025-03-10 10:00:00"),
+        incident("3", "2025-03-10 10:00:00"),
+        incident("4", "2025-03-10 10:00:00"),
+        incident("5", "2025-03-10 11:00:00"),
+      ],
+      sys_audit_delete: [],
+    });
+    mirror = new MemorySyncMirror();
+    cursors = new MemorySyncCursorStore();
+  });
+
+  test("should build keyset queries that keep the base filter in every block", () => {
+    expect(
+      keysetQuery("active=true^ORDERBYnumber", "sys_updated_on", {
+        timestamp: "2025-03-10 10:00:00",
+        sys_id: "b2",
+      }),
+    ).toBe(
+      "active=true^sys_updated_on>2025-03-10 10:00:00" +
+        "^NQactive=true^sys_updated_on=2025-03-10 10:00:00^sys_id>b2" +
+        "^ORDERBYsys_updated_on^ORDERBYsys_id",
+    );
+  });
+
+  test("should page through ties and only pull later changes", async () => {
+    const sync = engine({ deletions: "none" });
+    const first = await sync.syncTable("incident");
+
+    expect(first).toMatchObject({ processed: 5, inserted: 5, pages: 3 });
+    expect(first.cursor.position).toEqual({
+      timestamp: "2025-03-10 11:00:00",
+      sys_id: incident("5", "").sys_id,
+    });
+
+    expect((await sync.syncTable("incident")).processed).toBe(0);
+
+    await source.update("incident", incident("3", "").sys_id, {
+      sys_updated_on: "2025-03-10 12:30:00",
+    });
+    const next = await sync.syncTable("incident");
+    expect(next).toMatchObject({ processed: 1, inserted: 0, updated: 1 });
+    expect(mirror.records("incident")).toHaveLength(5);
+  });
+
+  test("should resume after a crash from the last saved page", async () => {
+    const failing = new MemorySyncMirror();
+    let writes = 0;
+    const upsert = failing.upsert.bind(failing);
+    failing.upsert = async (...args) => {
+      if (++writes === 2) {
+        throw new Error("mongo went away");
+      }
+      return upsert(...args);
+    };
+
+    await expect(
+      engine({ mirror: failing, deletions: "none" }).syncTable("incident"),
+    ).rejects.toThrow("mongo went away");
+    expect((await cursors.load("incident", ""))?.position?.sys_id).toBe(
+      incident("2", "").sys_id,
+    );
+
+    const resumed = await engine({
+      mirror: failing,
+      deletions: "none",
+    }).syncTable("incident");
+    expect(resumed.processed).toBe(3);
+    expect(failing.records("incident")).toHaveLength(5);
+  });
+
+  test("should apply sys_audit_delete entries once per interval", async () => {
+    const sync = engine({ reconcileIntervalMs: 60000 });
+    await sync.syncTable("incident");
+
+    source.records("sys_audit_delete").push(
+      {
+        sys_id: "d1",
+        tablename: "incident",
+        documentkey: incident("2", "").sys_id,
+        sys_created_on: "2025-03-10 12:01:00",
+      },
+      {
+        sys_id: "d2",
+        tablename: "problem",
+        documentkey: incident("3", "").sys_id,
+        sys_created_on: "2025-03-10 12:01:00",
+      },
+    );
+
+    // Reconciled on the first run, not due yet
+    expect((await sync.syncTable("incident")).reconciled).toBe(false);
+
+    clock += 60000;
+    const result = await sync.syncTable("incident");
+    expect(result).toMatchObject({ reconciled: true, deleted: 1 });
+    expect(result.cursor.deletions).toEqual({
+      timestamp: "2025-03-10 12:01:00",
+      sys_id: "d1",
+    });
+    expect(mirror.records("incident")).toHaveLength(4);
+
+    expect(await sync.reconcileDeletions("incident")).toBe(0);
+  });
+
+  test("should diff sys_ids and keep records that only left the scope", async () => {
+    const sync = engine({ deletions: "diff" });
+    await sync.syncTable("incident", "active=true");
+
+    await source.delete("incident", incident("1", "").sys_id);
+    await source.update("incident", incident("4", "").sys_id, {
+      active: "false",
+      sys_updated_on: "2025-03-10 12:05:00",
+    });
+
+    expect(await sync.reconcileDeletions("incident", "active=true")).toBe(1);
+    expect(mirror.records("incident").map((record) => record.number)).toEqual([
+      "INC0000002",
+      "INC0000003",
+      "INC0000004",
+      "INC0000005",
+    ]);
+  });
+
+  test("should merge mirror-side changes and hold manual conflicts", async () => {
+    const resolver = new ConflictResolver({
+      policies: { fields: { short_description: "manual" } },
+    });
+    const pushed: unknown[] = [];
+    const sync = engine({
+      deletions: "none",
+      conflicts: resolver,
+      push: async (table: string, sysId: string, fields: object) => {
+        pushed.push({ table, sysId, fields });
+      },
+    });
+    await sync.syncTable("incident");
+
+    const sysId = incident("1", "").sys_id;
+    const [local] = await mirror.get("incident", [sysId]);
+    await mirror.upsert(
+      "incident",
+      [{ ...local, active: "false", short_description: "local" }],
+      "incident",
+    );
+    await source.update("incident", sysId, {
+      priority: "1",
+      short_description: "remote",
+      sys_updated_on: "2025-03-10 12:05:00",
+    });
+
+    const result = await sync.syncTable("incident");
+    expect(result).toMatchObject({ processed: 1, conflicts: 1 });
+    expect((await mirror.get("incident", [sysId]))[0]).toMatchObject({
+      priority: "1",
+      active: "false",
+      short_description: "local",
+    });
+    expect(pushed).toEqual([
+      { table: "incident", sysId, fields: { active: "false" } },
+    ]);
+    const [conflict] = await resolver.getPendingConflicts("incident");
+    expect(conflict.conflictFields).toEqual(["short_description"]);
+  });
+
+  test("should sync from the simulator through TableAPI", async () => {
+    let now = new Date("2025-03-10T12:00:00Z");
+    const simulator = new ServiceNowSimulator({
+      fixtures: { incident: [] },
+      now: () => now,
+    });
+    const table = new TableAPI(
+      simulator.instanceUrl,
+      "token",
+      simulator.bridge(),
+    );
+    const sync = engine({ source: table, deletions: "diff" });
+
+    const created = [];
+    for (const id of ["1", "2", "3"]) {
+      created.push(
+        await table.create("incident", {
+          sys_id: incident(id, "").sys_id,
+          number: `INC000000${id}`,
+        }),
+      );
+    }
+    expect((await sync.syncTable("incident")).processed).toBe(3);
+
+    now = new Date("2025-03-10T12:10:00Z");
+    clock += 3600000;
+    await table.update("incident", created[0].sys_id, { state: "2" });
+    await table.delete("incident", created[1].sys_id);
+
+    const result = await sync.syncTable("incident");
+    expect(result).toMatchObject({ processed: 1, updated: 1, deleted: 1 });
+    expect(result.cursor.position?.timestamp).toBe("2025-03-10 12:10:00");
+    expect(mirror.records("incident")).toHaveLength(2);
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * BusinessHoursCalculator Tests - Schedules, exclusions, DST and iCalendar import
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect } from "bun:test";
+import { BusinessHoursCalculator } from "../../utils/BusinessHoursCalculator";
+import { parseICalendar } from "../../utils/ICalendarParser";
+import { ContractualSLAService } from "../../services/ContractualSLAService";
+import { MemoryBusinessScheduleStore } from "../../services/schedules/BusinessScheduleStore";
+import {
+  DEFAULT_BUSINESS_HOURS,
+  MetricType,
+  TicketType,
+  IncidentPriority,
+  type BusinessSchedule,
+} from "../../types/ContractualSLA";
+
+const at = (iso: string) => new Date(iso);
+
+const splitShift: BusinessSchedule = {
+  id: "service-desk",
+  name: "Service Desk (split shift)",
+  timezone: "America/New_York",
+  spans: [
+    {
+      type: "include",
+      start: "2025-01-06T08:00",
+      end: "2025-01-06T12:00",
+      repeat: { frequency: "weekly", days: [1, 2, 3, 4, 5] },
+    },
+    {
+      type: "include",
+      start: "2025-01-06T13:00",
+      end: "2025-01-06T17:00",
+      repeat: { frequency: "weekly", days: [1, 2, 3, 4, 5] },
+    },
+    {
+      name: "Christmas",
+      type: "exclude",
+      start: "2020-12-25T00:00",
+      end: "2020-12-26T00:00",
+      repeat: { frequency: "yearly" },
+    },
+  ],
+};
+
+const noc: BusinessSchedule = {
+  id: "noc",
+  name: "NOC 24x7",
+  timezone: "America/Sao_Paulo",
+  groups: ["noc-group-sys-id"],
+  spans: [
+    {
+      type: "include",
+      start: "2025-01-01T00:00",
+      end: "2025-01-02T00:00",
+      repeat: { frequency: "daily" },
+    },
+  ],
+};
+
+describe("BusinessHoursCalculator", () => {
+  test("should keep the weekly config working in its timezone", () => {
+    // 08:00-17:00 America/Sao_Paulo is 11:00-20:00 UTC
+    const calculator = new BusinessHoursCalculator(DEFAULT_BUSINESS_HOURS);
+    const monday = at("2025-03-10T11:00:00Z");
+    const tuesday = at("2025-03-11T20:00:00Z");
+
+    expect(calculator.calculateBusinessHours(monday, tuesday)).toBe(18);
+    expect(calculator.isBusinessTime(at("2025-03-10T10:59:00Z"))).toBe(false);
+    expect(calculator.isBusinessTime(at("2025-03-10T11:00:00Z"))).toBe(true);
+
+    calculator.addHoliday("2025-03-11");
+    expect(calculator.calculateBusinessHours(monday, tuesday)).toBe(9);
+    expect(DEFAULT_BUSINESS_HOURS.holidays).toEqual([]);
+  });
+
+  test("should count split shifts in local time across a DST change", () => {
+    const calculator = new BusinessHoursCalculator(splitShift);
+
+    // Friday 08:00 EST to Monday 17:00 EDT: two days of 8 hours
+    expect(
+      calculator.calculateBusinessHours(
+        at("2025-03-07T13:00:00Z"),
+        at("2025-03-10T21:00:00Z"),
+      ),
+    ).toBe(16);
+    expect(calculator.isBusinessTime(at("2025-03-10T12:00:00Z"))).toBe(true); // 08:00 EDT
+    expect(calculator.isBusinessTime(at("2025-03-10T16:30:00Z"))).toBe(false); // lunch
+    expect(
+      calculator.getNextBusinessDay(at("2025-03-07T20:00:00Z")).toISOString(),
+    ).toBe("2025-03-10T12:00:00.000Z");
+  });
+
+  test("should skip recurring exclusions when adding hours", () => {
+    const calculator = new BusinessHoursCalculator(splitShift);
+
+    // Wed 24 Dec 2025 16:00 EST + 2h: Christmas is excluded, so Fri 09:00
+    const deadline = calculator.calculateSLADeadline(
+      at("2025-12-24T21:00:00Z"),
+      2,
+      true,
+    );
+    expect(deadline.toISOString()).toBe("2025-12-26T14:00:00.000Z");
+  });
+
+  test("should handle 24x7 and overnight schedules", () => {
+    const calculator = new BusinessHoursCalculator({
+      ...noc,
+      spans: [
+        ...noc.spans,
+        {
+          name: "Maintenance window",
+          type: "exclude",
+          start: "2025-03-15T02:00",
+          end: "2025-03-15T04:00",
+        },
+      ],
+    });
+    expect(
+      calculator.calculateBusinessHours(
+        at("2025-03-14T00:00:00Z"),
+        at("2025-03-16T00:00:00Z"),
+      ),
+    ).toBe(46);
+
+    const nightShift = new BusinessHoursCalculator({
+      id: "night",
+      name: "Night shift",
+      timezone: "UTC",
+      spans: [
+        {
+          type: "include",
+          start: "2025-01-06T22:00",
+          end: "2025-01-07T06:00",
+          repeat: { frequency: "weekly", days: [1, 2, 3, 4, 5] },
+        },
+      ],
+    });
+    // Friday night runs into Saturday morning
+    expect(
+      nightShift.calculateBusinessHours(
+        at("2025-03-14T12:00:00Z"),
+        at("2025-03-17T12:00:00Z"),
+      ),
+    ).toBe(8);
+  });
+
+  test("should fail instead of looping on a schedule without working time", () => {
+    const calculator = new BusinessHoursCalculator({
+      id: "empty",
+      name: "Empty",
+      timezone: "UTC",
+      spans: [],
+    });
+    expect(() => calculator.addBusinessHours(new Date(), 1)).toThrow(
+      "Schedule empty has no business hours",
+    );
+  });
+});
+
+describe("parseICalendar", () => {
+  const ics = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "X-WR-CALNAME:Feriados Brasil",
+    "X-WR-TIMEZONE:America/Sao_Paulo",
+    "BEGIN:VEVENT",
+    "UID:1",
+    "DTSTART;VALUE=DATE:20250101",
+    "DTEND;VALUE=DATE:20250102",
+    "RRULE:FREQ=YEARLY",
+    "SUMMARY:Confraterniza\\, Universal",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "UID:2",
+    "DTSTART;TZID=America/New_York:20251224T100000",
+    "DURATION:PT4H",
+    "SUMMARY:Christmas Eve (half day",
+    "  - New York office)",
+    "BEGIN:VALARM",
+    "TRIGGER:-PT15M",
+    "END:VALARM",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "UID:3",
+    "DTSTART:20250303T030000Z",
+    "DTEND:20250304T030000Z",
+    "RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=3",
+    "SUMMARY:Carnaval",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "UID:4",
+    "DTSTART;VALUE=DATE:20250105",
+    "RRULE:FREQ=MONTHLY;BYMONTHDAY=5",
+    "SUMMARY:Inventory day",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+  test("should turn events into schedule spans", () => {
+    const result = parseICalendar(ics);
+
+    expect(result.name).toBe("Feriados Brasil");
+    expect(result.timezone).toBe("America/Sao_Paulo");
+    expect(result.spans).toEqual([
+      {
+        name: "Confraterniza, Universal",
+        type: "exclude",
+        start: "2025-01-01T00:00",
+        end: "2025-01-02T00:00",
+        repeat: { frequency: "yearly" },
+      },
+      {
+        name: "Christmas Eve (half day - New York office)",
+        type: "exclude",
+        start: "2025-12-24T12:00",
+        end: "2025-12-24T16:00",
+      },
+      {
+        name: "Carnaval",
+        type: "exclude",
+        start: "2025-03-03T00:00",
+        end: "2025-03-04T00:00",
+        repeat: { frequency: "weekly", days: [1], until: "2025-03-17" },
+      },
+    ]);
+    expect(result.skipped).toEqual([
+      {
+        summary: "Inventory day",
+        reason: "unsupported RRULE frequency MONTHLY",
+      },
+    ]);
+  });
+});
+
+describe("ContractualSLAService schedules", () => {
+  const slaCollection = {
+    findOne: async () => ({
+      id: 1,
+      ticket_type: TicketType.INCIDENT,
+      metric_type: MetricType.RESOLUTION_TIME,
+      priority: IncidentPriority.P2,
+      sla_hours: 4,
+      penalty_percentage: 2.5,
+      description: "P2 resolution",
+      business_hours_only: true,
+    }),
+  };
+  const mongoClient = {
+    db: () => ({ collection: () => slaCollection }),
+  } as any;
+
+  const service = () =>
+    new ContractualSLAService(
+      mongoClient,
+      "bunsnc",
+      new MemoryBusinessScheduleStore([noc]),
+    );
+
+  test("should pick the schedule of the ticket's assignment group", async () => {
+    // Saturday 10:00-16:00 in Sao Paulo
+    const window = {
+      start_time: at("2025-03-15T13:00:00Z"),
+      end_time: at("2025-03-15T19:00:00Z"),
+    };
+    const compliance = (group?: string) =>
+      service().calculateCompliance(
+        "inc1",
+        TicketType.INCIDENT,
+        IncidentPriority.P2,
+        MetricType.RESOLUTION_TIME,
+        6,
+        { ...window, assignment_group: group },
+      );
+
+    const nocResult = await compliance("noc-group-sys-id");
+    expect(nocResult).toMatchObject({
+      actual_hours: 6,
+      is_compliant: false,
+      breach_hours: 2,
+      penalty_percentage: 2.5,
+    });
+
+    // No schedule for the group and none marked default: weekly config
+    const deskResult = await compliance("service-desk-sys-id");
+    expect(deskResult).toMatchObject({ actual_hours: 0, is_compliant: true });
+  });
+
+  test("should import holidays into a group schedule", async () => {
+    const sla = service();
+    const result = await sla.importSchedule(
+      "noc",
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "DTSTART;VALUE=DATE:20250315",
+        "SUMMARY:Shutdown",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\n"),
+    );
+    expect(result).toMatchObject({ imported: 1, skipped: [] });
+    expect(result.schedule.timezone).toBe("America/Sao_Paulo");
+    expect(result.schedule.spans).toHaveLength(2);
+
+    // Re-importing the same file does not duplicate spans
+    const again = await sla.importSchedule(
+      "noc",
+      "BEGIN:VCALENDAR\nBEGIN:VEVENT\nDTSTART;VALUE=DATE:20250315\nEND:VEVENT\nEND:VCALENDAR",
+    );
+    expect(again.schedule.spans).toHaveLength(2);
+
+    const calculator = await sla.getCalculator({
+      assignment_group: "noc-group-sys-id",
+    });
+    expect(
+      calculator.calculateBusinessHours(
+        at("2025-03-15T13:00:00Z"),
+        at("2025-03-15T19:00:00Z"),
+      ),
+    ).toBe(0);
+  });
+});
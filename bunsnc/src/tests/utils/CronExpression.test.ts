@@ -0,0 +1,213 @@
+/**
+ * CronExpression Tests - Field syntax, special days, timezones and DST
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import { describe, test, expect } from "bun:test";
+import {
+  CronExpression,
+  InvalidCronExpressionError,
+  validateTimezone,
+} from "../../utils/CronExpression";
+
+function runs(
+  expression: string,
+  after: string,
+  count = 3,
+  timezone = "UTC",
+): string[] {
+  return CronExpression.parse(expression)
+    .nextRuns(new Date(after), count, timezone)
+    .map((run) => run.toISOString());
+}
+
+describe("CronExpression", () => {
+  test("steps, ranges and lists", () => {
+    expect(runs("*/15 * * * *", "2025-03-10T12:07:00Z")).toEqual([
+      "2025-03-10T12:15:00.000Z",
+      "2025-03-10T12:30:00.000Z",
+      "2025-03-10T12:45:00.000Z",
+    ]);
+    expect(runs("0 8-10/2,17 * * *", "2025-03-10T00:00:00Z", 4)).toEqual([
+      "2025-03-10T08:00:00.000Z",
+      "2025-03-10T10:00:00.000Z",
+      "2025-03-10T17:00:00.000Z",
+      "2025-03-11T08:00:00.000Z",
+    ]);
+  });
+
+  test("month and weekday names, wrapping ranges and Sunday as 7", () => {
+    expect(runs("0 0 1 JAN,jul *", "2025-02-01T00:00:00Z", 2)).toEqual([
+      "2025-07-01T00:00:00.000Z",
+      "2026-01-01T00:00:00.000Z",
+    ]);
+    // 2025-01-03 is a Friday
+    expect(runs("0 0 * * FRI-MON", "2025-01-02T12:00:00Z", 5)).toEqual([
+      "2025-01-03T00:00:00.000Z",
+      "2025-01-04T00:00:00.000Z",
+      "2025-01-05T00:00:00.000Z",
+      "2025-01-06T00:00:00.000Z",
+      "2025-01-10T00:00:00.000Z",
+    ]);
+    expect(runs("0 0 * * 7", "2025-01-01T00:00:00Z", 1)).toEqual([
+      "2025-01-05T00:00:00.000Z",
+    ]);
+  });
+
+  test("optional seconds and year fields", () => {
+    expect(runs("*/20 * * * * *", "2025-01-01T00:00:00Z")).toEqual([
+      "2025-01-01T00:00:20.000Z",
+      "2025-01-01T00:00:40.000Z",
+      "2025-01-01T00:01:00.000Z",
+    ]);
+    expect(runs("0 0 12 1 1 ? 2027-2028", "2025-01-01T00:00:00Z")).toEqual([
+      "2027-01-01T12:00:00.000Z",
+      "2028-01-01T12:00:00.000Z",
+    ]);
+  });
+
+  test("last day, nearest weekday and last weekday of the month", () => {
+    expect(runs("0 0 L * *", "2024-01-31T00:00:00Z")).toEqual([
+      "2024-02-29T00:00:00.000Z",
+      "2024-03-31T00:00:00.000Z",
+      "2024-04-30T00:00:00.000Z",
+    ]);
+    expect(runs("0 0 L-2 * *", "2025-02-01T00:00:00Z", 1)).toEqual([
+      "2025-02-26T00:00:00.000Z",
+    ]);
+    // 2025-03-15 is a Saturday, 2025-06-15 a Sunday
+    expect(runs("0 0 15W 3,6 *", "2025-01-01T00:00:00Z", 2)).toEqual([
+      "2025-03-14T00:00:00.000Z",
+      "2025-06-16T00:00:00.000Z",
+    ]);
+    // 2025-03-01 is a Saturday: 1W never leaves the month
+    expect(runs("0 0 1W 3 *", "2025-01-01T00:00:00Z", 1)).toEqual([
+      "2025-03-03T00:00:00.000Z",
+    ]);
+    // 2025-05-31 is a Saturday
+    expect(runs("0 0 LW 5 *", "2025-01-01T00:00:00Z", 1)).toEqual([
+      "2025-05-30T00:00:00.000Z",
+    ]);
+  });
+
+  test("last and n-th weekday of the month", () => {
+    expect(runs("0 9 * * 5L", "2025-01-01T00:00:00Z")).toEqual([
+      "2025-01-31T09:00:00.000Z",
+      "2025-02-28T09:00:00.000Z",
+      "2025-03-28T09:00:00.000Z",
+    ]);
+    expect(runs("0 9 ? * MON#2", "2025-01-01T00:00:00Z")).toEqual([
+      "2025-01-13T09:00:00.000Z",
+      "2025-02-10T09:00:00.000Z",
+      "2025-03-10T09:00:00.000Z",
+    ]);
+  });
+
+  test("day of month or day of week when both are restricted", () => {
+    // 2025-09-01 is a Monday
+    expect(runs("0 9 1,15 * MON", "2025-09-01T10:00:00Z")).toEqual([
+      "2025-09-08T09:00:00.000Z",
+      "2025-09-15T09:00:00.000Z",
+      "2025-09-22T09:00:00.000Z",
+    ]);
+  });
+
+  test("leap days and expressions that never fire", () => {
+    expect(runs("0 0 29 2 *", "2025-01-01T00:00:00Z", 2)).toEqual([
+      "2028-02-29T00:00:00.000Z",
+      "2032-02-29T00:00:00.000Z",
+    ]);
+    expect(
+      CronExpression.parse("0 0 30 2 *").next(new Date("2025-01-01")),
+    ).toBeNull();
+    expect(
+      CronExpression.parse("0 0 0 1 1 ? 2020").next(new Date("2025-01-01")),
+    ).toBeNull();
+  });
+
+  test("macros", () => {
+    expect(runs("@daily", "2025-01-01T10:00:00Z", 1)).toEqual(
+      runs("0 0 * * *", "2025-01-01T10:00:00Z", 1),
+    );
+  });
+
+  test("rejects malformed expressions", () => {
+    for (const expression of [
+      "",
+      "* * * *",
+      "* * * * * * * *",
+      "61 * * * *",
+      "*/0 * * * *",
+      "0 0 ? * 8",
+      "0 0 * * MON#6",
+      "0 0 * FOO *",
+      "1,,2 * * * *",
+    ]) {
+      expect(CronExpression.isValid(expression)).toBe(false);
+    }
+    expect(() => CronExpression.parse("0 25 * * *")).toThrow(
+      InvalidCronExpressionError,
+    );
+    expect(() => validateTimezone("Mars/Olympus")).toThrow(
+      InvalidCronExpressionError,
+    );
+  });
+});
+
+describe("CronExpression timezones", () => {
+  test("evaluates on the wall clock of the timezone", () => {
+    expect(
+      runs("0 9 * * *", "2025-01-01T00:00:00Z", 2, "America/Sao_Paulo"),
+    ).toEqual(["2025-01-01T12:00:00.000Z", "2025-01-02T12:00:00.000Z"]);
+  });
+
+  test("runs in a skipped hour fire right after the jump", () => {
+    // New York springs forward at 2025-03-09 02:00 EST
+    expect(
+      runs("30 2 * * *", "2025-03-08T12:00:00Z", 3, "America/New_York"),
+    ).toEqual([
+      "2025-03-09T07:30:00.000Z", // 03:30 EDT
+      "2025-03-10T06:30:00.000Z",
+      "2025-03-11T06:30:00.000Z",
+    ]);
+    expect(
+      runs("0 */2 * * *", "2025-03-09T05:00:00Z", 3, "America/New_York"),
+    ).toEqual([
+      "2025-03-09T07:00:00.000Z", // 03:00 EDT
+      "2025-03-09T08:00:00.000Z", // 04:00 EDT
+      "2025-03-09T10:00:00.000Z",
+    ]);
+  });
+
+  test("a repeated hour fires once unless the hour field is *", () => {
+    // New York falls back at 2025-11-02 02:00 EDT
+    expect(
+      runs("30 1 * * *", "2025-11-01T12:00:00Z", 2, "America/New_York"),
+    ).toEqual(["2025-11-02T05:30:00.000Z", "2025-11-03T06:30:00.000Z"]);
+    expect(
+      runs("*/30 * * * *", "2025-11-02T05:20:00Z", 4, "America/New_York"),
+    ).toEqual([
+      "2025-11-02T05:30:00.000Z", // 01:30 EDT
+      "2025-11-02T06:00:00.000Z", // 01:00 EST
+      "2025-11-02T06:30:00.000Z", // 01:30 EST
+      "2025-11-02T07:00:00.000Z",
+    ]);
+  });
+
+  test("between lists the runs of an interval", () => {
+    const cron = CronExpression.parse("0 * * * *");
+    expect(
+      cron.between(
+        new Date("2025-01-01T00:00:00Z"),
+        new Date("2025-01-01T03:00:00Z"),
+      ),
+    ).toHaveLength(3);
+    expect(
+      cron.between(
+        new Date("2025-01-01T00:00:00Z"),
+        new Date("2025-01-02T00:00:00Z"),
+        "UTC",
+        5,
+      ),
+    ).toHaveLength(5);
+  });
+});
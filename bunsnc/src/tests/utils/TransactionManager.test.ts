@@ -8,7 +8,17 @@ import {
   Transaction,
   transactionManager,
 } from "../../utils/TransactionManager";
+import {
+  FileTransactionJournal,
+  MemoryTransactionJournal,
+} from "../../utils/TransactionJournal";
+import { ServiceNowSimulator } from "../../modules/servicenow-simulator/ServiceNowSimulator";
+import { TableAPI } from "../../api/TableAPI";
+import { BatchAPI } from "../../api/BatchAPI";
 import type { ServiceNowRecord } from "../../types/servicenow";
+import { rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 
 // Mock client for testing
 class MockServiceNowClient {
@@ -639,3 +649,171 @@ describe("TransactionManager", () => {
     });
   });
 });
+
+describe("Batched transactions", () => {
+  const manager = TransactionManager.getInstance();
+  let simulator: ServiceNowSimulator;
+  let batch: BatchAPI;
+  let batchCalls: number;
+  let onBatchCall: (call: number, request: Request) => Promise<Response> | null;
+
+  const fixtures = {
+    incident: [
+      { sys_id: "a1", number: "INC0001", state: "1", assigned_to: "u1" },
+      { sys_id: "a2", number: "INC0002", state: "1" },
+    ],
+  };
+
+  // Bulk reassignment touching three records, two operations per batch call
+  const reassign = (journal = new MemoryTransactionJournal()) => {
+    const tx = manager.begin(batch, { batchSize: 2, journal, timeout: 0 });
+    tx.create("incident", { short_description: "Follow-up" });
+    tx.update("incident", "a1", { state: "2", assigned_to: "u2" });
+    tx.delete("incident", "a2");
+    return { tx, journal };
+  };
+
+  beforeEach(() => {
+    manager.setEnabled(true);
+    simulator = new ServiceNowSimulator({ fixtures });
+    batchCalls = 0;
+    onBatchCall = () => null;
+
+    const handle = simulator.handle.bind(simulator);
+    simulator.handle = async (request: Request) => {
+      if (new URL(request.url).pathname.endsWith("/batch")) {
+        return onBatchCall(++batchCalls, request) ?? handle(request);
+      }
+      return handle(request);
+    };
+
+    const table = new TableAPI(
+      simulator.instanceUrl,
+      "token",
+      simulator.bridge(),
+    );
+    batch = new BatchAPI(table, null, { enableCaching: false });
+  });
+
+  test("should commit through Batch API calls", async () => {
+    const { tx, journal } = reassign();
+    const result = await tx.commit();
+
+    expect(result.success).toBe(true);
+    // One call for before-images, two for the operations
+    expect(batchCalls).toBe(3);
+    expect(simulator.store.get("incident", "a1")).toMatchObject({
+      state: "2",
+      assigned_to: "u2",
+    });
+    expect(simulator.store.get("incident", "a2")).toBeNull();
+    expect(
+      simulator.store.all("incident").map((record) => record.short_description),
+    ).toContain("Follow-up");
+    expect(journal.list()).toEqual([]);
+  });
+
+  test("should compensate in reverse order when the instance throttles", async () => {
+    onBatchCall = (call) =>
+      call === 3
+        ? Promise.resolve(
+            new Response("Too Many Requests", {
+              status: 429,
+              statusText: "Too Many Requests",
+            }),
+          )
+        : null;
+
+    const { tx, journal } = reassign();
+    const result = await tx.commit();
+
+    expect(result.success).toBe(false);
+    expect(result.rollbackPerformed).toBe(true);
+    expect(result.errors[0].error).toContain("429");
+    expect(simulator.store.all("incident").map((r) => r.sys_id)).toEqual([
+      "a1",
+      "a2",
+    ]);
+    expect(simulator.store.get("incident", "a1")).toMatchObject({
+      state: "1",
+      assigned_to: "u1",
+    });
+    expect(journal.list()).toEqual([]);
+  });
+
+  test("should not write anything when a before-image is missing", async () => {
+    const tx = manager.begin(batch, { timeout: 0 });
+    tx.update("incident", "a1", { state: "2" });
+    tx.delete("incident", "missing");
+
+    const result = await tx.commit();
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0].error).toContain("before-image");
+    expect(batchCalls).toBe(1);
+    expect(simulator.store.get("incident", "a1")?.state).toBe("1");
+  });
+
+  describe("recovery after a crash", () => {
+    const directory = join(tmpdir(), `bunsnc-journal-${process.pid}`);
+
+    afterEach(() => rmSync(directory, { recursive: true, force: true }));
+
+    // The process dies while the second apply call is on the wire: the
+    // instance applied it but the answer never came back
+    const crash = async () => {
+      let crashed!: () => void;
+      const reached = new Promise<void>((resolve) => (crashed = resolve));
+      const handle = simulator.handle;
+      onBatchCall = (call, request) => {
+        if (call !== 3) {
+          return null;
+        }
+        return handle(request).then(() => {
+          crashed();
+          return new Promise<Response>(() => {});
+        });
+      };
+
+      const { tx } = reassign(new FileTransactionJournal(directory));
+      void tx.commit();
+      await reached;
+      onBatchCall = () => null;
+
+      const [entry] = new FileTransactionJournal(directory).list();
+      expect(entry.state).toBe("committing");
+      expect(entry.operations.map((op) => op.status)).toEqual([
+        "applied",
+        "applied",
+        "sent",
+      ]);
+    };
+
+    test("should resume a commit whose outcome was unknown", async () => {
+      await crash();
+
+      const journal = new FileTransactionJournal(directory);
+      const [result] = await manager.recover(batch, "resume", journal);
+
+      expect(result.success).toBe(true);
+      expect(simulator.store.get("incident", "a2")).toBeNull();
+      expect(journal.list()).toEqual([]);
+    });
+
+    test("should roll back a crashed commit", async () => {
+      await crash();
+
+      const journal = new FileTransactionJournal(directory);
+      const [result] = await manager.recover(batch, "rollback", journal);
+
+      expect(result.rollbackPerformed).toBe(true);
+      expect(simulator.store.all("incident").map((r) => r.sys_id)).toEqual([
+        "a1",
+        "a2",
+      ]);
+      expect(simulator.store.get("incident", "a1")?.state).toBe("1");
+      expect(simulator.store.get("incident", "a2")?.number).toBe("INC0002");
+      expect(journal.list()).toEqual([]);
+    });
+  });
+});
@@ -69,6 +69,8 @@ export interface SLAComplianceResult {
   penalty_percentage: number;
   business_hours_only: boolean;
   calculated_at: Date;
+  paused_hours?: number; // excluded by the pause rules
+  breached_at?: Date | null;
 }
 
 export interface SLAMetrics {
@@ -108,9 +110,135 @@ export interface BusinessHoursConfig {
   timezone: string;
 }
 
+/**
+ * One entry of a schedule, like a cmn_schedule_span row. Times are wall
+ * clock in the schedule's timezone ("YYYY-MM-DDTHH:mm"); the first
+ * occurrence runs from start to end, which may fall on a later day.
+ */
+export interface ScheduleSpan {
+  name?: string;
+  type: "include" | "exclude";
+  start: string;
+  end: string;
+  repeat?: {
+    frequency: "daily" | "weekly" | "yearly";
+    days?: number[]; // weekly: 0 = Sunday .. 6 = Saturday (default: start's day)
+    until?: string; // YYYY-MM-DD, last day an occurrence may start
+  };
+}
+
+/**
+ * Named working schedule (cmn_schedule). Time counts when an include span
+ * covers it and no exclude span does.
+ */
+export interface BusinessSchedule {
+  id: string;
+  name: string;
+  timezone: string;
+  spans: ScheduleSpan[];
+  groups?: string[]; // assignment group sys_ids or names using this schedule
+  is_default?: boolean;
+}
+
+/**
+ * A ticket pauses while every field of one condition has one of the listed
+ * values, e.g. { state: ["3"], hold_reason: ["1"] } for "Awaiting caller"
+ */
+export interface SLAPauseCondition {
+  label: string;
+  when: Record<string, string[]>;
+}
+
+export interface SLAPauseRule {
+  pause: SLAPauseCondition[]; // first match names the pause
+  stop?: Record<string, string[]>; // the clock stops for good (resolved)
+}
+
+export type SLAPauseRules = Record<TicketType, SLAPauseRule>;
+
+export interface SLAFieldChange {
+  field: string;
+  old_value?: string; // absent for journal entries
+  new_value: string;
+  at: Date;
+  by?: string;
+  source: "sys_audit" | "sys_journal_field" | "ticket_audit";
+}
+
+export interface SLATimelineSegment {
+  status: "running" | "paused";
+  start: Date;
+  end: Date;
+  hours: number; // business hours when the SLA counts them
+  reason?: string; // pause condition label
+}
+
+export interface SLATimeline {
+  ticket_type: TicketType;
+  start: Date;
+  end: Date;
+  stopped: boolean; // a stop condition ended the clock before `end`
+  segments: SLATimelineSegment[];
+  running_hours: number;
+  paused_hours: number;
+  sla_hours?: number;
+  breached_at: Date | null;
+  due_at: Date | null; // breach time if the clock keeps running from `end`
+}
+
+export interface SLAQuietHours {
+  start: string; // "HH:mm", local to timezone
+  end: string; // may be earlier than start (overnight)
+  timezone: string;
+  days?: number[]; // 0 = Sunday; default every day
+  bypass_threshold?: number; // alerts at or above it page anyway (default 90)
+}
+
+export interface SLAEscalationLevel {
+  threshold: number; // % of the SLA from which this level is notified
+  recipients: string[];
+  channels?: Array<"websocket" | "sse" | "push" | "email" | "webhook">;
+}
+
+export interface SLAEscalationChain {
+  levels: SLAEscalationLevel[];
+  quiet_hours?: SLAQuietHours | null; // null: this group is never quiet
+}
+
+export interface SLAAlertPolicy {
+  thresholds: number[]; // % of the SLA consumed, e.g. [50, 75, 90]
+  quiet_hours?: SLAQuietHours;
+  // By assignment group sys_id or name; "default" for the others
+  escalation: Record<string, SLAEscalationChain>;
+}
+
+export interface SLAAlertRecord {
+  ticket_id: string;
+  ticket_number: string;
+  ticket_type: TicketType;
+  metric_type: MetricType;
+  assignment_group?: string;
+  threshold: number;
+  // superseded: crossed together with a higher threshold, not sent on its own
+  status: "sent" | "superseded";
+  percentage: number;
+  due_at: Date | null;
+  recipients: string[];
+  sent_at: Date;
+  acknowledged_at?: Date;
+  acknowledged_by?: string;
+}
+
 export interface SLACalculationOptions {
   include_business_hours_only?: boolean;
   business_hours_config?: BusinessHoursConfig;
+  schedule?: BusinessSchedule;
+  assignment_group?: string; // picks the group's schedule when none is given
+  start_time?: Date; // with end_time, business hours are counted exactly
+  end_time?: Date;
+  // Field history (state, hold_reason...); paused time is not counted
+  changes?: SLAFieldChange[];
+  current_values?: Record<string, unknown>;
   penalty_calculation_enabled?: boolean;
   custom_penalties?: Record<string, number>;
 }
@@ -129,6 +257,69 @@ export interface TicketSLAStatus {
   total_penalty_percentage: number;
 }
 
+export interface PenaltyInvoiceOptions {
+  period_start: Date;
+  period_end: Date; // exclusive
+  label?: string; // e.g. "2025-03"
+  ticket_types?: TicketType[];
+  monthly_fee?: number; // contract value the penalty applies to
+  currency?: string;
+  penalty_cap_percentage?: number; // contractual ceiling on the applied penalty
+}
+
+/**
+ * Audit trail of one breached metric of one ticket
+ */
+export interface PenaltyInvoiceLine {
+  ticket_id: string;
+  ticket_number: string;
+  ticket_type: TicketType;
+  priority: SLAPriority;
+  metric_type: MetricType;
+  opened_at: Date;
+  resolved_at?: Date;
+  sla_id?: number;
+  sla_description?: string;
+  sla_hours: number;
+  actual_hours: number;
+  paused_hours: number;
+  breach_hours: number;
+  breached_at: Date | null;
+  business_hours_only: boolean;
+  penalty_percentage: number;
+  calculated_at: Date;
+}
+
+export interface PenaltyInvoiceGroup {
+  ticket_type: TicketType;
+  priority?: SLAPriority;
+  total_tickets: number;
+  compliant_tickets: number;
+  breached_tickets: number;
+  compliance_percentage: number;
+  penalty_percentage: number;
+}
+
+export interface PenaltyInvoice {
+  period: { start: Date; end: Date; label: string };
+  generated_at: Date;
+  currency?: string;
+  totals: {
+    total_tickets: number;
+    compliant_tickets: number;
+    breached_tickets: number;
+    compliance_percentage: number;
+    penalty_percentage: number; // sum of the breached tickets
+    applied_penalty_percentage: number; // after the cap
+    penalty_cap_percentage?: number;
+    monthly_fee?: number;
+    penalty_amount?: number;
+  };
+  by_ticket_type: PenaltyInvoiceGroup[];
+  by_priority: PenaltyInvoiceGroup[];
+  breaches: PenaltyInvoiceLine[];
+}
+
 export interface SLADashboardData {
   overall_metrics: {
     total_tickets: number;
@@ -170,6 +361,27 @@ export const DEFAULT_BUSINESS_HOURS: BusinessHoursConfig = {
   timezone: "America/Sao_Paulo",
 };
 
+export const DEFAULT_SLA_PAUSE_RULES: SLAPauseRules = {
+  [TicketType.INCIDENT]: {
+    pause: [
+      {
+        label: "Aguardando usuário",
+        when: { state: ["3"], hold_reason: ["1"] },
+      },
+      { label: "Em espera", when: { state: ["3"] } },
+    ],
+    stop: { state: ["6", "7", "8"] },
+  },
+  [TicketType.CTASK]: {
+    pause: [{ label: "Pendente", when: { state: ["-5"] } }],
+    stop: { state: ["3", "4", "7"] },
+  },
+  [TicketType.SCTASK]: {
+    pause: [{ label: "Pendente", when: { state: ["-5"] } }],
+    stop: { state: ["3", "4", "7"] },
+  },
+};
+
 export const SLA_PRIORITY_MAPPING = {
   [TicketType.INCIDENT]: [
     IncidentPriority.SEVERIDADE_1,
@@ -194,3 +406,10 @@ export const SLA_PRIORITY_MAPPING = {
     ServiceCatalogPriority.P3,
   ],
 };
+
+export const DEFAULT_SLA_ALERT_POLICY: SLAAlertPolicy = {
+  thresholds: [50, 75, 90],
+  escalation: {
+    default: { levels: [{ threshold: 50, recipients: [] }] },
+  },
+};
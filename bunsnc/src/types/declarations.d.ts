@@ -77,6 +77,14 @@ declare module "ioredis" {
     duplicate(): Redis;
     disconnect(): void;
 
+    // Set and sorted set commands
+    sadd(key: string, ...members: string[]): Promise<number>;
+    srem(key: string, ...members: string[]): Promise<number>;
+    smembers(key: string): Promise<string[]>;
+    zadd(key: string, score: number, member: string): Promise<number>;
+    zrem(key: string, ...members: string[]): Promise<number>;
+    zrevrange(key: string, start: number, stop: number): Promise<string[]>;
+
     // Stream commands
     xadd(key: string, id: string, ...fields: any[]): Promise<string>;
     xread(...args: any[]): Promise<any>;
@@ -85,6 +93,13 @@ declare module "ioredis" {
     xack(key: string, group: string, ...ids: string[]): Promise<number>;
     xpending(key: string, group: string): Promise<any>;
 
+    // Scripting
+    eval(
+      script: string,
+      numKeys: number,
+      ...args: (string | number)[]
+    ): Promise<unknown>;
+
     // Pub/Sub
     publish(channel: string, message: string): Promise<number>;
     subscribe(channel: string): Promise<void>;
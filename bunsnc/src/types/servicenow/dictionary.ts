@@ -0,0 +1,60 @@
+/**
+ * ServiceNow data dictionary types - sys_db_object / sys_dictionary / sys_choice snapshots
+ * and the field value types used by generated table interfaces
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+
+// ===== DICTIONARY SNAPSHOT =====
+
+export interface DictionaryTable {
+  name: string;
+  label?: string;
+  super_class?: string;
+}
+
+export interface DictionaryField {
+  name: string; // table the field is defined on
+  element: string;
+  internal_type: string;
+  column_label?: string;
+  reference?: string;
+  max_length?: string;
+  mandatory?: string;
+  read_only?: string;
+  choice?: string;
+  default_value?: string;
+}
+
+export interface DictionaryChoice {
+  name: string;
+  element: string;
+  value: string;
+  label?: string;
+  inactive?: string;
+}
+
+export interface DictionarySnapshot {
+  instance?: string;
+  capturedAt: string;
+  tables: DictionaryTable[];
+  fields: DictionaryField[];
+  choices: DictionaryChoice[];
+}
+
+// ===== GENERATED FIELD VALUE TYPES =====
+
+/**
+ * sys_id of a record in the referenced table
+ */
+export type Reference<Table extends string = string> = string & {
+  readonly __referenceTable?: Table;
+};
+
+export type BooleanString = "true" | "false";
+
+export type NumericString = `${number}`;
+
+/**
+ * ServiceNow date/time as returned by the Table API ("2025-01-31 13:45:00")
+ */
+export type DateTimeString = string;
@@ -5,6 +5,7 @@
 
 export * from "./incident";
 export * from "./summary";
+export * from "./dictionary";
 
 // Re-export common types
 export type { ServiceNowReference } from "./incident";
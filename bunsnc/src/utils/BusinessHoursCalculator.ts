@@ -5,126 +5,84 @@
 
 import {
   BusinessHoursConfig,
+  BusinessSchedule,
   DEFAULT_BUSINESS_HOURS,
+  ScheduleSpan,
 } from "../types/ContractualSLA";
+import {
+  DAY,
+  HOUR,
+  holidaySpan,
+  scheduleFromConfig,
+  scheduleIntervals,
+  wallTime,
+  wallToInstant,
+  type Interval,
+} from "./BusinessSchedule";
 import { logger } from "./Logger";
 
+const WEEK = 7 * DAY;
+const MAX_WEEKS_SEARCHED = 520; // give up on schedules without working time
+
 export class BusinessHoursCalculator {
-  private config: BusinessHoursConfig;
+  private config: BusinessHoursConfig | null;
+  private schedule: BusinessSchedule;
 
-  constructor(config: BusinessHoursConfig = DEFAULT_BUSINESS_HOURS) {
-    this.config = config;
+  /**
+   * Built from a weekly config (one global shift) or a named schedule
+   */
+  constructor(
+    config: BusinessHoursConfig | BusinessSchedule = DEFAULT_BUSINESS_HOURS,
+  ) {
+    if ("spans" in config) {
+      this.config = null;
+      this.schedule = config;
+    } else {
+      this.config = { ...config, holidays: [...config.holidays] };
+      this.schedule = scheduleFromConfig(this.config);
+    }
   }
 
   /**
    * Calculate business hours between two dates
    */
   calculateBusinessHours(startDate: Date, endDate: Date): number {
-    if (startDate >= endDate) {
-      return 0;
-    }
-
-    let totalBusinessHours = 0;
-    let currentDate = new Date(startDate);
-    const finalDate = new Date(endDate);
-
-    // Iterate through each day
-    while (currentDate < finalDate) {
-      const nextDay = new Date(currentDate);
-      nextDay.setDate(nextDay.getDate() + 1);
-      nextDay.setHours(0, 0, 0, 0);
-
-      // Calculate hours for this day
-      const dayEnd = nextDay > finalDate ? finalDate : nextDay;
-      const hoursThisDay = this.calculateBusinessHoursForDay(
-        currentDate,
-        dayEnd,
-      );
-
-      totalBusinessHours += hoursThisDay;
-
-      // Move to next day
-      currentDate = nextDay;
-    }
-
-    return Math.round(totalBusinessHours * 100) / 100; // Round to 2 decimal places
+    const milliseconds = this.businessMilliseconds(startDate, endDate);
+    return Math.round((milliseconds / HOUR) * 100) / 100; // Round to 2 decimal places
   }
 
   /**
-   * Calculate business hours for a specific day
+   * Unrounded business time between two dates
    */
-  private calculateBusinessHoursForDay(startDate: Date, endDate: Date): number {
-    const dayOfWeek = startDate.getDay(); // 0 = Sunday, 1 = Monday, etc.
-
-    // Skip if it's a holiday
-    if (this.isHoliday(startDate)) {
-      return 0;
-    }
-
-    // Get business hours for this day of week
-    const businessHours = this.getBusinessHoursForDay(dayOfWeek);
-    if (!businessHours) {
-      return 0; // No business hours for this day
-    }
-
-    // Parse business hours
-    const [startHour, startMinute] = businessHours.start.split(":").map(Number);
-    const [endHour, endMinute] = businessHours.end.split(":").map(Number);
-
-    // Create business day boundaries
-    const businessStart = new Date(startDate);
-    businessStart.setHours(startHour, startMinute, 0, 0);
-
-    const businessEnd = new Date(startDate);
-    businessEnd.setHours(endHour, endMinute, 0, 0);
-
-    // Calculate intersection of requested time period with business hours
-    const effectiveStart =
-      startDate > businessStart ? startDate : businessStart;
-    const effectiveEnd = endDate < businessEnd ? endDate : businessEnd;
-
-    // No overlap with business hours
-    if (effectiveStart >= effectiveEnd) {
+  businessMilliseconds(startDate: Date, endDate: Date): number {
+    if (startDate >= endDate) {
       return 0;
     }
-
-    // Calculate hours
-    const milliseconds = effectiveEnd.getTime() - effectiveStart.getTime();
-    return milliseconds / (1000 * 60 * 60); // Convert to hours
+    return scheduleIntervals(this.schedule, startDate, endDate).reduce(
+      (total, [start, end]) => total + end - start,
+      0,
+    );
   }
 
   /**
-   * Get business hours configuration for a day of the week
+   * Working-time intervals from a date on, a week at a time
    */
-  private getBusinessHoursForDay(
-    dayOfWeek: number,
-  ): { start: string; end: string } | null {
-    switch (dayOfWeek) {
-      case 1:
-        return this.config.monday;
-      case 2:
-        return this.config.tuesday;
-      case 3:
-        return this.config.wednesday;
-      case 4:
-        return this.config.thursday;
-      case 5:
-        return this.config.friday;
-      case 6:
-        return this.config.saturday || null;
-      case 0:
-        return this.config.sunday || null;
-      default:
-        return null;
+  private *intervalsFrom(startDate: Date): Generator<Interval> {
+    let from = startDate.getTime();
+    for (let week = 0; week < MAX_WEEKS_SEARCHED; week++) {
+      yield* scheduleIntervals(
+        this.schedule,
+        new Date(from),
+        new Date(from + WEEK),
+      );
+      from += WEEK;
     }
   }
 
-  /**
-   * Check if a date is a holiday
-   */
-  private isHoliday(date: Date): boolean {
-    const dateString = date.toISOString().split("T")[0]; // YYYY-MM-DD format
-    return this.config.holidays.includes(dateString);
+  private noBusinessHours(): Error {
+    return new Error(
+      `Schedule ${this.schedule.id} has no business hours in the next ${MAX_WEEKS_SEARCHED} weeks`,
+    );
   }
 
   /**
@@ -135,114 +93,39 @@ export class BusinessHoursCalculator {
       return new Date(startDate);
     }
 
-    let currentDate = new Date(startDate);
-    let remainingHours = hoursToAdd;
-
-    while (remainingHours > 0) {
-      const dayOfWeek = currentDate.getDay();
-      const businessHours = this.getBusinessHoursForDay(dayOfWeek);
-
-      // Skip holidays and non-business days
-      if (this.isHoliday(currentDate) || !businessHours) {
-        currentDate.setDate(currentDate.getDate() + 1);
-        currentDate.setHours(0, 0, 0, 0);
-        continue;
-      }
-
-      // Parse business hours
-      const [startHour, startMinute] = businessHours.start
-        .split(":")
-        .map(Number);
-      const [endHour, endMinute] = businessHours.end.split(":").map(Number);
-
-      // Calculate available hours for this day
-      const businessStart = new Date(currentDate);
-      businessStart.setHours(startHour, startMinute, 0, 0);
-
-      const businessEnd = new Date(currentDate);
-      businessEnd.setHours(endHour, endMinute, 0, 0);
-
-      // If current time is before business start, move to business start
-      if (currentDate < businessStart) {
-        currentDate = new Date(businessStart);
-      }
-
-      // If current time is after business end, move to next day
-      if (currentDate >= businessEnd) {
-        currentDate.setDate(currentDate.getDate() + 1);
-        currentDate.setHours(0, 0, 0, 0);
-        continue;
-      }
-
-      // Calculate hours available in this business day
-      const availableHours =
-        (businessEnd.getTime() - currentDate.getTime()) / (1000 * 60 * 60);
-
-      if (remainingHours <= availableHours) {
-        // Can finish within this business day
-        currentDate.setTime(
-          currentDate.getTime() + remainingHours * 60 * 60 * 1000,
-        );
-        remainingHours = 0;
-      } else {
-        // Need to continue to next business day
-        remainingHours -= availableHours;
-        currentDate.setDate(currentDate.getDate() + 1);
-        currentDate.setHours(0, 0, 0, 0);
+    let remaining = hoursToAdd * HOUR;
+    for (const [start, end] of this.intervalsFrom(startDate)) {
+      if (end - start >= remaining) {
+        return new Date(start + remaining);
       }
+      remaining -= end - start;
     }
-
-    return currentDate;
+    throw this.noBusinessHours();
   }
 
   /**
    * Check if a specific time is within business hours
    */
   isBusinessTime(date: Date): boolean {
-    const dayOfWeek = date.getDay();
-    const businessHours = this.getBusinessHoursForDay(dayOfWeek);
-
-    if (!businessHours || this.isHoliday(date)) {
-      return false;
-    }
-
-    const [startHour, startMinute] = businessHours.start.split(":").map(Number);
-    const [endHour, endMinute] = businessHours.end.split(":").map(Number);
-
-    const currentHour = date.getHours();
-    const currentMinute = date.getMinutes();
-
-    const currentMinutes = currentHour * 60 + currentMinute;
-    const startMinutes = startHour * 60 + startMinute;
-    const endMinutes = endHour * 60 + endMinute;
-
-    return currentMinutes >= startMinutes && currentMinutes < endMinutes;
+    return (
+      scheduleIntervals(this.schedule, date, new Date(date.getTime() + 1))
+        .length > 0
+    );
   }
 
   /**
-   * Get next business day
+   * Get the start of business hours on the next business day
    */
   getNextBusinessDay(date: Date): Date {
-    const nextDay = new Date(date);
-    nextDay.setDate(nextDay.getDate() + 1);
-    nextDay.setHours(0, 0, 0, 0);
-
-    // Find next business day
-    while (true) {
-      const dayOfWeek = nextDay.getDay();
-      const businessHours = this.getBusinessHoursForDay(dayOfWeek);
-
-      if (businessHours && !this.isHoliday(nextDay)) {
-        // Set to start of business hours
-        const [startHour, startMinute] = businessHours.start
-          .split(":")
-          .map(Number);
-        nextDay.setHours(startHour, startMinute, 0, 0);
-        return nextDay;
-      }
+    const { timezone } = this.schedule;
+    const today = Math.floor(wallTime(date.getTime(), timezone) / DAY);
+    const tomorrow = new Date(wallToInstant((today + 1) * DAY, timezone));
 
-      nextDay.setDate(nextDay.getDate() + 1);
+    const first = this.intervalsFrom(tomorrow).next();
+    if (first.done) {
+      throw this.noBusinessHours();
     }
+    return new Date(first.value[0]);
   }
 
   /**
@@ -268,36 +151,80 @@ export class BusinessHoursCalculator {
    * Update business hours configuration
    */
   updateConfig(newConfig: Partial<BusinessHoursConfig>): void {
-    this.config = { ...this.config, ...newConfig };
+    this.config = {
+      ...(this.config ?? DEFAULT_BUSINESS_HOURS),
+      ...newConfig,
+    } as BusinessHoursConfig;
+    this.schedule = scheduleFromConfig(this.config);
     logger.info("🕒 [BusinessHours] Configuration updated");
   }
 
   /**
-   * Get current configuration
+   * Get current configuration (null when built from a schedule)
+   */
+  getConfig(): BusinessHoursConfig | null {
+    return this.config ? { ...this.config } : null;
+  }
+
+  /**
+   * Replace the schedule, e.g. after an iCalendar import
    */
-  getConfig(): BusinessHoursConfig {
-    return { ...this.config };
+  setSchedule(schedule: BusinessSchedule): void {
+    this.config = null;
+    this.schedule = schedule;
+    logger.info(`🕒 [BusinessHours] Using schedule ${schedule.name}`);
+  }
+
+  getSchedule(): BusinessSchedule {
+    return structuredClone(this.schedule);
   }
 
   /**
    * Add holiday to the configuration
    */
   addHoliday(date: string): void {
-    if (!this.config.holidays.includes(date)) {
+    if (this.config) {
+      if (this.config.holidays.includes(date)) {
+        return;
+      }
       this.config.holidays.push(date);
       this.config.holidays.sort();
-      logger.info(`📅 [BusinessHours] Holiday added: ${date}`);
+      this.schedule = scheduleFromConfig(this.config);
+    } else {
+      const span = holidaySpan(date);
+      if (this.schedule.spans.some((s) => isSameSpan(s, span))) {
+        return;
+      }
+      this.schedule.spans.push(span);
     }
+    logger.info(`📅 [BusinessHours] Holiday added: ${date}`);
   }
 
   /**
    * Remove holiday from the configuration
    */
   removeHoliday(date: string): void {
-    const index = this.config.holidays.indexOf(date);
-    if (index > -1) {
+    if (this.config) {
+      const index = this.config.holidays.indexOf(date);
+      if (index === -1) {
+        return;
+      }
       this.config.holidays.splice(index, 1);
-      logger.info(`📅 [BusinessHours] Holiday removed: ${date}`);
+      this.schedule = scheduleFromConfig(this.config);
+    } else {
+      const span = holidaySpan(date);
+      const index = this.schedule.spans.findIndex((s) => isSameSpan(s, span));
+      if (index === -1) {
+        return;
+      }
+      this.schedule.spans.splice(index, 1);
     }
+    logger.info(`📅 [BusinessHours] Holiday removed: ${date}`);
   }
 }
+
+function isSameSpan(a: ScheduleSpan, b: ScheduleSpan): boolean {
+  return (
+    a.type === b.type && a.start === b.start && a.end === b.end && !a.repeat
+  );
+}
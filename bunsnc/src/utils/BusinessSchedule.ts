@@ -0,0 +1,322 @@
+/**
+ * Business Schedule - Working-time intervals of a cmn_schedule-like schedule
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * Span times are wall clock in the schedule's timezone. Every occurrence is
+ * converted to an instant on its own, so a 08:00-17:00 span stays 08:00-17:00
+ * local on both sides of a DST change.
+ */
+
+import type {
+  BusinessHoursConfig,
+  BusinessSchedule,
+  ScheduleSpan,
+} from "../types/ContractualSLA";
+
+export type Interval = [number, number]; // epoch ms, end exclusive
+
+export const MINUTE = 60 * 1000;
+export const HOUR = 60 * MINUTE;
+export const DAY = 24 * HOUR;
+
+const WALL_TIME =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+] as const;
+const CONFIG_ANCHOR = "2000-01-02"; // a Sunday before any real ticket
+
+export class InvalidScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidScheduleError";
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timezone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timezone);
+  if (!format) {
+    try {
+      format = new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+      });
+    } catch {
+      throw new InvalidScheduleError(`Unknown timezone: ${timezone}`);
+    }
+    formatters.set(timezone, format);
+  }
+  return format;
+}
+
+/**
+ * Wall clock of an instant in a timezone, as ms since the epoch read as UTC
+ */
+export function wallTime(instant: number, timezone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of formatter(timezone).formatToParts(instant)) {
+    parts[part.type] = Number(part.value);
+  }
+  return (
+    Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second,
+    ) +
+    (((instant % 1000) + 1000) % 1000)
+  );
+}
+
+/**
+ * Instant of a wall-clock time. Times skipped by a DST jump move forward by
+ * the jump (02:30 becomes 03:30); repeated times resolve to the first pass.
+ */
+export function wallToInstant(wall: number, timezone: string): number {
+  const guess = wall - (wallTime(wall, timezone) - wall);
+  const corrected = wall - (wallTime(guess, timezone) - guess);
+  return wallTime(corrected, timezone) === wall ? corrected : guess;
+}
+
+/**
+ * Parse "YYYY-MM-DD" or "YYYY-MM-DDTHH:mm[:ss]" to wall ms
+ */
+export function parseWallTime(value: string): number {
+  const match = WALL_TIME.exec(value.trim());
+  if (!match) {
+    throw new InvalidScheduleError(`Invalid schedule time: ${value}`);
+  }
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+  return Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second),
+  );
+}
+
+export function formatWallTime(wall: number): string {
+  return new Date(wall).toISOString().slice(0, 16);
+}
+
+function weekday(dayNumber: number): number {
+  return (dayNumber + 4) % 7; // 1970-01-01 was a Thursday
+}
+
+interface CompiledSpan {
+  span: ScheduleSpan;
+  firstDay: number;
+  lastDay: number;
+  offset: number; // wall ms after midnight of the day it starts
+  duration: number;
+  days: number[] | null;
+  monthDay: string | null;
+}
+
+function compile(span: ScheduleSpan): CompiledSpan {
+  const start = parseWallTime(span.start);
+  const end = parseWallTime(span.end);
+  if (end <= start) {
+    throw new InvalidScheduleError(
+      `Schedule span ${span.name ?? span.start} ends before it starts`,
+    );
+  }
+  const firstDay = Math.floor(start / DAY);
+  const frequency = span.repeat?.frequency;
+  const until = span.repeat?.until;
+
+  return {
+    span,
+    firstDay,
+    lastDay: !frequency
+      ? firstDay
+      : until
+        ? Math.floor(parseWallTime(until) / DAY)
+        : Infinity,
+    offset: start - firstDay * DAY,
+    duration: end - start,
+    days:
+      frequency === "weekly"
+        ? span.repeat?.days?.length
+          ? span.repeat.days
+          : [weekday(firstDay)]
+        : null,
+    monthDay:
+      frequency === "yearly"
+        ? new Date(firstDay * DAY).toISOString().slice(5, 10)
+        : null,
+  };
+}
+
+function occursOn(compiled: CompiledSpan, dayNumber: number): boolean {
+  if (dayNumber < compiled.firstDay || dayNumber > compiled.lastDay) {
+    return false;
+  }
+  if (compiled.days) {
+    return compiled.days.includes(weekday(dayNumber));
+  }
+  if (compiled.monthDay) {
+    return (
+      new Date(dayNumber * DAY).toISOString().slice(5, 10) === compiled.monthDay
+    );
+  }
+  return true;
+}
+
+/**
+ * Whether a span has an occurrence starting on the given local date
+ */
+export function spanOccursOn(span: ScheduleSpan, date: string): boolean {
+  return occursOn(compile(span), Math.floor(parseWallTime(date) / DAY));
+}
+
+function merge(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  const merged: Interval[] = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+function subtract(included: Interval[], excluded: Interval[]): Interval[] {
+  const result: Interval[] = [];
+  for (const [start, end] of included) {
+    let from = start;
+    for (const [cutStart, cutEnd] of excluded) {
+      if (cutEnd <= from || cutStart >= end) {
+        continue;
+      }
+      if (cutStart > from) {
+        result.push([from, cutStart]);
+      }
+      from = Math.max(from, cutEnd);
+    }
+    if (from < end) {
+      result.push([from, end]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Working-time intervals of a schedule within [from, to), sorted and disjoint
+ */
+export function scheduleIntervals(
+  schedule: BusinessSchedule,
+  from: Date,
+  to: Date,
+): Interval[] {
+  const windowStart = from.getTime();
+  const windowEnd = to.getTime();
+  if (windowStart >= windowEnd) {
+    return [];
+  }
+
+  const { timezone } = schedule;
+  const firstDay = Math.floor(wallTime(windowStart, timezone) / DAY);
+  const lastDay = Math.floor(wallTime(windowEnd, timezone) / DAY);
+  const included: Interval[] = [];
+  const excluded: Interval[] = [];
+
+  for (const compiled of schedule.spans.map(compile)) {
+    // Occurrences that started before the window may still run into it
+    const lookBack = Math.ceil(compiled.duration / DAY) + 1;
+    const target = compiled.span.type === "exclude" ? excluded : included;
+
+    const last = Math.min(lastDay, compiled.lastDay);
+    for (
+      let day = Math.max(firstDay - lookBack, compiled.firstDay);
+      day <= last;
+      day++
+    ) {
+      if (!occursOn(compiled, day)) {
+        continue;
+      }
+      const wallStart = day * DAY + compiled.offset;
+      const start = wallToInstant(wallStart, timezone);
+      const end = wallToInstant(wallStart + compiled.duration, timezone);
+      if (end > windowStart && start < windowEnd) {
+        target.push([Math.max(start, windowStart), Math.min(end, windowEnd)]);
+      }
+    }
+  }
+
+  return subtract(merge(included), merge(excluded)).filter(
+    ([start, end]) => end > start,
+  );
+}
+
+/**
+ * All-day exclusion for one date
+ */
+export function holidaySpan(date: string, name = "Holiday"): ScheduleSpan {
+  const day = parseWallTime(date);
+  return {
+    name,
+    type: "exclude",
+    start: formatWallTime(day),
+    end: formatWallTime(day + DAY),
+  };
+}
+
+/**
+ * Schedule equivalent of the flat weekly BusinessHoursConfig
+ */
+export function scheduleFromConfig(
+  config: BusinessHoursConfig,
+  id: string = "default",
+): BusinessSchedule {
+  const byHours = new Map<string, number[]>();
+
+  WEEKDAYS.forEach((name, day) => {
+    const hours = config[name];
+    if (hours) {
+      const key = `${hours.start}-${hours.end}`;
+      byHours.set(key, [...(byHours.get(key) ?? []), day]);
+    }
+  });
+
+  const spans: ScheduleSpan[] = [...byHours].map(([key, days]) => {
+    const [start, end] = key
+      .split("-")
+      .map((time) => parseWallTime(`${CONFIG_ANCHOR}T${time}`));
+    return {
+      type: "include",
+      start: formatWallTime(start),
+      // "24:00" or an end before the start runs past midnight
+      end: formatWallTime(end > start ? end : end + DAY),
+      repeat: { frequency: "weekly", days },
+    };
+  });
+
+  return {
+    id,
+    name: id,
+    timezone: config.timezone,
+    spans: [...spans, ...config.holidays.map((date) => holidaySpan(date))],
+  };
+}
@@ -0,0 +1,461 @@
+/**
+ * Cron Expression - Parser and next-run calculator for scheduled tasks
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * Accepts 5 fields (minute hour day month weekday), 6 with leading seconds
+ * and 7 with a trailing year. Fields take *, ?, lists, ranges, steps and
+ * JAN-DEC / SUN-SAT names; day of month also takes L, L-n, nW and LW, day of
+ * week nL and n#k. When both day fields are restricted, either may match.
+ *
+ * Matching happens on the wall clock of the task's timezone: runs inside a
+ * skipped DST hour fire right after the jump, and a repeated hour fires once
+ * unless the hour field is *.
+ */
+
+import { DAY, wallTime, wallToInstant } from "./BusinessSchedule";
+
+export type MisfirePolicy = "fire_once" | "fire_all" | "skip";
+
+export const MISFIRE_POLICIES: MisfirePolicy[] = [
+  "fire_once",
+  "fire_all",
+  "skip",
+];
+
+export class InvalidCronExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidCronExpressionError";
+  }
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = [
+  "JAN",
+  "FEB",
+  "MAR",
+  "APR",
+  "MAY",
+  "JUN",
+  "JUL",
+  "AUG",
+  "SEP",
+  "OCT",
+  "NOV",
+  "DEC",
+];
+const WEEKDAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[]; // names[i] is min + i
+}
+
+const SECOND: FieldSpec = { name: "second", min: 0, max: 59 };
+const MINUTE: FieldSpec = { name: "minute", min: 0, max: 59 };
+const HOUR: FieldSpec = { name: "hour", min: 0, max: 23 };
+const DAY_OF_MONTH: FieldSpec = { name: "day of month", min: 1, max: 31 };
+const MONTH: FieldSpec = {
+  name: "month",
+  min: 1,
+  max: 12,
+  names: MONTH_NAMES,
+};
+// 7 is accepted for Sunday and folded into 0
+const DAY_OF_WEEK: FieldSpec = {
+  name: "day of week",
+  min: 0,
+  max: 7,
+  names: WEEKDAY_NAMES,
+};
+const YEAR: FieldSpec = { name: "year", min: 1970, max: 2199 };
+
+// How far next() looks ahead when the year field is open
+const SEARCH_YEARS = 100;
+
+interface DayOfMonthRules {
+  days: Set<number>;
+  lastDayOffsets: number[]; // L, L-n
+  nearestWeekdays: number[]; // nW
+  lastWeekday: boolean; // LW
+}
+
+interface DayOfWeekRules {
+  weekdays: Set<number>;
+  last: number[]; // nL: last <weekday> of the month
+  nth: [number, number][]; // n#k: k-th <weekday> of the month
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekdayOf(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function value(text: string, spec: FieldSpec): number {
+  const upper = text.toUpperCase();
+  const named = spec.names?.indexOf(upper) ?? -1;
+  if (named >= 0) {
+    return spec.min + named;
+  }
+  if (!/^\d+$/.test(text)) {
+    throw new InvalidCronExpressionError(`Invalid ${spec.name} value: ${text}`);
+  }
+  const number = Number(text);
+  if (number < spec.min || number > spec.max) {
+    throw new InvalidCronExpressionError(
+      `${spec.name} value ${number} out of range ${spec.min}-${spec.max}`,
+    );
+  }
+  return number;
+}
+
+/**
+ * Values of a plain field: *, a, a-b, with an optional /step, comma separated
+ */
+function parseValues(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText, extra] = part.split("/");
+    if (extra !== undefined || !range) {
+      throw new InvalidCronExpressionError(
+        `Invalid ${spec.name} field: ${field}`,
+      );
+    }
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new InvalidCronExpressionError(
+        `Invalid ${spec.name} step: ${stepText}`,
+      );
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*" || range === "?") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = value(from, spec);
+      end = value(to, spec);
+    } else {
+      start = value(range, spec);
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    // Ranges such as FRI-MON wrap around the end of the field
+    const span =
+      end >= start ? end - start : spec.max - start + end - spec.min + 1;
+    for (let offset = 0; offset <= span; offset += step) {
+      const current = start + offset;
+      values.add(
+        current > spec.max ? current - spec.max - 1 + spec.min : current,
+      );
+    }
+  }
+  return values;
+}
+
+function parseDayOfMonth(field: string): DayOfMonthRules {
+  const rules: DayOfMonthRules = {
+    days: new Set(),
+    lastDayOffsets: [],
+    nearestWeekdays: [],
+    lastWeekday: false,
+  };
+  for (const part of field.split(",")) {
+    const upper = part.toUpperCase();
+    let match: RegExpExecArray | null;
+    if (upper === "LW") {
+      rules.lastWeekday = true;
+    } else if ((match = /^L(?:-(\d+))?$/.exec(upper))) {
+      const offset = Number(match[1] ?? 0);
+      if (offset > 30) {
+        throw new InvalidCronExpressionError(`Invalid day of month: ${part}`);
+      }
+      rules.lastDayOffsets.push(offset);
+    } else if ((match = /^(\d+)W$/.exec(upper))) {
+      rules.nearestWeekdays.push(value(match[1], DAY_OF_MONTH));
+    } else {
+      for (const day of parseValues(part, DAY_OF_MONTH)) {
+        rules.days.add(day);
+      }
+    }
+  }
+  return rules;
+}
+
+function parseDayOfWeek(field: string): DayOfWeekRules {
+  const rules: DayOfWeekRules = { weekdays: new Set(), last: [], nth: [] };
+  const weekday = (text: string) => value(text, DAY_OF_WEEK) % 7;
+  for (const part of field.split(",")) {
+    let match: RegExpExecArray | null;
+    if ((match = /^(\w+)L$/i.exec(part))) {
+      rules.last.push(weekday(match[1]));
+    } else if ((match = /^(\w+)#(\d)$/.exec(part))) {
+      const nth = Number(match[2]);
+      if (nth < 1 || nth > 5) {
+        throw new InvalidCronExpressionError(`Invalid day of week: ${part}`);
+      }
+      rules.nth.push([weekday(match[1]), nth]);
+    } else {
+      for (const day of parseValues(part, DAY_OF_WEEK)) {
+        rules.weekdays.add(day % 7);
+      }
+    }
+  }
+  return rules;
+}
+
+/**
+ * Throws for timezones Intl does not know
+ */
+export function validateTimezone(timezone: string): void {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+  } catch {
+    throw new InvalidCronExpressionError(`Unknown timezone: ${timezone}`);
+  }
+}
+
+export class CronExpression {
+  private seconds: Set<number>;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: DayOfMonthRules;
+  private months: Set<number>;
+  private daysOfWeek: DayOfWeekRules;
+  private years: Set<number> | null;
+  private anyDayOfMonth: boolean;
+  private anyDayOfWeek: boolean;
+  private everyHour: boolean;
+
+  private constructor(readonly source: string) {
+    const expanded = MACROS[source.trim().toLowerCase()] ?? source.trim();
+    const fields = expanded.split(/\s+/);
+    if (fields.length < 5 || fields.length > 7) {
+      throw new InvalidCronExpressionError(
+        `Cron expression must have 5, 6 or 7 fields: "${source}"`,
+      );
+    }
+    if (fields.length === 5) {
+      fields.unshift("0");
+    }
+    const [second, minute, hour, dayOfMonth, month, dayOfWeek, year] = fields;
+
+    this.seconds = parseValues(second, SECOND);
+    this.minutes = parseValues(minute, MINUTE);
+    this.hours = parseValues(hour, HOUR);
+    this.daysOfMonth = parseDayOfMonth(dayOfMonth);
+    this.months = parseValues(month, MONTH);
+    this.daysOfWeek = parseDayOfWeek(dayOfWeek);
+    this.years = year ? parseValues(year, YEAR) : null;
+    this.anyDayOfMonth = dayOfMonth === "*" || dayOfMonth === "?";
+    this.anyDayOfWeek = dayOfWeek === "*" || dayOfWeek === "?";
+    this.everyHour = this.hours.size === 24;
+  }
+
+  static parse(expression: string): CronExpression {
+    return new CronExpression(expression);
+  }
+
+  static isValid(expression: string): boolean {
+    try {
+      CronExpression.parse(expression);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * First run strictly after `after`, or null when the expression never
+   * fires again
+   */
+  next(after: Date, timezone = "UTC"): Date | null {
+    const instant = after.getTime();
+    const offsets = [instant - DAY, instant, instant + DAY].map(
+      (probe) => wallTime(probe, timezone) - probe,
+    );
+    const minOffset = Math.min(...offsets);
+    const maxOffset = Math.max(...offsets);
+
+    // Around a DST fall-back wall order differs from instant order: scan
+    // every wall that can map after `after` and keep the earliest instant
+    let wall = Math.floor((instant + minOffset) / 1000) * 1000;
+    let best: number | null = null;
+    while (best === null || wall - maxOffset < best) {
+      const candidate = this.nextWall(wall);
+      if (candidate === null) {
+        break;
+      }
+      for (const run of this.instants(candidate, timezone)) {
+        if (run > instant && (best === null || run < best)) {
+          best = run;
+        }
+      }
+      wall = candidate + 1000;
+    }
+    return best === null ? null : new Date(best);
+  }
+
+  /**
+   * The next `count` runs after `after`
+   */
+  nextRuns(after: Date, count: number, timezone = "UTC"): Date[] {
+    const runs: Date[] = [];
+    let cursor: Date | null = after;
+    while (runs.length < count && (cursor = this.next(cursor, timezone))) {
+      runs.push(cursor);
+    }
+    return runs;
+  }
+
+  /**
+   * Runs in (from, to], at most `limit`
+   */
+  between(from: Date, to: Date, timezone = "UTC", limit = 1000): Date[] {
+    const runs: Date[] = [];
+    let cursor: Date | null = from;
+    while (
+      runs.length < limit &&
+      (cursor = this.next(cursor, timezone)) &&
+      cursor <= to
+    ) {
+      runs.push(cursor);
+    }
+    return runs;
+  }
+
+  /**
+   * Instants of a matching wall time: none when a DST gap swallowed it (the
+   * run moves past the jump), two in a repeated hour when the hour field is *
+   */
+  private instants(wall: number, timezone: string): number[] {
+    const offsets = new Set(
+      [wall - DAY, wall + DAY].map(
+        (probe) => wallTime(probe, timezone) - probe,
+      ),
+    );
+    const instants = [...offsets]
+      .map((offset) => wall - offset)
+      .filter((instant) => wallTime(instant, timezone) === wall)
+      .sort((a, b) => a - b);
+
+    if (instants.length === 0) {
+      return [wallToInstant(wall, timezone)];
+    }
+    return this.everyHour ? instants : instants.slice(0, 1);
+  }
+
+  /**
+   * Earliest matching wall time at or after `wall`
+   */
+  private nextWall(wall: number): number | null {
+    const startYear = new Date(wall).getUTCFullYear();
+    const lastYear = this.years
+      ? Math.max(...this.years)
+      : startYear + SEARCH_YEARS;
+
+    let date = new Date(wall);
+    while (date.getUTCFullYear() <= lastYear) {
+      const year = date.getUTCFullYear();
+      const month = date.getUTCMonth() + 1;
+      const day = date.getUTCDate();
+      const hour = date.getUTCHours();
+      const minute = date.getUTCMinutes();
+
+      if (this.years && !this.years.has(year)) {
+        date = new Date(Date.UTC(year + 1, 0, 1));
+      } else if (!this.months.has(month)) {
+        date = new Date(Date.UTC(year, month, 1));
+      } else if (!this.matchesDay(year, month, day)) {
+        date = new Date(Date.UTC(year, month - 1, day + 1));
+      } else if (!this.hours.has(hour)) {
+        date = new Date(Date.UTC(year, month - 1, day, hour + 1));
+      } else if (!this.minutes.has(minute)) {
+        date = new Date(Date.UTC(year, month - 1, day, hour, minute + 1));
+      } else if (!this.seconds.has(date.getUTCSeconds())) {
+        date = new Date(date.getTime() + 1000);
+      } else {
+        return date.getTime();
+      }
+    }
+    return null;
+  }
+
+  private matchesDay(year: number, month: number, day: number): boolean {
+    if (this.anyDayOfMonth && this.anyDayOfWeek) {
+      return true;
+    }
+    if (this.anyDayOfWeek) {
+      return this.matchesDayOfMonth(year, month, day);
+    }
+    if (this.anyDayOfMonth) {
+      return this.matchesDayOfWeek(year, month, day);
+    }
+    return (
+      this.matchesDayOfMonth(year, month, day) ||
+      this.matchesDayOfWeek(year, month, day)
+    );
+  }
+
+  private matchesDayOfMonth(year: number, month: number, day: number): boolean {
+    const rules = this.daysOfMonth;
+    if (rules.days.has(day)) {
+      return true;
+    }
+    const lastDay = daysInMonth(year, month);
+    if (rules.lastDayOffsets.some((offset) => lastDay - offset === day)) {
+      return true;
+    }
+    if (rules.lastWeekday && nearestWeekday(year, month, lastDay) === day) {
+      return true;
+    }
+    return rules.nearestWeekdays.some(
+      (target) =>
+        target <= lastDay && nearestWeekday(year, month, target) === day,
+    );
+  }
+
+  private matchesDayOfWeek(year: number, month: number, day: number): boolean {
+    const rules = this.daysOfWeek;
+    const weekday = weekdayOf(year, month, day);
+    if (rules.weekdays.has(weekday)) {
+      return true;
+    }
+    if (rules.last.includes(weekday) && day + 7 > daysInMonth(year, month)) {
+      return true;
+    }
+    return rules.nth.some(
+      ([target, nth]) => target === weekday && Math.ceil(day / 7) === nth,
+    );
+  }
+}
+
+/**
+ * Weekday closest to `target` without leaving the month (Quartz "W")
+ */
+function nearestWeekday(year: number, month: number, target: number): number {
+  const weekday = weekdayOf(year, month, target);
+  if (weekday === 6) {
+    return target === 1 ? 3 : target - 1;
+  }
+  if (weekday === 0) {
+    return target === daysInMonth(year, month) ? target - 2 : target + 1;
+  }
+  return target;
+}
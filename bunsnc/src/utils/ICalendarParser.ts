@@ -0,0 +1,273 @@
+/**
+ * iCalendar Parser - Turn .ics events into schedule spans
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * Covers what holiday and shift calendars use: all-day and timed VEVENTs,
+ * TZID/UTC/floating times, DURATION, and DAILY/WEEKLY/YEARLY RRULEs with
+ * BYDAY, UNTIL or COUNT. Events it cannot represent are reported, not guessed.
+ */
+
+import type { ScheduleSpan } from "../types/ContractualSLA";
+import {
+  DAY,
+  HOUR,
+  MINUTE,
+  formatWallTime,
+  parseWallTime,
+  spanOccursOn,
+  wallTime,
+  wallToInstant,
+} from "./BusinessSchedule";
+
+export interface ICalendarParseOptions {
+  timezone?: string; // schedule timezone (default: X-WR-TIMEZONE, then UTC)
+  type?: ScheduleSpan["type"]; // default "exclude", as for holiday calendars
+}
+
+export interface ICalendarParseResult {
+  name?: string; // X-WR-CALNAME
+  timezone: string;
+  spans: ScheduleSpan[];
+  skipped: Array<{ summary: string; reason: string }>;
+}
+
+interface Property {
+  params: Record<string, string>;
+  value: string;
+}
+
+const BYDAY: Record<string, number> = {
+  SU: 0,
+  MO: 1,
+  TU: 2,
+  WE: 3,
+  TH: 4,
+  FR: 5,
+  SA: 6,
+};
+const FREQUENCIES: Record<string, "daily" | "weekly" | "yearly"> = {
+  DAILY: "daily",
+  WEEKLY: "weekly",
+  YEARLY: "yearly",
+};
+const PROPERTY = /^([A-Za-z0-9-]+)((?:;[^:;=]+=(?:"[^"]*"|[^:;"]*))*):(.*)$/;
+const PARAM = /;([^:;=]+)=("[^"]*"|[^:;"]*)/g;
+const DATE_TIME = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/;
+const DURATION =
+  /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) =>
+    c === "n" || c === "N" ? "\n" : c,
+  );
+}
+
+function parseProperty(line: string): [string, Property] | null {
+  const match = PROPERTY.exec(line);
+  if (!match) {
+    return null;
+  }
+  const params: Record<string, string> = {};
+  for (const [, key, value] of match[2].matchAll(PARAM)) {
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, "");
+  }
+  return [match[1].toUpperCase(), { params, value: match[3] }];
+}
+
+/**
+ * DTSTART/DTEND/UNTIL as wall ms in the schedule timezone
+ */
+function toWall(
+  property: Property,
+  timezone: string,
+): { wall: number; allDay: boolean } {
+  const match = DATE_TIME.exec(property.value.trim());
+  if (!match) {
+    throw new Error(`invalid date ${property.value}`);
+  }
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const wall = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour ?? 0),
+    Number(minute ?? 0),
+    Number(second ?? 0),
+  );
+  if (hour === undefined || property.params.VALUE === "DATE") {
+    return { wall, allDay: true };
+  }
+  if (utc) {
+    return { wall: wallTime(wall, timezone), allDay: false };
+  }
+  const source = property.params.TZID;
+  if (source && source !== timezone) {
+    return {
+      wall: wallTime(wallToInstant(wall, source), timezone),
+      allDay: false,
+    };
+  }
+  return { wall, allDay: false }; // floating time
+}
+
+function parseDuration(value: string): number {
+  const match = DURATION.exec(value.trim());
+  if (!match) {
+    throw new Error(`invalid duration ${value}`);
+  }
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const duration =
+    Number(weeks ?? 0) * 7 * DAY +
+    Number(days ?? 0) * DAY +
+    Number(hours ?? 0) * HOUR +
+    Number(minutes ?? 0) * MINUTE +
+    Number(seconds ?? 0) * 1000;
+  return sign === "-" ? -duration : duration;
+}
+
+function toSpan(
+  event: Map<string, Property>,
+  options: Required<ICalendarParseOptions>,
+): ScheduleSpan {
+  const dtstart = event.get("DTSTART");
+  if (!dtstart) {
+    throw new Error("no DTSTART");
+  }
+  const start = toWall(dtstart, options.timezone);
+  const dtend = event.get("DTEND");
+  const duration = event.get("DURATION");
+  const end = dtend
+    ? toWall(dtend, options.timezone).wall
+    : start.wall +
+      (duration ? parseDuration(duration.value) : start.allDay ? DAY : 0);
+  if (end <= start.wall) {
+    throw new Error("empty event");
+  }
+
+  const summary = event.get("SUMMARY");
+  const span: ScheduleSpan = {
+    type: options.type,
+    start: formatWallTime(start.wall),
+    end: formatWallTime(end),
+  };
+  if (summary) {
+    span.name = unescapeText(summary.value);
+  }
+
+  const rrule = event.get("RRULE");
+  if (rrule) {
+    const rule = Object.fromEntries(
+      rrule.value.split(";").map((part) => part.split("=")),
+    ) as Record<string, string>;
+    const frequency = FREQUENCIES[rule.FREQ];
+    if (!frequency) {
+      throw new Error(`unsupported RRULE frequency ${rule.FREQ}`);
+    }
+    if (rule.INTERVAL && rule.INTERVAL !== "1") {
+      throw new Error("unsupported RRULE INTERVAL");
+    }
+    if (rule.BYMONTH || rule.BYMONTHDAY || rule.BYSETPOS) {
+      throw new Error("unsupported RRULE");
+    }
+
+    span.repeat = { frequency };
+    if (rule.BYDAY) {
+      if (frequency !== "weekly") {
+        throw new Error(`unsupported BYDAY on ${rule.FREQ}`);
+      }
+      span.repeat.days = rule.BYDAY.split(",").map((day) => {
+        if (!(day in BYDAY)) {
+          throw new Error(`unsupported BYDAY ${day}`);
+        }
+        return BYDAY[day];
+      });
+    }
+    if (rule.UNTIL) {
+      const until = toWall({ params: {}, value: rule.UNTIL }, options.timezone);
+      span.repeat.until = formatWallTime(until.wall).slice(0, 10);
+    } else if (rule.COUNT) {
+      span.repeat.until = lastOccurrence(span, Number(rule.COUNT));
+    }
+  }
+  return span;
+}
+
+/**
+ * Date of the COUNT-th occurrence
+ */
+function lastOccurrence(span: ScheduleSpan, count: number): string {
+  let day = Math.floor(parseWallTime(span.start) / DAY);
+  for (let found = 0; ; day++) {
+    const date = formatWallTime(day * DAY).slice(0, 10);
+    if (spanOccursOn(span, date) && ++found >= count) {
+      return date;
+    }
+  }
+}
+
+/**
+ * Parse an iCalendar document; every VEVENT becomes one span
+ */
+export function parseICalendar(
+  text: string,
+  options: ICalendarParseOptions = {},
+): ICalendarParseResult {
+  const lines = text
+    .replace(/\r?\n[ \t]/g, "") // unfold continuation lines
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "");
+
+  const calendar = new Map<string, Property>();
+  const events: Array<Map<string, Property>> = [];
+  const stack: string[] = [];
+
+  for (const line of lines) {
+    const parsed = parseProperty(line);
+    if (!parsed) {
+      continue;
+    }
+    const [name, property] = parsed;
+    if (name === "BEGIN") {
+      stack.push(property.value.toUpperCase());
+      if (property.value.toUpperCase() === "VEVENT") {
+        events.push(new Map());
+      }
+    } else if (name === "END") {
+      stack.pop();
+    } else if (stack.at(-1) === "VEVENT") {
+      events.at(-1)!.set(name, property);
+    } else if (stack.at(-1) === "VCALENDAR") {
+      calendar.set(name, property);
+    }
+  }
+
+  const resolved: Required<ICalendarParseOptions> = {
+    timezone: options.timezone ?? calendar.get("X-WR-TIMEZONE")?.value ?? "UTC",
+    type: options.type ?? "exclude",
+  };
+  const result: ICalendarParseResult = {
+    timezone: resolved.timezone,
+    spans: [],
+    skipped: [],
+  };
+  const calendarName = calendar.get("X-WR-CALNAME");
+  if (calendarName) {
+    result.name = unescapeText(calendarName.value);
+  }
+
+  for (const event of events) {
+    if (event.get("STATUS")?.value.toUpperCase() === "CANCELLED") {
+      continue;
+    }
+    try {
+      result.spans.push(toSpan(event, resolved));
+    } catch (error: unknown) {
+      result.skipped.push({
+        summary: unescapeText(event.get("SUMMARY")?.value ?? "(no summary)"),
+        reason: (error as Error).message,
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,95 @@
+/**
+ * TransactionJournal - Persisted state of batched transactions for crash recovery
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { join } from "path";
+import type { TransactionOperation } from "./TransactionManager";
+
+export type TransactionJournalState =
+  | "committing"
+  | "committed"
+  | "rolling_back"
+  | "rolled_back"
+  | "rollback_failed";
+
+export interface TransactionJournalEntry {
+  transactionId: string;
+  name?: string;
+  state: TransactionJournalState;
+  operations: TransactionOperation[];
+  updatedAt: string;
+}
+
+export interface TransactionJournal {
+  save(entry: TransactionJournalEntry): void;
+  load(transactionId: string): TransactionJournalEntry | null;
+  list(): TransactionJournalEntry[];
+  remove(transactionId: string): void;
+}
+
+export class MemoryTransactionJournal implements TransactionJournal {
+  private entries = new Map<string, TransactionJournalEntry>();
+
+  save(entry: TransactionJournalEntry): void {
+    this.entries.set(entry.transactionId, structuredClone(entry));
+  }
+
+  load(transactionId: string): TransactionJournalEntry | null {
+    const entry = this.entries.get(transactionId);
+    return entry ? structuredClone(entry) : null;
+  }
+
+  list(): TransactionJournalEntry[] {
+    return [...this.entries.values()].map((entry) => structuredClone(entry));
+  }
+
+  remove(transactionId: string): void {
+    this.entries.delete(transactionId);
+  }
+}
+
+/**
+ * One JSON file per transaction; written to a temp file and renamed so a
+ * crash mid-write never leaves a truncated journal
+ */
+export class FileTransactionJournal implements TransactionJournal {
+  constructor(private readonly directory: string) {
+    mkdirSync(directory, { recursive: true });
+  }
+
+  save(entry: TransactionJournalEntry): void {
+    const path = this.pathFor(entry.transactionId);
+    writeFileSync(`${path}.tmp`, JSON.stringify(entry, null, 2));
+    renameSync(`${path}.tmp`, path);
+  }
+
+  load(transactionId: string): TransactionJournalEntry | null {
+    const path = this.pathFor(transactionId);
+    return existsSync(path) ? JSON.parse(readFileSync(path, "utf-8")) : null;
+  }
+
+  list(): TransactionJournalEntry[] {
+    return readdirSync(this.directory)
+      .filter((file) => file.endsWith(".json"))
+      .map((file) =>
+        JSON.parse(readFileSync(join(this.directory, file), "utf-8")),
+      );
+  }
+
+  remove(transactionId: string): void {
+    rmSync(this.pathFor(transactionId), { force: true });
+  }
+
+  private pathFor(transactionId: string): string {
+    return join(this.directory, `${transactionId}.json`);
+  }
+}
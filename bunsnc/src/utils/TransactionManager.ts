@@ -5,6 +5,12 @@
 import { logger } from "./Logger";
 import { performanceMonitor } from "./PerformanceMonitor";
 import type { ServiceNowRecord } from "../types/servicenow";
+import type { BatchRequest, BatchResult } from "../api/BatchAPI";
+import type {
+  TransactionJournal,
+  TransactionJournalEntry,
+  TransactionJournalState,
+} from "./TransactionJournal";
 
 export interface TransactionOperation {
   id: string;
@@ -16,6 +22,10 @@ export interface TransactionOperation {
   timestamp: number;
   executed: boolean;
   rollbackData?: any;
+  // Batched commits only: where the operation stands on the instance.
+  // "sent" means the batch call got no answer, so it may or may not be applied
+  status?: "pending" | "sent" | "applied" | "failed" | "compensated";
+  error?: string;
 }
 
 export interface TransactionOptions {
@@ -28,6 +38,8 @@ export interface TransactionOptions {
     | "repeatable_read"
     | "serializable";
   maxRetries?: number;
+  batchSize?: number; // operations per /api/now/v1/batch call (default 50)
+  journal?: TransactionJournal; // persists batched commits for recover()
 }
 
 export interface TransactionResult {
@@ -42,11 +54,34 @@ export interface TransactionResult {
   rollbackPerformed: boolean;
 }
 
+// Record metadata the instance sets itself; left out when recreating a record
+const SYSTEM_FIELDS = new Set([
+  "sys_created_on",
+  "sys_created_by",
+  "sys_updated_on",
+  "sys_updated_by",
+  "sys_mod_count",
+]);
+
+function toValues(record: ServiceNowRecord): ServiceNowRecord {
+  const values: ServiceNowRecord = {};
+  for (const [field, value] of Object.entries(record)) {
+    values[field] =
+      value && typeof value === "object" && "value" in value
+        ? value.value
+        : value;
+  }
+  return values;
+}
+
 export class Transaction {
   private operations: TransactionOperation[] = [];
   private executed = false;
   private rolledBack = false;
   private startTime: number;
+  private batchAPI?: {
+    executeBatch(requests: BatchRequest[]): Promise<BatchResult[]>;
+  };
 
   constructor(
     public readonly id: string,
@@ -55,12 +90,38 @@ export class Transaction {
   ) {
     this.startTime = performance.now();
 
+    // ServiceNowClient or BatchAPI: commit through the Batch API with
+    // before-images and compensating rollback
+    const batch =
+      typeof client?.executeBatch === "function" ? client : client?.batch;
+    if (typeof batch?.executeBatch === "function") {
+      this.batchAPI = batch;
+    }
+
     logger.debug("Transaction started", "Transaction", {
       transactionId: this.id,
       options: this.options,
     });
   }
 
+  /**
+   * Rebuild a transaction left behind in a journal (process crash)
+   */
+  static fromJournal(
+    entry: TransactionJournalEntry,
+    client: any,
+    options: TransactionOptions = {},
+  ): Transaction {
+    const transaction = new Transaction(
+      entry.transactionId,
+      { name: entry.name, ...options },
+      client,
+    );
+    transaction.operations = entry.operations;
+    transaction.executed = true;
+    return transaction;
+  }
+
   /**
    * Add a create operation to the transaction
    */
@@ -184,8 +245,15 @@ export class Transaction {
     let rollbackPerformed = false;
 
     try {
+      if (this.batchAPI) {
+        errors.push(...(await this.commitBatched()));
+        if (errors.length > 0) {
+          rollbackPerformed = await this.rollback();
+        }
+      }
+
       // Execute operations in sequence
-      for (const op of this.operations) {
+      for (const op of this.batchAPI ? [] : this.operations) {
         try {
           await this.executeOperation(op);
           op.executed = true;
@@ -285,6 +353,74 @@ export class Transaction {
     }
   }
 
+  /**
+   * Finish a journaled transaction: operations left in doubt by a crash are
+   * checked against the instance, the rest are sent again. Rolls back on failure.
+   */
+  async resume(): Promise<TransactionResult> {
+    if (!this.batchAPI) {
+      throw new Error("Resuming a transaction requires a Batch API client");
+    }
+
+    const operation = logger.operation(
+      "resume_transaction",
+      "transaction",
+      this.id,
+      {
+        pending: this.operations.filter((op) => op.status !== "applied").length,
+      },
+    );
+    const startTime = performance.now();
+
+    // Creates carry their sys_id, so both creates and deletes can be probed
+    const inDoubt = this.operations.filter(
+      (op) => op.status === "sent" && op.type !== "update",
+    );
+    const probes = await this.batchAPI.executeBatch(
+      inDoubt.map((op) => ({
+        id: op.id,
+        method: "GET" as const,
+        table: op.table,
+        sysId: op.sysId,
+      })),
+    );
+    probes.forEach((probe, index) => {
+      const op = inDoubt[index];
+      const missing = probe.statusCode === 404;
+      if (op.type === "create" ? probe.success : missing) {
+        op.status = "applied";
+        op.executed = true;
+        op.rollbackData = { sysId: op.sysId };
+      } else if (op.type === "create" ? missing : probe.success) {
+        op.status = "pending";
+      }
+    });
+
+    const errors = await this.applyPending();
+    let rollbackPerformed = false;
+    if (errors.length > 0) {
+      rollbackPerformed = await this.rollback();
+      operation.error(
+        "Resumed transaction failed and rolled back",
+        new Error(`${errors.length} operation(s) failed`),
+      );
+    } else {
+      this.writeJournal("committed");
+      operation.success("Resumed transaction committed", {
+        operations: this.operations.length,
+      });
+    }
+
+    return {
+      transactionId: this.id,
+      success: errors.length === 0,
+      operations: this.operations.length,
+      duration: performance.now() - startTime,
+      errors,
+      rollbackPerformed,
+    };
+  }
+
   /**
    * Rollback all executed operations
    */
@@ -310,10 +446,14 @@ export class Transaction {
     let rollbackSuccess = true;
 
     try {
+      if (this.batchAPI) {
+        rollbackSuccess = await this.compensateBatched();
+      }
+
       // Rollback operations in reverse order
-      const executedOperations = this.operations
-        .filter((op) => op.executed)
-        .reverse();
+      const executedOperations = this.batchAPI
+        ? []
+        : this.operations.filter((op) => op.executed).reverse();
 
       for (const op of executedOperations) {
         try {
@@ -375,6 +515,246 @@ export class Transaction {
     };
   }
 
+  /**
+   * Batched commit: snapshot before-images, then apply operations
+   * batchSize at a time, journaling each step
+   */
+  private async commitBatched(): Promise<
+    Array<{ operationId: string; error: string }>
+  > {
+    for (const op of this.operations) {
+      op.status = op.status || "pending";
+      // A known sys_id lets compensation and recovery find created records
+      if (op.type === "create" && !op.sysId) {
+        op.sysId = op.data?.sys_id || crypto.randomUUID().replace(/-/g, "");
+      }
+    }
+
+    // Nothing is written when a before-image cannot be read
+    const unsnapshotted = this.operations.filter(
+      (op) => op.type !== "create" && !op.originalData,
+    );
+    const snapshots = await this.batchAPI!.executeBatch(
+      unsnapshotted.map((op) => ({
+        id: op.id,
+        method: "GET" as const,
+        table: op.table,
+        sysId: op.sysId,
+      })),
+    );
+    const errors: Array<{ operationId: string; error: string }> = [];
+    snapshots.forEach((snapshot, index) => {
+      if (snapshot.success && snapshot.result) {
+        unsnapshotted[index].originalData = toValues(snapshot.result);
+      } else {
+        errors.push({
+          operationId: snapshot.id,
+          error: `Could not read before-image: ${snapshot.error || "record not found"}`,
+        });
+      }
+    });
+    if (errors.length > 0) {
+      return errors;
+    }
+
+    const applyErrors = await this.applyPending();
+    if (applyErrors.length === 0) {
+      this.writeJournal("committed");
+    }
+    return applyErrors;
+  }
+
+  private async applyPending(): Promise<
+    Array<{ operationId: string; error: string }>
+  > {
+    const batchSize = this.options.batchSize || 50;
+    const pending = this.operations.filter(
+      (op) => op.status === "pending" || op.status === "sent",
+    );
+
+    for (let i = 0; i < pending.length; i += batchSize) {
+      const chunk = pending.slice(i, i + batchSize);
+      chunk.forEach((op) => (op.status = "sent"));
+      this.writeJournal("committing");
+
+      const results = await this.batchAPI!.executeBatch(
+        chunk.map((op) => this.toBatchRequest(op)),
+      );
+
+      const errors: Array<{ operationId: string; error: string }> = [];
+      results.forEach((result, index) => {
+        const op = chunk[index];
+        if (result.success) {
+          op.status = "applied";
+          op.executed = true;
+          op.error = undefined;
+          if (op.type === "create") {
+            op.rollbackData = { sysId: result.result?.sys_id || op.sysId };
+          }
+          return;
+        }
+
+        // No status code: the call itself failed and the outcome is unknown
+        op.status = result.statusCode ? "failed" : "sent";
+        op.error = result.error;
+        errors.push({ operationId: op.id, error: result.error || "failed" });
+        logger.error(
+          `Transaction operation failed: ${op.id}`,
+          new Error(op.error),
+          "Transaction",
+          {
+            transactionId: this.id,
+            operationType: op.type,
+            table: op.table,
+            statusCode: result.statusCode,
+          },
+        );
+      });
+      this.writeJournal("committing");
+
+      if (errors.length > 0) {
+        return errors;
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Undo applied and in-doubt operations in reverse order through the Batch API
+   */
+  private async compensateBatched(): Promise<boolean> {
+    const targets = this.operations
+      .filter((op) => op.status === "applied" || op.status === "sent")
+      .reverse();
+    if (targets.length === 0) {
+      this.writeJournal("rolled_back");
+      return true;
+    }
+
+    this.writeJournal("rolling_back");
+    const results = await this.batchAPI!.executeBatch(
+      targets.map((op) => this.toCompensation(op)),
+    );
+
+    let success = true;
+    results.forEach((result, index) => {
+      const op = targets[index];
+      // An in-doubt operation the instance rejects undoing was never applied,
+      // and a created record that is already gone needs no delete
+      const settled =
+        result.success ||
+        (op.status === "sent" && result.statusCode !== undefined) ||
+        (op.type === "create" && result.statusCode === 404);
+
+      if (settled) {
+        op.status = "compensated";
+        return;
+      }
+
+      success = false;
+      op.error = result.error;
+      logger.error(
+        `Rollback failed for operation: ${op.id}`,
+        new Error(result.error),
+        "Transaction",
+        {
+          transactionId: this.id,
+          operationType: op.type,
+          table: op.table,
+        },
+      );
+    });
+
+    this.writeJournal(success ? "rolled_back" : "rollback_failed");
+    return success;
+  }
+
+  private toBatchRequest(op: TransactionOperation): BatchRequest {
+    switch (op.type) {
+      case "create":
+        return {
+          id: op.id,
+          method: "POST",
+          table: op.table,
+          data: { ...op.data, sys_id: op.sysId },
+        };
+      case "update":
+        return {
+          id: op.id,
+          method: "PATCH",
+          table: op.table,
+          sysId: op.sysId,
+          data: op.data,
+        };
+      case "delete":
+        return {
+          id: op.id,
+          method: "DELETE",
+          table: op.table,
+          sysId: op.sysId,
+        };
+    }
+  }
+
+  private toCompensation(op: TransactionOperation): BatchRequest {
+    const id = `${op.id}_undo`;
+    switch (op.type) {
+      case "create":
+        return {
+          id,
+          method: "DELETE",
+          table: op.table,
+          sysId: op.rollbackData?.sysId || op.sysId,
+        };
+      case "update": {
+        // Only the fields this operation touched are put back
+        const restore: ServiceNowRecord = {};
+        for (const field of Object.keys(op.data || {})) {
+          restore[field] = op.originalData?.[field] ?? "";
+        }
+        return {
+          id,
+          method: "PATCH",
+          table: op.table,
+          sysId: op.sysId,
+          data: restore,
+        };
+      }
+      case "delete": {
+        // Recreated with its original sys_id so references keep working
+        const record: ServiceNowRecord = { sys_id: op.sysId };
+        for (const [field, value] of Object.entries(op.originalData || {})) {
+          if (!SYSTEM_FIELDS.has(field)) {
+            record[field] = value;
+          }
+        }
+        return { id, method: "POST", table: op.table, data: record };
+      }
+    }
+  }
+
+  /**
+   * Journal the batched commit; finished transactions leave no entry
+   */
+  private writeJournal(state: TransactionJournalState): void {
+    const journal = this.options.journal;
+    if (!journal) {
+      return;
+    }
+    if (state === "committed" || state === "rolled_back") {
+      journal.remove(this.id);
+      return;
+    }
+    journal.save({
+      transactionId: this.id,
+      name: this.options.name,
+      state,
+      operations: this.operations,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
   private async executeOperation(
     operation: TransactionOperation,
   ): Promise<any> {
@@ -463,6 +843,7 @@ export class TransactionManager {
   private static instance: TransactionManager;
   private transactions: Map<string, Transaction> = new Map();
   private enabled: boolean = true;
+  private journal?: TransactionJournal;
 
   private constructor() {
     logger.debug("TransactionManager initialized", "TransactionManager");
@@ -486,6 +867,13 @@ export class TransactionManager {
     );
   }
 
+  /**
+   * Journal used by batched transactions that do not set their own
+   */
+  setJournal(journal: TransactionJournal | undefined): void {
+    this.journal = journal;
+  }
+
   /**
    * Begin a new transaction
    */
@@ -501,6 +889,7 @@ export class TransactionManager {
       autoCommit: false,
       isolation: "read_committed",
       maxRetries: 3,
+      journal: this.journal,
       ...options,
     };
 
@@ -543,6 +932,55 @@ export class TransactionManager {
     return transaction;
   }
 
+  /**
+   * Settle transactions a crashed process left in the journal. "rollback"
+   * undoes them; "resume" finishes commits that were in progress (a crash
+   * during rollback is always rolled back).
+   */
+  async recover(
+    client: any,
+    action: "resume" | "rollback" = "rollback",
+    journal: TransactionJournal | undefined = this.journal,
+  ): Promise<TransactionResult[]> {
+    if (!journal) {
+      throw new Error("No transaction journal configured");
+    }
+
+    const results: TransactionResult[] = [];
+    for (const entry of journal.list()) {
+      const transaction = Transaction.fromJournal(entry, client, { journal });
+      this.transactions.set(transaction.id, transaction);
+
+      logger.info("Recovering journaled transaction", "TransactionManager", {
+        transactionId: transaction.id,
+        state: entry.state,
+        action,
+      });
+
+      if (action === "resume" && entry.state === "committing") {
+        results.push(await transaction.resume());
+        continue;
+      }
+
+      const startTime = performance.now();
+      const rolledBack = await transaction.rollback();
+      results.push({
+        transactionId: transaction.id,
+        success: false,
+        operations: entry.operations.length,
+        duration: performance.now() - startTime,
+        errors: rolledBack
+          ? []
+          : (journal.load(transaction.id)?.operations ?? [])
+              .filter((op) => op.error && op.status !== "compensated")
+              .map((op) => ({ operationId: op.id, error: op.error! })),
+        rollbackPerformed: rolledBack,
+      });
+    }
+
+    return results;
+  }
+
   /**
    * Get transaction by ID
    */
@@ -0,0 +1,225 @@
+/**
+ * XLSX Writer - Minimal SpreadsheetML workbooks without external dependencies
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ *
+ * Writes strings as inline strings, numbers as numbers and dates as Excel
+ * serials (UTC), with a bold header row, packed in a deflated ZIP.
+ */
+import { deflateRawSync } from "node:zlib";
+
+export type XlsxCell = string | number | boolean | Date | null | undefined;
+
+export interface XlsxSheet {
+  name: string;
+  rows: XlsxCell[][];
+  header?: boolean; // first row in bold
+}
+
+const STYLE_BOLD = 1;
+const STYLE_DATE = 2;
+const EXCEL_EPOCH_DAYS = 25569; // 1970-01-01 as an Excel serial
+
+const CONTENT_TYPES = (sheets: number) =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${Array.from(
+    { length: sheets },
+    (_, i) =>
+      `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+  ).join("")}</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs></styleSheet>`;
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+}
+
+/**
+ * Column letters of a zero-based index: 0 is A, 26 is AA
+ */
+export function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function cell(value: XlsxCell, ref: string, bold: boolean): string {
+  const style = bold ? ` s="${STYLE_BOLD}"` : "";
+  if (value === null || value === undefined || value === "") {
+    return "";
+  }
+  if (value instanceof Date) {
+    const serial = value.getTime() / 86_400_000 + EXCEL_EPOCH_DAYS;
+    return `<c r="${ref}" s="${STYLE_DATE}"><v>${serial}</v></c>`;
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c r="${ref}"${style}><v>${value}</v></c>`;
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${ref}" t="b"${style}><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+function worksheet(sheet: XlsxSheet): string {
+  const rows = sheet.rows
+    .map((row, r) => {
+      const bold = !!sheet.header && r === 0;
+      const cells = row
+        .map((value, c) => cell(value, `${columnName(c)}${r + 1}`, bold))
+        .join("");
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join("");
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows}</sheetData></worksheet>`;
+}
+
+/**
+ * Sheet names: at most 31 characters, none of []:*?/\ and unique
+ */
+function sheetNames(sheets: XlsxSheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((sheet, i) => {
+    const base =
+      sheet.name.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || `Sheet${i + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base.slice(0, 31 - String(n).length - 1)}-${n}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+export function buildXlsx(sheets: XlsxSheet[]): Uint8Array {
+  const names = sheetNames(sheets);
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${names
+    .map(
+      (name, i) =>
+        `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`,
+    )
+    .join("")}</sheets></workbook>`;
+  const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${names
+    .map(
+      (_, i) =>
+        `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`,
+    )
+    .join(
+      "",
+    )}<Relationship Id="rId${names.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+  return zip([
+    { name: "[Content_Types].xml", data: CONTENT_TYPES(sheets.length) },
+    { name: "_rels/.rels", data: ROOT_RELS },
+    { name: "xl/workbook.xml", data: workbook },
+    { name: "xl/_rels/workbook.xml.rels", data: workbookRels },
+    { name: "xl/styles.xml", data: STYLES },
+    ...sheets.map((sheet, i) => ({
+      name: `xl/worksheets/sheet${i + 1}.xml`,
+      data: worksheet(sheet),
+    })),
+  ]);
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * ZIP archive of deflated entries, timestamps fixed at 1980-01-01
+ */
+function zip(entries: Array<{ name: string; data: string }>): Uint8Array {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const raw = encoder.encode(entry.data);
+    const packed = deflateRawSync(raw);
+    const crc = crc32(raw);
+
+    const local = new Uint8Array(30 + name.length + packed.length);
+    const header = new DataView(local.buffer);
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true); // version needed
+    header.setUint16(6, 0x0800, true); // UTF-8 names
+    header.setUint16(8, 8, true); // deflate
+    header.setUint16(10, 0, true); // time
+    header.setUint16(12, 0x21, true); // date: 1980-01-01
+    header.setUint32(14, crc, true);
+    header.setUint32(18, packed.length, true);
+    header.setUint32(22, raw.length, true);
+    header.setUint16(26, name.length, true);
+    header.setUint16(28, 0, true);
+    local.set(name, 30);
+    local.set(packed, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const record = new DataView(central.buffer);
+    record.setUint32(0, 0x02014b50, true);
+    record.setUint16(4, 20, true); // version made by
+    record.setUint16(6, 20, true);
+    record.setUint16(8, 0x0800, true);
+    record.setUint16(10, 8, true);
+    record.setUint16(12, 0, true);
+    record.setUint16(14, 0x21, true);
+    record.setUint32(16, crc, true);
+    record.setUint32(20, packed.length, true);
+    record.setUint32(24, raw.length, true);
+    record.setUint16(28, name.length, true);
+    record.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((total, c) => total + c.length, 0);
+  const end = new Uint8Array(22);
+  const trailer = new DataView(end.buffer);
+  trailer.setUint32(0, 0x06054b50, true);
+  trailer.setUint16(8, entries.length, true);
+  trailer.setUint16(10, entries.length, true);
+  trailer.setUint32(12, centralSize, true);
+  trailer.setUint32(16, offset, true);
+
+  const archive = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of [...locals, ...centrals, end]) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive;
+}
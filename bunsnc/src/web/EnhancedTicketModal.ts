@@ -7,6 +7,7 @@
 import { TicketData } from "../services/ConsolidatedDataService";
 import { ServiceNowNote } from "../services/ConsolidatedServiceNowService";
 import type { HistoryEntry } from "../types/TicketTypes";
+import type { SLATimeline } from "../types/ContractualSLA";
 
 export interface SLAData {
   sys_id: string;
@@ -25,6 +26,7 @@ export interface EnhancedModalProps {
   slaData: SLAData[];
   notes: ServiceNowNote[];
   history: HistoryEntry[];
+  slaTimeline?: SLATimeline | null;
   showRealTime?: boolean;
 }
 
@@ -51,7 +53,7 @@ export class EnhancedTicketModalView {
             
             <!-- SLA Tab -->
             <div id="tab-sla" class="tab-content hidden overflow-y-auto p-6 h-full">
-              ${this.generateSLATab(props.slaData)}
+              ${this.generateSLATab(props.slaData, props.slaTimeline)}
             </div>
             
             <!-- Notas Tab -->
@@ -350,9 +352,15 @@ export class EnhancedTicketModalView {
    * Generate SLA tab content (public for HTMX refresh)
    * Used by ModalRoutes refresh endpoint for partial updates
    */
-  public static generateSLATab(slaData: SLAData[]): string {
+  public static generateSLATab(
+    slaData: SLAData[],
+    timeline?: SLATimeline | null,
+  ): string {
+    const timelineHtml = timeline ? this.generateSLATimeline(timeline) : "";
+
     if (!slaData || slaData.length === 0) {
       return `
+        ${timelineHtml}
         <div class="text-center py-8">
           <svg class="mx-auto h-12 w-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"></path>
@@ -431,6 +439,7 @@ export class EnhancedTicketModalView {
 
     return `
       <div class="space-y-6">
+        ${timelineHtml}
         <div class="flex justify-between items-center">
           <h2 class="text-xl font-bold text-gray-900">Service Level Agreements</h2>
           <div class="flex items-center space-x-4">
@@ -456,6 +465,79 @@ export class EnhancedTicketModalView {
     `;
   }
 
+  /**
+   * Running and paused segments of the SLA clock, with the breach instant
+   */
+  public static generateSLATimeline(timeline: SLATimeline): string {
+    const start = new Date(timeline.start).getTime();
+    const total = Math.max(new Date(timeline.end).getTime() - start, 1);
+    const percent = (date: Date) =>
+      Math.min(
+        Math.max(((new Date(date).getTime() - start) / total) * 100, 0),
+        100,
+      );
+    const label = (segment: SLATimeline["segments"][number]) =>
+      segment.status === "paused"
+        ? `Pausado${segment.reason ? ` (${segment.reason})` : ""}`
+        : "Em execução";
+    const iso = (date: Date) => new Date(date).toISOString();
+
+    const bar = timeline.segments
+      .map(
+        (segment) => `
+          <div class="${segment.status === "paused" ? "bg-yellow-400" : "bg-green-500"} h-full"
+               style="width: ${percent(segment.end) - percent(segment.start)}%"
+               title="${label(segment)}: ${segment.hours}h"></div>`,
+      )
+      .join("");
+
+    const marker = timeline.breached_at
+      ? `<div class="absolute top-0 bottom-0 w-0.5 bg-red-600"
+              style="left: ${percent(timeline.breached_at)}%"
+              title="SLA violado em ${this.formatDateTime(iso(timeline.breached_at))}"></div>`
+      : "";
+
+    const rows = timeline.segments
+      .map(
+        (segment) => `
+          <li class="flex justify-between text-sm">
+            <span class="flex items-center space-x-2">
+              <span class="w-3 h-3 rounded-full ${segment.status === "paused" ? "bg-yellow-400" : "bg-green-500"}"></span>
+              <span class="text-gray-700">${label(segment)}</span>
+            </span>
+            <span class="text-gray-500">
+              ${this.formatDateTime(iso(segment.start))} – ${this.formatDateTime(iso(segment.end))} · ${segment.hours}h
+            </span>
+          </li>`,
+      )
+      .join("");
+
+    const footer = timeline.breached_at
+      ? `<p class="text-sm font-semibold text-red-600">SLA violado em ${this.formatDateTime(iso(timeline.breached_at))}</p>`
+      : timeline.due_at
+        ? `<p class="text-sm text-gray-700">Prazo: ${this.formatDateTime(iso(timeline.due_at))}</p>`
+        : timeline.stopped
+          ? `<p class="text-sm text-gray-500">Relógio parado</p>`
+          : "";
+
+    return `
+      <div class="bg-white border border-gray-200 rounded-lg p-6 space-y-4" id="sla-timeline">
+        <div class="flex justify-between items-center">
+          <h3 class="text-lg font-semibold text-gray-900">Linha do Tempo do SLA</h3>
+          <span class="text-sm text-gray-600">
+            Em execução: ${timeline.running_hours}h · Pausado: ${timeline.paused_hours}h${timeline.sla_hours !== undefined ? ` · SLA: ${timeline.sla_hours}h` : ""}
+          </span>
+        </div>
+        <div class="relative w-full h-4 bg-gray-200 rounded-full overflow-hidden flex">
+          ${bar}
+          ${marker}
+        </div>
+        <ul class="space-y-1">${rows}</ul>
+        ${footer}
+      </div>
+    `;
+  }
+
   /**
    * Generate notes tab content (public for HTMX refresh)
    * Used by ModalRoutes refresh endpoint for partial updates
@@ -6,40 +6,44 @@
 import { Elysia, t } from "elysia";
 import { html } from "@elysiajs/html";
 import { logger } from "../../utils/Logger";
+import { llmGateway } from "../../clients/LLMGateway";
+import { consolidatedServiceNowService } from "../../services";
+import { defaultAgentSessionStore } from "../../services/ai/AgentSessionStore";
+import {
+  ChatSessionService,
+  createChatMessage,
+  generateSessionId,
+  type ChatMessage,
+  type ChatSession,
+  type KnowledgeDocument,
+} from "../../services/ai/ChatSessionService";
 
 const AI_SERVER_URL = process.env.AI_SERVER_URL || "http://localhost:3001";
 
-interface ChatMessage {
-  id: string;
-  role: "user" | "assistant";
-  content: string;
-  timestamp: string;
-  confidence?: number;
-  sources?: string[];
-}
-
-interface ChatSession {
-  sessionId: string;
-  messages: ChatMessage[];
-  context: {
-    agentId?: string;
-    supportGroup?: string;
-    currentTickets?: string[];
-  };
-  created: string;
-}
-
-// In-memory chat sessions (in production, use Redis or database)
-const chatSessions = new Map<string, ChatSession>();
+// Sessions live in Redis, keyed by agent and ticket, so they survive restarts
+const chatSessions = new ChatSessionService({
+  store: defaultAgentSessionStore<ChatSession>("ai-chat"),
+  tickets: consolidatedServiceNowService,
+  llm: llmGateway(),
+  knowledge: searchKnowledgeBase,
+});
 
 export const htmxAIChatRoutes = new Elysia({ prefix: "/ai/chat" })
   .use(html())
 
   // AI Chat Main Interface
   .get("/", async ({ html, query }) => {
-    const sessionId = query.session || generateSessionId();
     const ticketId = query.ticket;
     const agentId = query.agent || "agent_001";
+    const session = await chatSessions
+      .open({ sessionId: query.session, agentId, ticketId })
+      .catch((error: unknown) => {
+        logger.error("[HtmxAIChat] Session open failed:", error);
+        return null;
+      });
+    const sessionId =
+      session?.sessionId || query.session || generateSessionId();
+    const pinned = session?.ticket;
 
     return html(`
       <!DOCTYPE html>
@@ -352,6 +356,13 @@ export const htmxAIChatRoutes = new Elysia({ prefix: "/ai/chat" })
                 <strong>Ticket:</strong> ${ticketId}<br>
                 <strong>Agente:</strong> ${agentId}<br>
                 <strong>Modo:</strong> Assistência Contextual
+                ${
+                  pinned
+                    ? `<br><strong>Notas:</strong> ${pinned.notes.length}<br>
+                <strong>Anexos:</strong> ${pinned.attachments.length}<br>
+                <strong>SLA:</strong> ${pinned.sla ? `${pinned.sla.breached_slas} violado(s) de ${pinned.sla.total_slas}` : "indisponível"}`
+                    : ""
+                }
               </div>
             </div>
             `
@@ -397,11 +408,7 @@ export const htmxAIChatRoutes = new Elysia({ prefix: "/ai/chat" })
             </div>
 
             <div class="chat-input-area">
-              <form hx-post="/ai/chat/message"
-                    hx-target="#chat-messages"
-                    hx-swap="beforeend"
-                    hx-on::before-request="showTyping()"
-                    hx-on::after-request="hideTyping(); this.reset();">
+              <form onsubmit="event.preventDefault(); streamMessage(this);">
                 <input type="hidden" name="session" value="${sessionId}">
                 <input type="hidden" name="agent" value="${agentId}">
                 ${ticketId ? `<input type="hidden" name="ticket" value="${ticketId}">` : ""}
@@ -436,6 +443,44 @@ export const htmxAIChatRoutes = new Elysia({ prefix: "/ai/chat" })
             messagesContainer.scrollTop = messagesContainer.scrollHeight;
           }
 
+          // Streams the answer over SSE, then swaps in the rendered messages
+          function streamMessage(form) {
+            const data = new FormData(form);
+            if (!String(data.get('message') || '').trim()) return;
+            const params = new URLSearchParams();
+            data.forEach(function(value, key) { params.append(key, String(value)); });
+
+            const messagesContainer = document.getElementById('chat-messages');
+            const pending = document.createElement('div');
+            pending.innerHTML =
+              '<div class="message user"><div class="message-avatar">AG</div><div class="message-content"><div class="message-text"></div></div></div>' +
+              '<div class="message assistant"><div class="message-avatar">AI</div><div class="message-content"><div class="message-text" style="white-space: pre-line;"></div></div></div>';
+            pending.querySelector('.user .message-text').textContent = String(data.get('message'));
+            const output = pending.querySelector('.assistant .message-text');
+            messagesContainer.appendChild(pending);
+            form.reset();
+            showTyping();
+
+            const source = new EventSource('/ai/chat/stream?' + params.toString());
+            function finish() {
+              source.close();
+              hideTyping();
+            }
+            source.addEventListener('token', function(event) {
+              output.textContent += JSON.parse(event.data);
+              messagesContainer.scrollTop = messagesContainer.scrollHeight;
+            });
+            source.addEventListener('done', function(event) {
+              pending.outerHTML = JSON.parse(event.data);
+              finish();
+            });
+            source.addEventListener('failure', function(event) {
+              output.textContent = JSON.parse(event.data);
+              finish();
+            });
+            source.onerror = finish;
+          }
+
           // Auto-resize textarea
           document.querySelector('.chat-input').addEventListener('input', function() {
             this.style.height = 'auto';
@@ -457,7 +502,7 @@ export const htmxAIChatRoutes = new Elysia({ prefix: "/ai/chat" })
 
   // Chat History
   .get("/history/:sessionId", async ({ params, html }) => {
-    const session = chatSessions.get(params.sessionId);
+    const session = await chatSessions.get(params.sessionId);
 
     if (!session || session.messages.length === 0) {
       return html(`
@@ -489,21 +534,12 @@ export const htmxAIChatRoutes = new Elysia({ prefix: "/ai/chat" })
       <div class="message ${msg.role}">
         <div class="message-avatar">${msg.role === "user" ? "AG" : "AI"}</div>
         <div class="message-content">
-          <div class="message-text">${msg.content}</div>
+          <div class="message-text">${escapeHtml(msg.content)}</div>
           <div class="message-meta">
             <span>${new Date(msg.timestamp).toLocaleTimeString("pt-BR")}</span>
             ${msg.confidence ? `<span class="confidence-badge">${Math.round(msg.confidence * 100)}%</span>` : ""}
           </div>
-          ${
-            msg.sources && msg.sources.length > 0
-              ? `
-            <div class="source-links">
-              <strong>Fontes:</strong>
-              ${msg.sources.map((source) => `<a href="#" class="source-link">${source}</a>`).join("")}
-            </div>
-          `
-              : ""
-          }
+          ${renderCitations(msg.citations)}
         </div>
       </div>
     `,
@@ -531,63 +567,17 @@ export const htmxAIChatRoutes = new Elysia({ prefix: "/ai/chat" })
           );
         }
 
-        // Get or create session
-        let session = chatSessions.get(sessionId);
-        if (!session) {
-          session = {
-            sessionId,
-            messages: [],
-            context: { agentId, currentTickets: ticketId ? [ticketId] : [] },
-            created: new Date().toISOString(),
-          };
-          chatSessions.set(sessionId, session);
-        }
-
-        // Add user message
-        const userMessage: ChatMessage = {
-          id: generateMessageId(),
-          role: "user",
-          content: message,
-          timestamp: new Date().toISOString(),
-        };
-        session.messages.push(userMessage);
-
-        // Get AI response
-        const aiResponse = await getAIResponse(message, session);
-        session.messages.push(aiResponse);
+        // Session of the agent on the ticket, with its pinned context
+        const session = await chatSessions.open({
+          sessionId,
+          agentId: agentId || "agent_001",
+          ticketId,
+        });
+        const { question: userMessage, answer: aiResponse } =
+          await chatSessions.ask(session, message);
 
         // Return both messages
-        return html(`
-        <div class="message user">
-          <div class="message-avatar">AG</div>
-          <div class="message-content">
-            <div class="message-text">${userMessage.content}</div>
-            <div class="message-meta">
-              <span>${new Date(userMessage.timestamp).toLocaleTimeString("pt-BR")}</span>
-            </div>
-          </div>
-        </div>
-        <div class="message assistant">
-          <div class="message-avatar">AI</div>
-          <div class="message-content">
-            <div class="message-text">${aiResponse.content}</div>
-            <div class="message-meta">
-              <span>${new Date(aiResponse.timestamp).toLocaleTimeString("pt-BR")}</span>
-              ${aiResponse.confidence ? `<span class="confidence-badge">${Math.round(aiResponse.confidence * 100)}%</span>` : ""}
-            </div>
-            ${
-              aiResponse.sources && aiResponse.sources.length > 0
-                ? `
-              <div class="source-links">
-                <strong>Fontes:</strong>
-                ${aiResponse.sources.map((source) => `<a href="#" class="source-link">${source}</a>`).join("")}
-              </div>
-            `
-                : ""
-            }
-          </div>
-        </div>
-      `);
+        return html(renderExchange(userMessage, aiResponse));
       } catch (error: unknown) {
         logger.error("[HtmxAIChat] Message processing failed:", error);
         return html(`
@@ -616,6 +606,18 @@ export const htmxAIChatRoutes = new Elysia({ prefix: "/ai/chat" })
     },
   )
 
+  // Streamed answer (SSE): "token" events while the model writes, then
+  // "done" with the rendered messages
+  .get("/stream", ({ query, set }) => {
+    set.headers = {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    };
+
+    return createAnswerStream(query as Record<string, string | undefined>);
+  })
+
   // Quick Actions
   .post(
     "/quick-action",
@@ -722,42 +724,27 @@ export const htmxAIChatRoutes = new Elysia({ prefix: "/ai/chat" })
           return html('<div style="color: red;">Ação não encontrada</div>');
         }
 
-        // Get or create session
-        let session = chatSessions.get(sessionId);
-        if (!session) {
-          session = {
-            sessionId,
-            messages: [],
-            context: {},
-            created: new Date().toISOString(),
-          };
-          chatSessions.set(sessionId, session);
-        }
+        const session =
+          (await chatSessions.get(sessionId)) ??
+          (await chatSessions.open({ sessionId, agentId: "agent_001" }));
 
         // Add messages to session
-        const userMessage: ChatMessage = {
-          id: generateMessageId(),
-          role: "user",
-          content: actionData.message,
-          timestamp: new Date().toISOString(),
-        };
-
-        const aiMessage: ChatMessage = {
-          id: generateMessageId(),
-          role: "assistant",
-          content: actionData.response,
-          timestamp: new Date().toISOString(),
+        const userMessage = createChatMessage("user", actionData.message);
+        const aiMessage = createChatMessage("assistant", actionData.response, {
           confidence: 0.95,
-          sources: ["Knowledge Base", "SLA Database", "Operational Procedures"],
-        };
-
-        session.messages.push(userMessage, aiMessage);
+          citations: [
+            "Knowledge Base",
+            "SLA Database",
+            "Operational Procedures",
+          ].map((label) => ({ type: "kb" as const, ref: label, label })),
+        });
+        await chatSessions.record(session, userMessage, aiMessage);
 
         return html(`
         <div class="message user">
           <div class="message-avatar">AG</div>
           <div class="message-content">
-            <div class="message-text">${userMessage.content}</div>
+            <div class="message-text">${escapeHtml(userMessage.content)}</div>
             <div class="message-meta">
               <span>${new Date(userMessage.timestamp).toLocaleTimeString("pt-BR")}</span>
             </div>
@@ -766,15 +753,12 @@ export const htmxAIChatRoutes = new Elysia({ prefix: "/ai/chat" })
         <div class="message assistant">
           <div class="message-avatar">AI</div>
           <div class="message-content">
-            <div class="message-text" style="white-space: pre-line;">${aiMessage.content}</div>
+            <div class="message-text" style="white-space: pre-line;">${escapeHtml(aiMessage.content)}</div>
             <div class="message-meta">
               <span>${new Date(aiMessage.timestamp).toLocaleTimeString("pt-BR")}</span>
               <span class="confidence-badge">${Math.round(aiMessage.confidence! * 100)}%</span>
             </div>
-            <div class="source-links">
-              <strong>Fontes:</strong>
-              ${aiMessage.sources!.map((source) => `<a href="#" class="source-link">${source}</a>`).join("")}
-            </div>
+            ${renderCitations(aiMessage.citations)}
           </div>
         </div>
       `);
@@ -794,86 +778,123 @@ export const htmxAIChatRoutes = new Elysia({ prefix: "/ai/chat" })
   );
 
 // Helper functions
-function generateSessionId(): string {
-  return `chat_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+function renderExchange(
+  userMessage: ChatMessage,
+  aiResponse: ChatMessage,
+): string {
+  return `
+        <div class="message user">
+          <div class="message-avatar">AG</div>
+          <div class="message-content">
+            <div class="message-text">${escapeHtml(userMessage.content)}</div>
+            <div class="message-meta">
+              <span>${new Date(userMessage.timestamp).toLocaleTimeString("pt-BR")}</span>
+            </div>
+          </div>
+        </div>
+        <div class="message assistant">
+          <div class="message-avatar">AI</div>
+          <div class="message-content">
+            <div class="message-text">${escapeHtml(aiResponse.content)}</div>
+            <div class="message-meta">
+              <span>${new Date(aiResponse.timestamp).toLocaleTimeString("pt-BR")}</span>
+              ${aiResponse.confidence ? `<span class="confidence-badge">${Math.round(aiResponse.confidence * 100)}%</span>` : ""}
+            </div>
+            ${renderCitations(aiResponse.citations)}
+          </div>
+        </div>
+      `;
 }
 
-function generateMessageId(): string {
-  return `msg_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+function renderCitations(citations?: ChatMessage["citations"]): string {
+  if (!citations || citations.length === 0) {
+    return "";
+  }
+  return `
+    <div class="source-links">
+      <strong>Fontes:</strong>
+      ${citations.map((citation) => `<a href="#" class="source-link" title="${escapeHtml(`${citation.type}: ${citation.ref}`)}">${escapeHtml(citation.label)}</a>`).join("")}
+    </div>
+  `;
 }
 
-async function getAIResponse(
-  message: string,
-  session: ChatSession,
-): Promise<ChatMessage> {
-  try {
-    // Try to get response from AI API
-    const response = await fetch(`${AI_SERVER_URL}/api/search/intelligent`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        query: message,
-        max_results: 3,
-        targets: ["documents", "tickets"],
-        enable_reranking: true,
-      }),
-    });
+// Message text, citations and ticket notes are user or model content
+function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
 
-    if (response.ok) {
-      const searchData = await response.json();
+function createAnswerStream(
+  query: Record<string, string | undefined>,
+): ReadableStream {
+  const encoder = new TextEncoder();
 
-      if (searchData.success && searchData.data.results.length > 0) {
-        const results = searchData.data.results.slice(0, 2);
-        const sources = results.map(
-          (r: any) => r.title || `${r.type} resultado`,
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: string) =>
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`),
         );
 
-        let aiContent = `Com base na base de conhecimento, encontrei as seguintes informações:\n\n`;
-
-        results.forEach((result: any, index: number) => {
-          aiContent += `**${index + 1}. ${result.title || "Documento"}**\n`;
-          aiContent += `${result.content?.substring(0, 300) || "Conteúdo não disponível"}...\n\n`;
+      try {
+        if (!query.session || !query.message) {
+          send("failure", "Erro: Sessão ou mensagem inválida");
+          return;
+        }
+        const session = await chatSessions.open({
+          sessionId: query.session,
+          agentId: query.agent || "agent_001",
+          ticketId: query.ticket,
         });
-
-        aiContent += `Esta resposta foi gerada com base em ${results.length} documento(s) da base de conhecimento.`;
-
-        return {
-          id: generateMessageId(),
-          role: "assistant",
-          content: aiContent,
-          timestamp: new Date().toISOString(),
-          confidence: 0.85,
-          sources,
-        };
+        const { question, answer } = await chatSessions.ask(
+          session,
+          query.message,
+          (token) => send("token", token),
+        );
+        send("done", renderExchange(question, answer));
+      } catch (error: unknown) {
+        logger.error("[HtmxAIChat] Streamed answer failed:", error as Error);
+        send(
+          "failure",
+          "Desculpe, ocorreu um erro ao processar sua mensagem. Tente novamente.",
+        );
+      } finally {
+        controller.close();
       }
-    }
-
-    // Fallback response
-    return {
-      id: generateMessageId(),
-      role: "assistant",
-      content: `Entendi sua pergunta sobre "${message}".
-
-Infelizmente, não encontrei informações específicas na base de conhecimento no momento. Posso sugerir:
+    },
+  });
+}
 
-1. **Verificar documentação técnica** relacionada ao tópico
-2. **Consultar tickets similares** no histórico
-3. **Contatar especialista** da área correspondente
+/**
+ * Knowledge base documents for the chat, from the AI server's intelligent search
+ */
+async function searchKnowledgeBase(
+  query: string,
+): Promise<KnowledgeDocument[]> {
+  const response = await fetch(`${AI_SERVER_URL}/api/search/intelligent`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      query,
+      max_results: 3,
+      targets: ["documents", "tickets"],
+      enable_reranking: true,
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`AI search failed: ${response.status}`);
+  }
 
-Posso ajudá-lo de outra forma? Tente ser mais específico sobre o problema ou tecnologia.`,
-      timestamp: new Date().toISOString(),
-      confidence: 0.6,
-    };
-  } catch (error: unknown) {
-    logger.error("[HtmxAIChat] AI response generation failed:", error);
-
-    return {
-      id: generateMessageId(),
-      role: "assistant",
-      content:
-        "Desculpe, estou enfrentando dificuldades técnicas no momento. Tente novamente em alguns instantes ou contate o suporte se o problema persistir.",
-      timestamp: new Date().toISOString(),
-      confidence: 0.1,
-    };
+  const searchData = await response.json();
+  if (!searchData.success) {
+    return [];
   }
+  return searchData.data.results.map((result: any) => ({
+    title: result.title || `${result.type} resultado`,
+    content: result.content || "",
+  }));
 }
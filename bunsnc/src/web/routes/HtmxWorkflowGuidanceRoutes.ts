@@ -11,6 +11,11 @@ import { EmbeddingClient } from "../../clients/EmbeddingClient";
 import { RerankClient } from "../../clients/RerankClient";
 import { OpenSearchClient } from "../../clients/OpenSearchClient";
 import { ServiceNowAuthClient } from "../../services/ServiceNowAuthClient";
+import {
+  defaultAgentSessionStore,
+  type AgentSession,
+} from "../../services/ai/AgentSessionStore";
+import { ticketTable } from "../../services/ai/ChatSessionService";
 import { logger } from "../../utils/Logger";
 
 interface WorkflowStep {
@@ -25,19 +30,18 @@ interface WorkflowStep {
   next_steps?: string[];
 }
 
-interface WorkflowSession {
-  sessionId: string;
+interface WorkflowSession extends AgentSession {
   ticketId: string;
   workflowType: string;
   currentStep: number;
   steps: WorkflowStep[];
   completedSteps: string[];
   agentNotes: string[];
-  created: string;
-  lastUpdated: string;
 }
 
-const workflowSessions = new Map<string, WorkflowSession>();
+// Shared by the replicas, so a session survives restarts
+const workflowSessions =
+  defaultAgentSessionStore<WorkflowSession>("workflow-guidance");
 
 const llmClient = new LLMClient();
 const embeddingClient = new EmbeddingClient();
@@ -55,9 +59,11 @@ export const workflowGuidanceRoutes = new Elysia({ prefix: "/workflow" })
 
   // Workflow Dashboard
   .get("/dashboard", async ({ html }) => {
-    const activeSessions = Array.from(workflowSessions.values())
+    const sessions = await workflowSessions.list(200);
+    const activeSessions = sessions
       .filter((session) => session.completedSteps.length < session.steps.length)
       .slice(0, 10);
+    const today = new Date().toISOString().slice(0, 10);
 
     return html(`
       <div class="workflow-container">
@@ -65,7 +71,7 @@ export const workflowGuidanceRoutes = new Elysia({ prefix: "/workflow" })
           <h1> Agent Workflow Guidance</h1>
           <div class="workflow-stats">
             <span class="stat">Active Sessions: ${activeSessions.length}</span>
-            <span class="stat">Today: ${workflowSessions.size}</span>
+            <span class="stat">Today: ${sessions.filter((session) => session.created.startsWith(today)).length}</span>
           </div>
         </div>
 
@@ -181,6 +187,7 @@ export const workflowGuidanceRoutes = new Elysia({ prefix: "/workflow" })
         workflowType,
         priority = "medium",
         description = "",
+        agentId,
       } = body as any;
 
       const sessionId = `wf_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -188,13 +195,7 @@ export const workflowGuidanceRoutes = new Elysia({ prefix: "/workflow" })
       // Get ticket details from ServiceNow
       let ticketDetails = null;
       try {
-        const table = ticketId.startsWith("INC")
-          ? "incident"
-          : ticketId.startsWith("CHG")
-            ? "change_request"
-            : ticketId.startsWith("SCTASK")
-              ? "sc_task"
-              : "incident";
+        const table = ticketTable(ticketId);
 
         const response = await serviceNowClient.makeRequest(
           "GET",
@@ -222,6 +223,7 @@ export const workflowGuidanceRoutes = new Elysia({ prefix: "/workflow" })
 
       const session: WorkflowSession = {
         sessionId,
+        agentId,
         ticketId,
         workflowType,
         currentStep: 0,
@@ -232,7 +234,7 @@ export const workflowGuidanceRoutes = new Elysia({ prefix: "/workflow" })
         lastUpdated: new Date().toISOString(),
       };
 
-      workflowSessions.set(sessionId, session);
+      await workflowSessions.save(session);
 
       logger.info(
         `Created workflow session ${sessionId} for ticket ${ticketId}`,
@@ -273,7 +275,7 @@ export const workflowGuidanceRoutes = new Elysia({ prefix: "/workflow" })
 
   // Get Workflow Session
   .get("/session/:sessionId", async ({ params, html }) => {
-    const session = workflowSessions.get(params.sessionId);
+    const session = await workflowSessions.get(params.sessionId);
     if (!session) {
       return html(`<div class="error">Workflow session not found</div>`);
     }
@@ -313,7 +315,7 @@ export const workflowGuidanceRoutes = new Elysia({ prefix: "/workflow" })
     "/step/:sessionId/:stepIndex/:action",
     async ({ params, body, html }) => {
       const { sessionId, stepIndex, action } = params;
-      const session = workflowSessions.get(sessionId);
+      const session = await workflowSessions.get(sessionId);
 
       if (!session) {
         return html(`<div class="error">Session not found</div>`);
@@ -339,6 +341,7 @@ export const workflowGuidanceRoutes = new Elysia({ prefix: "/workflow" })
         }
 
         session.lastUpdated = new Date().toISOString();
+        await workflowSessions.save(session);
 
         if (session.completedSteps.length === session.steps.length) {
           return html(`
@@ -363,7 +366,7 @@ export const workflowGuidanceRoutes = new Elysia({ prefix: "/workflow" })
 
   // Add Agent Note
   .post("/note/:sessionId", async ({ params, body, html }) => {
-    const session = workflowSessions.get(params.sessionId);
+    const session = await workflowSessions.get(params.sessionId);
     if (!session) {
       return html(`<div class="error">Session not found</div>`);
     }
@@ -372,6 +375,7 @@ export const workflowGuidanceRoutes = new Elysia({ prefix: "/workflow" })
     if (note) {
       session.agentNotes.push(`Agent Note: ${note}`);
       session.lastUpdated = new Date().toISOString();
+      await workflowSessions.save(session);
     }
 
     return html(`<div class="success">Note added successfully</div>`);
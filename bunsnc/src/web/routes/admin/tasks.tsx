@@ -164,6 +164,11 @@ const app = new Elysia().use(html()).get("/admin/tasks", () => {
                                     @click="activeTab = 'scheduled'; loadScheduledTasks()">
                                 Scheduled Tasks
                             </button>
+                            <button class="py-4 px-1 border-b-2 font-medium text-sm"
+                                    :class="activeTab === 'workflows' ? 'border-purple-500 text-purple-600' : 'border-transparent text-gray-500 hover:text-gray-700'"
+                                    @click="activeTab = 'workflows'; loadWorkflows()">
+                                Workflows
+                            </button>
                             <button class="py-4 px-1 border-b-2 font-medium text-sm"
                                     :class="activeTab === 'history' ? 'border-purple-500 text-purple-600' : 'border-transparent text-gray-500 hover:text-gray-700'"
                                     @click="activeTab = 'history'; loadHistory()">
@@ -319,6 +324,75 @@ const app = new Elysia().use(html()).get("/admin/tasks", () => {
                             </div>
                         </div>
                         
+                        <!-- Workflows Tab -->
+                        <div x-show="activeTab === 'workflows'" class="space-y-6">
+                            <h3 class="text-lg font-semibold text-gray-900">Workflows</h3>
+                            
+                            <!-- Workflow Runs -->
+                            <div class="space-y-4">
+                                <template x-for="workflow in workflows" :key="workflow.id">
+                                    <div class="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                                        <div class="flex items-center justify-between">
+                                            <div class="flex items-center space-x-3">
+                                                <h4 class="font-semibold text-gray-900" x-text="workflow.name"></h4>
+                                                <span class="status-indicator" 
+                                                      :class="{
+                                                        'bg-blue-100 text-blue-800': workflow.status === 'running',
+                                                        'bg-green-100 text-green-800': workflow.status === 'completed',
+                                                        'bg-red-100 text-red-800': workflow.status === 'failed',
+                                                        'bg-gray-100 text-gray-800': workflow.status === 'cancelled'
+                                                      }"
+                                                      x-text="workflow.status"></span>
+                                                <span class="text-xs text-gray-500" x-text="formatDate(workflow.createdAt)"></span>
+                                            </div>
+                                            <button class="text-red-600 hover:text-red-800 text-sm"
+                                                    @click="cancelWorkflow(workflow.id)"
+                                                    x-show="workflow.status === 'running'">
+                                                Cancel
+                                            </button>
+                                        </div>
+                                        
+                                        <!-- Progress across the chain -->
+                                        <div class="flex items-center space-x-3 mt-3">
+                                            <div class="flex-1 bg-gray-200 rounded-full h-2">
+                                                <div class="bg-purple-600 h-2 rounded-full" 
+                                                     :style="\`width: \${workflow.progress || 0}%\`"></div>
+                                            </div>
+                                            <span class="text-xs text-gray-500" x-text="\`\${workflow.progress || 0}%\`"></span>
+                                        </div>
+                                        
+                                        <!-- Steps -->
+                                        <div class="flex flex-wrap gap-2 mt-3">
+                                            <template x-for="step in workflow.steps" :key="step.id">
+                                                <div class="px-3 py-2 rounded-lg border text-xs"
+                                                     :class="{
+                                                       'bg-white border-gray-200 text-gray-500': step.status === 'waiting' || step.status === 'skipped',
+                                                       'bg-yellow-50 border-yellow-200 text-yellow-800': step.status === 'queued' || step.status === 'retrying',
+                                                       'bg-blue-50 border-blue-200 text-blue-800': step.status === 'running',
+                                                       'bg-green-50 border-green-200 text-green-800': step.status === 'completed',
+                                                       'bg-red-50 border-red-200 text-red-800': step.status === 'failed' || step.status === 'cancelled'
+                                                     }"
+                                                     :title="step.error || step.skipReason || ''">
+                                                    <div class="font-medium" x-text="step.id"></div>
+                                                    <div>
+                                                        <span x-text="step.status"></span>
+                                                        <span x-show="step.status === 'running'" x-text="\` \${step.progress}%\`"></span>
+                                                        <span x-show="step.attempts > 1" x-text="\` (attempt \${step.attempts})\`"></span>
+                                                    </div>
+                                                    <div class="text-gray-400" x-show="step.dependsOn.length > 0" 
+                                                         x-text="'after ' + step.dependsOn.join(', ')"></div>
+                                                </div>
+                                            </template>
+                                        </div>
+                                    </div>
+                                </template>
+                                
+                                <div x-show="workflows.length === 0" class="text-center py-8 text-gray-500">
+                                    No workflows found
+                                </div>
+                            </div>
+                        </div>
+                        
                         <!-- History Tab -->
                         <div x-show="activeTab === 'history'" class="space-y-6">
                             <h3 class="text-lg font-semibold text-gray-900">Task Execution History</h3>
@@ -407,6 +481,7 @@ const app = new Elysia().use(html()).get("/admin/tasks", () => {
                 activeTab: 'queue',
                 tasks: [],
                 scheduledTasks: [],
+                workflows: [],
                 history: [],
                 stats: {},
                 systemHealth: { healthy: false },
@@ -469,6 +544,18 @@ const app = new Elysia().use(html()).get("/admin/tasks", () => {
                     }
                 },
                 
+                async loadWorkflows() {
+                    try {
+                        const response = await fetch('/api/v1/tasks/workflows?limit=20');
+                        const data = await response.json();
+                        if (data.success) {
+                            this.workflows = data.data.workflows || [];
+                        }
+                    } catch (error) {
+                        console.error('Error loading workflows:', error);
+                    }
+                },
+                
                 async loadHistory() {
                     try {
                         const response = await fetch('/api/v1/tasks/history?limit=20');
@@ -517,6 +604,29 @@ const app = new Elysia().use(html()).get("/admin/tasks", () => {
                     }
                 },
                 
+                async cancelWorkflow(workflowId) {
+                    if (!confirm('Are you sure you want to cancel this workflow?')) return;
+                    
+                    try {
+                        const response = await fetch(\`/api/v1/tasks/workflows/\${workflowId}/cancel\`, {
+                            method: 'POST',
+                            headers: { 'Content-Type': 'application/json' },
+                            body: JSON.stringify({ reason: 'Cancelled by user' })
+                        });
+                        
+                        const data = await response.json();
+                        if (data.success) {
+                            await this.loadWorkflows();
+                            this.showNotification('Workflow cancelled successfully', 'success');
+                        } else {
+                            this.showNotification('Failed to cancel workflow: ' + data.error, 'error');
+                        }
+                    } catch (error) {
+                        console.error('Error cancelling workflow:', error);
+                        this.showNotification('Error cancelling workflow', 'error');
+                    }
+                },
+                
                 async triggerScheduledTask(taskId) {
                     try {
                         const response = await fetch(\`/api/v1/tasks/scheduled/\${taskId}/trigger\`, {
@@ -571,6 +681,8 @@ const app = new Elysia().use(html()).get("/admin/tasks", () => {
                             await this.loadTasks();
                         } else if (this.activeTab === 'scheduled') {
                             await this.loadScheduledTasks();
+                        } else if (this.activeTab === 'workflows') {
+                            await this.loadWorkflows();
                         }
                         await this.checkHealth();
                     }, 10000); // Refresh every 10 seconds
@@ -0,0 +1,157 @@
+/**
+ * Penalty Report API Routes - Contract penalty invoice of a billing period
+ * Author: Juliano Stefano <jsdealencar@ayesa.com> [2025]
+ */
+
+import { Elysia, t } from "elysia";
+import { MongoClient } from "mongodb";
+import { ContractualSLAService } from "../../../services/ContractualSLAService";
+import { EnhancedMetricsService } from "../../../services/EnhancedMetricsService";
+import {
+  InvalidBillingPeriodError,
+  PenaltyInvoiceService,
+  resolveBillingPeriod,
+} from "../../../services/sla/PenaltyInvoiceService";
+import {
+  PENALTY_INVOICE_FORMATS,
+  renderPenaltyInvoice,
+  type PenaltyInvoiceFormat,
+} from "../../../services/sla/PenaltyInvoiceExport";
+import { TicketType, type SLAPauseRules } from "../../../types/ContractualSLA";
+import { pluginConfigManager } from "../../../plugins/config-manager";
+import { logger } from "../../../utils/Logger";
+
+// Initialize services
+const mongoClient = new MongoClient(
+  process.env.MONGODB_URL || "mongodb://localhost:27018",
+);
+const databaseName = process.env.MONGODB_DATABASE || "bunsnc";
+
+let penaltyInvoiceService: PenaltyInvoiceService;
+
+// Initialize services on first request
+const initializeServices = async () => {
+  if (!penaltyInvoiceService) {
+    await mongoClient.connect();
+    const contractualSLAService = ContractualSLAService.getInstance(
+      mongoClient,
+      databaseName,
+    );
+    await contractualSLAService.initialize();
+
+    const config = await pluginConfigManager.load();
+    if (config.sla?.pause) {
+      contractualSLAService.setPauseRules(
+        config.sla.pause as Partial<SLAPauseRules>,
+      );
+    }
+
+    penaltyInvoiceService = new PenaltyInvoiceService(
+      EnhancedMetricsService.getInstance(
+        mongoClient,
+        databaseName,
+        contractualSLAService,
+      ),
+      contractualSLAService,
+    );
+
+    logger.info(" [PenaltyReport] Services initialized");
+  }
+  return { penaltyInvoiceService };
+};
+
+const app = new Elysia({ prefix: "/api/penalty-report" })
+  .derive(async () => {
+    const services = await initializeServices();
+    return services;
+  })
+
+  // Penalty invoice: ?period=YYYY-MM (or start_date/end_date)&format=json|csv|xlsx|html
+  .get(
+    "/",
+    async ({ query, penaltyInvoiceService, set }) => {
+      try {
+        const format = (query.format?.toLowerCase() ||
+          "json") as PenaltyInvoiceFormat;
+        if (!PENALTY_INVOICE_FORMATS.includes(format)) {
+          set.status = 400;
+          return {
+            success: false,
+            error: `Invalid format: ${query.format}`,
+            timestamp: new Date().toISOString(),
+          };
+        }
+
+        const ticketType = query.ticket_type?.toLowerCase() as
+          | TicketType
+          | undefined;
+        if (ticketType && !Object.values(TicketType).includes(ticketType)) {
+          set.status = 400;
+          return {
+            success: false,
+            error: `Invalid ticket type: ${query.ticket_type}`,
+            timestamp: new Date().toISOString(),
+          };
+        }
+
+        const billing = (await pluginConfigManager.load()).sla?.billing ?? {};
+        const period = resolveBillingPeriod(query, billing.timezone);
+        const invoice = await penaltyInvoiceService.generate({
+          period_start: period.start,
+          period_end: period.end,
+          label: period.label,
+          ticket_types: ticketType ? [ticketType] : undefined,
+          monthly_fee: query.monthly_fee
+            ? parseFloat(query.monthly_fee)
+            : billing.monthly_fee || undefined,
+          currency: billing.currency,
+          penalty_cap_percentage: query.penalty_cap
+            ? parseFloat(query.penalty_cap)
+            : billing.penalty_cap_percentage,
+        });
+
+        if (format === "json") {
+          return {
+            success: true,
+            data: invoice,
+            timestamp: new Date().toISOString(),
+          };
+        }
+
+        const rendered = renderPenaltyInvoice(invoice, format);
+        return new Response(rendered.body, {
+          headers: {
+            "Content-Type": rendered.content_type,
+            "Content-Disposition": `${format === "html" ? "inline" : "attachment"}; filename="${rendered.filename}"`,
+          },
+        });
+      } catch (error: unknown) {
+        if (error instanceof InvalidBillingPeriodError) {
+          set.status = 400;
+        } else {
+          logger.error(
+            " [PenaltyReport] Error generating penalty invoice:",
+            error,
+          );
+        }
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        };
+      }
+    },
+    {
+      query: t.Object({
+        period: t.Optional(t.String()),
+        start_date: t.Optional(t.String()),
+        end_date: t.Optional(t.String()),
+        format: t.Optional(t.String()),
+        ticket_type: t.Optional(t.String()),
+        monthly_fee: t.Optional(t.String()),
+        penalty_cap: t.Optional(t.String()),
+      }),
+    },
+  );
+
+export default app;
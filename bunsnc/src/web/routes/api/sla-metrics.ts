@@ -8,7 +8,17 @@ import { MongoClient } from "mongodb";
 import { ContractualSLAService } from "../../../services/ContractualSLAService";
 import { EnhancedMetricsService } from "../../../services/EnhancedMetricsService";
 import { ContractualViolationService } from "../../../services/ContractualViolationService";
-import { TicketType, MetricType } from "../../../types/ContractualSLA";
+import {
+  TicketType,
+  MetricType,
+  type BusinessSchedule,
+  type SLAAlertRecord,
+  type SLAPauseRules,
+} from "../../../types/ContractualSLA";
+import { MongoSLAAlertStore } from "../../../services/sla/SLAAlertStore";
+import { COLLECTION_NAMES } from "../../../config/mongodb-collections";
+import { pluginConfigManager } from "../../../plugins/config-manager";
+import { scheduleIntervals } from "../../../utils/BusinessSchedule";
 import { logger } from "../../../utils/Logger";
 
 // Initialize services
@@ -17,6 +27,12 @@ const mongoClient = new MongoClient(
 );
 const databaseName = process.env.MONGODB_DATABASE || "bunsnc";
 
+const slaAlerts = new MongoSLAAlertStore(() =>
+  mongoClient
+    .db(databaseName)
+    .collection<SLAAlertRecord>(COLLECTION_NAMES.SLA_ALERTS),
+);
+
 let contractualSLAService: ContractualSLAService;
 let enhancedMetricsService: EnhancedMetricsService;
 let contractualViolationService: ContractualViolationService;
@@ -31,6 +47,13 @@ const initializeServices = async () => {
     );
     await contractualSLAService.initialize();
 
+    const config = await pluginConfigManager.load();
+    if (config.sla?.pause) {
+      contractualSLAService.setPauseRules(
+        config.sla.pause as Partial<SLAPauseRules>,
+      );
+    }
+
     enhancedMetricsService = EnhancedMetricsService.getInstance(
       mongoClient,
       databaseName,
@@ -486,6 +509,172 @@ const app = new Elysia({ prefix: "/api/sla-metrics" })
     },
   )
 
+  // Business schedules (cmn_schedule-like, picked per assignment group)
+  .get("/schedules", async ({ contractualSLAService }) => {
+    try {
+      const schedules = await contractualSLAService.schedules.list();
+      return {
+        success: true,
+        data: schedules,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error: unknown) {
+      logger.error(" [SLAMetrics] Error listing schedules:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      };
+    }
+  })
+
+  .put(
+    "/schedules/:id",
+    async ({ params, body, contractualSLAService }) => {
+      try {
+        const schedule = { ...body, id: params.id } as BusinessSchedule;
+        // Fails early on bad times or timezones
+        scheduleIntervals(schedule, new Date(), new Date(Date.now() + 1));
+        await contractualSLAService.saveSchedule(schedule);
+
+        return {
+          success: true,
+          data: schedule,
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error: unknown) {
+        logger.error(
+          ` [SLAMetrics] Error saving schedule ${params.id}:`,
+          error,
+        );
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        };
+      }
+    },
+    {
+      body: t.Object({
+        name: t.String(),
+        timezone: t.String(),
+        spans: t.Array(t.Any()),
+        groups: t.Optional(t.Array(t.String())),
+        is_default: t.Optional(t.Boolean()),
+      }),
+    },
+  )
+
+  // Body is the raw .ics file
+  .post(
+    "/schedules/:id/import",
+    async ({ params, query, request, contractualSLAService }) => {
+      try {
+        const result = await contractualSLAService.importSchedule(
+          params.id,
+          await request.text(),
+          {
+            name: query.name,
+            timezone: query.timezone,
+            type: query.type === "include" ? "include" : "exclude",
+            groups: query.groups?.split(",").map((group) => group.trim()),
+            replace: query.replace === "true",
+          },
+        );
+
+        return {
+          success: true,
+          data: result,
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error: unknown) {
+        logger.error(
+          ` [SLAMetrics] Error importing schedule ${params.id}:`,
+          error,
+        );
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        };
+      }
+    },
+    {
+      query: t.Object({
+        name: t.Optional(t.String()),
+        timezone: t.Optional(t.String()),
+        type: t.Optional(t.String()),
+        groups: t.Optional(t.String()),
+        replace: t.Optional(t.String()),
+      }),
+    },
+  )
+
+  // Predictive breach alerts waiting for acknowledgement
+  .get(
+    "/alerts",
+    async ({ query }) => {
+      try {
+        const alerts = query.ticket
+          ? await slaAlerts.list(query.ticket)
+          : await slaAlerts.unacknowledged(
+              query.limit ? parseInt(query.limit) : undefined,
+            );
+        return {
+          success: true,
+          data: alerts,
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error: unknown) {
+        logger.error(" [SLAMetrics] Error listing SLA alerts:", error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        };
+      }
+    },
+    {
+      query: t.Object({
+        ticket: t.Optional(t.String()),
+        limit: t.Optional(t.String()),
+      }),
+    },
+  )
+
+  // Stops escalation: later thresholds only reach the acknowledging user
+  .post(
+    "/alerts/:ticketId/acknowledge",
+    async ({ params, body }) => {
+      try {
+        const acknowledged = await slaAlerts.acknowledge(
+          params.ticketId,
+          body.user,
+        );
+        return {
+          success: true,
+          data: { ticket_id: params.ticketId, acknowledged },
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error: unknown) {
+        logger.error(
+          ` [SLAMetrics] Error acknowledging alerts of ${params.ticketId}:`,
+          error,
+        );
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        };
+      }
+    },
+    {
+      body: t.Object({
+        user: t.String(),
+      }),
+    },
+  )
+
   // Health check endpoint
   .get("/health", async ({ contractualSLAService }) => {
     try {
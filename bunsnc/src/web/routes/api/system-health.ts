@@ -9,6 +9,7 @@ import { serviceNowCircuitBreaker } from "../../services/CircuitBreaker";
 import { streamHandler } from "../../services/streaming/StreamHandler";
 import { neuralSearchService } from "../../services/NeuralSearchService";
 import { SystemService } from "../../../services/SystemService";
+import { leaseStatuses } from "../../../services/system/LeaderLease";
 import { logger } from "../../utils/Logger";
 
 export const systemHealthApiRoutes = new Elysia({ prefix: "/api/system" })
@@ -19,11 +20,13 @@ export const systemHealthApiRoutes = new Elysia({ prefix: "/api/system" })
         circuitBreakerHealth,
         streamingHealth,
         neuralSearchHealth,
+        leases,
       ] = await Promise.all([
         serviceNowRateLimiter.getHealthStatus(),
         serviceNowCircuitBreaker.getHealthStatus(),
         streamHandler.getHealthStatus(),
         neuralSearchService.getHealthStatus(),
+        leaseStatuses(),
       ]);
 
       const overallHealth =
@@ -41,6 +44,7 @@ export const systemHealthApiRoutes = new Elysia({ prefix: "/api/system" })
           circuitBreaker: circuitBreakerHealth,
           streaming: streamingHealth,
           neuralSearch: neuralSearchHealth,
+          leases,
         },
       };
     } catch (error: unknown) {
@@ -205,6 +209,23 @@ export const systemHealthApiRoutes = new Elysia({ prefix: "/api/system" })
     }
   })
 
+  .get("/leases", async () => {
+    try {
+      return {
+        success: true,
+        leases: await leaseStatuses(),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error: unknown) {
+      logger.error("[SystemHealthAPI] Lease status failed:", error);
+      return {
+        success: false,
+        error: "Lease status failed",
+        details: error instanceof Error ? error.message : String(error),
+      };
+    }
+  })
+
   .get("/scheduler/status", async () => {
     try {
       const systemService = SystemService.getInstance();
@@ -10,6 +10,11 @@ import {
   TaskStatus,
 } from "../../../background/TaskQueue";
 import TaskManager from "../../../background/TaskManager";
+import TaskScheduler, {
+  DEFAULT_TIMEZONE,
+} from "../../../background/TaskScheduler";
+import { InvalidCronExpressionError } from "../../../utils/CronExpression";
+import { InvalidWorkflowError } from "../../../background/TaskWorkflow";
 
 // Global task manager instance (will be injected)
 let taskManager: TaskManager;
@@ -180,6 +185,207 @@ const app = new Elysia({ prefix: "/api/v1/tasks" })
     },
   )
 
+  // Workflows
+  .get(
+    "/workflows",
+    async ({ query }) => {
+      try {
+        if (!taskManager) {
+          return {
+            success: false,
+            error: "Task Manager not initialized",
+            timestamp: new Date().toISOString(),
+          };
+        }
+
+        const limit = Math.min(parseInt(query.limit as string) || 20, 100);
+        const workflows = await taskManager.getWorkflows(limit);
+
+        return {
+          success: true,
+          data: { workflows },
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error: unknown) {
+        console.error("Error fetching workflows:", error);
+        return {
+          success: false,
+          error: error.message,
+          timestamp: new Date().toISOString(),
+        };
+      }
+    },
+    {
+      query: t.Object({
+        limit: t.Optional(t.String()),
+      }),
+    },
+  )
+
+  .post(
+    "/workflows",
+    async ({ body, set }) => {
+      try {
+        if (!taskManager) {
+          return {
+            success: false,
+            error: "Task Manager not initialized",
+            timestamp: new Date().toISOString(),
+          };
+        }
+
+        const { createdBy, ...definition } = body;
+        const workflow = await taskManager.startWorkflow(
+          definition,
+          createdBy || "api",
+        );
+
+        return {
+          success: true,
+          data: { workflow },
+          message: "Workflow started successfully",
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error: unknown) {
+        if (error instanceof InvalidWorkflowError) {
+          set.status = 400;
+        }
+        console.error("Error starting workflow:", error);
+        return {
+          success: false,
+          error: error.message,
+          timestamp: new Date().toISOString(),
+        };
+      }
+    },
+    {
+      body: t.Object({
+        name: t.String(),
+        steps: t.Array(
+          t.Object({
+            id: t.String(),
+            type: t.Enum(TaskType),
+            data: t.Optional(t.Record(t.String(), t.Any())),
+            dependsOn: t.Optional(t.Array(t.String())),
+            trigger: t.Optional(
+              t.Union([
+                t.Literal("all_succeeded"),
+                t.Literal("any_failed"),
+                t.Literal("always"),
+              ]),
+            ),
+            condition: t.Optional(
+              t.Object({
+                step: t.String(),
+                path: t.Optional(t.String()),
+                op: t.Union([
+                  t.Literal("eq"),
+                  t.Literal("ne"),
+                  t.Literal("gt"),
+                  t.Literal("gte"),
+                  t.Literal("lt"),
+                  t.Literal("lte"),
+                  t.Literal("exists"),
+                  t.Literal("truthy"),
+                ]),
+                value: t.Optional(t.Any()),
+              }),
+            ),
+            priority: t.Optional(t.Enum(TaskPriority)),
+            maxRetries: t.Optional(t.Number()),
+          }),
+        ),
+        priority: t.Optional(t.Enum(TaskPriority)),
+        tags: t.Optional(t.Array(t.String())),
+        createdBy: t.Optional(t.String()),
+      }),
+    },
+  )
+
+  .get("/workflows/:id", async ({ params, set }) => {
+    try {
+      if (!taskManager) {
+        return {
+          success: false,
+          error: "Task Manager not initialized",
+          timestamp: new Date().toISOString(),
+        };
+      }
+
+      const workflow = await taskManager.getWorkflow(params.id);
+
+      if (!workflow) {
+        set.status = 404;
+        return {
+          success: false,
+          error: "Workflow not found",
+          timestamp: new Date().toISOString(),
+        };
+      }
+
+      return {
+        success: true,
+        data: { workflow },
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error: unknown) {
+      console.error(`Error fetching workflow ${params.id}:`, error);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  })
+
+  .post(
+    "/workflows/:id/cancel",
+    async ({ params, body, set }) => {
+      try {
+        if (!taskManager) {
+          return {
+            success: false,
+            error: "Task Manager not initialized",
+            timestamp: new Date().toISOString(),
+          };
+        }
+
+        const workflow = await taskManager.cancelWorkflow(
+          params.id,
+          body.reason,
+        );
+
+        if (!workflow) {
+          set.status = 404;
+          return {
+            success: false,
+            error: "Workflow not found",
+            timestamp: new Date().toISOString(),
+          };
+        }
+
+        return {
+          success: true,
+          data: { workflow },
+          message: "Workflow cancelled successfully",
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error: unknown) {
+        console.error(`Error cancelling workflow ${params.id}:`, error);
+        return {
+          success: false,
+          error: error.message,
+          timestamp: new Date().toISOString(),
+        };
+      }
+    },
+    {
+      body: t.Object({
+        reason: t.Optional(t.String()),
+      }),
+    },
+  )
+
   // Queue Statistics
   .get("/stats/queue", async () => {
     try {
@@ -331,7 +537,7 @@ const app = new Elysia({ prefix: "/api/v1/tasks" })
 
   .post(
     "/scheduled",
-    async ({ body }) => {
+    async ({ body, set }) => {
       try {
         if (!taskManager) {
           return {
@@ -350,6 +556,9 @@ const app = new Elysia({ prefix: "/api/v1/tasks" })
           timestamp: new Date().toISOString(),
         };
       } catch (error: unknown) {
+        if (error instanceof InvalidCronExpressionError) {
+          set.status = 400;
+        }
         console.error("Error scheduling task:", error);
         return {
           success: false,
@@ -363,6 +572,14 @@ const app = new Elysia({ prefix: "/api/v1/tasks" })
         name: t.String(),
         description: t.String(),
         cronExpression: t.String(),
+        timezone: t.Optional(t.String()),
+        misfirePolicy: t.Optional(
+          t.Union([
+            t.Literal("fire_once"),
+            t.Literal("fire_all"),
+            t.Literal("skip"),
+          ]),
+        ),
         taskType: t.Enum(TaskType),
         taskData: t.Record(t.String(), t.Any()),
         priority: t.Optional(t.Enum(TaskPriority)),
@@ -375,6 +592,59 @@ const app = new Elysia({ prefix: "/api/v1/tasks" })
     },
   )
 
+  // Next runs of a cron expression: ?cron=0 9 * * MON-FRI&timezone=...&count=5
+  .get(
+    "/scheduled/preview",
+    ({ query, set }) => {
+      try {
+        const count = Math.min(parseInt(query.count || "5", 10) || 5, 100);
+        const from = query.from ? new Date(query.from) : undefined;
+        if (from && isNaN(from.getTime())) {
+          set.status = 400;
+          return {
+            success: false,
+            error: `Invalid from date: ${query.from}`,
+            timestamp: new Date().toISOString(),
+          };
+        }
+        const nextRuns = TaskScheduler.previewRuns(query.cron, {
+          timezone: query.timezone,
+          count,
+          from,
+        });
+
+        return {
+          success: true,
+          data: {
+            cronExpression: query.cron,
+            timezone: query.timezone || DEFAULT_TIMEZONE,
+            nextRuns: nextRuns.map((run) => run.toISOString()),
+          },
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error: unknown) {
+        if (error instanceof InvalidCronExpressionError) {
+          set.status = 400;
+        } else {
+          console.error("Error previewing cron expression:", error);
+        }
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        };
+      }
+    },
+    {
+      query: t.Object({
+        cron: t.String(),
+        timezone: t.Optional(t.String()),
+        count: t.Optional(t.String()),
+        from: t.Optional(t.String()),
+      }),
+    },
+  )
+
   .delete("/scheduled/:id", async ({ params }) => {
     try {
       if (!taskManager) {